@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "processing_batches" ADD COLUMN     "report" JSONB;
+
+-- CreateIndex
+CREATE INDEX "processing_batches_startedAt_idx" ON "processing_batches"("startedAt");
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "processing_batches" ADD COLUMN     "profileId" TEXT;
+
+-- CreateTable
+CREATE TABLE "import_profiles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "columnMapping" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "import_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "import_profiles_name_key" ON "import_profiles"("name");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "clients_deletedAt_idx" ON "clients"("deletedAt");
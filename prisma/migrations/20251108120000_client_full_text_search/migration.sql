@@ -0,0 +1,10 @@
+-- AlterTable
+-- Names and emails are indexed without stemming (weight A); transcriptions with Spanish and English stemming (weight B)
+ALTER TABLE "clients" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple'::regconfig, "name" || ' ' || "email"), 'A') ||
+  setweight(to_tsvector('spanish'::regconfig, "transcription"), 'B') ||
+  setweight(to_tsvector('english'::regconfig, "transcription"), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "clients_searchVector_idx" ON "clients" USING GIN ("searchVector");
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "sellers" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "hireDate" TIMESTAMP(3),
+    "team" TEXT,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sellers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sellers_name_key" ON "sellers"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sellers_email_key" ON "sellers"("email");
+
+-- Deduplicate the free-text sellers: spellings that only differ in case or spacing ("Toro", "toro",
+-- "Toro ") become one seller, named after the most used spelling
+WITH "spellings" AS (
+    SELECT
+        lower(regexp_replace(btrim("assignedSeller"), '\s+', ' ', 'g')) AS "key",
+        regexp_replace(btrim("assignedSeller"), '\s+', ' ', 'g') AS "spelling",
+        COUNT(*) AS "uses"
+    FROM "clients"
+    GROUP BY 1, 2
+)
+INSERT INTO "sellers" ("id", "name", "updatedAt")
+SELECT gen_random_uuid()::TEXT, (array_agg("spelling" ORDER BY "uses" DESC, "spelling"))[1], CURRENT_TIMESTAMP
+FROM "spellings"
+GROUP BY "key";
+
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN     "sellerId" TEXT;
+
+-- Point every client at its seller and store the seller's name
+UPDATE "clients"
+SET "sellerId" = "sellers"."id", "assignedSeller" = "sellers"."name"
+FROM "sellers"
+WHERE lower("sellers"."name") = lower(regexp_replace(btrim("clients"."assignedSeller"), '\s+', ' ', 'g'));
+
+ALTER TABLE "clients" ALTER COLUMN "sellerId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "clients_sellerId_idx" ON "clients"("sellerId");
+
+-- AddForeignKey
+ALTER TABLE "clients" ADD CONSTRAINT "clients_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "sellers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "teams" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "region" TEXT,
+    "manager" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "teams_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "team_memberships" (
+    "id" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "team_memberships_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "teams_name_key" ON "teams"("name");
+
+-- CreateIndex
+CREATE INDEX "teams_region_idx" ON "teams"("region");
+
+-- CreateIndex
+CREATE INDEX "team_memberships_teamId_idx" ON "team_memberships"("teamId");
+
+-- CreateIndex
+CREATE INDEX "team_memberships_sellerId_idx" ON "team_memberships"("sellerId");
+
+-- AddForeignKey
+ALTER TABLE "team_memberships" ADD CONSTRAINT "team_memberships_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "team_memberships" ADD CONSTRAINT "team_memberships_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "sellers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Turn the free-text seller teams into teams, with open memberships starting at the seller's hire
+-- date or, without one, at the seller's first meeting so their whole history rolls up to the team
+INSERT INTO "teams" ("id", "name", "updatedAt")
+SELECT gen_random_uuid()::TEXT, "team", CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT btrim("team") AS "team" FROM "sellers" WHERE btrim("team") <> '') AS "names";
+
+INSERT INTO "team_memberships" ("id", "teamId", "sellerId", "startDate")
+SELECT
+    gen_random_uuid()::TEXT,
+    "teams"."id",
+    "sellers"."id",
+    COALESCE(
+        "sellers"."hireDate",
+        (SELECT MIN("meetingDate") FROM "clients" WHERE "clients"."sellerId" = "sellers"."id"),
+        "sellers"."createdAt"
+    )
+FROM "sellers"
+JOIN "teams" ON "teams"."name" = btrim("sellers"."team");
+
+-- AlterTable
+ALTER TABLE "sellers" DROP COLUMN "team";
@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "pipeline_stages" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "outcome" TEXT NOT NULL DEFAULT 'open',
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pipeline_stages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "client_stage_changes" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "fromStageId" TEXT NOT NULL,
+    "toStageId" TEXT NOT NULL,
+    "note" TEXT,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "client_stage_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pipeline_stages_name_key" ON "pipeline_stages"("name");
+
+-- CreateIndex
+CREATE INDEX "client_stage_changes_clientId_changedAt_idx" ON "client_stage_changes"("clientId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "client_stage_changes" ADD CONSTRAINT "client_stage_changes_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_stage_changes" ADD CONSTRAINT "client_stage_changes_fromStageId_fkey" FOREIGN KEY ("fromStageId") REFERENCES "pipeline_stages"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_stage_changes" ADD CONSTRAINT "client_stage_changes_toStageId_fkey" FOREIGN KEY ("toStageId") REFERENCES "pipeline_stages"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Default pipeline; the first open stage receives new open deals and the first won stage closed ones
+INSERT INTO "pipeline_stages" ("id", "name", "position", "outcome", "aliases", "updatedAt") VALUES
+    (gen_random_uuid()::TEXT, 'New', 0, 'open', ARRAY['Nuevo', 'Open', 'Abierto'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'Negotiation', 1, 'open', ARRAY['Negociación', 'Negociacion', 'In negotiation'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'Won', 2, 'won', ARRAY['Ganado', 'Closed', 'Cerrado', 'Closed won'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'Lost', 3, 'lost', ARRAY['Perdido', 'Closed lost'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'No-show', 4, 'lost', ARRAY['No show', 'No asistió', 'No asistio'], CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN     "stageId" TEXT;
+
+-- Closed clients start in Won, the rest in New
+UPDATE "clients"
+SET "stageId" = (SELECT "id" FROM "pipeline_stages" WHERE "name" = CASE WHEN "clients"."closed" THEN 'Won' ELSE 'New' END);
+
+ALTER TABLE "clients" ALTER COLUMN "stageId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "clients_stageId_idx" ON "clients"("stageId");
+
+-- AddForeignKey
+ALTER TABLE "clients" ADD CONSTRAINT "clients_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "pipeline_stages"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
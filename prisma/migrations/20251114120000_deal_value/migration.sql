@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN "dealAmount" DECIMAL(14,2),
+ADD COLUMN "currency" TEXT;
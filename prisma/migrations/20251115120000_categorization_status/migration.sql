@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN "categorizationStatus" TEXT;
+
+-- Clients processed before the output was validated are taken as valid
+UPDATE "clients" SET "categorizationStatus" = 'valid' WHERE "processed" = true;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "analysis_logs" ADD COLUMN "promptVersion" TEXT,
+ADD COLUMN "model" TEXT,
+ADD COLUMN "rawResponse" TEXT,
+ADD COLUMN "latencyMs" INTEGER,
+ADD COLUMN "inputTokens" INTEGER,
+ADD COLUMN "outputTokens" INTEGER;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN "categorizationPromptVersion" TEXT;
+
+-- Processed clients take the categorization prompt version of their latest logged categorization;
+-- clients processed before the analysis log kept prompt versions stay unknown
+UPDATE "clients"
+SET "categorizationPromptVersion" = "latest"."promptVersion"
+FROM (
+    SELECT DISTINCT ON ("clientId") "clientId", "promptVersion"
+    FROM "analysis_logs"
+    WHERE "action" = 'categorization' AND "promptVersion" LIKE 'categorization@%'
+    ORDER BY "clientId", "executedAt" DESC
+) AS "latest"
+WHERE "clients"."id" = "latest"."clientId" AND "clients"."processed" = true;
@@ -1,7 +1,10 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConversionAnalysisController } from './conversion-analysis.controller';
 import { ConversionAnalysisService } from './conversion-analysis.service';
-import { ConversionAnalysisDto, TimelineMetricsDto } from '../../common/dto/analytics';
+import {
+  ConversionAnalysisDto,
+  TimelineMetricsDto,
+} from '../../common/dto/analytics';
 
 describe('ConversionAnalysisController', () => {
   let controller: ConversionAnalysisController;
@@ -52,17 +55,17 @@ describe('ConversionAnalysisController', () => {
         mockTimelineMetrics,
       );
 
-      const result = await controller.getTimeline();
+      const result = await controller.getTimeline({});
 
       expect(result).toEqual(mockTimelineMetrics);
       expect(service.getTimelineMetrics).toHaveBeenCalledTimes(1);
-      expect(service.getTimelineMetrics).toHaveBeenCalledWith();
+      expect(service.getTimelineMetrics).toHaveBeenCalledWith(undefined);
     });
 
     it('should return empty array when no timeline data exists', async () => {
       mockConversionAnalysisService.getTimelineMetrics.mockResolvedValue([]);
 
-      const result = await controller.getTimeline();
+      const result = await controller.getTimeline({});
 
       expect(result).toEqual([]);
       expect(service.getTimelineMetrics).toHaveBeenCalledTimes(1);
@@ -72,7 +75,7 @@ describe('ConversionAnalysisController', () => {
       const error = new Error('Database connection failed');
       mockConversionAnalysisService.getTimelineMetrics.mockRejectedValue(error);
 
-      await expect(controller.getTimeline()).rejects.toThrow(
+      await expect(controller.getTimeline({})).rejects.toThrow(
         'Database connection failed',
       );
       expect(service.getTimelineMetrics).toHaveBeenCalledTimes(1);
@@ -143,7 +146,7 @@ describe('ConversionAnalysisController', () => {
         mockConversionAnalysis,
       );
 
-      const result = await controller.getConversionAnalysis();
+      const result = await controller.getConversionAnalysis({});
 
       expect(result).toEqual(mockConversionAnalysis);
       expect(result.byIndustry).toBeDefined();
@@ -152,7 +155,7 @@ describe('ConversionAnalysisController', () => {
       expect(result.byDiscovery).toBeDefined();
       expect(result.byOperationSize).toBeDefined();
       expect(service.getConversionAnalysis).toHaveBeenCalledTimes(1);
-      expect(service.getConversionAnalysis).toHaveBeenCalledWith();
+      expect(service.getConversionAnalysis).toHaveBeenCalledWith(undefined);
     });
 
     it('should return conversion analysis with empty values', async () => {
@@ -183,7 +186,7 @@ describe('ConversionAnalysisController', () => {
         mockEmptyConversionAnalysis,
       );
 
-      const result = await controller.getConversionAnalysis();
+      const result = await controller.getConversionAnalysis({});
 
       expect(result).toEqual(mockEmptyConversionAnalysis);
       expect(result.byIndustry.values).toEqual([]);
@@ -197,11 +200,10 @@ describe('ConversionAnalysisController', () => {
         error,
       );
 
-      await expect(controller.getConversionAnalysis()).rejects.toThrow(
+      await expect(controller.getConversionAnalysis({})).rejects.toThrow(
         'Service unavailable',
       );
       expect(service.getConversionAnalysis).toHaveBeenCalledTimes(1);
     });
   });
 });
-
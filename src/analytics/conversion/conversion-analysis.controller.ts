@@ -1,24 +1,40 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { ConversionAnalysisService } from './conversion-analysis.service';
+import { SegmentQueryDto } from '../../common/dto/analytics/queries.dto';
 
 @ApiTags('analytics')
 @Controller('analytics')
 export class ConversionAnalysisController {
-  constructor(private readonly conversionAnalysisService: ConversionAnalysisService) {}
+  constructor(
+    private readonly conversionAnalysisService: ConversionAnalysisService,
+  ) {}
 
   @Get('timeline')
-  @ApiOperation({ summary: 'Get timeline metrics for meetings and closed deals' })
-  @ApiResponse({ status: 200, description: 'Timeline metrics retrieved successfully' })
-  async getTimeline() {
-    return this.conversionAnalysisService.getTimelineMetrics();
+  @ApiOperation({
+    summary: 'Get timeline metrics for meetings and closed deals',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Timeline metrics retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async getTimeline(@Query() query: SegmentQueryDto) {
+    return this.conversionAnalysisService.getTimelineMetrics(query.segmentId);
   }
 
   @Get('conversion-analysis')
-  @ApiOperation({ summary: 'Get comprehensive conversion analysis by various dimensions' })
-  @ApiResponse({ status: 200, description: 'Conversion analysis retrieved successfully' })
-  async getConversionAnalysis() {
-    return this.conversionAnalysisService.getConversionAnalysis();
+  @ApiOperation({
+    summary: 'Get comprehensive conversion analysis by various dimensions',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Conversion analysis retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async getConversionAnalysis(@Query() query: SegmentQueryDto) {
+    return this.conversionAnalysisService.getConversionAnalysis(
+      query.segmentId,
+    );
   }
 }
-
@@ -3,12 +3,12 @@ import { ConversionAnalysisService } from './conversion-analysis.service';
 import { ConversionAnalysisController } from './conversion-analysis.controller';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { OverviewModule } from '../overview/overview.module';
+import { ClientsModule } from '../../clients/clients.module';
 
 @Module({
-  imports: [PrismaModule, OverviewModule],
+  imports: [PrismaModule, OverviewModule, ClientsModule],
   controllers: [ConversionAnalysisController],
   providers: [ConversionAnalysisService],
   exports: [ConversionAnalysisService],
 })
 export class ConversionAnalysisModule {}
-
@@ -1,8 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConversionAnalysisService } from './conversion-analysis.service';
 import { PrismaService } from '../../prisma/prisma.service';
+import { ClientsService } from '../../clients/clients.service';
+import { Prisma } from '@prisma/client';
 import { OverviewService } from '../overview/overview.service';
-import { ConversionAnalysisDto, DimensionMetricsDto } from '../../common/dto/analytics';
+import {
+  ConversionAnalysisDto,
+  DimensionMetricsDto,
+} from '../../common/dto/analytics';
 import { DimensionEnum } from '../../common/dto/analytics/queries.dto';
 
 describe('ConversionAnalysisService', () => {
@@ -16,6 +21,10 @@ describe('ConversionAnalysisService', () => {
     },
     $queryRaw: jest.fn(),
   };
+  const mockClientsService = {
+    buildSegmentWhere: jest.fn(),
+    buildSegmentSql: jest.fn().mockResolvedValue(Prisma.empty),
+  };
 
   const mockOverviewService = {
     getMetricsByDimension: jest.fn(),
@@ -29,6 +38,10 @@ describe('ConversionAnalysisService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: ClientsService,
+          useValue: mockClientsService,
+        },
         {
           provide: OverviewService,
           useValue: mockOverviewService,
@@ -125,12 +138,29 @@ describe('ConversionAnalysisService', () => {
         byOperationSize: mockByOperationSize,
       });
 
-      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledTimes(5);
-      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledWith(DimensionEnum.INDUSTRY);
-      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledWith(DimensionEnum.SENTIMENT);
-      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledWith(DimensionEnum.URGENCY_LEVEL);
-      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledWith(DimensionEnum.DISCOVERY_SOURCE);
-      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledWith(DimensionEnum.OPERATION_SIZE);
+      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledTimes(
+        5,
+      );
+      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledWith(
+        DimensionEnum.INDUSTRY,
+        undefined,
+      );
+      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledWith(
+        DimensionEnum.SENTIMENT,
+        undefined,
+      );
+      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledWith(
+        DimensionEnum.URGENCY_LEVEL,
+        undefined,
+      );
+      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledWith(
+        DimensionEnum.DISCOVERY_SOURCE,
+        undefined,
+      );
+      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledWith(
+        DimensionEnum.OPERATION_SIZE,
+        undefined,
+      );
     });
 
     it('should use Promise.all for parallel execution', async () => {
@@ -139,11 +169,15 @@ describe('ConversionAnalysisService', () => {
         values: [],
       };
 
-      mockOverviewService.getMetricsByDimension.mockResolvedValue(mockDimensionResult);
+      mockOverviewService.getMetricsByDimension.mockResolvedValue(
+        mockDimensionResult,
+      );
 
       await service.getConversionAnalysis();
 
-      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledTimes(5);
+      expect(mockOverviewService.getMetricsByDimension).toHaveBeenCalledTimes(
+        5,
+      );
     });
   });
 
@@ -245,8 +279,11 @@ describe('ConversionAnalysisService', () => {
 
       const result = await service.getTimelineMetrics();
 
-      expect(result.map((r) => r.date)).toEqual(['2024-01-15', '2024-01-18', '2024-01-20']);
+      expect(result.map((r) => r.date)).toEqual([
+        '2024-01-15',
+        '2024-01-18',
+        '2024-01-20',
+      ]);
     });
   });
 });
-
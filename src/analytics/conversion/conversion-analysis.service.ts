@@ -1,8 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { Prisma } from '@prisma/client';
-import { ConversionAnalysisDto, TimelineMetricsDto } from '../../common/dto/analytics';
+import {
+  ConversionAnalysisDto,
+  TimelineMetricsDto,
+} from '../../common/dto/analytics';
 import { OverviewService } from '../overview/overview.service';
+import { ClientsService } from '../../clients/clients.service';
 import { DimensionEnum } from '../../common/dto/analytics/queries.dto';
 
 interface TimelineMetricRow {
@@ -18,16 +22,38 @@ export class ConversionAnalysisService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly overviewService: OverviewService,
+    private readonly clientsService: ClientsService,
   ) {}
 
-  async getConversionAnalysis(): Promise<ConversionAnalysisDto> {
-    const [byIndustry, bySentiment, byUrgency, byDiscovery, byOperationSize] = await Promise.all([
-      this.overviewService.getMetricsByDimension(DimensionEnum.INDUSTRY),
-      this.overviewService.getMetricsByDimension(DimensionEnum.SENTIMENT),
-      this.overviewService.getMetricsByDimension(DimensionEnum.URGENCY_LEVEL),
-      this.overviewService.getMetricsByDimension(DimensionEnum.DISCOVERY_SOURCE),
-      this.overviewService.getMetricsByDimension(DimensionEnum.OPERATION_SIZE),
-    ]);
+  /**
+   * @param segmentId - Optional saved segment to scope the metrics to
+   */
+  async getConversionAnalysis(
+    segmentId?: string,
+  ): Promise<ConversionAnalysisDto> {
+    const [byIndustry, bySentiment, byUrgency, byDiscovery, byOperationSize] =
+      await Promise.all([
+        this.overviewService.getMetricsByDimension(
+          DimensionEnum.INDUSTRY,
+          segmentId,
+        ),
+        this.overviewService.getMetricsByDimension(
+          DimensionEnum.SENTIMENT,
+          segmentId,
+        ),
+        this.overviewService.getMetricsByDimension(
+          DimensionEnum.URGENCY_LEVEL,
+          segmentId,
+        ),
+        this.overviewService.getMetricsByDimension(
+          DimensionEnum.DISCOVERY_SOURCE,
+          segmentId,
+        ),
+        this.overviewService.getMetricsByDimension(
+          DimensionEnum.OPERATION_SIZE,
+          segmentId,
+        ),
+      ]);
 
     return {
       byIndustry,
@@ -38,9 +64,14 @@ export class ConversionAnalysisService {
     };
   }
 
-  async getTimelineMetrics(): Promise<TimelineMetricsDto[]> {
+  /**
+   * @param segmentId - Optional saved segment to scope the metrics to
+   */
+  async getTimelineMetrics(segmentId?: string): Promise<TimelineMetricsDto[]> {
     try {
-      const rawResults = await this.executeTimelineAggregationQuery();
+      const rawResults = await this.executeTimelineAggregationQuery(
+        await this.clientsService.buildSegmentSql(segmentId),
+      );
 
       return rawResults.map((row) => {
         const dateStr = row.date.toISOString().split('T')[0];
@@ -56,16 +87,19 @@ export class ConversionAnalysisService {
     }
   }
 
-  private async executeTimelineAggregationQuery(): Promise<TimelineMetricRow[]> {
+  private async executeTimelineAggregationQuery(
+    segmentSql: Prisma.Sql,
+  ): Promise<TimelineMetricRow[]> {
     return this.prisma.$queryRaw<TimelineMetricRow[]>`
       SELECT 
         DATE_TRUNC('day', "meetingDate")::date as date,
         COUNT(*)::bigint as total,
         SUM(CASE WHEN closed = true THEN 1 ELSE 0 END)::bigint as closed
       FROM clients
+      WHERE "deletedAt" IS NULL
+        ${segmentSql}
       GROUP BY date
       ORDER BY date ASC
     `;
   }
 }
-
@@ -78,7 +78,9 @@ describe('IndustriesAnalysisService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesToWatch();
 
@@ -90,7 +92,9 @@ describe('IndustriesAnalysisService', () => {
       expect(prismaService.client.findMany).toHaveBeenCalledWith({
         where: {
           processed: true,
+          categorizationStatus: { not: 'fallback' },
           industry: { not: null },
+          deletedAt: null,
         },
       });
     });
@@ -109,7 +113,9 @@ describe('IndustriesAnalysisService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesToWatch();
 
@@ -136,7 +142,9 @@ describe('IndustriesAnalysisService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesToWatch();
 
@@ -172,7 +180,9 @@ describe('IndustriesAnalysisService', () => {
         });
       }
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesToWatch();
 
@@ -198,7 +208,9 @@ describe('IndustriesAnalysisService', () => {
         });
       }
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesToWatch();
 
@@ -220,4 +232,3 @@ describe('IndustriesAnalysisService', () => {
     });
   });
 });
-
@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { ANALYTICS_CONSTANTS } from '../../../common/constants';
 import { IndustriesToWatchDto } from '../../../common/dto/analytics';
+import { CATEGORIZED_CLIENT_WHERE } from '../../../common/utils/categorization.utils';
 
 @Injectable()
 export class IndustriesAnalysisService {
@@ -15,12 +16,14 @@ export class IndustriesAnalysisService {
    * @returns Industries to watch with expansion opportunities and strategy needed
    */
   async getIndustriesToWatch(): Promise<IndustriesToWatchDto> {
-    const MIN_CLIENTS_FOR_RELIABILITY = ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY;
+    const MIN_CLIENTS_FOR_RELIABILITY =
+      ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY;
 
     const clients = await this.prisma.client.findMany({
       where: {
-        processed: true,
+        ...CATEGORIZED_CLIENT_WHERE,
         industry: { not: null },
+        deletedAt: null,
       },
     });
 
@@ -47,22 +50,29 @@ export class IndustriesAnalysisService {
       if (client.closed) stats.closed++;
     }
 
-    const allIndustriesMapped = Array.from(industryMap.entries()).map(([industry, stats]) => ({
-      industry,
-      clients: stats.clients,
-      closed: stats.closed,
-      conversionRate: parseFloat(
-        ((stats.closed / stats.clients) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(
-          ANALYTICS_CONSTANTS.DECIMAL_PLACES,
+    const allIndustriesMapped = Array.from(industryMap.entries()).map(
+      ([industry, stats]) => ({
+        industry,
+        clients: stats.clients,
+        closed: stats.closed,
+        conversionRate: parseFloat(
+          (
+            (stats.closed / stats.clients) *
+            ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER
+          ).toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES),
         ),
-      ),
-    }));
+      }),
+    );
 
     this.logger.debug(`Total industries found: ${allIndustriesMapped.length}`);
 
-    const industries = allIndustriesMapped.filter((i) => i.clients >= MIN_CLIENTS_FOR_RELIABILITY);
+    const industries = allIndustriesMapped.filter(
+      (i) => i.clients >= MIN_CLIENTS_FOR_RELIABILITY,
+    );
 
-    this.logger.debug(`Industries with ${MIN_CLIENTS_FOR_RELIABILITY}+ clients: ${industries.length}`);
+    this.logger.debug(
+      `Industries with ${MIN_CLIENTS_FOR_RELIABILITY}+ clients: ${industries.length}`,
+    );
 
     if (industries.length === 0) {
       this.logger.warn('No industries meet minimum reliability threshold');
@@ -74,44 +84,61 @@ export class IndustriesAnalysisService {
 
     const avgConversionRate =
       industries.length > 0
-        ? industries.reduce((sum, i) => sum + i.conversionRate, 0) / industries.length
+        ? industries.reduce((sum, i) => sum + i.conversionRate, 0) /
+          industries.length
         : 0;
 
-    const clientCountsSorted = industries.map((i) => i.clients).sort((a, b) => a - b);
-    const conversionRatesSorted = industries.map((i) => i.conversionRate).sort((a, b) => a - b);
+    const clientCountsSorted = industries
+      .map((i) => i.clients)
+      .sort((a, b) => a - b);
+    const conversionRatesSorted = industries
+      .map((i) => i.conversionRate)
+      .sort((a, b) => a - b);
 
     const lowVolumeThreshold =
       clientCountsSorted.length > 0
         ? clientCountsSorted[
-            Math.floor(clientCountsSorted.length * ANALYTICS_CONSTANTS.PERCENTILES.LOW)
+            Math.floor(
+              clientCountsSorted.length * ANALYTICS_CONSTANTS.PERCENTILES.LOW,
+            )
           ]
         : 0;
 
     const highVolumeThreshold =
       clientCountsSorted.length > 0
         ? clientCountsSorted[
-            Math.floor(clientCountsSorted.length * ANALYTICS_CONSTANTS.PERCENTILES.HIGH)
+            Math.floor(
+              clientCountsSorted.length * ANALYTICS_CONSTANTS.PERCENTILES.HIGH,
+            )
           ]
         : 0;
 
     const highConversionThreshold =
       conversionRatesSorted.length > 0
         ? conversionRatesSorted[
-            Math.floor(conversionRatesSorted.length * ANALYTICS_CONSTANTS.PERCENTILES.HIGH)
+            Math.floor(
+              conversionRatesSorted.length *
+                ANALYTICS_CONSTANTS.PERCENTILES.HIGH,
+            )
           ]
         : Math.max(
             ANALYTICS_CONSTANTS.CONVERSION.HIGH_THRESHOLD_MIN,
-            avgConversionRate + ANALYTICS_CONSTANTS.CONVERSION.THRESHOLD_ADJUSTMENT,
+            avgConversionRate +
+              ANALYTICS_CONSTANTS.CONVERSION.THRESHOLD_ADJUSTMENT,
           );
 
     const lowConversionThreshold =
       conversionRatesSorted.length > 0
         ? conversionRatesSorted[
-            Math.floor(conversionRatesSorted.length * ANALYTICS_CONSTANTS.PERCENTILES.LOW)
+            Math.floor(
+              conversionRatesSorted.length *
+                ANALYTICS_CONSTANTS.PERCENTILES.LOW,
+            )
           ]
         : Math.min(
             ANALYTICS_CONSTANTS.CONVERSION.LOW_THRESHOLD_MAX,
-            avgConversionRate - ANALYTICS_CONSTANTS.CONVERSION.THRESHOLD_ADJUSTMENT,
+            avgConversionRate -
+              ANALYTICS_CONSTANTS.CONVERSION.THRESHOLD_ADJUSTMENT,
           );
 
     this.logger.debug(
@@ -119,11 +146,19 @@ export class IndustriesAnalysisService {
     );
 
     const expansionOpportunities = industries
-      .filter((i) => i.clients <= lowVolumeThreshold && i.conversionRate >= highConversionThreshold)
+      .filter(
+        (i) =>
+          i.clients <= lowVolumeThreshold &&
+          i.conversionRate >= highConversionThreshold,
+      )
       .sort((a, b) => b.conversionRate - a.conversionRate);
 
     const strategyNeeded = industries
-      .filter((i) => i.clients >= highVolumeThreshold && i.conversionRate <= lowConversionThreshold)
+      .filter(
+        (i) =>
+          i.clients >= highVolumeThreshold &&
+          i.conversionRate <= lowConversionThreshold,
+      )
       .sort((a, b) => b.clients - a.clients);
 
     this.logger.debug(
@@ -135,8 +170,10 @@ export class IndustriesAnalysisService {
         0,
         ANALYTICS_CONSTANTS.LIMITS.TOP_INDUSTRIES,
       ),
-      strategyNeeded: strategyNeeded.slice(0, ANALYTICS_CONSTANTS.LIMITS.TOP_INDUSTRIES),
+      strategyNeeded: strategyNeeded.slice(
+        0,
+        ANALYTICS_CONSTANTS.LIMITS.TOP_INDUSTRIES,
+      ),
     };
   }
 }
-
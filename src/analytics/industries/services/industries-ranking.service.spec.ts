@@ -64,7 +64,9 @@ describe('IndustriesRankingService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesDetailedRanking();
 
@@ -78,7 +80,9 @@ describe('IndustriesRankingService', () => {
       expect(prismaService.client.findMany).toHaveBeenCalledWith({
         where: {
           processed: true,
+          categorizationStatus: { not: 'fallback' },
           industry: { not: null },
+          deletedAt: null,
         },
       });
     });
@@ -108,7 +112,9 @@ describe('IndustriesRankingService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesDetailedRanking();
 
@@ -140,7 +146,9 @@ describe('IndustriesRankingService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesDetailedRanking();
 
@@ -166,7 +174,9 @@ describe('IndustriesRankingService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesDetailedRanking();
 
@@ -185,7 +195,9 @@ describe('IndustriesRankingService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesDetailedRanking();
 
@@ -203,7 +215,9 @@ describe('IndustriesRankingService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesDetailedRanking();
 
@@ -228,7 +242,9 @@ describe('IndustriesRankingService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesDetailedRanking();
 
@@ -253,7 +269,9 @@ describe('IndustriesRankingService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getIndustriesDetailedRanking();
 
@@ -337,4 +355,3 @@ describe('IndustriesRankingService', () => {
     });
   });
 });
-
@@ -6,6 +6,7 @@ import {
   IndustryRankingDto,
   NewIndustriesLastMonthDto,
 } from '../../../common/dto/analytics';
+import { CATEGORIZED_CLIENT_WHERE } from '../../../common/utils/categorization.utils';
 
 @Injectable()
 export class IndustriesRankingService {
@@ -18,8 +19,9 @@ export class IndustriesRankingService {
   async getIndustriesDetailedRanking(): Promise<IndustryRankingDto[]> {
     const clients = await this.prisma.client.findMany({
       where: {
-        processed: true,
+        ...CATEGORIZED_CLIENT_WHERE,
         industry: { not: null },
+        deletedAt: null,
       },
     });
 
@@ -52,54 +54,64 @@ export class IndustriesRankingService {
       if (client.urgencyLevel) stats.urgencyLevels.push(client.urgencyLevel);
     }
 
-    const ranking = Array.from(industryMap.entries()).map(([industry, stats]) => {
-      const sentimentValues = stats.sentiments.map((s) => {
-        if (s === 'positive') return ANALYTICS_CONSTANTS.SENTIMENT.POSITIVE_SCORE;
-        if (s === 'neutral') return 2;
-        if (s === 'skeptical') return 1;
-        return 2;
-      });
-      const avgSentiment =
-        sentimentValues.length > 0
-          ? sentimentValues.reduce((a, b) => a + b, 0) / sentimentValues.length
-          : 2;
-
-      let sentimentLabel = 'neutral';
-      if (avgSentiment >= ANALYTICS_CONSTANTS.SENTIMENT.POSITIVE_THRESHOLD)
-        sentimentLabel = 'positive';
-      else if (avgSentiment <= ANALYTICS_CONSTANTS.SENTIMENT.SKEPTICAL_THRESHOLD)
-        sentimentLabel = 'skeptical';
-
-      const urgencyValues = stats.urgencyLevels.map((u) => {
-        if (u === 'immediate') return ANALYTICS_CONSTANTS.URGENCY.IMMEDIATE_SCORE;
-        if (u === 'planned') return 2;
-        if (u === 'exploratory') return 1;
-        return 2;
-      });
-      const avgUrgency =
-        urgencyValues.length > 0
-          ? urgencyValues.reduce((a, b) => a + b, 0) / urgencyValues.length
-          : 2;
-
-      let urgencyLabel = 'planned';
-      if (avgUrgency >= ANALYTICS_CONSTANTS.URGENCY.IMMEDIATE_THRESHOLD)
-        urgencyLabel = 'immediate';
-      else if (avgUrgency <= ANALYTICS_CONSTANTS.URGENCY.EXPLORATORY_THRESHOLD)
-        urgencyLabel = 'exploratory';
-
-      return {
-        industry,
-        clients: stats.clients,
-        closed: stats.closed,
-        conversionRate: parseFloat(
-          ((stats.closed / stats.clients) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(
-            ANALYTICS_CONSTANTS.DECIMAL_PLACES,
+    const ranking = Array.from(industryMap.entries()).map(
+      ([industry, stats]) => {
+        const sentimentValues = stats.sentiments.map((s) => {
+          if (s === 'positive')
+            return ANALYTICS_CONSTANTS.SENTIMENT.POSITIVE_SCORE;
+          if (s === 'neutral') return 2;
+          if (s === 'skeptical') return 1;
+          return 2;
+        });
+        const avgSentiment =
+          sentimentValues.length > 0
+            ? sentimentValues.reduce((a, b) => a + b, 0) /
+              sentimentValues.length
+            : 2;
+
+        let sentimentLabel = 'neutral';
+        if (avgSentiment >= ANALYTICS_CONSTANTS.SENTIMENT.POSITIVE_THRESHOLD)
+          sentimentLabel = 'positive';
+        else if (
+          avgSentiment <= ANALYTICS_CONSTANTS.SENTIMENT.SKEPTICAL_THRESHOLD
+        )
+          sentimentLabel = 'skeptical';
+
+        const urgencyValues = stats.urgencyLevels.map((u) => {
+          if (u === 'immediate')
+            return ANALYTICS_CONSTANTS.URGENCY.IMMEDIATE_SCORE;
+          if (u === 'planned') return 2;
+          if (u === 'exploratory') return 1;
+          return 2;
+        });
+        const avgUrgency =
+          urgencyValues.length > 0
+            ? urgencyValues.reduce((a, b) => a + b, 0) / urgencyValues.length
+            : 2;
+
+        let urgencyLabel = 'planned';
+        if (avgUrgency >= ANALYTICS_CONSTANTS.URGENCY.IMMEDIATE_THRESHOLD)
+          urgencyLabel = 'immediate';
+        else if (
+          avgUrgency <= ANALYTICS_CONSTANTS.URGENCY.EXPLORATORY_THRESHOLD
+        )
+          urgencyLabel = 'exploratory';
+
+        return {
+          industry,
+          clients: stats.clients,
+          closed: stats.closed,
+          conversionRate: parseFloat(
+            (
+              (stats.closed / stats.clients) *
+              ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER
+            ).toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES),
           ),
-        ),
-        averageSentiment: sentimentLabel,
-        averageUrgency: urgencyLabel,
-      };
-    });
+          averageSentiment: sentimentLabel,
+          averageUrgency: urgencyLabel,
+        };
+      },
+    );
 
     ranking.sort((a, b) => b.clients - a.clients);
 
@@ -121,8 +133,9 @@ export class IndustriesRankingService {
           gte: oneMonthAgo,
           lt: new Date(now.getFullYear(), now.getMonth(), 1),
         },
-        processed: true,
+        ...CATEGORIZED_CLIENT_WHERE,
         industry: { not: null },
+        deletedAt: null,
       },
       select: {
         industry: true,
@@ -134,8 +147,9 @@ export class IndustriesRankingService {
         meetingDate: {
           lt: oneMonthAgo,
         },
-        processed: true,
+        ...CATEGORIZED_CLIENT_WHERE,
         industry: { not: null },
+        deletedAt: null,
       },
       select: {
         industry: true,
@@ -162,7 +176,8 @@ export class IndustriesRankingService {
               gte: oneMonthAgo,
               lt: new Date(now.getFullYear(), now.getMonth(), 1),
             },
-            processed: true,
+            ...CATEGORIZED_CLIENT_WHERE,
+            deletedAt: null,
           },
         });
 
@@ -170,9 +185,10 @@ export class IndustriesRankingService {
         const conversionRate =
           clients.length > 0
             ? parseFloat(
-                ((closed / clients.length) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(
-                  ANALYTICS_CONSTANTS.DECIMAL_PLACES,
-                ),
+                (
+                  (closed / clients.length) *
+                  ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER
+                ).toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES),
               )
             : 0;
 
@@ -193,4 +209,3 @@ export class IndustriesRankingService {
     };
   }
 }
-
@@ -72,8 +72,12 @@ describe('ClientInsightsService', () => {
         recommendations: 'Continue focusing on automation features.',
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockClientInsightsGenerator.generateClientPerceptionInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockClientInsightsGenerator.generateClientPerceptionInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       const result = await service.getClientPerceptionInsight();
 
@@ -81,6 +85,8 @@ describe('ClientInsightsService', () => {
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
         where: {
           processed: true,
+          categorizationStatus: { not: 'fallback' },
+          deletedAt: null,
         },
         select: {
           transcription: true,
@@ -92,7 +98,9 @@ describe('ClientInsightsService', () => {
           createdAt: 'desc',
         },
       });
-      expect(mockClientInsightsGenerator.generateClientPerceptionInsight).toHaveBeenCalledWith([
+      expect(
+        mockClientInsightsGenerator.generateClientPerceptionInsight,
+      ).toHaveBeenCalledWith([
         {
           transcription: 'Great product, very helpful.',
           closed: true,
@@ -135,12 +143,18 @@ describe('ClientInsightsService', () => {
         recommendations: '',
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockClientInsightsGenerator.generateClientPerceptionInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockClientInsightsGenerator.generateClientPerceptionInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       const result = await service.getClientPerceptionInsight();
 
-      expect(mockClientInsightsGenerator.generateClientPerceptionInsight).toHaveBeenCalledWith([
+      expect(
+        mockClientInsightsGenerator.generateClientPerceptionInsight,
+      ).toHaveBeenCalledWith([
         {
           transcription: 'Valid transcription',
           closed: true,
@@ -165,21 +179,31 @@ describe('ClientInsightsService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getClientPerceptionInsight();
 
-      expect(result.positiveAspects).toBe('No client transcripts available for perception analysis.');
+      expect(result.positiveAspects).toBe(
+        'No client transcripts available for perception analysis.',
+      );
       expect(result.concerns).toBe('');
-      expect(mockClientInsightsGenerator.generateClientPerceptionInsight).not.toHaveBeenCalled();
+      expect(
+        mockClientInsightsGenerator.generateClientPerceptionInsight,
+      ).not.toHaveBeenCalled();
     });
 
     it('should handle errors gracefully', async () => {
-      mockPrismaService.client.findMany.mockRejectedValue(new Error('Database error'));
+      mockPrismaService.client.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
 
       const result = await service.getClientPerceptionInsight();
 
-      expect(result.positiveAspects).toBe('Unable to generate analysis at this time.');
+      expect(result.positiveAspects).toBe(
+        'Unable to generate analysis at this time.',
+      );
       expect(result.concerns).toBe('Unable to generate analysis at this time.');
     });
   });
@@ -197,11 +221,16 @@ describe('ClientInsightsService', () => {
       ];
 
       const mockInsight: InsightDto = {
-        insight: 'Clients are seeking automation and API integration solutions.',
+        insight:
+          'Clients are seeking automation and API integration solutions.',
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockClientInsightsGenerator.generateClientSolutionsInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockClientInsightsGenerator.generateClientSolutionsInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       const result = await service.getClientSolutionsInsight();
 
@@ -209,6 +238,8 @@ describe('ClientInsightsService', () => {
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
         where: {
           processed: true,
+          categorizationStatus: { not: 'fallback' },
+          deletedAt: null,
         },
         select: {
           transcription: true,
@@ -221,7 +252,9 @@ describe('ClientInsightsService', () => {
           createdAt: 'desc',
         },
       });
-      expect(mockClientInsightsGenerator.generateClientSolutionsInsight).toHaveBeenCalledWith([
+      expect(
+        mockClientInsightsGenerator.generateClientSolutionsInsight,
+      ).toHaveBeenCalledWith([
         {
           transcription: 'We need automation and API integration.',
           closed: true,
@@ -253,12 +286,18 @@ describe('ClientInsightsService', () => {
         insight: 'Valid insights',
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockClientInsightsGenerator.generateClientSolutionsInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockClientInsightsGenerator.generateClientSolutionsInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       const result = await service.getClientSolutionsInsight();
 
-      expect(mockClientInsightsGenerator.generateClientSolutionsInsight).toHaveBeenCalledWith([
+      expect(
+        mockClientInsightsGenerator.generateClientSolutionsInsight,
+      ).toHaveBeenCalledWith([
         {
           transcription: 'Valid transcription',
           closed: false,
@@ -281,12 +320,18 @@ describe('ClientInsightsService', () => {
 
       const result = await service.getClientSolutionsInsight();
 
-      expect(result.insight).toBe('No client transcripts available for solutions analysis.');
-      expect(mockClientInsightsGenerator.generateClientSolutionsInsight).not.toHaveBeenCalled();
+      expect(result.insight).toBe(
+        'No client transcripts available for solutions analysis.',
+      );
+      expect(
+        mockClientInsightsGenerator.generateClientSolutionsInsight,
+      ).not.toHaveBeenCalled();
     });
 
     it('should handle errors gracefully', async () => {
-      mockPrismaService.client.findMany.mockRejectedValue(new Error('Database error'));
+      mockPrismaService.client.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
 
       const result = await service.getClientSolutionsInsight();
 
@@ -294,4 +339,3 @@ describe('ClientInsightsService', () => {
     });
   });
 });
-
@@ -5,6 +5,7 @@ import {
   InsightDto,
   ClientPerceptionInsightDto,
 } from '../../../common/dto/analytics';
+import { CATEGORIZED_CLIENT_WHERE } from '../../../common/utils/categorization.utils';
 
 @Injectable()
 export class ClientInsightsService {
@@ -24,7 +25,8 @@ export class ClientInsightsService {
     try {
       const allClients = await this.prisma.client.findMany({
         where: {
-          processed: true,
+          ...CATEGORIZED_CLIENT_WHERE,
+          deletedAt: null,
         },
         select: {
           transcription: true,
@@ -43,7 +45,8 @@ export class ClientInsightsService {
 
       if (clients.length === 0) {
         return {
-          positiveAspects: 'No client transcripts available for perception analysis.',
+          positiveAspects:
+            'No client transcripts available for perception analysis.',
           concerns: '',
           successFactors: '',
           recommendations: '',
@@ -56,7 +59,9 @@ export class ClientInsightsService {
         sentiment: c.sentiment,
       }));
 
-      return await this.clientInsightsGenerator.generateClientPerceptionInsight(transcriptions);
+      return await this.clientInsightsGenerator.generateClientPerceptionInsight(
+        transcriptions,
+      );
     } catch (error) {
       this.logger.error('Error getting client perception insight:', error);
       return {
@@ -77,7 +82,8 @@ export class ClientInsightsService {
     try {
       const allClients = await this.prisma.client.findMany({
         where: {
-          processed: true,
+          ...CATEGORIZED_CLIENT_WHERE,
+          deletedAt: null,
         },
         select: {
           transcription: true,
@@ -96,7 +102,9 @@ export class ClientInsightsService {
       );
 
       if (clients.length === 0) {
-        return { insight: 'No client transcripts available for solutions analysis.' };
+        return {
+          insight: 'No client transcripts available for solutions analysis.',
+        };
       }
 
       const transcriptions = clients.map((c) => ({
@@ -106,11 +114,12 @@ export class ClientInsightsService {
         technicalRequirements: c.technicalRequirements,
       }));
 
-      return await this.clientInsightsGenerator.generateClientSolutionsInsight(transcriptions);
+      return await this.clientInsightsGenerator.generateClientSolutionsInsight(
+        transcriptions,
+      );
     } catch (error) {
       this.logger.error('Error getting client solutions insight:', error);
       return { insight: 'Unable to generate insight at this time.' };
     }
   }
 }
-
@@ -76,8 +76,12 @@ describe('TimelineInsightsService', () => {
         recommendations: ['Continue current strategy'],
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       const result = await service.getTimelineInsight();
 
@@ -85,6 +89,8 @@ describe('TimelineInsightsService', () => {
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
         where: {
           processed: true,
+          categorizationStatus: { not: 'fallback' },
+          deletedAt: null,
         },
         select: {
           meetingDate: true,
@@ -96,7 +102,9 @@ describe('TimelineInsightsService', () => {
           meetingDate: 'asc',
         },
       });
-      expect(mockAnalyticsInsightsGenerator.generateTimelineInsight).toHaveBeenCalled();
+      expect(
+        mockAnalyticsInsightsGenerator.generateTimelineInsight,
+      ).toHaveBeenCalled();
     });
 
     it('should group clients by month correctly', async () => {
@@ -134,16 +142,25 @@ describe('TimelineInsightsService', () => {
         recommendations: [],
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       await service.getTimelineInsight();
 
-      const callArgs = mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
+      const callArgs =
+        mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
       expect(callArgs.length).toBe(2);
 
-      const januaryData = callArgs.find((item: { month: string }) => item.month?.includes('January'));
-      const februaryData = callArgs.find((item: { month: string }) => item.month?.includes('February'));
+      const januaryData = callArgs.find((item: { month: string }) =>
+        item.month?.includes('January'),
+      );
+      const februaryData = callArgs.find((item: { month: string }) =>
+        item.month?.includes('February'),
+      );
 
       expect(januaryData).toBeDefined();
       expect(januaryData?.totalMeetings).toBe(2);
@@ -187,12 +204,17 @@ describe('TimelineInsightsService', () => {
         recommendations: [],
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       await service.getTimelineInsight();
 
-      const callArgs = mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
+      const callArgs =
+        mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
       expect(callArgs[0].topIndustries).toBeDefined();
       expect(Array.isArray(callArgs[0].topIndustries)).toBe(true);
       expect(callArgs[0].topIndustries?.length).toBeLessThanOrEqual(3);
@@ -233,12 +255,17 @@ describe('TimelineInsightsService', () => {
         recommendations: [],
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       await service.getTimelineInsight();
 
-      const callArgs = mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
+      const callArgs =
+        mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
       expect(callArgs[0].avgSentiment).toBeDefined();
       expect(callArgs[0].avgSentiment).toBe('positive');
     });
@@ -267,12 +294,17 @@ describe('TimelineInsightsService', () => {
         recommendations: [],
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       await service.getTimelineInsight();
 
-      const callArgs = mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
+      const callArgs =
+        mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
       expect(callArgs[0].avgSentiment).toBe('positive');
     });
 
@@ -281,10 +313,14 @@ describe('TimelineInsightsService', () => {
 
       const result = await service.getTimelineInsight();
 
-      expect(result.keyFindings).toEqual(['No timeline data available to analyze.']);
+      expect(result.keyFindings).toEqual([
+        'No timeline data available to analyze.',
+      ]);
       expect(result.reasons).toEqual([]);
       expect(result.recommendations).toEqual([]);
-      expect(mockAnalyticsInsightsGenerator.generateTimelineInsight).not.toHaveBeenCalled();
+      expect(
+        mockAnalyticsInsightsGenerator.generateTimelineInsight,
+      ).not.toHaveBeenCalled();
     });
 
     it('should sort timeline data chronologically', async () => {
@@ -318,36 +354,57 @@ describe('TimelineInsightsService', () => {
         recommendations: [],
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       await service.getTimelineInsight();
 
-      const callArgs = mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
+      const callArgs =
+        mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
       expect(callArgs.length).toBe(3);
 
-      const januaryData = callArgs.find((item: { month: string }) => item.month?.includes('January'));
-      const februaryData = callArgs.find((item: { month: string }) => item.month?.includes('February'));
-      const marchData = callArgs.find((item: { month: string }) => item.month?.includes('March'));
+      const januaryData = callArgs.find((item: { month: string }) =>
+        item.month?.includes('January'),
+      );
+      const februaryData = callArgs.find((item: { month: string }) =>
+        item.month?.includes('February'),
+      );
+      const marchData = callArgs.find((item: { month: string }) =>
+        item.month?.includes('March'),
+      );
 
       expect(januaryData).toBeDefined();
       expect(februaryData).toBeDefined();
       expect(marchData).toBeDefined();
 
-      const januaryIndex = callArgs.findIndex((item: { month: string }) => item.month?.includes('January'));
-      const februaryIndex = callArgs.findIndex((item: { month: string }) => item.month?.includes('February'));
-      const marchIndex = callArgs.findIndex((item: { month: string }) => item.month?.includes('March'));
+      const januaryIndex = callArgs.findIndex((item: { month: string }) =>
+        item.month?.includes('January'),
+      );
+      const februaryIndex = callArgs.findIndex((item: { month: string }) =>
+        item.month?.includes('February'),
+      );
+      const marchIndex = callArgs.findIndex((item: { month: string }) =>
+        item.month?.includes('March'),
+      );
 
       expect(januaryIndex).toBeLessThan(februaryIndex);
       expect(februaryIndex).toBeLessThan(marchIndex);
     });
 
     it('should handle errors gracefully', async () => {
-      mockPrismaService.client.findMany.mockRejectedValue(new Error('Database error'));
+      mockPrismaService.client.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
 
       const result = await service.getTimelineInsight();
 
-      expect(result.keyFindings).toEqual(['Unable to generate timeline insights at this time.']);
+      expect(result.keyFindings).toEqual([
+        'Unable to generate timeline insights at this time.',
+      ]);
       expect(result.reasons).toEqual([]);
       expect(result.recommendations).toEqual([]);
     });
@@ -369,12 +426,17 @@ describe('TimelineInsightsService', () => {
         recommendations: [],
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       await service.getTimelineInsight();
 
-      const callArgs = mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
+      const callArgs =
+        mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
       expect(callArgs[0].conversionRate).toBe(0);
       expect(callArgs[0].totalMeetings).toBe(1);
       expect(callArgs[0].totalClosed).toBe(0);
@@ -383,7 +445,13 @@ describe('TimelineInsightsService', () => {
     it('should limit top industries to 3 per month', async () => {
       const mockClients: Partial<Client>[] = [];
 
-      const industries = ['Technology', 'Finance', 'Healthcare', 'Education', 'Retail'];
+      const industries = [
+        'Technology',
+        'Finance',
+        'Healthcare',
+        'Education',
+        'Retail',
+      ];
       industries.forEach((industry, index) => {
         for (let i = 0; i < index + 1; i++) {
           mockClients.push({
@@ -402,14 +470,18 @@ describe('TimelineInsightsService', () => {
         recommendations: [],
       };
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
-      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(mockInsight);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
+      mockAnalyticsInsightsGenerator.generateTimelineInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       await service.getTimelineInsight();
 
-      const callArgs = mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
+      const callArgs =
+        mockAnalyticsInsightsGenerator.generateTimelineInsight.mock.calls[0][0];
       expect(callArgs[0].topIndustries?.length).toBeLessThanOrEqual(3);
     });
   });
 });
-
@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { AnalyticsInsightsGeneratorService } from '../../../llm/generators/analytics-insights-generator.service';
 import { TimelineInsightDto } from '../../../common/dto/analytics';
+import { CATEGORIZED_CLIENT_WHERE } from '../../../common/utils/categorization.utils';
 
 @Injectable()
 export class TimelineInsightsService {
@@ -21,7 +22,8 @@ export class TimelineInsightsService {
     try {
       const clients = await this.prisma.client.findMany({
         where: {
-          processed: true,
+          ...CATEGORIZED_CLIENT_WHERE,
+          deletedAt: null,
         },
         select: {
           meetingDate: true,
@@ -45,7 +47,9 @@ export class TimelineInsightsService {
       const monthlyData = this.buildMonthlyData(clients);
       const timelineDataForLLM = this.formatTimelineDataForLLM(monthlyData);
 
-      return await this.analyticsInsightsGenerator.generateTimelineInsight(timelineDataForLLM);
+      return await this.analyticsInsightsGenerator.generateTimelineInsight(
+        timelineDataForLLM,
+      );
     } catch (error) {
       this.logger.error('Error getting timeline insight:', error);
       return {
@@ -108,7 +112,10 @@ export class TimelineInsightsService {
       }
       if (client.industry) {
         if (!monthData.industries.has(client.industry)) {
-          monthData.industries.set(client.industry, { count: 0, sentiments: [] });
+          monthData.industries.set(client.industry, {
+            count: 0,
+            sentiments: [],
+          });
         }
         const industryData = monthData.industries.get(client.industry)!;
         industryData.count += 1;
@@ -140,7 +147,11 @@ export class TimelineInsightsService {
     totalClosed: number;
     conversionRate: number;
     avgSentiment: string;
-    topIndustries: Array<{ industry: string; count: number; sentiment: string }>;
+    topIndustries: Array<{
+      industry: string;
+      count: number;
+      sentiment: string;
+    }>;
   }> {
     return Array.from(monthlyData.entries())
       .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
@@ -160,7 +171,8 @@ export class TimelineInsightsService {
             sentiment:
               industryData.sentiments.length > 0
                 ? industryData.sentiments.reduce((a, b, _, arr) =>
-                    arr.filter((v) => v === a).length >= arr.filter((v) => v === b).length
+                    arr.filter((v) => v === a).length >=
+                    arr.filter((v) => v === b).length
                       ? a
                       : b,
                   )
@@ -172,7 +184,10 @@ export class TimelineInsightsService {
         const avgSentiment =
           data.sentiments.length > 0
             ? data.sentiments.reduce((a, b, _, arr) =>
-                arr.filter((v) => v === a).length >= arr.filter((v) => v === b).length ? a : b,
+                arr.filter((v) => v === a).length >=
+                arr.filter((v) => v === b).length
+                  ? a
+                  : b,
               )
             : 'neutral';
 
@@ -182,7 +197,9 @@ export class TimelineInsightsService {
           totalClosed: data.totalClosed,
           conversionRate:
             data.totalMeetings > 0
-              ? parseFloat(((data.totalClosed / data.totalMeetings) * 100).toFixed(1))
+              ? parseFloat(
+                  ((data.totalClosed / data.totalMeetings) * 100).toFixed(1),
+                )
               : 0,
           avgSentiment,
           topIndustries: industriesArray,
@@ -190,4 +207,3 @@ export class TimelineInsightsService {
       });
   }
 }
-
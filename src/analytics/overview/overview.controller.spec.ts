@@ -1,8 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { OverviewController } from './overview.controller';
 import { OverviewService } from './overview.service';
-import { OverviewMetricsDto, DimensionMetricsDto } from '../../common/dto/analytics';
-import { DimensionQueryDto, DimensionEnum } from '../../common/dto/analytics/queries.dto';
+import {
+  OverviewMetricsDto,
+  DimensionMetricsDto,
+} from '../../common/dto/analytics';
+import {
+  DimensionQueryDto,
+  DimensionEnum,
+} from '../../common/dto/analytics/queries.dto';
 
 describe('OverviewController', () => {
   let controller: OverviewController;
@@ -11,6 +17,8 @@ describe('OverviewController', () => {
   const mockOverviewService = {
     getOverview: jest.fn(),
     getMetricsByDimension: jest.fn(),
+    getRevenueOverview: jest.fn(),
+    getRevenueByDimension: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -47,14 +55,22 @@ describe('OverviewController', () => {
       mockOverviewService.getOverview.mockResolvedValue(mockOverview);
 
       // Act
-      const result = await controller.getOverview();
+      const result = await controller.getOverview({});
 
       // Assert
       expect(result).toEqual(mockOverview);
       expect(result.totalClients).toBe(100);
       expect(result.conversionRate).toBe(60.0);
       expect(service.getOverview).toHaveBeenCalledTimes(1);
-      expect(service.getOverview).toHaveBeenCalledWith();
+      expect(service.getOverview).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should scope the metrics to a segment', async () => {
+      mockOverviewService.getOverview.mockResolvedValue({ totalClients: 3 });
+
+      await controller.getOverview({ segmentId: 'segment-1' });
+
+      expect(service.getOverview).toHaveBeenCalledWith('segment-1');
     });
 
     it('should handle service errors', async () => {
@@ -63,7 +79,9 @@ describe('OverviewController', () => {
       mockOverviewService.getOverview.mockRejectedValue(error);
 
       // Act & Assert
-      await expect(controller.getOverview()).rejects.toThrow('Database connection failed');
+      await expect(controller.getOverview({})).rejects.toThrow(
+        'Database connection failed',
+      );
       expect(service.getOverview).toHaveBeenCalledTimes(1);
     });
   });
@@ -84,7 +102,9 @@ describe('OverviewController', () => {
         ],
       };
 
-      mockOverviewService.getMetricsByDimension.mockResolvedValue(mockDimensionMetrics);
+      mockOverviewService.getMetricsByDimension.mockResolvedValue(
+        mockDimensionMetrics,
+      );
 
       // Act
       const result = await controller.getByDimension(query);
@@ -94,7 +114,10 @@ describe('OverviewController', () => {
       expect(result.dimension).toBe('industry');
       expect(result.values).toBeDefined();
       expect(service.getMetricsByDimension).toHaveBeenCalledTimes(1);
-      expect(service.getMetricsByDimension).toHaveBeenCalledWith(query.dimension);
+      expect(service.getMetricsByDimension).toHaveBeenCalledWith(
+        query.dimension,
+        undefined,
+      );
     });
 
     it('should handle different dimension types', async () => {
@@ -112,14 +135,19 @@ describe('OverviewController', () => {
         ],
       };
 
-      mockOverviewService.getMetricsByDimension.mockResolvedValue(mockDimensionMetrics);
+      mockOverviewService.getMetricsByDimension.mockResolvedValue(
+        mockDimensionMetrics,
+      );
 
       // Act
       const result = await controller.getByDimension(query);
 
       // Assert
       expect(result.dimension).toBe('sentiment');
-      expect(service.getMetricsByDimension).toHaveBeenCalledWith('sentiment');
+      expect(service.getMetricsByDimension).toHaveBeenCalledWith(
+        'sentiment',
+        undefined,
+      );
     });
 
     it('should handle service errors', async () => {
@@ -129,7 +157,9 @@ describe('OverviewController', () => {
       mockOverviewService.getMetricsByDimension.mockRejectedValue(error);
 
       // Act & Assert
-      await expect(controller.getByDimension(query)).rejects.toThrow('Service unavailable');
+      await expect(controller.getByDimension(query)).rejects.toThrow(
+        'Service unavailable',
+      );
       expect(service.getMetricsByDimension).toHaveBeenCalledTimes(1);
     });
 
@@ -141,7 +171,9 @@ describe('OverviewController', () => {
         values: [],
       };
 
-      mockOverviewService.getMetricsByDimension.mockResolvedValue(mockEmptyMetrics);
+      mockOverviewService.getMetricsByDimension.mockResolvedValue(
+        mockEmptyMetrics,
+      );
 
       // Act
       const result = await controller.getByDimension(query);
@@ -151,5 +183,42 @@ describe('OverviewController', () => {
       expect(service.getMetricsByDimension).toHaveBeenCalledTimes(1);
     });
   });
-});
 
+  describe('revenue metrics', () => {
+    it('should pass the currency and segment to the revenue overview', async () => {
+      mockOverviewService.getRevenueOverview.mockResolvedValue({
+        currency: 'CLP',
+        deals: 2,
+      });
+
+      const result = await controller.getRevenueOverview({
+        currency: 'CLP',
+        segmentId: 'segment-1',
+      });
+
+      expect(result).toEqual({ currency: 'CLP', deals: 2 });
+      expect(service.getRevenueOverview).toHaveBeenCalledWith(
+        'CLP',
+        'segment-1',
+      );
+    });
+
+    it('should pass the dimension and currency to the revenue by dimension', async () => {
+      mockOverviewService.getRevenueByDimension.mockResolvedValue({
+        dimension: 'industry',
+        currency: 'USD',
+        values: [],
+      });
+
+      await controller.getRevenueByDimension({
+        dimension: DimensionEnum.INDUSTRY,
+      });
+
+      expect(service.getRevenueByDimension).toHaveBeenCalledWith(
+        DimensionEnum.INDUSTRY,
+        undefined,
+        undefined,
+      );
+    });
+  });
+});
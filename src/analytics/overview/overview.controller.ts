@@ -1,7 +1,12 @@
 import { Controller, Get, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { OverviewService } from './overview.service';
-import { DimensionQueryDto, DimensionEnum } from '../../common/dto/analytics/queries.dto';
+import {
+  DimensionQueryDto,
+  RevenueDimensionQueryDto,
+  RevenueOverviewQueryDto,
+  SegmentQueryDto,
+} from '../../common/dto/analytics/queries.dto';
 
 @ApiTags('analytics')
 @Controller('analytics')
@@ -10,16 +15,59 @@ export class OverviewController {
 
   @Get('overview')
   @ApiOperation({ summary: 'Get overview metrics' })
-  @ApiResponse({ status: 200, description: 'Overview metrics retrieved successfully' })
-  async getOverview() {
-    return this.overviewService.getOverview();
+  @ApiResponse({
+    status: 200,
+    description: 'Overview metrics retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async getOverview(@Query() query: SegmentQueryDto) {
+    return this.overviewService.getOverview(query.segmentId);
   }
 
   @Get('by-dimension')
   @ApiOperation({ summary: 'Get metrics grouped by dimension' })
-  @ApiResponse({ status: 200, description: 'Metrics by dimension retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Metrics by dimension retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
   async getByDimension(@Query() query: DimensionQueryDto) {
-    return this.overviewService.getMetricsByDimension(query.dimension);
+    return this.overviewService.getMetricsByDimension(
+      query.dimension,
+      query.segmentId,
+    );
+  }
+
+  @Get('revenue-overview')
+  @ApiOperation({
+    summary: 'Get overview metrics weighted by deal value',
+    description:
+      'Won, open pipeline and lost value of the deals with an amount in the given currency (default USD); amounts in other currencies are left out.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revenue overview retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async getRevenueOverview(@Query() query: RevenueOverviewQueryDto) {
+    return this.overviewService.getRevenueOverview(
+      query.currency,
+      query.segmentId,
+    );
   }
-}
 
+  @Get('revenue-by-dimension')
+  @ApiOperation({ summary: 'Get deal value metrics grouped by dimension' })
+  @ApiResponse({
+    status: 200,
+    description: 'Revenue by dimension retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async getRevenueByDimension(@Query() query: RevenueDimensionQueryDto) {
+    return this.overviewService.getRevenueByDimension(
+      query.dimension,
+      query.currency,
+      query.segmentId,
+    );
+  }
+}
@@ -2,12 +2,12 @@ import { Module } from '@nestjs/common';
 import { OverviewService } from './overview.service';
 import { OverviewController } from './overview.controller';
 import { PrismaModule } from '../../prisma/prisma.module';
+import { ClientsModule } from '../../clients/clients.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, ClientsModule],
   controllers: [OverviewController],
   providers: [OverviewService],
   exports: [OverviewService],
 })
 export class OverviewModule {}
-
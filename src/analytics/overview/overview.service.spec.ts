@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { OverviewService } from './overview.service';
 import { PrismaService } from '../../prisma/prisma.service';
+import { ClientsService } from '../../clients/clients.service';
+import { Prisma } from '@prisma/client';
 import { ANALYTICS_CONSTANTS } from '../../common/constants';
 import { DimensionEnum } from '../../common/dto/analytics/queries.dto';
 
@@ -15,6 +17,10 @@ describe('OverviewService', () => {
     },
     $queryRaw: jest.fn(),
   };
+  const mockClientsService = {
+    buildSegmentWhere: jest.fn(),
+    buildSegmentSql: jest.fn().mockResolvedValue(Prisma.empty),
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -24,6 +30,10 @@ describe('OverviewService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: ClientsService,
+          useValue: mockClientsService,
+        },
       ],
     }).compile();
 
@@ -52,9 +62,46 @@ describe('OverviewService', () => {
       expect(result.unprocessedClients).toBe(5);
 
       expect(mockPrismaService.client.count).toHaveBeenCalledTimes(3);
-      expect(mockPrismaService.client.count).toHaveBeenNthCalledWith(1);
-      expect(mockPrismaService.client.count).toHaveBeenNthCalledWith(2, { where: { closed: true } });
-      expect(mockPrismaService.client.count).toHaveBeenNthCalledWith(3, { where: { processed: true } });
+      expect(mockPrismaService.client.count).toHaveBeenNthCalledWith(1, {
+        where: { deletedAt: null },
+      });
+      expect(mockPrismaService.client.count).toHaveBeenNthCalledWith(2, {
+        where: { closed: true, deletedAt: null },
+      });
+      expect(mockPrismaService.client.count).toHaveBeenNthCalledWith(3, {
+        where: { processed: true, deletedAt: null },
+      });
+    });
+
+    it('should count only the clients of a segment', async () => {
+      mockClientsService.buildSegmentWhere.mockResolvedValueOnce({
+        industry: 'Logistics',
+        closed: false,
+      });
+      mockPrismaService.client.count
+        .mockResolvedValueOnce(4)
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(4);
+
+      const result = await service.getOverview('segment-1');
+
+      expect(result.totalClients).toBe(4);
+      expect(mockClientsService.buildSegmentWhere).toHaveBeenCalledWith(
+        'segment-1',
+      );
+      expect(mockPrismaService.client.count).toHaveBeenNthCalledWith(1, {
+        where: {
+          AND: [{ industry: 'Logistics', closed: false }],
+          deletedAt: null,
+        },
+      });
+      expect(mockPrismaService.client.count).toHaveBeenNthCalledWith(2, {
+        where: {
+          AND: [{ industry: 'Logistics', closed: false }],
+          closed: true,
+          deletedAt: null,
+        },
+      });
     });
 
     it('should return zero conversion rate when no clients exist', async () => {
@@ -97,6 +144,19 @@ describe('OverviewService', () => {
   });
 
   describe('getMetricsByDimension', () => {
+    it('should restrict the aggregation to the clients of a segment', async () => {
+      const segmentSql = Prisma.sql`AND id = ANY(${['client-1']}::text[])`;
+      mockClientsService.buildSegmentSql.mockResolvedValueOnce(segmentSql);
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([]);
+
+      await service.getMetricsByDimension(DimensionEnum.SENTIMENT, 'segment-1');
+
+      expect(mockClientsService.buildSegmentSql).toHaveBeenCalledWith(
+        'segment-1',
+      );
+      expect(mockPrismaService.$queryRaw.mock.calls[0]).toContain(segmentSql);
+    });
+
     it('should return metrics by dimension successfully', async () => {
       const mockRawResults = [
         {
@@ -115,7 +175,9 @@ describe('OverviewService', () => {
 
       mockPrismaService.$queryRaw.mockResolvedValue(mockRawResults);
 
-      const result = await service.getMetricsByDimension(DimensionEnum.INDUSTRY);
+      const result = await service.getMetricsByDimension(
+        DimensionEnum.INDUSTRY,
+      );
 
       expect(result.dimension).toBe('industry');
       expect(result.values.length).toBe(2);
@@ -138,7 +200,9 @@ describe('OverviewService', () => {
 
       mockPrismaService.$queryRaw.mockResolvedValue(mockRawResults);
 
-      const result = await service.getMetricsByDimension(DimensionEnum.SENTIMENT);
+      const result = await service.getMetricsByDimension(
+        DimensionEnum.SENTIMENT,
+      );
 
       expect(result.dimension).toBe('sentiment');
       expect(result.values[0].totalInteractionVolume).toBeUndefined();
@@ -163,16 +227,20 @@ describe('OverviewService', () => {
 
       mockPrismaService.$queryRaw.mockResolvedValue(mockRawResults);
 
-      const result = await service.getMetricsByDimension(DimensionEnum.INDUSTRY);
+      const result = await service.getMetricsByDimension(
+        DimensionEnum.INDUSTRY,
+      );
 
       expect(result.values.length).toBe(2);
-      expect(result.values.find(v => v.value === null)).toBeUndefined();
+      expect(result.values.find((v) => v.value === null)).toBeUndefined();
     });
 
     it('should return empty array when no clients match dimension', async () => {
       mockPrismaService.$queryRaw.mockResolvedValue([]);
 
-      const result = await service.getMetricsByDimension(DimensionEnum.SENTIMENT);
+      const result = await service.getMetricsByDimension(
+        DimensionEnum.SENTIMENT,
+      );
 
       expect(result.dimension).toBe('sentiment');
       expect(result.values).toEqual([]);
@@ -196,7 +264,9 @@ describe('OverviewService', () => {
 
       mockPrismaService.$queryRaw.mockResolvedValue(mockRawResults);
 
-      const result = await service.getMetricsByDimension(DimensionEnum.INDUSTRY);
+      const result = await service.getMetricsByDimension(
+        DimensionEnum.INDUSTRY,
+      );
 
       expect(result.values[0].value).toBe('Finance');
       expect(result.values[0].count).toBe(3);
@@ -216,7 +286,9 @@ describe('OverviewService', () => {
 
       mockPrismaService.$queryRaw.mockResolvedValue(mockRawResults);
 
-      const result = await service.getMetricsByDimension(DimensionEnum.INDUSTRY);
+      const result = await service.getMetricsByDimension(
+        DimensionEnum.INDUSTRY,
+      );
 
       expect(result.values[0].conversionRate).toBe(0);
     });
@@ -233,7 +305,9 @@ describe('OverviewService', () => {
 
       mockPrismaService.$queryRaw.mockResolvedValue(mockRawResults);
 
-      const result = await service.getMetricsByDimension(DimensionEnum.INDUSTRY);
+      const result = await service.getMetricsByDimension(
+        DimensionEnum.INDUSTRY,
+      );
 
       expect(result.values[0].conversionRate).toBe(100);
     });
@@ -250,7 +324,9 @@ describe('OverviewService', () => {
 
       mockPrismaService.$queryRaw.mockResolvedValue(mockRawResults);
 
-      const result = await service.getMetricsByDimension(DimensionEnum.INDUSTRY);
+      const result = await service.getMetricsByDimension(
+        DimensionEnum.INDUSTRY,
+      );
 
       expect(result.values[0].totalInteractionVolume).toBe(250);
     });
@@ -266,10 +342,103 @@ describe('OverviewService', () => {
 
       mockPrismaService.$queryRaw.mockResolvedValue(mockRawResults);
 
-      const result = await service.getMetricsByDimension(DimensionEnum.SENTIMENT);
+      const result = await service.getMetricsByDimension(
+        DimensionEnum.SENTIMENT,
+      );
 
       expect(result.values[0].totalInteractionVolume).toBeUndefined();
     });
   });
-});
 
+  describe('getRevenueOverview', () => {
+    it('should split the deal value by stage outcome', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        { outcome: 'won', deals: BigInt(2), amount: 30000 },
+        { outcome: 'open', deals: BigInt(3), amount: 15000.5 },
+        { outcome: 'lost', deals: BigInt(1), amount: 5000 },
+      ]);
+
+      const result = await service.getRevenueOverview();
+
+      expect(result).toEqual({
+        currency: 'USD',
+        deals: 6,
+        totalValue: 50000.5,
+        wonValue: 30000,
+        pipelineValue: 15000.5,
+        lostValue: 5000,
+        averageDealSize: 8333.42,
+        valueConversionRate: 60,
+      });
+      expect(mockPrismaService.$queryRaw.mock.calls[0]).toContain('USD');
+    });
+
+    it('should add up only the deals in the requested currency of a segment', async () => {
+      const segmentSql = Prisma.sql`AND id = ANY(${['client-1']}::text[])`;
+      mockClientsService.buildSegmentSql.mockResolvedValueOnce(segmentSql);
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([]);
+
+      const result = await service.getRevenueOverview('CLP', 'segment-1');
+
+      expect(mockPrismaService.$queryRaw.mock.calls[0]).toContain('CLP');
+      expect(mockPrismaService.$queryRaw.mock.calls[0]).toContain(segmentSql);
+      expect(result).toMatchObject({
+        currency: 'CLP',
+        deals: 0,
+        totalValue: 0,
+        averageDealSize: 0,
+        valueConversionRate: 0,
+      });
+    });
+  });
+
+  describe('getRevenueByDimension', () => {
+    it('should return deal value metrics per dimension value', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        {
+          value: 'Retail',
+          count: BigInt(4),
+          closed_count: BigInt(1),
+          total_value: 40000,
+          won_value: 10000,
+        },
+        {
+          value: 'Finance',
+          count: BigInt(2),
+          closed_count: BigInt(0),
+          total_value: 8000,
+          won_value: 0,
+        },
+      ]);
+
+      const result = await service.getRevenueByDimension(
+        DimensionEnum.INDUSTRY,
+        'EUR',
+      );
+
+      expect(result.dimension).toBe(DimensionEnum.INDUSTRY);
+      expect(result.currency).toBe('EUR');
+      expect(result.values).toEqual([
+        {
+          value: 'Retail',
+          count: 4,
+          closed: 1,
+          totalValue: 40000,
+          wonValue: 10000,
+          averageDealSize: 10000,
+          valueConversionRate: 25,
+        },
+        {
+          value: 'Finance',
+          count: 2,
+          closed: 0,
+          totalValue: 8000,
+          wonValue: 0,
+          averageDealSize: 4000,
+          valueConversionRate: 0,
+        },
+      ]);
+      expect(mockPrismaService.$queryRaw.mock.calls[0]).toContain('EUR');
+    });
+  });
+});
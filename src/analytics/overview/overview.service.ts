@@ -1,9 +1,22 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { ClientsService } from '../../clients/clients.service';
 import { Prisma } from '@prisma/client';
-import { ANALYTICS_CONSTANTS } from '../../common/constants';
-import { OverviewMetricsDto, DimensionMetricsDto } from '../../common/dto/analytics';
+import { ANALYTICS_CONSTANTS, CLIENT_CONSTANTS } from '../../common/constants';
+import {
+  OverviewMetricsDto,
+  DimensionMetricsDto,
+  RevenueOverviewDto,
+  RevenueDimensionMetricsDto,
+} from '../../common/dto/analytics';
 import { DimensionEnum } from '../../common/dto/analytics/queries.dto';
+import { PipelineStageOutcomeEnum } from '../../common/dto/clients';
+import {
+  roundAmount,
+  toAverageDealSize,
+  toValueRate,
+} from '../../common/utils/revenue.utils';
+import { CATEGORIZED_CLIENT_SQL } from '../../common/utils/categorization.utils';
 
 interface DimensionMetricRow {
   value: string;
@@ -12,26 +25,58 @@ interface DimensionMetricRow {
   total_interaction_volume?: bigint;
 }
 
+interface RevenueOutcomeRow {
+  outcome: PipelineStageOutcomeEnum;
+  deals: bigint;
+  amount: number;
+}
+
+interface RevenueDimensionRow {
+  value: string;
+  count: bigint;
+  closed_count: bigint;
+  total_value: number;
+  won_value: number;
+}
+
 @Injectable()
 export class OverviewService {
   private readonly logger = new Logger(OverviewService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly clientsService: ClientsService,
+  ) {}
 
   /**
    * Get overview metrics including total clients, conversion rates, and processing status
+   * @param segmentId - Optional saved segment to scope the metrics to
    * @returns Overview metrics with totals and rates
    */
-  async getOverview(): Promise<OverviewMetricsDto> {
+  async getOverview(segmentId?: string): Promise<OverviewMetricsDto> {
     try {
+      // The segment is nested in AND so its own closed/processed filters are not overridden
+      const segmentScope = segmentId
+        ? { AND: [await this.clientsService.buildSegmentWhere(segmentId)] }
+        : {};
       const [totalClients, totalClosed, processedClients] = await Promise.all([
-        this.prisma.client.count(),
-        this.prisma.client.count({ where: { closed: true } }),
-        this.prisma.client.count({ where: { processed: true } }),
+        this.prisma.client.count({
+          where: { ...segmentScope, deletedAt: null },
+        }),
+        this.prisma.client.count({
+          where: { ...segmentScope, closed: true, deletedAt: null },
+        }),
+        this.prisma.client.count({
+          where: { ...segmentScope, processed: true, deletedAt: null },
+        }),
       ]);
 
       const totalOpen = totalClients - totalClosed;
-      const conversionRate = totalClients > 0 ? (totalClosed / totalClients) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER : 0;
+      const conversionRate =
+        totalClients > 0
+          ? (totalClosed / totalClients) *
+            ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER
+          : 0;
       const unprocessedClients = totalClients - processedClients;
 
       return {
@@ -48,41 +93,160 @@ export class OverviewService {
     }
   }
 
+  /**
+   * Get the overview weighted by deal value: won, open pipeline and lost value
+   * @param currency - Only deals in this currency are added up (default CLIENT_CONSTANTS.DEFAULT_CURRENCY)
+   * @param segmentId - Optional saved segment to scope the metrics to
+   * @returns Deal values of the clients with an amount in the currency
+   */
+  async getRevenueOverview(
+    currency: string = CLIENT_CONSTANTS.DEFAULT_CURRENCY,
+    segmentId?: string,
+  ): Promise<RevenueOverviewDto> {
+    try {
+      const segmentSql = await this.clientsService.buildSegmentSql(segmentId);
+      // The stage id is renamed so the segment condition on id stays unambiguous
+      const rows = await this.prisma.$queryRaw<RevenueOutcomeRow[]>`
+        SELECT
+          stage.outcome,
+          COUNT(*)::bigint as deals,
+          SUM("dealAmount")::float8 as amount
+        FROM clients
+        JOIN (SELECT id AS "stageId", outcome FROM pipeline_stages) AS stage USING ("stageId")
+        WHERE "deletedAt" IS NULL
+          AND "dealAmount" IS NOT NULL
+          AND currency = ${currency}
+          ${segmentSql}
+        GROUP BY stage.outcome
+      `;
+
+      const valueOf = (outcome: PipelineStageOutcomeEnum) =>
+        rows.find((row) => row.outcome === outcome)?.amount ?? 0;
+      const deals = rows.reduce((sum, row) => sum + Number(row.deals), 0);
+      const totalValue = rows.reduce((sum, row) => sum + row.amount, 0);
+      const wonValue = valueOf(PipelineStageOutcomeEnum.WON);
+
+      return {
+        currency,
+        deals,
+        totalValue: roundAmount(totalValue),
+        wonValue: roundAmount(wonValue),
+        pipelineValue: roundAmount(valueOf(PipelineStageOutcomeEnum.OPEN)),
+        lostValue: roundAmount(valueOf(PipelineStageOutcomeEnum.LOST)),
+        averageDealSize: toAverageDealSize(totalValue, deals),
+        valueConversionRate: toValueRate(wonValue, totalValue),
+      };
+    } catch (error) {
+      this.logger.error('Error getting revenue overview:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get metrics grouped by a specific dimension
    * Optimized with SQL aggregations for better performance with large datasets.
    * Uses raw SQL to avoid N+1 queries and reduce memory usage.
-   * 
+   *
    * @param dimension - The dimension to group by (industry, sentiment, etc.)
+   * @param segmentId - Optional saved segment to scope the metrics to
    * @returns Metrics grouped by the specified dimension
    */
-  async getMetricsByDimension(dimension: DimensionEnum): Promise<DimensionMetricsDto> {
+  async getMetricsByDimension(
+    dimension: DimensionEnum,
+    segmentId?: string,
+  ): Promise<DimensionMetricsDto> {
     try {
       const fieldName = this.getDimensionFieldName(dimension);
-      const rawResults = await this.executeDimensionAggregationQuery(fieldName, dimension);
+      const segmentSql = await this.clientsService.buildSegmentSql(segmentId);
+      const rawResults = await this.executeDimensionAggregationQuery(
+        fieldName,
+        dimension,
+        segmentSql,
+      );
 
       const values = rawResults.map((row) => {
         const count = Number(row.count);
         const closed = Number(row.closed_count);
-        
+
         return {
           value: row.value,
           count,
           closed,
           conversionRate: parseFloat(
-            ((closed / count) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER)
-              .toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES)
+            (
+              (closed / count) *
+              ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER
+            ).toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES),
           ),
-          ...(row.total_interaction_volume !== undefined 
+          ...(row.total_interaction_volume !== undefined
             ? { totalInteractionVolume: Number(row.total_interaction_volume) }
-            : {}
-          ),
+            : {}),
         };
       });
 
       return { dimension, values };
     } catch (error) {
-      this.logger.error(`Error getting metrics by dimension ${dimension}:`, error);
+      this.logger.error(
+        `Error getting metrics by dimension ${dimension}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get deal value metrics grouped by a specific dimension
+   * @param dimension - The dimension to group by (industry, sentiment, etc.)
+   * @param currency - Only deals in this currency are added up (default CLIENT_CONSTANTS.DEFAULT_CURRENCY)
+   * @param segmentId - Optional saved segment to scope the metrics to
+   * @returns Deal values per dimension value, highest won value first
+   */
+  async getRevenueByDimension(
+    dimension: DimensionEnum,
+    currency: string = CLIENT_CONSTANTS.DEFAULT_CURRENCY,
+    segmentId?: string,
+  ): Promise<RevenueDimensionMetricsDto> {
+    try {
+      const field = Prisma.raw(`"${this.getDimensionFieldName(dimension)}"`);
+      const segmentSql = await this.clientsService.buildSegmentSql(segmentId);
+      const rows = await this.prisma.$queryRaw<RevenueDimensionRow[]>`
+        SELECT
+          ${field} as value,
+          COUNT(*)::bigint as count,
+          COUNT(*) FILTER (WHERE closed = true)::bigint as closed_count,
+          SUM("dealAmount")::float8 as total_value,
+          COALESCE(SUM("dealAmount") FILTER (WHERE closed = true), 0)::float8 as won_value
+        FROM clients
+        WHERE ${CATEGORIZED_CLIENT_SQL}
+          AND "deletedAt" IS NULL
+          AND ${field} IS NOT NULL
+          AND "dealAmount" IS NOT NULL
+          AND currency = ${currency}
+          ${segmentSql}
+        GROUP BY ${field}
+        ORDER BY won_value DESC
+      `;
+
+      const values = rows.map((row) => {
+        const count = Number(row.count);
+
+        return {
+          value: row.value,
+          count,
+          closed: Number(row.closed_count),
+          totalValue: roundAmount(row.total_value),
+          wonValue: roundAmount(row.won_value),
+          averageDealSize: toAverageDealSize(row.total_value, count),
+          valueConversionRate: toValueRate(row.won_value, row.total_value),
+        };
+      });
+
+      return { dimension, currency, values };
+    } catch (error) {
+      this.logger.error(
+        `Error getting revenue by dimension ${dimension}:`,
+        error,
+      );
       throw error;
     }
   }
@@ -113,15 +277,16 @@ export class OverviewService {
    * Execute optimized SQL aggregation query for dimension metrics
    * Uses raw SQL with type safety to perform aggregations at database level
    * This significantly improves performance by avoiding loading all records into memory
-   * 
+   *
    * @private
    */
   private async executeDimensionAggregationQuery(
     fieldName: string,
     dimension: DimensionEnum,
+    segmentSql: Prisma.Sql,
   ): Promise<DimensionMetricRow[]> {
     const isIndustry = dimension === DimensionEnum.INDUSTRY;
-    
+
     if (isIndustry) {
       return this.prisma.$queryRaw<DimensionMetricRow[]>`
         SELECT 
@@ -130,8 +295,10 @@ export class OverviewService {
           SUM(CASE WHEN closed = true THEN 1 ELSE 0 END)::bigint as closed_count,
           SUM(COALESCE("interactionVolume", 0))::bigint as total_interaction_volume
         FROM clients
-        WHERE processed = true 
+        WHERE ${CATEGORIZED_CLIENT_SQL}
+          AND "deletedAt" IS NULL
           AND ${Prisma.raw(`"${fieldName}"`)} IS NOT NULL
+          ${segmentSql}
         GROUP BY ${Prisma.raw(`"${fieldName}"`)}
         ORDER BY count DESC
       `;
@@ -142,13 +309,13 @@ export class OverviewService {
           COUNT(*)::bigint as count,
           SUM(CASE WHEN closed = true THEN 1 ELSE 0 END)::bigint as closed_count
         FROM clients
-        WHERE processed = true 
+        WHERE ${CATEGORIZED_CLIENT_SQL}
+          AND "deletedAt" IS NULL
           AND ${Prisma.raw(`"${fieldName}"`)} IS NOT NULL
+          ${segmentSql}
         GROUP BY ${Prisma.raw(`"${fieldName}"`)}
         ORDER BY count DESC
       `;
     }
   }
-
 }
-
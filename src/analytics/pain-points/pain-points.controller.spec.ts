@@ -1,7 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { PainPointsController } from './pain-points.controller';
 import { PainPointsService } from './pain-points.service';
-import { PainPointDto, TechnicalRequirementDto, VolumeVsConversionDto } from '../../common/dto/analytics';
+import {
+  PainPointDto,
+  TechnicalRequirementDto,
+  VolumeVsConversionDto,
+} from '../../common/dto/analytics';
 
 describe('PainPointsController', () => {
   let controller: PainPointsController;
@@ -49,19 +53,19 @@ describe('PainPointsController', () => {
 
       mockPainPointsService.getTopPainPoints.mockResolvedValue(mockPainPoints);
 
-      const result = await controller.getPainPoints();
+      const result = await controller.getPainPoints({});
 
       expect(result).toEqual(mockPainPoints);
       expect(result.length).toBe(2);
       expect(result[0].painPoint).toBe('High workload');
       expect(service.getTopPainPoints).toHaveBeenCalledTimes(1);
-      expect(service.getTopPainPoints).toHaveBeenCalledWith();
+      expect(service.getTopPainPoints).toHaveBeenCalledWith(undefined);
     });
 
     it('should return empty array when no pain points available', async () => {
       mockPainPointsService.getTopPainPoints.mockResolvedValue([]);
 
-      const result = await controller.getPainPoints();
+      const result = await controller.getPainPoints({});
 
       expect(result).toEqual([]);
       expect(service.getTopPainPoints).toHaveBeenCalledTimes(1);
@@ -81,21 +85,25 @@ describe('PainPointsController', () => {
         },
       ];
 
-      mockPainPointsService.getTopTechnicalRequirements.mockResolvedValue(mockRequirements);
+      mockPainPointsService.getTopTechnicalRequirements.mockResolvedValue(
+        mockRequirements,
+      );
 
-      const result = await controller.getTechnicalRequirements();
+      const result = await controller.getTechnicalRequirements({});
 
       expect(result).toEqual(mockRequirements);
       expect(result.length).toBe(2);
       expect(result[0].requirement).toBe('API integration');
       expect(service.getTopTechnicalRequirements).toHaveBeenCalledTimes(1);
-      expect(service.getTopTechnicalRequirements).toHaveBeenCalledWith();
+      expect(service.getTopTechnicalRequirements).toHaveBeenCalledWith(
+        undefined,
+      );
     });
 
     it('should return empty array when no technical requirements available', async () => {
       mockPainPointsService.getTopTechnicalRequirements.mockResolvedValue([]);
 
-      const result = await controller.getTechnicalRequirements();
+      const result = await controller.getTechnicalRequirements({});
 
       expect(result).toEqual([]);
       expect(service.getTopTechnicalRequirements).toHaveBeenCalledTimes(1);
@@ -117,15 +125,17 @@ describe('PainPointsController', () => {
         },
       ];
 
-      mockPainPointsService.getVolumeVsConversion.mockResolvedValue(mockVolumeData);
+      mockPainPointsService.getVolumeVsConversion.mockResolvedValue(
+        mockVolumeData,
+      );
 
-      const result = await controller.getVolumeVsConversion();
+      const result = await controller.getVolumeVsConversion({});
 
       expect(result).toEqual(mockVolumeData);
       expect(result.length).toBe(2);
       expect(result[0].volumeRange).toBe('0-50');
       expect(service.getVolumeVsConversion).toHaveBeenCalledTimes(1);
-      expect(service.getVolumeVsConversion).toHaveBeenCalledWith();
+      expect(service.getVolumeVsConversion).toHaveBeenCalledWith(undefined);
     });
 
     it('should return all volume ranges even when empty', async () => {
@@ -157,9 +167,11 @@ describe('PainPointsController', () => {
         },
       ];
 
-      mockPainPointsService.getVolumeVsConversion.mockResolvedValue(mockVolumeData);
+      mockPainPointsService.getVolumeVsConversion.mockResolvedValue(
+        mockVolumeData,
+      );
 
-      const result = await controller.getVolumeVsConversion();
+      const result = await controller.getVolumeVsConversion({});
 
       expect(result).toEqual(mockVolumeData);
       expect(result.length).toBe(5);
@@ -167,4 +179,3 @@ describe('PainPointsController', () => {
     });
   });
 });
-
@@ -1,6 +1,7 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { PainPointsService } from './pain-points.service';
+import { SegmentQueryDto } from '../../common/dto/analytics/queries.dto';
 
 @ApiTags('analytics')
 @Controller('analytics')
@@ -9,23 +10,39 @@ export class PainPointsController {
 
   @Get('pain-points')
   @ApiOperation({ summary: 'Get top pain points from client interactions' })
-  @ApiResponse({ status: 200, description: 'Top pain points retrieved successfully' })
-  async getPainPoints() {
-    return this.painPointsService.getTopPainPoints();
+  @ApiResponse({
+    status: 200,
+    description: 'Top pain points retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async getPainPoints(@Query() query: SegmentQueryDto) {
+    return this.painPointsService.getTopPainPoints(query.segmentId);
   }
 
   @Get('technical-requirements')
-  @ApiOperation({ summary: 'Get top technical requirements from client interactions' })
-  @ApiResponse({ status: 200, description: 'Top technical requirements retrieved successfully' })
-  async getTechnicalRequirements() {
-    return this.painPointsService.getTopTechnicalRequirements();
+  @ApiOperation({
+    summary: 'Get top technical requirements from client interactions',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Top technical requirements retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async getTechnicalRequirements(@Query() query: SegmentQueryDto) {
+    return this.painPointsService.getTopTechnicalRequirements(query.segmentId);
   }
 
   @Get('volume-vs-conversion')
-  @ApiOperation({ summary: 'Get volume vs conversion analysis grouped by interaction volume ranges' })
-  @ApiResponse({ status: 200, description: 'Volume vs conversion data retrieved successfully' })
-  async getVolumeVsConversion() {
-    return this.painPointsService.getVolumeVsConversion();
+  @ApiOperation({
+    summary:
+      'Get volume vs conversion analysis grouped by interaction volume ranges',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Volume vs conversion data retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async getVolumeVsConversion(@Query() query: SegmentQueryDto) {
+    return this.painPointsService.getVolumeVsConversion(query.segmentId);
   }
 }
-
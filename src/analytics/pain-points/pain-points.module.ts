@@ -2,12 +2,12 @@ import { Module } from '@nestjs/common';
 import { PainPointsService } from './pain-points.service';
 import { PainPointsController } from './pain-points.controller';
 import { PrismaModule } from '../../prisma/prisma.module';
+import { ClientsModule } from '../../clients/clients.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, ClientsModule],
   controllers: [PainPointsController],
   providers: [PainPointsService],
   exports: [PainPointsService],
 })
 export class PainPointsModule {}
-
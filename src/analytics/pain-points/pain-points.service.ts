@@ -1,7 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { ClientsService } from '../../clients/clients.service';
 import { Prisma } from '@prisma/client';
-import { PainPointDto, TechnicalRequirementDto, VolumeVsConversionDto } from '../../common/dto/analytics';
+import {
+  PainPointDto,
+  TechnicalRequirementDto,
+  VolumeVsConversionDto,
+} from '../../common/dto/analytics';
+import { CATEGORIZED_CLIENT_SQL } from '../../common/utils/categorization.utils';
 
 interface PainPointRow {
   pain_point: string;
@@ -19,18 +25,24 @@ interface VolumeRangeRow {
 export class PainPointsService {
   private readonly logger = new Logger(PainPointsService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly clientsService: ClientsService,
+  ) {}
 
   /**
    * Get top pain points from client interactions
    * Optimized with SQL unnest() to expand arrays and aggregate at database level.
    * Normalization is performed in application layer to handle variations.
-   * 
+   *
+   * @param segmentId - Optional saved segment to scope the metrics to
    * @returns Top 10 pain points with counts and conversion rates
    */
-  async getTopPainPoints(): Promise<PainPointDto[]> {
+  async getTopPainPoints(segmentId?: string): Promise<PainPointDto[]> {
     try {
-      const rawResults = await this.executePainPointsAggregationQuery();
+      const rawResults = await this.executePainPointsAggregationQuery(
+        await this.clientsService.buildSegmentSql(segmentId),
+      );
 
       const normalizedMap = this.normalizeAndGroupPainPoints(rawResults);
 
@@ -38,7 +50,9 @@ export class PainPointsService {
         .map(([normalized, data]) => ({
           painPoint: data.canonicalName,
           count: data.count,
-          conversionRate: parseFloat(((data.closed / data.count) * 100).toFixed(2)),
+          conversionRate: parseFloat(
+            ((data.closed / data.count) * 100).toFixed(2),
+          ),
         }))
         .sort((a, b) => b.count - a.count)
         .slice(0, 10);
@@ -53,15 +67,19 @@ export class PainPointsService {
    * Aggregates at database level to reduce memory usage and improve performance
    * @private
    */
-  private async executePainPointsAggregationQuery(): Promise<PainPointRow[]> {
+  private async executePainPointsAggregationQuery(
+    segmentSql: Prisma.Sql,
+  ): Promise<PainPointRow[]> {
     return this.prisma.$queryRaw<PainPointRow[]>`
       SELECT 
         unnest("painPoints") as pain_point,
         COUNT(*)::bigint as count,
         SUM(CASE WHEN closed = true THEN 1 ELSE 0 END)::bigint as closed_count
       FROM clients
-      WHERE processed = true 
+      WHERE ${CATEGORIZED_CLIENT_SQL}
+        AND "deletedAt" IS NULL
         AND array_length("painPoints", 1) > 0
+        ${segmentSql}
       GROUP BY pain_point
       ORDER BY count DESC
     `;
@@ -72,9 +90,15 @@ export class PainPointsService {
    * Finds the most common (canonical) name for each normalized pain point
    * @private
    */
-  private normalizeAndGroupPainPoints(
-    rawResults: PainPointRow[],
-  ): Map<string, { canonicalName: string; nameCount: Map<string, number>; count: number; closed: number }> {
+  private normalizeAndGroupPainPoints(rawResults: PainPointRow[]): Map<
+    string,
+    {
+      canonicalName: string;
+      nameCount: Map<string, number>;
+      count: number;
+      closed: number;
+    }
+  > {
     const normalizePainPoint = (painPoint: string): string => {
       return painPoint
         .trim()
@@ -84,12 +108,15 @@ export class PainPointsService {
         .trim();
     };
 
-    const painPointMap = new Map<string, {
-      canonicalName: string;
-      nameCount: Map<string, number>;
-      count: number;
-      closed: number;
-    }>();
+    const painPointMap = new Map<
+      string,
+      {
+        canonicalName: string;
+        nameCount: Map<string, number>;
+        count: number;
+        closed: number;
+      }
+    >();
 
     for (const row of rawResults) {
       const originalName = row.pain_point.trim();
@@ -109,8 +136,11 @@ export class PainPointsService {
       const entry = painPointMap.get(normalized)!;
       entry.count += count;
       entry.closed += closed;
-      
-      entry.nameCount.set(originalName, (entry.nameCount.get(originalName) || 0) + count);
+
+      entry.nameCount.set(
+        originalName,
+        (entry.nameCount.get(originalName) || 0) + count,
+      );
 
       let maxCount = 0;
       let mostCommonName = entry.canonicalName;
@@ -129,12 +159,18 @@ export class PainPointsService {
   /**
    * Get top technical requirements from client interactions
    * Optimized with SQL unnest() to expand arrays and aggregate at database level.
-   * 
+   *
+   * @param segmentId - Optional saved segment to scope the metrics to
    * @returns Top 10 technical requirements with counts
    */
-  async getTopTechnicalRequirements(): Promise<TechnicalRequirementDto[]> {
+  async getTopTechnicalRequirements(
+    segmentId?: string,
+  ): Promise<TechnicalRequirementDto[]> {
     try {
-      const rawResults = await this.executeTechnicalRequirementsAggregationQuery();
+      const rawResults =
+        await this.executeTechnicalRequirementsAggregationQuery(
+          await this.clientsService.buildSegmentSql(segmentId),
+        );
 
       return rawResults
         .map((row) => ({
@@ -153,14 +189,18 @@ export class PainPointsService {
    * Aggregates at database level to reduce memory usage and improve performance
    * @private
    */
-  private async executeTechnicalRequirementsAggregationQuery(): Promise<Array<{ requirement: string; count: bigint }>> {
+  private async executeTechnicalRequirementsAggregationQuery(
+    segmentSql: Prisma.Sql,
+  ): Promise<Array<{ requirement: string; count: bigint }>> {
     return this.prisma.$queryRaw<Array<{ requirement: string; count: bigint }>>`
       SELECT 
         unnest("technicalRequirements") as requirement,
         COUNT(*)::bigint as count
       FROM clients
-      WHERE processed = true 
+      WHERE ${CATEGORIZED_CLIENT_SQL}
+        AND "deletedAt" IS NULL
         AND array_length("technicalRequirements", 1) > 0
+        ${segmentSql}
       GROUP BY requirement
       ORDER BY count DESC
       LIMIT 10
@@ -170,12 +210,17 @@ export class PainPointsService {
   /**
    * Get volume vs conversion analysis grouped by interaction volume ranges
    * Optimized with SQL CASE WHEN to group by ranges at database level.
-   * 
+   *
+   * @param segmentId - Optional saved segment to scope the metrics to
    * @returns Volume vs conversion data for predefined ranges
    */
-  async getVolumeVsConversion(): Promise<VolumeVsConversionDto[]> {
+  async getVolumeVsConversion(
+    segmentId?: string,
+  ): Promise<VolumeVsConversionDto[]> {
     try {
-      const rawResults = await this.executeVolumeRangeAggregationQuery();
+      const rawResults = await this.executeVolumeRangeAggregationQuery(
+        await this.clientsService.buildSegmentSql(segmentId),
+      );
 
       const ranges = ['0-50', '51-100', '101-200', '201-300', '300+'];
       const resultsMap = new Map(
@@ -185,7 +230,7 @@ export class PainPointsService {
             count: Number(row.count),
             closed: Number(row.closed_count),
           },
-        ])
+        ]),
       );
 
       return ranges.map((range) => {
@@ -211,7 +256,9 @@ export class PainPointsService {
    * Uses subquery to allow proper ordering by range label
    * @private
    */
-  private async executeVolumeRangeAggregationQuery(): Promise<VolumeRangeRow[]> {
+  private async executeVolumeRangeAggregationQuery(
+    segmentSql: Prisma.Sql,
+  ): Promise<VolumeRangeRow[]> {
     return this.prisma.$queryRaw<VolumeRangeRow[]>`
       SELECT 
         volume_range,
@@ -228,8 +275,10 @@ export class PainPointsService {
           END as volume_range,
           closed
         FROM clients
-        WHERE processed = true 
+        WHERE ${CATEGORIZED_CLIENT_SQL}
+          AND "deletedAt" IS NULL
           AND "interactionVolume" IS NOT NULL
+          ${segmentSql}
       ) as grouped_clients
       GROUP BY volume_range
       ORDER BY 
@@ -243,4 +292,3 @@ export class PainPointsService {
     `;
   }
 }
-
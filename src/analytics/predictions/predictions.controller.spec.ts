@@ -2,7 +2,10 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { PredictionsController } from './predictions.controller';
 import { ConversionPredictionsService } from './services/conversion-predictions.service';
 import { FutureProjectionsService } from './services/future-projections.service';
-import { ConversionPredictionDto, FutureProjectionDto } from '../../common/dto/analytics';
+import {
+  ConversionPredictionDto,
+  FutureProjectionDto,
+} from '../../common/dto/analytics';
 
 describe('PredictionsController', () => {
   let controller: PredictionsController;
@@ -15,6 +18,7 @@ describe('PredictionsController', () => {
 
   const mockFutureProjectionsService = {
     getFutureProjection: jest.fn(),
+    getRevenueProjection: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -60,20 +64,27 @@ describe('PredictionsController', () => {
           trendClosed: 'increasing',
           trendMeetings: 'stable',
         },
-        message: 'Based on current month performance (2.50 closed deals per day) (4.00 meetings per day), we estimate 5 closed deals and 12 meetings next week, and 20 closed deals and 48 meetings next month.',
+        message:
+          'Based on current month performance (2.50 closed deals per day) (4.00 meetings per day), we estimate 5 closed deals and 12 meetings next week, and 20 closed deals and 48 meetings next month.',
         dataPoints: 4,
         timelineData: [],
       };
 
-      mockFutureProjectionsService.getFutureProjection.mockResolvedValue(mockProjection);
+      mockFutureProjectionsService.getFutureProjection.mockResolvedValue(
+        mockProjection,
+      );
 
       const result = await controller.getFutureProjection();
 
       expect(result).toEqual(mockProjection);
       expect(result.nextWeek.estimatedClosed).toBe(5);
       expect(result.nextMonth.estimatedClosed).toBe(20);
-      expect(futureProjectionsService.getFutureProjection).toHaveBeenCalledTimes(1);
-      expect(futureProjectionsService.getFutureProjection).toHaveBeenCalledWith();
+      expect(
+        futureProjectionsService.getFutureProjection,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        futureProjectionsService.getFutureProjection,
+      ).toHaveBeenCalledWith();
     });
 
     it('should handle empty data gracefully', async () => {
@@ -93,13 +104,47 @@ describe('PredictionsController', () => {
         message: 'Insufficient data for projection.',
       };
 
-      mockFutureProjectionsService.getFutureProjection.mockResolvedValue(mockProjection);
+      mockFutureProjectionsService.getFutureProjection.mockResolvedValue(
+        mockProjection,
+      );
 
       const result = await controller.getFutureProjection();
 
       expect(result).toEqual(mockProjection);
       expect(result.message).toBe('Insufficient data for projection.');
-      expect(futureProjectionsService.getFutureProjection).toHaveBeenCalledTimes(1);
+      expect(
+        futureProjectionsService.getFutureProjection,
+      ).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getRevenueProjection', () => {
+    it('should pass the currency', async () => {
+      const mockProjection = {
+        currency: 'CLP',
+        nextWeek: {
+          expectedRevenue: 700,
+          confidence: 'medium',
+          trend: 'stable',
+        },
+        nextMonth: {
+          expectedRevenue: 3000,
+          confidence: 'medium',
+          trend: 'stable',
+        },
+        averageDealSize: 250,
+        message: 'Projection',
+      };
+      mockFutureProjectionsService.getRevenueProjection.mockResolvedValue(
+        mockProjection,
+      );
+
+      const result = await controller.getRevenueProjection({ currency: 'CLP' });
+
+      expect(result).toEqual(mockProjection);
+      expect(
+        futureProjectionsService.getRevenueProjection,
+      ).toHaveBeenCalledWith('CLP');
     });
   });
 
@@ -109,7 +154,8 @@ describe('PredictionsController', () => {
         {
           clientName: 'Client A',
           probability: 0.85,
-          recommendation: 'High probability of conversion. Focus on addressing technical requirements.',
+          recommendation:
+            'High probability of conversion. Focus on addressing technical requirements.',
           industry: 'Technology',
           seller: 'Seller 1',
           urgencyLevel: 'immediate',
@@ -117,14 +163,17 @@ describe('PredictionsController', () => {
         {
           clientName: 'Client B',
           probability: 0.65,
-          recommendation: 'Moderate probability. Follow up with pain point solutions.',
+          recommendation:
+            'Moderate probability. Follow up with pain point solutions.',
           industry: 'Finance',
           seller: 'Seller 2',
           urgencyLevel: 'planned',
         },
       ];
 
-      mockConversionPredictionsService.getConversionPredictions.mockResolvedValue(mockPredictions);
+      mockConversionPredictionsService.getConversionPredictions.mockResolvedValue(
+        mockPredictions,
+      );
 
       const result = await controller.getConversionPredictions();
 
@@ -132,18 +181,25 @@ describe('PredictionsController', () => {
       expect(result.length).toBe(2);
       expect(result[0].clientName).toBe('Client A');
       expect(result[0].probability).toBe(0.85);
-      expect(conversionPredictionsService.getConversionPredictions).toHaveBeenCalledTimes(1);
-      expect(conversionPredictionsService.getConversionPredictions).toHaveBeenCalledWith();
+      expect(
+        conversionPredictionsService.getConversionPredictions,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        conversionPredictionsService.getConversionPredictions,
+      ).toHaveBeenCalledWith();
     });
 
     it('should return empty array when no open deals available', async () => {
-      mockConversionPredictionsService.getConversionPredictions.mockResolvedValue([]);
+      mockConversionPredictionsService.getConversionPredictions.mockResolvedValue(
+        [],
+      );
 
       const result = await controller.getConversionPredictions();
 
       expect(result).toEqual([]);
-      expect(conversionPredictionsService.getConversionPredictions).toHaveBeenCalledTimes(1);
+      expect(
+        conversionPredictionsService.getConversionPredictions,
+      ).toHaveBeenCalledTimes(1);
     });
   });
 });
-
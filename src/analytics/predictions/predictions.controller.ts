@@ -1,7 +1,8 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { ConversionPredictionsService } from './services/conversion-predictions.service';
 import { FutureProjectionsService } from './services/future-projections.service';
+import { CurrencyQueryDto } from '../../common/dto/analytics/queries.dto';
 
 @ApiTags('analytics')
 @Controller('analytics')
@@ -13,16 +14,37 @@ export class PredictionsController {
 
   @Get('future-projection')
   @ApiOperation({ summary: 'Get future projection metrics and trends' })
-  @ApiResponse({ status: 200, description: 'Future projection retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Future projection retrieved successfully',
+  })
   async getFutureProjection() {
     return this.futureProjectionsService.getFutureProjection();
   }
 
+  @Get('revenue-projection')
+  @ApiOperation({
+    summary: 'Get projected won deal value for next week and next month',
+    description:
+      'Projects the deals with an amount in the given currency (default USD).',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revenue projection retrieved successfully',
+  })
+  async getRevenueProjection(@Query() query: CurrencyQueryDto) {
+    return this.futureProjectionsService.getRevenueProjection(query.currency);
+  }
+
   @Get('conversion-predictions')
-  @ApiOperation({ summary: 'Get conversion predictions based on historical data' })
-  @ApiResponse({ status: 200, description: 'Conversion predictions retrieved successfully' })
+  @ApiOperation({
+    summary: 'Get conversion predictions based on historical data',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Conversion predictions retrieved successfully',
+  })
   async getConversionPredictions() {
     return this.conversionPredictionsService.getConversionPredictions();
   }
 }
-
@@ -35,7 +35,9 @@ describe('ConversionPredictionsService', () => {
       ],
     }).compile();
 
-    service = module.get<ConversionPredictionsService>(ConversionPredictionsService);
+    service = module.get<ConversionPredictionsService>(
+      ConversionPredictionsService,
+    );
     prismaService = module.get(PrismaService);
     predictionsGenerator = module.get(PredictionsGeneratorService);
   });
@@ -90,8 +92,12 @@ describe('ConversionPredictionsService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockOpenDeals as Client[]);
-      mockPredictionsGenerator.generateConversionPredictions.mockResolvedValue(mockPredictions);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockOpenDeals as Client[],
+      );
+      mockPredictionsGenerator.generateConversionPredictions.mockResolvedValue(
+        mockPredictions,
+      );
 
       const result = await service.getConversionPredictions();
 
@@ -104,9 +110,12 @@ describe('ConversionPredictionsService', () => {
       expect(prismaService.client.findMany).toHaveBeenCalledWith({
         where: {
           processed: true,
+          categorizationStatus: { not: 'fallback' },
           closed: false,
+          deletedAt: null,
         },
         select: {
+          id: true,
           name: true,
           industry: true,
           sentiment: true,
@@ -123,6 +132,13 @@ describe('ConversionPredictionsService', () => {
         },
         take: ANALYTICS_CONSTANTS.LIMITS.RECENT_WEEKS,
       });
+      expect(
+        mockPredictionsGenerator.generateConversionPredictions.mock
+          .calls[0][0][0],
+      ).toMatchObject({
+        clientId: '1',
+        clientName: 'Client A',
+      });
     });
 
     it('should return empty array when no open deals available', async () => {
@@ -131,7 +147,9 @@ describe('ConversionPredictionsService', () => {
       const result = await service.getConversionPredictions();
 
       expect(result).toEqual([]);
-      expect(mockPredictionsGenerator.generateConversionPredictions).not.toHaveBeenCalled();
+      expect(
+        mockPredictionsGenerator.generateConversionPredictions,
+      ).not.toHaveBeenCalled();
     });
 
     it('should handle null values with Unknown fallback', async () => {
@@ -160,8 +178,12 @@ describe('ConversionPredictionsService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockOpenDeals as Client[]);
-      mockPredictionsGenerator.generateConversionPredictions.mockResolvedValue(mockPredictions);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockOpenDeals as Client[],
+      );
+      mockPredictionsGenerator.generateConversionPredictions.mockResolvedValue(
+        mockPredictions,
+      );
 
       const result = await service.getConversionPredictions();
 
@@ -171,7 +193,9 @@ describe('ConversionPredictionsService', () => {
     });
 
     it('should handle errors gracefully', async () => {
-      mockPrismaService.client.findMany.mockRejectedValue(new Error('Database error'));
+      mockPrismaService.client.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
 
       const result = await service.getConversionPredictions();
 
@@ -197,8 +221,12 @@ describe('ConversionPredictionsService', () => {
         });
       }
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockOpenDeals as Client[]);
-      mockPredictionsGenerator.generateConversionPredictions.mockResolvedValue([]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockOpenDeals as Client[],
+      );
+      mockPredictionsGenerator.generateConversionPredictions.mockResolvedValue(
+        [],
+      );
 
       await service.getConversionPredictions();
 
@@ -210,4 +238,3 @@ describe('ConversionPredictionsService', () => {
     });
   });
 });
-
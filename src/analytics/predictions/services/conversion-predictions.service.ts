@@ -3,6 +3,7 @@ import { PrismaService } from '../../../prisma/prisma.service';
 import { PredictionsGeneratorService } from '../../../llm/generators/predictions-generator.service';
 import { ANALYTICS_CONSTANTS } from '../../../common/constants';
 import { ConversionPredictionDto } from '../../../common/dto/analytics';
+import { CATEGORIZED_CLIENT_WHERE } from '../../../common/utils/categorization.utils';
 
 @Injectable()
 export class ConversionPredictionsService {
@@ -22,10 +23,12 @@ export class ConversionPredictionsService {
     try {
       const openDeals = await this.prisma.client.findMany({
         where: {
-          processed: true,
+          ...CATEGORIZED_CLIENT_WHERE,
           closed: false,
+          deletedAt: null,
         },
         select: {
+          id: true,
           name: true,
           industry: true,
           sentiment: true,
@@ -48,6 +51,7 @@ export class ConversionPredictionsService {
       }
 
       const mappedDeals = openDeals.map((deal) => ({
+        clientId: deal.id,
         clientName: deal.name,
         industry: deal.industry || 'Unknown',
         sentiment: deal.sentiment || 'Unknown',
@@ -60,10 +64,15 @@ export class ConversionPredictionsService {
         interactionVolume: deal.interactionVolume || 0,
       }));
 
-      const predictions = await this.predictionsGenerator.generateConversionPredictions(mappedDeals);
+      const predictions =
+        await this.predictionsGenerator.generateConversionPredictions(
+          mappedDeals,
+        );
 
       return predictions.map((prediction) => {
-        const client = mappedDeals.find((d) => d.clientName === prediction.clientName);
+        const client = mappedDeals.find(
+          (d) => d.clientName === prediction.clientName,
+        );
         return {
           ...prediction,
           industry: client?.industry || 'Unknown',
@@ -77,4 +86,3 @@ export class ConversionPredictionsService {
     }
   }
 }
-
@@ -2,7 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { FutureProjectionsService } from './future-projections.service';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { getSimulatedCurrentDate } from '../../../common/utils/date.utils';
-import { Client } from '@prisma/client';
+import { Client, Prisma } from '@prisma/client';
 
 jest.mock('../../../common/utils/date.utils', () => ({
   getSimulatedCurrentDate: jest.fn(() => new Date(2024, 10, 15)),
@@ -54,17 +54,27 @@ describe('FutureProjectionsService', () => {
       const mockClients: Partial<Client>[] = [
         {
           id: '1',
-          meetingDate: new Date(currentDate.getFullYear(), currentDate.getMonth(), 1),
+          meetingDate: new Date(
+            currentDate.getFullYear(),
+            currentDate.getMonth(),
+            1,
+          ),
           closed: true,
         },
         {
           id: '2',
-          meetingDate: new Date(currentDate.getFullYear(), currentDate.getMonth(), 2),
+          meetingDate: new Date(
+            currentDate.getFullYear(),
+            currentDate.getMonth(),
+            2,
+          ),
           closed: false,
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getFutureProjection();
 
@@ -112,7 +122,9 @@ describe('FutureProjectionsService', () => {
         });
       }
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getFutureProjection();
 
@@ -128,14 +140,18 @@ describe('FutureProjectionsService', () => {
     });
 
     it('should handle errors gracefully', async () => {
-      mockPrismaService.client.findMany.mockRejectedValue(new Error('Database error'));
+      mockPrismaService.client.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
 
       const result = await service.getFutureProjection();
 
       expect(result.nextWeek.estimatedClosed).toBe(0);
       expect(result.nextWeek.estimatedMeetings).toBe(0);
       expect(result.nextWeek.confidence).toBe('low');
-      expect(result.message).toBe('Unable to generate projection at this time.');
+      expect(result.message).toBe(
+        'Unable to generate projection at this time.',
+      );
     });
 
     it('should include timeline data in projection', async () => {
@@ -161,7 +177,9 @@ describe('FutureProjectionsService', () => {
         },
       ];
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        mockClients as Client[],
+      );
 
       const result = await service.getFutureProjection();
 
@@ -170,7 +188,9 @@ describe('FutureProjectionsService', () => {
       if (result.timelineData && result.timelineData.length > 0) {
         expect(result.timelineData[0].date).toBeDefined();
         expect(result.timelineData[0].period).toBeDefined();
-        expect(['current', 'projected']).toContain(result.timelineData[0].period);
+        expect(['current', 'projected']).toContain(
+          result.timelineData[0].period,
+        );
       }
     });
 
@@ -199,15 +219,90 @@ describe('FutureProjectionsService', () => {
 
       const allClients = [...previousMonthClients, ...currentMonthClients];
 
-      mockPrismaService.client.findMany.mockResolvedValue(allClients as Client[]);
+      mockPrismaService.client.findMany.mockResolvedValue(
+        allClients as Client[],
+      );
 
       const result = await service.getFutureProjection();
 
       expect(result.nextWeek.trend).toBeDefined();
-      expect(['increasing', 'decreasing', 'stable', 'neutral']).toContain(result.nextWeek.trend);
+      expect(['increasing', 'decreasing', 'stable', 'neutral']).toContain(
+        result.nextWeek.trend,
+      );
       expect(result.nextWeek.trendClosed).toBeDefined();
       expect(result.nextWeek.trendMeetings).toBeDefined();
     });
   });
-});
 
+  describe('getRevenueProjection', () => {
+    it('should return an empty projection when no won deal has an amount', async () => {
+      mockPrismaService.client.findMany.mockResolvedValue([]);
+
+      const result = await service.getRevenueProjection();
+
+      expect(result).toMatchObject({
+        currency: 'USD',
+        nextWeek: { expectedRevenue: 0, confidence: 'low', trend: 'neutral' },
+        averageDealSize: 0,
+        message: 'Insufficient data for revenue projection.',
+      });
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            deletedAt: null,
+            closed: true,
+            dealAmount: { not: null },
+            currency: 'USD',
+          },
+        }),
+      );
+    });
+
+    it('should project the daily won value of the current month adjusted by its trend', async () => {
+      mockPrismaService.client.findMany.mockResolvedValue([
+        {
+          meetingDate: new Date(2024, 9, 7),
+          dealAmount: new Prisma.Decimal('3100'),
+        },
+        {
+          meetingDate: new Date(2024, 10, 4),
+          dealAmount: new Prisma.Decimal('3000'),
+        },
+        {
+          meetingDate: new Date(2024, 10, 11),
+          dealAmount: new Prisma.Decimal('3000'),
+        },
+      ]);
+
+      const result = await service.getRevenueProjection('EUR');
+
+      // 200 EUR a day in November against 100 in October: increasing, so 5% more a day
+      expect(result.currency).toBe('EUR');
+      expect(result.nextWeek).toEqual({
+        expectedRevenue: 1470,
+        confidence: 'high',
+        trend: 'increasing',
+      });
+      expect(result.nextMonth).toEqual({
+        expectedRevenue: 6510,
+        confidence: 'high',
+        trend: 'increasing',
+      });
+      expect(result.averageDealSize).toBe(3033.33);
+      expect(result.message).toContain('1470.00 EUR next week');
+    });
+
+    it('should handle errors gracefully', async () => {
+      mockPrismaService.client.findMany.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      const result = await service.getRevenueProjection();
+
+      expect(result.nextMonth.expectedRevenue).toBe(0);
+      expect(result.message).toBe(
+        'Unable to generate revenue projection at this time.',
+      );
+    });
+  });
+});
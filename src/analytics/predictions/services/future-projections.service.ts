@@ -1,8 +1,32 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { getSimulatedCurrentDate } from '../../../common/utils/date.utils';
-import { ANALYTICS_CONSTANTS } from '../../../common/constants';
-import { FutureProjectionDto } from '../../../common/dto/analytics';
+import {
+  ANALYTICS_CONSTANTS,
+  CLIENT_CONSTANTS,
+} from '../../../common/constants';
+import {
+  FutureProjectionDto,
+  RevenueProjectionDto,
+} from '../../../common/dto/analytics';
+import {
+  roundAmount,
+  toAverageDealSize,
+} from '../../../common/utils/revenue.utils';
+
+/**
+ * Week of the year a date falls in, as YYYY-Www
+ */
+const toWeekKey = (value: Date): string => {
+  const date = new Date(value);
+  const year = date.getFullYear();
+  const startOfYear = new Date(year, 0, 1);
+  const days = Math.floor(
+    (date.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000),
+  );
+  const weekNumber = Math.ceil((days + startOfYear.getDay() + 1) / 7);
+  return `${year}-W${String(weekNumber).padStart(2, '0')}`;
+};
 
 @Injectable()
 export class FutureProjectionsService {
@@ -18,6 +42,7 @@ export class FutureProjectionsService {
   async getFutureProjection(): Promise<FutureProjectionDto> {
     try {
       const clients = await this.prisma.client.findMany({
+        where: { deletedAt: null },
         select: {
           meetingDate: true,
           closed: true,
@@ -49,7 +74,11 @@ export class FutureProjectionsService {
         now,
       );
 
-      const timelineData = this.buildTimelineData(currentMonthData, projections, now);
+      const timelineData = this.buildTimelineData(
+        currentMonthData,
+        projections,
+        now,
+      );
 
       return {
         nextWeek: projections.nextWeek,
@@ -82,6 +111,165 @@ export class FutureProjectionsService {
     }
   }
 
+  /**
+   * Get revenue projection for next week and next month
+   * Projects the value of won deals from the daily won value of the current month, adjusted by its
+   * trend against the previous month. Only deals with an amount in the currency are counted.
+   * @param currency - Currency of the deals to project (default CLIENT_CONSTANTS.DEFAULT_CURRENCY)
+   * @returns Revenue projection with expected revenue, confidence levels, and trends
+   */
+  async getRevenueProjection(
+    currency: string = CLIENT_CONSTANTS.DEFAULT_CURRENCY,
+  ): Promise<RevenueProjectionDto> {
+    try {
+      const clients = await this.prisma.client.findMany({
+        where: {
+          deletedAt: null,
+          closed: true,
+          dealAmount: { not: null },
+          currency,
+        },
+        select: {
+          meetingDate: true,
+          dealAmount: true,
+        },
+        orderBy: {
+          meetingDate: 'asc',
+        },
+      });
+
+      if (clients.length === 0) {
+        return this.getEmptyRevenueProjection(
+          currency,
+          'Insufficient data for revenue projection.',
+        );
+      }
+
+      const deals = clients.map((client) => ({
+        meetingDate: client.meetingDate,
+        amount: client.dealAmount!.toNumber(),
+      }));
+
+      const weeklyRevenue = new Map<string, number>();
+      deals.forEach((deal) => {
+        const weekKey = toWeekKey(deal.meetingDate);
+        weeklyRevenue.set(
+          weekKey,
+          (weeklyRevenue.get(weekKey) ?? 0) + deal.amount,
+        );
+      });
+      const recentWeeks = Array.from(weeklyRevenue.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .slice(-4)
+        .map(([, revenue]) => revenue);
+
+      const now = getSimulatedCurrentDate();
+      const currentDailyRevenue = this.getDailyRevenue(
+        deals,
+        now.getFullYear(),
+        now.getMonth(),
+      );
+      const previousDailyRevenue = this.getDailyRevenue(
+        deals,
+        now.getFullYear(),
+        now.getMonth() - 1,
+      );
+
+      const trend = this.calculateTrend(
+        currentDailyRevenue,
+        previousDailyRevenue,
+        0.05,
+      );
+      const trendMultiplier =
+        trend === 'increasing' ? 1.05 : trend === 'decreasing' ? 0.95 : 1.0;
+      const projectedDailyRevenue = currentDailyRevenue * trendMultiplier;
+
+      const averageWeeklyRevenue =
+        recentWeeks.reduce((sum, revenue) => sum + revenue, 0) /
+        recentWeeks.length;
+      const confidence =
+        recentWeeks.length < 2
+          ? 'low'
+          : this.calculateConfidence(recentWeeks, averageWeeklyRevenue);
+
+      const daysInNextMonth = new Date(
+        now.getFullYear(),
+        now.getMonth() + 2,
+        0,
+      ).getDate();
+      const nextWeekRevenue = roundAmount(projectedDailyRevenue * 7);
+      const nextMonthRevenue = roundAmount(
+        projectedDailyRevenue * daysInNextMonth,
+      );
+
+      return {
+        currency,
+        nextWeek: { expectedRevenue: nextWeekRevenue, confidence, trend },
+        nextMonth: { expectedRevenue: nextMonthRevenue, confidence, trend },
+        averageDealSize: toAverageDealSize(
+          deals.reduce((sum, deal) => sum + deal.amount, 0),
+          deals.length,
+        ),
+        message: `Based on ${currentDailyRevenue.toFixed(2)} ${currency} won per day this month (${trend} against last month), we expect ${nextWeekRevenue.toFixed(2)} ${currency} next week and ${nextMonthRevenue.toFixed(2)} ${currency} next month.`,
+      };
+    } catch (error) {
+      this.logger.error('Error getting revenue projection:', error);
+      return this.getEmptyRevenueProjection(
+        currency,
+        'Unable to generate revenue projection at this time.',
+      );
+    }
+  }
+
+  /**
+   * Average won value per day of a month
+   * @param month - Month index; -1 is December of the previous year
+   */
+  private getDailyRevenue(
+    deals: Array<{ meetingDate: Date; amount: number }>,
+    year: number,
+    month: number,
+  ): number {
+    const monthStart = new Date(year, month, 1);
+    const monthEnd = new Date(year, month + 1, 1);
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+    const revenue = deals
+      .filter(
+        (deal) => deal.meetingDate >= monthStart && deal.meetingDate < monthEnd,
+      )
+      .reduce((sum, deal) => sum + deal.amount, 0);
+
+    return revenue / daysInMonth;
+  }
+
+  /**
+   * Confidence of a projection from how much its weekly values vary
+   */
+  private calculateConfidence(
+    values: number[],
+    average: number,
+  ): 'high' | 'medium' | 'low' {
+    const variance =
+      values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) /
+      values.length;
+    const stdDev = Math.sqrt(variance);
+    const coefficientOfVariation = average > 0 ? stdDev / average : 1;
+
+    if (
+      coefficientOfVariation <
+      ANALYTICS_CONSTANTS.VARIANCE.LOW_VARIANCE_THRESHOLD
+    ) {
+      return 'high';
+    } else if (
+      coefficientOfVariation >
+      ANALYTICS_CONSTANTS.VARIANCE.LOW_VARIANCE_THRESHOLD * 2
+    ) {
+      return 'low';
+    }
+    return 'medium';
+  }
+
   /**
    * Calculate weekly data from clients
    */
@@ -91,12 +279,7 @@ export class FutureProjectionsService {
     const weeklyData = new Map<string, { total: number; closed: number }>();
 
     clients.forEach((client) => {
-      const date = new Date(client.meetingDate);
-      const year = date.getFullYear();
-      const startOfYear = new Date(year, 0, 1);
-      const days = Math.floor((date.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-      const weekNumber = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-      const weekKey = `${year}-W${String(weekNumber).padStart(2, '0')}`;
+      const weekKey = toWeekKey(client.meetingDate);
 
       if (!weeklyData.has(weekKey)) {
         weeklyData.set(weekKey, { total: 0, closed: 0 });
@@ -142,11 +325,17 @@ export class FutureProjectionsService {
   } {
     const currentMonth = now.getMonth();
     const currentYear = now.getFullYear();
-    const daysInCurrentMonth = new Date(currentYear, currentMonth + 1, 0).getDate();
+    const daysInCurrentMonth = new Date(
+      currentYear,
+      currentMonth + 1,
+      0,
+    ).getDate();
 
     const currentMonthClients = clients.filter((client) => {
       const date = new Date(client.meetingDate);
-      return date.getMonth() === currentMonth && date.getFullYear() === currentYear;
+      return (
+        date.getMonth() === currentMonth && date.getFullYear() === currentYear
+      );
     });
 
     const closed = currentMonthClients.filter((c) => c.closed).length;
@@ -187,12 +376,20 @@ export class FutureProjectionsService {
     const currentMonth = now.getMonth();
     const currentYear = now.getFullYear();
     const previousMonth = currentMonth === 0 ? 11 : currentMonth - 1;
-    const previousMonthYear = currentMonth === 0 ? currentYear - 1 : currentYear;
-    const daysInPreviousMonth = new Date(previousMonthYear, previousMonth + 1, 0).getDate();
+    const previousMonthYear =
+      currentMonth === 0 ? currentYear - 1 : currentYear;
+    const daysInPreviousMonth = new Date(
+      previousMonthYear,
+      previousMonth + 1,
+      0,
+    ).getDate();
 
     const previousMonthClients = clients.filter((client) => {
       const date = new Date(client.meetingDate);
-      return date.getMonth() === previousMonth && date.getFullYear() === previousMonthYear;
+      return (
+        date.getMonth() === previousMonth &&
+        date.getFullYear() === previousMonthYear
+      );
     });
 
     const closed = previousMonthClients.filter((c) => c.closed).length;
@@ -252,8 +449,10 @@ export class FutureProjectionsService {
       trendMeetings: 'increasing' | 'decreasing' | 'stable' | 'neutral';
     };
   } {
-    const avgClosed = weeksArray.reduce((sum, w) => sum + w.closed, 0) / weeksArray.length;
-    const avgTotal = weeksArray.reduce((sum, w) => sum + w.total, 0) / weeksArray.length;
+    const avgClosed =
+      weeksArray.reduce((sum, w) => sum + w.closed, 0) / weeksArray.length;
+    const avgTotal =
+      weeksArray.reduce((sum, w) => sum + w.total, 0) / weeksArray.length;
 
     const monthlyClosedTrend = this.calculateTrend(
       currentMonthData.dailyAvg.closed,
@@ -267,7 +466,11 @@ export class FutureProjectionsService {
     );
 
     const closedTrendMultiplier =
-      monthlyClosedTrend === 'increasing' ? 1.05 : monthlyClosedTrend === 'decreasing' ? 0.95 : 1.0;
+      monthlyClosedTrend === 'increasing'
+        ? 1.05
+        : monthlyClosedTrend === 'decreasing'
+          ? 0.95
+          : 1.0;
     const meetingsTrendMultiplier =
       monthlyMeetingsTrend === 'increasing'
         ? 1.05
@@ -275,20 +478,15 @@ export class FutureProjectionsService {
           ? 0.95
           : 1.0;
 
-    const projectedDailyClosed = currentMonthData.dailyAvg.closed * closedTrendMultiplier;
-    const projectedDailyMeetings = currentMonthData.dailyAvg.meetings * meetingsTrendMultiplier;
-
-    const variance =
-      weeksArray.reduce((sum, w) => sum + Math.pow(w.closed - avgClosed, 2), 0) / weeksArray.length;
-    const stdDev = Math.sqrt(variance);
-    const coefficientOfVariation = avgClosed > 0 ? stdDev / avgClosed : 1;
+    const projectedDailyClosed =
+      currentMonthData.dailyAvg.closed * closedTrendMultiplier;
+    const projectedDailyMeetings =
+      currentMonthData.dailyAvg.meetings * meetingsTrendMultiplier;
 
-    let confidence: 'high' | 'medium' | 'low' = 'medium';
-    if (coefficientOfVariation < ANALYTICS_CONSTANTS.VARIANCE.LOW_VARIANCE_THRESHOLD) {
-      confidence = 'high';
-    } else if (coefficientOfVariation > ANALYTICS_CONSTANTS.VARIANCE.LOW_VARIANCE_THRESHOLD * 2) {
-      confidence = 'low';
-    }
+    const confidence = this.calculateConfidence(
+      weeksArray.map((w) => w.closed),
+      avgClosed,
+    );
 
     const currentMonth = now.getMonth();
     const currentYear = now.getFullYear();
@@ -298,9 +496,15 @@ export class FutureProjectionsService {
 
     const daysInNextWeek = 7;
     const nextWeekEstimate = Math.round(projectedDailyClosed * daysInNextWeek);
-    const nextMonthEstimate = Math.round(projectedDailyClosed * daysInNextMonth);
-    const nextWeekMeetingsEstimate = Math.round(projectedDailyMeetings * daysInNextWeek);
-    const nextMonthMeetingsEstimate = Math.round(projectedDailyMeetings * daysInNextMonth);
+    const nextMonthEstimate = Math.round(
+      projectedDailyClosed * daysInNextMonth,
+    );
+    const nextWeekMeetingsEstimate = Math.round(
+      projectedDailyMeetings * daysInNextWeek,
+    );
+    const nextMonthMeetingsEstimate = Math.round(
+      projectedDailyMeetings * daysInNextMonth,
+    );
 
     return {
       nextWeek: {
@@ -337,7 +541,12 @@ export class FutureProjectionsService {
       nextMonth: { estimatedClosed: number; estimatedMeetings: number };
     },
     now: Date,
-  ): Array<{ date: string; period: 'current' | 'projected'; meetings: number; closed: number }> {
+  ): Array<{
+    date: string;
+    period: 'current' | 'projected';
+    meetings: number;
+    closed: number;
+  }> {
     const timelineData: Array<{
       date: string;
       period: 'current' | 'projected';
@@ -349,11 +558,18 @@ export class FutureProjectionsService {
     const currentYear = now.getFullYear();
     const nextMonth = currentMonth === 11 ? 0 : currentMonth + 1;
     const nextMonthYear = currentMonth === 11 ? currentYear + 1 : currentYear;
-    const daysInCurrentMonth = new Date(currentYear, currentMonth + 1, 0).getDate();
+    const daysInCurrentMonth = new Date(
+      currentYear,
+      currentMonth + 1,
+      0,
+    ).getDate();
     const daysInNextMonth = new Date(nextMonthYear, nextMonth + 1, 0).getDate();
 
     for (let day = 1; day <= daysInCurrentMonth; day++) {
-      const dayData = currentMonthData.dailyData.get(day) || { meetings: 0, closed: 0 };
+      const dayData = currentMonthData.dailyData.get(day) || {
+        meetings: 0,
+        closed: 0,
+      };
       const date = new Date(currentYear, currentMonth, day);
       timelineData.push({
         date: date.toISOString().split('T')[0],
@@ -363,8 +579,10 @@ export class FutureProjectionsService {
       });
     }
 
-    const projectedDailyClosed = projections.nextMonth.estimatedClosed / daysInNextMonth;
-    const projectedDailyMeetings = projections.nextMonth.estimatedMeetings / daysInNextMonth;
+    const projectedDailyClosed =
+      projections.nextMonth.estimatedClosed / daysInNextMonth;
+    const projectedDailyMeetings =
+      projections.nextMonth.estimatedMeetings / daysInNextMonth;
 
     for (let day = 1; day <= daysInNextMonth; day++) {
       const date = new Date(nextMonthYear, nextMonth, day);
@@ -392,7 +610,8 @@ export class FutureProjectionsService {
   ): string {
     const trendPercentage =
       previousMonthData.dailyAvg.closed > 0
-        ? ((currentMonthData.dailyAvg.closed - previousMonthData.dailyAvg.closed) /
+        ? ((currentMonthData.dailyAvg.closed -
+            previousMonthData.dailyAvg.closed) /
             previousMonthData.dailyAvg.closed) *
           100
         : currentMonthData.dailyAvg.closed > 0
@@ -400,11 +619,16 @@ export class FutureProjectionsService {
           : 0;
 
     const trendDirection =
-      trendPercentage > 5 ? 'increasing' : trendPercentage < -5 ? 'decreasing' : 'stable';
+      trendPercentage > 5
+        ? 'increasing'
+        : trendPercentage < -5
+          ? 'decreasing'
+          : 'stable';
 
     const meetingsTrendPercentage =
       previousMonthData.dailyAvg.meetings > 0
-        ? ((currentMonthData.dailyAvg.meetings - previousMonthData.dailyAvg.meetings) /
+        ? ((currentMonthData.dailyAvg.meetings -
+            previousMonthData.dailyAvg.meetings) /
             previousMonthData.dailyAvg.meetings) *
           100
         : currentMonthData.dailyAvg.meetings > 0
@@ -422,14 +646,20 @@ export class FutureProjectionsService {
 
     if (trendDirection === 'increasing' && Math.abs(trendPercentage) >= 5) {
       message += `Based on current month showing a ${Math.abs(trendPercentage).toFixed(1)}% increase in closed deals compared to last month`;
-    } else if (trendDirection === 'decreasing' && Math.abs(trendPercentage) >= 5) {
+    } else if (
+      trendDirection === 'decreasing' &&
+      Math.abs(trendPercentage) >= 5
+    ) {
       message += `Based on current month showing a ${Math.abs(trendPercentage).toFixed(1)}% decrease in closed deals compared to last month`;
     } else if (
       currentMonthData.dailyAvg.closed === 0 &&
       previousMonthData.dailyAvg.closed === 0
     ) {
       message += `Based on current month data showing no closed deals (same as last month)`;
-    } else if (currentMonthData.dailyAvg.closed === 0 && previousMonthData.dailyAvg.closed > 0) {
+    } else if (
+      currentMonthData.dailyAvg.closed === 0 &&
+      previousMonthData.dailyAvg.closed > 0
+    ) {
       message += `Based on current month showing no closed deals (down from ${previousMonthData.dailyAvg.closed.toFixed(2)} per day last month)`;
     } else if (
       currentMonthData.dailyAvg.closed > 0 &&
@@ -440,9 +670,15 @@ export class FutureProjectionsService {
       message += `Based on current month performance (${currentMonthData.dailyAvg.closed.toFixed(2)} closed deals per day)`;
     }
 
-    if (meetingsTrendDirection === 'increasing' && Math.abs(meetingsTrendPercentage) >= 5) {
+    if (
+      meetingsTrendDirection === 'increasing' &&
+      Math.abs(meetingsTrendPercentage) >= 5
+    ) {
       message += ` and a ${Math.abs(meetingsTrendPercentage).toFixed(1)}% increase in meetings compared to last month`;
-    } else if (meetingsTrendDirection === 'decreasing' && Math.abs(meetingsTrendPercentage) >= 5) {
+    } else if (
+      meetingsTrendDirection === 'decreasing' &&
+      Math.abs(meetingsTrendPercentage) >= 5
+    ) {
       message += ` and a ${Math.abs(meetingsTrendPercentage).toFixed(1)}% decrease in meetings compared to last month`;
     } else if (
       currentMonthData.dailyAvg.meetings === 0 &&
@@ -489,22 +725,49 @@ export class FutureProjectionsService {
     };
   }
 
+  /**
+   * Get empty revenue projection when no deal value is available
+   */
+  private getEmptyRevenueProjection(
+    currency: string,
+    message: string,
+  ): RevenueProjectionDto {
+    return {
+      currency,
+      nextWeek: {
+        expectedRevenue: 0,
+        confidence: 'low',
+        trend: 'neutral',
+      },
+      nextMonth: {
+        expectedRevenue: 0,
+        confidence: 'low',
+        trend: 'neutral',
+      },
+      averageDealSize: 0,
+      message,
+    };
+  }
+
   /**
    * Get fallback projection when insufficient data
    */
   private getFallbackProjection(
     weeksArray: Array<{ week: string; closed: number; total: number }>,
   ): FutureProjectionDto {
-    const fallbackMeetings = weeksArray.length > 0 ? Math.round(weeksArray[0].total) : 0;
+    const fallbackMeetings =
+      weeksArray.length > 0 ? Math.round(weeksArray[0].total) : 0;
     return {
       nextWeek: {
-        estimatedClosed: weeksArray.length > 0 ? Math.round(weeksArray[0].closed) : 0,
+        estimatedClosed:
+          weeksArray.length > 0 ? Math.round(weeksArray[0].closed) : 0,
         estimatedMeetings: fallbackMeetings,
         confidence: 'low',
         trend: 'neutral',
       },
       nextMonth: {
-        estimatedClosed: weeksArray.length > 0 ? Math.round(weeksArray[0].closed * 4) : 0,
+        estimatedClosed:
+          weeksArray.length > 0 ? Math.round(weeksArray[0].closed * 4) : 0,
         estimatedMeetings: fallbackMeetings * 4,
         confidence: 'low',
         trend: 'neutral',
@@ -513,4 +776,3 @@ export class FutureProjectionsService {
     };
   }
 }
-
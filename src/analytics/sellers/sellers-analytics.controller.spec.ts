@@ -4,6 +4,7 @@ import { SellersMetricsService } from './services/sellers-metrics.service';
 import { SellersRankingsService } from './services/sellers-rankings.service';
 import { SellersTimelineService } from './services/sellers-timeline.service';
 import { SellersCorrelationsService } from './services/sellers-correlations.service';
+import { TeamsMetricsService } from './services/teams-metrics.service';
 import { GranularityEnum } from '../../common/dto/analytics/queries.dto';
 import {
   SellerMetricsDto,
@@ -13,6 +14,7 @@ import {
   WeekPodiumDto,
   AnnualSellerRankingDto,
   SellerTimelineDataDto,
+  TeamMetricsDto,
 } from '../../common/dto/analytics';
 
 describe('SellersAnalyticsController', () => {
@@ -29,6 +31,7 @@ describe('SellersAnalyticsController', () => {
   const mockSellersRankingsService = {
     getSellerOfWeek: jest.fn(),
     getAnnualSellerRanking: jest.fn(),
+    getAnnualSellerRevenueRanking: jest.fn(),
   };
 
   const mockSellersTimelineService = {
@@ -43,6 +46,12 @@ describe('SellersAnalyticsController', () => {
     getSellerTimelineInsight: jest.fn(),
   };
 
+  const mockTeamsMetricsService = {
+    getTeamMetrics: jest.fn(),
+    getAnnualTeamRanking: jest.fn(),
+    getTeamsTimeline: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [SellersAnalyticsController],
@@ -63,10 +72,16 @@ describe('SellersAnalyticsController', () => {
           provide: SellersCorrelationsService,
           useValue: mockSellersCorrelationsService,
         },
+        {
+          provide: TeamsMetricsService,
+          useValue: mockTeamsMetricsService,
+        },
       ],
     }).compile();
 
-    controller = module.get<SellersAnalyticsController>(SellersAnalyticsController);
+    controller = module.get<SellersAnalyticsController>(
+      SellersAnalyticsController,
+    );
     sellersMetricsService = module.get(SellersMetricsService);
     sellersRankingsService = module.get(SellersRankingsService);
     sellersTimelineService = module.get(SellersTimelineService);
@@ -81,12 +96,14 @@ describe('SellersAnalyticsController', () => {
     it('should return seller metrics successfully', async () => {
       const mockMetrics: SellerMetricsDto[] = [
         {
+          sellerId: 'seller-1',
           seller: 'Seller 1',
           total: 20,
           closed: 12,
           conversionRate: 60.0,
         },
         {
+          sellerId: 'seller-2',
           seller: 'Seller 2',
           total: 15,
           closed: 8,
@@ -105,11 +122,65 @@ describe('SellersAnalyticsController', () => {
     });
   });
 
+  describe('team rollups', () => {
+    const teamMetrics: TeamMetricsDto[] = [
+      {
+        teamId: 'team-1',
+        team: 'North',
+        region: 'Chile',
+        sellers: 3,
+        total: 40,
+        closed: 22,
+        conversionRate: 55.0,
+      },
+    ];
+
+    it('should return team metrics for a region', async () => {
+      mockTeamsMetricsService.getTeamMetrics.mockResolvedValue(teamMetrics);
+
+      const result = await controller.getTeamMetrics({ region: 'Chile' });
+
+      expect(result).toEqual(teamMetrics);
+      expect(mockTeamsMetricsService.getTeamMetrics).toHaveBeenCalledWith(
+        'Chile',
+      );
+    });
+
+    it('should return the annual team ranking', async () => {
+      mockTeamsMetricsService.getAnnualTeamRanking.mockResolvedValue({
+        year: 2024,
+        ranking: teamMetrics,
+      });
+
+      const result = await controller.getAnnualTeamRanking({ year: 2024 });
+
+      expect(result.ranking).toEqual(teamMetrics);
+      expect(mockTeamsMetricsService.getAnnualTeamRanking).toHaveBeenCalledWith(
+        2024,
+        undefined,
+      );
+    });
+
+    it('should default the teams timeline to weekly periods', async () => {
+      mockTeamsMetricsService.getTeamsTimeline.mockResolvedValue([
+        { period: '2024-W01', teams: { North: 2 } },
+      ]);
+
+      await controller.getTeamsTimeline({});
+
+      expect(mockTeamsMetricsService.getTeamsTimeline).toHaveBeenCalledWith(
+        GranularityEnum.WEEK,
+        undefined,
+      );
+    });
+  });
+
   describe('getSellerOfWeek', () => {
     it('should return seller of the week with default current week', async () => {
       const mockWeekPodium: WeekPodiumDto = {
         weekPodium: [
           {
+            sellerId: 'seller-1',
             seller: 'Seller 1',
             closed: 5,
             total: 8,
@@ -122,19 +193,25 @@ describe('SellersAnalyticsController', () => {
         },
       };
 
-      mockSellersRankingsService.getSellerOfWeek.mockResolvedValue(mockWeekPodium);
+      mockSellersRankingsService.getSellerOfWeek.mockResolvedValue(
+        mockWeekPodium,
+      );
 
       const result = await controller.getSellerOfWeek({});
 
       expect(result).toEqual(mockWeekPodium);
       expect(sellersRankingsService.getSellerOfWeek).toHaveBeenCalledTimes(1);
-      expect(sellersRankingsService.getSellerOfWeek).toHaveBeenCalledWith(undefined, undefined);
+      expect(sellersRankingsService.getSellerOfWeek).toHaveBeenCalledWith(
+        undefined,
+        undefined,
+      );
     });
 
     it('should return seller of the week with specific week and year', async () => {
       const mockWeekPodium: WeekPodiumDto = {
         weekPodium: [
           {
+            sellerId: 'seller-2',
             seller: 'Seller 2',
             closed: 3,
             total: 5,
@@ -147,7 +224,9 @@ describe('SellersAnalyticsController', () => {
         },
       };
 
-      mockSellersRankingsService.getSellerOfWeek.mockResolvedValue(mockWeekPodium);
+      mockSellersRankingsService.getSellerOfWeek.mockResolvedValue(
+        mockWeekPodium,
+      );
 
       const result = await controller.getSellerOfWeek({
         weekStart: '2024-01-01',
@@ -155,7 +234,10 @@ describe('SellersAnalyticsController', () => {
       });
 
       expect(result).toEqual(mockWeekPodium);
-      expect(sellersRankingsService.getSellerOfWeek).toHaveBeenCalledWith('2024-01-01', 2024);
+      expect(sellersRankingsService.getSellerOfWeek).toHaveBeenCalledWith(
+        '2024-01-01',
+        2024,
+      );
     });
   });
 
@@ -165,12 +247,14 @@ describe('SellersAnalyticsController', () => {
         year: 2024,
         ranking: [
           {
+            sellerId: 'seller-1',
             seller: 'Seller 1',
             closed: 50,
             total: 80,
             conversionRate: 62.5,
           },
           {
+            sellerId: 'seller-2',
             seller: 'Seller 2',
             closed: 40,
             total: 70,
@@ -179,13 +263,19 @@ describe('SellersAnalyticsController', () => {
         ],
       };
 
-      mockSellersRankingsService.getAnnualSellerRanking.mockResolvedValue(mockRanking);
+      mockSellersRankingsService.getAnnualSellerRanking.mockResolvedValue(
+        mockRanking,
+      );
 
       const result = await controller.getAnnualSellerRanking({});
 
       expect(result).toEqual(mockRanking);
-      expect(sellersRankingsService.getAnnualSellerRanking).toHaveBeenCalledTimes(1);
-      expect(sellersRankingsService.getAnnualSellerRanking).toHaveBeenCalledWith(undefined);
+      expect(
+        sellersRankingsService.getAnnualSellerRanking,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        sellersRankingsService.getAnnualSellerRanking,
+      ).toHaveBeenCalledWith(undefined);
     });
 
     it('should return annual seller ranking with specific year', async () => {
@@ -193,6 +283,7 @@ describe('SellersAnalyticsController', () => {
         year: 2023,
         ranking: [
           {
+            sellerId: 'seller-1',
             seller: 'Seller 1',
             closed: 30,
             total: 50,
@@ -201,12 +292,16 @@ describe('SellersAnalyticsController', () => {
         ],
       };
 
-      mockSellersRankingsService.getAnnualSellerRanking.mockResolvedValue(mockRanking);
+      mockSellersRankingsService.getAnnualSellerRanking.mockResolvedValue(
+        mockRanking,
+      );
 
       const result = await controller.getAnnualSellerRanking({ year: 2023 });
 
       expect(result).toEqual(mockRanking);
-      expect(sellersRankingsService.getAnnualSellerRanking).toHaveBeenCalledWith(2023);
+      expect(
+        sellersRankingsService.getAnnualSellerRanking,
+      ).toHaveBeenCalledWith(2023);
     });
   });
 
@@ -229,12 +324,16 @@ describe('SellersAnalyticsController', () => {
         },
       ];
 
-      mockSellersTimelineService.getSellersTimeline.mockResolvedValue(mockTimeline);
+      mockSellersTimelineService.getSellersTimeline.mockResolvedValue(
+        mockTimeline,
+      );
 
       const result = await controller.getSellersTimeline({});
 
       expect(result).toEqual(mockTimeline);
-      expect(sellersTimelineService.getSellersTimeline).toHaveBeenCalledWith(GranularityEnum.WEEK);
+      expect(sellersTimelineService.getSellersTimeline).toHaveBeenCalledWith(
+        GranularityEnum.WEEK,
+      );
     });
 
     it('should return sellers timeline with month granularity', async () => {
@@ -248,12 +347,18 @@ describe('SellersAnalyticsController', () => {
         },
       ];
 
-      mockSellersTimelineService.getSellersTimeline.mockResolvedValue(mockTimeline);
+      mockSellersTimelineService.getSellersTimeline.mockResolvedValue(
+        mockTimeline,
+      );
 
-      const result = await controller.getSellersTimeline({ granularity: GranularityEnum.MONTH });
+      const result = await controller.getSellersTimeline({
+        granularity: GranularityEnum.MONTH,
+      });
 
       expect(result).toEqual(mockTimeline);
-      expect(sellersTimelineService.getSellersTimeline).toHaveBeenCalledWith(GranularityEnum.MONTH);
+      expect(sellersTimelineService.getSellersTimeline).toHaveBeenCalledWith(
+        GranularityEnum.MONTH,
+      );
     });
   });
 
@@ -273,30 +378,43 @@ describe('SellersAnalyticsController', () => {
         },
       ];
 
-      mockSellersCorrelationsService.getSellerCorrelations.mockResolvedValue(mockCorrelations);
+      mockSellersCorrelationsService.getSellerCorrelations.mockResolvedValue(
+        mockCorrelations,
+      );
 
       const result = await controller.getSellerCorrelations();
 
       expect(result).toEqual(mockCorrelations);
-      expect(sellersCorrelationsService.getSellerCorrelations).toHaveBeenCalledTimes(1);
-      expect(sellersCorrelationsService.getSellerCorrelations).toHaveBeenCalledWith();
+      expect(
+        sellersCorrelationsService.getSellerCorrelations,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        sellersCorrelationsService.getSellerCorrelations,
+      ).toHaveBeenCalledWith();
     });
   });
 
   describe('getSellerCorrelationInsights', () => {
     it('should return seller correlation insights successfully', async () => {
       const mockInsights: Record<string, string> = {
-        'Seller 1': 'Seller 1 shows strong performance with Technology clients.',
+        'Seller 1':
+          'Seller 1 shows strong performance with Technology clients.',
         'Seller 2': 'No significant correlations identified yet.',
       };
 
-      mockSellersCorrelationsService.getSellerCorrelationInsights.mockResolvedValue(mockInsights);
+      mockSellersCorrelationsService.getSellerCorrelationInsights.mockResolvedValue(
+        mockInsights,
+      );
 
       const result = await controller.getSellerCorrelationInsights();
 
       expect(result).toEqual(mockInsights);
-      expect(sellersCorrelationsService.getSellerCorrelationInsights).toHaveBeenCalledTimes(1);
-      expect(sellersCorrelationsService.getSellerCorrelationInsights).toHaveBeenCalledWith();
+      expect(
+        sellersCorrelationsService.getSellerCorrelationInsights,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        sellersCorrelationsService.getSellerCorrelationInsights,
+      ).toHaveBeenCalledWith();
     });
   });
 
@@ -307,18 +425,25 @@ describe('SellersAnalyticsController', () => {
           seller: 'Seller 1',
           type: 'positive',
           metric: 'conversions',
-          message: 'Seller 1 increased conversions by 20% compared to last month',
+          message:
+            'Seller 1 increased conversions by 20% compared to last month',
           change: 20.0,
         },
       ];
 
-      mockSellersCorrelationsService.getSellerInsights.mockResolvedValue(mockInsights);
+      mockSellersCorrelationsService.getSellerInsights.mockResolvedValue(
+        mockInsights,
+      );
 
       const result = await controller.getSellerInsights();
 
       expect(result).toEqual(mockInsights);
-      expect(sellersCorrelationsService.getSellerInsights).toHaveBeenCalledTimes(1);
-      expect(sellersCorrelationsService.getSellerInsights).toHaveBeenCalledWith();
+      expect(
+        sellersCorrelationsService.getSellerInsights,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        sellersCorrelationsService.getSellerInsights,
+      ).toHaveBeenCalledWith();
     });
   });
 
@@ -334,38 +459,73 @@ describe('SellersAnalyticsController', () => {
         },
       ];
 
-      mockSellersCorrelationsService.getSellerAIFeedback.mockResolvedValue(mockFeedback);
+      mockSellersCorrelationsService.getSellerAIFeedback.mockResolvedValue(
+        mockFeedback,
+      );
 
       const result = await controller.getSellerAIFeedback();
 
       expect(result).toEqual(mockFeedback);
-      expect(sellersCorrelationsService.getSellerAIFeedback).toHaveBeenCalledTimes(1);
-      expect(sellersCorrelationsService.getSellerAIFeedback).toHaveBeenCalledWith();
+      expect(
+        sellersCorrelationsService.getSellerAIFeedback,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        sellersCorrelationsService.getSellerAIFeedback,
+      ).toHaveBeenCalledWith();
     });
   });
 
   describe('getSellerTimelineInsight', () => {
     it('should return seller timeline insight with default month granularity', async () => {
-      const mockInsight = 'Seller performance shows increasing trends over time.';
+      const mockInsight =
+        'Seller performance shows increasing trends over time.';
 
-      mockSellersCorrelationsService.getSellerTimelineInsight.mockResolvedValue(mockInsight);
+      mockSellersCorrelationsService.getSellerTimelineInsight.mockResolvedValue(
+        mockInsight,
+      );
 
       const result = await controller.getSellerTimelineInsight({});
 
       expect(result).toEqual({ insight: mockInsight });
-      expect(sellersCorrelationsService.getSellerTimelineInsight).toHaveBeenCalledWith(GranularityEnum.MONTH);
+      expect(
+        sellersCorrelationsService.getSellerTimelineInsight,
+      ).toHaveBeenCalledWith(GranularityEnum.MONTH);
     });
 
     it('should return seller timeline insight with week granularity', async () => {
       const mockInsight = 'Weekly seller performance analysis.';
 
-      mockSellersCorrelationsService.getSellerTimelineInsight.mockResolvedValue(mockInsight);
+      mockSellersCorrelationsService.getSellerTimelineInsight.mockResolvedValue(
+        mockInsight,
+      );
 
-      const result = await controller.getSellerTimelineInsight({ granularity: GranularityEnum.WEEK });
+      const result = await controller.getSellerTimelineInsight({
+        granularity: GranularityEnum.WEEK,
+      });
 
       expect(result).toEqual({ insight: mockInsight });
-      expect(sellersCorrelationsService.getSellerTimelineInsight).toHaveBeenCalledWith(GranularityEnum.WEEK);
+      expect(
+        sellersCorrelationsService.getSellerTimelineInsight,
+      ).toHaveBeenCalledWith(GranularityEnum.WEEK);
     });
   });
-});
 
+  describe('getAnnualSellerRevenueRanking', () => {
+    it('should pass the year and currency', async () => {
+      const mockRanking = { year: 2023, currency: 'EUR', ranking: [] };
+      mockSellersRankingsService.getAnnualSellerRevenueRanking.mockResolvedValue(
+        mockRanking,
+      );
+
+      const result = await controller.getAnnualSellerRevenueRanking({
+        year: 2023,
+        currency: 'EUR',
+      });
+
+      expect(result).toEqual(mockRanking);
+      expect(
+        sellersRankingsService.getAnnualSellerRevenueRanking,
+      ).toHaveBeenCalledWith(2023, 'EUR');
+    });
+  });
+});
@@ -5,11 +5,16 @@ import {
   YearQueryDto,
   SellerOfWeekQueryDto,
   GranularityEnum,
+  TeamQueryDto,
+  TeamYearQueryDto,
+  TeamTimelineQueryDto,
+  RevenueYearQueryDto,
 } from '../../common/dto/analytics/queries.dto';
 import { SellersMetricsService } from './services/sellers-metrics.service';
 import { SellersRankingsService } from './services/sellers-rankings.service';
 import { SellersTimelineService } from './services/sellers-timeline.service';
 import { SellersCorrelationsService } from './services/sellers-correlations.service';
+import { TeamsMetricsService } from './services/teams-metrics.service';
 
 @ApiTags('analytics')
 @Controller('analytics')
@@ -19,69 +24,157 @@ export class SellersAnalyticsController {
     private readonly sellersRankingsService: SellersRankingsService,
     private readonly sellersTimelineService: SellersTimelineService,
     private readonly sellersCorrelationsService: SellersCorrelationsService,
+    private readonly teamsMetricsService: TeamsMetricsService,
   ) {}
 
   @Get('sellers')
   @ApiOperation({ summary: 'Get seller metrics overview' })
-  @ApiResponse({ status: 200, description: 'Seller metrics retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Seller metrics retrieved successfully',
+  })
   async getSellerMetrics() {
     return this.sellersMetricsService.getSellerMetrics();
   }
 
   @Get('seller-of-week')
   @ApiOperation({ summary: 'Get seller of the week' })
-  @ApiResponse({ status: 200, description: 'Seller of the week retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Seller of the week retrieved successfully',
+  })
   async getSellerOfWeek(@Query() query: SellerOfWeekQueryDto) {
-    return this.sellersRankingsService.getSellerOfWeek(query.weekStart, query.year);
+    return this.sellersRankingsService.getSellerOfWeek(
+      query.weekStart,
+      query.year,
+    );
   }
 
   @Get('annual-seller-ranking')
   @ApiOperation({ summary: 'Get annual seller ranking' })
-  @ApiResponse({ status: 200, description: 'Annual seller ranking retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Annual seller ranking retrieved successfully',
+  })
   async getAnnualSellerRanking(@Query() query: YearQueryDto) {
     return this.sellersRankingsService.getAnnualSellerRanking(query.year);
   }
 
+  @Get('annual-seller-revenue-ranking')
+  @ApiOperation({
+    summary: 'Get annual seller ranking by won deal value',
+    description:
+      'Adds up the deals closed in the year with an amount in the given currency (default USD).',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Annual seller revenue ranking retrieved successfully',
+  })
+  async getAnnualSellerRevenueRanking(@Query() query: RevenueYearQueryDto) {
+    return this.sellersRankingsService.getAnnualSellerRevenueRanking(
+      query.year,
+      query.currency,
+    );
+  }
+
   @Get('sellers-timeline')
   @ApiOperation({ summary: 'Get sellers timeline data' })
-  @ApiResponse({ status: 200, description: 'Sellers timeline retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sellers timeline retrieved successfully',
+  })
   async getSellersTimeline(@Query() query: SellerTimelineQueryDto) {
     return this.sellersTimelineService.getSellersTimeline(
       query.granularity || GranularityEnum.WEEK,
     );
   }
 
+  @Get('teams')
+  @ApiOperation({
+    summary: 'Get team metrics overview',
+    description:
+      "Rolls up the clients of each team's members, crediting each client to the team its seller was on at the meeting date.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Team metrics retrieved successfully',
+  })
+  async getTeamMetrics(@Query() query: TeamQueryDto) {
+    return this.teamsMetricsService.getTeamMetrics(query.region);
+  }
+
+  @Get('annual-team-ranking')
+  @ApiOperation({ summary: 'Get annual team ranking' })
+  @ApiResponse({
+    status: 200,
+    description: 'Annual team ranking retrieved successfully',
+  })
+  async getAnnualTeamRanking(@Query() query: TeamYearQueryDto) {
+    return this.teamsMetricsService.getAnnualTeamRanking(
+      query.year,
+      query.region,
+    );
+  }
+
+  @Get('teams-timeline')
+  @ApiOperation({ summary: 'Get teams timeline data' })
+  @ApiResponse({
+    status: 200,
+    description: 'Teams timeline retrieved successfully',
+  })
+  async getTeamsTimeline(@Query() query: TeamTimelineQueryDto) {
+    return this.teamsMetricsService.getTeamsTimeline(
+      query.granularity || GranularityEnum.WEEK,
+      query.region,
+    );
+  }
+
   @Get('seller-correlations')
   @ApiOperation({ summary: 'Get seller performance correlations' })
-  @ApiResponse({ status: 200, description: 'Seller correlations retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Seller correlations retrieved successfully',
+  })
   async getSellerCorrelations() {
     return this.sellersCorrelationsService.getSellerCorrelations();
   }
 
   @Get('seller-correlation-insights')
   @ApiOperation({ summary: 'Get AI-generated insights on seller correlations' })
-  @ApiResponse({ status: 200, description: 'Seller correlation insights retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Seller correlation insights retrieved successfully',
+  })
   async getSellerCorrelationInsights() {
     return this.sellersCorrelationsService.getSellerCorrelationInsights();
   }
 
   @Get('seller-insights')
   @ApiOperation({ summary: 'Get AI-generated seller insights' })
-  @ApiResponse({ status: 200, description: 'Seller insights retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Seller insights retrieved successfully',
+  })
   async getSellerInsights() {
     return this.sellersCorrelationsService.getSellerInsights();
   }
 
   @Get('seller-ai-feedback')
   @ApiOperation({ summary: 'Get AI-generated feedback for sellers' })
-  @ApiResponse({ status: 200, description: 'Seller AI feedback retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Seller AI feedback retrieved successfully',
+  })
   async getSellerAIFeedback() {
     return this.sellersCorrelationsService.getSellerAIFeedback();
   }
 
   @Get('seller-timeline-insight')
   @ApiOperation({ summary: 'Get AI-generated insight on sellers timeline' })
-  @ApiResponse({ status: 200, description: 'Seller timeline insight retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Seller timeline insight retrieved successfully',
+  })
   async getSellerTimelineInsight(@Query() query: SellerTimelineQueryDto) {
     return {
       insight: await this.sellersCorrelationsService.getSellerTimelineInsight(
@@ -90,4 +183,3 @@ export class SellersAnalyticsController {
     };
   }
 }
-
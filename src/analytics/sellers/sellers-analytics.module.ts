@@ -6,6 +6,7 @@ import { SellersMetricsService } from './services/sellers-metrics.service';
 import { SellersRankingsService } from './services/sellers-rankings.service';
 import { SellersTimelineService } from './services/sellers-timeline.service';
 import { SellersCorrelationsService } from './services/sellers-correlations.service';
+import { TeamsMetricsService } from './services/teams-metrics.service';
 
 @Module({
   imports: [PrismaModule, GeneratorsModule],
@@ -15,13 +16,14 @@ import { SellersCorrelationsService } from './services/sellers-correlations.serv
     SellersRankingsService,
     SellersTimelineService,
     SellersCorrelationsService,
+    TeamsMetricsService,
   ],
   exports: [
     SellersMetricsService,
     SellersRankingsService,
     SellersTimelineService,
     SellersCorrelationsService,
+    TeamsMetricsService,
   ],
 })
 export class SellersAnalyticsModule {}
-
@@ -62,7 +62,9 @@ describe('SellersCorrelationsService', () => {
       ],
     }).compile();
 
-    service = module.get<SellersCorrelationsService>(SellersCorrelationsService);
+    service = module.get<SellersCorrelationsService>(
+      SellersCorrelationsService,
+    );
     prismaService = module.get(PrismaService);
     sellerInsightsGenerator = module.get(SellerInsightsGeneratorService);
     sellersMetricsService = module.get(SellersMetricsService);
@@ -116,21 +118,28 @@ describe('SellersCorrelationsService', () => {
 
       expect(result).toBeInstanceOf(Array);
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
-        where: { processed: true },
+        where: {
+          processed: true,
+          categorizationStatus: { not: 'fallback' },
+          deletedAt: null,
+        },
       });
     });
 
     it('should filter correlations by relevance thresholds', async () => {
-      const mockClients = Array.from({ length: ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY }, (_, i) => ({
-        assignedSeller: 'Seller 1',
-        closed: i < ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY * 0.7, // 70% success rate
-        processed: true,
-        industry: 'Technology',
-        operationSize: 'large',
-        urgencyLevel: 'immediate',
-        sentiment: 'positive',
-        discoverySource: 'Website',
-      }));
+      const mockClients = Array.from(
+        { length: ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY },
+        (_, i) => ({
+          assignedSeller: 'Seller 1',
+          closed: i < ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY * 0.7, // 70% success rate
+          processed: true,
+          industry: 'Technology',
+          operationSize: 'large',
+          urgencyLevel: 'immediate',
+          sentiment: 'positive',
+          discoverySource: 'Website',
+        }),
+      );
 
       mockPrismaService.client.findMany.mockResolvedValue(mockClients as any);
 
@@ -138,7 +147,9 @@ describe('SellersCorrelationsService', () => {
 
       expect(result.length).toBeGreaterThan(0);
       result.forEach((corr) => {
-        expect(corr.total).toBeGreaterThanOrEqual(ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY);
+        expect(corr.total).toBeGreaterThanOrEqual(
+          ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY,
+        );
       });
     });
 
@@ -212,18 +223,23 @@ describe('SellersCorrelationsService', () => {
 
     it('should handle errors gracefully', async () => {
       const minClients = ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY;
-      const mockClientsForCorrelations = Array.from({ length: minClients }, () => ({
-        assignedSeller: 'Seller 1',
-        processed: true,
-        industry: 'Technology',
-        closed: true,
-        operationSize: 'large',
-        urgencyLevel: 'immediate',
-        sentiment: 'positive',
-        discoverySource: 'Website',
-      }));
+      const mockClientsForCorrelations = Array.from(
+        { length: minClients },
+        () => ({
+          assignedSeller: 'Seller 1',
+          processed: true,
+          industry: 'Technology',
+          closed: true,
+          operationSize: 'large',
+          urgencyLevel: 'immediate',
+          sentiment: 'positive',
+          discoverySource: 'Website',
+        }),
+      );
 
-      const mockClientsForSellers = [{ assignedSeller: 'Seller 1', processed: true }];
+      const mockClientsForSellers = [
+        { assignedSeller: 'Seller 1', processed: true },
+      ];
 
       mockPrismaService.client.findMany
         .mockResolvedValueOnce(mockClientsForCorrelations as any)
@@ -286,7 +302,9 @@ describe('SellersCorrelationsService', () => {
 
       const result = await service.getSellerInsights();
 
-      const urgencyInsight = result.find((insight) => insight.metric === 'urgency');
+      const urgencyInsight = result.find(
+        (insight) => insight.metric === 'urgency',
+      );
       expect(urgencyInsight).toBeDefined();
       expect(urgencyInsight?.message).toContain('low urgency');
     });
@@ -295,7 +313,9 @@ describe('SellersCorrelationsService', () => {
       const now = new Date('2024-02-15T10:00:00Z');
       (getSimulatedCurrentDate as jest.Mock).mockReturnValue(now);
 
-      const currentMonthClients = [{ assignedSeller: 'Seller 1', closed: true }];
+      const currentMonthClients = [
+        { assignedSeller: 'Seller 1', closed: true },
+      ];
       const lastMonthClients = [{ assignedSeller: 'Seller 1', closed: true }];
 
       mockPrismaService.client.findMany
@@ -328,7 +348,9 @@ describe('SellersCorrelationsService', () => {
         },
       ];
 
-      mockSellersMetricsService.getSellerMetrics.mockResolvedValue(mockSellers as any);
+      mockSellersMetricsService.getSellerMetrics.mockResolvedValue(
+        mockSellers as any,
+      );
       mockPrismaService.client.findMany.mockResolvedValue([]);
 
       mockSellerInsightsGenerator.generateSellerFeedback.mockResolvedValue({
@@ -350,7 +372,9 @@ describe('SellersCorrelationsService', () => {
         { seller: 'Seller 2', total: 5, closed: 3, conversionRate: 60 },
       ];
 
-      mockSellersMetricsService.getSellerMetrics.mockResolvedValue(mockSellers as any);
+      mockSellersMetricsService.getSellerMetrics.mockResolvedValue(
+        mockSellers as any,
+      );
       mockPrismaService.client.findMany.mockResolvedValue([]);
 
       mockSellerInsightsGenerator.generateSellerFeedback.mockResolvedValue({
@@ -360,7 +384,9 @@ describe('SellersCorrelationsService', () => {
       const result = await service.getSellerAIFeedback();
 
       expect(result).toHaveLength(2);
-      expect(mockSellerInsightsGenerator.generateSellerFeedback).toHaveBeenCalledTimes(2);
+      expect(
+        mockSellerInsightsGenerator.generateSellerFeedback,
+      ).toHaveBeenCalledTimes(2);
     });
   });
 
@@ -377,7 +403,9 @@ describe('SellersCorrelationsService', () => {
         },
       ];
 
-      mockSellersTimelineService.getSellersTimeline.mockResolvedValue(mockTimelineData as any);
+      mockSellersTimelineService.getSellersTimeline.mockResolvedValue(
+        mockTimelineData as any,
+      );
       mockSellerInsightsGenerator.generateSellerTimelineInsight.mockResolvedValue(
         'Test timeline insight',
       );
@@ -385,7 +413,9 @@ describe('SellersCorrelationsService', () => {
       const result = await service.getSellerTimelineInsight('month');
 
       expect(result).toBe('Test timeline insight');
-      expect(mockSellersTimelineService.getSellersTimeline).toHaveBeenCalledWith('month');
+      expect(
+        mockSellersTimelineService.getSellersTimeline,
+      ).toHaveBeenCalledWith('month');
     });
 
     it('should return fallback message when no timeline data', async () => {
@@ -397,11 +427,15 @@ describe('SellersCorrelationsService', () => {
     });
 
     it('should handle errors gracefully', async () => {
-      mockSellersTimelineService.getSellersTimeline.mockRejectedValue(new Error('Database error'));
+      mockSellersTimelineService.getSellersTimeline.mockRejectedValue(
+        new Error('Database error'),
+      );
 
       const result = await service.getSellerTimelineInsight('month');
 
-      expect(result).toBe('Unable to generate seller timeline insights at this time.');
+      expect(result).toBe(
+        'Unable to generate seller timeline insights at this time.',
+      );
     });
 
     it('should use default month granularity', async () => {
@@ -412,14 +446,19 @@ describe('SellersCorrelationsService', () => {
         },
       ];
 
-      mockSellersTimelineService.getSellersTimeline.mockResolvedValue(mockTimelineData as any);
-      mockSellerInsightsGenerator.generateSellerTimelineInsight.mockResolvedValue('Test');
+      mockSellersTimelineService.getSellersTimeline.mockResolvedValue(
+        mockTimelineData as any,
+      );
+      mockSellerInsightsGenerator.generateSellerTimelineInsight.mockResolvedValue(
+        'Test',
+      );
 
       const result = await service.getSellerTimelineInsight();
 
       expect(result).toBe('Test');
-      expect(mockSellersTimelineService.getSellersTimeline).toHaveBeenCalledWith('month');
+      expect(
+        mockSellersTimelineService.getSellersTimeline,
+      ).toHaveBeenCalledWith('month');
     });
   });
 });
-
@@ -10,6 +10,7 @@ import {
 } from '../../../common/dto/analytics';
 import { SellersMetricsService } from './sellers-metrics.service';
 import { SellersTimelineService } from './sellers-timeline.service';
+import { CATEGORIZED_CLIENT_WHERE } from '../../../common/utils/categorization.utils';
 
 /**
  * Service for seller correlations and insights
@@ -32,11 +33,17 @@ export class SellersCorrelationsService {
    */
   async getSellerCorrelations(): Promise<SellerCorrelationDto[]> {
     const clients = await this.prisma.client.findMany({
-      where: { processed: true },
+      where: { ...CATEGORIZED_CLIENT_WHERE, deletedAt: null },
     });
 
     const sellers = [...new Set(clients.map((c) => c.assignedSeller))].sort();
-    const dimensions = ['industry', 'operationSize', 'urgencyLevel', 'sentiment', 'discoverySource'];
+    const dimensions = [
+      'industry',
+      'operationSize',
+      'urgencyLevel',
+      'sentiment',
+      'discoverySource',
+    ];
 
     const overallAverages = new Map<string, Map<string, number>>();
 
@@ -59,7 +66,10 @@ export class SellersCorrelationsService {
       const avgMap = new Map<string, number>();
       for (const [value, stats] of dimensionMap.entries()) {
         if (stats.total >= ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY) {
-          avgMap.set(value, parseFloat(((stats.closed / stats.total) * 100).toFixed(2)));
+          avgMap.set(
+            value,
+            parseFloat(((stats.closed / stats.total) * 100).toFixed(2)),
+          );
         }
       }
       overallAverages.set(dimension, avgMap);
@@ -73,11 +83,15 @@ export class SellersCorrelationsService {
       const sellerClosed = sellerClients.filter((c) => c.closed).length;
       const sellerAvgConversion =
         sellerTotal > 0
-          ? (sellerClosed / sellerTotal) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER
+          ? (sellerClosed / sellerTotal) *
+            ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER
           : 0;
 
       for (const dimension of dimensions) {
-        const dimensionValues = new Map<string, { total: number; closed: number }>();
+        const dimensionValues = new Map<
+          string,
+          { total: number; closed: number }
+        >();
 
         for (const client of sellerClients) {
           const value = (client as Record<string, unknown>)[dimension];
@@ -92,18 +106,22 @@ export class SellersCorrelationsService {
           if (client.closed) stats.closed++;
         }
 
-        const overallAvgForDimension = overallAverages.get(dimension) || new Map();
+        const overallAvgForDimension =
+          overallAverages.get(dimension) || new Map();
 
         for (const [value, stats] of dimensionValues.entries()) {
           if (stats.total >= ANALYTICS_CONSTANTS.MIN_CLIENTS_FOR_RELIABILITY) {
-            const successRate = parseFloat(((stats.closed / stats.total) * 100).toFixed(2));
+            const successRate = parseFloat(
+              ((stats.closed / stats.total) * 100).toFixed(2),
+            );
             const overallAvg = overallAvgForDimension.get(value) || 0;
 
             const isRelevant =
               successRate >= 70 ||
               successRate > sellerAvgConversion + 15 ||
               successRate >
-                overallAvg + ANALYTICS_CONSTANTS.CONVERSION.THRESHOLD_ADJUSTMENT * 2;
+                overallAvg +
+                  ANALYTICS_CONSTANTS.CONVERSION.THRESHOLD_ADJUSTMENT * 2;
 
             if (isRelevant) {
               correlations.push({
@@ -114,11 +132,17 @@ export class SellersCorrelationsService {
                 closed: stats.closed,
                 successRate,
                 sellerAvgConversion: parseFloat(
-                  sellerAvgConversion.toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES),
+                  sellerAvgConversion.toFixed(
+                    ANALYTICS_CONSTANTS.DECIMAL_PLACES,
+                  ),
+                ),
+                overallAvg: parseFloat(
+                  overallAvg.toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES),
                 ),
-                overallAvg: parseFloat(overallAvg.toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES)),
                 performanceVsAvg: parseFloat(
-                  (successRate - overallAvg).toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES),
+                  (successRate - overallAvg).toFixed(
+                    ANALYTICS_CONSTANTS.DECIMAL_PLACES,
+                  ),
                 ),
               });
             }
@@ -137,14 +161,16 @@ export class SellersCorrelationsService {
   async getSellerCorrelationInsights(): Promise<Record<string, string>> {
     const correlations = await this.getSellerCorrelations();
     const clients = await this.prisma.client.findMany({
-      where: { processed: true },
+      where: { ...CATEGORIZED_CLIENT_WHERE, deletedAt: null },
     });
 
     const sellers = [...new Set(clients.map((c) => c.assignedSeller))].sort();
     const insights: Record<string, string> = {};
 
     for (const seller of sellers) {
-      const sellerCorrelations = correlations.filter((c) => c.seller === seller);
+      const sellerCorrelations = correlations.filter(
+        (c) => c.seller === seller,
+      );
 
       if (sellerCorrelations.length === 0) {
         insights[seller] =
@@ -166,15 +192,20 @@ export class SellersCorrelationsService {
       }));
 
       try {
-        const insight = await this.sellerInsightsGenerator.generateSellerCorrelationInsight(
-          seller,
-          correlationData,
-        );
+        const insight =
+          await this.sellerInsightsGenerator.generateSellerCorrelationInsight(
+            seller,
+            correlationData,
+          );
         insights[seller] = insight;
       } catch (error) {
-        this.logger.error(`Error generating correlation insight for ${seller}:`, error);
+        this.logger.error(
+          `Error generating correlation insight for ${seller}:`,
+          error,
+        );
         const top = topCorrelations[0];
-        insights[seller] = `${seller} shows ${top.successRate.toFixed(0)}% success rate with ${top.value} clients (${top.closed}/${top.total} deals closed).`;
+        insights[seller] =
+          `${seller} shows ${top.successRate.toFixed(0)}% success rate with ${top.value} clients (${top.closed}/${top.total} deals closed).`;
       }
     }
 
@@ -197,6 +228,7 @@ export class SellersCorrelationsService {
           meetingDate: {
             gte: currentMonthStart,
           },
+          deletedAt: null,
         },
       }),
       this.prisma.client.findMany({
@@ -205,6 +237,7 @@ export class SellersCorrelationsService {
             gte: lastMonthStart,
             lte: lastMonthEnd,
           },
+          deletedAt: null,
         },
       }),
     ]);
@@ -228,7 +261,8 @@ export class SellersCorrelationsService {
 
       if (lastClosed > 0) {
         const change =
-          ((currentClosed - lastClosed) / lastClosed) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER;
+          ((currentClosed - lastClosed) / lastClosed) *
+          ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER;
         const changeAbs = Math.abs(change);
 
         if (changeAbs >= 15) {
@@ -237,12 +271,16 @@ export class SellersCorrelationsService {
             type: change > 0 ? 'positive' : 'negative',
             metric: 'conversions',
             message: `${seller} ${change > 0 ? 'increased' : 'decreased'} conversions by ${changeAbs.toFixed(0)}% compared to last month`,
-            change: parseFloat(change.toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES)),
+            change: parseFloat(
+              change.toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES),
+            ),
           });
         }
       }
 
-      const sellerCurrentClients = currentMonthClients.filter((c) => c.assignedSeller === seller);
+      const sellerCurrentClients = currentMonthClients.filter(
+        (c) => c.assignedSeller === seller,
+      );
       const lowUrgencyClosed = sellerCurrentClients.filter(
         (c) => c.closed && c.urgencyLevel === 'exploratory',
       ).length;
@@ -272,10 +310,12 @@ export class SellersCorrelationsService {
     ]);
 
     const feedbackPromises = sellers.map(async (seller) => {
-      const sellerCorrelations = correlations.filter((c) => c.seller === seller.seller);
+      const sellerCorrelations = correlations.filter(
+        (c) => c.seller === seller.seller,
+      );
 
       // Map correlations to include performanceVsAvg for better AI context
-      const correlationsWithPerformance = sellerCorrelations.map(corr => ({
+      const correlationsWithPerformance = sellerCorrelations.map((corr) => ({
         dimension: corr.dimension,
         value: corr.value,
         total: corr.total,
@@ -284,15 +324,16 @@ export class SellersCorrelationsService {
         performanceVsAvg: corr.performanceVsAvg,
       }));
 
-      const aiResult = await this.sellerInsightsGenerator.generateSellerFeedback({
-        seller: seller.seller,
-        metrics: {
-          total: seller.total,
-          closed: seller.closed,
-          conversionRate: seller.conversionRate,
-        },
-        correlations: correlationsWithPerformance,
-      });
+      const aiResult =
+        await this.sellerInsightsGenerator.generateSellerFeedback({
+          seller: seller.seller,
+          metrics: {
+            total: seller.total,
+            closed: seller.closed,
+            conversionRate: seller.conversionRate,
+          },
+          correlations: correlationsWithPerformance,
+        });
 
       return {
         seller: seller.seller,
@@ -308,9 +349,12 @@ export class SellersCorrelationsService {
    * @param granularity - Time granularity: 'week' or 'month'
    * @returns Timeline insight as a string
    */
-  async getSellerTimelineInsight(granularity: 'week' | 'month' = 'month'): Promise<string> {
+  async getSellerTimelineInsight(
+    granularity: 'week' | 'month' = 'month',
+  ): Promise<string> {
     try {
-      const timelineData = await this.sellersTimelineService.getSellersTimeline(granularity);
+      const timelineData =
+        await this.sellersTimelineService.getSellersTimeline(granularity);
 
       if (!timelineData || timelineData.length === 0) {
         return 'Insufficient data to generate insights.';
@@ -318,7 +362,9 @@ export class SellersCorrelationsService {
 
       const sellers =
         timelineData.length > 0
-          ? Object.keys(timelineData[0].sellers || {}).filter((key) => key !== 'period')
+          ? Object.keys(timelineData[0].sellers || {}).filter(
+              (key) => key !== 'period',
+            )
           : [];
 
       if (sellers.length === 0) {
@@ -339,4 +385,3 @@ export class SellersCorrelationsService {
     }
   }
 }
-
@@ -13,28 +13,38 @@ export class SellersMetricsService {
    */
   async getSellerMetrics(): Promise<SellerMetricsDto[]> {
     const clients = await this.prisma.client.groupBy({
-      by: ['assignedSeller'],
+      by: ['sellerId'],
+      where: { deletedAt: null },
       _count: { id: true },
     });
 
+    const sellers = await this.prisma.seller.findMany({
+      where: { id: { in: clients.map((seller) => seller.sellerId) } },
+      select: { id: true, name: true },
+    });
+    const names = new Map(sellers.map((seller) => [seller.id, seller.name]));
+
     const sellerMetrics: SellerMetricsDto[] = [];
 
     for (const seller of clients) {
       const closed = await this.prisma.client.count({
         where: {
-          assignedSeller: seller.assignedSeller,
+          sellerId: seller.sellerId,
           closed: true,
+          deletedAt: null,
         },
       });
 
       sellerMetrics.push({
-        seller: seller.assignedSeller,
+        sellerId: seller.sellerId,
+        seller: names.get(seller.sellerId)!,
         total: seller._count.id,
         closed,
         conversionRate: parseFloat(
-          ((closed / seller._count.id) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(
-            ANALYTICS_CONSTANTS.DECIMAL_PLACES,
-          ),
+          (
+            (closed / seller._count.id) *
+            ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER
+          ).toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES),
         ),
       });
     }
@@ -44,4 +54,3 @@ export class SellersMetricsService {
     return sellerMetrics;
   }
 }
-
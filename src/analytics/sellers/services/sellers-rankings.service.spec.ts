@@ -1,8 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SellersRankingsService } from './sellers-rankings.service';
 import { PrismaService } from '../../../prisma/prisma.service';
+import { Prisma } from '@prisma/client';
 import { ANALYTICS_CONSTANTS } from '../../../common/constants';
-import { getSimulatedCurrentDate, getSimulatedCurrentYear } from '../../../common/utils/date.utils';
+import {
+  getSimulatedCurrentDate,
+  getSimulatedCurrentYear,
+} from '../../../common/utils/date.utils';
 
 jest.mock('../../../common/utils/date.utils', () => ({
   getSimulatedCurrentDate: jest.fn(),
@@ -44,11 +48,11 @@ describe('SellersRankingsService', () => {
       (getSimulatedCurrentDate as jest.Mock).mockReturnValue(mockDate);
 
       const mockClients = [
-        { assignedSeller: 'Seller 1', closed: true },
-        { assignedSeller: 'Seller 1', closed: true },
-        { assignedSeller: 'Seller 1', closed: false },
-        { assignedSeller: 'Seller 2', closed: true },
-        { assignedSeller: 'Seller 2', closed: false },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: false },
+        { sellerId: 'seller-2', seller: { name: 'Seller 2' }, closed: true },
+        { sellerId: 'seller-2', seller: { name: 'Seller 2' }, closed: false },
       ];
 
       mockPrismaService.client.findMany.mockResolvedValue(mockClients as any);
@@ -56,6 +60,7 @@ describe('SellersRankingsService', () => {
       const result = await service.getSellerOfWeek();
 
       expect(result.weekPodium).toHaveLength(2);
+      expect(result.weekPodium[0].sellerId).toBe('seller-1');
       expect(result.weekPodium[0].seller).toBe('Seller 1');
       expect(result.weekPodium[0].closed).toBe(2);
       expect(result.weekPodium[0].total).toBe(3);
@@ -68,8 +73,8 @@ describe('SellersRankingsService', () => {
     it('should return seller of the week with specific week start date', async () => {
       const weekStart = '2024-01-01';
       const mockClients = [
-        { assignedSeller: 'Seller 1', closed: true },
-        { assignedSeller: 'Seller 1', closed: true },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
       ];
 
       mockPrismaService.client.findMany.mockResolvedValue(mockClients as any);
@@ -85,7 +90,9 @@ describe('SellersRankingsService', () => {
     it('should filter by year when provided', async () => {
       const weekStart = '2024-01-01';
       const year = 2024;
-      const mockClients = [{ assignedSeller: 'Seller 1', closed: true }];
+      const mockClients = [
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
+      ];
 
       mockPrismaService.client.findMany.mockResolvedValue(mockClients as any);
 
@@ -100,7 +107,8 @@ describe('SellersRankingsService', () => {
       (getSimulatedCurrentDate as jest.Mock).mockReturnValue(mockDate);
 
       const mockClients = Array.from({ length: 20 }, (_, i) => ({
-        assignedSeller: `Seller ${i + 1}`,
+        sellerId: `seller-${i + 1}`,
+        seller: { name: `Seller ${i + 1}` },
         closed: true,
       }));
 
@@ -108,7 +116,9 @@ describe('SellersRankingsService', () => {
 
       const result = await service.getSellerOfWeek();
 
-      expect(result.weekPodium.length).toBeLessThanOrEqual(ANALYTICS_CONSTANTS.LIMITS.TOP_SELLERS);
+      expect(result.weekPodium.length).toBeLessThanOrEqual(
+        ANALYTICS_CONSTANTS.LIMITS.TOP_SELLERS,
+      );
     });
 
     it('should return empty podium when no clients exist', async () => {
@@ -129,15 +139,15 @@ describe('SellersRankingsService', () => {
       (getSimulatedCurrentYear as jest.Mock).mockReturnValue(currentYear);
 
       const closedClients = [
-        { assignedSeller: 'Seller 1', closed: true },
-        { assignedSeller: 'Seller 1', closed: true },
-        { assignedSeller: 'Seller 2', closed: true },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
+        { sellerId: 'seller-2', seller: { name: 'Seller 2' }, closed: true },
       ];
 
       const allClients = [
         ...closedClients,
-        { assignedSeller: 'Seller 1', closed: false },
-        { assignedSeller: 'Seller 2', closed: false },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: false },
+        { sellerId: 'seller-2', seller: { name: 'Seller 2' }, closed: false },
       ];
 
       mockPrismaService.client.findMany
@@ -158,8 +168,12 @@ describe('SellersRankingsService', () => {
 
     it('should return annual seller ranking for specific year', async () => {
       const year = 2023;
-      const closedClients = [{ assignedSeller: 'Seller 1', closed: true }];
-      const allClients = [{ assignedSeller: 'Seller 1', closed: true }];
+      const closedClients = [
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
+      ];
+      const allClients = [
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
+      ];
 
       mockPrismaService.client.findMany
         .mockResolvedValueOnce(closedClients as any)
@@ -175,13 +189,13 @@ describe('SellersRankingsService', () => {
     it('should calculate conversion rate correctly', async () => {
       const year = 2024;
       const closedClients = [
-        { assignedSeller: 'Seller 1', closed: true },
-        { assignedSeller: 'Seller 1', closed: true },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
       ];
       const allClients = [
         ...closedClients,
-        { assignedSeller: 'Seller 1', closed: false },
-        { assignedSeller: 'Seller 1', closed: false },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: false },
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: false },
       ];
 
       mockPrismaService.client.findMany
@@ -195,7 +209,9 @@ describe('SellersRankingsService', () => {
 
     it('should return zero conversion rate when no total clients', async () => {
       const year = 2024;
-      const closedClients = [{ assignedSeller: 'Seller 1', closed: true }];
+      const closedClients = [
+        { sellerId: 'seller-1', seller: { name: 'Seller 1' }, closed: true },
+      ];
       const allClients: any[] = [];
 
       mockPrismaService.client.findMany
@@ -219,5 +235,77 @@ describe('SellersRankingsService', () => {
       expect(result.year).toBe(year);
     });
   });
-});
 
+  describe('getAnnualSellerRevenueRanking', () => {
+    it('should rank sellers by the value of their won deals in the currency', async () => {
+      (getSimulatedCurrentYear as jest.Mock).mockReturnValue(2024);
+
+      mockPrismaService.client.findMany.mockResolvedValueOnce([
+        {
+          sellerId: 'seller-1',
+          seller: { name: 'Seller 1' },
+          dealAmount: new Prisma.Decimal('1000.10'),
+        },
+        {
+          sellerId: 'seller-2',
+          seller: { name: 'Seller 2' },
+          dealAmount: new Prisma.Decimal('5000'),
+        },
+        {
+          sellerId: 'seller-1',
+          seller: { name: 'Seller 1' },
+          dealAmount: new Prisma.Decimal('2000.25'),
+        },
+      ] as any);
+
+      const result = await service.getAnnualSellerRevenueRanking();
+
+      expect(result).toEqual({
+        year: 2024,
+        currency: 'USD',
+        ranking: [
+          {
+            sellerId: 'seller-2',
+            seller: 'Seller 2',
+            closed: 1,
+            wonValue: 5000,
+            averageDealSize: 5000,
+          },
+          {
+            sellerId: 'seller-1',
+            seller: 'Seller 1',
+            closed: 2,
+            wonValue: 3000.35,
+            averageDealSize: 1500.18,
+          },
+        ],
+      });
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where: {
+          meetingDate: {
+            gte: new Date(2024, 0, 1),
+            lte: new Date(2024, 11, 31, 23, 59, 59, 999),
+          },
+          closed: true,
+          dealAmount: { not: null },
+          currency: 'USD',
+          deletedAt: null,
+        },
+        include: { seller: { select: { name: true } } },
+      });
+    });
+
+    it('should filter by the requested year and currency', async () => {
+      mockPrismaService.client.findMany.mockResolvedValueOnce([]);
+
+      const result = await service.getAnnualSellerRevenueRanking(2023, 'CLP');
+
+      expect(result).toEqual({ year: 2023, currency: 'CLP', ranking: [] });
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ currency: 'CLP' }),
+        }),
+      );
+    });
+  });
+});
@@ -1,9 +1,28 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { Prisma } from '@prisma/client';
-import { getSimulatedCurrentDate, getSimulatedCurrentYear } from '../../../common/utils/date.utils';
-import { ANALYTICS_CONSTANTS } from '../../../common/constants';
-import { WeekPodiumDto, AnnualSellerRankingDto } from '../../../common/dto/analytics';
+import {
+  getSimulatedCurrentDate,
+  getSimulatedCurrentYear,
+} from '../../../common/utils/date.utils';
+import {
+  ANALYTICS_CONSTANTS,
+  CLIENT_CONSTANTS,
+} from '../../../common/constants';
+import {
+  WeekPodiumDto,
+  AnnualSellerRankingDto,
+  AnnualSellerRevenueRankingDto,
+} from '../../../common/dto/analytics';
+import {
+  roundAmount,
+  toAverageDealSize,
+} from '../../../common/utils/revenue.utils';
+
+// Clients are grouped by seller id and reported with the seller's name
+const WITH_SELLER_NAME = {
+  seller: { select: { name: true } },
+} satisfies Prisma.ClientInclude;
 
 @Injectable()
 export class SellersRankingsService {
@@ -15,7 +34,10 @@ export class SellersRankingsService {
    * @param year - Optional year filter
    * @returns Week podium with top sellers and week range
    */
-  async getSellerOfWeek(weekStart?: string, year?: number): Promise<WeekPodiumDto> {
+  async getSellerOfWeek(
+    weekStart?: string,
+    year?: number,
+  ): Promise<WeekPodiumDto> {
     let weekStartDate: Date;
     let weekEndDate: Date;
 
@@ -40,6 +62,7 @@ export class SellersRankingsService {
         gte: weekStartDate,
         lte: weekEndDate,
       },
+      deletedAt: null,
     };
 
     if (year) {
@@ -53,28 +76,38 @@ export class SellersRankingsService {
 
     const clients = await this.prisma.client.findMany({
       where: whereClause,
+      include: WITH_SELLER_NAME,
     });
 
-    const sellerStats = new Map<string, { total: number; closed: number }>();
+    const sellerStats = new Map<
+      string,
+      { seller: string; total: number; closed: number }
+    >();
 
     for (const client of clients) {
-      if (!sellerStats.has(client.assignedSeller)) {
-        sellerStats.set(client.assignedSeller, { total: 0, closed: 0 });
+      if (!sellerStats.has(client.sellerId)) {
+        sellerStats.set(client.sellerId, {
+          seller: client.seller.name,
+          total: 0,
+          closed: 0,
+        });
       }
-      const stats = sellerStats.get(client.assignedSeller)!;
+      const stats = sellerStats.get(client.sellerId)!;
       stats.total++;
       if (client.closed) stats.closed++;
     }
 
     const sellers = Array.from(sellerStats.entries())
-      .map(([seller, stats]) => ({
-        seller,
+      .map(([sellerId, stats]) => ({
+        sellerId,
+        seller: stats.seller,
         closed: stats.closed,
         total: stats.total,
         conversionRate: parseFloat(
-          ((stats.closed / stats.total) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(
-            ANALYTICS_CONSTANTS.DECIMAL_PLACES,
-          ),
+          (
+            (stats.closed / stats.total) *
+            ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER
+          ).toFixed(ANALYTICS_CONSTANTS.DECIMAL_PLACES),
         ),
       }))
       .sort((a, b) => b.closed - a.closed)
@@ -108,16 +141,25 @@ export class SellersRankingsService {
           lte: yearEnd,
         },
         closed: true,
+        deletedAt: null,
       },
+      include: WITH_SELLER_NAME,
     });
 
-    const sellerStats = new Map<string, { closed: number; total: number }>();
+    const sellerStats = new Map<
+      string,
+      { seller: string; closed: number; total: number }
+    >();
 
     for (const client of clients) {
-      if (!sellerStats.has(client.assignedSeller)) {
-        sellerStats.set(client.assignedSeller, { closed: 0, total: 0 });
+      if (!sellerStats.has(client.sellerId)) {
+        sellerStats.set(client.sellerId, {
+          seller: client.seller.name,
+          closed: 0,
+          total: 0,
+        });
       }
-      const stats = sellerStats.get(client.assignedSeller)!;
+      const stats = sellerStats.get(client.sellerId)!;
       stats.closed++;
     }
 
@@ -127,22 +169,26 @@ export class SellersRankingsService {
           gte: yearStart,
           lte: yearEnd,
         },
+        deletedAt: null,
       },
     });
 
     for (const client of allYearClients) {
-      if (sellerStats.has(client.assignedSeller)) {
-        sellerStats.get(client.assignedSeller)!.total++;
+      if (sellerStats.has(client.sellerId)) {
+        sellerStats.get(client.sellerId)!.total++;
       }
     }
 
     const ranking = Array.from(sellerStats.entries())
-      .map(([seller, stats]) => ({
-        seller,
+      .map(([sellerId, stats]) => ({
+        sellerId,
+        seller: stats.seller,
         closed: stats.closed,
         total: stats.total,
         conversionRate:
-          stats.total > 0 ? parseFloat(((stats.closed / stats.total) * 100).toFixed(2)) : 0,
+          stats.total > 0
+            ? parseFloat(((stats.closed / stats.total) * 100).toFixed(2))
+            : 0,
       }))
       .sort((a, b) => b.closed - a.closed);
 
@@ -151,5 +197,67 @@ export class SellersRankingsService {
       ranking,
     };
   }
-}
 
+  /**
+   * Get annual seller ranking by the value of the deals closed in a specific year
+   * @param year - Optional year (defaults to current year)
+   * @param currency - Only deals in this currency are added up (default CLIENT_CONSTANTS.DEFAULT_CURRENCY)
+   * @returns Annual ranking with sellers sorted by won value
+   */
+  async getAnnualSellerRevenueRanking(
+    year?: number,
+    currency: string = CLIENT_CONSTANTS.DEFAULT_CURRENCY,
+  ): Promise<AnnualSellerRevenueRankingDto> {
+    const selectedYear = year || getSimulatedCurrentYear();
+    const yearStart = new Date(selectedYear, 0, 1);
+    const yearEnd = new Date(selectedYear, 11, 31, 23, 59, 59, 999);
+
+    const clients = await this.prisma.client.findMany({
+      where: {
+        meetingDate: {
+          gte: yearStart,
+          lte: yearEnd,
+        },
+        closed: true,
+        dealAmount: { not: null },
+        currency,
+        deletedAt: null,
+      },
+      include: WITH_SELLER_NAME,
+    });
+
+    const sellerStats = new Map<
+      string,
+      { seller: string; closed: number; wonValue: number }
+    >();
+
+    for (const client of clients) {
+      if (!sellerStats.has(client.sellerId)) {
+        sellerStats.set(client.sellerId, {
+          seller: client.seller.name,
+          closed: 0,
+          wonValue: 0,
+        });
+      }
+      const stats = sellerStats.get(client.sellerId)!;
+      stats.closed++;
+      stats.wonValue += client.dealAmount!.toNumber();
+    }
+
+    const ranking = Array.from(sellerStats.entries())
+      .map(([sellerId, stats]) => ({
+        sellerId,
+        seller: stats.seller,
+        closed: stats.closed,
+        wonValue: roundAmount(stats.wonValue),
+        averageDealSize: toAverageDealSize(stats.wonValue, stats.closed),
+      }))
+      .sort((a, b) => b.wonValue - a.wonValue);
+
+    return {
+      year: selectedYear,
+      currency,
+      ranking,
+    };
+  }
+}
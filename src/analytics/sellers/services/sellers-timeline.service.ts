@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
-import { API_CONSTANTS } from '../../../common/constants';
+import { getTimelinePeriod } from '../../../common/utils/date.utils';
 import { SellerTimelineDataDto } from '../../../common/dto/analytics';
 
 @Injectable()
@@ -12,36 +12,28 @@ export class SellersTimelineService {
    * @param granularity - Time granularity: 'week' or 'month'
    * @returns Timeline data with seller performance over time periods
    */
-  async getSellersTimeline(granularity: 'week' | 'month' = 'week'): Promise<SellerTimelineDataDto[]> {
+  async getSellersTimeline(
+    granularity: 'week' | 'month' = 'week',
+  ): Promise<SellerTimelineDataDto[]> {
     const clients = await this.prisma.client.findMany({
-      where: { closed: true },
+      where: { closed: true, deletedAt: null },
       orderBy: { meetingDate: 'asc' },
+      include: { seller: { select: { name: true } } },
     });
 
-    const sellers = [
-      ...new Set(
-        clients.map((c) => c.assignedSeller).filter((seller): seller is string => seller !== null),
-      ),
-    ];
+    // Grouped by seller id; each seller appears under its name
+    const sellerNames = new Map(
+      clients.map((c) => [c.sellerId, c.seller.name]),
+    );
+    const sellers = [...sellerNames.values()];
     const grouped = new Map<string, Record<string, number>>();
 
     for (const client of clients) {
-      if (!client.assignedSeller) {
-        continue;
-      }
-
-      let dateKey: string;
-      const date = new Date(client.meetingDate);
-
-      if (granularity === 'week') {
-        const firstDayOfYear = new Date(date.getFullYear(), 0, 1);
-        const pastDaysOfYear =
-          (date.getTime() - firstDayOfYear.getTime()) / API_CONSTANTS.TIME.MILLISECONDS_PER_DAY;
-        const weekNumber = Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
-        dateKey = `${date.getFullYear()}-W${weekNumber.toString().padStart(2, '0')}`;
-      } else {
-        dateKey = `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
-      }
+      const seller = sellerNames.get(client.sellerId)!;
+      const dateKey = getTimelinePeriod(
+        new Date(client.meetingDate),
+        granularity,
+      );
 
       if (!grouped.has(dateKey)) {
         const entry: Record<string, number> = {};
@@ -52,7 +44,7 @@ export class SellersTimelineService {
       }
 
       const entry = grouped.get(dateKey)!;
-      entry[client.assignedSeller] = (entry[client.assignedSeller] || 0) + 1;
+      entry[seller] = (entry[seller] || 0) + 1;
     }
 
     return Array.from(grouped.entries())
@@ -63,4 +55,3 @@ export class SellersTimelineService {
       .sort((a, b) => a.period.localeCompare(b.period));
   }
 }
-
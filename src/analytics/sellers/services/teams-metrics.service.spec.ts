@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { TeamsMetricsService } from './teams-metrics.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('TeamsMetricsService', () => {
+  let service: TeamsMetricsService;
+
+  const mockPrismaService = {
+    $queryRaw: jest.fn(),
+  };
+
+  // The query as Postgres receives it, with nested fragments inlined
+  const queryOf = (call = 0) => {
+    const [strings, ...values] = mockPrismaService.$queryRaw.mock.calls[
+      call
+    ] as [string[], ...unknown[]];
+    return Prisma.sql(strings, ...values);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TeamsMetricsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TeamsMetricsService>(TeamsMetricsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getTeamMetrics', () => {
+    it('should roll up member clients per team sorted by conversion rate', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        {
+          teamId: 'team-1',
+          team: 'North',
+          region: 'Chile',
+          sellers: BigInt(2),
+          total: BigInt(10),
+          closed: BigInt(4),
+        },
+        {
+          teamId: 'team-2',
+          team: 'South',
+          region: null,
+          sellers: BigInt(1),
+          total: BigInt(3),
+          closed: BigInt(2),
+        },
+      ]);
+
+      const result = await service.getTeamMetrics();
+
+      expect(result).toEqual([
+        {
+          teamId: 'team-2',
+          team: 'South',
+          region: null,
+          sellers: 1,
+          total: 3,
+          closed: 2,
+          conversionRate: 66.67,
+        },
+        {
+          teamId: 'team-1',
+          team: 'North',
+          region: 'Chile',
+          sellers: 2,
+          total: 10,
+          closed: 4,
+          conversionRate: 40,
+        },
+      ]);
+    });
+
+    it('should credit clients by the membership in effect at the meeting date', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([]);
+
+      await service.getTeamMetrics();
+
+      const { sql } = queryOf();
+      expect(sql).toContain('c."meetingDate" >= m."startDate"');
+      expect(sql).toContain(
+        '(m."endDate" IS NULL OR c."meetingDate" < m."endDate")',
+      );
+      expect(sql).toContain('c."deletedAt" IS NULL');
+    });
+
+    it('should only compare the teams of the given region', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([]);
+
+      await service.getTeamMetrics('Chile');
+
+      const query = queryOf();
+      expect(query.sql).toContain('t.region = ?');
+      expect(query.values).toEqual(['Chile']);
+    });
+  });
+
+  describe('getAnnualTeamRanking', () => {
+    it('should rank the teams of the year by closed deals', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        {
+          teamId: 'team-1',
+          team: 'North',
+          region: null,
+          sellers: BigInt(2),
+          total: BigInt(10),
+          closed: BigInt(4),
+        },
+        {
+          teamId: 'team-2',
+          team: 'South',
+          region: null,
+          sellers: BigInt(3),
+          total: BigInt(20),
+          closed: BigInt(9),
+        },
+      ]);
+
+      const result = await service.getAnnualTeamRanking(2024);
+
+      expect(result.year).toBe(2024);
+      expect(result.ranking.map((team) => team.team)).toEqual([
+        'South',
+        'North',
+      ]);
+      expect(queryOf().values).toEqual(
+        expect.arrayContaining([
+          new Date(2024, 0, 1),
+          new Date(2024, 11, 31, 23, 59, 59, 999),
+        ]),
+      );
+    });
+  });
+
+  describe('getTeamsTimeline', () => {
+    it('should count closed deals per team and period, listing every team in every period', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        { team: 'North', meetingDate: new Date(2024, 0, 10) },
+        { team: 'North', meetingDate: new Date(2024, 0, 20) },
+        { team: 'South', meetingDate: new Date(2024, 1, 5) },
+      ]);
+
+      const result = await service.getTeamsTimeline('month');
+
+      expect(result).toEqual([
+        { period: '2024-01', teams: { North: 2, South: 0 } },
+        { period: '2024-02', teams: { North: 0, South: 1 } },
+      ]);
+    });
+  });
+});
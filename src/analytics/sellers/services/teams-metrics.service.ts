@@ -0,0 +1,172 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ANALYTICS_CONSTANTS } from '../../../common/constants';
+import {
+  getSimulatedCurrentYear,
+  getTimelinePeriod,
+} from '../../../common/utils/date.utils';
+import {
+  AnnualTeamRankingDto,
+  TeamMetricsDto,
+  TeamTimelineDataDto,
+} from '../../../common/dto/analytics';
+
+interface TeamMetricRow {
+  teamId: string;
+  team: string;
+  region: string | null;
+  sellers: bigint;
+  total: bigint;
+  closed: bigint;
+}
+
+interface TeamDealRow {
+  team: string;
+  meetingDate: Date;
+}
+
+// Each client is credited to the team its seller was on at the time of the meeting; clients of
+// sellers without a team at that date are left out
+const CREDITED_CLIENTS = Prisma.sql`
+  FROM clients c
+  JOIN team_memberships m ON m."sellerId" = c."sellerId"
+    AND c."meetingDate" >= m."startDate"
+    AND (m."endDate" IS NULL OR c."meetingDate" < m."endDate")
+  JOIN teams t ON t.id = m."teamId"
+`;
+
+/**
+ * Team-level rollups of the seller metrics, rankings and timeline
+ */
+@Injectable()
+export class TeamsMetricsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Get team metrics rolling up the clients of their members
+   * @param region - Optional region to compare the teams of
+   * @returns Array of team metrics sorted by conversion rate (descending)
+   */
+  async getTeamMetrics(region?: string): Promise<TeamMetricsDto[]> {
+    const rows = await this.prisma.$queryRaw<TeamMetricRow[]>`
+      SELECT
+        t.id AS "teamId",
+        t.name AS team,
+        t.region,
+        COUNT(DISTINCT c."sellerId")::bigint AS sellers,
+        COUNT(*)::bigint AS total,
+        COUNT(*) FILTER (WHERE c.closed = true)::bigint AS closed
+      ${CREDITED_CLIENTS}
+      WHERE c."deletedAt" IS NULL
+        ${this.buildRegionSql(region)}
+      GROUP BY t.id, t.name, t.region
+    `;
+
+    return rows
+      .map((row) => this.toTeamMetrics(row))
+      .sort((a, b) => b.conversionRate - a.conversionRate);
+  }
+
+  /**
+   * Get annual team ranking for a specific year
+   * @param year - Optional year (defaults to current year)
+   * @param region - Optional region to compare the teams of
+   * @returns Annual ranking with teams that closed deals that year, sorted by closed deals
+   */
+  async getAnnualTeamRanking(
+    year?: number,
+    region?: string,
+  ): Promise<AnnualTeamRankingDto> {
+    const selectedYear = year || getSimulatedCurrentYear();
+    const yearStart = new Date(selectedYear, 0, 1);
+    const yearEnd = new Date(selectedYear, 11, 31, 23, 59, 59, 999);
+
+    const rows = await this.prisma.$queryRaw<TeamMetricRow[]>`
+      SELECT
+        t.id AS "teamId",
+        t.name AS team,
+        t.region,
+        COUNT(DISTINCT c."sellerId")::bigint AS sellers,
+        COUNT(*)::bigint AS total,
+        COUNT(*) FILTER (WHERE c.closed = true)::bigint AS closed
+      ${CREDITED_CLIENTS}
+      WHERE c."deletedAt" IS NULL
+        AND c."meetingDate" >= ${yearStart}
+        AND c."meetingDate" <= ${yearEnd}
+        ${this.buildRegionSql(region)}
+      GROUP BY t.id, t.name, t.region
+      HAVING COUNT(*) FILTER (WHERE c.closed = true) > 0
+    `;
+
+    return {
+      year: selectedYear,
+      ranking: rows
+        .map((row) => this.toTeamMetrics(row))
+        .sort((a, b) => b.closed - a.closed),
+    };
+  }
+
+  /**
+   * Get team timeline data grouped by week or month
+   * @param granularity - Time granularity: 'week' or 'month'
+   * @param region - Optional region to compare the teams of
+   * @returns Closed deals per team and period, in the same periods as the sellers timeline
+   */
+  async getTeamsTimeline(
+    granularity: 'week' | 'month' = 'week',
+    region?: string,
+  ): Promise<TeamTimelineDataDto[]> {
+    const deals = await this.prisma.$queryRaw<TeamDealRow[]>`
+      SELECT t.name AS team, c."meetingDate"
+      ${CREDITED_CLIENTS}
+      WHERE c."deletedAt" IS NULL
+        AND c.closed = true
+        ${this.buildRegionSql(region)}
+      ORDER BY c."meetingDate" ASC
+    `;
+
+    const teams = [...new Set(deals.map((deal) => deal.team))];
+    const grouped = new Map<string, Record<string, number>>();
+
+    for (const deal of deals) {
+      const period = getTimelinePeriod(new Date(deal.meetingDate), granularity);
+
+      if (!grouped.has(period)) {
+        grouped.set(period, Object.fromEntries(teams.map((team) => [team, 0])));
+      }
+
+      grouped.get(period)![deal.team]++;
+    }
+
+    return Array.from(grouped.entries())
+      .map(([period, teams]) => ({
+        period,
+        teams,
+      }))
+      .sort((a, b) => a.period.localeCompare(b.period));
+  }
+
+  private buildRegionSql(region?: string): Prisma.Sql {
+    return region ? Prisma.sql`AND t.region = ${region}` : Prisma.empty;
+  }
+
+  private toTeamMetrics(row: TeamMetricRow): TeamMetricsDto {
+    const total = Number(row.total);
+    const closed = Number(row.closed);
+
+    return {
+      teamId: row.teamId,
+      team: row.team,
+      region: row.region,
+      sellers: Number(row.sellers),
+      total,
+      closed,
+      conversionRate: parseFloat(
+        ((closed / total) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(
+          ANALYTICS_CONSTANTS.DECIMAL_PLACES,
+        ),
+      ),
+    };
+  }
+}
@@ -5,6 +5,7 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
 import { ClientsModule } from './clients/clients.module';
+import { SellersModule } from './sellers/sellers.module';
 import { LlmModule } from './llm/llm.module';
 import { AnalyticsModule } from './analytics/analytics.module';
 import { CacheModule } from './common/services/cache.module';
@@ -18,6 +19,7 @@ import { CacheInterceptor } from './common/interceptors/cache.interceptor';
     CacheModule,
     PrismaModule,
     ClientsModule,
+    SellersModule,
     LlmModule,
     AnalyticsModule,
   ],
@@ -0,0 +1,263 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Readable } from 'stream';
+import { Workbook } from 'exceljs';
+import { Client, Prisma } from '@prisma/client';
+import { ClientExportsService } from './client-exports.service';
+import { ClientsService } from './clients.service';
+import { ExportFormatEnum } from '../common/dto/clients';
+
+describe('ClientExportsService', () => {
+  let service: ClientExportsService;
+
+  const mockClientsService = {
+    streamClients: jest.fn(),
+  };
+
+  const client: Client = {
+    id: 'client-1',
+    name: 'Pérez, Ana',
+    email: 'ana@example.com',
+    phone: '+56 9 1234 5678',
+    assignedSeller: 'Seller 1',
+    sellerId: 'seller-1',
+    stageId: 'stage-2',
+    meetingDate: new Date('2024-01-15T10:00:00Z'),
+    closed: true,
+    transcription: 'Said "we need it now"\nand left',
+    dealAmount: new Prisma.Decimal('12500.50'),
+    currency: 'USD',
+    industry: 'Retail',
+    operationSize: 'large',
+    interactionVolume: 150,
+    discoverySource: 'LinkedIn',
+    mainMotivation: 'Efficiency',
+    urgencyLevel: 'immediate',
+    painPoints: ['High workload', 'Slow replies'],
+    technicalRequirements: ['API integration'],
+    sentiment: 'positive',
+    tags: ['vip'],
+    processed: true,
+    processedAt: new Date('2024-01-16T00:00:00Z'),
+    categorizationStatus: 'valid',
+    categorizationPromptVersion: 'categorization@1',
+    deletedAt: null,
+    createdAt: new Date('2024-01-10T00:00:00Z'),
+    updatedAt: new Date('2024-01-16T00:00:00Z'),
+  };
+
+  const unprocessed: Client = {
+    ...client,
+    id: 'client-2',
+    name: 'Bob',
+    email: 'bob@example.com',
+    closed: false,
+    transcription: 'Short call',
+    dealAmount: null,
+    currency: null,
+    industry: null,
+    operationSize: null,
+    interactionVolume: null,
+    discoverySource: null,
+    mainMotivation: null,
+    urgencyLevel: null,
+    painPoints: [],
+    technicalRequirements: [],
+    sentiment: null,
+    tags: [],
+    processed: false,
+    processedAt: null,
+    categorizationStatus: null,
+    categorizationPromptVersion: null,
+  };
+
+  const streamBatches = (...batches: Client[][]) =>
+    mockClientsService.streamClients.mockResolvedValueOnce(
+      (function* () {
+        yield* batches;
+      })(),
+    );
+
+  const readAll = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk as string | Buffer));
+    }
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClientExportsService,
+        {
+          provide: ClientsService,
+          useValue: mockClientsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ClientExportsService>(ClientExportsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('exportClients', () => {
+    it('should pass the listing filters without the format', async () => {
+      streamBatches();
+
+      await service.exportClients({
+        format: ExportFormatEnum.JSON,
+        assignedSeller: ['Seller 1'],
+        closed: true,
+      });
+
+      expect(mockClientsService.streamClients).toHaveBeenCalledWith({
+        assignedSeller: ['Seller 1'],
+        closed: true,
+      });
+    });
+
+    it('should write CSV by default with flattened list fields and escaped text', async () => {
+      streamBatches([client], [unprocessed]);
+
+      const result = await service.exportClients();
+      const text = (await readAll(result.stream)).toString('utf8');
+      const lines = text.split('\r\n');
+
+      expect(result.contentType).toBe('text/csv; charset=utf-8');
+      expect(result.fileName).toMatch(/^clients-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(
+        text.startsWith(
+          '\uFEFFid,name,email,phone,assignedSeller,meetingDate,closed,transcription,dealAmount,currency,industry',
+        ),
+      ).toBe(true);
+      expect(lines[1]).toBe(
+        'client-1,"Pérez, Ana",ana@example.com,\'+56 9 1234 5678,Seller 1,2024-01-15T10:00:00.000Z,true,"Said ""we need it now""\nand left",12500.5,USD,Retail,large,150,LinkedIn,Efficiency,immediate,High workload; Slow replies,API integration,positive,vip,true,2024-01-16T00:00:00.000Z,valid,2024-01-10T00:00:00.000Z,2024-01-16T00:00:00.000Z',
+      );
+      expect(lines[2]).toBe(
+        "client-2,Bob,bob@example.com,'+56 9 1234 5678,Seller 1,2024-01-15T10:00:00.000Z,false,Short call,,,,,,,,,,,,,false,,,2024-01-10T00:00:00.000Z,2024-01-16T00:00:00.000Z",
+      );
+      expect(lines[3]).toBe('');
+    });
+
+    it('should prefix CSV cells that would start a formula', async () => {
+      streamBatches([
+        {
+          ...unprocessed,
+          name: '=HYPERLINK("http://evil.example","Click")',
+          transcription: '@SUM(A1:A2)',
+          tags: ['-2+3'],
+        },
+      ]);
+
+      const result = await service.exportClients();
+      const [, row] = (await readAll(result.stream))
+        .toString('utf8')
+        .split('\r\n');
+
+      expect(row).toContain(
+        `,"'=HYPERLINK(""http://evil.example"",""Click"")",`,
+      );
+      expect(row).toContain(",'@SUM(A1:A2),");
+      expect(row).toContain(",'-2+3,");
+      expect(row).toContain(',Seller 1,');
+    });
+
+    it('should write a JSON array keeping list fields as arrays', async () => {
+      streamBatches([client, unprocessed]);
+
+      const result = await service.exportClients({
+        format: ExportFormatEnum.JSON,
+      });
+      const rows = JSON.parse(
+        (await readAll(result.stream)).toString('utf8'),
+      ) as Array<Record<string, unknown>>;
+
+      expect(result.contentType).toBe('application/json; charset=utf-8');
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        id: 'client-1',
+        painPoints: ['High workload', 'Slow replies'],
+        technicalRequirements: ['API integration'],
+        dealAmount: '12500.5',
+        meetingDate: '2024-01-15T10:00:00.000Z',
+      });
+      expect(rows[0]).not.toHaveProperty('deletedAt');
+      expect(rows[1]).toMatchObject({
+        id: 'client-2',
+        industry: null,
+        painPoints: [],
+      });
+    });
+
+    it('should write an empty JSON array when nothing matches', async () => {
+      streamBatches();
+
+      const result = await service.exportClients({
+        format: ExportFormatEnum.JSON,
+      });
+
+      expect(
+        JSON.parse((await readAll(result.stream)).toString('utf8')),
+      ).toEqual([]);
+    });
+
+    it('should write an XLSX sheet with typed cells', async () => {
+      streamBatches([client], [unprocessed]);
+
+      const result = await service.exportClients({
+        format: ExportFormatEnum.XLSX,
+      });
+      const workbook = new Workbook();
+      await workbook.xlsx.load(
+        (await readAll(result.stream)) as unknown as ArrayBuffer,
+      );
+      const worksheet = workbook.getWorksheet('Clients')!;
+
+      expect(result.contentType).toBe(
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      );
+      expect(result.fileName).toMatch(/\.xlsx$/);
+      expect(worksheet.rowCount).toBe(3);
+      expect(worksheet.getRow(1).getCell(17).value).toBe('painPoints');
+      expect(worksheet.getRow(2).getCell(2).value).toBe('Pérez, Ana');
+      expect(worksheet.getRow(2).getCell(6).value).toEqual(
+        new Date('2024-01-15T10:00:00Z'),
+      );
+      expect(worksheet.getRow(2).getCell(7).value).toBe(true);
+      expect(worksheet.getRow(2).getCell(9).value).toBe(12500.5);
+      expect(worksheet.getRow(2).getCell(10).value).toBe('USD');
+      expect(worksheet.getRow(2).getCell(13).value).toBe(150);
+      expect(worksheet.getRow(2).getCell(17).value).toBe(
+        'High workload; Slow replies',
+      );
+      expect(worksheet.getRow(3).getCell(11).value).toBeNull();
+    });
+
+    it('should fail the stream when reading clients fails', async () => {
+      mockClientsService.streamClients.mockResolvedValueOnce(
+        (function* () {
+          yield [client];
+          throw new Error('Connection lost');
+        })(),
+      );
+
+      const result = await service.exportClients();
+
+      await expect(readAll(result.stream)).rejects.toThrow('Connection lost');
+    });
+
+    it('should reject before streaming when the filters cannot be resolved', async () => {
+      mockClientsService.streamClients.mockRejectedValueOnce(
+        new NotFoundException('Segment with ID missing not found'),
+      );
+
+      await expect(
+        service.exportClients({ segmentId: 'missing' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PassThrough, Readable } from 'stream';
+import { stream as excelStream } from 'exceljs';
+import { Client, Prisma } from '@prisma/client';
+import { ClientsService } from './clients.service';
+import { CLIENT_CONSTANTS } from '../common/constants';
+import { ClientExportQueryDto, ExportFormatEnum } from '../common/dto/clients';
+
+/**
+ * Client fields written to every export, in column order
+ */
+const EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'email',
+  'phone',
+  'assignedSeller',
+  'meetingDate',
+  'closed',
+  'transcription',
+  'dealAmount',
+  'currency',
+  'industry',
+  'operationSize',
+  'interactionVolume',
+  'discoverySource',
+  'mainMotivation',
+  'urgencyLevel',
+  'painPoints',
+  'technicalRequirements',
+  'sentiment',
+  'tags',
+  'processed',
+  'processedAt',
+  'categorizationStatus',
+  'createdAt',
+  'updatedAt',
+] as const satisfies ReadonlyArray<keyof Client>;
+
+const CONTENT_TYPES: Record<ExportFormatEnum, string> = {
+  [ExportFormatEnum.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormatEnum.XLSX]:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ExportFormatEnum.JSON]: 'application/json; charset=utf-8',
+};
+
+/**
+ * Leading characters a spreadsheet app reads as the start of a formula (OWASP CSV injection)
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * An export ready to be sent: the file body is produced while it is read
+ */
+export interface ClientExport {
+  stream: Readable;
+  contentType: string;
+  fileName: string;
+}
+
+/**
+ * Exports the clients matching the listing filters as CSV, XLSX or JSON
+ * Clients are read in batches and written to the response as they arrive, so exports of
+ * any size never hold the whole result in memory. List fields are joined with '; ' in CSV
+ * and XLSX (the separator imports split on) and kept as arrays in JSON.
+ */
+@Injectable()
+export class ClientExportsService {
+  private readonly logger = new Logger(ClientExportsService.name);
+
+  constructor(private readonly clientsService: ClientsService) {}
+
+  /**
+   * Start an export of every client matching the filters
+   * @param query - Listing filters and export format (CSV by default)
+   * @returns The streamed file with its content type and download name
+   * @throws NotFoundException if the segment does not exist
+   */
+  async exportClients(query: ClientExportQueryDto = {}): Promise<ClientExport> {
+    const { format = ExportFormatEnum.CSV, ...filters } = query;
+    const batches = await this.clientsService.streamClients(filters);
+
+    let stream: Readable;
+    switch (format) {
+      case ExportFormatEnum.XLSX:
+        stream = this.writeXlsx(batches);
+        break;
+      case ExportFormatEnum.JSON:
+        stream = Readable.from(this.writeJson(batches));
+        break;
+      default:
+        stream = Readable.from(this.writeCsv(batches));
+    }
+
+    stream.on('error', (error) =>
+      this.logger.error(`Client export (${format}) failed: ${error.message}`),
+    );
+
+    return {
+      stream,
+      contentType: CONTENT_TYPES[format],
+      fileName: `clients-${new Date().toISOString().slice(0, 10)}.${format}`,
+    };
+  }
+
+  /**
+   * A UTF-8 byte order mark comes first so spreadsheet apps keep accented names intact
+   * @private
+   */
+  private async *writeCsv(
+    batches: AsyncGenerator<Client[]>,
+  ): AsyncGenerator<string> {
+    yield `\uFEFF${EXPORT_COLUMNS.join(',')}\r\n`;
+
+    for await (const clients of batches) {
+      yield clients
+        .map(
+          (client) =>
+            `${EXPORT_COLUMNS.map((column) => this.toCsvCell(this.toCellText(client[column]))).join(',')}\r\n`,
+        )
+        .join('');
+    }
+  }
+
+  private async *writeJson(
+    batches: AsyncGenerator<Client[]>,
+  ): AsyncGenerator<string> {
+    let first = true;
+    yield '[';
+
+    for await (const clients of batches) {
+      for (const client of clients) {
+        const row = Object.fromEntries(
+          EXPORT_COLUMNS.map((column) => [column, client[column]]),
+        );
+        yield `${first ? '' : ','}\n${JSON.stringify(row)}`;
+        first = false;
+      }
+    }
+
+    yield '\n]\n';
+  }
+
+  /**
+   * Rows are committed as soon as they are added, so the workbook is zipped into the stream batch by batch
+   * @private
+   */
+  private writeXlsx(batches: AsyncGenerator<Client[]>): Readable {
+    const output = new PassThrough();
+    const workbook = new excelStream.xlsx.WorkbookWriter({ stream: output });
+    const worksheet = workbook.addWorksheet('Clients');
+    worksheet.columns = EXPORT_COLUMNS.map((column) => ({
+      header: column,
+      key: column,
+    }));
+
+    const write = async () => {
+      for await (const clients of batches) {
+        for (const client of clients) {
+          worksheet
+            .addRow(
+              EXPORT_COLUMNS.map((column) => this.toXlsxCell(client[column])),
+            )
+            .commit();
+        }
+      }
+      worksheet.commit();
+      await workbook.commit();
+    };
+
+    write().catch((error: Error) => output.destroy(error));
+
+    return output;
+  }
+
+  private toCellText(value: Client[keyof Client]): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+      return value.join(CLIENT_CONSTANTS.EXPORT_LIST_SEPARATOR);
+    }
+    return String(value);
+  }
+
+  /**
+   * Text that a spreadsheet app would run as a formula is prefixed with a quote, then quoted if needed
+   * @private
+   */
+  private toCsvCell(text: string): string {
+    const cell = FORMULA_PREFIX.test(text) ? `'${text}` : text;
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }
+
+  /**
+   * Dates, numbers and booleans keep their cell type; text is flattened and cut to Excel's cell limit
+   * @private
+   */
+  private toXlsxCell(
+    value: Client[keyof Client],
+  ): Date | number | boolean | string | null {
+    if (
+      value === null ||
+      value instanceof Date ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    ) {
+      return value;
+    }
+    if (value instanceof Prisma.Decimal) {
+      return value.toNumber();
+    }
+    return this.toCellText(value).slice(
+      0,
+      CLIENT_CONSTANTS.XLSX_MAX_CELL_LENGTH,
+    );
+  }
+}
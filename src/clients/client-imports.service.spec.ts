@@ -0,0 +1,1050 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { ClientImportsService } from './client-imports.service';
+import { ClientsService } from './clients.service';
+import { CsvProcessorService, ParsedImportFile } from './csv-processor.service';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportFileParserService } from './import-file-parser.service';
+import { SellersService } from '../sellers/sellers.service';
+import { PipelineStagesService } from './pipeline-stages.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { API_CONSTANTS, IMPORT_CONSTANTS } from '../common/constants';
+import {
+  CreateClientDto,
+  DateFormatEnum,
+  ImportFormatEnum,
+  ImportModeEnum,
+  ImportRowOutcomeEnum,
+  ImportStatusEnum,
+} from '../common/dto/clients';
+
+describe('ClientImportsService', () => {
+  let service: ClientImportsService;
+
+  const mockPrismaService = {
+    processingBatch: {
+      create: jest.fn(),
+      update: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+
+  const mockClientsService = {
+    findByEmails: jest.fn(),
+    createManyClients: jest.fn(),
+    updateManyClients: jest.fn(),
+  };
+
+  const mockCsvProcessorService = {
+    validateRecords: jest.fn(),
+  };
+
+  const mockImportFileParserService = {
+    detectFormat: jest.fn(),
+    detectDialect: jest.fn(),
+    readChunks: jest.fn(),
+    countRows: jest.fn(),
+    discard: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const seller = { id: 'seller-1', name: 'Seller' };
+  const mockSellersService = {
+    findByNames: jest.fn(),
+  };
+
+  const newStage = { id: 'stage-1', name: 'New', outcome: 'open' };
+  const wonStage = { id: 'stage-2', name: 'Won', outcome: 'won' };
+  const lostStage = { id: 'stage-3', name: 'Lost', outcome: 'lost' };
+  const stagesByName = new Map(
+    [newStage, wonStage, lostStage].map((stage) => [stage.name, stage]),
+  );
+  const mockPipelineStagesService = {
+    loadPipeline: jest.fn(),
+    stageFor: jest.fn(
+      (_pipeline: unknown, stage: string | undefined, closed: boolean) =>
+        stage !== undefined
+          ? stagesByName.get(stage)
+          : closed
+            ? wonStage
+            : newStage,
+    ),
+  };
+
+  const parsedFile: ParsedImportFile = {
+    columns: [],
+    records: [],
+    rejected: [],
+  };
+  const filePath = '/tmp/upload-1';
+  const jobOptions = {
+    format: ImportFormatEnum.CSV,
+    mapping: IMPORT_CONSTANTS.DEFAULT_COLUMN_MAPPING,
+    mode: ImportModeEnum.INSERT_ONLY,
+    dates: { format: DateFormatEnum.AUTO, timezone: 'UTC' },
+  };
+
+  const mockImportProfilesService = {
+    getColumnMapping: jest.fn(),
+  };
+
+  const mockChunks = (...chunks: ParsedImportFile[]) => {
+    // for await accepts plain iterables, which keeps the mock free of async boilerplate
+    mockImportFileParserService.readChunks.mockImplementation(function* () {
+      yield* chunks;
+    });
+  };
+
+  const buildClient = (index: number): CreateClientDto => ({
+    name: `Client ${index}`,
+    email: `client${index}@test.com`,
+    phone: '123',
+    assignedSeller: 'Seller',
+    meetingDate: '2024-01-01T00:00:00.000Z',
+    closed: false,
+    transcription: 'Transcription',
+  });
+
+  const mockBatch = {
+    id: 'batch-1',
+    fileName: 'clients.csv',
+    profileId: null,
+    totalClients: 0,
+    processedClients: 0,
+    status: 'pending',
+    errorMessage: null,
+    report: null,
+    startedAt: new Date('2024-01-01'),
+    completedAt: null,
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClientImportsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ClientsService,
+          useValue: mockClientsService,
+        },
+        {
+          provide: CsvProcessorService,
+          useValue: mockCsvProcessorService,
+        },
+        {
+          provide: ImportProfilesService,
+          useValue: mockImportProfilesService,
+        },
+        {
+          provide: ImportFileParserService,
+          useValue: mockImportFileParserService,
+        },
+        {
+          provide: SellersService,
+          useValue: mockSellersService,
+        },
+        {
+          provide: PipelineStagesService,
+          useValue: mockPipelineStagesService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    return module.get<ClientImportsService>(ClientImportsService);
+  };
+
+  beforeEach(async () => {
+    service = await createService();
+    mockImportFileParserService.detectFormat.mockReturnValue(
+      ImportFormatEnum.CSV,
+    );
+    mockSellersService.findByNames.mockResolvedValue(
+      new Map([['seller', seller]]),
+    );
+    mockPipelineStagesService.loadPipeline.mockResolvedValue({});
+    mockImportFileParserService.countRows.mockResolvedValue(null);
+    mockChunks(parsedFile);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('startImport', () => {
+    it('should create a pending batch and process it in the background', async () => {
+      mockImportProfilesService.getColumnMapping.mockResolvedValue(
+        IMPORT_CONSTANTS.DEFAULT_COLUMN_MAPPING,
+      );
+      mockPrismaService.processingBatch.create.mockResolvedValue(mockBatch);
+      const processSpy = jest
+        .spyOn(service, 'processImport')
+        .mockResolvedValue(undefined);
+
+      const result = await service.startImport('clients.csv', filePath);
+
+      expect(mockPrismaService.processingBatch.create).toHaveBeenCalledWith({
+        data: {
+          fileName: 'clients.csv',
+          totalClients: 0,
+          status: ImportStatusEnum.PENDING,
+          profileId: undefined,
+        },
+      });
+      expect(mockImportFileParserService.detectFormat).toHaveBeenCalledWith(
+        'clients.csv',
+      );
+      expect(processSpy).toHaveBeenCalledWith('batch-1', filePath, {
+        ...jobOptions,
+        sheetName: undefined,
+      });
+      expect(result.id).toBe('batch-1');
+      expect(result.status).toBe(ImportStatusEnum.PENDING);
+      expect(result.progress).toBeNull();
+    });
+
+    it('should resolve the selected profile mapping, record it on the batch and pass the job options', async () => {
+      const mapping = {
+        ...IMPORT_CONSTANTS.DEFAULT_COLUMN_MAPPING,
+        name: 'Full Name',
+      };
+      mockImportProfilesService.getColumnMapping.mockResolvedValue(mapping);
+      mockPrismaService.processingBatch.create.mockResolvedValue({
+        ...mockBatch,
+        profileId: 'profile-1',
+      });
+      const processSpy = jest
+        .spyOn(service, 'processImport')
+        .mockResolvedValue(undefined);
+
+      mockImportFileParserService.detectFormat.mockReturnValue(
+        ImportFormatEnum.XLSX,
+      );
+
+      const result = await service.startImport('clients.xlsx', filePath, {
+        profileId: 'profile-1',
+        mode: ImportModeEnum.UPSERT,
+        sheetName: 'Leads',
+        dateFormat: DateFormatEnum.DAY_MONTH_YEAR,
+        timezone: 'America/Santiago',
+      });
+
+      expect(mockImportProfilesService.getColumnMapping).toHaveBeenCalledWith(
+        'profile-1',
+      );
+      expect(
+        mockPrismaService.processingBatch.create.mock.calls[0][0].data
+          .profileId,
+      ).toBe('profile-1');
+      expect(processSpy).toHaveBeenCalledWith('batch-1', filePath, {
+        format: ImportFormatEnum.XLSX,
+        mapping,
+        mode: ImportModeEnum.UPSERT,
+        sheetName: 'Leads',
+        dates: {
+          format: DateFormatEnum.DAY_MONTH_YEAR,
+          timezone: 'America/Santiago',
+        },
+      });
+      expect(result.profileId).toBe('profile-1');
+    });
+
+    it('should not register a batch when the profile does not exist', async () => {
+      mockImportProfilesService.getColumnMapping.mockRejectedValueOnce(
+        new NotFoundException('Import profile with ID missing not found'),
+      );
+
+      await expect(
+        service.startImport('clients.csv', filePath, { profileId: 'missing' }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.processingBatch.create).not.toHaveBeenCalled();
+      expect(mockImportFileParserService.discard).toHaveBeenCalledWith(
+        filePath,
+      );
+    });
+
+    it('should not register a batch for unsupported file types', async () => {
+      mockImportFileParserService.detectFormat.mockImplementationOnce(() => {
+        throw new BadRequestException('Unsupported file type');
+      });
+
+      await expect(
+        service.startImport('clients.txt', filePath),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.processingBatch.create).not.toHaveBeenCalled();
+      expect(mockImportFileParserService.discard).toHaveBeenCalledWith(
+        filePath,
+      );
+    });
+  });
+
+  describe('previewImport', () => {
+    const acceptedRows = (lines: number[]) =>
+      lines.map((line) => ({ line, client: buildClient(line) }));
+
+    beforeEach(() => {
+      mockImportProfilesService.getColumnMapping.mockResolvedValue(
+        IMPORT_CONSTANTS.DEFAULT_COLUMN_MAPPING,
+      );
+      mockImportFileParserService.detectDialect.mockResolvedValue({
+        encoding: 'latin1',
+        delimiter: ';',
+      });
+    });
+
+    it('should validate the whole file and report outcomes without writing anything', async () => {
+      const rejected = [
+        {
+          line: 5,
+          errors: [{ column: 'closed', value: 'x', reason: 'invalid' }],
+        },
+      ];
+      const duplicates = [
+        {
+          line: 6,
+          email: 'client2@test.com',
+          duplicateOf: 'file' as const,
+          firstLine: 2,
+        },
+      ];
+      mockChunks(
+        { ...parsedFile, columns: ['Nombre'] },
+        { ...parsedFile, columns: ['Nombre'] },
+      );
+      mockCsvProcessorService.validateRecords
+        .mockReturnValueOnce({
+          totalRows: 2,
+          accepted: acceptedRows([2, 3]),
+          rejected: [],
+          duplicates: [],
+        })
+        .mockReturnValueOnce({
+          totalRows: 3,
+          accepted: acceptedRows([4]),
+          rejected,
+          duplicates,
+        });
+      mockClientsService.findByEmails
+        .mockResolvedValueOnce([
+          {
+            ...buildClient(3),
+            id: 'client-3',
+            sellerId: 'seller-1',
+            meetingDate: new Date(buildClient(3).meetingDate),
+          },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.previewImport('clients.csv', filePath, {
+        mode: ImportModeEnum.UPSERT,
+        limit: 2,
+      });
+
+      expect(result).toEqual({
+        format: ImportFormatEnum.CSV,
+        encoding: 'latin1',
+        delimiter: ';',
+        mode: ImportModeEnum.UPSERT,
+        columns: ['Nombre'],
+        totalRows: 5,
+        accepted: 3,
+        newEmails: 2,
+        existingEmails: 1,
+        rows: [
+          {
+            line: 2,
+            outcome: ImportRowOutcomeEnum.CREATED,
+            reason: undefined,
+            client: buildClient(2),
+          },
+          {
+            line: 3,
+            outcome: ImportRowOutcomeEnum.UNCHANGED,
+            reason: undefined,
+            client: buildClient(3),
+          },
+        ],
+        rejectedRows: 1,
+        duplicateRows: 1,
+        rejected,
+        duplicates,
+      });
+      expect(mockClientsService.createManyClients).not.toHaveBeenCalled();
+      expect(mockClientsService.updateManyClients).not.toHaveBeenCalled();
+      expect(mockPrismaService.processingBatch.create).not.toHaveBeenCalled();
+      expect(mockImportFileParserService.discard).toHaveBeenCalledWith(
+        filePath,
+      );
+    });
+
+    it('should default to insert-only and the default number of rows', async () => {
+      const lines = Array.from(
+        { length: IMPORT_CONSTANTS.PREVIEW_DEFAULT_ROWS + 5 },
+        (_, index) => index + 2,
+      );
+      mockCsvProcessorService.validateRecords.mockReturnValue({
+        totalRows: lines.length,
+        accepted: acceptedRows(lines),
+        rejected: [],
+        duplicates: [],
+      });
+      mockClientsService.findByEmails.mockResolvedValue([
+        { ...buildClient(2), id: 'client-2' },
+      ]);
+
+      const result = await service.previewImport('clients.csv', filePath);
+
+      expect(result.mode).toBe(ImportModeEnum.INSERT_ONLY);
+      expect(result.rows).toHaveLength(IMPORT_CONSTANTS.PREVIEW_DEFAULT_ROWS);
+      expect(result.rows[0]).toMatchObject({
+        outcome: ImportRowOutcomeEnum.SKIPPED,
+        reason: 'Client with this email already exists',
+      });
+    });
+
+    it('should refuse files over the row limit and still remove the upload', async () => {
+      mockConfigService.get.mockReturnValueOnce('2');
+      service = await createService();
+      mockCsvProcessorService.validateRecords.mockReturnValue({
+        totalRows: 3,
+        accepted: [],
+        rejected: [],
+        duplicates: [],
+      });
+
+      await expect(
+        service.previewImport('clients.csv', filePath),
+      ).rejects.toThrow('File exceeds the maximum of 2 rows per import');
+      expect(mockClientsService.findByEmails).not.toHaveBeenCalled();
+      expect(mockImportFileParserService.discard).toHaveBeenCalledWith(
+        filePath,
+      );
+    });
+
+    it('should remove the upload when the file cannot be validated', async () => {
+      mockCsvProcessorService.validateRecords.mockImplementationOnce(() => {
+        throw new BadRequestException('Missing required columns: Nombre');
+      });
+
+      await expect(
+        service.previewImport('clients.csv', filePath),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockImportFileParserService.discard).toHaveBeenCalledWith(
+        filePath,
+      );
+    });
+  });
+
+  describe('processImport', () => {
+    it('should validate and insert each chunk of the file and store the report', async () => {
+      const firstChunk = { ...parsedFile, records: [{ line: 2, record: {} }] };
+      const secondChunk = { ...parsedFile, records: [{ line: 3, record: {} }] };
+      const rejected = [
+        {
+          line: 4,
+          errors: [{ column: 'closed', value: 'x', reason: 'invalid' }],
+        },
+      ];
+      mockChunks(firstChunk, secondChunk);
+      mockCsvProcessorService.validateRecords
+        .mockReturnValueOnce({
+          totalRows: 1,
+          accepted: [{ line: 2, client: buildClient(0) }],
+          rejected: [],
+          duplicates: [],
+        })
+        .mockReturnValueOnce({
+          totalRows: 2,
+          accepted: [{ line: 3, client: buildClient(1) }],
+          rejected,
+          duplicates: [],
+        });
+      mockClientsService.findByEmails.mockResolvedValue([]);
+      mockClientsService.createManyClients.mockResolvedValue({ count: 1 });
+      mockImportFileParserService.countRows.mockResolvedValueOnce(3);
+
+      await service.processImport('batch-1', filePath, jobOptions);
+
+      expect(mockImportFileParserService.countRows).toHaveBeenCalledWith(
+        filePath,
+        ImportFormatEnum.CSV,
+      );
+      expect(mockPrismaService.processingBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-1' },
+        data: { totalClients: 3 },
+      });
+      expect(mockImportFileParserService.readChunks).toHaveBeenCalledWith(
+        filePath,
+        ImportFormatEnum.CSV,
+        undefined,
+      );
+      const [firstCall, secondCall] =
+        mockCsvProcessorService.validateRecords.mock.calls;
+      expect(firstCall[0]).toBe(firstChunk);
+      expect(secondCall[0]).toBe(secondChunk);
+      expect(firstCall[1]).toBe(IMPORT_CONSTANTS.DEFAULT_COLUMN_MAPPING);
+      expect(secondCall[2]).toBe(firstCall[2]); // Duplicates are tracked across chunks
+      expect(firstCall[3]).toEqual({
+        format: DateFormatEnum.AUTO,
+        timezone: 'UTC',
+      });
+      expect(mockClientsService.createManyClients).toHaveBeenNthCalledWith(1, [
+        buildClient(0),
+      ]);
+      expect(mockClientsService.createManyClients).toHaveBeenNthCalledWith(2, [
+        buildClient(1),
+      ]);
+      expect(mockPrismaService.processingBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-1' },
+        data: { processedClients: 1 },
+      });
+      expect(mockPrismaService.processingBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-1' },
+        data: { processedClients: 3 },
+      });
+      expect(mockPrismaService.processingBatch.update).toHaveBeenLastCalledWith(
+        {
+          where: { id: 'batch-1' },
+          data: {
+            status: ImportStatusEnum.COMPLETED,
+            totalClients: 3,
+            report: {
+              mode: ImportModeEnum.INSERT_ONLY,
+              totalRows: 3,
+              accepted: 2,
+              clientsCreated: 2,
+              clientsUpdated: 0,
+              clientsUnchanged: 0,
+              clientsSkipped: 0,
+              rejectedRows: 1,
+              duplicateRows: 0,
+              rows: [
+                {
+                  line: 2,
+                  email: 'client0@test.com',
+                  outcome: ImportRowOutcomeEnum.CREATED,
+                },
+                {
+                  line: 3,
+                  email: 'client1@test.com',
+                  outcome: ImportRowOutcomeEnum.CREATED,
+                },
+              ],
+              rejected,
+              duplicates: [],
+            },
+            completedAt: expect.any(Date),
+          },
+        },
+      );
+      expect(mockImportFileParserService.discard).toHaveBeenCalledWith(
+        filePath,
+      );
+    });
+
+    it('should fail the import once the file exceeds the row limit', async () => {
+      mockConfigService.get.mockReturnValueOnce('2');
+      service = await createService();
+      expect(mockConfigService.get).toHaveBeenCalledWith('IMPORT_MAX_ROWS');
+      mockChunks(parsedFile, parsedFile);
+      mockCsvProcessorService.validateRecords.mockReturnValue({
+        totalRows: 2,
+        accepted: [],
+        rejected: [],
+        duplicates: [],
+      });
+      mockClientsService.findByEmails.mockResolvedValue([]);
+
+      await service.processImport('batch-1', filePath, jobOptions);
+
+      expect(mockCsvProcessorService.validateRecords).toHaveBeenCalledTimes(2);
+      expect(mockClientsService.findByEmails).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.processingBatch.update).toHaveBeenLastCalledWith(
+        {
+          where: { id: 'batch-1' },
+          data: {
+            status: ImportStatusEnum.FAILED,
+            errorMessage: 'File exceeds the maximum of 2 rows per import',
+            completedAt: expect.any(Date),
+          },
+        },
+      );
+      expect(mockImportFileParserService.discard).toHaveBeenCalledWith(
+        filePath,
+      );
+    });
+
+    it('should count every outcome but keep only the first rows in the report', async () => {
+      const rowCount = IMPORT_CONSTANTS.REPORT_MAX_ROWS + 5;
+      const rejected = Array.from({ length: rowCount }, (_, index) => ({
+        line: index + 2,
+        errors: [{ column: 'closed', value: 'x', reason: 'invalid' }],
+      }));
+      mockChunks(parsedFile);
+      mockCsvProcessorService.validateRecords.mockReturnValue({
+        totalRows: rowCount,
+        accepted: [],
+        rejected,
+        duplicates: [],
+      });
+      mockClientsService.findByEmails.mockResolvedValue([]);
+
+      await service.processImport('batch-1', filePath, jobOptions);
+
+      const { report } =
+        mockPrismaService.processingBatch.update.mock.calls.at(-1)[0].data;
+      expect(report.rejectedRows).toBe(rowCount);
+      expect(report.rejected).toHaveLength(IMPORT_CONSTANTS.REPORT_MAX_ROWS);
+      expect(report.rejected[0].line).toBe(2);
+    });
+
+    describe('with existing clients', () => {
+      const storedClient = (
+        index: number,
+        overrides: Record<string, unknown> = {},
+      ) => ({
+        ...buildClient(index),
+        id: `client-${index}`,
+        sellerId: 'seller-1',
+        stageId: 'stage-1',
+        meetingDate: new Date('2024-01-01T00:00:00.000Z'),
+        processed: true,
+        ...overrides,
+      });
+
+      const runImport = async (mode: ImportModeEnum) => {
+        const accepted = [
+          { line: 2, client: buildClient(0) },
+          { line: 3, client: { ...buildClient(1), closed: true } },
+          {
+            line: 4,
+            client: { ...buildClient(2), transcription: 'New transcription' },
+          },
+          { line: 5, client: buildClient(3) },
+        ];
+        mockCsvProcessorService.validateRecords.mockReturnValue({
+          totalRows: 4,
+          accepted,
+          rejected: [],
+          duplicates: [],
+        });
+        mockClientsService.findByEmails.mockResolvedValue([
+          storedClient(0),
+          storedClient(1),
+          storedClient(2),
+        ]);
+        mockClientsService.createManyClients.mockResolvedValue({ count: 1 });
+        mockClientsService.updateManyClients.mockResolvedValue(2);
+
+        await service.processImport('batch-1', filePath, {
+          ...jobOptions,
+          mode,
+        });
+
+        const lastUpdate =
+          mockPrismaService.processingBatch.update.mock.calls.at(-1)[0];
+        return lastUpdate.data.report;
+      };
+
+      it('should skip existing emails in insert-only mode', async () => {
+        const report = await runImport(ImportModeEnum.INSERT_ONLY);
+
+        expect(mockClientsService.createManyClients).toHaveBeenCalledWith([
+          buildClient(3),
+        ]);
+        expect(mockClientsService.updateManyClients).toHaveBeenCalledWith([]);
+        expect(
+          report.rows.map(
+            (row: { outcome: ImportRowOutcomeEnum }) => row.outcome,
+          ),
+        ).toEqual([
+          ImportRowOutcomeEnum.SKIPPED,
+          ImportRowOutcomeEnum.SKIPPED,
+          ImportRowOutcomeEnum.SKIPPED,
+          ImportRowOutcomeEnum.CREATED,
+        ]);
+        expect(report.rows[0].reason).toBe(
+          'Client with this email already exists',
+        );
+        expect(report.clientsSkipped).toBe(3);
+      });
+
+      it('should update changed clients and create new ones in upsert mode', async () => {
+        const report = await runImport(ImportModeEnum.UPSERT);
+
+        expect(mockClientsService.createManyClients).toHaveBeenCalledWith([
+          buildClient(3),
+        ]);
+        expect(mockClientsService.updateManyClients).toHaveBeenCalledWith([
+          {
+            id: 'client-1',
+            data: {
+              stage: { connect: { id: 'stage-2' } },
+              closed: true,
+              stageChanges: {
+                create: { fromStageId: 'stage-1', toStageId: 'stage-2' },
+              },
+            },
+          },
+          {
+            id: 'client-2',
+            data: {
+              transcription: 'New transcription',
+              processed: false,
+              processedAt: null,
+            },
+          },
+        ]);
+        expect(report.rows).toEqual([
+          {
+            line: 2,
+            email: 'client0@test.com',
+            outcome: ImportRowOutcomeEnum.UNCHANGED,
+          },
+          {
+            line: 3,
+            email: 'client1@test.com',
+            outcome: ImportRowOutcomeEnum.UPDATED,
+          },
+          {
+            line: 4,
+            email: 'client2@test.com',
+            outcome: ImportRowOutcomeEnum.UPDATED,
+          },
+          {
+            line: 5,
+            email: 'client3@test.com',
+            outcome: ImportRowOutcomeEnum.CREATED,
+          },
+        ]);
+        expect(report).toMatchObject({
+          mode: ImportModeEnum.UPSERT,
+          clientsCreated: 1,
+          clientsUpdated: 2,
+          clientsUnchanged: 1,
+          clientsSkipped: 0,
+        });
+      });
+
+      it('should never create clients in update-only mode', async () => {
+        const report = await runImport(ImportModeEnum.UPDATE_ONLY);
+
+        expect(mockClientsService.createManyClients).not.toHaveBeenCalled();
+        expect(mockClientsService.updateManyClients).toHaveBeenCalledTimes(1);
+        expect(report.rows[3]).toEqual({
+          line: 5,
+          email: 'client3@test.com',
+          outcome: ImportRowOutcomeEnum.SKIPPED,
+          reason: 'No client with this email',
+        });
+        expect(report.clientsCreated).toBe(0);
+      });
+
+      it('should move clients to the stage of the row, which takes precedence over closed', async () => {
+        mockCsvProcessorService.validateRecords.mockReturnValue({
+          totalRows: 3,
+          accepted: [
+            {
+              line: 2,
+              client: { ...buildClient(0), closed: true, stage: 'Lost' },
+            },
+            { line: 3, client: { ...buildClient(1), stage: 'New' } },
+            { line: 4, client: { ...buildClient(2), stage: 'Demo' } },
+          ],
+          rejected: [],
+          duplicates: [],
+        });
+        mockClientsService.findByEmails.mockResolvedValue([
+          storedClient(0),
+          storedClient(1),
+          storedClient(2),
+        ]);
+
+        await service.processImport('batch-1', filePath, {
+          ...jobOptions,
+          mode: ImportModeEnum.UPSERT,
+        });
+
+        const { report } =
+          mockPrismaService.processingBatch.update.mock.calls.at(-1)[0].data;
+
+        expect(mockClientsService.updateManyClients).toHaveBeenCalledWith([
+          {
+            id: 'client-0',
+            data: {
+              stage: { connect: { id: 'stage-3' } },
+              closed: false,
+              stageChanges: {
+                create: { fromStageId: 'stage-1', toStageId: 'stage-3' },
+              },
+            },
+          },
+        ]);
+        expect(
+          report.rows.map(
+            (row: { outcome: ImportRowOutcomeEnum }) => row.outcome,
+          ),
+        ).toEqual([
+          ImportRowOutcomeEnum.UPDATED,
+          ImportRowOutcomeEnum.UNCHANGED,
+          ImportRowOutcomeEnum.SKIPPED,
+        ]);
+        expect(report.rows[2].reason).toBe('Unknown pipeline stage Demo');
+      });
+
+      it('should detect seller and meeting date changes', async () => {
+        mockCsvProcessorService.validateRecords.mockReturnValue({
+          totalRows: 1,
+          accepted: [
+            {
+              line: 2,
+              client: {
+                ...buildClient(0),
+                assignedSeller: 'Other Seller',
+                meetingDate: '2024-02-01T00:00:00.000Z',
+              },
+            },
+          ],
+          rejected: [],
+          duplicates: [],
+        });
+        mockClientsService.findByEmails.mockResolvedValue([storedClient(0)]);
+
+        await service.processImport('batch-1', filePath, {
+          ...jobOptions,
+          mode: ImportModeEnum.UPSERT,
+        });
+
+        expect(mockClientsService.updateManyClients).toHaveBeenCalledWith([
+          {
+            id: 'client-0',
+            data: {
+              assignedSeller: 'Other Seller',
+              seller: {
+                connectOrCreate: {
+                  where: { name: 'Other Seller' },
+                  create: { name: 'Other Seller' },
+                },
+              },
+              meetingDate: new Date('2024-02-01T00:00:00.000Z'),
+            },
+          },
+        ]);
+      });
+
+      it('should update the deal amount, keeping the stored currency when the row has none', async () => {
+        mockCsvProcessorService.validateRecords.mockReturnValue({
+          totalRows: 2,
+          accepted: [
+            { line: 2, client: { ...buildClient(0), dealAmount: 2500 } },
+            { line: 3, client: { ...buildClient(1), dealAmount: 100 } },
+          ],
+          rejected: [],
+          duplicates: [],
+        });
+        mockClientsService.findByEmails.mockResolvedValue([
+          storedClient(0, {
+            dealAmount: new Prisma.Decimal(1000),
+            currency: 'CLP',
+          }),
+          storedClient(1, {
+            dealAmount: new Prisma.Decimal(100),
+            currency: 'EUR',
+          }),
+        ]);
+
+        await service.processImport('batch-1', filePath, {
+          ...jobOptions,
+          mode: ImportModeEnum.UPSERT,
+        });
+
+        expect(mockClientsService.updateManyClients).toHaveBeenCalledWith([
+          { id: 'client-0', data: { dealAmount: 2500 } },
+        ]);
+      });
+
+      it('should match sellers by name or alias regardless of case and spacing', async () => {
+        mockSellersService.findByNames.mockResolvedValue(
+          new Map([
+            ['seller', seller],
+            ['j. toro', { id: 'seller-2', name: 'Toro' }],
+          ]),
+        );
+        mockCsvProcessorService.validateRecords.mockReturnValue({
+          totalRows: 2,
+          accepted: [
+            {
+              line: 2,
+              client: { ...buildClient(0), assignedSeller: ' SELLER ' },
+            },
+            {
+              line: 3,
+              client: { ...buildClient(1), assignedSeller: 'J.  Toro' },
+            },
+          ],
+          rejected: [],
+          duplicates: [],
+        });
+        mockClientsService.findByEmails.mockResolvedValue([
+          storedClient(0),
+          storedClient(1),
+        ]);
+
+        await service.processImport('batch-1', filePath, {
+          ...jobOptions,
+          mode: ImportModeEnum.UPSERT,
+        });
+
+        expect(mockSellersService.findByNames).toHaveBeenCalledWith([
+          ' SELLER ',
+          'J.  Toro',
+        ]);
+        expect(mockClientsService.updateManyClients).toHaveBeenCalledWith([
+          {
+            id: 'client-1',
+            data: {
+              assignedSeller: 'Toro',
+              seller: { connect: { id: 'seller-2' } },
+            },
+          },
+        ]);
+      });
+    });
+
+    it('should mark the batch as failed when processing throws', async () => {
+      mockCsvProcessorService.validateRecords.mockImplementation(() => {
+        throw new Error('Missing required columns: Nombre');
+      });
+
+      await service.processImport('batch-1', filePath, jobOptions);
+
+      expect(mockClientsService.createManyClients).not.toHaveBeenCalled();
+      expect(mockPrismaService.processingBatch.update).toHaveBeenLastCalledWith(
+        {
+          where: { id: 'batch-1' },
+          data: {
+            status: ImportStatusEnum.FAILED,
+            errorMessage: 'Missing required columns: Nombre',
+            completedAt: expect.any(Date),
+          },
+        },
+      );
+    });
+
+    it('should not throw when the failure itself cannot be recorded', async () => {
+      mockPrismaService.processingBatch.update
+        .mockRejectedValueOnce(new Error('Database down'))
+        .mockRejectedValueOnce(new Error('Database down'));
+
+      await expect(
+        service.processImport('batch-1', filePath, jobOptions),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getImport', () => {
+    it('should return the import job with its progress', async () => {
+      mockPrismaService.processingBatch.findUnique.mockResolvedValue({
+        ...mockBatch,
+        status: 'processing',
+        totalClients: 200,
+        processedClients: 50,
+      });
+
+      const result = await service.getImport('batch-1');
+
+      expect(result.status).toBe(ImportStatusEnum.PROCESSING);
+      expect(result.totalRows).toBe(200);
+      expect(result.processedRows).toBe(50);
+      expect(result.progress).toBe(25);
+    });
+
+    it('should report no progress while the total is not known', async () => {
+      mockPrismaService.processingBatch.findUnique.mockResolvedValue({
+        ...mockBatch,
+        status: 'processing',
+        processedClients: 50,
+      });
+
+      const result = await service.getImport('batch-1');
+
+      expect(result.processedRows).toBe(50);
+      expect(result.progress).toBeNull();
+    });
+
+    it('should report full progress for completed empty imports', async () => {
+      mockPrismaService.processingBatch.findUnique.mockResolvedValue({
+        ...mockBatch,
+        status: 'completed',
+      });
+
+      const result = await service.getImport('batch-1');
+
+      expect(result.progress).toBe(100);
+    });
+
+    it('should throw NotFoundException when the import does not exist', async () => {
+      mockPrismaService.processingBatch.findUnique.mockResolvedValue(null);
+
+      await expect(service.getImport('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(service.getImport('missing')).rejects.toThrow(
+        'Import with ID missing not found',
+      );
+    });
+  });
+
+  describe('listImports', () => {
+    it('should return paginated imports ordered by start date', async () => {
+      mockPrismaService.processingBatch.findMany.mockResolvedValue([mockBatch]);
+      mockPrismaService.processingBatch.count.mockResolvedValue(1);
+
+      const result = await service.listImports({
+        status: ImportStatusEnum.PENDING,
+        page: 2,
+        limit: 5,
+      });
+
+      expect(result.total).toBe(1);
+      expect(result.page).toBe(2);
+      expect(result.limit).toBe(5);
+      expect(result.imports[0].id).toBe('batch-1');
+      expect(result.imports[0]).not.toHaveProperty('report');
+      expect(mockPrismaService.processingBatch.findMany).toHaveBeenCalledWith({
+        where: { status: ImportStatusEnum.PENDING },
+        skip: 5,
+        take: 5,
+        orderBy: { startedAt: 'desc' },
+        omit: { report: true },
+      });
+    });
+
+    it('should use default pagination without filters', async () => {
+      mockPrismaService.processingBatch.findMany.mockResolvedValue([]);
+      mockPrismaService.processingBatch.count.mockResolvedValue(0);
+
+      const result = await service.listImports();
+
+      expect(result.page).toBe(API_CONSTANTS.PAGINATION.DEFAULT_PAGE);
+      expect(result.limit).toBe(API_CONSTANTS.PAGINATION.DEFAULT_LIMIT);
+      expect(mockPrismaService.processingBatch.count).toHaveBeenCalledWith({
+        where: {},
+      });
+    });
+  });
+});
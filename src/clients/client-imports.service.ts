@@ -0,0 +1,680 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Client, Prisma, ProcessingBatch, Seller } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ClientsService } from './clients.service';
+import {
+  CsvProcessorService,
+  MeetingDateOptions,
+} from './csv-processor.service';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportFileParserService } from './import-file-parser.service';
+import {
+  Pipeline,
+  PipelineStagesService,
+  Stage,
+} from './pipeline-stages.service';
+import { SellersService } from '../sellers/sellers.service';
+import {
+  API_CONSTANTS,
+  CLIENT_CONSTANTS,
+  IMPORT_CONSTANTS,
+} from '../common/constants';
+import {
+  ColumnMapping,
+  CreateClientDto,
+  CsvAcceptedRowDto,
+  CsvDuplicateRowDto,
+  CsvRejectedRowDto,
+  DateFormatEnum,
+  ImportFormatEnum,
+  ImportJobDto,
+  ImportJobSummaryDto,
+  ImportListQueryDto,
+  ImportModeEnum,
+  ImportPreviewDto,
+  ImportPreviewOptionsDto,
+  ImportReportDto,
+  ImportRowOutcomeEnum,
+  ImportRowResultDto,
+  ImportStatusEnum,
+  PipelineStageOutcomeEnum,
+  UploadOptionsDto,
+} from '../common/dto/clients';
+import { cleanSellerName, toSellerKey } from '../common/utils/seller.utils';
+
+/**
+ * How the rows of an import job are read and written
+ */
+export interface ImportJobOptions {
+  format: ImportFormatEnum;
+  mapping: ColumnMapping;
+  mode: ImportModeEnum;
+  sheetName?: string; // XLSX only
+  dates: MeetingDateOptions;
+}
+
+/**
+ * Runs client imports (CSV, XLSX, JSON, NDJSON) as background jobs tracked in processing_batches
+ * The upload request only registers the batch; validation and inserts happen afterwards
+ * so large files don't hold the HTTP request open.
+ */
+@Injectable()
+export class ClientImportsService {
+  private readonly logger = new Logger(ClientImportsService.name);
+  private readonly maxRows: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly clientsService: ClientsService,
+    private readonly csvProcessorService: CsvProcessorService,
+    private readonly importProfilesService: ImportProfilesService,
+    private readonly importFileParserService: ImportFileParserService,
+    private readonly sellersService: SellersService,
+    private readonly pipelineStagesService: PipelineStagesService,
+    configService: ConfigService,
+  ) {
+    this.maxRows =
+      Number(configService.get('IMPORT_MAX_ROWS')) ||
+      IMPORT_CONSTANTS.DEFAULT_MAX_ROWS;
+  }
+
+  /**
+   * Register a new import batch and start processing it in the background
+   * The uploaded file is removed once the job finishes, or right away when the upload is refused.
+   * @param fileName - Original name of the uploaded file; its extension selects the format
+   * @param filePath - Path of the uploaded file on disk
+   * @param options - Import profile, import mode and sheet selected for the upload
+   * @returns The newly created import job (status pending)
+   * @throws BadRequestException when the file type is not supported
+   * @throws NotFoundException when the import profile does not exist
+   */
+  async startImport(
+    fileName: string,
+    filePath: string,
+    options: UploadOptionsDto = {},
+  ): Promise<ImportJobDto> {
+    let batch: ProcessingBatch;
+    let jobOptions: ImportJobOptions;
+    try {
+      const format = this.importFileParserService.detectFormat(fileName);
+      const mapping = await this.importProfilesService.getColumnMapping(
+        options.profileId,
+      );
+      jobOptions = {
+        format,
+        mapping,
+        mode: options.mode || ImportModeEnum.INSERT_ONLY,
+        sheetName: options.sheetName,
+        dates: this.toDateOptions(options),
+      };
+
+      batch = await this.prisma.processingBatch.create({
+        data: {
+          fileName,
+          totalClients: 0,
+          status: ImportStatusEnum.PENDING,
+          profileId: options.profileId,
+        },
+      });
+    } catch (error) {
+      await this.importFileParserService.discard(filePath);
+      throw error;
+    }
+
+    this.logger.log(
+      `Import ${batch.id} registered for file ${fileName} (${jobOptions.format}, ${jobOptions.mode})`,
+    );
+
+    // processImport records its own failures on the batch, so nothing is awaited here
+    void this.processImport(batch.id, filePath, jobOptions);
+
+    return this.toImportJob(batch);
+  }
+
+  /**
+   * Dry-run an upload: read and validate the whole file exactly as an import would, without writing anything
+   * Returns the detected encoding/delimiter, the first mapped rows with the outcome the selected
+   * mode would give them, how many accepted emails are new or already stored, and the first
+   * rejected and duplicate rows. The uploaded file is always removed afterwards.
+   * @param fileName - Original file name, used to detect the format
+   * @param filePath - Path of the uploaded file on disk
+   * @param options - Import profile, mode, XLSX sheet and number of rows to return
+   * @throws BadRequestException when the file cannot be read, misses required columns or exceeds the row limit
+   * @throws NotFoundException when the import profile does not exist
+   */
+  async previewImport(
+    fileName: string,
+    filePath: string,
+    options: ImportPreviewOptionsDto = {},
+  ): Promise<ImportPreviewDto> {
+    try {
+      const format = this.importFileParserService.detectFormat(fileName);
+      const mapping = await this.importProfilesService.getColumnMapping(
+        options.profileId,
+      );
+      const mode = options.mode || ImportModeEnum.INSERT_ONLY;
+      const dates = this.toDateOptions(options);
+      const limit = options.limit || IMPORT_CONSTANTS.PREVIEW_DEFAULT_ROWS;
+      const pipeline = await this.pipelineStagesService.loadPipeline();
+      const { encoding, delimiter } =
+        await this.importFileParserService.detectDialect(filePath, format);
+
+      const preview: ImportPreviewDto = {
+        format,
+        encoding,
+        delimiter,
+        mode,
+        columns: [],
+        totalRows: 0,
+        accepted: 0,
+        newEmails: 0,
+        existingEmails: 0,
+        rows: [],
+        rejectedRows: 0,
+        duplicateRows: 0,
+        rejected: [],
+        duplicates: [],
+      };
+      const firstLineByEmail = new Map<string, number>();
+
+      for await (const file of this.importFileParserService.readChunks(
+        filePath,
+        format,
+        options.sheetName,
+      )) {
+        const report = this.csvProcessorService.validateRecords(
+          file,
+          mapping,
+          firstLineByEmail,
+          dates,
+        );
+
+        preview.columns = file.columns;
+        preview.totalRows += report.totalRows;
+        if (preview.totalRows > this.maxRows) {
+          throw new BadRequestException(
+            `File exceeds the maximum of ${this.maxRows} rows per import`,
+          );
+        }
+
+        const existingClients = await this.clientsService.findByEmails(
+          report.accepted.map((row) => row.client.email),
+        );
+        const sellers = await this.sellersService.findByNames(
+          report.accepted.map((row) => row.client.assignedSeller),
+        );
+        const plan = this.planChunk(
+          report.accepted,
+          existingClients,
+          sellers,
+          pipeline,
+          mode,
+        );
+
+        preview.accepted += report.accepted.length;
+        preview.existingEmails += existingClients.length;
+        preview.newEmails += report.accepted.length - existingClients.length;
+        preview.rejectedRows += report.rejected.length;
+        preview.duplicateRows += report.duplicates.length;
+
+        const missingRows = limit - preview.rows.length;
+        preview.rows.push(
+          ...plan.rows.slice(0, missingRows).map((row, index) => ({
+            line: row.line,
+            outcome: row.outcome,
+            reason: row.reason,
+            client: report.accepted[index].client,
+          })),
+        );
+        preview.rejected.push(...report.rejected);
+        preview.duplicates.push(...report.duplicates);
+        preview.rejected = preview.rejected.slice(
+          0,
+          IMPORT_CONSTANTS.PREVIEW_MAX_ISSUES,
+        );
+        preview.duplicates = preview.duplicates.slice(
+          0,
+          IMPORT_CONSTANTS.PREVIEW_MAX_ISSUES,
+        );
+      }
+
+      return preview;
+    } finally {
+      await this.importFileParserService.discard(filePath);
+    }
+  }
+
+  /**
+   * Read, validate and write the rows of an import batch one chunk at a time
+   * Only one chunk of records is held in memory: outcomes are counted as the chunks go, and the
+   * report keeps only the first REPORT_MAX_ROWS row results, rejected rows and duplicate rows.
+   * totalRows is counted before the rows are read (XLSX only records it once the whole file has
+   * been read) and processedRows is updated after each chunk. Depending on the mode, rows for
+   * existing emails are skipped or update the stored client. Any unexpected error, including
+   * exceeding the row limit, marks the batch as failed instead of propagating; chunks written
+   * before that are kept.
+   * @param batchId - Processing batch ID
+   * @param filePath - Path of the uploaded file on disk (removed when the job ends)
+   * @param options - File format, column mapping and import mode
+   */
+  async processImport(
+    batchId: string,
+    filePath: string,
+    options: ImportJobOptions,
+  ): Promise<void> {
+    const { mode } = options;
+
+    try {
+      await this.prisma.processingBatch.update({
+        where: { id: batchId },
+        data: { status: ImportStatusEnum.PROCESSING },
+      });
+
+      const totalRows = await this.importFileParserService.countRows(
+        filePath,
+        options.format,
+      );
+      if (totalRows !== null) {
+        await this.prisma.processingBatch.update({
+          where: { id: batchId },
+          data: { totalClients: totalRows },
+        });
+      }
+
+      const pipeline = await this.pipelineStagesService.loadPipeline();
+      const firstLineByEmail = new Map<string, number>();
+      const importReport: ImportReportDto = {
+        mode,
+        totalRows: 0,
+        accepted: 0,
+        clientsCreated: 0,
+        clientsUpdated: 0,
+        clientsUnchanged: 0,
+        clientsSkipped: 0,
+        rejectedRows: 0,
+        duplicateRows: 0,
+        rows: [],
+        rejected: [],
+        duplicates: [],
+      };
+
+      for await (const file of this.importFileParserService.readChunks(
+        filePath,
+        options.format,
+        options.sheetName,
+      )) {
+        const report = this.csvProcessorService.validateRecords(
+          file,
+          options.mapping,
+          firstLineByEmail,
+          options.dates,
+        );
+
+        importReport.totalRows += report.totalRows;
+        if (importReport.totalRows > this.maxRows) {
+          throw new Error(
+            `File exceeds the maximum of ${this.maxRows} rows per import`,
+          );
+        }
+
+        const existingClients = await this.clientsService.findByEmails(
+          report.accepted.map((row) => row.client.email),
+        );
+        const sellers = await this.sellersService.findByNames(
+          report.accepted.map((row) => row.client.assignedSeller),
+        );
+        const plan = this.planChunk(
+          report.accepted,
+          existingClients,
+          sellers,
+          pipeline,
+          mode,
+        );
+
+        if (plan.creates.length > 0) {
+          const result = await this.clientsService.createManyClients(
+            plan.creates,
+          );
+          importReport.clientsCreated += result.count;
+        }
+        await this.clientsService.updateManyClients(plan.updates);
+
+        this.addToReport(
+          importReport,
+          plan.rows,
+          report.rejected,
+          report.duplicates,
+        );
+        importReport.accepted += report.accepted.length;
+
+        await this.prisma.processingBatch.update({
+          where: { id: batchId },
+          data: { processedClients: importReport.totalRows },
+        });
+      }
+
+      await this.prisma.processingBatch.update({
+        where: { id: batchId },
+        data: {
+          status: ImportStatusEnum.COMPLETED,
+          totalClients: importReport.totalRows,
+          report: importReport as unknown as Prisma.InputJsonValue,
+          completedAt: new Date(),
+        },
+      });
+
+      this.logger.log(
+        `Import ${batchId} completed: ${importReport.clientsCreated} created, ${importReport.clientsUpdated} updated, ${importReport.clientsUnchanged} unchanged, ${importReport.clientsSkipped} skipped, ${importReport.rejectedRows} rejected, ${importReport.duplicateRows} duplicates`,
+      );
+    } catch (error) {
+      this.logger.error(`Import ${batchId} failed:`, error);
+      await this.markAsFailed(batchId, (error as Error).message);
+    } finally {
+      await this.importFileParserService.discard(filePath);
+    }
+  }
+
+  /**
+   * Get a single import job with its progress and report
+   * @param id - Processing batch ID
+   * @throws NotFoundException when the import does not exist
+   */
+  async getImport(id: string): Promise<ImportJobDto> {
+    const batch = await this.prisma.processingBatch.findUnique({
+      where: { id },
+    });
+
+    if (!batch) {
+      throw new NotFoundException(`Import with ID ${id} not found`);
+    }
+
+    return this.toImportJob(batch);
+  }
+
+  /**
+   * List import jobs, most recent first
+   * Reports are left out; GET /clients/imports/:id returns a job with its report.
+   * @param query - Optional status filter and pagination
+   */
+  async listImports(query: ImportListQueryDto = {}): Promise<{
+    imports: ImportJobSummaryDto[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = query.page || API_CONSTANTS.PAGINATION.DEFAULT_PAGE;
+    const limit = query.limit || API_CONSTANTS.PAGINATION.DEFAULT_LIMIT;
+    const where: Prisma.ProcessingBatchWhereInput = query.status
+      ? { status: query.status }
+      : {};
+
+    const [batches, total] = await Promise.all([
+      this.prisma.processingBatch.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { startedAt: 'desc' },
+        omit: { report: true },
+      }),
+      this.prisma.processingBatch.count({ where }),
+    ]);
+
+    return {
+      imports: batches.map((batch) => this.toImportSummary(batch)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Count the outcomes of a chunk and keep its rows while the report has room for them
+   * @private
+   */
+  private addToReport(
+    report: ImportReportDto,
+    rows: ImportRowResultDto[],
+    rejected: CsvRejectedRowDto[],
+    duplicates: CsvDuplicateRowDto[],
+  ): void {
+    const countOutcome = (outcome: ImportRowOutcomeEnum) =>
+      rows.filter((row) => row.outcome === outcome).length;
+    report.clientsUpdated += countOutcome(ImportRowOutcomeEnum.UPDATED);
+    report.clientsUnchanged += countOutcome(ImportRowOutcomeEnum.UNCHANGED);
+    report.clientsSkipped += countOutcome(ImportRowOutcomeEnum.SKIPPED);
+    report.rejectedRows += rejected.length;
+    report.duplicateRows += duplicates.length;
+
+    const room = (kept: unknown[]) =>
+      Math.max(IMPORT_CONSTANTS.REPORT_MAX_ROWS - kept.length, 0);
+    report.rows.push(...rows.slice(0, room(report.rows)));
+    report.rejected.push(
+      ...[...rejected]
+        .sort((a, b) => a.line - b.line)
+        .slice(0, room(report.rejected)),
+    );
+    report.duplicates.push(...duplicates.slice(0, room(report.duplicates)));
+  }
+
+  private toDateOptions(options: UploadOptionsDto): MeetingDateOptions {
+    return {
+      format: options.dateFormat || DateFormatEnum.AUTO,
+      timezone: options.timezone || IMPORT_CONSTANTS.DEFAULT_TIMEZONE,
+    };
+  }
+
+  /**
+   * Decide what happens to each row of a chunk given the clients already stored
+   * Rows naming a stage that is not in the pipeline are skipped.
+   * @param sellers - Known sellers of the chunk's seller names, keyed by toSellerKey
+   * @private
+   */
+  private planChunk(
+    chunk: CsvAcceptedRowDto[],
+    existingClients: Client[],
+    sellers: Map<string, Seller>,
+    pipeline: Pipeline,
+    mode: ImportModeEnum,
+  ): {
+    creates: CreateClientDto[];
+    updates: Array<{ id: string; data: Prisma.ClientUpdateInput }>;
+    rows: ImportRowResultDto[];
+  } {
+    const existingByEmail = new Map(
+      existingClients.map((client) => [client.email, client]),
+    );
+    const creates: CreateClientDto[] = [];
+    const updates: Array<{ id: string; data: Prisma.ClientUpdateInput }> = [];
+    const rows: ImportRowResultDto[] = [];
+
+    for (const { line, client } of chunk) {
+      const existing = existingByEmail.get(client.email);
+      const email = client.email;
+      const stage = this.pipelineStagesService.stageFor(
+        pipeline,
+        client.stage,
+        client.closed,
+      );
+
+      if (!stage) {
+        rows.push({
+          line,
+          email,
+          outcome: ImportRowOutcomeEnum.SKIPPED,
+          reason: `Unknown pipeline stage ${client.stage}`,
+        });
+        continue;
+      }
+
+      if (!existing) {
+        if (mode === ImportModeEnum.UPDATE_ONLY) {
+          rows.push({
+            line,
+            email,
+            outcome: ImportRowOutcomeEnum.SKIPPED,
+            reason: 'No client with this email',
+          });
+        } else {
+          creates.push(client);
+          rows.push({ line, email, outcome: ImportRowOutcomeEnum.CREATED });
+        }
+        continue;
+      }
+
+      if (mode === ImportModeEnum.INSERT_ONLY) {
+        rows.push({
+          line,
+          email,
+          outcome: ImportRowOutcomeEnum.SKIPPED,
+          reason: 'Client with this email already exists',
+        });
+        continue;
+      }
+
+      const changes = this.diffClient(
+        existing,
+        client,
+        stage,
+        sellers.get(toSellerKey(client.assignedSeller)),
+      );
+      if (!changes) {
+        rows.push({ line, email, outcome: ImportRowOutcomeEnum.UNCHANGED });
+        continue;
+      }
+
+      updates.push({ id: existing.id, data: changes });
+      rows.push({ line, email, outcome: ImportRowOutcomeEnum.UPDATED });
+    }
+
+    return { creates, updates, rows };
+  }
+
+  /**
+   * Build the update for an existing client from an imported row
+   * A changed transcription resets the processed flag so the client is categorized again. A seller
+   * name that matches no seller creates one when the update is written. A stage change is recorded
+   * in the client's stage history. The deal value only changes when the row carries one.
+   * @param stage - Stage resolved from the row's stage, or from its closed flag when it has none
+   * @param seller - Seller matching the row's seller name, if it exists
+   * @returns The changed fields, or null when the row matches the stored client
+   * @private
+   */
+  private diffClient(
+    existing: Client,
+    client: CreateClientDto,
+    stage: Stage,
+    seller?: Seller,
+  ): Prisma.ClientUpdateInput | null {
+    const changes: Prisma.ClientUpdateInput = {};
+    const meetingDate = new Date(client.meetingDate);
+
+    // Without a stage column, a client only moves when its closed flag changes
+    const moved =
+      client.stage !== undefined
+        ? existing.stageId !== stage.id
+        : existing.closed !== client.closed;
+    if (moved) {
+      changes.stage = { connect: { id: stage.id } };
+      changes.closed = stage.outcome === PipelineStageOutcomeEnum.WON;
+      changes.stageChanges = {
+        create: { fromStageId: existing.stageId, toStageId: stage.id },
+      };
+    }
+
+    if (existing.sellerId !== seller?.id) {
+      const name = seller?.name ?? cleanSellerName(client.assignedSeller);
+      changes.assignedSeller = name;
+      changes.seller = seller
+        ? { connect: { id: seller.id } }
+        : { connectOrCreate: { where: { name }, create: { name } } };
+    }
+
+    if (existing.meetingDate.getTime() !== meetingDate.getTime()) {
+      changes.meetingDate = meetingDate;
+    }
+
+    // Rows without a deal value keep the stored one
+    if (
+      client.dealAmount !== undefined &&
+      !existing.dealAmount?.equals(client.dealAmount)
+    ) {
+      changes.dealAmount = client.dealAmount;
+    }
+
+    const currency =
+      client.currency ??
+      (client.dealAmount !== undefined
+        ? (existing.currency ?? CLIENT_CONSTANTS.DEFAULT_CURRENCY)
+        : undefined);
+    if (currency !== undefined && currency !== existing.currency) {
+      changes.currency = currency;
+    }
+
+    if (existing.transcription !== client.transcription) {
+      changes.transcription = client.transcription;
+      changes.processed = false;
+      changes.processedAt = null;
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  private async markAsFailed(
+    batchId: string,
+    errorMessage: string,
+  ): Promise<void> {
+    try {
+      await this.prisma.processingBatch.update({
+        where: { id: batchId },
+        data: {
+          status: ImportStatusEnum.FAILED,
+          errorMessage,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Could not mark import ${batchId} as failed:`, error);
+    }
+  }
+
+  private toImportJob(batch: ProcessingBatch): ImportJobDto {
+    return {
+      ...this.toImportSummary(batch),
+      report: batch.report as unknown as ImportReportDto | null,
+    };
+  }
+
+  private toImportSummary(
+    batch: Omit<ProcessingBatch, 'report'>,
+  ): ImportJobSummaryDto {
+    const status = batch.status as ImportStatusEnum;
+    // Without a total (XLSX imports still being read) there is no percentage to report
+    const progress =
+      status === ImportStatusEnum.COMPLETED
+        ? 100
+        : batch.totalClients > 0
+          ? parseFloat(
+              ((batch.processedClients / batch.totalClients) * 100).toFixed(2),
+            )
+          : null;
+
+    return {
+      id: batch.id,
+      fileName: batch.fileName,
+      profileId: batch.profileId,
+      status,
+      totalRows: batch.totalClients,
+      processedRows: batch.processedClients,
+      progress,
+      errorMessage: batch.errorMessage,
+      startedAt: batch.startedAt,
+      completedAt: batch.completedAt,
+    };
+  }
+}
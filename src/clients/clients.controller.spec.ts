@@ -1,31 +1,60 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { BadRequestException } from '@nestjs/common';
+import { BadRequestException, StreamableFile } from '@nestjs/common';
+import { Readable } from 'stream';
 import { ClientsController } from './clients.controller';
 import { ClientsService } from './clients.service';
-import { CsvProcessorService } from './csv-processor.service';
-import { OverviewService } from '../analytics/overview/overview.service';
+import { ClientImportsService } from './client-imports.service';
+import { ClientExportsService } from './client-exports.service';
+import { ImportFileParserService } from './import-file-parser.service';
+import { CategorizationService } from '../llm/categorization.service';
 import { Client } from '@prisma/client';
+import {
+  BulkClientActionEnum,
+  ExportFormatEnum,
+  ImportModeEnum,
+  ImportStatusEnum,
+} from '../common/dto/clients';
+import { AnalysisActionEnum } from '../common/dto/llm';
 
 describe('ClientsController', () => {
   let controller: ClientsController;
   let clientsService: jest.Mocked<ClientsService>;
-  let csvProcessorService: jest.Mocked<CsvProcessorService>;
-  let overviewService: jest.Mocked<OverviewService>;
+  let clientImportsService: jest.Mocked<ClientImportsService>;
 
   const mockClientsService = {
     findAll: jest.fn(),
     findOne: jest.fn(),
-    createManyClients: jest.fn(),
     getUniqueValues: jest.fn(),
-    deleteAll: jest.fn(),
+    createClient: jest.fn(),
+    updateClient: jest.fn(),
+    removeClient: jest.fn(),
+    removeAll: jest.fn(),
+    findTrash: jest.fn(),
+    restoreClient: jest.fn(),
+    purgeTrash: jest.fn(),
+    bulkAction: jest.fn(),
+    moveToStage: jest.fn(),
+    getStageHistory: jest.fn(),
+    getAnalysisHistory: jest.fn(),
   };
 
-  const mockCsvProcessorService = {
-    parseCsvContent: jest.fn(),
+  const mockClientImportsService = {
+    startImport: jest.fn(),
+    previewImport: jest.fn(),
+    getImport: jest.fn(),
+    listImports: jest.fn(),
   };
 
-  const mockOverviewService = {
-    getOverview: jest.fn(),
+  const mockClientExportsService = {
+    exportClients: jest.fn(),
+  };
+
+  const mockCategorizationService = {
+    scheduleProcessing: jest.fn(),
+  };
+
+  const mockImportFileParserService = {
+    discard: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -37,20 +66,27 @@ describe('ClientsController', () => {
           useValue: mockClientsService,
         },
         {
-          provide: CsvProcessorService,
-          useValue: mockCsvProcessorService,
+          provide: ClientImportsService,
+          useValue: mockClientImportsService,
+        },
+        {
+          provide: CategorizationService,
+          useValue: mockCategorizationService,
+        },
+        {
+          provide: ClientExportsService,
+          useValue: mockClientExportsService,
         },
         {
-          provide: OverviewService,
-          useValue: mockOverviewService,
+          provide: ImportFileParserService,
+          useValue: mockImportFileParserService,
         },
       ],
     }).compile();
 
     controller = module.get<ClientsController>(ClientsController);
     clientsService = module.get(ClientsService);
-    csvProcessorService = module.get(CsvProcessorService);
-    overviewService = module.get(OverviewService);
+    clientImportsService = module.get(ClientImportsService);
   });
 
   afterEach(() => {
@@ -58,84 +94,153 @@ describe('ClientsController', () => {
   });
 
   describe('uploadCsv', () => {
-    it('should upload and process CSV file successfully', async () => {
+    it('should start an import job for the uploaded file', async () => {
       const mockFile: Express.Multer.File = {
         fieldname: 'file',
         originalname: 'clients.csv',
         encoding: '7bit',
         mimetype: 'text/csv',
-        buffer: Buffer.from('name,email,phone\nClient 1,client1@test.com,1234567890'),
+        buffer: undefined as any,
         size: 100,
-        destination: '',
-        filename: '',
-        path: '',
+        destination: '/tmp',
+        filename: 'upload-1',
+        path: '/tmp/upload-1',
         stream: null as any,
       };
 
-      const mockClients = [
-        {
-          name: 'Client 1',
-          email: 'client1@test.com',
-          phone: '1234567890',
-          assignedSeller: 'Seller 1',
-          meetingDate: '2024-01-01',
-          closed: false,
-          transcription: '',
-        },
-      ];
-
-      const mockUpdatedMetrics = {
-        totalClients: 101,
-        totalClosed: 40,
-        totalOpen: 61,
-        conversionRate: 39.6,
-        processedClients: 57,
-        unprocessedClients: 44,
+      const mockJob = {
+        id: 'import-1',
+        fileName: 'clients.csv',
+        profileId: null,
+        status: ImportStatusEnum.PENDING,
+        totalRows: 0,
+        processedRows: 0,
+        progress: 0,
+        errorMessage: null,
+        report: null,
+        startedAt: new Date(),
+        completedAt: null,
       };
 
-      mockCsvProcessorService.parseCsvContent.mockReturnValue(mockClients);
-      mockClientsService.createManyClients.mockResolvedValue({ count: 1 });
-      mockOverviewService.getOverview.mockResolvedValue(mockUpdatedMetrics);
+      mockClientImportsService.startImport.mockResolvedValue(mockJob);
 
-      const result = await controller.uploadCsv(mockFile);
+      const result = await controller.uploadCsv(mockFile, {});
 
       expect(result).toEqual({
-        message: 'CSV uploaded and processed successfully',
-        clientsCreated: 1,
-        metrics: mockUpdatedMetrics,
+        message: 'Import started',
+        importId: 'import-1',
+        status: ImportStatusEnum.PENDING,
       });
-      expect(csvProcessorService.parseCsvContent).toHaveBeenCalledWith(mockFile.buffer.toString('utf-8'));
-      expect(clientsService.createManyClients).toHaveBeenCalledWith(mockClients);
-      expect(overviewService.getOverview).toHaveBeenCalledTimes(1);
+      expect(clientImportsService.startImport).toHaveBeenCalledWith(
+        'clients.csv',
+        '/tmp/upload-1',
+        {},
+      );
+    });
+
+    it('should pass the selected import profile and mode to the import job', async () => {
+      const mockFile = {
+        originalname: 'hubspot.csv',
+        path: '/tmp/upload-2',
+      } as Express.Multer.File;
+      mockClientImportsService.startImport.mockResolvedValue({
+        id: 'import-2',
+        status: ImportStatusEnum.PENDING,
+      });
+
+      await controller.uploadCsv(mockFile, {
+        profileId: 'profile-1',
+        mode: ImportModeEnum.UPSERT,
+      });
+
+      expect(clientImportsService.startImport).toHaveBeenCalledWith(
+        'hubspot.csv',
+        '/tmp/upload-2',
+        { profileId: 'profile-1', mode: ImportModeEnum.UPSERT },
+      );
     });
 
     it('should throw BadRequestException when no file is uploaded', async () => {
       const mockFile = undefined as any;
 
-      await expect(controller.uploadCsv(mockFile)).rejects.toThrow(BadRequestException);
-      await expect(controller.uploadCsv(mockFile)).rejects.toThrow('No file uploaded');
-      expect(csvProcessorService.parseCsvContent).not.toHaveBeenCalled();
-      expect(clientsService.createManyClients).not.toHaveBeenCalled();
+      await expect(controller.uploadCsv(mockFile, {})).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(controller.uploadCsv(mockFile, {})).rejects.toThrow(
+        'No file uploaded',
+      );
+      expect(clientImportsService.startImport).not.toHaveBeenCalled();
     });
+  });
 
-    it('should throw BadRequestException when file is not CSV', async () => {
-      const mockFile: Express.Multer.File = {
-        fieldname: 'file',
-        originalname: 'clients.txt',
-        encoding: '7bit',
-        mimetype: 'text/plain',
-        buffer: Buffer.from('test content'),
-        size: 100,
-        destination: '',
-        filename: '',
-        path: '',
-        stream: null as any,
+  describe('previewUpload', () => {
+    it('should return the preview of the uploaded file', async () => {
+      const mockFile = {
+        originalname: 'clients.csv',
+        path: '/tmp/upload-3',
+      } as Express.Multer.File;
+      const preview = {
+        totalRows: 2,
+        accepted: 2,
+        newEmails: 1,
+        existingEmails: 1,
+        rows: [],
+      };
+      mockClientImportsService.previewImport.mockResolvedValue(preview);
+
+      const result = await controller.previewUpload(mockFile, {
+        mode: ImportModeEnum.UPSERT,
+        limit: 5,
+      });
+
+      expect(result).toEqual(preview);
+      expect(clientImportsService.previewImport).toHaveBeenCalledWith(
+        'clients.csv',
+        '/tmp/upload-3',
+        {
+          mode: ImportModeEnum.UPSERT,
+          limit: 5,
+        },
+      );
+    });
+
+    it('should throw BadRequestException when no file is uploaded', async () => {
+      await expect(
+        controller.previewUpload(undefined as any, {}),
+      ).rejects.toThrow('No file uploaded');
+      expect(clientImportsService.previewImport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listImports', () => {
+    it('should return import jobs with the given query', async () => {
+      const mockResponse = { imports: [], total: 0, page: 1, limit: 20 };
+      mockClientImportsService.listImports.mockResolvedValue(mockResponse);
+
+      const result = await controller.listImports({
+        status: ImportStatusEnum.FAILED,
+      });
+
+      expect(result).toEqual(mockResponse);
+      expect(clientImportsService.listImports).toHaveBeenCalledWith({
+        status: ImportStatusEnum.FAILED,
+      });
+    });
+  });
+
+  describe('getImport', () => {
+    it('should return a single import job by ID', async () => {
+      const mockJob = {
+        id: 'import-1',
+        status: ImportStatusEnum.COMPLETED,
+        progress: 100,
       };
+      mockClientImportsService.getImport.mockResolvedValue(mockJob);
 
-      await expect(controller.uploadCsv(mockFile)).rejects.toThrow(BadRequestException);
-      await expect(controller.uploadCsv(mockFile)).rejects.toThrow('Only CSV files are allowed');
-      expect(csvProcessorService.parseCsvContent).not.toHaveBeenCalled();
-      expect(clientsService.createManyClients).not.toHaveBeenCalled();
+      const result = await controller.getImport('import-1');
+
+      expect(result).toEqual(mockJob);
+      expect(clientImportsService.getImport).toHaveBeenCalledWith('import-1');
     });
   });
 
@@ -167,9 +272,13 @@ describe('ClientsController', () => {
           email: 'client1@test.com',
           phone: '1234567890',
           assignedSeller: 'Seller 1',
+          sellerId: 'seller-1',
+          stageId: 'stage-1',
           meetingDate: new Date('2024-01-01'),
           closed: false,
           transcription: 'Test transcription',
+          dealAmount: null,
+          currency: null,
           industry: null,
           operationSize: null,
           interactionVolume: null,
@@ -179,8 +288,12 @@ describe('ClientsController', () => {
           painPoints: [],
           technicalRequirements: [],
           sentiment: null,
+          tags: [],
           processed: false,
           processedAt: null,
+          categorizationStatus: null,
+          categorizationPromptVersion: null,
+          deletedAt: null,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -205,7 +318,7 @@ describe('ClientsController', () => {
     it('should return clients with filters applied', async () => {
       const filters = {
         seller: 'Seller 1',
-        industry: 'Technology',
+        industry: ['Technology'],
         closed: true,
         page: 1,
         limit: 10,
@@ -235,9 +348,13 @@ describe('ClientsController', () => {
         email: 'client1@test.com',
         phone: '1234567890',
         assignedSeller: 'Seller 1',
+        sellerId: 'seller-1',
+        stageId: 'stage-1',
         meetingDate: new Date('2024-01-01'),
         closed: false,
         transcription: 'Test transcription',
+        dealAmount: null,
+        currency: null,
         industry: 'Technology',
         operationSize: 'large',
         interactionVolume: 150,
@@ -247,8 +364,12 @@ describe('ClientsController', () => {
         painPoints: ['High workload'],
         technicalRequirements: ['API integration'],
         sentiment: 'positive',
+        tags: [],
         processed: true,
         processedAt: new Date(),
+        categorizationStatus: 'valid',
+        categorizationPromptVersion: 'categorization@1',
+        deletedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -262,37 +383,232 @@ describe('ClientsController', () => {
     });
   });
 
-  describe('deleteAll', () => {
-    it('should clear all tables successfully', async () => {
-      const mockResult = {
-        clients: 100,
-        processingBatches: 5,
-        analysisLogs: 10,
-        total: 115,
+  describe('create', () => {
+    it('should create a client', async () => {
+      const createClientDto = {
+        name: 'Client 1',
+        email: 'client1@test.com',
+        phone: '1234567890',
+        assignedSeller: 'Seller 1',
+        meetingDate: '2024-01-01T10:00:00Z',
+        closed: false,
+        transcription: 'Test transcription',
       };
-      mockClientsService.deleteAll.mockResolvedValue(mockResult);
+      const mockClient = {
+        id: 'client-1',
+        ...createClientDto,
+        processed: false,
+      };
+      mockClientsService.createClient.mockResolvedValue(mockClient);
 
-      const result = await controller.deleteAll();
+      const result = await controller.create(createClientDto);
 
-      expect(result).toEqual(mockResult);
-      expect(clientsService.deleteAll).toHaveBeenCalledTimes(1);
-      expect(clientsService.deleteAll).toHaveBeenCalledWith();
+      expect(result).toEqual(mockClient);
+      expect(clientsService.createClient).toHaveBeenCalledWith(createClientDto);
+    });
+  });
+
+  describe('update', () => {
+    it('should schedule re-categorization when the transcription changes', async () => {
+      mockClientsService.updateClient.mockResolvedValue({
+        client: { id: 'client-1', processed: false },
+        transcriptionChanged: true,
+      });
+
+      await controller.update('client-1', {
+        transcription: 'New transcription',
+      });
+
+      expect(clientsService.updateClient).toHaveBeenCalledWith('client-1', {
+        transcription: 'New transcription',
+      });
+      expect(mockCategorizationService.scheduleProcessing).toHaveBeenCalledWith(
+        'client-1',
+      );
+    });
+
+    it('should not schedule re-categorization when the transcription is unchanged', async () => {
+      // Still waiting for its first categorization, which is already scheduled
+      mockClientsService.updateClient.mockResolvedValue({
+        client: { id: 'client-1', processed: false },
+        transcriptionChanged: false,
+      });
+
+      await controller.update('client-1', {
+        transcription: 'Same transcription',
+      });
+
+      expect(
+        mockCategorizationService.scheduleProcessing,
+      ).not.toHaveBeenCalled();
     });
 
-    it('should return zeros when all tables are empty', async () => {
+    it('should not schedule re-categorization for other fields', async () => {
+      mockClientsService.updateClient.mockResolvedValue({
+        client: { id: 'client-1', processed: true, closed: true },
+        transcriptionChanged: false,
+      });
+
+      const result = await controller.update('client-1', { closed: true });
+
+      expect(result).toEqual({ id: 'client-1', processed: true, closed: true });
+      expect(
+        mockCategorizationService.scheduleProcessing,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the client', async () => {
+      mockClientsService.removeClient.mockResolvedValue(undefined);
+
+      await controller.remove('client-1');
+
+      expect(clientsService.removeClient).toHaveBeenCalledWith('client-1');
+    });
+  });
+
+  describe('exportClients', () => {
+    it('should stream the export as a file download', async () => {
+      const stream = Readable.from(['id\r\n']);
+      mockClientExportsService.exportClients.mockResolvedValue({
+        stream,
+        contentType: 'text/csv; charset=utf-8',
+        fileName: 'clients-2024-01-15.csv',
+      });
+
+      const result = await controller.exportClients({
+        format: ExportFormatEnum.CSV,
+        industry: ['Retail'],
+      });
+
+      expect(mockClientExportsService.exportClients).toHaveBeenCalledWith({
+        format: ExportFormatEnum.CSV,
+        industry: ['Retail'],
+      });
+      expect(result).toBeInstanceOf(StreamableFile);
+      expect(result.getStream()).toBe(stream);
+      expect(result.getHeaders()).toMatchObject({
+        type: 'text/csv; charset=utf-8',
+        disposition: 'attachment; filename="clients-2024-01-15.csv"',
+      });
+    });
+  });
+
+  describe('bulkAction', () => {
+    it('should pass the bulk action to the service', async () => {
+      const dto = {
+        action: BulkClientActionEnum.ADD_TAGS,
+        tags: ['vip'],
+        ids: ['client-1'],
+      };
       const mockResult = {
-        clients: 0,
-        processingBatches: 0,
-        analysisLogs: 0,
-        total: 0,
+        action: BulkClientActionEnum.ADD_TAGS,
+        matched: 1,
+        affected: 1,
+        unchanged: 0,
+        notFound: [],
       };
-      mockClientsService.deleteAll.mockResolvedValue(mockResult);
+      mockClientsService.bulkAction.mockResolvedValue(mockResult);
 
-      const result = await controller.deleteAll();
+      const result = await controller.bulkAction(dto);
 
       expect(result).toEqual(mockResult);
-      expect(clientsService.deleteAll).toHaveBeenCalledTimes(1);
+      expect(clientsService.bulkAction).toHaveBeenCalledWith(dto);
+    });
+  });
+
+  describe('findTrash', () => {
+    it('should list trashed clients with the given filters', async () => {
+      const mockResult = { clients: [], total: 0, page: 1, limit: 20 };
+      mockClientsService.findTrash.mockResolvedValue(mockResult);
+
+      const result = await controller.findTrash({ search: 'acme' });
+
+      expect(result).toEqual(mockResult);
+      expect(clientsService.findTrash).toHaveBeenCalledWith({ search: 'acme' });
+    });
+  });
+
+  describe('moveToStage', () => {
+    it('should move the client to the requested stage', async () => {
+      mockClientsService.moveToStage.mockResolvedValue({
+        id: 'client-1',
+        stageId: 'stage-2',
+        closed: true,
+      });
+      const dto = { stageId: 'stage-2', note: 'Signed' };
+
+      const result = await controller.moveToStage('client-1', dto);
+
+      expect(result).toEqual({
+        id: 'client-1',
+        stageId: 'stage-2',
+        closed: true,
+      });
+      expect(clientsService.moveToStage).toHaveBeenCalledWith('client-1', dto);
     });
   });
-});
 
+  describe('getStageHistory', () => {
+    it('should return the stage history of the client', async () => {
+      mockClientsService.getStageHistory.mockResolvedValue([]);
+
+      await expect(controller.getStageHistory('client-1')).resolves.toEqual([]);
+      expect(clientsService.getStageHistory).toHaveBeenCalledWith('client-1');
+    });
+  });
+
+  describe('getAnalysisHistory', () => {
+    it('should return the analysis history of the client', async () => {
+      mockClientsService.getAnalysisHistory.mockResolvedValue([]);
+
+      await expect(
+        controller.getAnalysisHistory('client-1', {
+          action: AnalysisActionEnum.CATEGORIZATION,
+        }),
+      ).resolves.toEqual([]);
+      expect(clientsService.getAnalysisHistory).toHaveBeenCalledWith(
+        'client-1',
+        { action: 'categorization' },
+      );
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore a client from the trash', async () => {
+      mockClientsService.restoreClient.mockResolvedValue({
+        id: 'client-1',
+        deletedAt: null,
+      });
+
+      const result = await controller.restore('client-1');
+
+      expect(result).toEqual({ id: 'client-1', deletedAt: null });
+      expect(clientsService.restoreClient).toHaveBeenCalledWith('client-1');
+    });
+  });
+
+  describe('purgeTrash', () => {
+    it('should pass the confirmation token to the service', async () => {
+      const mockResult = { clients: 2, analysisLogs: 3, total: 5 };
+      mockClientsService.purgeTrash.mockResolvedValue(mockResult);
+
+      const result = await controller.purgeTrash({ confirm: 'PURGE_TRASH' });
+
+      expect(result).toEqual(mockResult);
+      expect(clientsService.purgeTrash).toHaveBeenCalledWith('PURGE_TRASH');
+    });
+  });
+
+  describe('deleteAll', () => {
+    it('should move all clients to the trash', async () => {
+      mockClientsService.removeAll.mockResolvedValue({ clients: 100 });
+
+      const result = await controller.deleteAll();
+
+      expect(result).toEqual({ clients: 100 });
+      expect(clientsService.removeAll).toHaveBeenCalledTimes(1);
+    });
+  });
+});
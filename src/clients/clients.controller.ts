@@ -4,31 +4,116 @@ import {
   Post,
   Body,
   Param,
+  Patch,
   Query,
   UseInterceptors,
   UploadedFile,
   BadRequestException,
   Delete,
+  HttpCode,
+  HttpStatus,
+  StreamableFile,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiResponse, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
 import { ClientsService } from './clients.service';
-import { CsvProcessorService } from './csv-processor.service';
-import { ClientFilterDto } from '../common/dto/client.dto';
-import { OverviewService } from '../analytics/overview/overview.service';
+import { ClientImportsService } from './client-imports.service';
+import { ClientExportsService } from './client-exports.service';
+import { DiscardUploadInterceptor } from './discard-upload.interceptor';
+import { CategorizationService } from '../llm/categorization.service';
+import {
+  ClientFilterDto,
+  CreateClientDto,
+  PurgeTrashDto,
+  UpdateClientDto,
+} from '../common/dto/client.dto';
+import { CLIENT_CONSTANTS, IMPORT_CONSTANTS } from '../common/constants';
+import {
+  BulkClientActionDto,
+  ClientExportQueryDto,
+  DateFormatEnum,
+  ImportListQueryDto,
+  ImportModeEnum,
+  ImportPreviewOptionsDto,
+  MoveClientStageDto,
+  UploadOptionsDto,
+} from '../common/dto/clients';
+import { AnalysisHistoryQueryDto } from '../common/dto/llm';
 
 @ApiTags('clients')
 @Controller('clients')
 export class ClientsController {
   constructor(
     private readonly clientsService: ClientsService,
-    private readonly csvProcessorService: CsvProcessorService,
-    private readonly overviewService: OverviewService,
+    private readonly clientImportsService: ClientImportsService,
+    private readonly categorizationService: CategorizationService,
+    private readonly clientExportsService: ClientExportsService,
   ) {}
 
+  @Post()
+  @ApiOperation({ summary: 'Create a single client' })
+  @ApiResponse({ status: 201, description: 'Client created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid client data' })
+  @ApiResponse({
+    status: 409,
+    description: 'A client with this email already exists',
+  })
+  async create(@Body() createClientDto: CreateClientDto) {
+    return this.clientsService.createClient(createClientDto);
+  }
+
+  @Post('bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Apply one action to many clients',
+    description:
+      'Actions: reassign-seller (needs assignedSeller), mark-closed (moves open deals to the first won stage), mark-open (moves closed deals to the first open stage), move-stage (needs stageId), reset-processed (categorized again by the next processing run), add-tags / remove-tags (need tags) and delete (moves to the trash). Select the clients with either ids or filters (the GET /clients filters, segmentId included). Everything runs in one transaction; clients in the trash are never selected.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Bulk action applied',
+    schema: {
+      type: 'object',
+      properties: {
+        action: { type: 'string' },
+        matched: { type: 'number', description: 'Clients selected' },
+        affected: { type: 'number', description: 'Clients changed' },
+        unchanged: {
+          type: 'number',
+          description: 'Clients already in the requested state',
+        },
+        notFound: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Requested ids with no active client',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid action, missing argument, or not exactly one of ids and filters',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async bulkAction(@Body() dto: BulkClientActionDto) {
+    return this.clientsService.bulkAction(dto);
+  }
+
   @Post('upload')
-  @UseInterceptors(FileInterceptor('file'))
-  @ApiOperation({ summary: 'Upload CSV file with client data' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(FileInterceptor('file'), DiscardUploadInterceptor)
+  @ApiOperation({
+    summary: 'Upload a CSV, XLSX, JSON or NDJSON file with client data',
+    description:
+      'Registers an import job and processes the rows in the background. The format is taken from the file extension (.csv, .xlsx, .json, .ndjson/.jsonl); for XLSX, sheetName selects the sheet (defaults to the first one). Files are streamed to disk and read in chunks; size and row count are capped by IMPORT_MAX_FILE_SIZE_MB and IMPORT_MAX_ROWS; JSON documents, which are parsed whole, by IMPORT_MAX_JSON_FILE_SIZE_MB. Poll GET /clients/imports/:id for progress and the row-level report. Pass profileId to read the file with a saved column mapping profile, and mode to update clients that already exist (matched by email). dateFormat and timezone control how meeting dates are read; unreadable or ambiguous dates reject the row instead of failing the import.',
+  })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
     schema: {
@@ -38,48 +123,259 @@ export class ClientsController {
           type: 'string',
           format: 'binary',
         },
+        profileId: {
+          type: 'string',
+          format: 'uuid',
+          description:
+            'Import profile to map columns with (defaults to the Spanish headers)',
+        },
+        mode: {
+          type: 'string',
+          enum: Object.values(ImportModeEnum),
+          description:
+            'insert-only (default) skips existing emails, upsert also updates them, update-only never creates clients',
+        },
+        sheetName: {
+          type: 'string',
+          description:
+            'XLSX only: sheet to import (defaults to the first sheet)',
+        },
+        dateFormat: {
+          type: 'string',
+          enum: Object.values(DateFormatEnum),
+          description:
+            'How meeting dates are read (defaults to auto, which rejects day/month dates that could be read both ways)',
+        },
+        timezone: {
+          type: 'string',
+          example: 'America/Santiago',
+          description:
+            'IANA time zone of meeting dates without an explicit offset (defaults to UTC)',
+        },
       },
     },
   })
-  @ApiResponse({ status: 201, description: 'CSV uploaded and processed successfully' })
-  @ApiResponse({ status: 400, description: 'Invalid file format or no file uploaded' })
-  async uploadCsv(@UploadedFile() file: Express.Multer.File) {
+  @ApiResponse({ status: 202, description: 'Import job created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Unsupported file type or no file uploaded',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'File exceeds the upload size limit',
+  })
+  @ApiResponse({ status: 404, description: 'Import profile not found' })
+  async uploadCsv(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() options: UploadOptionsDto,
+  ) {
     if (!file) {
       throw new BadRequestException('No file uploaded');
     }
 
-    if (!file.originalname.endsWith('.csv')) {
-      throw new BadRequestException('Only CSV files are allowed');
-    }
+    const job = await this.clientImportsService.startImport(
+      file.originalname,
+      file.path,
+      options,
+    );
 
-    const csvContent = file.buffer.toString('utf-8');
-    const clients = this.csvProcessorService.parseCsvContent(csvContent);
+    return {
+      message: 'Import started',
+      importId: job.id,
+      status: job.status,
+    };
+  }
 
-    const result = await this.clientsService.createManyClients(clients);
+  @Post('upload/preview')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file'), DiscardUploadInterceptor)
+  @ApiOperation({
+    summary: 'Dry-run a client file upload without importing it',
+    description:
+      'Reads and validates the whole file with the same options as POST /clients/upload but writes nothing. Returns the detected encoding and delimiter, the first mapped rows (limit, default 20, max 100) with the outcome the selected mode would give them, counts of new and existing emails, and the first rejected and duplicate rows.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+        },
+        profileId: {
+          type: 'string',
+          format: 'uuid',
+          description:
+            'Import profile to map columns with (defaults to the Spanish headers)',
+        },
+        mode: {
+          type: 'string',
+          enum: Object.values(ImportModeEnum),
+          description:
+            'Import mode the row outcomes are computed for (defaults to insert-only)',
+        },
+        sheetName: {
+          type: 'string',
+          description: 'XLSX only: sheet to read (defaults to the first sheet)',
+        },
+        dateFormat: {
+          type: 'string',
+          enum: Object.values(DateFormatEnum),
+          description: 'How meeting dates are read (defaults to auto)',
+        },
+        timezone: {
+          type: 'string',
+          example: 'America/Santiago',
+          description:
+            'IANA time zone of meeting dates without an explicit offset (defaults to UTC)',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: IMPORT_CONSTANTS.PREVIEW_MAX_ROWS,
+          description: `Mapped rows to return (defaults to ${IMPORT_CONSTANTS.PREVIEW_DEFAULT_ROWS})`,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Preview generated; nothing was written',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'No file uploaded, unsupported or unreadable file, missing required columns or too many rows',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'File exceeds the upload size limit',
+  })
+  @ApiResponse({ status: 404, description: 'Import profile not found' })
+  async previewUpload(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() options: ImportPreviewOptionsDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
 
-    const updatedMetrics = await this.overviewService.getOverview();
+    return this.clientImportsService.previewImport(
+      file.originalname,
+      file.path,
+      options,
+    );
+  }
 
-    return {
-      message: 'CSV uploaded and processed successfully',
-      clientsCreated: result.count,
-      metrics: updatedMetrics,
-    };
+  @Get('imports')
+  @ApiOperation({
+    summary: 'List import jobs, most recent first',
+    description:
+      'Returns status and progress only; get a single import for its report.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import jobs retrieved successfully',
+  })
+  async listImports(@Query() query: ImportListQueryDto) {
+    return this.clientImportsService.listImports(query);
+  }
+
+  @Get('imports/:id')
+  @ApiOperation({ summary: 'Get status, progress and report of an import job' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import job retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Import not found' })
+  async getImport(@Param('id') id: string) {
+    return this.clientImportsService.getImport(id);
   }
 
   @Get('metadata/unique-values')
   @ApiOperation({ summary: 'Get unique values for metadata fields' })
-  @ApiResponse({ status: 200, description: 'Unique values retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Unique values retrieved successfully',
+  })
   async getUniqueValues() {
     return this.clientsService.getUniqueValues();
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all clients with optional filters' })
+  @ApiOperation({
+    summary: 'Get all clients with optional filters',
+    description:
+      'Paginate with page/limit or with cursor, passing back the nextCursor/prevCursor of a previous page (same sort, no page). includeTotal=false skips counting the matches and returns total: null. search is a full-text query ("quoted phrase", prefix*); without a sort, matches come best ranked first with a highlighted transcription snippet.',
+  })
   @ApiResponse({ status: 200, description: 'Clients retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
   async findAll(@Query() filters: ClientFilterDto) {
     return this.clientsService.findAll(filters);
   }
 
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export the clients matching the listing filters',
+    description:
+      'Accepts the same filters as GET /clients plus format=csv|xlsx|json (default csv) and returns every matching client (no pagination) as a file download, including the LLM-extracted fields. List fields are joined with "; " in CSV and XLSX and kept as arrays in JSON.',
+  })
+  @ApiResponse({ status: 200, description: 'Export file streamed' })
+  @ApiResponse({ status: 400, description: 'Invalid filter or format' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async exportClients(@Query() query: ClientExportQueryDto) {
+    const { stream, contentType, fileName } =
+      await this.clientExportsService.exportClients(query);
+    return new StreamableFile(stream, {
+      type: contentType,
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+
+  @Get('trash')
+  @ApiOperation({
+    summary: 'List the clients in the trash',
+    description:
+      'Accepts the same filters and pagination as GET /clients; the most recently deleted clients come first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trashed clients retrieved successfully',
+  })
+  async findTrash(@Query() filters: ClientFilterDto) {
+    return this.clientsService.findTrash(filters);
+  }
+
+  @Delete('trash')
+  @ApiOperation({
+    summary: 'Permanently delete the clients in the trash',
+    description: `Removes every trashed client and its analysis logs. This cannot be undone, so the request must carry confirm=${CLIENT_CONSTANTS.PURGE_CONFIRMATION}.`,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trash purged successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        clients: { type: 'number', description: 'Number of clients deleted' },
+        analysisLogs: {
+          type: 'number',
+          description: 'Number of analysis logs deleted',
+        },
+        total: { type: 'number', description: 'Total records deleted' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or wrong confirmation token',
+  })
+  async purgeTrash(@Query() query: PurgeTrashDto) {
+    return this.clientsService.purgeTrash(query.confirm);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get a single client by ID' })
   @ApiResponse({ status: 200, description: 'Client retrieved successfully' })
@@ -88,33 +384,120 @@ export class ClientsController {
     return this.clientsService.findOne(id);
   }
 
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a single client',
+    description:
+      'Only the provided fields change. When the transcription changes the client is marked as unprocessed and categorized again in the background.',
+  })
+  @ApiResponse({ status: 200, description: 'Client updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid client data' })
+  @ApiResponse({ status: 404, description: 'Client not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Another client already uses this email',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateClientDto: UpdateClientDto,
+  ) {
+    const { client, transcriptionChanged } =
+      await this.clientsService.updateClient(id, updateClientDto);
+
+    if (transcriptionChanged) {
+      this.categorizationService.scheduleProcessing(client.id);
+    }
+
+    return client;
+  }
+
+  @Post(':id/stage')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Move a client to another pipeline stage',
+    description:
+      "The client's closed flag follows the outcome of the stage. The move is recorded in the stage history with the optional note.",
+  })
+  @ApiResponse({ status: 200, description: 'Client moved successfully' })
+  @ApiResponse({ status: 404, description: 'Client or stage not found' })
+  async moveToStage(@Param('id') id: string, @Body() dto: MoveClientStageDto) {
+    return this.clientsService.moveToStage(id, dto);
+  }
+
+  @Get(':id/stage-history')
+  @ApiOperation({
+    summary: 'Get the pipeline stage changes of a client, oldest first',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stage history retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Client not found' })
+  async getStageHistory(@Param('id') id: string) {
+    return this.clientsService.getStageHistory(id);
+  }
+
+  @Get(':id/analysis-history')
+  @ApiOperation({
+    summary:
+      'Get the AI categorizations and predictions of a client, newest first',
+    description:
+      'Each entry holds the prompt version, the answering model, the raw response, the parsed result, the latency and the token usage.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Analysis history retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Client not found' })
+  async getAnalysisHistory(
+    @Param('id') id: string,
+    @Query() query: AnalysisHistoryQueryDto,
+  ) {
+    return this.clientsService.getAnalysisHistory(id, query);
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a client from the trash' })
+  @ApiResponse({ status: 200, description: 'Client restored successfully' })
+  @ApiResponse({ status: 404, description: 'Client not found in the trash' })
+  async restore(@Param('id') id: string) {
+    return this.clientsService.restoreClient(id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Move a single client to the trash',
+    description:
+      'The client disappears from listings and analytics until it is restored or the trash is purged.',
+  })
+  @ApiResponse({ status: 204, description: 'Client moved to the trash' })
+  @ApiResponse({ status: 404, description: 'Client not found' })
+  async remove(@Param('id') id: string) {
+    await this.clientsService.removeClient(id);
+  }
+
   @Delete()
   @ApiOperation({
-    summary: 'Delete all clients and clear related tables',
+    summary: 'Move all clients to the trash',
     description:
-      'Deletes all clients and clears related tables (processing_batches, analysis_logs). This empties all tables but keeps the table structure intact. Use with caution - this deletes ALL data.',
+      'Moves every client to the trash. Nothing is erased: clients can be restored one by one, and only DELETE /clients/trash with the confirmation token removes them for good. Import history is kept.',
   })
   @ApiResponse({
     status: 200,
-    description: 'All tables cleared successfully',
+    description: 'All clients moved to the trash',
     schema: {
       type: 'object',
       properties: {
-        clients: { type: 'number', description: 'Number of clients deleted' },
-        processingBatches: {
+        clients: {
           type: 'number',
-          description: 'Number of processing batches deleted',
+          description: 'Number of clients moved to the trash',
         },
-        analysisLogs: {
-          type: 'number',
-          description: 'Number of analysis logs deleted',
-        },
-        total: { type: 'number', description: 'Total records deleted' },
       },
     },
   })
   async deleteAll() {
-    return this.clientsService.deleteAll();
+    return this.clientsService.removeAll();
   }
 }
-
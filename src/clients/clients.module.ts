@@ -1,13 +1,60 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { tmpdir } from 'os';
 import { ClientsController } from './clients.controller';
 import { ClientsService } from './clients.service';
 import { CsvProcessorService } from './csv-processor.service';
-import { OverviewModule } from '../analytics/overview/overview.module';
+import { ClientImportsService } from './client-imports.service';
+import { ClientExportsService } from './client-exports.service';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportProfilesController } from './import-profiles.controller';
+import { ImportFileParserService } from './import-file-parser.service';
+import { SegmentsService } from './segments.service';
+import { SegmentsController } from './segments.controller';
+import { PipelineStagesService } from './pipeline-stages.service';
+import { PipelineStagesController } from './pipeline-stages.controller';
+import { IMPORT_CONSTANTS } from '../common/constants';
+import { LlmModule } from '../llm/llm.module';
+import { SellersModule } from '../sellers/sellers.module';
 
 @Module({
-  imports: [OverviewModule],
-  controllers: [ClientsController],
-  providers: [ClientsService, CsvProcessorService],
+  imports: [
+    // Seller names of new, edited and imported clients are resolved to sellers
+    SellersModule,
+    // Edited transcriptions are re-categorized right away; LlmModule in turn depends on ClientsService
+    forwardRef(() => LlmModule),
+    // Uploads go to temporary files so large imports are streamed from disk instead of held in memory
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        dest: tmpdir(),
+        limits: {
+          fileSize:
+            (Number(configService.get('IMPORT_MAX_FILE_SIZE_MB')) ||
+              IMPORT_CONSTANTS.DEFAULT_MAX_FILE_SIZE_MB) *
+            1024 *
+            1024,
+        },
+      }),
+    }),
+  ],
+  controllers: [
+    ClientsController,
+    ImportProfilesController,
+    SegmentsController,
+    PipelineStagesController,
+  ],
+  providers: [
+    ClientsService,
+    CsvProcessorService,
+    ImportFileParserService,
+    ClientImportsService,
+    ClientExportsService,
+    ImportProfilesService,
+    SegmentsService,
+    PipelineStagesService,
+  ],
   exports: [ClientsService],
 })
 export class ClientsModule {}
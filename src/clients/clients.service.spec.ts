@@ -1,10 +1,21 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { ClientsService } from './clients.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateClientDto } from '../common/dto/client.dto';
-import { Client } from '@prisma/client';
-import { API_CONSTANTS } from '../common/constants';
+import { Client, Prisma } from '@prisma/client';
+import { API_CONSTANTS, CLIENT_CONSTANTS } from '../common/constants';
+import { CacheService } from '../common/services/cache.service';
+import { SegmentsService } from './segments.service';
+import { SellersService } from '../sellers/sellers.service';
+import { PipelineStagesService } from './pipeline-stages.service';
+import { toSellerKey } from '../common/utils/seller.utils';
+import { BulkClientActionEnum } from '../common/dto/clients';
+import { AnalysisActionEnum } from '../common/dto/llm';
 
 describe('ClientsService', () => {
   let service: ClientsService;
@@ -17,15 +28,72 @@ describe('ClientsService', () => {
       findMany: jest.fn(),
       findUnique: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       deleteMany: jest.fn(),
       count: jest.fn(),
     },
     analysisLog: {
       deleteMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    clientStageChange: {
+      findMany: jest.fn(),
     },
     processingBatch: {
       deleteMany: jest.fn(),
     },
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
+  };
+
+  const mockCacheService = {
+    clearAnalyticsCache: jest.fn(),
+  };
+
+  const mockSegmentsService = {
+    findOne: jest.fn(),
+  };
+
+  // Every name resolves to a seller named exactly as typed
+  const toSeller = (name: string) => ({ id: 'seller-1', name });
+  const mockSellersService = {
+    resolve: jest.fn((name: string) => Promise.resolve(toSeller(name))),
+    resolveNames: jest.fn((names: string[]) =>
+      Promise.resolve(
+        new Map(names.map((name) => [toSellerKey(name), toSeller(name)])),
+      ),
+    ),
+  };
+
+  const newStage = { id: 'stage-1', name: 'New', outcome: 'open' };
+  const wonStage = { id: 'stage-2', name: 'Won', outcome: 'won' };
+  const lostStage = { id: 'stage-3', name: 'Lost', outcome: 'lost' };
+  const stagesByName = new Map(
+    [newStage, wonStage, lostStage].map((stage) => [stage.name, stage]),
+  );
+  const pipeline = { defaultOpen: newStage, defaultWon: wonStage };
+  const stageOf = (stage: string | undefined, closed: boolean) =>
+    stage !== undefined
+      ? stagesByName.get(stage)
+      : closed
+        ? wonStage
+        : newStage;
+  const mockPipelineStagesService = {
+    findOne: jest.fn(),
+    loadPipeline: jest.fn(() => Promise.resolve(pipeline)),
+    stageFor: jest.fn(
+      (_pipeline: unknown, stage: string | undefined, closed: boolean) =>
+        stageOf(stage, closed),
+    ),
+    resolve: jest.fn((stage: string | undefined, closed: boolean) => {
+      const resolved = stageOf(stage, closed);
+      return resolved
+        ? Promise.resolve(resolved)
+        : Promise.reject(
+            new BadRequestException(`Unknown pipeline stage ${stage}`),
+          );
+    }),
   };
 
   beforeEach(async () => {
@@ -36,6 +104,22 @@ describe('ClientsService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: SegmentsService,
+          useValue: mockSegmentsService,
+        },
+        {
+          provide: SellersService,
+          useValue: mockSellersService,
+        },
+        {
+          provide: PipelineStagesService,
+          useValue: mockPipelineStagesService,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
       ],
     }).compile();
 
@@ -62,7 +146,11 @@ describe('ClientsService', () => {
       const expectedClient: Client = {
         id: '1',
         ...createClientDto,
+        sellerId: 'seller-1',
+        stageId: 'stage-1',
         meetingDate: new Date(createClientDto.meetingDate),
+        dealAmount: null,
+        currency: null,
         industry: null,
         operationSize: null,
         interactionVolume: null,
@@ -72,12 +160,17 @@ describe('ClientsService', () => {
         painPoints: [],
         technicalRequirements: [],
         sentiment: null,
+        tags: [],
         processed: false,
         processedAt: null,
+        categorizationStatus: null,
+        categorizationPromptVersion: null,
+        deletedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
+      mockPrismaService.client.findUnique.mockResolvedValue(null);
       mockPrismaService.client.create.mockResolvedValue(expectedClient);
 
       const result = await service.createClient(createClientDto);
@@ -89,11 +182,82 @@ describe('ClientsService', () => {
           email: createClientDto.email,
           phone: createClientDto.phone,
           assignedSeller: createClientDto.assignedSeller,
+          sellerId: 'seller-1',
           meetingDate: new Date(createClientDto.meetingDate),
+          stageId: 'stage-1',
           closed: createClientDto.closed,
           transcription: createClientDto.transcription,
         },
       });
+      expect(mockPrismaService.client.findUnique).toHaveBeenCalledWith({
+        where: { email: 'john@example.com' },
+      });
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when the email is already used', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue({
+        id: 'other',
+        email: 'john@example.com',
+      });
+
+      await expect(
+        service.createClient({
+          name: 'John Doe',
+          email: 'john@example.com',
+          phone: '123456789',
+          assignedSeller: 'Seller 1',
+          meetingDate: '2024-01-15T10:00:00Z',
+          closed: false,
+          transcription: 'Test transcription',
+        }),
+      ).rejects.toThrow('Client with email john@example.com already exists');
+      expect(mockPrismaService.client.create).not.toHaveBeenCalled();
+    });
+
+    it('should point to the trash when the email belongs to a deleted client', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue({
+        id: 'other',
+        email: 'john@example.com',
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.createClient({
+          name: 'John Doe',
+          email: 'john@example.com',
+          phone: '123456789',
+          assignedSeller: 'Seller 1',
+          meetingDate: '2024-01-15T10:00:00Z',
+          closed: false,
+          transcription: 'Test transcription',
+        }),
+      ).rejects.toThrow(
+        'Client with email john@example.com is in the trash; restore it instead',
+      );
+    });
+
+    it('should store a deal amount given without a currency in the default currency', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(null);
+      mockPrismaService.client.create.mockResolvedValue({ id: '1' });
+
+      await service.createClient({
+        name: 'John Doe',
+        email: 'john@example.com',
+        phone: '123456789',
+        assignedSeller: 'Seller 1',
+        meetingDate: '2024-01-15T10:00:00Z',
+        closed: false,
+        transcription: 'Test transcription',
+        dealAmount: 12000.5,
+      });
+
+      expect(
+        mockPrismaService.client.create.mock.calls[0][0].data,
+      ).toMatchObject({
+        dealAmount: 12000.5,
+        currency: CLIENT_CONSTANTS.DEFAULT_CURRENCY,
+      });
     });
   });
 
@@ -140,6 +304,106 @@ describe('ClientsService', () => {
         skipDuplicates: true,
       });
     });
+
+    it('should store the resolved seller of each client', async () => {
+      mockSellersService.resolveNames.mockResolvedValueOnce(
+        new Map([['toro', { id: 'seller-7', name: 'Toro' }]]),
+      );
+      mockPrismaService.client.createMany.mockResolvedValue({ count: 1 });
+
+      await service.createManyClients([
+        {
+          name: 'Client 1',
+          email: 'client1@example.com',
+          phone: '111',
+          assignedSeller: ' toro ',
+          meetingDate: '2024-01-15T10:00:00Z',
+          closed: false,
+          transcription: 'Transcription 1',
+        },
+      ]);
+
+      expect(mockSellersService.resolveNames).toHaveBeenCalledWith([' toro ']);
+      expect(
+        mockPrismaService.client.createMany.mock.calls[0][0].data[0],
+      ).toMatchObject({
+        assignedSeller: 'Toro',
+        sellerId: 'seller-7',
+      });
+    });
+    it('should reject an unknown stage before creating anything', async () => {
+      await expect(
+        service.createManyClients([
+          {
+            name: 'Client 1',
+            email: 'client1@example.com',
+            phone: '111',
+            assignedSeller: 'Seller 1',
+            meetingDate: '2024-01-15T10:00:00Z',
+            closed: false,
+            stage: 'Demo',
+            transcription: 'Transcription 1',
+          },
+        ]),
+      ).rejects.toThrow('Unknown pipeline stage Demo');
+      expect(mockPrismaService.client.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateManyClients', () => {
+    it('should update all clients in one transaction and invalidate the cache', async () => {
+      mockPrismaService.client.update.mockImplementation((args) => args);
+      mockPrismaService.$transaction.mockResolvedValue([]);
+
+      const result = await service.updateManyClients([
+        { id: '1', data: { closed: true } },
+        {
+          id: '2',
+          data: { transcription: 'New', processed: false, processedAt: null },
+        },
+      ]);
+
+      expect(result).toBe(2);
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith([
+        { where: { id: '1' }, data: { closed: true } },
+        {
+          where: { id: '2' },
+          data: { transcription: 'New', processed: false, processedAt: null },
+        },
+      ]);
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should not open a transaction when there is nothing to update', async () => {
+      const result = await service.updateManyClients([]);
+
+      expect(result).toBe(0);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findByEmails', () => {
+    it('should return the clients matching the given emails', async () => {
+      const existing = [{ id: '1', email: 'client1@example.com' }];
+      mockPrismaService.client.findMany.mockResolvedValue(existing);
+
+      const result = await service.findByEmails([
+        'client1@example.com',
+        'new@example.com',
+      ]);
+
+      expect(result).toEqual(existing);
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where: { email: { in: ['client1@example.com', 'new@example.com'] } },
+      });
+    });
+
+    it('should not query the database when no emails are given', async () => {
+      const result = await service.findByEmails([]);
+
+      expect(result).toEqual([]);
+      expect(mockPrismaService.client.findMany).not.toHaveBeenCalled();
+    });
   });
 
   describe('findAll', () => {
@@ -151,9 +415,13 @@ describe('ClientsService', () => {
           email: 'client1@example.com',
           phone: '111',
           assignedSeller: 'Seller 1',
+          sellerId: 'seller-1',
+          stageId: 'stage-1',
           meetingDate: new Date('2024-01-15'),
           closed: false,
           transcription: 'Transcription 1',
+          dealAmount: null,
+          currency: null,
           industry: null,
           operationSize: null,
           interactionVolume: null,
@@ -163,8 +431,12 @@ describe('ClientsService', () => {
           painPoints: [],
           technicalRequirements: [],
           sentiment: null,
+          tags: [],
           processed: false,
           processedAt: null,
+          categorizationStatus: null,
+          categorizationPromptVersion: null,
+          deletedAt: null,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -180,10 +452,10 @@ describe('ClientsService', () => {
       expect(result.page).toBe(API_CONSTANTS.PAGINATION.DEFAULT_PAGE);
       expect(result.limit).toBe(API_CONSTANTS.PAGINATION.DEFAULT_LIMIT);
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
-        where: {},
+        where: { deletedAt: null },
         skip: 0,
-        take: API_CONSTANTS.PAGINATION.DEFAULT_LIMIT,
-        orderBy: { meetingDate: 'desc' },
+        take: API_CONSTANTS.PAGINATION.DEFAULT_LIMIT + 1,
+        orderBy: [{ meetingDate: 'desc' }, { id: 'desc' }],
       });
     });
 
@@ -197,30 +469,30 @@ describe('ClientsService', () => {
       expect(result.page).toBe(2);
       expect(result.limit).toBe(10);
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
-        where: {},
+        where: { deletedAt: null },
         skip: 10,
-        take: 10,
-        orderBy: { meetingDate: 'desc' },
+        take: 11,
+        orderBy: [{ meetingDate: 'desc' }, { id: 'desc' }],
       });
     });
 
     it('should filter by assignedSeller', async () => {
-      const filters = { assignedSeller: 'Seller 1' };
+      const filters = { assignedSeller: ['Seller 1'] };
       mockPrismaService.client.findMany.mockResolvedValue([]);
       mockPrismaService.client.count.mockResolvedValue(0);
 
       await service.findAll(filters);
 
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
-        where: { assignedSeller: 'Seller 1' },
+        where: { assignedSeller: 'Seller 1', deletedAt: null },
         skip: 0,
-        take: API_CONSTANTS.PAGINATION.DEFAULT_LIMIT,
-        orderBy: { meetingDate: 'desc' },
+        take: API_CONSTANTS.PAGINATION.DEFAULT_LIMIT + 1,
+        orderBy: [{ meetingDate: 'desc' }, { id: 'desc' }],
       });
     });
 
     it('should filter by industry', async () => {
-      const filters = { industry: 'Technology' };
+      const filters = { industry: ['Technology'] };
       mockPrismaService.client.findMany.mockResolvedValue([]);
       mockPrismaService.client.count.mockResolvedValue(0);
 
@@ -228,7 +500,7 @@ describe('ClientsService', () => {
 
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { industry: 'Technology' },
+          where: { industry: 'Technology', deletedAt: null },
         }),
       );
     });
@@ -242,13 +514,13 @@ describe('ClientsService', () => {
 
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { closed: true },
+          where: { closed: true, deletedAt: null },
         }),
       );
     });
 
     it('should filter by sentiment', async () => {
-      const filters = { sentiment: 'positive' };
+      const filters = { sentiment: ['positive'] };
       mockPrismaService.client.findMany.mockResolvedValue([]);
       mockPrismaService.client.count.mockResolvedValue(0);
 
@@ -256,13 +528,13 @@ describe('ClientsService', () => {
 
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { sentiment: 'positive' },
+          where: { sentiment: 'positive', deletedAt: null },
         }),
       );
     });
 
     it('should filter by discoverySource', async () => {
-      const filters = { discoverySource: 'LinkedIn' };
+      const filters = { discoverySource: ['LinkedIn'] };
       mockPrismaService.client.findMany.mockResolvedValue([]);
       mockPrismaService.client.count.mockResolvedValue(0);
 
@@ -270,35 +542,31 @@ describe('ClientsService', () => {
 
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { discoverySource: 'LinkedIn' },
+          where: { discoverySource: 'LinkedIn', deletedAt: null },
         }),
       );
     });
 
-    it('should search across name, email, and transcription', async () => {
-      const filters = { search: 'test' };
+    it('should restrict a search to its full-text matches', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        { id: '1', rank: 0.5 },
+      ]);
       mockPrismaService.client.findMany.mockResolvedValue([]);
       mockPrismaService.client.count.mockResolvedValue(0);
 
-      await service.findAll(filters);
+      await service.findAll({ search: 'test', sort: 'name:asc' });
 
       expect(mockPrismaService.client.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: {
-            OR: [
-              { name: { contains: 'test', mode: 'insensitive' } },
-              { email: { contains: 'test', mode: 'insensitive' } },
-              { transcription: { contains: 'test', mode: 'insensitive' } },
-            ],
-          },
+          where: { id: { in: ['1'] }, deletedAt: null },
         }),
       );
     });
 
     it('should apply multiple filters simultaneously', async () => {
       const filters = {
-        assignedSeller: 'Seller 1',
-        industry: 'Technology',
+        assignedSeller: ['Seller 1'],
+        industry: ['Technology'],
         closed: true,
         page: 1,
         limit: 5,
@@ -313,14 +581,75 @@ describe('ClientsService', () => {
           assignedSeller: 'Seller 1',
           industry: 'Technology',
           closed: true,
+          deletedAt: null,
         },
         skip: 0,
-        take: 5,
-        orderBy: { meetingDate: 'desc' },
+        take: 6,
+        orderBy: [{ meetingDate: 'desc' }, { id: 'desc' }],
       });
     });
   });
 
+  describe('streamClients', () => {
+    const collect = async (generator: AsyncGenerator<unknown[]>) => {
+      const batches: unknown[][] = [];
+      for await (const batch of generator) {
+        batches.push(batch);
+      }
+      return batches;
+    };
+
+    it('should read matching clients in batches using the last client as cursor', async () => {
+      mockPrismaService.client.findMany
+        .mockResolvedValueOnce([{ id: '1' }, { id: '2' }])
+        .mockResolvedValueOnce([{ id: '3' }]);
+
+      const batches = await collect(
+        await service.streamClients(
+          { industry: ['Retail'], page: 3, limit: 5 },
+          2,
+        ),
+      );
+
+      const where = { industry: 'Retail', deletedAt: null };
+      expect(batches).toEqual([[{ id: '1' }, { id: '2' }], [{ id: '3' }]]);
+      expect(mockPrismaService.client.findMany).toHaveBeenNthCalledWith(1, {
+        where,
+        orderBy: [{ meetingDate: 'desc' }, { id: 'desc' }],
+        take: 2,
+      });
+      expect(mockPrismaService.client.findMany).toHaveBeenNthCalledWith(2, {
+        where,
+        orderBy: [{ meetingDate: 'desc' }, { id: 'desc' }],
+        take: 2,
+        cursor: { id: '2' },
+        skip: 1,
+      });
+    });
+
+    it('should stop on an empty batch', async () => {
+      mockPrismaService.client.findMany
+        .mockResolvedValueOnce([{ id: '1' }, { id: '2' }])
+        .mockResolvedValueOnce([]);
+
+      const batches = await collect(await service.streamClients({}, 2));
+
+      expect(batches).toEqual([[{ id: '1' }, { id: '2' }]]);
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject an unknown segment before returning the batches', async () => {
+      mockSegmentsService.findOne.mockRejectedValueOnce(
+        new NotFoundException('Segment with ID missing not found'),
+      );
+
+      await expect(
+        service.streamClients({ segmentId: 'missing' }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.client.findMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe('findOne', () => {
     it('should return a client when found', async () => {
       const clientId = '1';
@@ -330,9 +659,13 @@ describe('ClientsService', () => {
         email: 'john@example.com',
         phone: '123456789',
         assignedSeller: 'Seller 1',
+        sellerId: 'seller-1',
+        stageId: 'stage-1',
         meetingDate: new Date('2024-01-15'),
         closed: false,
         transcription: 'Test transcription',
+        dealAmount: null,
+        currency: null,
         industry: null,
         operationSize: null,
         interactionVolume: null,
@@ -342,8 +675,12 @@ describe('ClientsService', () => {
         painPoints: [],
         technicalRequirements: [],
         sentiment: null,
+        tags: [],
         processed: false,
         processedAt: null,
+        categorizationStatus: null,
+        categorizationPromptVersion: null,
+        deletedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -354,7 +691,7 @@ describe('ClientsService', () => {
 
       expect(result).toEqual(mockClient);
       expect(mockPrismaService.client.findUnique).toHaveBeenCalledWith({
-        where: { id: clientId },
+        where: { id: clientId, deletedAt: null },
       });
     });
 
@@ -362,7 +699,9 @@ describe('ClientsService', () => {
       const clientId = 'non-existent';
       mockPrismaService.client.findUnique.mockResolvedValue(null);
 
-      await expect(service.findOne(clientId)).rejects.toThrow(NotFoundException);
+      await expect(service.findOne(clientId)).rejects.toThrow(
+        NotFoundException,
+      );
       await expect(service.findOne(clientId)).rejects.toThrow(
         `Client with ID ${clientId} not found`,
       );
@@ -370,188 +709,1475 @@ describe('ClientsService', () => {
   });
 
   describe('updateClient', () => {
-    it('should update a client successfully', async () => {
-      const clientId = '1';
-      const updateData = { closed: true };
-      const updatedClient: Client = {
-        id: clientId,
-        name: 'John Doe',
-        email: 'john@example.com',
-        phone: '123456789',
-        assignedSeller: 'Seller 1',
-        meetingDate: new Date('2024-01-15'),
-        closed: true,
-        transcription: 'Test transcription',
-        industry: null,
-        operationSize: null,
-        interactionVolume: null,
-        discoverySource: null,
-        mainMotivation: null,
-        urgencyLevel: null,
-        painPoints: [],
-        technicalRequirements: [],
-        sentiment: null,
-        processed: false,
-        processedAt: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
+    const storedClient: Client = {
+      id: '1',
+      name: 'John Doe',
+      email: 'john@example.com',
+      phone: '123456789',
+      assignedSeller: 'Seller 1',
+      sellerId: 'seller-1',
+      stageId: 'stage-1',
+      meetingDate: new Date('2024-01-15'),
+      closed: false,
+      transcription: 'Test transcription',
+      dealAmount: null,
+      currency: null,
+      industry: 'Retail',
+      operationSize: null,
+      interactionVolume: null,
+      discoverySource: null,
+      mainMotivation: null,
+      urgencyLevel: null,
+      painPoints: [],
+      technicalRequirements: [],
+      sentiment: null,
+      tags: [],
+      processed: true,
+      processedAt: new Date('2024-01-16'),
+      categorizationStatus: 'valid',
+      categorizationPromptVersion: 'categorization@1',
+      deletedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should update only the provided fields and invalidate the cache', async () => {
+      const updatedClient = { ...storedClient, industry: 'Finance' };
+      mockPrismaService.client.findUnique.mockResolvedValue(storedClient);
       mockPrismaService.client.update.mockResolvedValue(updatedClient);
 
-      const result = await service.updateClient(clientId, updateData);
+      const result = await service.updateClient('1', { industry: 'Finance' });
 
-      expect(result).toEqual(updatedClient);
+      expect(result).toEqual({
+        client: updatedClient,
+        transcriptionChanged: false,
+      });
       expect(mockPrismaService.client.update).toHaveBeenCalledWith({
-        where: { id: clientId },
-        data: updateData,
+        where: { id: '1' },
+        data: { industry: 'Finance', meetingDate: undefined },
       });
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
     });
-  });
 
-  describe('deleteAll', () => {
-    it('should clear all tables successfully', async () => {
-      const mockAnalysisLogsResult = { count: 10 };
-      const mockProcessingBatchesResult = { count: 5 };
-      const mockClientsResult = { count: 100 };
-
-      mockPrismaService.analysisLog.deleteMany.mockResolvedValue(
-        mockAnalysisLogsResult,
-      );
-      mockPrismaService.processingBatch.deleteMany.mockResolvedValue(
-        mockProcessingBatchesResult,
-      );
-      mockPrismaService.client.deleteMany.mockResolvedValue(mockClientsResult);
+    it('should move a client marked closed to the first won stage and record the change', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(storedClient);
+      mockPrismaService.client.update.mockResolvedValue({
+        ...storedClient,
+        stageId: 'stage-2',
+        closed: true,
+      });
 
-      const result = await service.deleteAll();
+      await service.updateClient('1', { closed: true });
 
-      expect(result).toEqual({
-        clients: 100,
-        processingBatches: 5,
-        analysisLogs: 10,
-        total: 115,
+      expect(mockPrismaService.client.update.mock.calls[0][0].data).toEqual({
+        meetingDate: undefined,
+        stage: { connect: { id: 'stage-2' } },
+        closed: true,
+        stageChanges: {
+          create: { fromStageId: 'stage-1', toStageId: 'stage-2' },
+        },
       });
-      expect(mockPrismaService.analysisLog.deleteMany).toHaveBeenCalledWith({});
-      expect(
-        mockPrismaService.processingBatch.deleteMany,
-      ).toHaveBeenCalledWith({});
-      expect(mockPrismaService.client.deleteMany).toHaveBeenCalledWith({});
     });
 
-    it('should return zeros when all tables are already empty', async () => {
-      const mockAnalysisLogsResult = { count: 0 };
-      const mockProcessingBatchesResult = { count: 0 };
-      const mockClientsResult = { count: 0 };
+    it('should let the stage decide the closed flag', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(storedClient);
+      mockPrismaService.client.update.mockResolvedValue(storedClient);
 
-      mockPrismaService.analysisLog.deleteMany.mockResolvedValue(
-        mockAnalysisLogsResult,
-      );
-      mockPrismaService.processingBatch.deleteMany.mockResolvedValue(
-        mockProcessingBatchesResult,
-      );
-      mockPrismaService.client.deleteMany.mockResolvedValue(mockClientsResult);
+      await service.updateClient('1', { stage: 'Lost', closed: true });
+
+      expect(
+        mockPrismaService.client.update.mock.calls[0][0].data,
+      ).toMatchObject({
+        stage: { connect: { id: 'stage-3' } },
+        closed: false,
+      });
+    });
 
-      const result = await service.deleteAll();
+    it('should keep the stage when the closed flag does not change', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(storedClient);
+      mockPrismaService.client.update.mockResolvedValue(storedClient);
 
-      expect(result).toEqual({
-        clients: 0,
-        processingBatches: 0,
-        analysisLogs: 0,
-        total: 0,
+      await service.updateClient('1', { closed: false, stage: undefined });
+
+      expect(mockPrismaService.client.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: { meetingDate: undefined },
       });
     });
-  });
 
-  describe('getUnprocessedClients', () => {
-    it('should return unprocessed clients', async () => {
-      const mockClients: Client[] = [
-        {
-          id: '1',
-          name: 'Client 1',
-          email: 'client1@example.com',
-          phone: '111',
-          assignedSeller: 'Seller 1',
-          meetingDate: new Date('2024-01-15'),
-          closed: false,
-          transcription: 'Transcription 1',
-          industry: null,
-          operationSize: null,
-          interactionVolume: null,
-          discoverySource: null,
-          mainMotivation: null,
-          urgencyLevel: null,
-          painPoints: [],
-          technicalRequirements: [],
-          sentiment: null,
-          processed: false,
-          processedAt: null,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-      ];
+    it('should throw BadRequestException for an unknown stage', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(storedClient);
 
-      mockPrismaService.client.findMany.mockResolvedValue(mockClients);
+      await expect(
+        service.updateClient('1', { stage: 'Demo' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.client.update).not.toHaveBeenCalled();
+    });
 
-      const result = await service.getUnprocessedClients();
+    it('should reassign the client to the resolved seller', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(storedClient);
+      mockPrismaService.client.update.mockResolvedValue(storedClient);
+      mockSellersService.resolve.mockResolvedValueOnce({
+        id: 'seller-2',
+        name: 'Seller 2',
+      });
 
-      expect(result).toEqual(mockClients);
-      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
-        where: { processed: false },
+      await service.updateClient('1', { assignedSeller: 'seller 2' });
+
+      expect(mockPrismaService.client.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: {
+          meetingDate: undefined,
+          assignedSeller: 'Seller 2',
+          seller: { connect: { id: 'seller-2' } },
+        },
       });
     });
-  });
 
-  describe('markAsProcessed', () => {
-    it('should mark client as processed with categorized data', async () => {
-      const clientId = '1';
-      const categorizedData = {
-        industry: 'Technology',
-        sentiment: 'positive',
-        operationSize: 'large',
-      };
-      const updatedClient: Client = {
-        id: clientId,
-        name: 'John Doe',
-        email: 'john@example.com',
-        phone: '123456789',
-        assignedSeller: 'Seller 1',
-        meetingDate: new Date('2024-01-15'),
-        closed: false,
-        transcription: 'Test transcription',
-        industry: 'Technology',
-        operationSize: 'large',
-        interactionVolume: null,
-        discoverySource: null,
-        mainMotivation: null,
-        urgencyLevel: null,
-        painPoints: [],
-        technicalRequirements: [],
-        sentiment: 'positive',
-        processed: true,
-        processedAt: expect.any(Date),
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+    it('should convert the meeting date and keep the processed flag when the transcription is unchanged', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(storedClient);
+      mockPrismaService.client.update.mockResolvedValue(storedClient);
 
-      mockPrismaService.client.update.mockResolvedValue(updatedClient);
+      const result = await service.updateClient('1', {
+        meetingDate: '2024-02-01T10:00:00Z',
+        transcription: 'Test transcription',
+      });
 
-      const result = await service.markAsProcessed(clientId, categorizedData);
+      expect(result.transcriptionChanged).toBe(false);
 
-      expect(result).toEqual(updatedClient);
       expect(mockPrismaService.client.update).toHaveBeenCalledWith({
-        where: { id: clientId },
+        where: { id: '1' },
         data: {
-          ...categorizedData,
-          processed: true,
-          processedAt: expect.any(Date),
+          meetingDate: new Date('2024-02-01T10:00:00Z'),
+          transcription: 'Test transcription',
         },
       });
     });
-  });
 
-  describe('getUniqueValues', () => {
-    it('should return unique values for all metadata fields', async () => {
-      const mockClients = [
+    it('should default the currency of a first deal amount', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(storedClient);
+      mockPrismaService.client.update.mockResolvedValue(storedClient);
+
+      await service.updateClient('1', { dealAmount: 5000 });
+
+      expect(
+        mockPrismaService.client.update.mock.calls[0][0].data,
+      ).toMatchObject({ dealAmount: 5000, currency: 'USD' });
+    });
+
+    it('should keep the stored currency when only the amount changes', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue({
+        ...storedClient,
+        dealAmount: new Prisma.Decimal(100),
+        currency: 'CLP',
+      });
+      mockPrismaService.client.update.mockResolvedValue(storedClient);
+
+      await service.updateClient('1', { dealAmount: 5000 });
+
+      expect(
+        mockPrismaService.client.update.mock.calls[0][0].data.currency,
+      ).toBeUndefined();
+    });
+
+    it('should mark the client as unprocessed when the transcription changes', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(storedClient);
+      mockPrismaService.client.update.mockResolvedValue({
+        ...storedClient,
+        processed: false,
+      });
+
+      const result = await service.updateClient('1', {
+        transcription: 'New transcription',
+      });
+
+      expect(result.transcriptionChanged).toBe(true);
+      expect(mockPrismaService.client.update.mock.calls[0][0].data).toEqual({
+        transcription: 'New transcription',
+        meetingDate: undefined,
+        processed: false,
+        processedAt: null,
+      });
+    });
+
+    it('should throw ConflictException when the new email belongs to another client', async () => {
+      mockPrismaService.client.findUnique
+        .mockResolvedValueOnce(storedClient)
+        .mockResolvedValueOnce({
+          ...storedClient,
+          id: '2',
+          email: 'jane@example.com',
+        });
+
+      await expect(
+        service.updateClient('1', { email: 'jane@example.com' }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.client.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the client does not exist', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.updateClient('missing', { closed: true }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.client.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moveToStage', () => {
+    const storedClient = {
+      id: '1',
+      stageId: 'stage-1',
+      closed: false,
+      deletedAt: null,
+    };
+
+    it('should move the client and record the change with its note', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValueOnce(storedClient);
+      mockPipelineStagesService.findOne.mockResolvedValueOnce(wonStage);
+      mockPrismaService.client.update.mockResolvedValueOnce({
+        ...storedClient,
+        stageId: 'stage-2',
+        closed: true,
+      });
+
+      const result = await service.moveToStage('1', {
+        stageId: 'stage-2',
+        note: 'Signed',
+      });
+
+      expect(result).toMatchObject({ stageId: 'stage-2', closed: true });
+      expect(mockPrismaService.client.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: {
+          stage: { connect: { id: 'stage-2' } },
+          closed: true,
+          stageChanges: {
+            create: {
+              fromStageId: 'stage-1',
+              toStageId: 'stage-2',
+              note: 'Signed',
+            },
+          },
+        },
+      });
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should leave a client already in the stage untouched', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValueOnce(storedClient);
+      mockPipelineStagesService.findOne.mockResolvedValueOnce(newStage);
+
+      const result = await service.moveToStage('1', { stageId: 'stage-1' });
+
+      expect(result).toBe(storedClient);
+      expect(mockPrismaService.client.update).not.toHaveBeenCalled();
+      expect(mockCacheService.clearAnalyticsCache).not.toHaveBeenCalled();
+    });
+
+    it('should propagate a missing stage', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValueOnce(storedClient);
+      mockPipelineStagesService.findOne.mockRejectedValueOnce(
+        new NotFoundException(),
+      );
+
+      await expect(
+        service.moveToStage('1', { stageId: 'missing' }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.client.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStageHistory', () => {
+    it('should list the stage changes of the client with the stage names, oldest first', async () => {
+      const changedAt = new Date('2024-02-01');
+      mockPrismaService.client.findUnique.mockResolvedValueOnce({
+        id: '1',
+        deletedAt: null,
+      });
+      mockPrismaService.clientStageChange.findMany.mockResolvedValueOnce([
+        {
+          id: 'change-1',
+          clientId: '1',
+          fromStageId: 'stage-1',
+          fromStage: { name: 'New' },
+          toStageId: 'stage-2',
+          toStage: { name: 'Won' },
+          note: null,
+          changedAt,
+        },
+      ]);
+
+      const result = await service.getStageHistory('1');
+
+      expect(result).toEqual([
+        {
+          id: 'change-1',
+          fromStageId: 'stage-1',
+          fromStage: 'New',
+          toStageId: 'stage-2',
+          toStage: 'Won',
+          note: null,
+          changedAt,
+        },
+      ]);
+      expect(mockPrismaService.clientStageChange.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { clientId: '1' },
+          orderBy: { changedAt: 'asc' },
+        }),
+      );
+    });
+
+    it('should throw NotFoundException when the client does not exist', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.getStageHistory('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getAnalysisHistory', () => {
+    it('should list the analysis log entries of the client, newest first', async () => {
+      const entry = {
+        id: 'log-1',
+        action: 'categorization',
+        promptVersion: 'categorization@1',
+        model: 'claude-3-haiku-20240307',
+        rawResponse: '{"industry": "Retail"}',
+        result: { attempt: 1, categorization: { industry: 'Retail' } },
+        latencyMs: 1350,
+        inputTokens: 900,
+        outputTokens: 120,
+        executedAt: new Date('2024-02-01'),
+      };
+      mockPrismaService.client.findUnique.mockResolvedValueOnce({
+        id: '1',
+        deletedAt: null,
+      });
+      mockPrismaService.analysisLog.findMany.mockResolvedValueOnce([entry]);
+
+      const result = await service.getAnalysisHistory('1');
+
+      expect(result).toEqual([entry]);
+      expect(mockPrismaService.analysisLog.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { clientId: '1' },
+          orderBy: [{ executedAt: 'desc' }, { id: 'desc' }],
+        }),
+      );
+    });
+
+    it('should filter by action', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValueOnce({
+        id: '1',
+        deletedAt: null,
+      });
+      mockPrismaService.analysisLog.findMany.mockResolvedValueOnce([]);
+
+      await service.getAnalysisHistory('1', {
+        action: AnalysisActionEnum.PREDICTION,
+      });
+
+      expect(
+        mockPrismaService.analysisLog.findMany.mock.calls[0][0].where,
+      ).toEqual({ clientId: '1', action: 'prediction' });
+    });
+
+    it('should throw NotFoundException when the client does not exist', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.getAnalysisHistory('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.analysisLog.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeClient', () => {
+    it('should move the client to the trash', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue({
+        id: '1',
+        deletedAt: null,
+      });
+      mockPrismaService.client.update.mockResolvedValue({
+        id: '1',
+        deletedAt: new Date(),
+      });
+
+      await service.removeClient('1');
+
+      expect(mockPrismaService.client.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.analysisLog.deleteMany).not.toHaveBeenCalled();
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the client does not exist or is already in the trash', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(null);
+
+      await expect(service.removeClient('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.client.findUnique).toHaveBeenCalledWith({
+        where: { id: 'missing', deletedAt: null },
+      });
+      expect(mockPrismaService.client.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeAll', () => {
+    it('should move every active client to the trash', async () => {
+      mockPrismaService.client.updateMany.mockResolvedValue({ count: 100 });
+
+      const result = await service.removeAll();
+
+      expect(result).toEqual({ clients: 100 });
+      expect(mockPrismaService.client.updateMany).toHaveBeenCalledWith({
+        where: { deletedAt: null },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.client.deleteMany).not.toHaveBeenCalled();
+      expect(
+        mockPrismaService.processingBatch.deleteMany,
+      ).not.toHaveBeenCalled();
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should not invalidate the cache when there is nothing to move', async () => {
+      mockPrismaService.client.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.removeAll();
+
+      expect(result).toEqual({ clients: 0 });
+      expect(mockCacheService.clearAnalyticsCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll filters and sort', () => {
+    const whereOf = () =>
+      mockPrismaService.client.findMany.mock.calls[0][0].where;
+    const orderOf = () =>
+      mockPrismaService.client.findMany.mock.calls[0][0].orderBy;
+
+    beforeEach(() => {
+      mockPrismaService.client.findMany.mockResolvedValue([]);
+      mockPrismaService.client.count.mockResolvedValue(0);
+    });
+
+    it('should match any of several values with IN', async () => {
+      await service.findAll({
+        industry: ['Retail', 'Technology'],
+        urgencyLevel: ['immediate'],
+        operationSize: ['small', 'large'],
+      });
+
+      expect(whereOf()).toEqual({
+        industry: { in: ['Retail', 'Technology'] },
+        urgencyLevel: 'immediate',
+        operationSize: { in: ['small', 'large'] },
+        deletedAt: null,
+      });
+    });
+
+    it('should filter by processed status and list entries', async () => {
+      await service.findAll({
+        processed: false,
+        painPoint: ['High workload'],
+        technicalRequirement: ['API integration', 'SSO'],
+      });
+
+      expect(whereOf()).toEqual({
+        processed: false,
+        painPoints: { hasSome: ['High workload'] },
+        technicalRequirements: { hasSome: ['API integration', 'SSO'] },
+        deletedAt: null,
+      });
+    });
+
+    it('should filter by categorization status', async () => {
+      await service.findAll({
+        processed: true,
+        categorizationStatus: ['fallback'],
+      });
+
+      expect(whereOf()).toEqual({
+        processed: true,
+        categorizationStatus: 'fallback',
+        deletedAt: null,
+      });
+    });
+
+    it('should filter by tags', async () => {
+      await service.findAll({ tag: ['vip', 'follow-up'] });
+
+      expect(whereOf()).toEqual({
+        tags: { hasSome: ['vip', 'follow-up'] },
+        deletedAt: null,
+      });
+    });
+
+    it('should include the whole last day of a date-only meeting date range', async () => {
+      await service.findAll({
+        meetingDateFrom: '2024-01-01',
+        meetingDateTo: '2024-03-31',
+      });
+
+      expect(whereOf().meetingDate).toEqual({
+        gte: new Date('2024-01-01T00:00:00Z'),
+        lt: new Date('2024-04-01T00:00:00Z'),
+      });
+    });
+
+    it('should use an inclusive bound when the meeting date range has a time', async () => {
+      await service.findAll({ meetingDateTo: '2024-03-31T12:00:00Z' });
+
+      expect(whereOf().meetingDate).toEqual({
+        lte: new Date('2024-03-31T12:00:00Z'),
+      });
+    });
+
+    it('should filter by interaction volume range', async () => {
+      await service.findAll({
+        interactionVolumeMin: 0,
+        interactionVolumeMax: 200,
+      });
+
+      expect(whereOf().interactionVolume).toEqual({ gte: 0, lte: 200 });
+    });
+
+    it('should sort on the requested column with the id as tie-breaker', async () => {
+      await service.findAll({ sort: 'name:asc' });
+
+      expect(orderOf()).toEqual([{ name: 'asc' }, { id: 'asc' }]);
+    });
+
+    it('should default the sort direction to ascending', async () => {
+      await service.findAll({ sort: 'interactionVolume' });
+
+      expect(orderOf()).toEqual([{ interactionVolume: 'asc' }, { id: 'asc' }]);
+    });
+
+    it('should not repeat the id when sorting by id', async () => {
+      await service.findAll({ sort: 'id:desc' });
+
+      expect(orderOf()).toEqual([{ id: 'desc' }]);
+    });
+  });
+
+  describe('findAll cursor pagination', () => {
+    const rows = (...ids: string[]) =>
+      ids.map((id, index) => ({
+        id,
+        meetingDate: new Date(`2024-01-${10 + index}T00:00:00Z`),
+        interactionVolume: null,
+      }));
+    const argsOf = () => mockPrismaService.client.findMany.mock.calls[0][0];
+    const decode = (cursor: string) =>
+      JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    it('should read one extra row to issue a next cursor from the last row of the page', async () => {
+      mockPrismaService.client.findMany.mockResolvedValueOnce(
+        rows('a', 'b', 'c'),
+      );
+      mockPrismaService.client.count.mockResolvedValueOnce(10);
+
+      const result = await service.findAll({ limit: 2 });
+
+      expect(result.clients.map((client) => client.id)).toEqual(['a', 'b']);
+      expect(result.prevCursor).toBeNull();
+      expect(decode(result.nextCursor!)).toEqual({
+        sort: 'meetingDate:desc',
+        value: '2024-01-11T00:00:00.000Z',
+        id: 'b',
+        direction: 'next',
+      });
+    });
+
+    it('should continue after the cursor row using the sort value and id', async () => {
+      mockPrismaService.client.findMany.mockResolvedValueOnce(rows('b', 'c'));
+      mockPrismaService.client.findMany.mockResolvedValueOnce(rows('d'));
+      mockPrismaService.client.count.mockResolvedValue(3);
+      const first = await service.findAll({ limit: 1 });
+
+      const result = await service.findAll({
+        limit: 1,
+        cursor: first.nextCursor!,
+      });
+
+      const args = mockPrismaService.client.findMany.mock.calls[1][0];
+      const after = new Date('2024-01-10T00:00:00Z');
+      expect(args.skip).toBeUndefined();
+      expect(args.orderBy).toEqual([{ meetingDate: 'desc' }, { id: 'desc' }]);
+      expect(args.where).toEqual({
+        AND: [
+          { deletedAt: null },
+          {
+            OR: [
+              { meetingDate: after, id: { lt: 'b' } },
+              { meetingDate: { lt: after } },
+            ],
+          },
+        ],
+      });
+      expect(result.page).toBeNull();
+      expect(result.nextCursor).toBeNull();
+      expect(decode(result.prevCursor!)).toMatchObject({
+        id: 'd',
+        direction: 'prev',
+      });
+    });
+
+    it('should read backwards from a previous cursor and return the rows in sort order', async () => {
+      const cursor = Buffer.from(
+        JSON.stringify({
+          sort: 'interactionVolume:asc',
+          value: 50,
+          id: 'm',
+          direction: 'prev',
+        }),
+      ).toString('base64url');
+      mockPrismaService.client.findMany.mockResolvedValueOnce(
+        rows('z', 'y', 'x'),
+      );
+      mockPrismaService.client.count.mockResolvedValueOnce(3);
+
+      const result = await service.findAll({
+        sort: 'interactionVolume:asc',
+        limit: 2,
+        cursor,
+      });
+
+      expect(argsOf().orderBy).toEqual([
+        { interactionVolume: 'desc' },
+        { id: 'desc' },
+      ]);
+      expect(argsOf().where.AND[1]).toEqual({
+        OR: [
+          { interactionVolume: 50, id: { lt: 'm' } },
+          { interactionVolume: { lt: 50 } },
+        ],
+      });
+      expect(result.clients.map((client) => client.id)).toEqual(['y', 'z']);
+      expect(decode(result.prevCursor!)).toMatchObject({
+        id: 'y',
+        direction: 'prev',
+      });
+      expect(decode(result.nextCursor!)).toMatchObject({
+        id: 'z',
+        direction: 'next',
+      });
+    });
+
+    it('should place null sort values last when ascending', async () => {
+      const cursor = Buffer.from(
+        JSON.stringify({
+          sort: 'interactionVolume:asc',
+          value: null,
+          id: 'm',
+          direction: 'next',
+        }),
+      ).toString('base64url');
+      mockPrismaService.client.findMany.mockResolvedValueOnce([]);
+      mockPrismaService.client.count.mockResolvedValueOnce(0);
+
+      await service.findAll({ sort: 'interactionVolume:asc', cursor });
+
+      expect(argsOf().where.AND[1]).toEqual({
+        OR: [{ interactionVolume: null, id: { gt: 'm' } }],
+      });
+    });
+
+    it('should compare booleans by equality only', async () => {
+      const cursor = Buffer.from(
+        JSON.stringify({
+          sort: 'closed:asc',
+          value: false,
+          id: 'm',
+          direction: 'next',
+        }),
+      ).toString('base64url');
+      mockPrismaService.client.findMany.mockResolvedValueOnce([]);
+      mockPrismaService.client.count.mockResolvedValueOnce(0);
+
+      await service.findAll({ sort: 'closed:asc', cursor });
+
+      expect(argsOf().where.AND[1]).toEqual({
+        OR: [
+          { closed: false, id: { gt: 'm' } },
+          { closed: true },
+          { closed: null },
+        ],
+      });
+    });
+
+    it('should skip the count when includeTotal is false', async () => {
+      mockPrismaService.client.findMany.mockResolvedValueOnce([]);
+
+      const result = await service.findAll({ includeTotal: false });
+
+      expect(result.total).toBeNull();
+      expect(mockPrismaService.client.count).not.toHaveBeenCalled();
+    });
+
+    it('should reject a cursor together with a page', async () => {
+      await expect(service.findAll({ page: 2, cursor: 'abc' })).rejects.toThrow(
+        'Use either page or cursor, not both',
+      );
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(service.findAll({ cursor: 'not-a-cursor' })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject a cursor issued for another sort', async () => {
+      const cursor = Buffer.from(
+        JSON.stringify({
+          sort: 'name:asc',
+          value: 'Ana',
+          id: 'm',
+          direction: 'next',
+        }),
+      ).toString('base64url');
+
+      await expect(service.findAll({ cursor })).rejects.toThrow(
+        'Cursor was issued for sort name:asc',
+      );
+    });
+  });
+
+  describe('segments', () => {
+    const segment = {
+      id: 'segment-1',
+      filters: {
+        industry: ['Logistics'],
+        operationSize: ['large'],
+        closed: false,
+      },
+    };
+
+    it('should apply the segment filters on top of the request filters', async () => {
+      mockSegmentsService.findOne.mockResolvedValueOnce(segment);
+      mockPrismaService.client.findMany.mockResolvedValueOnce([]);
+      mockPrismaService.client.count.mockResolvedValueOnce(0);
+
+      await service.findAll({ segmentId: 'segment-1', closed: true });
+
+      expect(mockSegmentsService.findOne).toHaveBeenCalledWith('segment-1');
+      expect(mockPrismaService.client.findMany.mock.calls[0][0].where).toEqual({
+        closed: true,
+        AND: [{ industry: 'Logistics', operationSize: 'large', closed: false }],
+        deletedAt: null,
+      });
+    });
+
+    it('should propagate a missing segment', async () => {
+      mockSegmentsService.findOne.mockRejectedValueOnce(
+        new NotFoundException('Segment with ID missing not found'),
+      );
+
+      await expect(service.findAll({ segmentId: 'missing' })).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.client.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should build an empty SQL condition without a segment', async () => {
+      await expect(service.buildSegmentSql()).resolves.toBe(Prisma.empty);
+      expect(mockSegmentsService.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should restrict raw queries to the active clients of the segment', async () => {
+      mockSegmentsService.findOne.mockResolvedValueOnce(segment);
+      mockPrismaService.client.findMany.mockResolvedValueOnce([
+        { id: 'a' },
+        { id: 'b' },
+      ]);
+
+      const sql = await service.buildSegmentSql('segment-1');
+
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where: {
+          industry: 'Logistics',
+          operationSize: 'large',
+          closed: false,
+          deletedAt: null,
+        },
+        select: { id: true },
+      });
+      expect(sql.values).toEqual([['a', 'b']]);
+    });
+  });
+
+  describe('findAll full-text search', () => {
+    const sqlOf = (call = 0) => {
+      const [strings, ...values] = mockPrismaService.$queryRaw.mock.calls[
+        call
+      ] as [TemplateStringsArray, ...unknown[]];
+      return Prisma.sql(strings, ...values);
+    };
+
+    it('should list matches best ranked first with their transcription snippet', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([
+          { id: 'b', rank: 0.9 },
+          { id: 'a', rank: 0.5 },
+        ])
+        .mockResolvedValueOnce([{ total: 2 }])
+        .mockResolvedValueOnce([
+          { id: 'a', snippet: null },
+          {
+            id: 'b',
+            snippet: 'necesitamos <mark>integración</mark> con la API',
+          },
+        ]);
+      mockPrismaService.client.findMany.mockResolvedValueOnce([
+        { id: 'a' },
+        { id: 'b' },
+      ]);
+
+      const result = await service.findAll({ search: 'integración' });
+
+      expect(sqlOf(0).sql).toContain('ORDER BY rank DESC, id ASC');
+      expect(sqlOf(0).values).toContain(
+        API_CONSTANTS.PAGINATION.DEFAULT_LIMIT + 1,
+      );
+      expect(sqlOf(1).sql).toContain('COUNT(*)');
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['b', 'a'] } },
+      });
+      expect(result).toEqual({
+        clients: [
+          {
+            id: 'b',
+            search: {
+              rank: 0.9,
+              snippet: 'necesitamos <mark>integración</mark> con la API',
+            },
+          },
+          { id: 'a', search: { rank: 0.5, snippet: null } },
+        ],
+        total: 2,
+        page: 1,
+        limit: API_CONSTANTS.PAGINATION.DEFAULT_LIMIT,
+        nextCursor: null,
+        prevCursor: null,
+      });
+      expect(mockPrismaService.client.count).not.toHaveBeenCalled();
+    });
+
+    it('should turn quoted phrases and trailing asterisks into phrase and prefix queries', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ total: 0 }]);
+      mockPrismaService.client.findMany.mockResolvedValueOnce([]);
+
+      await service.findAll({
+        search: '"API integration" autom* ana@example.com (x|y)',
+      });
+
+      expect(sqlOf().values).toContain(
+        '(API <-> integration) & autom:* & ana@example.com & xy',
+      );
+    });
+
+    it('should rank and page the matches within the filters and the segment', async () => {
+      mockSegmentsService.findOne.mockResolvedValueOnce({
+        id: 'segment-1',
+        filters: { closed: false },
+      });
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([{ id: 'z', rank: 0.01 }])
+        .mockResolvedValueOnce([{ total: 1201 }])
+        .mockResolvedValueOnce([{ id: 'z', snippet: null }]);
+      mockPrismaService.client.findMany.mockResolvedValueOnce([{ id: 'z' }]);
+
+      const result = await service.findAll({
+        search: 'api',
+        industry: ['Retail', 'Logistics'],
+        segmentId: 'segment-1',
+        page: 25,
+        limit: 50,
+      });
+
+      const { sql, values } = sqlOf(0);
+      expect(sql).toContain('"searchVector" @@');
+      expect(sql).toContain('"industry" = ANY(');
+      expect(sql).toContain('closed = ?');
+      expect(sql).toMatch(/LIMIT \?\s+OFFSET \?/);
+      expect(values).toEqual(
+        expect.arrayContaining([['Retail', 'Logistics'], false, 51, 1200]),
+      );
+      expect(result.clients.map((client) => client.id)).toEqual(['z']);
+      expect(result.total).toBe(1201);
+      expect(result.prevCursor).not.toBeNull();
+    });
+
+    it('should page through matches by relevance with cursors', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValue([]);
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        { id: 'a', rank: 0.9 },
+        { id: 'b', rank: 0.9 },
+        { id: 'c', rank: 0.3 },
+      ]);
+      mockPrismaService.client.findMany.mockImplementation(
+        ({ where }: { where: { id: { in: string[] } } }) =>
+          Promise.resolve(where.id.in.map((id) => ({ id }))),
+      );
+
+      const first = await service.findAll({
+        search: 'api',
+        limit: 2,
+        includeTotal: false,
+      });
+      mockPrismaService.$queryRaw.mockClear();
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        { id: 'c', rank: 0.3 },
+      ]);
+      const second = await service.findAll({
+        search: 'api',
+        limit: 2,
+        includeTotal: false,
+        cursor: first.nextCursor!,
+      });
+      const afterB = sqlOf(0);
+      mockPrismaService.$queryRaw.mockClear();
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        { id: 'b', rank: 0.9 },
+        { id: 'a', rank: 0.9 },
+      ]);
+      const back = await service.findAll({
+        search: 'api',
+        limit: 2,
+        includeTotal: false,
+        cursor: second.prevCursor!,
+      });
+      const beforeC = sqlOf(0);
+
+      expect(first.clients.map((client) => client.id)).toEqual(['a', 'b']);
+      expect(first.prevCursor).toBeNull();
+      expect(afterB.sql).toContain(
+        'WHERE rank < ?::real OR (rank = ?::real AND id > ?)',
+      );
+      expect(afterB.values).toEqual(expect.arrayContaining([0.9, 'b']));
+      expect(second.clients.map((client) => client.id)).toEqual(['c']);
+      expect(second.nextCursor).toBeNull();
+      expect(second.page).toBeNull();
+      expect(beforeC.sql).toContain('ORDER BY rank ASC, id DESC');
+      expect(beforeC.values).toEqual(expect.arrayContaining([0.3, 'c']));
+      expect(back.clients.map((client) => client.id)).toEqual(['a', 'b']);
+      expect(back.prevCursor).toBeNull();
+
+      mockPrismaService.$queryRaw.mockReset();
+      mockPrismaService.client.findMany.mockReset();
+    });
+
+    it('should leave the total out of ranked matches when includeTotal is false', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([{ id: 'a', rank: 0.9 }])
+        .mockResolvedValueOnce([]);
+      mockPrismaService.client.findMany.mockResolvedValueOnce([{ id: 'a' }]);
+
+      const result = await service.findAll({
+        search: 'api',
+        includeTotal: false,
+      });
+
+      expect(result.total).toBeNull();
+      expect(result.clients.map((client) => client.id)).toEqual(['a']);
+      expect(sqlOf(1).sql).not.toContain('COUNT(*)');
+    });
+
+    it('should keep the requested sort when one is given', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([{ id: 'a', rank: 0.2 }])
+        .mockResolvedValueOnce([{ id: 'a', snippet: null }]);
+      mockPrismaService.client.findMany.mockResolvedValueOnce([
+        { id: 'a', name: 'Ana' },
+      ]);
+      mockPrismaService.client.count.mockResolvedValueOnce(1);
+
+      const result = await service.findAll({
+        search: 'ana',
+        industry: ['Retail'],
+        sort: 'name:asc',
+      });
+
+      expect(sqlOf(0).sql).toContain('"industry" = ANY(');
+      expect(sqlOf(0).sql).not.toContain('LIMIT');
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where: { industry: 'Retail', id: { in: ['a'] }, deletedAt: null },
+        skip: 0,
+        take: API_CONSTANTS.PAGINATION.DEFAULT_LIMIT + 1,
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      });
+      expect(result.clients).toEqual([
+        { id: 'a', name: 'Ana', search: { rank: 0.2, snippet: null } },
+      ]);
+    });
+
+    it('should match nothing when the search holds no searchable term', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ total: 0 }]);
+      mockPrismaService.client.findMany.mockResolvedValueOnce([]);
+
+      const result = await service.findAll({ search: '*** !!' });
+
+      expect(sqlOf(0).sql).toContain('FALSE');
+      expect(result.clients).toEqual([]);
+      expect(result.total).toBe(0);
+    });
+  });
+
+  describe('findTrash', () => {
+    it('should list trashed clients with the listing filters, most recently deleted first', async () => {
+      mockPrismaService.client.findMany.mockResolvedValue([{ id: '1' }]);
+      mockPrismaService.client.count.mockResolvedValue(1);
+
+      const result = await service.findTrash({
+        assignedSeller: ['Seller 1'],
+        page: 2,
+        limit: 10,
+      });
+
+      const where = { assignedSeller: 'Seller 1', deletedAt: { not: null } };
+      expect(result).toEqual({
+        clients: [{ id: '1' }],
+        total: 1,
+        page: 2,
+        limit: 10,
+        nextCursor: null,
+        prevCursor: expect.any(String),
+      });
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where,
+        skip: 10,
+        take: 11,
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+      });
+      expect(mockPrismaService.client.count).toHaveBeenCalledWith({ where });
+    });
+  });
+
+  describe('restoreClient', () => {
+    it('should take the client out of the trash', async () => {
+      const restored = { id: '1', deletedAt: null };
+      mockPrismaService.client.findUnique.mockResolvedValue({
+        id: '1',
+        deletedAt: new Date(),
+      });
+      mockPrismaService.client.update.mockResolvedValue(restored);
+
+      const result = await service.restoreClient('1');
+
+      expect(result).toEqual(restored);
+      expect(mockPrismaService.client.findUnique).toHaveBeenCalledWith({
+        where: { id: '1', deletedAt: { not: null } },
+      });
+      expect(mockPrismaService.client.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: { deletedAt: null },
+      });
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the client is not in the trash', async () => {
+      mockPrismaService.client.findUnique.mockResolvedValue(null);
+
+      await expect(service.restoreClient('1')).rejects.toThrow(
+        'Client with ID 1 not found in the trash',
+      );
+      expect(mockPrismaService.client.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeTrash', () => {
+    it('should permanently delete trashed clients and their analysis logs', async () => {
+      mockPrismaService.client.findMany.mockResolvedValue([
+        { id: '1' },
+        { id: '2' },
+      ]);
+      mockPrismaService.analysisLog.deleteMany.mockReturnValue('delete-logs');
+      mockPrismaService.client.deleteMany.mockReturnValue('delete-clients');
+      mockPrismaService.$transaction.mockResolvedValue([
+        { count: 3 },
+        { count: 2 },
+      ]);
+
+      const result = await service.purgeTrash('PURGE_TRASH');
+
+      expect(result).toEqual({ clients: 2, analysisLogs: 3, total: 5 });
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where: { deletedAt: { not: null } },
+        select: { id: true },
+      });
+      expect(mockPrismaService.analysisLog.deleteMany).toHaveBeenCalledWith({
+        where: { clientId: { in: ['1', '2'] } },
+      });
+      expect(mockPrismaService.client.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['1', '2'] }, deletedAt: { not: null } },
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith([
+        'delete-logs',
+        'delete-clients',
+      ]);
+    });
+
+    it('should refuse to purge without the confirmation token', async () => {
+      await expect(service.purgeTrash('yes')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.client.findMany).not.toHaveBeenCalled();
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bulkAction', () => {
+    const sqlOf = (call = 0) =>
+      (mockPrismaService.$executeRaw.mock.calls[call][0] as string[]).join('?');
+    const valuesOf = (call = 0) =>
+      mockPrismaService.$executeRaw.mock.calls[call].slice(1) as unknown[];
+
+    beforeEach(() => {
+      mockPrismaService.$transaction.mockImplementation(
+        (run: (tx: typeof mockPrismaService) => Promise<unknown>) =>
+          run(mockPrismaService),
+      );
+    });
+
+    afterEach(() => {
+      mockPrismaService.$transaction.mockReset();
+    });
+
+    it('should reassign the seller of the listed clients and report ids not found', async () => {
+      mockPrismaService.client.findMany.mockResolvedValueOnce([
+        { id: 'a' },
+        { id: 'b' },
+      ]);
+      mockPrismaService.$executeRaw.mockResolvedValueOnce(1);
+
+      const result = await service.bulkAction({
+        action: BulkClientActionEnum.REASSIGN_SELLER,
+        assignedSeller: 'Seller 2',
+        ids: ['a', 'b', 'c'],
+      });
+
+      expect(result).toEqual({
+        action: BulkClientActionEnum.REASSIGN_SELLER,
+        matched: 2,
+        affected: 1,
+        unchanged: 1,
+        notFound: ['c'],
+      });
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['a', 'b', 'c'] }, deletedAt: null },
+        select: { id: true },
+      });
+      expect(mockSellersService.resolve).toHaveBeenCalledWith('Seller 2');
+      expect(sqlOf()).toContain('"sellerId" <>');
+      expect(valuesOf()).toEqual(
+        expect.arrayContaining(['seller-1', 'Seller 2']),
+      );
+      expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalledTimes(1);
+    });
+
+    it('should select the clients with the listing filters and segment', async () => {
+      mockSegmentsService.findOne.mockResolvedValueOnce({
+        id: 'segment-1',
+        filters: { industry: ['Retail'] },
+      });
+      mockPrismaService.client.findMany.mockResolvedValueOnce([{ id: 'a' }]);
+      mockPrismaService.$executeRaw.mockResolvedValueOnce(1);
+
+      const result = await service.bulkAction({
+        action: BulkClientActionEnum.MARK_CLOSED,
+        filters: { segmentId: 'segment-1', assignedSeller: ['Seller 1'] },
+      });
+
+      expect(result).toMatchObject({ matched: 1, affected: 1, notFound: [] });
+      expect(mockPrismaService.client.findMany.mock.calls[0][0].where).toEqual({
+        assignedSeller: 'Seller 1',
+        AND: [{ industry: 'Retail' }],
+        deletedAt: null,
+      });
+      expect(sqlOf()).toContain('INSERT INTO client_stage_changes');
+      expect(valuesOf()).toEqual([
+        'stage-2',
+        true,
+        expect.anything(),
+        Prisma.sql`closed = false`,
+        'stage-2',
+      ]);
+    });
+
+    it('should move the listed clients to the requested stage, recording where each came from', async () => {
+      mockPipelineStagesService.findOne.mockResolvedValueOnce(lostStage);
+      mockPrismaService.client.findMany.mockResolvedValueOnce([
+        { id: 'a' },
+        { id: 'b' },
+      ]);
+      mockPrismaService.$executeRaw.mockResolvedValueOnce(2);
+
+      const result = await service.bulkAction({
+        action: BulkClientActionEnum.MOVE_STAGE,
+        stageId: 'stage-3',
+        ids: ['a', 'b'],
+      });
+
+      expect(result).toMatchObject({ matched: 2, affected: 2 });
+      expect(sqlOf()).toContain(
+        'RETURNING clients.id, previous."stageId" AS "fromStageId"',
+      );
+      expect(valuesOf()[1]).toBe(false);
+      expect((valuesOf()[3] as Prisma.Sql).values).toEqual(['stage-3']);
+    });
+
+    it('should only reset clients that were processed', async () => {
+      mockPrismaService.client.findMany.mockResolvedValueOnce([{ id: 'a' }]);
+      mockPrismaService.$executeRaw.mockResolvedValueOnce(1);
+
+      await service.bulkAction({
+        action: BulkClientActionEnum.RESET_PROCESSED,
+        ids: ['a'],
+      });
+
+      expect(sqlOf()).toContain('processed = false, "processedAt" = NULL');
+      expect(sqlOf()).toContain('AND processed = true');
+    });
+
+    it('should add each tag once', async () => {
+      mockPrismaService.client.findMany.mockResolvedValueOnce([{ id: 'a' }]);
+      mockPrismaService.$executeRaw.mockResolvedValueOnce(1);
+
+      await service.bulkAction({
+        action: BulkClientActionEnum.ADD_TAGS,
+        tags: ['vip', 'vip', 'q3'],
+        ids: ['a'],
+      });
+
+      expect(sqlOf()).toContain('tags = tags || ARRAY');
+      expect(valuesOf()).toContainEqual(['vip', 'q3']);
+    });
+
+    it('should move the matched clients to the trash', async () => {
+      mockPrismaService.client.findMany.mockResolvedValueOnce([
+        { id: 'a' },
+        { id: 'b' },
+      ]);
+      mockPrismaService.$executeRaw.mockResolvedValueOnce(2);
+
+      const result = await service.bulkAction({
+        action: BulkClientActionEnum.DELETE,
+        ids: ['a', 'b'],
+      });
+
+      expect(result).toMatchObject({ matched: 2, affected: 2, unchanged: 0 });
+      expect(sqlOf()).toContain('"deletedAt" = NOW()');
+      expect((valuesOf()[0] as Prisma.Sql).values).toEqual([['a', 'b']]);
+    });
+
+    it('should not update or invalidate the cache when nothing matches', async () => {
+      mockPrismaService.client.findMany.mockResolvedValueOnce([]);
+
+      const result = await service.bulkAction({
+        action: BulkClientActionEnum.MARK_OPEN,
+        filters: { industry: ['None'] },
+      });
+
+      expect(result).toEqual({
+        action: BulkClientActionEnum.MARK_OPEN,
+        matched: 0,
+        affected: 0,
+        unchanged: 0,
+        notFound: [],
+      });
+      expect(mockPrismaService.$executeRaw).not.toHaveBeenCalled();
+      expect(mockCacheService.clearAnalyticsCache).not.toHaveBeenCalled();
+    });
+
+    it('should require exactly one of ids and filters', async () => {
+      await expect(
+        service.bulkAction({ action: BulkClientActionEnum.DELETE }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.bulkAction({
+          action: BulkClientActionEnum.DELETE,
+          ids: ['a'],
+          filters: { closed: true },
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUnprocessedClients', () => {
+    it('should return unprocessed clients', async () => {
+      const mockClients: Client[] = [
+        {
+          id: '1',
+          name: 'Client 1',
+          email: 'client1@example.com',
+          phone: '111',
+          assignedSeller: 'Seller 1',
+          sellerId: 'seller-1',
+          stageId: 'stage-1',
+          meetingDate: new Date('2024-01-15'),
+          closed: false,
+          transcription: 'Transcription 1',
+          dealAmount: null,
+          currency: null,
+          industry: null,
+          operationSize: null,
+          interactionVolume: null,
+          discoverySource: null,
+          mainMotivation: null,
+          urgencyLevel: null,
+          painPoints: [],
+          technicalRequirements: [],
+          sentiment: null,
+          tags: [],
+          processed: false,
+          processedAt: null,
+          categorizationStatus: null,
+          categorizationPromptVersion: null,
+          deletedAt: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ];
+
+      mockPrismaService.client.findMany.mockResolvedValue(mockClients);
+
+      const result = await service.getUnprocessedClients();
+
+      expect(result).toEqual(mockClients);
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where: { processed: false, deletedAt: null },
+      });
+    });
+  });
+
+  describe('getClientsToReprocess', () => {
+    it('should return the processed clients matching the filters, oldest processing first', async () => {
+      mockPrismaService.client.findMany.mockResolvedValue([]);
+      mockPrismaService.client.count.mockResolvedValue(120);
+
+      const result = await service.getClientsToReprocess(
+        {
+          filters: { sellerId: ['seller-1'] },
+          processedBefore: '2024-03-01T00:00:00.000Z',
+          promptVersion: 'categorization@1',
+        },
+        50,
+      );
+
+      const where = expect.objectContaining({
+        sellerId: 'seller-1',
+        deletedAt: null,
+        processed: true,
+        processedAt: { lt: new Date('2024-03-01T00:00:00.000Z') },
+        categorizationPromptVersion: 'categorization@1',
+      });
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where,
+        orderBy: { processedAt: 'asc' },
+        take: 50,
+      });
+      expect(mockPrismaService.client.count).toHaveBeenCalledWith({ where });
+      expect(result).toEqual({ clients: [], total: 120 });
+    });
+
+    it('should match every processed client when all is set', async () => {
+      mockPrismaService.client.findMany.mockResolvedValue([]);
+      mockPrismaService.client.count.mockResolvedValue(0);
+
+      await service.getClientsToReprocess({ all: true }, 50);
+
+      expect(mockPrismaService.client.findMany).toHaveBeenCalledWith({
+        where: { deletedAt: null, processed: true },
+        orderBy: { processedAt: 'asc' },
+        take: 50,
+      });
+    });
+
+    it('should throw BadRequestException when no condition is given', async () => {
+      await expect(service.getClientsToReprocess({}, 50)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.getClientsToReprocess({ filters: {} }, 50),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.client.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markAsProcessed', () => {
+    it('should mark client as processed with categorized data', async () => {
+      const clientId = '1';
+      const categorizedData = {
+        industry: 'Technology',
+        sentiment: 'positive',
+        operationSize: 'large',
+      };
+      const updatedClient: Client = {
+        id: clientId,
+        name: 'John Doe',
+        email: 'john@example.com',
+        phone: '123456789',
+        assignedSeller: 'Seller 1',
+        sellerId: 'seller-1',
+        stageId: 'stage-1',
+        meetingDate: new Date('2024-01-15'),
+        closed: false,
+        transcription: 'Test transcription',
+        dealAmount: null,
+        currency: null,
+        industry: 'Technology',
+        operationSize: 'large',
+        interactionVolume: null,
+        discoverySource: null,
+        mainMotivation: null,
+        urgencyLevel: null,
+        painPoints: [],
+        technicalRequirements: [],
+        sentiment: 'positive',
+        tags: [],
+        processed: true,
+        processedAt: expect.any(Date),
+        categorizationStatus: 'valid',
+        categorizationPromptVersion: 'categorization@1',
+        deletedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      mockPrismaService.client.update.mockResolvedValue(updatedClient);
+
+      const result = await service.markAsProcessed(clientId, categorizedData);
+
+      expect(result).toEqual(updatedClient);
+      expect(mockPrismaService.client.update).toHaveBeenCalledWith({
+        where: { id: clientId },
+        data: {
+          ...categorizedData,
+          processed: true,
+          processedAt: expect.any(Date),
+        },
+      });
+    });
+  });
+
+  describe('getUniqueValues', () => {
+    it('should return unique values for all metadata fields', async () => {
+      const mockClients = [
         {
           assignedSeller: 'Seller 1',
           industry: 'Technology',
@@ -600,4 +2226,3 @@ describe('ClientsService', () => {
     });
   });
 });
-
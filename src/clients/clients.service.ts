@@ -1,9 +1,98 @@
-import { Injectable, Logger, NotFoundException, Optional } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  Optional,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreateClientDto, ClientResponseDto, ClientFilterDto } from '../common/dto/client.dto';
-import { Client, Prisma } from '@prisma/client';
-import { API_CONSTANTS } from '../common/constants';
+import {
+  CreateClientDto,
+  ClientFilterDto,
+  UpdateClientDto,
+} from '../common/dto/client.dto';
+import {
+  BulkClientActionDto,
+  BulkClientActionEnum,
+  BulkClientActionResultDto,
+  ClientStageChangeDto,
+  MoveClientStageDto,
+  PipelineStageOutcomeEnum,
+} from '../common/dto/clients';
+import {
+  AnalysisHistoryQueryDto,
+  AnalysisLogDto,
+  ReprocessClientsDto,
+} from '../common/dto/llm';
+import { Client, Prisma, Seller } from '@prisma/client';
+import { API_CONSTANTS, CLIENT_CONSTANTS } from '../common/constants';
 import { CacheService } from '../common/services/cache.service';
+import { SegmentsService } from './segments.service';
+import { PipelineStagesService, Stage } from './pipeline-stages.service';
+import { SellersService } from '../sellers/sellers.service';
+import {
+  CursorDirection,
+  PageCursor,
+  decodeCursor,
+  encodeCursor,
+} from '../common/utils/cursor.utils';
+import { toTsQuery } from '../common/utils/search.utils';
+import { toSellerKey } from '../common/utils/seller.utils';
+
+type SortableField = (typeof CLIENT_CONSTANTS.SORTABLE_FIELDS)[number];
+
+// Sort values of these fields travel in cursors as ISO strings
+const CLIENT_DATE_FIELDS = new Set<SortableField>([
+  'meetingDate',
+  'processedAt',
+  'deletedAt',
+  'createdAt',
+  'updatedAt',
+]);
+
+/**
+ * Where a listed client matched the `search` filter
+ * snippet is an excerpt of the transcription with the matched words in <mark> tags, or null when only
+ * the name or email matched.
+ */
+export interface ClientSearchMatch {
+  rank: number;
+  snippet: string | null;
+}
+
+export type ClientListItem = Client & { search?: ClientSearchMatch };
+
+/**
+ * Full-text matches of a search, ranked; the query is null when the search holds no searchable term
+ */
+interface ClientSearch {
+  query: string | null;
+  ranks: Map<string, number>;
+}
+
+interface SearchMatchRow {
+  id: string;
+  rank: number;
+}
+
+interface SearchSnippetRow {
+  id: string;
+  snippet: string | null;
+}
+
+/**
+ * One page of a client listing
+ * total is null when the count was skipped (includeTotal=false); page is null for cursor pages.
+ */
+export interface ClientPage {
+  clients: ClientListItem[];
+  total: number | null;
+  page: number | null;
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
 
 @Injectable()
 export class ClientsService {
@@ -11,33 +100,70 @@ export class ClientsService {
 
   constructor(
     private readonly prisma: PrismaService,
+    private readonly segmentsService: SegmentsService,
+    private readonly sellersService: SellersService,
+    private readonly pipelineStagesService: PipelineStagesService,
     @Optional() private readonly cacheService?: CacheService,
   ) {}
 
+  /**
+   * Create a single client
+   * The assigned seller is resolved by name or alias, and created when it is not known yet. The client
+   * starts in the given pipeline stage, or in the first won or open stage according to closed.
+   * @throws ConflictException when another client already uses the email
+   * @throws BadRequestException when the stage name matches no pipeline stage
+   */
   async createClient(createClientDto: CreateClientDto): Promise<Client> {
-    return this.prisma.client.create({
-      data: {
-        name: createClientDto.name,
-        email: createClientDto.email,
-        phone: createClientDto.phone,
-        assignedSeller: createClientDto.assignedSeller,
-        meetingDate: new Date(createClientDto.meetingDate),
-        closed: createClientDto.closed,
-        transcription: createClientDto.transcription,
-      },
+    await this.assertEmailAvailable(createClientDto.email);
+    const stage = await this.pipelineStagesService.resolve(
+      createClientDto.stage,
+      createClientDto.closed,
+    );
+    const seller = await this.sellersService.resolve(
+      createClientDto.assignedSeller,
+    );
+
+    const client = await this.prisma.client.create({
+      data: this.toClientCreateInput(createClientDto, seller, stage),
     });
+
+    if (this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log('Analytics cache invalidated after creating a client');
+    }
+
+    return client;
   }
 
-  async createManyClients(clients: CreateClientDto[]): Promise<{ count: number }> {
-    const data = clients.map((client) => ({
-      name: client.name,
-      email: client.email,
-      phone: client.phone,
-      assignedSeller: client.assignedSeller,
-      meetingDate: new Date(client.meetingDate),
-      closed: client.closed,
-      transcription: client.transcription,
-    }));
+  /**
+   * Create many clients at once, skipping emails that already exist
+   * @throws BadRequestException when a stage name matches no pipeline stage
+   */
+  async createManyClients(
+    clients: CreateClientDto[],
+  ): Promise<{ count: number }> {
+    const pipeline = await this.pipelineStagesService.loadPipeline();
+    const stages = clients.map((client) => {
+      const stage = this.pipelineStagesService.stageFor(
+        pipeline,
+        client.stage,
+        client.closed,
+      );
+      if (!stage) {
+        throw new BadRequestException(`Unknown pipeline stage ${client.stage}`);
+      }
+      return stage;
+    });
+    const sellers = await this.sellersService.resolveNames(
+      clients.map((client) => client.assignedSeller),
+    );
+    const data = clients.map((client, index) =>
+      this.toClientCreateInput(
+        client,
+        sellers.get(toSellerKey(client.assignedSeller))!,
+        stages[index],
+      ),
+    );
 
     const result = await this.prisma.client.createMany({
       data,
@@ -52,57 +178,805 @@ export class ClientsService {
     return result;
   }
 
-  async findAll(filters: ClientFilterDto = {}): Promise<{ clients: Client[]; total: number; page: number; limit: number }> {
-    const page = filters.page || API_CONSTANTS.PAGINATION.DEFAULT_PAGE;
+  /**
+   * Update several clients in a single transaction
+   * @param updates - Client ID and the fields to change
+   * @returns Number of clients updated
+   */
+  async updateManyClients(
+    updates: Array<{ id: string; data: Prisma.ClientUpdateInput }>,
+  ): Promise<number> {
+    if (updates.length === 0) {
+      return 0;
+    }
+
+    await this.prisma.$transaction(
+      updates.map(({ id, data }) =>
+        this.prisma.client.update({ where: { id }, data }),
+      ),
+    );
+
+    if (this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log('Analytics cache invalidated after updating clients');
+    }
+
+    return updates.length;
+  }
+
+  /**
+   * Find stored clients by email, including clients in the trash (their emails stay reserved)
+   * @param emails - Emails to look up
+   * @returns Matching clients (emails without a client are omitted)
+   */
+  async findByEmails(emails: string[]): Promise<Client[]> {
+    if (emails.length === 0) {
+      return [];
+    }
+
+    return this.prisma.client.findMany({
+      where: { email: { in: emails } },
+    });
+  }
+
+  /**
+   * List clients, one page at a time
+   * Pages are addressed either by number (offset mode) or by the nextCursor/prevCursor of a previous page.
+   * @param filters - Filters, sort and pagination
+   * @throws BadRequestException when both page and cursor are given, or the cursor is invalid
+   */
+  async findAll(filters: ClientFilterDto = {}): Promise<ClientPage> {
+    return this.findListing(
+      { deletedAt: null },
+      filters,
+      CLIENT_CONSTANTS.DEFAULT_SORT,
+    );
+  }
+
+  /**
+   * List the clients in the trash, most recently deleted first unless another sort is given
+   * @param filters - Same filters, sort and pagination as the client listing
+   */
+  async findTrash(filters: ClientFilterDto = {}): Promise<ClientPage> {
+    return this.findListing(
+      { deletedAt: { not: null } },
+      filters,
+      CLIENT_CONSTANTS.TRASH_SORT,
+    );
+  }
+
+  /**
+   * Read every client matching the listing filters in batches, in listing order (sort included)
+   * Batches are fetched with a cursor on the last client read, so the cost per batch stays flat on large tables.
+   * The filters are resolved before the batches are returned, so an unknown segment rejects this call rather than
+   * the iteration. Pagination filters are ignored.
+   * @param filters - Same filters as the client listing
+   * @param batchSize - Maximum number of clients per batch
+   * @throws NotFoundException if the segment does not exist
+   */
+  async streamClients(
+    filters: ClientFilterDto = {},
+    batchSize: number = CLIENT_CONSTANTS.EXPORT_BATCH_SIZE,
+  ): Promise<AsyncGenerator<Client[]>> {
+    const { where } = await this.buildListingWhere(filters, {
+      deletedAt: null,
+    });
+    const orderBy = this.buildOrderBy(
+      filters.sort ?? CLIENT_CONSTANTS.DEFAULT_SORT,
+    );
+
+    return this.readBatches(where, orderBy, batchSize);
+  }
+
+  /**
+   * Page through the clients matching a resolved where clause with a cursor on the last client read
+   * @private
+   */
+  private async *readBatches(
+    where: Prisma.ClientWhereInput,
+    orderBy: Prisma.ClientOrderByWithRelationInput[],
+    batchSize: number,
+  ): AsyncGenerator<Client[]> {
+    let cursor: string | undefined;
+
+    do {
+      const clients = await this.prisma.client.findMany({
+        where,
+        orderBy,
+        take: batchSize,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      if (clients.length === 0) {
+        return;
+      }
+
+      yield clients;
+      cursor =
+        clients.length === batchSize
+          ? clients[clients.length - 1].id
+          : undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Filter, order and paginate a listing
+   * A search narrows the listing to its full-text matches, ordered best ranked first unless a sort is given,
+   * and adds the rank and a transcription snippet to each client.
+   * @private
+   */
+  private async findListing(
+    scope: Prisma.ClientWhereInput,
+    filters: ClientFilterDto,
+    defaultSort: string,
+  ): Promise<ClientPage> {
+    if (filters.search && !filters.sort) {
+      const { page, search } = await this.findRankedPage(
+        filters,
+        scope.deletedAt !== null,
+      );
+      return {
+        ...page,
+        clients: await this.addSearchMatches(page.clients, search),
+      };
+    }
+
+    const { where, search } = await this.buildListingWhere(filters, scope);
+    const page = await this.findPage(
+      where,
+      filters,
+      filters.sort ?? defaultSort,
+    );
+
+    return search
+      ? { ...page, clients: await this.addSearchMatches(page.clients, search) }
+      : page;
+  }
+
+  /**
+   * Conditions selecting the clients of a saved segment
+   * @param segmentId - Segment to resolve
+   * @param trashed - Whether a search in the segment is run against the trash instead of the active clients
+   * @throws NotFoundException when the segment does not exist
+   */
+  async buildSegmentWhere(
+    segmentId: string,
+    trashed = false,
+  ): Promise<Prisma.ClientWhereInput> {
+    const { filters } = await this.segmentsService.findOne(segmentId);
+    const search = await this.findSearchMatches(filters, trashed);
+
+    return this.buildFilterWhere(filters, search);
+  }
+
+  /**
+   * SQL condition restricting a raw query on the clients table to the active clients of a saved segment
+   * @param segmentId - Segment to scope to; without one the condition is empty
+   * @returns `AND id = ANY(...)`, to append to the WHERE clause of the query
+   * @throws NotFoundException when the segment does not exist
+   */
+  async buildSegmentSql(segmentId?: string): Promise<Prisma.Sql> {
+    if (!segmentId) {
+      return Prisma.empty;
+    }
+
+    const clients = await this.prisma.client.findMany({
+      where: { ...(await this.buildSegmentWhere(segmentId)), deletedAt: null },
+      select: { id: true },
+    });
+
+    return Prisma.sql`AND id = ANY(${clients.map((client) => client.id)}::text[])`;
+  }
+
+  /**
+   * Where clause of a listing: its filters, the filters of its segment and the trash scope
+   * @private
+   */
+  private async buildListingWhere(
+    filters: ClientFilterDto,
+    scope: Prisma.ClientWhereInput,
+  ): Promise<{ where: Prisma.ClientWhereInput; search: ClientSearch | null }> {
+    const trashed = scope.deletedAt !== null;
+    const search = await this.findSearchMatches(filters, trashed);
+    const segmentWhere = filters.segmentId
+      ? await this.buildSegmentWhere(filters.segmentId, trashed)
+      : null;
+
+    return {
+      where: {
+        ...this.buildFilterWhere(filters, search),
+        ...(segmentWhere && { AND: [segmentWhere] }),
+        ...scope,
+      },
+      search,
+    };
+  }
+
+  /**
+   * Rank the clients matching a search with the full-text index
+   * The filters, the segment and the trash scope apply in the same query, so every matching client is kept.
+   * @param filters - Listing filters; their search is typed by the user, with phrases in quotes and prefixes ending in *
+   * @param trashed - Whether to search the trash instead of the active clients
+   * @returns The ranks by client id, or null when there is no search
+   * @private
+   */
+  private async findSearchMatches(
+    filters: ClientFilterDto,
+    trashed: boolean,
+  ): Promise<ClientSearch | null> {
+    if (!filters.search) {
+      return null;
+    }
+
+    const query = toTsQuery(filters.search);
+    if (!query) {
+      return { query, ranks: new Map() };
+    }
+
+    const rows = await this.prisma.$queryRaw<SearchMatchRow[]>`
+      SELECT id, ts_rank("searchVector", ${this.toTsQuerySql(query)}) AS rank
+      FROM clients
+      WHERE ${await this.buildListingSql(filters, trashed)}
+    `;
+
+    return { query, ranks: new Map(rows.map((row) => [row.id, row.rank])) };
+  }
+
+  /**
+   * The query is parsed with every indexed configuration, so a term matches stemmed or as typed
+   * @private
+   */
+  private toTsQuerySql(query: string): Prisma.Sql {
+    const configs = CLIENT_CONSTANTS.SEARCH_CONFIGS.map(
+      (config) => Prisma.sql`to_tsquery(${config}::regconfig, ${query})`,
+    );
+    return Prisma.sql`(${Prisma.join(configs, ' || ')})`;
+  }
+
+  /**
+   * Page through search matches by relevance (best rank first, then id)
+   * Matches are ranked, filtered and paged in one query, reading one extra row to know whether another page follows.
+   * @returns The page and the ranks of its clients
+   * @private
+   */
+  private async findRankedPage(
+    filters: ClientFilterDto,
+    trashed: boolean,
+  ): Promise<{ page: ClientPage; search: ClientSearch }> {
+    if (filters.cursor && filters.page) {
+      throw new BadRequestException('Use either page or cursor, not both');
+    }
+
+    const sort = CLIENT_CONSTANTS.RELEVANCE_SORT;
     const limit = filters.limit || API_CONSTANTS.PAGINATION.DEFAULT_LIMIT;
-    const skip = (page - 1) * limit;
+    const includeTotal = filters.includeTotal ?? true;
+    const cursor = filters.cursor
+      ? this.decodeClientCursor(filters.cursor, sort)
+      : null;
+    const page = cursor
+      ? null
+      : filters.page || API_CONSTANTS.PAGINATION.DEFAULT_PAGE;
+    const backwards = cursor?.direction === 'prev';
 
-    const where: Prisma.ClientWhereInput = {};
+    const query = toTsQuery(filters.search ?? '');
+    const conditions = await this.buildListingSql(filters, trashed);
+    const rank = query
+      ? Prisma.sql`ts_rank("searchVector", ${this.toTsQuerySql(query)})`
+      : Prisma.sql`0::real`;
+    const after = cursor ? this.buildRankCursorSql(cursor) : Prisma.empty;
+
+    const [rows, total] = await Promise.all([
+      this.prisma.$queryRaw<SearchMatchRow[]>`
+        SELECT id, rank
+        FROM (SELECT id, ${rank} AS rank FROM clients WHERE ${conditions}) AS matches
+        ${after}
+        ORDER BY ${backwards ? Prisma.sql`rank ASC, id DESC` : Prisma.sql`rank DESC, id ASC`}
+        LIMIT ${limit + 1}
+        ${page ? Prisma.sql`OFFSET ${(page - 1) * limit}` : Prisma.empty}
+      `,
+      includeTotal
+        ? this.prisma.$queryRaw<Array<{ total: number }>>`
+            SELECT COUNT(*)::int AS total FROM clients WHERE ${conditions}
+          `.then(([row]) => row.total)
+        : null,
+    ]);
 
-    if (filters.assignedSeller) {
-      where.assignedSeller = filters.assignedSeller;
+    const hasMore = rows.length > limit;
+    const matches = rows.slice(0, limit);
+    if (backwards) {
+      matches.reverse();
     }
 
-    if (filters.industry) {
-      where.industry = filters.industry;
+    const clientsById = new Map(
+      (
+        await this.prisma.client.findMany({
+          where: { id: { in: matches.map((match) => match.id) } },
+        })
+      ).map((client) => [client.id, client]),
+    );
+    const clients = matches
+      .map((match) => clientsById.get(match.id))
+      .filter((client): client is Client => client !== undefined);
+
+    const first = matches[0];
+    const last = matches[matches.length - 1];
+    const hasPrevious = backwards
+      ? hasMore
+      : cursor !== null || (page ?? 1) > 1;
+    const hasNext = backwards ? true : hasMore;
+    const toCursor = (match: SearchMatchRow, direction: CursorDirection) =>
+      encodeCursor({ sort, value: match.rank, id: match.id, direction });
+
+    return {
+      page: {
+        clients,
+        total,
+        page,
+        limit,
+        nextCursor: last && hasNext ? toCursor(last, 'next') : null,
+        prevCursor: first && hasPrevious ? toCursor(first, 'prev') : null,
+      },
+      search: {
+        query,
+        ranks: new Map(matches.map((match) => [match.id, match.rank])),
+      },
+    };
+  }
+
+  /**
+   * Matches strictly after the cursor position in relevance order (or before it, reading backwards)
+   * Ranks are real numbers, so the cursor value is compared as one.
+   * @private
+   */
+  private buildRankCursorSql(cursor: PageCursor): Prisma.Sql {
+    const rank = Prisma.sql`${Number(cursor.value)}::real`;
+
+    return cursor.direction === 'next'
+      ? Prisma.sql`WHERE rank < ${rank} OR (rank = ${rank} AND id > ${cursor.id})`
+      : Prisma.sql`WHERE rank > ${rank} OR (rank = ${rank} AND id < ${cursor.id})`;
+  }
+
+  /**
+   * SQL conditions of a listing: its filters, the filters of its segment and the trash scope
+   * @throws NotFoundException when the segment does not exist
+   * @private
+   */
+  private async buildListingSql(
+    filters: ClientFilterDto,
+    trashed: boolean,
+  ): Promise<Prisma.Sql> {
+    const conditions = [
+      Prisma.sql`"deletedAt" ${Prisma.raw(trashed ? 'IS NOT NULL' : 'IS NULL')}`,
+      ...this.buildFilterSql(filters),
+    ];
+
+    if (filters.segmentId) {
+      const segment = await this.segmentsService.findOne(filters.segmentId);
+      conditions.push(...this.buildFilterSql(segment.filters));
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  /**
+   * Translate listing filters into SQL conditions on the clients table, like buildFilterWhere does for Prisma
+   * A search becomes a full-text match; a search without searchable terms matches nothing.
+   * @private
+   */
+  private buildFilterSql(filters: ClientFilterDto): Prisma.Sql[] {
+    const conditions: Prisma.Sql[] = [];
+    const column = (name: keyof Client) => Prisma.raw(`"${name}"`);
+
+    const equalsAny: Array<[keyof Client, string[] | undefined]> = [
+      ['assignedSeller', filters.assignedSeller],
+      ['sellerId', filters.sellerId],
+      ['stageId', filters.stageId],
+      ['industry', filters.industry],
+      ['categorizationStatus', filters.categorizationStatus],
+      ['sentiment', filters.sentiment],
+      ['discoverySource', filters.discoverySource],
+      ['urgencyLevel', filters.urgencyLevel],
+      ['operationSize', filters.operationSize],
+    ];
+    for (const [name, values] of equalsAny) {
+      if (values?.length) {
+        conditions.push(Prisma.sql`${column(name)} = ANY(${values}::text[])`);
+      }
+    }
+
+    const holdsAny: Array<[keyof Client, string[] | undefined]> = [
+      ['painPoints', filters.painPoint],
+      ['technicalRequirements', filters.technicalRequirement],
+      ['tags', filters.tag],
+    ];
+    for (const [name, values] of holdsAny) {
+      if (values?.length) {
+        conditions.push(Prisma.sql`${column(name)} && ${values}::text[]`);
+      }
     }
 
     if (filters.closed !== undefined) {
-      where.closed = filters.closed;
+      conditions.push(Prisma.sql`closed = ${filters.closed}`);
     }
 
-    if (filters.sentiment) {
-      where.sentiment = filters.sentiment;
+    if (filters.processed !== undefined) {
+      conditions.push(Prisma.sql`processed = ${filters.processed}`);
     }
 
-    if (filters.discoverySource) {
-      where.discoverySource = filters.discoverySource;
+    if (filters.meetingDateFrom) {
+      conditions.push(
+        Prisma.sql`"meetingDate" >= ${new Date(filters.meetingDateFrom)}`,
+      );
+    }
+
+    if (filters.meetingDateTo) {
+      const { lt, lte } = this.upTo(filters.meetingDateTo);
+      conditions.push(
+        lt
+          ? Prisma.sql`"meetingDate" < ${lt}`
+          : Prisma.sql`"meetingDate" <= ${lte}`,
+      );
+    }
+
+    if (filters.interactionVolumeMin !== undefined) {
+      conditions.push(
+        Prisma.sql`"interactionVolume" >= ${filters.interactionVolumeMin}`,
+      );
+    }
+
+    if (filters.interactionVolumeMax !== undefined) {
+      conditions.push(
+        Prisma.sql`"interactionVolume" <= ${filters.interactionVolumeMax}`,
+      );
     }
 
     if (filters.search) {
-      where.OR = [
-        { name: { contains: filters.search, mode: 'insensitive' } },
-        { email: { contains: filters.search, mode: 'insensitive' } },
-        { transcription: { contains: filters.search, mode: 'insensitive' } },
-      ];
+      const query = toTsQuery(filters.search);
+      conditions.push(
+        query
+          ? Prisma.sql`"searchVector" @@ ${this.toTsQuerySql(query)}`
+          : Prisma.sql`FALSE`,
+      );
     }
 
-    const [clients, total] = await Promise.all([
+    return conditions;
+  }
+
+  /**
+   * Attach the rank and a highlighted transcription snippet to each listed search match
+   * @private
+   */
+  private async addSearchMatches(
+    clients: Client[],
+    search: ClientSearch,
+  ): Promise<ClientListItem[]> {
+    if (!search.query || clients.length === 0) {
+      return clients;
+    }
+
+    // Transcriptions are mostly Spanish, so snippets are cut with the Spanish configuration
+    const rows = await this.prisma.$queryRaw<SearchSnippetRow[]>`
+      SELECT id,
+        CASE WHEN (to_tsvector('spanish'::regconfig, transcription) || to_tsvector('english'::regconfig, transcription)) @@ search.query
+          THEN ts_headline('spanish'::regconfig, transcription, search.query, ${CLIENT_CONSTANTS.SEARCH_HEADLINE_OPTIONS})
+        END AS snippet
+      FROM clients, (SELECT ${this.toTsQuerySql(search.query)} AS query) AS search
+      WHERE id IN (${Prisma.join(clients.map((client) => client.id))})
+    `;
+    const snippets = new Map(rows.map((row) => [row.id, row.snippet]));
+
+    return clients.map((client) => ({
+      ...client,
+      search: {
+        rank: search.ranks.get(client.id) ?? 0,
+        snippet: snippets.get(client.id) ?? null,
+      },
+    }));
+  }
+
+  /**
+   * Fetch one page of clients matching a where clause
+   * One extra row is read to know whether another page follows. A cursor page continues strictly
+   * after (or before) the sort value and id it holds, so rows added meanwhile cause no duplicates or gaps.
+   * @private
+   */
+  private async findPage(
+    where: Prisma.ClientWhereInput,
+    filters: ClientFilterDto,
+    sort: string,
+  ): Promise<ClientPage> {
+    if (filters.cursor && filters.page) {
+      throw new BadRequestException('Use either page or cursor, not both');
+    }
+
+    const limit = filters.limit || API_CONSTANTS.PAGINATION.DEFAULT_LIMIT;
+    const includeTotal = filters.includeTotal ?? true;
+    const cursor = filters.cursor
+      ? this.decodeClientCursor(filters.cursor, sort)
+      : null;
+    const page = cursor
+      ? null
+      : filters.page || API_CONSTANTS.PAGINATION.DEFAULT_PAGE;
+    const backwards = cursor?.direction === 'prev';
+
+    const [rows, total] = await Promise.all([
       this.prisma.client.findMany({
-        where,
-        skip,
-        take: limit,
-        orderBy: { meetingDate: 'desc' },
+        where: cursor ? { AND: [where, this.buildCursorWhere(cursor)] } : where,
+        ...(page ? { skip: (page - 1) * limit } : {}),
+        take: limit + 1,
+        orderBy: this.buildOrderBy(sort, backwards),
       }),
-      this.prisma.client.count({ where }),
+      includeTotal ? this.prisma.client.count({ where }) : null,
     ]);
 
-    return { clients, total, page, limit };
+    const hasMore = rows.length > limit;
+    const clients = rows.slice(0, limit);
+    if (backwards) {
+      clients.reverse();
+    }
+
+    const first = clients[0];
+    const last = clients[clients.length - 1];
+    const hasPrevious = backwards
+      ? hasMore
+      : cursor !== null || (page ?? 1) > 1;
+    const hasNext = backwards ? true : hasMore;
+
+    return {
+      clients,
+      total,
+      page,
+      limit,
+      nextCursor:
+        last && hasNext ? this.encodeClientCursor(last, sort, 'next') : null,
+      prevCursor:
+        first && hasPrevious
+          ? this.encodeClientCursor(first, sort, 'prev')
+          : null,
+    };
+  }
+
+  private encodeClientCursor(
+    client: Client,
+    sort: string,
+    direction: CursorDirection,
+  ): string {
+    const value = client[this.parseSort(sort).field];
+    return encodeCursor({
+      sort,
+      value: value instanceof Date ? value.toISOString() : value,
+      id: client.id,
+      direction,
+    });
+  }
+
+  /**
+   * @throws BadRequestException when the cursor is malformed or was issued for another sort
+   * @private
+   */
+  private decodeClientCursor(encoded: string, sort: string): PageCursor {
+    const cursor = decodeCursor(encoded);
+    if (!cursor) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    if (cursor.sort !== sort) {
+      throw new BadRequestException(
+        `Cursor was issued for sort ${cursor.sort}; request the first page again to change the sort`,
+      );
+    }
+    return cursor;
+  }
+
+  /**
+   * Rows strictly after the cursor position in reading order
+   * Postgres sorts NULL above every value (last ascending, first descending), so nullable columns
+   * treat NULL as the largest value.
+   * @private
+   */
+  private buildCursorWhere(cursor: PageCursor): Prisma.ClientWhereInput {
+    const { field, direction } = this.parseSort(cursor.sort);
+    const ascending = (direction === 'asc') !== (cursor.direction === 'prev');
+    const idAfter: Prisma.ClientWhereInput = {
+      id: ascending ? { gt: cursor.id } : { lt: cursor.id },
+    };
+
+    if (field === 'id') {
+      return idAfter;
+    }
+
+    const value =
+      cursor.value !== null && CLIENT_DATE_FIELDS.has(field)
+        ? new Date(cursor.value as string)
+        : cursor.value;
+    const conditions: Prisma.ClientWhereInput[] = [
+      { [field]: value, ...idAfter },
+    ];
+
+    if (value === null) {
+      if (!ascending) {
+        conditions.push({ [field]: { not: null } });
+      }
+    } else {
+      const beyond = this.valuesBeyond(value, ascending);
+      if (beyond) {
+        conditions.push({ [field]: beyond });
+      }
+      if (ascending) {
+        conditions.push({ [field]: null });
+      }
+    }
+
+    return { OR: conditions };
+  }
+
+  /**
+   * Filter for the values strictly above (or below) a sort value; booleans only support equality in Prisma
+   * @private
+   */
+  private valuesBeyond(
+    value: string | number | boolean | Date,
+    ascending: boolean,
+  ): unknown {
+    if (typeof value === 'boolean') {
+      return value === !ascending ? ascending : null;
+    }
+    return ascending ? { gt: value } : { lt: value };
+  }
+
+  private parseSort(sort: string): {
+    field: SortableField;
+    direction: Prisma.SortOrder;
+  } {
+    const [field, direction = 'asc'] = sort.split(':') as [
+      SortableField,
+      Prisma.SortOrder | undefined,
+    ];
+    return { field, direction };
+  }
+
+  /**
+   * Translate listing filters into a Prisma where clause
+   * Multi-value filters match any of their values; list filters match clients holding any of the given entries.
+   * A search is applied through its full-text matches, resolved beforehand by findSearchMatches.
+   * Keep in line with buildFilterSql.
+   * @private
+   */
+  private buildFilterWhere(
+    filters: ClientFilterDto,
+    search: ClientSearch | null = null,
+  ): Prisma.ClientWhereInput {
+    const where: Prisma.ClientWhereInput = {};
+
+    if (filters.assignedSeller?.length) {
+      where.assignedSeller = this.equalsAny(filters.assignedSeller);
+    }
+
+    if (filters.sellerId?.length) {
+      where.sellerId = this.equalsAny(filters.sellerId);
+    }
+
+    if (filters.stageId?.length) {
+      where.stageId = this.equalsAny(filters.stageId);
+    }
+
+    if (filters.industry?.length) {
+      where.industry = this.equalsAny(filters.industry);
+    }
+
+    if (filters.closed !== undefined) {
+      where.closed = filters.closed;
+    }
+
+    if (filters.processed !== undefined) {
+      where.processed = filters.processed;
+    }
+
+    if (filters.categorizationStatus?.length) {
+      where.categorizationStatus = this.equalsAny(filters.categorizationStatus);
+    }
+
+    if (filters.sentiment?.length) {
+      where.sentiment = this.equalsAny(filters.sentiment);
+    }
+
+    if (filters.discoverySource?.length) {
+      where.discoverySource = this.equalsAny(filters.discoverySource);
+    }
+
+    if (filters.urgencyLevel?.length) {
+      where.urgencyLevel = this.equalsAny(filters.urgencyLevel);
+    }
+
+    if (filters.operationSize?.length) {
+      where.operationSize = this.equalsAny(filters.operationSize);
+    }
+
+    if (filters.painPoint?.length) {
+      where.painPoints = { hasSome: filters.painPoint };
+    }
+
+    if (filters.technicalRequirement?.length) {
+      where.technicalRequirements = { hasSome: filters.technicalRequirement };
+    }
+
+    if (filters.tag?.length) {
+      where.tags = { hasSome: filters.tag };
+    }
+
+    if (filters.meetingDateFrom || filters.meetingDateTo) {
+      where.meetingDate = {
+        ...(filters.meetingDateFrom && {
+          gte: new Date(filters.meetingDateFrom),
+        }),
+        ...(filters.meetingDateTo && this.upTo(filters.meetingDateTo)),
+      };
+    }
+
+    if (
+      filters.interactionVolumeMin !== undefined ||
+      filters.interactionVolumeMax !== undefined
+    ) {
+      where.interactionVolume = {
+        ...(filters.interactionVolumeMin !== undefined && {
+          gte: filters.interactionVolumeMin,
+        }),
+        ...(filters.interactionVolumeMax !== undefined && {
+          lte: filters.interactionVolumeMax,
+        }),
+      };
+    }
+
+    if (search) {
+      where.id = { in: [...search.ranks.keys()] };
+    }
+
+    return where;
+  }
+
+  private equalsAny(values: string[]): string | { in: string[] } {
+    return values.length === 1 ? values[0] : { in: values };
+  }
+
+  /**
+   * Inclusive upper bound for a date; a date without a time includes that whole day
+   * @private
+   */
+  private upTo(date: string): Prisma.DateTimeFilter {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      const nextDay = new Date(date);
+      nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+      return { lt: nextDay };
+    }
+    return { lte: new Date(date) };
+  }
+
+  /**
+   * Turn a validated `<field>:<asc|desc>` sort into a Prisma order, with the id as tie-breaker so pages are stable
+   * @private
+   */
+  private buildOrderBy(
+    sort: string,
+    reverse = false,
+  ): Prisma.ClientOrderByWithRelationInput[] {
+    const { field, direction: sortDirection } = this.parseSort(sort);
+    const direction: Prisma.SortOrder = reverse
+      ? sortDirection === 'asc'
+        ? 'desc'
+        : 'asc'
+      : sortDirection;
+
+    return field === 'id'
+      ? [{ id: direction }]
+      : [{ [field]: direction }, { id: direction }];
   }
 
+  /**
+   * Find a client that is not in the trash
+   * @throws NotFoundException when the client does not exist or was deleted
+   */
   async findOne(id: string): Promise<Client> {
     const client = await this.prisma.client.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
     });
 
     if (!client) {
@@ -112,63 +986,543 @@ export class ClientsService {
     return client;
   }
 
-  async updateClient(id: string, data: Partial<Client>): Promise<Client> {
-    return this.prisma.client.update({
+  /**
+   * Update the provided fields of a client
+   * A changed transcription resets the processed flag so the client is categorized again. A new stage,
+   * or a closed flag that no longer matches the current stage, moves the client like moveToStage.
+   * @returns The client, and whether its transcription changed and needs categorizing again
+   * @throws NotFoundException when the client does not exist
+   * @throws ConflictException when the new email belongs to another client
+   * @throws BadRequestException when the stage name matches no pipeline stage
+   */
+  async updateClient(
+    id: string,
+    updateClientDto: UpdateClientDto,
+  ): Promise<{ client: Client; transcriptionChanged: boolean }> {
+    const existing = await this.findOne(id);
+
+    if (updateClientDto.email && updateClientDto.email !== existing.email) {
+      await this.assertEmailAvailable(updateClientDto.email);
+    }
+
+    const {
+      meetingDate,
+      assignedSeller,
+      stage: stageName,
+      closed,
+      ...fields
+    } = updateClientDto;
+    const data: Prisma.ClientUpdateInput = {
+      ...fields,
+      meetingDate: meetingDate ? new Date(meetingDate) : undefined,
+    };
+
+    // A first amount without a currency is stored in the default currency
+    if (
+      fields.dealAmount !== undefined &&
+      !fields.currency &&
+      !existing.currency
+    ) {
+      data.currency = CLIENT_CONSTANTS.DEFAULT_CURRENCY;
+    }
+
+    if (
+      stageName !== undefined ||
+      (closed !== undefined && closed !== existing.closed)
+    ) {
+      const stage = await this.pipelineStagesService.resolve(
+        stageName,
+        closed ?? existing.closed,
+      );
+      if (stage.id !== existing.stageId) {
+        Object.assign(data, this.toStageChange(existing, stage));
+      }
+    }
+
+    if (assignedSeller !== undefined) {
+      const seller = await this.sellersService.resolve(assignedSeller);
+      data.assignedSeller = seller.name;
+      data.seller = { connect: { id: seller.id } };
+    }
+
+    const transcriptionChanged =
+      updateClientDto.transcription !== undefined &&
+      updateClientDto.transcription !== existing.transcription;
+    if (transcriptionChanged) {
+      data.processed = false;
+      data.processedAt = null;
+    }
+
+    const client = await this.prisma.client.update({
       where: { id },
       data,
     });
+
+    if (this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log('Analytics cache invalidated after updating a client');
+    }
+
+    return { client, transcriptionChanged };
   }
 
   /**
-   * Delete all clients and clear related tables
-   * This empties clients, processing_batches, and analysis_logs tables
-   * but keeps the table structure intact
-   * @returns Summary of deleted records from all tables
+   * Move a client to another pipeline stage, recording the change in its stage history
+   * @param dto - Target stage and an optional note for the history
+   * @returns The client, unchanged when it already is in the stage
+   * @throws NotFoundException when the client or the stage does not exist
    */
-  async deleteAll(): Promise<{
-    clients: number;
-    processingBatches: number;
-    analysisLogs: number;
-    total: number;
-  }> {
-    const [analysisLogsResult, processingBatchesResult, clientsResult] =
-      await Promise.all([
-        this.prisma.analysisLog.deleteMany({}),
-        this.prisma.processingBatch.deleteMany({}),
-        this.prisma.client.deleteMany({}),
-      ]);
-
-    const total =
-      analysisLogsResult.count +
-      processingBatchesResult.count +
-      clientsResult.count;
-
-    if (total > 0 && this.cacheService) {
+  async moveToStage(id: string, dto: MoveClientStageDto): Promise<Client> {
+    const existing = await this.findOne(id);
+    const stage = await this.pipelineStagesService.findOne(dto.stageId);
+
+    if (stage.id === existing.stageId) {
+      return existing;
+    }
+
+    const client = await this.prisma.client.update({
+      where: { id },
+      data: this.toStageChange(existing, stage, dto.note),
+    });
+
+    if (this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log(
+        'Analytics cache invalidated after moving a client to another stage',
+      );
+    }
+
+    return client;
+  }
+
+  /**
+   * Stage changes of a client, oldest first
+   * @throws NotFoundException when the client does not exist
+   */
+  async getStageHistory(id: string): Promise<ClientStageChangeDto[]> {
+    await this.findOne(id);
+
+    const changes = await this.prisma.clientStageChange.findMany({
+      where: { clientId: id },
+      include: {
+        fromStage: { select: { name: true } },
+        toStage: { select: { name: true } },
+      },
+      orderBy: { changedAt: 'asc' },
+    });
+
+    return changes.map((change) => ({
+      id: change.id,
+      fromStageId: change.fromStageId,
+      fromStage: change.fromStage.name,
+      toStageId: change.toStageId,
+      toStage: change.toStage.name,
+      note: change.note,
+      changedAt: change.changedAt,
+    }));
+  }
+
+  /**
+   * Get the model calls made for a client, newest first, optionally of one action only
+   * @throws NotFoundException when the client does not exist or was deleted
+   */
+  async getAnalysisHistory(
+    id: string,
+    query: AnalysisHistoryQueryDto = {},
+  ): Promise<AnalysisLogDto[]> {
+    await this.findOne(id);
+
+    return this.prisma.analysisLog.findMany({
+      where: { clientId: id, ...(query.action && { action: query.action }) },
+      select: {
+        id: true,
+        action: true,
+        promptVersion: true,
+        model: true,
+        rawResponse: true,
+        result: true,
+        latencyMs: true,
+        inputTokens: true,
+        outputTokens: true,
+        executedAt: true,
+      },
+      orderBy: [{ executedAt: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  /**
+   * Update moving a client to a stage: its closed flag follows the stage outcome and the move is
+   * recorded in the stage history
+   * @private
+   */
+  private toStageChange(
+    existing: Client,
+    stage: Pick<Stage, 'id' | 'outcome'>,
+    note?: string,
+  ): Prisma.ClientUpdateInput {
+    return {
+      stage: { connect: { id: stage.id } },
+      closed: stage.outcome === PipelineStageOutcomeEnum.WON,
+      stageChanges: {
+        create: { fromStageId: existing.stageId, toStageId: stage.id, note },
+      },
+    };
+  }
+
+  /**
+   * Move a client to the trash
+   * Trashed clients are hidden from listings and analytics until restored or purged.
+   * @throws NotFoundException when the client does not exist or is already in the trash
+   */
+  async removeClient(id: string): Promise<void> {
+    await this.findOne(id);
+
+    await this.prisma.client.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+
+    if (this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log(
+        'Analytics cache invalidated after moving a client to the trash',
+      );
+    }
+  }
+
+  /**
+   * Move every client that is not already in the trash to the trash
+   * @returns Number of clients moved
+   */
+  async removeAll(): Promise<{ clients: number }> {
+    const result = await this.prisma.client.updateMany({
+      where: { deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+
+    if (result.count > 0 && this.cacheService) {
       this.cacheService.clearAnalyticsCache();
       this.logger.log(
-        'Analytics cache invalidated after clearing all database tables',
+        'Analytics cache invalidated after moving all clients to the trash',
+      );
+    }
+
+    this.logger.log(`Moved ${result.count} clients to the trash`);
+
+    return { clients: result.count };
+  }
+
+  /**
+   * Take a client out of the trash
+   * @throws NotFoundException when the client is not in the trash
+   */
+  async restoreClient(id: string): Promise<Client> {
+    const trashed = await this.prisma.client.findUnique({
+      where: { id, deletedAt: { not: null } },
+    });
+
+    if (!trashed) {
+      throw new NotFoundException(
+        `Client with ID ${id} not found in the trash`,
       );
     }
 
+    const client = await this.prisma.client.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+
+    if (this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log('Analytics cache invalidated after restoring a client');
+    }
+
+    return client;
+  }
+
+  /**
+   * Permanently delete every client in the trash together with its analysis logs
+   * @param confirm - Must equal CLIENT_CONSTANTS.PURGE_CONFIRMATION
+   * @returns Summary of deleted records
+   * @throws BadRequestException when the confirmation token is missing or wrong
+   */
+  async purgeTrash(
+    confirm: string,
+  ): Promise<{ clients: number; analysisLogs: number; total: number }> {
+    if (confirm !== CLIENT_CONSTANTS.PURGE_CONFIRMATION) {
+      throw new BadRequestException(
+        `confirm must be ${CLIENT_CONSTANTS.PURGE_CONFIRMATION} to permanently delete the trash`,
+      );
+    }
+
+    const trashed = await this.prisma.client.findMany({
+      where: { deletedAt: { not: null } },
+      select: { id: true },
+    });
+    const ids = trashed.map((client) => client.id);
+
+    const [analysisLogsResult, clientsResult] = await this.prisma.$transaction([
+      this.prisma.analysisLog.deleteMany({ where: { clientId: { in: ids } } }),
+      this.prisma.client.deleteMany({
+        where: { id: { in: ids }, deletedAt: { not: null } },
+      }),
+    ]);
+
     this.logger.log(
-      `Cleared all tables: ${clientsResult.count} clients, ${processingBatchesResult.count} processing batches, ${analysisLogsResult.count} analysis logs`,
+      `Purged trash: ${clientsResult.count} clients, ${analysisLogsResult.count} analysis logs`,
     );
 
     return {
       clients: clientsResult.count,
-      processingBatches: processingBatchesResult.count,
       analysisLogs: analysisLogsResult.count,
-      total,
+      total: clientsResult.count + analysisLogsResult.count,
     };
   }
 
+  /**
+   * Apply one action to many clients in a single transaction
+   * Clients are selected by explicit ids or by listing filters (optionally a segment); clients in the
+   * trash are never selected. reassign-seller resolves the seller like createClient. reset-processed
+   * only clears the processed flag, so the clients are categorized again by the next processing run.
+   * @param dto - Action, its arguments and the clients to apply it to
+   * @returns How many clients matched and how many were actually changed
+   * @throws BadRequestException when neither or both of ids and filters are given
+   * @throws NotFoundException when filters.segmentId does not exist
+   */
+  async bulkAction(
+    dto: BulkClientActionDto,
+  ): Promise<BulkClientActionResultDto> {
+    if (Boolean(dto.ids) === Boolean(dto.filters)) {
+      throw new BadRequestException(
+        'Provide either ids or filters to select the clients, not both',
+      );
+    }
+
+    const where = dto.ids
+      ? { id: { in: dto.ids }, deletedAt: null }
+      : (await this.buildListingWhere(dto.filters!, { deletedAt: null })).where;
+    const seller =
+      dto.action === BulkClientActionEnum.REASSIGN_SELLER
+        ? await this.sellersService.resolve(dto.assignedSeller!)
+        : null;
+    const stage = await this.findBulkStage(dto);
+
+    const { ids, affected } = await this.prisma.$transaction(
+      async (tx) => {
+        const matched = await tx.client.findMany({
+          where,
+          select: { id: true },
+        });
+        const ids = matched.map((client) => client.id);
+
+        return {
+          ids,
+          affected: ids.length
+            ? await this.applyBulkAction(tx, dto, ids, seller, stage)
+            : 0,
+        };
+      },
+      { timeout: CLIENT_CONSTANTS.BULK_ACTION_TIMEOUT_MS },
+    );
+
+    const found = new Set(ids);
+    const notFound = dto.ids
+      ? [...new Set(dto.ids)].filter((id) => !found.has(id))
+      : [];
+
+    this.logger.log(
+      `Bulk ${dto.action}: ${ids.length} clients matched, ${affected} changed`,
+    );
+
+    if (affected > 0 && this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log(
+        'Analytics cache invalidated after a bulk action on clients',
+      );
+    }
+
+    return {
+      action: dto.action,
+      matched: ids.length,
+      affected,
+      unchanged: ids.length - affected,
+      notFound,
+    };
+  }
+
+  /**
+   * Stage the clients of a bulk action go to: the requested one for move-stage, and the first won or
+   * open stage for mark-closed and mark-open
+   * @throws NotFoundException when the stage of move-stage does not exist
+   * @private
+   */
+  private async findBulkStage(
+    dto: BulkClientActionDto,
+  ): Promise<Pick<Stage, 'id' | 'outcome'> | null> {
+    switch (dto.action) {
+      case BulkClientActionEnum.MOVE_STAGE:
+        return this.pipelineStagesService.findOne(dto.stageId!);
+      case BulkClientActionEnum.MARK_CLOSED:
+        return (await this.pipelineStagesService.loadPipeline()).defaultWon;
+      case BulkClientActionEnum.MARK_OPEN:
+        return (await this.pipelineStagesService.loadPipeline()).defaultOpen;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Run the update of a bulk action, skipping clients already in the requested state
+   * The ids travel as a single array parameter, so any number of clients fits in one statement.
+   * @param seller - Seller to assign (reassign-seller only)
+   * @param stage - Stage to move the clients to (move-stage, mark-closed and mark-open only)
+   * @returns Number of clients changed
+   * @private
+   */
+  private applyBulkAction(
+    tx: Prisma.TransactionClient,
+    dto: BulkClientActionDto,
+    ids: string[],
+    seller: Seller | null,
+    stage: Pick<Stage, 'id' | 'outcome'> | null,
+  ): Promise<number> {
+    const selected = Prisma.sql`id = ANY(${ids}::text[]) AND "deletedAt" IS NULL`;
+    const tags = [...new Set(dto.tags)];
+
+    switch (dto.action) {
+      case BulkClientActionEnum.REASSIGN_SELLER:
+        return tx.$executeRaw`
+          UPDATE clients SET "sellerId" = ${seller!.id}, "assignedSeller" = ${seller!.name}, "updatedAt" = NOW()
+          WHERE ${selected} AND "sellerId" <> ${seller!.id}
+        `;
+      case BulkClientActionEnum.MOVE_STAGE:
+        return this.moveManyToStage(
+          tx,
+          selected,
+          stage!,
+          Prisma.sql`"stageId" <> ${stage!.id}`,
+        );
+      // Closed clients already in a won stage, and open clients in an open or lost stage, stay where they are
+      case BulkClientActionEnum.MARK_CLOSED:
+        return this.moveManyToStage(
+          tx,
+          selected,
+          stage!,
+          Prisma.sql`closed = false`,
+        );
+      case BulkClientActionEnum.MARK_OPEN:
+        return this.moveManyToStage(
+          tx,
+          selected,
+          stage!,
+          Prisma.sql`closed = true`,
+        );
+      case BulkClientActionEnum.RESET_PROCESSED:
+        return tx.$executeRaw`
+          UPDATE clients SET processed = false, "processedAt" = NULL, "updatedAt" = NOW()
+          WHERE ${selected} AND processed = true
+        `;
+      case BulkClientActionEnum.ADD_TAGS:
+        return tx.$executeRaw`
+          UPDATE clients
+          SET tags = tags || ARRAY(SELECT tag FROM unnest(${tags}::text[]) AS tag WHERE NOT tag = ANY(tags)),
+            "updatedAt" = NOW()
+          WHERE ${selected} AND NOT tags @> ${tags}::text[]
+        `;
+      case BulkClientActionEnum.REMOVE_TAGS:
+        return tx.$executeRaw`
+          UPDATE clients
+          SET tags = ARRAY(SELECT tag FROM unnest(tags) AS tag WHERE NOT tag = ANY(${tags}::text[])),
+            "updatedAt" = NOW()
+          WHERE ${selected} AND tags && ${tags}::text[]
+        `;
+      case BulkClientActionEnum.DELETE:
+        return tx.$executeRaw`
+          UPDATE clients SET "deletedAt" = NOW(), "updatedAt" = NOW()
+          WHERE ${selected}
+        `;
+    }
+  }
+
+  /**
+   * Move the selected clients matching a condition to a stage, recording each move in the stage history
+   * @returns Number of clients moved
+   * @private
+   */
+  private moveManyToStage(
+    tx: Prisma.TransactionClient,
+    selected: Prisma.Sql,
+    stage: Pick<Stage, 'id' | 'outcome'>,
+    condition: Prisma.Sql,
+  ): Promise<number> {
+    return tx.$executeRaw`
+      WITH moved AS (
+        UPDATE clients
+        SET "stageId" = ${stage.id}, closed = ${stage.outcome === PipelineStageOutcomeEnum.WON}, "updatedAt" = NOW()
+        FROM (SELECT id, "stageId" FROM clients WHERE ${selected} AND ${condition}) AS previous
+        WHERE clients.id = previous.id
+        RETURNING clients.id, previous."stageId" AS "fromStageId"
+      )
+      INSERT INTO client_stage_changes (id, "clientId", "fromStageId", "toStageId", "changedAt")
+      SELECT gen_random_uuid()::text, id, "fromStageId", ${stage.id}, NOW() FROM moved
+    `;
+  }
+
   async getUnprocessedClients(): Promise<Client[]> {
     return this.prisma.client.findMany({
-      where: { processed: false },
+      where: { processed: false, deletedAt: null },
+    });
+  }
+
+  /**
+   * Processed clients to categorize again, oldest categorization first
+   * @param limit - Most clients returned; total counts every match
+   * @throws BadRequestException when no condition is given and all is not set
+   * @throws NotFoundException when filters.segmentId does not exist
+   */
+  async getClientsToReprocess(
+    dto: ReprocessClientsDto,
+    limit: number,
+  ): Promise<{ clients: Client[]; total: number }> {
+    const filtered = Object.values(dto.filters ?? {}).some(
+      (value) => value !== undefined,
+    );
+    if (!filtered && !dto.processedBefore && !dto.promptVersion && !dto.all) {
+      throw new BadRequestException(
+        'Provide filters, processedBefore or promptVersion, or set all to reprocess every client',
+      );
+    }
+
+    const { where } = await this.buildListingWhere(dto.filters ?? {}, {
+      deletedAt: null,
     });
+    const reprocessWhere: Prisma.ClientWhereInput = {
+      ...where,
+      processed: true,
+      ...(dto.processedBefore && {
+        processedAt: { lt: new Date(dto.processedBefore) },
+      }),
+      ...(dto.promptVersion && {
+        categorizationPromptVersion: dto.promptVersion,
+      }),
+    };
+
+    const [clients, total] = await Promise.all([
+      this.prisma.client.findMany({
+        where: reprocessWhere,
+        orderBy: { processedAt: 'asc' },
+        take: limit,
+      }),
+      this.prisma.client.count({ where: reprocessWhere }),
+    ]);
+
+    return { clients, total };
   }
 
-  async markAsProcessed(id: string, categorizedData: Prisma.ClientUpdateInput): Promise<Client> {
+  async markAsProcessed(
+    id: string,
+    categorizedData: Prisma.ClientUpdateInput,
+  ): Promise<Client> {
     return this.prisma.client.update({
       where: { id },
       data: {
@@ -179,6 +1533,62 @@ export class ClientsService {
     });
   }
 
+  /**
+   * Emails stay reserved while a client is in the trash, so it can always be restored
+   * @private
+   */
+  private async assertEmailAvailable(email: string): Promise<void> {
+    const existing = await this.prisma.client.findUnique({ where: { email } });
+    if (existing?.deletedAt) {
+      throw new ConflictException(
+        `Client with email ${email} is in the trash; restore it instead`,
+      );
+    }
+    if (existing) {
+      throw new ConflictException(`Client with email ${email} already exists`);
+    }
+  }
+
+  /**
+   * Map a CreateClientDto to Prisma input, keeping pre-categorized fields only when provided
+   * @param seller - Seller resolved from client.assignedSeller; the client stores the seller's own name
+   * @param stage - Stage resolved from client.stage or client.closed; closed follows its outcome
+   * @private
+   */
+  private toClientCreateInput(
+    client: CreateClientDto,
+    seller: Seller,
+    stage: Stage,
+  ): Prisma.ClientCreateManyInput {
+    return {
+      name: client.name,
+      email: client.email,
+      phone: client.phone,
+      assignedSeller: seller.name,
+      sellerId: seller.id,
+      meetingDate: new Date(client.meetingDate),
+      stageId: stage.id,
+      closed: stage.outcome === PipelineStageOutcomeEnum.WON,
+      transcription: client.transcription,
+      dealAmount: client.dealAmount,
+      currency:
+        client.currency ??
+        (client.dealAmount !== undefined
+          ? CLIENT_CONSTANTS.DEFAULT_CURRENCY
+          : undefined),
+      industry: client.industry,
+      operationSize: client.operationSize,
+      interactionVolume: client.interactionVolume,
+      discoverySource: client.discoverySource,
+      mainMotivation: client.mainMotivation,
+      urgencyLevel: client.urgencyLevel,
+      painPoints: client.painPoints,
+      technicalRequirements: client.technicalRequirements,
+      sentiment: client.sentiment,
+      tags: client.tags,
+    };
+  }
+
   async getUniqueValues(): Promise<{
     sellers: string[];
     industries: string[];
@@ -186,6 +1596,7 @@ export class ClientsService {
     discoverySources: string[];
   }> {
     const clients = await this.prisma.client.findMany({
+      where: { deletedAt: null },
       select: {
         assignedSeller: true,
         industry: true,
@@ -194,15 +1605,21 @@ export class ClientsService {
       },
     });
 
-    const sellers = [...new Set(clients.map(c => c.assignedSeller))].sort();
-    
-    const industriesFiltered = clients.map(c => c.industry).filter((v): v is string => v !== null);
+    const sellers = [...new Set(clients.map((c) => c.assignedSeller))].sort();
+
+    const industriesFiltered = clients
+      .map((c) => c.industry)
+      .filter((v): v is string => v !== null);
     const industries = [...new Set(industriesFiltered)].sort();
-    
-    const sentimentsFiltered = clients.map(c => c.sentiment).filter((v): v is string => v !== null);
+
+    const sentimentsFiltered = clients
+      .map((c) => c.sentiment)
+      .filter((v): v is string => v !== null);
     const sentiments = [...new Set(sentimentsFiltered)].sort();
-    
-    const discoverySourcesFiltered = clients.map(c => c.discoverySource).filter((v): v is string => v !== null);
+
+    const discoverySourcesFiltered = clients
+      .map((c) => c.discoverySource)
+      .filter((v): v is string => v !== null);
     const discoverySources = [...new Set(discoverySourcesFiltered)].sort();
 
     return {
@@ -213,4 +1630,3 @@ export class ClientsService {
     };
   }
 }
-
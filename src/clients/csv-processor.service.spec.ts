@@ -1,6 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { CsvProcessorService } from './csv-processor.service';
-import { CreateClientDto } from '../common/dto/client.dto';
+import { Readable } from 'stream';
+import {
+  CsvProcessorService,
+  MeetingDateOptions,
+  ParsedImportFile,
+  SourceRecord,
+} from './csv-processor.service';
+import { BadRequestException } from '@nestjs/common';
+import { DateFormatEnum } from '../common/dto/clients';
 
 // Mock csv-parse/sync
 jest.mock('csv-parse/sync', () => ({
@@ -28,7 +35,8 @@ describe('CsvProcessorService', () => {
   describe('parseCsvContent', () => {
     it('should parse CSV content successfully', () => {
       // Arrange
-      const csvContent = 'Nombre,Correo Electronico,Numero de Telefono,Fecha de la Reunion,Vendedor asignado,closed,Transcripcion\nJohn Doe,john@test.com,1234567890,2024-01-15,Seller 1,true,Meeting transcription';
+      const csvContent =
+        'Nombre,Correo Electronico,Numero de Telefono,Fecha de la Reunion,Vendedor asignado,closed,Transcripcion\nJohn Doe,john@test.com,1234567890,2024-01-15,Seller 1,true,Meeting transcription';
       const mockRecords = [
         {
           Nombre: 'John Doe',
@@ -218,7 +226,9 @@ describe('CsvProcessorService', () => {
       });
 
       // Act & Assert
-      expect(() => service.parseCsvContent(csvContent)).toThrow('Failed to parse CSV: Invalid CSV format');
+      expect(() => service.parseCsvContent(csvContent)).toThrow(
+        'Failed to parse CSV: Invalid CSV format',
+      );
     });
 
     it('should handle CSV with special characters in names', () => {
@@ -296,5 +306,573 @@ describe('CsvProcessorService', () => {
       expect(result[0].transcription).toBe('');
     });
   });
-});
+  describe('streamCsvRecords', () => {
+    const readAll = async (
+      content: string,
+      chunkSize?: number,
+      delimiter?: string,
+    ): Promise<ParsedImportFile[]> => {
+      const chunks: ParsedImportFile[] = [];
+      for await (const chunk of service.streamCsvRecords(
+        Readable.from([content]),
+        chunkSize,
+        delimiter,
+      )) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    it('should read records with the line where they start', async () => {
+      const [chunk] = await readAll(
+        'Nombre,Transcripcion\nA,"first\nsecond"\n\nB,short\n',
+      );
+
+      expect(chunk.columns).toEqual(['Nombre', 'Transcripcion']);
+      expect(chunk.records).toEqual([
+        { line: 2, record: { Nombre: 'A', Transcripcion: 'first\nsecond' } },
+        { line: 5, record: { Nombre: 'B', Transcripcion: 'short' } },
+      ]);
+      expect(chunk.rejected).toEqual([]);
+    });
+
+    it('should reject malformed records without failing the file', async () => {
+      const [chunk] = await readAll('Nombre,closed\nA,1\nB,0,extra\nC,1\n');
+
+      expect(chunk.records.map((entry) => entry.line)).toEqual([2, 4]);
+      expect(chunk.rejected).toHaveLength(1);
+      expect(chunk.rejected[0].line).toBe(3);
+      expect(chunk.rejected[0].errors[0].reason).toMatch(
+        /Invalid Record Length/,
+      );
+    });
+
+    it('should split records into chunks', async () => {
+      const chunks = await readAll('Nombre\nA\nB\nC\nD\n', 2);
+
+      expect(
+        chunks.map((chunk) =>
+          chunk.records.map((entry) => entry.record.Nombre),
+        ),
+      ).toEqual([
+        ['A', 'B'],
+        ['C', 'D'],
+      ]);
+      expect(chunks[1].columns).toEqual(['Nombre']);
+    });
+
+    it('should split fields on the given delimiter', async () => {
+      const [chunk] = await readAll(
+        'Nombre;closed\n"Client, Inc";1\n',
+        undefined,
+        ';',
+      );
+
+      expect(chunk.records).toEqual([
+        { line: 2, record: { Nombre: 'Client, Inc', closed: '1' } },
+      ]);
+    });
+
+    it('should yield a single empty chunk for an empty file', async () => {
+      const chunks = await readAll('');
+
+      expect(chunks).toEqual([{ columns: [], records: [], rejected: [] }]);
+    });
+
+    it('should reject an unterminated quoted field', async () => {
+      const [chunk] = await readAll('Nombre,closed\nA,1\n"B,0\n');
+
+      expect(chunk.records.map((entry) => entry.line)).toEqual([2]);
+      expect(chunk.rejected[0].line).toBe(3);
+      expect(chunk.rejected[0].errors[0].reason).toMatch(/^Quote Not Closed/);
+    });
+
+    it('should throw BadRequestException when the input cannot be read', async () => {
+      const input = new Readable({
+        read() {
+          this.destroy(new Error('disk failure'));
+        },
+      });
+
+      const consume = async () => {
+        for await (const chunk of service.streamCsvRecords(input)) {
+          expect(chunk).toBeDefined();
+        }
+      };
+
+      await expect(consume()).rejects.toThrow(
+        'Failed to parse CSV: disk failure',
+      );
+    });
+  });
+
+  describe('validateRecords', () => {
+    const validRow = {
+      Nombre: 'Client',
+      'Correo Electronico': 'client@test.com',
+      'Numero de Telefono': '123',
+      'Fecha de la Reunion': '2024-01-01',
+      'Vendedor asignado': 'Seller',
+      closed: '1',
+      Transcripcion: 'Transcription',
+    };
+
+    const toFile = (
+      records: SourceRecord[],
+      columns: string[] = Object.keys(validRow),
+      rejected: ParsedImportFile['rejected'] = [],
+    ): ParsedImportFile => ({ columns, records, rejected });
+
+    it('should accept valid rows with their line numbers', () => {
+      const result = service.validateRecords(
+        toFile([{ line: 2, record: validRow }]),
+      );
+
+      expect(result.totalRows).toBe(1);
+      expect(result.accepted).toEqual([
+        {
+          line: 2,
+          client: {
+            name: 'Client',
+            email: 'client@test.com',
+            phone: '123',
+            assignedSeller: 'Seller',
+            meetingDate: new Date('2024-01-01').toISOString(),
+            closed: true,
+            transcription: 'Transcription',
+          },
+        },
+      ]);
+      expect(result.rejected).toEqual([]);
+      expect(result.duplicates).toEqual([]);
+    });
+
+    it('should reject rows with invalid fields, reporting column and reason', () => {
+      const invalidRow = {
+        ...validRow,
+        'Correo Electronico': 'not-an-email',
+        'Fecha de la Reunion': 'not-a-date',
+        closed: 'maybe',
+        Transcripcion: '',
+      };
+
+      const result = service.validateRecords(
+        toFile([{ line: 3, record: invalidRow }]),
+      );
+
+      expect(result.accepted).toEqual([]);
+      expect(result.rejected).toHaveLength(1);
+      expect(result.rejected[0].line).toBe(3);
+      expect(result.rejected[0].errors.map((error) => error.column)).toEqual([
+        'closed',
+        'Fecha de la Reunion',
+        'Correo Electronico',
+        'Transcripcion',
+      ]);
+      expect(result.rejected[0].errors[0]).toEqual({
+        column: 'closed',
+        value: 'maybe',
+        reason: 'closed must be one of 0, 1, true, false',
+      });
+    });
+
+    it('should report repeated emails within the file as duplicates', () => {
+      const result = service.validateRecords(
+        toFile([
+          { line: 2, record: validRow },
+          { line: 3, record: validRow },
+        ]),
+      );
+
+      expect(result.totalRows).toBe(2);
+      expect(result.accepted).toHaveLength(1);
+      expect(result.duplicates).toEqual([
+        {
+          line: 3,
+          email: 'client@test.com',
+          duplicateOf: 'file',
+          firstLine: 2,
+        },
+      ]);
+    });
+
+    it('should detect duplicates across chunks sharing the same email map', () => {
+      const firstLineByEmail = new Map<string, number>();
+
+      service.validateRecords(
+        toFile([{ line: 2, record: validRow }]),
+        undefined,
+        firstLineByEmail,
+      );
+      const result = service.validateRecords(
+        toFile([{ line: 900, record: validRow }]),
+        undefined,
+        firstLineByEmail,
+      );
+
+      expect(result.accepted).toEqual([]);
+      expect(result.duplicates).toEqual([
+        {
+          line: 900,
+          email: 'client@test.com',
+          duplicateOf: 'file',
+          firstLine: 2,
+        },
+      ]);
+    });
+
+    it('should include records rejected by the parser, sorted by line', () => {
+      const result = service.validateRecords(
+        toFile(
+          [
+            { line: 2, record: validRow },
+            { line: 3, record: { ...validRow, 'Correo Electronico': 'bad' } },
+          ],
+          undefined,
+          [{ line: 5, errors: [{ reason: 'Invalid Record Length' }] }],
+        ),
+      );
+
+      expect(result.totalRows).toBe(3);
+      expect(result.rejected.map((row) => row.line)).toEqual([3, 5]);
+    });
+
+    it('should throw BadRequestException when required columns are missing', () => {
+      const file = toFile([], ['Nombre', 'closed']);
+
+      expect(() => service.validateRecords(file)).toThrow(BadRequestException);
+      expect(() => service.validateRecords(file)).toThrow(
+        /Missing required columns: Correo Electronico/,
+      );
+    });
+
+    describe('meeting dates', () => {
+      const readDate = (
+        value: string,
+        dateOptions?: MeetingDateOptions,
+      ): string | undefined => {
+        const report = service.validateRecords(
+          toFile([
+            { line: 2, record: { ...validRow, 'Fecha de la Reunion': value } },
+          ]),
+          undefined,
+          new Map(),
+          dateOptions,
+        );
+        return (
+          report.accepted[0]?.client.meetingDate ??
+          report.rejected[0].errors[0].reason
+        );
+      };
+
+      const inFormat = (
+        format: DateFormatEnum,
+        timezone = 'UTC',
+      ): MeetingDateOptions => ({ format, timezone });
+
+      it('should read ISO dates, Excel serials and unambiguous day/month dates by default', () => {
+        expect(readDate('2024-11-05')).toBe('2024-11-05T00:00:00.000Z');
+        expect(readDate('2024-11-05T10:30:00-03:00')).toBe(
+          '2024-11-05T13:30:00.000Z',
+        );
+        expect(readDate('45600')).toBe('2024-11-04T00:00:00.000Z');
+        expect(readDate('25/11/2024')).toBe('2024-11-25T00:00:00.000Z');
+        expect(readDate('11/25/2024')).toBe('2024-11-25T00:00:00.000Z');
+        expect(readDate('05.05.2024')).toBe('2024-05-05T00:00:00.000Z');
+      });
+
+      it('should reject day/month dates that could be read both ways by default', () => {
+        expect(readDate('05/11/2024')).toBe(
+          'meetingDate 05/11/2024 is ambiguous: it could be dd/mm/yyyy or mm/dd/yyyy; set dateFormat for this import',
+        );
+      });
+
+      it('should read day/month dates in the configured order', () => {
+        expect(
+          readDate('05/11/2024', inFormat(DateFormatEnum.DAY_MONTH_YEAR)),
+        ).toBe('2024-11-05T00:00:00.000Z');
+        expect(
+          readDate('05/11/2024', inFormat(DateFormatEnum.MONTH_DAY_YEAR)),
+        ).toBe('2024-05-11T00:00:00.000Z');
+        expect(
+          readDate('2024-11-05', inFormat(DateFormatEnum.DAY_MONTH_YEAR)),
+        ).toBe('2024-11-05T00:00:00.000Z');
+      });
 
+      it('should reject values that do not match the configured format', () => {
+        expect(readDate('05/11/2024', inFormat(DateFormatEnum.ISO))).toBe(
+          'meetingDate must be an ISO 8601 date (yyyy-mm-dd)',
+        );
+        expect(readDate('45600', inFormat(DateFormatEnum.DAY_MONTH_YEAR))).toBe(
+          'meetingDate must be a dd/mm/yyyy or ISO 8601 date',
+        );
+        expect(readDate('next tuesday')).toBe(
+          'meetingDate must be an ISO 8601 date, an Excel serial or a day/month/year date',
+        );
+        expect(readDate('')).toBe('meetingDate is required');
+      });
+
+      it('should not read years or compact dates as Excel serials by default', () => {
+        expect(readDate('2024')).toBe(
+          'meetingDate must be an ISO 8601 date, an Excel serial or a day/month/year date',
+        );
+        expect(readDate('20240511')).toBe(
+          'meetingDate must be an ISO 8601 date, an Excel serial or a day/month/year date',
+        );
+        expect(readDate('2024', inFormat(DateFormatEnum.EXCEL_SERIAL))).toBe(
+          '1905-07-16T00:00:00.000Z',
+        );
+        expect(
+          readDate('20240511', inFormat(DateFormatEnum.EXCEL_SERIAL)),
+        ).toBe('meetingDate is not a valid Excel serial date');
+      });
+
+      it('should reject dates that do not exist', () => {
+        expect(
+          readDate('31/02/2024', inFormat(DateFormatEnum.DAY_MONTH_YEAR)),
+        ).toBe('meetingDate is not a valid calendar date');
+        expect(readDate('2024-13-01')).toBe(
+          'meetingDate is not a valid calendar date',
+        );
+        expect(readDate('0', inFormat(DateFormatEnum.EXCEL_SERIAL))).toBe(
+          'meetingDate is not a valid Excel serial date',
+        );
+      });
+
+      it('should read dates without an offset in the configured time zone', () => {
+        const santiago = (format: DateFormatEnum) =>
+          inFormat(format, 'America/Santiago');
+
+        expect(
+          readDate('05/11/2024 09:00', santiago(DateFormatEnum.DAY_MONTH_YEAR)),
+        ).toBe('2024-11-05T12:00:00.000Z');
+        expect(readDate('2024-07-05', santiago(DateFormatEnum.ISO))).toBe(
+          '2024-07-05T04:00:00.000Z',
+        );
+        expect(readDate('45600.5', santiago(DateFormatEnum.EXCEL_SERIAL))).toBe(
+          '2024-11-04T15:00:00.000Z',
+        );
+        expect(
+          readDate('2024-07-05T10:00:00Z', santiago(DateFormatEnum.ISO)),
+        ).toBe('2024-07-05T10:00:00.000Z');
+      });
+
+      it('should reject only the rows with unreadable dates', () => {
+        const result = service.validateRecords(
+          toFile([
+            {
+              line: 2,
+              record: { ...validRow, 'Fecha de la Reunion': '05/11/2024' },
+            },
+            {
+              line: 3,
+              record: { ...validRow, 'Correo Electronico': 'other@test.com' },
+            },
+          ]),
+        );
+
+        expect(result.accepted.map((row) => row.line)).toEqual([3]);
+        expect(result.rejected).toEqual([
+          {
+            line: 2,
+            errors: [
+              {
+                column: 'Fecha de la Reunion',
+                value: '05/11/2024',
+                reason:
+                  'meetingDate 05/11/2024 is ambiguous: it could be dd/mm/yyyy or mm/dd/yyyy; set dateFormat for this import',
+              },
+            ],
+          },
+        ]);
+      });
+    });
+
+    describe('with a custom column mapping', () => {
+      const mapping = {
+        name: 'Full Name',
+        email: 'Email',
+        phone: 'Phone',
+        assignedSeller: 'Owner',
+        meetingDate: 'Meeting Date',
+        closed: 'Won',
+        transcription: 'Notes',
+        industry: 'Industry',
+        interactionVolume: 'Volume',
+        painPoints: 'Pain Points',
+        sentiment: 'Sentiment',
+      };
+
+      const mappedRow = {
+        'Full Name': 'Client',
+        Email: 'client@test.com',
+        Phone: '123',
+        Owner: 'Seller',
+        'Meeting Date': '2024-01-01',
+        Won: 'TRUE',
+        Notes: 'Transcription',
+        Industry: 'Retail',
+        Volume: '250',
+        'Pain Points': 'manual work; slow replies|no CRM',
+        Sentiment: 'Positive',
+      };
+
+      const toMappedFile = (record: Record<string, string>) =>
+        toFile([{ line: 2, record }], Object.keys(mappedRow));
+
+      it('should read mapped columns including pre-categorized fields', () => {
+        const result = service.validateRecords(
+          toMappedFile(mappedRow),
+          mapping,
+        );
+
+        expect(result.accepted[0].client).toEqual({
+          name: 'Client',
+          email: 'client@test.com',
+          phone: '123',
+          assignedSeller: 'Seller',
+          meetingDate: new Date('2024-01-01').toISOString(),
+          closed: true,
+          transcription: 'Transcription',
+          industry: 'Retail',
+          interactionVolume: 250,
+          painPoints: ['manual work', 'slow replies', 'no CRM'],
+          sentiment: 'positive',
+        });
+      });
+
+      it('should leave empty optional cells unset', () => {
+        const result = service.validateRecords(
+          toMappedFile({ ...mappedRow, Industry: '', Sentiment: '' }),
+          mapping,
+        );
+
+        expect(result.accepted[0].client.industry).toBeUndefined();
+        expect(result.accepted[0].client.sentiment).toBeUndefined();
+      });
+
+      it('should report invalid optional values against the source column', () => {
+        const result = service.validateRecords(
+          toMappedFile({ ...mappedRow, Volume: 'lots', Sentiment: 'angry' }),
+          mapping,
+        );
+
+        expect(result.rejected[0].errors.map((error) => error.column)).toEqual([
+          'Volume',
+          'Sentiment',
+        ]);
+        expect(result.rejected[0].errors[1].value).toBe('angry');
+      });
+
+      it('should read deal amounts and upper-case currency codes', () => {
+        const result = service.validateRecords(
+          toFile(
+            [
+              {
+                line: 2,
+                record: { ...mappedRow, Amount: '12500.50', Currency: ' clp' },
+              },
+            ],
+            [...Object.keys(mappedRow), 'Amount', 'Currency'],
+          ),
+          { ...mapping, dealAmount: 'Amount', currency: 'Currency' },
+        );
+
+        expect(result.accepted[0].client).toMatchObject({
+          dealAmount: 12500.5,
+          currency: 'CLP',
+        });
+      });
+
+      it('should reject amounts with thousands separators', () => {
+        const result = service.validateRecords(
+          toFile(
+            [{ line: 2, record: { ...mappedRow, Amount: '12,500' } }],
+            [...Object.keys(mappedRow), 'Amount'],
+          ),
+          { ...mapping, dealAmount: 'Amount' },
+        );
+
+        expect(result.rejected[0].errors.map((error) => error.column)).toEqual([
+          'Amount',
+        ]);
+      });
+
+      it('should require the mapped headers instead of the default ones', () => {
+        const file = toFile(
+          [],
+          ['Full Name', 'Email', 'Phone', 'Owner', 'Meeting Date', 'Won'],
+        );
+
+        expect(() => service.validateRecords(file, mapping)).toThrow(
+          'Missing required columns: Notes',
+        );
+      });
+
+      describe('without a closed column', () => {
+        const stageColumns = [
+          ...Object.keys(mappedRow).filter((column) => column !== 'Won'),
+          'Stage',
+        ];
+        const toStageFile = (stage: string) =>
+          toFile(
+            [{ line: 2, record: { ...mappedRow, Stage: stage } }],
+            stageColumns,
+          );
+
+        it('should read the deal status from the stage column', () => {
+          const withoutClosed = service.validateRecords(
+            toStageFile('Negotiation'),
+            {
+              ...mapping,
+              closed: undefined,
+              stage: 'Stage',
+            },
+          );
+          const withBoth = service.validateRecords(toStageFile('Negotiation'), {
+            ...mapping,
+            stage: 'Stage',
+          });
+
+          expect(withoutClosed.accepted[0].client).toMatchObject({
+            stage: 'Negotiation',
+            closed: false,
+          });
+          expect(withBoth.accepted[0].client).toMatchObject({
+            stage: 'Negotiation',
+            closed: false,
+          });
+        });
+
+        it('should reject rows without a stage', () => {
+          const result = service.validateRecords(toStageFile(' '), {
+            ...mapping,
+            stage: 'Stage',
+          });
+
+          expect(result.rejected[0].errors).toEqual([
+            {
+              column: 'Stage',
+              value: ' ',
+              reason: 'stage is required when the file has no closed column',
+            },
+          ]);
+        });
+
+        it('should require the closed column when there is no stage column', () => {
+          const file = toFile(
+            [],
+            stageColumns.filter((column) => column !== 'Stage'),
+          );
+
+          expect(() => service.validateRecords(file, mapping)).toThrow(
+            'Missing required columns: Won',
+          );
+          expect(() =>
+            service.validateRecords(file, { ...mapping, stage: 'Stage' }),
+          ).toThrow('Missing required columns: Won');
+        });
+      });
+    });
+  });
+});
@@ -1,45 +1,559 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { parse } from 'csv-parse/sync';
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { parse as parseSync } from 'csv-parse/sync';
+import { parse, CsvError } from 'csv-parse';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
 import { CreateClientDto } from '../common/dto/client.dto';
-import { CsvRowDto } from '../common/dto/clients';
+import {
+  CsvFieldErrorDto,
+  CsvRejectedRowDto,
+  CsvValidationReportDto,
+  ColumnMapping,
+  ClientImportField,
+  DateFormatEnum,
+} from '../common/dto/clients';
+import { IMPORT_CONSTANTS } from '../common/constants';
+import { DateTimeParts, zonedTimeToUtc } from '../common/utils/date.utils';
+import { missingImportFields } from '../common/utils/import-mapping.utils';
+
+type CsvRecord = Record<string, string>;
+
+interface ParsedCsvRecord {
+  record: CsvRecord;
+  info: { lines: number };
+  raw: string;
+}
+
+/**
+ * A source row keyed by column header, whatever the file format
+ */
+export interface SourceRecord {
+  line: number; // Line (CSV/NDJSON), sheet row (XLSX) or item position (JSON) in the original file
+  record: CsvRecord;
+}
+
+export interface ParsedImportFile {
+  columns: string[];
+  records: SourceRecord[];
+  rejected: CsvRejectedRowDto[]; // Records the parser could not read
+}
+
+/**
+ * How meeting dates are read from an import
+ */
+export interface MeetingDateOptions {
+  format: DateFormatEnum;
+  timezone: string; // IANA time zone applied to dates without an explicit offset
+}
+
+const DEFAULT_DATE_OPTIONS: MeetingDateOptions = {
+  format: DateFormatEnum.AUTO,
+  timezone: IMPORT_CONSTANTS.DEFAULT_TIMEZONE,
+};
+
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const DAY_MONTH_DATE =
+  /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const EXCEL_SERIAL = /^\d+(?:\.\d+)?$/;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+/** Last serial Excel can display: 9999-12-31 */
+const EXCEL_SERIAL_MAX = 2958465;
+/** First serial auto mode reads (1954-10-03), so a bare year such as 2024 is not taken for a date */
+const AUTO_EXCEL_SERIAL_MIN = 20000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const DATE_FORMAT_DESCRIPTIONS: Record<DateFormatEnum, string> = {
+  [DateFormatEnum.AUTO]:
+    'an ISO 8601 date, an Excel serial or a day/month/year date',
+  [DateFormatEnum.ISO]: 'an ISO 8601 date (yyyy-mm-dd)',
+  [DateFormatEnum.DAY_MONTH_YEAR]: 'a dd/mm/yyyy or ISO 8601 date',
+  [DateFormatEnum.MONTH_DAY_YEAR]: 'a mm/dd/yyyy or ISO 8601 date',
+  [DateFormatEnum.EXCEL_SERIAL]: 'an Excel serial number or ISO 8601 date',
+};
+
+const CLOSED_FLAG_VALUES: Record<string, boolean> = {
+  '1': true,
+  true: true,
+  '0': false,
+  false: false,
+};
 
 @Injectable()
 export class CsvProcessorService {
   private readonly logger = new Logger(CsvProcessorService.name);
 
-  parseCsvContent(csvContent: string): CreateClientDto[] {
+  parseCsvContent(
+    csvContent: string,
+    mapping: ColumnMapping = IMPORT_CONSTANTS.DEFAULT_COLUMN_MAPPING,
+  ): CreateClientDto[] {
     try {
-      const records = parse(csvContent, {
+      const records = parseSync(csvContent, {
         columns: true,
         skip_empty_lines: true,
         trim: true,
         bom: true,
-      }) as CsvRowDto[];
+      }) as CsvRecord[];
 
       this.logger.log(`Parsed ${records.length} records from CSV`);
 
-      return records.map((record) => this.mapCsvRowToDto(record));
+      return records.map((record) => this.mapCsvRowToDto(record, mapping));
     } catch (error) {
       this.logger.error('Error parsing CSV:', error);
       throw new Error(`Failed to parse CSV: ${error.message}`);
     }
   }
 
-  private mapCsvRowToDto(row: CsvRowDto): CreateClientDto {
+  /**
+   * Stream CSV records in chunks so large files never have to be held in memory
+   * Malformed records are reported as rejected instead of failing the whole file.
+   * Line numbers refer to the line where the record starts in the original file.
+   * @param input - Readable stream with the raw CSV content
+   * @param chunkSize - Maximum number of records per chunk
+   * @param delimiter - Field delimiter (see ImportFileParserService.detectDialect)
+   * @throws BadRequestException when the CSV cannot be parsed at all
+   */
+  async *streamCsvRecords(
+    input: Readable,
+    chunkSize: number = IMPORT_CONSTANTS.CHUNK_SIZE,
+    delimiter: string = ',',
+  ): AsyncGenerator<ParsedImportFile> {
+    let columns: string[] = [];
+    let chunk: ParsedImportFile = { columns, records: [], rejected: [] };
+    let yielded = false;
+
+    const parser = input.pipe(
+      parse({
+        columns: (header: string[]) => {
+          columns = header;
+          return header;
+        },
+        delimiter,
+        skip_empty_lines: true,
+        trim: true,
+        bom: true,
+        info: true,
+        raw: true,
+        skip_records_with_error: true,
+        on_skip: (error: CsvError | undefined) => {
+          if (error) {
+            chunk.rejected.push({
+              line: error.lines,
+              errors: [{ reason: error.message }],
+            });
+          }
+        },
+      }),
+    );
+    input.once('error', (error) => parser.destroy(error));
+
+    try {
+      for await (const {
+        record,
+        info,
+        raw,
+      } of parser as AsyncIterable<ParsedCsvRecord>) {
+        chunk.records.push({
+          // info.lines is the line where the record ends; raw also carries any skipped empty lines before it
+          line: info.lines - (raw.trim().match(/\n/g) || []).length,
+          record,
+        });
+
+        if (chunk.records.length >= chunkSize) {
+          yield { ...chunk, columns };
+          yielded = true;
+          chunk = { columns, records: [], rejected: [] };
+        }
+      }
+    } catch (error) {
+      this.logger.error('Error parsing CSV:', error);
+      throw new BadRequestException(`Failed to parse CSV: ${error.message}`);
+    } finally {
+      input.destroy();
+    }
+
+    // Always yield at least once so an empty file still gets its header validated
+    if (!yielded || chunk.records.length > 0 || chunk.rejected.length > 0) {
+      yield { ...chunk, columns };
+    }
+  }
+
+  /**
+   * Validate parsed source records against CreateClientDto
+   * Invalid rows are rejected individually instead of failing the whole import,
+   * and repeated emails within the file are reported as duplicates of their first occurrence.
+   *
+   * @param file - Parsed records (or one chunk of them) from any supported format
+   * @param mapping - Client field -> source column mapping (defaults to the Spanish headers)
+   * @param firstLineByEmail - Emails seen so far; pass the same map for every chunk of a file
+   * @param dateOptions - Date format and time zone of the meeting dates (defaults to auto in UTC)
+   * @returns Validation report with accepted, rejected and duplicate rows
+   * @throws BadRequestException when required columns are missing from the header, or neither the
+   * closed nor the stage column is there
+   */
+  validateRecords(
+    file: ParsedImportFile,
+    mapping: ColumnMapping = IMPORT_CONSTANTS.DEFAULT_COLUMN_MAPPING,
+    firstLineByEmail: Map<string, number> = new Map(),
+    dateOptions: MeetingDateOptions = DEFAULT_DATE_OPTIONS,
+  ): CsvValidationReportDto {
+    this.validateHeader(file.columns, mapping);
+    // A mapping may name both closed and stage; a file carrying only the stage is read from it
+    const fileMapping: ColumnMapping =
+      mapping.closed && !file.columns.includes(mapping.closed)
+        ? { ...mapping, closed: undefined }
+        : mapping;
+
+    const report: CsvValidationReportDto = {
+      totalRows: 0,
+      accepted: [],
+      rejected: [...file.rejected],
+      duplicates: [],
+    };
+
+    for (const { line, record } of file.records) {
+      const { client, errors } = this.validateRow(
+        record,
+        fileMapping,
+        dateOptions,
+      );
+
+      if (!client) {
+        report.rejected.push({ line, errors });
+        continue;
+      }
+
+      const firstLine = firstLineByEmail.get(client.email);
+      if (firstLine !== undefined) {
+        report.duplicates.push({
+          line,
+          email: client.email,
+          duplicateOf: 'file',
+          firstLine,
+        });
+        continue;
+      }
+
+      firstLineByEmail.set(client.email, line);
+      report.accepted.push({ line, client });
+    }
+
+    report.rejected.sort((a, b) => a.line - b.line);
+    report.totalRows =
+      report.accepted.length +
+      report.rejected.length +
+      report.duplicates.length;
+
+    return report;
+  }
+
+  private validateHeader(header: string[], mapping: ColumnMapping): void {
+    const missing = missingImportFields(mapping, header).map(
+      (field) => mapping[field] ?? field,
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Missing required columns: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  private validateRow(
+    row: CsvRecord,
+    mapping: ColumnMapping,
+    dateOptions: MeetingDateOptions,
+  ): { client?: CreateClientDto; errors: CsvFieldErrorDto[] } {
+    const errors: CsvFieldErrorDto[] = [];
+
+    // Without a closed column the stage outcome sets closed, so each row needs a stage
+    const closed = mapping.closed
+      ? CLOSED_FLAG_VALUES[row[mapping.closed]?.toLowerCase()]
+      : false;
+    if (mapping.closed && closed === undefined) {
+      errors.push({
+        column: mapping.closed,
+        value: row[mapping.closed],
+        reason: 'closed must be one of 0, 1, true, false',
+      });
+    }
+    if (!mapping.closed && mapping.stage && !row[mapping.stage]?.trim()) {
+      errors.push({
+        column: mapping.stage,
+        value: row[mapping.stage],
+        reason: 'stage is required when the file has no closed column',
+      });
+    }
+
+    const { date: meetingDate, error: dateError } = this.parseMeetingDate(
+      row[mapping.meetingDate],
+      dateOptions,
+    );
+    if (dateError) {
+      errors.push({
+        column: mapping.meetingDate,
+        value: row[mapping.meetingDate],
+        reason: dateError,
+      });
+    }
+
+    const client = plainToInstance(CreateClientDto, {
+      ...this.mapRow(row, mapping),
+      meetingDate: meetingDate?.toISOString(),
+      closed: closed ?? false,
+    });
+
+    for (const error of validateSync(client)) {
+      const field = error.property as ClientImportField;
+      if (
+        (field === 'closed' && closed === undefined) ||
+        (field === 'meetingDate' && dateError)
+      ) {
+        continue;
+      }
+      errors.push({
+        column: mapping[field],
+        value: row[mapping[field] as string],
+        reason: Object.values(error.constraints || {}).join('; '),
+      });
+    }
+
+    return errors.length > 0 ? { errors } : { client: { ...client }, errors };
+  }
+
+  private mapCsvRowToDto(
+    row: CsvRecord,
+    mapping: ColumnMapping,
+  ): CreateClientDto {
+    const closedValue = mapping.closed ? row[mapping.closed] : undefined;
+    const { date, error } = this.parseMeetingDate(
+      row[mapping.meetingDate],
+      DEFAULT_DATE_OPTIONS,
+    );
+    if (!date) {
+      throw new Error(error);
+    }
+
     return {
-      name: row.Nombre,
-      email: row['Correo Electronico'],
-      phone: row['Numero de Telefono'],
-      assignedSeller: row['Vendedor asignado'],
-      meetingDate: this.parseMeetingDate(row['Fecha de la Reunion']),
-      closed: row.closed === '1' || row.closed === 'true',
-      transcription: row.Transcripcion,
+      ...this.mapRow(row, mapping),
+      meetingDate: date.toISOString(),
+      closed: closedValue === '1' || closedValue === 'true',
     };
   }
 
-  private parseMeetingDate(dateString: string): string {
-    const date = new Date(dateString);
-    return date.toISOString();
+  /**
+   * Map source columns to client fields
+   * The stage, deal value and pre-categorized fields are only set when mapped and non-empty: enum-like
+   * values are lowercased, list fields are split on ';' or '|', and volumes and amounts are converted
+   * to numbers.
+   * @private
+   */
+  private mapRow(
+    row: CsvRecord,
+    mapping: ColumnMapping,
+  ): Omit<CreateClientDto, 'meetingDate' | 'closed'> {
+    const client: Omit<CreateClientDto, 'meetingDate' | 'closed'> = {
+      name: row[mapping.name],
+      email: row[mapping.email],
+      phone: row[mapping.phone],
+      assignedSeller: row[mapping.assignedSeller],
+      transcription: row[mapping.transcription],
+    };
+
+    for (const field of IMPORT_CONSTANTS.OPTIONAL_FIELDS) {
+      const column = mapping[field];
+      const value = column ? row[column] : undefined;
+      if (!value || field === 'closed') {
+        continue;
+      }
+
+      switch (field) {
+        case 'interactionVolume':
+          client.interactionVolume = Number(value);
+          break;
+        case 'dealAmount':
+          // Plain numbers only (1500.50): thousands separators would be ambiguous with decimal commas
+          client.dealAmount = Number(value.trim());
+          break;
+        case 'currency':
+          client.currency = value.trim().toUpperCase();
+          break;
+        case 'painPoints':
+        case 'technicalRequirements':
+          client[field] = value
+            .split(IMPORT_CONSTANTS.LIST_SEPARATOR)
+            .map((item) => item.trim())
+            .filter((item) => item.length > 0);
+          break;
+        case 'operationSize':
+        case 'urgencyLevel':
+        case 'sentiment':
+          client[field] = value.toLowerCase();
+          break;
+        default:
+          client[field] = value;
+      }
+    }
+
+    return client;
   }
-}
 
+  /**
+   * Read a meeting date in the configured format and time zone
+   * ISO 8601 dates are accepted whatever the format, since the year-first order cannot be
+   * misread; an explicit offset in them wins over the time zone. In auto mode a day/month/year
+   * date is only accepted when one of the two leading numbers is above 12, and a bare number is only read
+   * as an Excel serial between AUTO_EXCEL_SERIAL_MIN and EXCEL_SERIAL_MAX.
+   * @returns The parsed date, or the reason it was rejected
+   * @private
+   */
+  private parseMeetingDate(
+    value: string | undefined,
+    { format, timezone }: MeetingDateOptions,
+  ): { date?: Date; error?: string } {
+    const text = value?.trim() ?? '';
+    if (!text) {
+      return { error: 'meetingDate is required' };
+    }
+
+    const iso = ISO_DATE.exec(text);
+    if (iso) {
+      const [, year, month, day, hour, minute, second, millisecond, offset] =
+        iso;
+      return this.toMeetingDate(
+        {
+          year: Number(year),
+          month: Number(month),
+          day: Number(day),
+          hour: Number(hour ?? 0),
+          minute: Number(minute ?? 0),
+          second: Number(second ?? 0),
+          millisecond: Number((millisecond ?? '0').padEnd(3, '0')),
+        },
+        timezone,
+        offset,
+      );
+    }
+
+    if (format === DateFormatEnum.EXCEL_SERIAL && EXCEL_SERIAL.test(text)) {
+      return this.fromExcelSerial(Number(text), timezone);
+    }
+
+    if (format === DateFormatEnum.AUTO && EXCEL_SERIAL.test(text)) {
+      const serial = Number(text);
+      if (serial >= AUTO_EXCEL_SERIAL_MIN && serial <= EXCEL_SERIAL_MAX) {
+        return this.fromExcelSerial(serial, timezone);
+      }
+    }
+
+    const dayMonth = DAY_MONTH_DATE.exec(text);
+    if (
+      dayMonth &&
+      format !== DateFormatEnum.ISO &&
+      format !== DateFormatEnum.EXCEL_SERIAL
+    ) {
+      const [, first, second, year, hour, minute, seconds] = dayMonth.map(
+        (part) => (part === undefined ? 0 : Number(part)),
+      );
+      let dayFirst = format === DateFormatEnum.DAY_MONTH_YEAR;
+
+      if (format === DateFormatEnum.AUTO) {
+        if (first <= 12 && second <= 12 && first !== second) {
+          return {
+            error: `meetingDate ${text} is ambiguous: it could be dd/mm/yyyy or mm/dd/yyyy; set dateFormat for this import`,
+          };
+        }
+        dayFirst = first > 12;
+      }
+
+      return this.toMeetingDate(
+        {
+          year,
+          month: dayFirst ? second : first,
+          day: dayFirst ? first : second,
+          hour,
+          minute,
+          second: seconds,
+        },
+        timezone,
+      );
+    }
+
+    return { error: `meetingDate must be ${DATE_FORMAT_DESCRIPTIONS[format]}` };
+  }
+
+  /**
+   * Check the calendar fields and resolve them to an instant
+   * @param offset - Explicit UTC offset ("Z", "+03:00", "-0400"); the time zone applies without one
+   * @private
+   */
+  private toMeetingDate(
+    parts: DateTimeParts,
+    timezone: string,
+    offset?: string,
+  ): { date?: Date; error?: string } {
+    const {
+      year,
+      month,
+      day,
+      hour = 0,
+      minute = 0,
+      second = 0,
+      millisecond = 0,
+    } = parts;
+    const calendarDate = new Date(Date.UTC(year, month - 1, day));
+    if (
+      calendarDate.getUTCFullYear() !== year ||
+      calendarDate.getUTCMonth() !== month - 1 ||
+      calendarDate.getUTCDate() !== day ||
+      hour > 23 ||
+      minute > 59 ||
+      second > 59
+    ) {
+      return { error: 'meetingDate is not a valid calendar date' };
+    }
+
+    if (!offset) {
+      return { date: zonedTimeToUtc(parts, timezone) };
+    }
+
+    const offsetMinutes =
+      offset.toUpperCase() === 'Z'
+        ? 0
+        : (offset.startsWith('-') ? -1 : 1) *
+          (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(-2)));
+    return {
+      date: new Date(
+        Date.UTC(year, month - 1, day, hour, minute, second, millisecond) -
+          offsetMinutes * 60 * 1000,
+      ),
+    };
+  }
+
+  /**
+   * Excel stores dates as days since 1899-12-30 in the workbook's local time; the fraction is the time of day
+   * @private
+   */
+  private fromExcelSerial(
+    serial: number,
+    timezone: string,
+  ): { date?: Date; error?: string } {
+    if (serial < 1 || serial > EXCEL_SERIAL_MAX) {
+      return { error: 'meetingDate is not a valid Excel serial date' };
+    }
+
+    const wallClock = new Date(EXCEL_EPOCH + Math.round(serial * MS_PER_DAY));
+    return this.toMeetingDate(
+      {
+        year: wallClock.getUTCFullYear(),
+        month: wallClock.getUTCMonth() + 1,
+        day: wallClock.getUTCDate(),
+        hour: wallClock.getUTCHours(),
+        minute: wallClock.getUTCMinutes(),
+        second: wallClock.getUTCSeconds(),
+        millisecond: wallClock.getUTCMilliseconds(),
+      },
+      timezone,
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+} from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { DiscardUploadInterceptor } from './discard-upload.interceptor';
+import { ImportFileParserService } from './import-file-parser.service';
+
+describe('DiscardUploadInterceptor', () => {
+  const mockImportFileParserService = {
+    discard: jest.fn(),
+  };
+
+  const interceptor = new DiscardUploadInterceptor(
+    mockImportFileParserService as unknown as ImportFileParserService,
+  );
+
+  const contextFor = (file?: { path: string }) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ file }) }),
+    }) as unknown as ExecutionContext;
+
+  const handlerReturning = (
+    result: ReturnType<CallHandler['handle']>,
+  ): CallHandler => ({ handle: () => result });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should remove the uploaded file when the request fails', async () => {
+    mockImportFileParserService.discard.mockResolvedValue(undefined);
+    const error = new BadRequestException(
+      'mode must be one of the following values',
+    );
+
+    await expect(
+      lastValueFrom(
+        interceptor.intercept(
+          contextFor({ path: '/tmp/upload' }),
+          handlerReturning(throwError(() => error)),
+        ),
+      ),
+    ).rejects.toBe(error);
+    expect(mockImportFileParserService.discard).toHaveBeenCalledWith(
+      '/tmp/upload',
+    );
+  });
+
+  it('should keep the uploaded file when the request succeeds', async () => {
+    const result = await lastValueFrom(
+      interceptor.intercept(
+        contextFor({ path: '/tmp/upload' }),
+        handlerReturning(of({ importId: 'batch-1' })),
+      ),
+    );
+
+    expect(result).toEqual({ importId: 'batch-1' });
+    expect(mockImportFileParserService.discard).not.toHaveBeenCalled();
+  });
+
+  it('should rethrow the error when no file was uploaded', async () => {
+    const error = new BadRequestException('No file uploaded');
+
+    await expect(
+      lastValueFrom(
+        interceptor.intercept(
+          contextFor(),
+          handlerReturning(throwError(() => error)),
+        ),
+      ),
+    ).rejects.toBe(error);
+    expect(mockImportFileParserService.discard).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable, catchError, from, mergeMap, throwError } from 'rxjs';
+import { Request } from 'express';
+import { ImportFileParserService } from './import-file-parser.service';
+
+/**
+ * Removes the uploaded file when the request fails
+ * Multer writes the file before the body is validated, so a request rejected by the
+ * ValidationPipe never reaches the handler that would remove it. Register it after
+ * FileInterceptor; handlers that keep the file for a background job are unaffected.
+ */
+@Injectable()
+export class DiscardUploadInterceptor implements NestInterceptor {
+  constructor(
+    private readonly importFileParserService: ImportFileParserService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    return next.handle().pipe(
+      catchError((error: unknown) => {
+        if (!request.file?.path) {
+          return throwError(() => error);
+        }
+
+        return from(
+          this.importFileParserService.discard(request.file.path),
+        ).pipe(mergeMap(() => throwError(() => error)));
+      }),
+    );
+  }
+}
@@ -0,0 +1,498 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, PayloadTooLargeException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Workbook } from 'exceljs';
+import { existsSync } from 'fs';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ImportFileParserService } from './import-file-parser.service';
+import { CsvProcessorService } from './csv-processor.service';
+import { ParsedImportFile } from './csv-processor.service';
+import { ImportFormatEnum } from '../common/dto/clients';
+
+describe('ImportFileParserService', () => {
+  let service: ImportFileParserService;
+  let directory: string;
+  let fileCount = 0;
+
+  const header = ['Nombre', 'Correo Electronico', 'closed'];
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const buildWorkbook = async (
+    sheets: Record<string, unknown[][]>,
+  ): Promise<Buffer> => {
+    const workbook = new Workbook();
+    for (const [name, rows] of Object.entries(sheets)) {
+      workbook.addWorksheet(name).addRows(rows);
+    }
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  };
+
+  const createService = async (): Promise<ImportFileParserService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportFileParserService,
+        CsvProcessorService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    return module.get<ImportFileParserService>(ImportFileParserService);
+  };
+
+  beforeEach(async () => {
+    service = await createService();
+    directory = await mkdtemp(join(tmpdir(), 'import-file-parser-'));
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const writeUpload = async (content: Buffer | string): Promise<string> => {
+    fileCount += 1;
+    const filePath = join(directory, `upload-${fileCount}`);
+    await writeFile(filePath, content);
+    return filePath;
+  };
+
+  const readAll = async (
+    content: Buffer | string,
+    format: ImportFormatEnum,
+    sheetName?: string,
+    chunkSize?: number,
+  ): Promise<ParsedImportFile[]> => {
+    const filePath = await writeUpload(content);
+    const chunks: ParsedImportFile[] = [];
+    for await (const chunk of service.readChunks(
+      filePath,
+      format,
+      sheetName,
+      chunkSize,
+    )) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  };
+
+  const parse = async (
+    content: Buffer | string,
+    format: ImportFormatEnum,
+    sheetName?: string,
+  ) => {
+    const [first, ...rest] = await readAll(content, format, sheetName);
+    return {
+      columns: first.columns,
+      records: [first, ...rest].flatMap((chunk) => chunk.records),
+      rejected: [first, ...rest].flatMap((chunk) => chunk.rejected),
+    };
+  };
+
+  describe('detectFormat', () => {
+    it('should map supported extensions case-insensitively', () => {
+      expect(service.detectFormat('clients.csv')).toBe(ImportFormatEnum.CSV);
+      expect(service.detectFormat('Export.XLSX')).toBe(ImportFormatEnum.XLSX);
+      expect(service.detectFormat('clients.json')).toBe(ImportFormatEnum.JSON);
+      expect(service.detectFormat('pipeline.ndjson')).toBe(
+        ImportFormatEnum.NDJSON,
+      );
+      expect(service.detectFormat('pipeline.jsonl')).toBe(
+        ImportFormatEnum.NDJSON,
+      );
+    });
+
+    it('should throw BadRequestException for unsupported extensions', () => {
+      expect(() => service.detectFormat('clients.txt')).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.detectFormat('clients')).toThrow(
+        /Allowed extensions: .csv, .xlsx/,
+      );
+    });
+  });
+
+  describe('readChunks', () => {
+    it('should delegate CSV files to the CSV processor', async () => {
+      const result = await parse(
+        Buffer.from(
+          'Nombre,Correo Electronico,closed\nClient,client@test.com,1\n',
+        ),
+        ImportFormatEnum.CSV,
+      );
+
+      expect(result.columns).toEqual(header);
+      expect(result.records).toEqual([
+        {
+          line: 2,
+          record: {
+            Nombre: 'Client',
+            'Correo Electronico': 'client@test.com',
+            closed: '1',
+          },
+        },
+      ]);
+    });
+
+    it('should read the first sheet of a workbook with row numbers as lines', async () => {
+      const content = await buildWorkbook({
+        Clients: [
+          header,
+          ['Client', 'client@test.com', true],
+          [],
+          ['Other', 'other@test.com', 0],
+        ],
+        Archive: [header],
+      });
+
+      const result = await parse(content, ImportFormatEnum.XLSX);
+
+      expect(result.columns).toEqual(header);
+      expect(result.records).toEqual([
+        {
+          line: 2,
+          record: {
+            Nombre: 'Client',
+            'Correo Electronico': 'client@test.com',
+            closed: 'true',
+          },
+        },
+        {
+          line: 4,
+          record: {
+            Nombre: 'Other',
+            'Correo Electronico': 'other@test.com',
+            closed: '0',
+          },
+        },
+      ]);
+    });
+
+    it('should read a named sheet, keeping date cells as wall-clock time and formulas as their result', async () => {
+      const content = await buildWorkbook({
+        Summary: [['Total']],
+        Clients: [
+          ['Nombre', 'Fecha de la Reunion', 'Score'],
+          [
+            ' Client ',
+            new Date('2024-03-01T10:00:00.000Z'),
+            { formula: '1+1', result: 2 },
+          ],
+        ],
+      });
+
+      const result = await parse(content, ImportFormatEnum.XLSX, 'Clients');
+
+      expect(result.records[0].record).toEqual({
+        Nombre: 'Client',
+        'Fecha de la Reunion': '2024-03-01T10:00:00.000',
+        Score: '2',
+      });
+    });
+
+    it('should throw BadRequestException when the sheet does not exist', async () => {
+      const content = await buildWorkbook({ Clients: [header] });
+
+      await expect(
+        parse(content, ImportFormatEnum.XLSX, 'Missing'),
+      ).rejects.toThrow('Sheet "Missing" not found in workbook');
+    });
+
+    it('should throw BadRequestException for files that are not workbooks', async () => {
+      await expect(
+        parse(Buffer.from('not a zip'), ImportFormatEnum.XLSX),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should stream workbook rows in chunks sharing the same columns', async () => {
+      const content = await buildWorkbook({
+        Clients: [
+          header,
+          ['A', 'a@test.com', 1],
+          ['B', 'b@test.com', 0],
+          ['C', 'c@test.com', 1],
+        ],
+      });
+
+      const chunks = await readAll(
+        content,
+        ImportFormatEnum.XLSX,
+        undefined,
+        2,
+      );
+
+      expect(
+        chunks.map((chunk) => chunk.records.map((entry) => entry.line)),
+      ).toEqual([[2, 3], [4]]);
+      expect(chunks[1].columns).toEqual(header);
+    });
+
+    it('should split streamed files into chunks sharing the same columns', async () => {
+      const chunks = await readAll(
+        'Nombre,closed\nA,1\nB,0\nC,1\n',
+        ImportFormatEnum.CSV,
+        undefined,
+        2,
+      );
+
+      expect(
+        chunks.map((chunk) => chunk.records.map((entry) => entry.line)),
+      ).toEqual([[2, 3], [4]]);
+      expect(chunks[1].columns).toEqual(['Nombre', 'closed']);
+    });
+
+    it('should split fully parsed files into chunks, keeping rejections on the first one', async () => {
+      const chunks = await readAll(
+        JSON.stringify([{ Nombre: 'A' }, 42, { Nombre: 'B' }, { Nombre: 'C' }]),
+        ImportFormatEnum.JSON,
+        undefined,
+        2,
+      );
+
+      expect(
+        chunks.map((chunk) => chunk.records.map((entry) => entry.line)),
+      ).toEqual([[1, 3], [4]]);
+      expect(chunks[0].rejected).toEqual([
+        { line: 2, errors: [{ reason: 'Record must be a JSON object' }] },
+      ]);
+      expect(chunks[1].rejected).toEqual([]);
+    });
+
+    it('should decode Latin-1 files split on the detected delimiter', async () => {
+      const content = Buffer.from(
+        'Nombre;Transcripcion\nJosé;"Reunión; sin cierre"\n',
+        'latin1',
+      );
+
+      const result = await parse(content, ImportFormatEnum.CSV);
+
+      expect(result.columns).toEqual(['Nombre', 'Transcripcion']);
+      expect(result.records[0].record).toEqual({
+        Nombre: 'José',
+        Transcripcion: 'Reunión; sin cierre',
+      });
+    });
+
+    it('should decode UTF-16LE files with a byte order mark', async () => {
+      const content = Buffer.concat([
+        Buffer.from([0xff, 0xfe]),
+        Buffer.from('{"Nombre":"Ñandú"}\n', 'utf16le'),
+      ]);
+
+      const result = await parse(content, ImportFormatEnum.NDJSON);
+
+      expect(result.records).toEqual([
+        { line: 1, record: { Nombre: 'Ñandú' } },
+      ]);
+    });
+
+    it('should yield a single empty chunk for empty files', async () => {
+      const chunks = await readAll('', ImportFormatEnum.NDJSON);
+
+      expect(chunks).toEqual([{ columns: [], records: [], rejected: [] }]);
+    });
+
+    it('should read JSON arrays, flattening values to strings', async () => {
+      const content = Buffer.from(
+        JSON.stringify([
+          {
+            Nombre: 'Client',
+            closed: true,
+            painPoints: ['manual work', 'no CRM'],
+            industry: null,
+          },
+          'not an object',
+          { Nombre: 'Other', interactionVolume: 120 },
+        ]),
+      );
+
+      const result = await parse(content, ImportFormatEnum.JSON);
+
+      expect(result.columns).toEqual([
+        'Nombre',
+        'closed',
+        'painPoints',
+        'industry',
+        'interactionVolume',
+      ]);
+      expect(result.records).toEqual([
+        {
+          line: 1,
+          record: {
+            Nombre: 'Client',
+            closed: 'true',
+            painPoints: 'manual work; no CRM',
+            industry: '',
+          },
+        },
+        { line: 3, record: { Nombre: 'Other', interactionVolume: '120' } },
+      ]);
+      expect(result.rejected).toEqual([
+        { line: 2, errors: [{ reason: 'Record must be a JSON object' }] },
+      ]);
+    });
+
+    it('should throw BadRequestException when JSON is not an array', async () => {
+      await expect(
+        parse(Buffer.from('{"Nombre":"Client"}'), ImportFormatEnum.JSON),
+      ).rejects.toThrow('JSON imports must contain an array of client objects');
+      await expect(
+        parse(Buffer.from('[{'), ImportFormatEnum.JSON),
+      ).rejects.toThrow(/Failed to parse JSON/);
+    });
+
+    it('should refuse JSON documents above their size limit', async () => {
+      mockConfigService.get.mockReturnValue('0.00001'); // About 10 bytes
+      service = await createService();
+
+      await expect(
+        parse(JSON.stringify([{ Nombre: 'Client' }]), ImportFormatEnum.JSON),
+      ).rejects.toThrow(PayloadTooLargeException);
+      expect(mockConfigService.get).toHaveBeenCalledWith(
+        'IMPORT_MAX_JSON_FILE_SIZE_MB',
+      );
+    });
+
+    it('should read NDJSON line by line, rejecting invalid lines', async () => {
+      const content = Buffer.from(
+        '{"Nombre":"Client"}\n\n{broken\n{"Nombre":"Other"}\n',
+      );
+
+      const result = await parse(content, ImportFormatEnum.NDJSON);
+
+      expect(result.records).toEqual([
+        { line: 1, record: { Nombre: 'Client' } },
+        { line: 4, record: { Nombre: 'Other' } },
+      ]);
+      expect(result.rejected).toHaveLength(1);
+      expect(result.rejected[0].line).toBe(3);
+      expect(result.rejected[0].errors[0].reason).toMatch(/^Invalid JSON/);
+    });
+  });
+
+  describe('detectDialect', () => {
+    it('should pick the most frequent delimiter of the header row, ignoring quoted ones', async () => {
+      const semicolons = await writeUpload(
+        '"Nombre, completo";Correo;closed\na,b,c,d,e,f\n',
+      );
+      const tabs = await writeUpload('Nombre\tCorreo\tclosed\n');
+
+      await expect(
+        service.detectDialect(semicolons, ImportFormatEnum.CSV),
+      ).resolves.toEqual({
+        encoding: 'utf8',
+        delimiter: ';',
+      });
+      await expect(
+        service.detectDialect(tabs, ImportFormatEnum.CSV),
+      ).resolves.toEqual({
+        encoding: 'utf8',
+        delimiter: '\t',
+      });
+    });
+
+    it('should default to a comma for empty or single-column files', async () => {
+      const filePath = await writeUpload('');
+
+      await expect(
+        service.detectDialect(filePath, ImportFormatEnum.CSV),
+      ).resolves.toEqual({
+        encoding: 'utf8',
+        delimiter: ',',
+      });
+    });
+
+    it('should fall back to Latin-1 when the file is not valid UTF-8', async () => {
+      const filePath = await writeUpload(
+        Buffer.from('{"Nombre":"José"}\n', 'latin1'),
+      );
+
+      await expect(
+        service.detectDialect(filePath, ImportFormatEnum.NDJSON),
+      ).resolves.toEqual({
+        encoding: 'latin1',
+        delimiter: null,
+      });
+    });
+
+    it('should not inspect workbooks', async () => {
+      await expect(
+        service.detectDialect('/does/not/exist.xlsx', ImportFormatEnum.XLSX),
+      ).resolves.toEqual({
+        encoding: null,
+        delimiter: null,
+      });
+    });
+  });
+
+  describe('readColumns', () => {
+    it('should only read the CSV header row', async () => {
+      const filePath = await writeUpload('Nombre,closed\n"unterminated');
+
+      const result = await service.readColumns(filePath, ImportFormatEnum.CSV);
+
+      expect(result).toEqual(['Nombre', 'closed']);
+    });
+
+    it('should collect keys from NDJSON records', async () => {
+      const filePath = await writeUpload(
+        '{"Nombre":"Client"}\n{"Nombre":"Other","Email":"other@test.com"}',
+      );
+
+      const result = await service.readColumns(
+        filePath,
+        ImportFormatEnum.NDJSON,
+      );
+
+      expect(result).toEqual(['Nombre', 'Email']);
+    });
+  });
+
+  describe('countRows', () => {
+    it('should count CSV records, including rejected and multi-line ones', async () => {
+      const filePath = await writeUpload(
+        'Nombre,closed\nA,true\n"B\nC",false\nD,true,extra\n\nE,false\n',
+      );
+
+      const result = await service.countRows(filePath, ImportFormatEnum.CSV);
+
+      expect(result).toBe(4);
+    });
+
+    it('should count NDJSON lines, including invalid ones, but not blank lines', async () => {
+      const filePath = await writeUpload('{"Nombre":"A"}\n\n{oops\n[1]\n');
+
+      const result = await service.countRows(filePath, ImportFormatEnum.NDJSON);
+
+      expect(result).toBe(3);
+    });
+
+    it('should leave XLSX rows uncounted', async () => {
+      const filePath = await writeUpload(
+        await buildWorkbook({ Clients: [header, ['A', 'a@test.com', 'true']] }),
+      );
+
+      const result = await service.countRows(filePath, ImportFormatEnum.XLSX);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('discard', () => {
+    it('should remove the uploaded file and ignore files that are already gone', async () => {
+      const filePath = await writeUpload('Nombre\n');
+
+      await service.discard(filePath);
+      await service.discard(filePath);
+
+      expect(existsSync(filePath)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,519 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  HttpException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream } from 'fs';
+import { open, readFile, stat, unlink } from 'fs/promises';
+import { createInterface } from 'readline';
+import { CellValue, Row, stream } from 'exceljs';
+import { CsvProcessorService, ParsedImportFile } from './csv-processor.service';
+import { ImportFormatEnum } from '../common/dto/clients';
+import { IMPORT_CONSTANTS } from '../common/constants';
+
+const FORMAT_BY_EXTENSION: Record<string, ImportFormatEnum> = {
+  '.csv': ImportFormatEnum.CSV,
+  '.xlsx': ImportFormatEnum.XLSX,
+  '.json': ImportFormatEnum.JSON,
+  '.ndjson': ImportFormatEnum.NDJSON,
+  '.jsonl': ImportFormatEnum.NDJSON,
+};
+
+/**
+ * How a text file is encoded and, for CSV, delimited
+ */
+export interface ImportFileDialect {
+  encoding: BufferEncoding | null; // null for XLSX
+  delimiter: string | null; // CSV only
+}
+
+/**
+ * Turns uploaded files of any supported format into source records keyed by column
+ * Every format then goes through the same column mapping and row validation in CsvProcessorService.
+ * CSV, NDJSON and XLSX are streamed from disk; JSON documents are parsed whole, so they have
+ * their own, lower size limit. Text files are decoded with the encoding detected from
+ * their first bytes, and CSV files split on the delimiter found in their header row.
+ */
+@Injectable()
+export class ImportFileParserService {
+  private readonly logger = new Logger(ImportFileParserService.name);
+  private readonly maxJsonFileSizeMb: number;
+
+  constructor(
+    private readonly csvProcessorService: CsvProcessorService,
+    configService: ConfigService,
+  ) {
+    this.maxJsonFileSizeMb =
+      Number(configService.get('IMPORT_MAX_JSON_FILE_SIZE_MB')) ||
+      IMPORT_CONSTANTS.DEFAULT_MAX_JSON_FILE_SIZE_MB;
+  }
+
+  /**
+   * Detect the import format from the file extension
+   * @throws BadRequestException for unsupported extensions
+   */
+  detectFormat(fileName: string): ImportFormatEnum {
+    const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+    const format = FORMAT_BY_EXTENSION[extension];
+
+    if (!format) {
+      throw new BadRequestException(
+        `Unsupported file type. Allowed extensions: ${Object.keys(FORMAT_BY_EXTENSION).join(', ')}`,
+      );
+    }
+
+    return format;
+  }
+
+  /**
+   * Read an uploaded file in chunks of source records
+   * @param filePath - Path of the uploaded file on disk
+   * @param format - File format
+   * @param sheetName - XLSX sheet to read (defaults to the first sheet)
+   * @param chunkSize - Maximum number of records per chunk
+   * @throws BadRequestException when the file cannot be read
+   * @throws PayloadTooLargeException when a JSON document exceeds its size limit
+   */
+  async *readChunks(
+    filePath: string,
+    format: ImportFormatEnum,
+    sheetName?: string,
+    chunkSize: number = IMPORT_CONSTANTS.CHUNK_SIZE,
+  ): AsyncGenerator<ParsedImportFile> {
+    if (format === ImportFormatEnum.XLSX) {
+      yield* this.streamXlsx(filePath, chunkSize, sheetName);
+      return;
+    }
+
+    const dialect = await this.detectDialect(filePath, format);
+    const encoding = dialect.encoding ?? 'utf8';
+
+    switch (format) {
+      case ImportFormatEnum.CSV:
+        yield* this.csvProcessorService.streamCsvRecords(
+          createReadStream(filePath, { encoding }),
+          chunkSize,
+          dialect.delimiter ?? ',',
+        );
+        return;
+      case ImportFormatEnum.NDJSON:
+        yield* this.streamNdjson(filePath, chunkSize, encoding);
+        return;
+      case ImportFormatEnum.JSON:
+        await this.checkJsonFileSize(filePath);
+        yield* this.toChunks(
+          this.parseJson(await readFile(filePath, encoding)),
+          chunkSize,
+        );
+        return;
+    }
+  }
+
+  /**
+   * Detect the encoding of a text file and, for CSV, its delimiter
+   * A UTF-16LE byte order mark wins; otherwise the sample is UTF-8 when it decodes as such
+   * and Latin-1 (common in spreadsheet exports) when it does not. The delimiter is the
+   * candidate that appears most often in the header row outside quotes, defaulting to ','.
+   * @param filePath - Path of the uploaded file on disk
+   * @param format - File format
+   */
+  async detectDialect(
+    filePath: string,
+    format: ImportFormatEnum,
+  ): Promise<ImportFileDialect> {
+    if (format === ImportFormatEnum.XLSX) {
+      return { encoding: null, delimiter: null };
+    }
+
+    const sample = await this.readSample(filePath);
+    const encoding = this.detectEncoding(sample);
+    const delimiter =
+      format === ImportFormatEnum.CSV
+        ? this.detectDelimiter(sample.toString(encoding))
+        : null;
+
+    return { encoding, delimiter };
+  }
+
+  /**
+   * Read the column names of an uploaded file
+   * Streamed formats stop after the first chunk.
+   */
+  async readColumns(
+    filePath: string,
+    format: ImportFormatEnum,
+    sheetName?: string,
+  ): Promise<string[]> {
+    for await (const chunk of this.readChunks(filePath, format, sheetName)) {
+      return chunk.columns;
+    }
+    return [];
+  }
+
+  /**
+   * Count the rows of an uploaded file before importing it, so the import can report progress
+   * Text formats are read once more with the same parser, one chunk at a time; rows the parser
+   * rejects count as well, as they do in the import report.
+   * @returns The number of rows, or null for XLSX, whose rows are only known once read
+   * @throws BadRequestException when the file cannot be read
+   * @throws PayloadTooLargeException when a JSON document exceeds its size limit
+   */
+  async countRows(
+    filePath: string,
+    format: ImportFormatEnum,
+  ): Promise<number | null> {
+    if (format === ImportFormatEnum.XLSX) {
+      return null;
+    }
+
+    let rows = 0;
+    for await (const chunk of this.readChunks(filePath, format)) {
+      rows += chunk.records.length + chunk.rejected.length;
+    }
+    return rows;
+  }
+
+  /**
+   * Remove an uploaded file once it is no longer needed
+   */
+  async discard(filePath: string): Promise<void> {
+    try {
+      await unlink(filePath);
+    } catch (error) {
+      const { code, message } = error as NodeJS.ErrnoException;
+      if (code !== 'ENOENT') {
+        this.logger.warn(
+          `Could not remove uploaded file ${filePath}: ${message}`,
+        );
+      }
+    }
+  }
+
+  private async readSample(filePath: string): Promise<Buffer> {
+    const handle = await open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(IMPORT_CONSTANTS.DIALECT_SAMPLE_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private detectEncoding(sample: Buffer): BufferEncoding {
+    if (sample[0] === 0xff && sample[1] === 0xfe) {
+      return 'utf16le';
+    }
+
+    try {
+      // stream: true tolerates a multi-byte character cut off at the end of the sample
+      new TextDecoder('utf-8', { fatal: true }).decode(sample, {
+        stream: true,
+      });
+      return 'utf8';
+    } catch {
+      return 'latin1';
+    }
+  }
+
+  private detectDelimiter(text: string): string {
+    const counts = new Map<string, number>(
+      IMPORT_CONSTANTS.CSV_DELIMITERS.map((delimiter) => [delimiter, 0]),
+    );
+    let quoted = false;
+
+    for (const char of text) {
+      if (char === '"') {
+        quoted = !quoted;
+      } else if (!quoted && (char === '\n' || char === '\r')) {
+        break;
+      } else if (!quoted && counts.has(char)) {
+        counts.set(char, counts.get(char)! + 1);
+      }
+    }
+
+    return [...counts].reduce((best, candidate) =>
+      candidate[1] > best[1] ? candidate : best,
+    )[0];
+  }
+
+  /**
+   * Split a fully parsed file into chunks, keeping parser rejections on the first one
+   * @private
+   */
+  private *toChunks(
+    file: ParsedImportFile,
+    chunkSize: number,
+  ): Generator<ParsedImportFile> {
+    let offset = 0;
+    do {
+      yield {
+        columns: file.columns,
+        records: file.records.slice(offset, offset + chunkSize),
+        rejected: offset === 0 ? file.rejected : [],
+      };
+      offset += chunkSize;
+    } while (offset < file.records.length);
+  }
+
+  /**
+   * Stream the rows of one sheet, using its first non-empty row as header
+   * Line numbers are the sheet row numbers. Only shared strings and styles are kept in memory;
+   * styles tell date cells apart from numbers.
+   * @private
+   */
+  private async *streamXlsx(
+    filePath: string,
+    chunkSize: number,
+    sheetName?: string,
+  ): AsyncGenerator<ParsedImportFile> {
+    const input = createReadStream(filePath);
+    const workbook = new stream.xlsx.WorkbookReader(input, {
+      sharedStrings: 'cache',
+      styles: 'cache',
+    });
+    let found = false;
+
+    try {
+      for await (const worksheet of workbook) {
+        // The reader takes the sheet name from workbook.xml, but its typings leave it out
+        const name = (worksheet as unknown as { name: string }).name;
+        if (sheetName && name !== sheetName) {
+          continue;
+        }
+
+        found = true;
+        yield* this.readWorksheetRows(worksheet, chunkSize);
+        break;
+      }
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error('Error reading XLSX workbook:', error);
+      throw new BadRequestException(
+        `Failed to read XLSX file: ${(error as Error).message}`,
+      );
+    } finally {
+      input.destroy();
+    }
+
+    if (!found) {
+      throw new BadRequestException(
+        sheetName
+          ? `Sheet "${sheetName}" not found in workbook`
+          : 'Workbook has no sheets',
+      );
+    }
+  }
+
+  private async *readWorksheetRows(
+    worksheet: AsyncIterable<Row>,
+    chunkSize: number,
+  ): AsyncGenerator<ParsedImportFile> {
+    const columns: string[] = [];
+    let header: string[] | undefined;
+    let chunk: ParsedImportFile = { columns, records: [], rejected: [] };
+    let yielded = false;
+
+    for await (const row of worksheet) {
+      if (!row.hasValues) {
+        continue;
+      }
+
+      const cells = Array.from(
+        { length: Math.max(row.cellCount, header?.length ?? 0) },
+        (_, index) => this.cellToString(row.getCell(index + 1).value),
+      );
+
+      if (!header) {
+        header = cells;
+        columns.push(...cells.filter((column) => column.length > 0));
+        continue;
+      }
+
+      if (cells.every((cell) => cell.length === 0)) {
+        continue;
+      }
+
+      const record: Record<string, string> = {};
+      header.forEach((column, index) => {
+        if (column) {
+          record[column] = cells[index];
+        }
+      });
+      chunk.records.push({ line: row.number, record });
+
+      if (chunk.records.length >= chunkSize) {
+        yield chunk;
+        yielded = true;
+        chunk = { columns, records: [], rejected: [] };
+      }
+    }
+
+    if (!yielded || chunk.records.length > 0) {
+      yield chunk;
+    }
+  }
+
+  /**
+   * Dates become ISO strings, formulas their cached result and rich text its plain text
+   * Date cells hold wall-clock time, so they are written without an offset and read in the import's time zone.
+   * @private
+   */
+  private cellToString(value: CellValue): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    if (value instanceof Date) {
+      return value.toISOString().slice(0, -1);
+    }
+
+    if (typeof value === 'object') {
+      if ('richText' in value) {
+        return value.richText
+          .map((part) => part.text)
+          .join('')
+          .trim();
+      }
+      if ('hyperlink' in value) {
+        return value.text.trim();
+      }
+      if ('formula' in value || 'sharedFormula' in value) {
+        return this.cellToString(value.result ?? null);
+      }
+      return ''; // Error cells (#N/A, #REF!, ...)
+    }
+
+    return String(value).trim();
+  }
+
+  /**
+   * JSON documents are parsed in one go, so they are held to a lower limit than streamed formats
+   * @throws PayloadTooLargeException when the file exceeds IMPORT_MAX_JSON_FILE_SIZE_MB
+   * @private
+   */
+  private async checkJsonFileSize(filePath: string): Promise<void> {
+    const { size } = await stat(filePath);
+    if (size > this.maxJsonFileSizeMb * 1024 * 1024) {
+      throw new PayloadTooLargeException(
+        `JSON files are limited to ${this.maxJsonFileSizeMb} MB; use NDJSON (one object per line) for larger imports`,
+      );
+    }
+  }
+
+  private parseJson(content: string): ParsedImportFile {
+    let items: unknown;
+    try {
+      items = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to parse JSON: ${(error as Error).message}`,
+      );
+    }
+
+    if (!Array.isArray(items)) {
+      throw new BadRequestException(
+        'JSON imports must contain an array of client objects',
+      );
+    }
+
+    const file: ParsedImportFile = { columns: [], records: [], rejected: [] };
+    items.forEach((item, index) => this.addJsonRecord(file, item, index + 1));
+
+    return file;
+  }
+
+  private async *streamNdjson(
+    filePath: string,
+    chunkSize: number,
+    encoding: BufferEncoding,
+  ): AsyncGenerator<ParsedImportFile> {
+    const input = createReadStream(filePath, { encoding });
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    const columns: string[] = [];
+    let chunk: ParsedImportFile = { columns, records: [], rejected: [] };
+    let yielded = false;
+    let line = 0;
+
+    try {
+      for await (const rawText of lines) {
+        line += 1;
+        const text = line === 1 ? rawText.replace(/^\uFEFF/, '') : rawText;
+        if (text.trim().length === 0) {
+          continue;
+        }
+
+        let item: unknown;
+        try {
+          item = JSON.parse(text);
+        } catch (error) {
+          chunk.rejected.push({
+            line,
+            errors: [{ reason: `Invalid JSON: ${(error as Error).message}` }],
+          });
+          continue;
+        }
+
+        this.addJsonRecord(chunk, item, line);
+
+        if (chunk.records.length >= chunkSize) {
+          yield chunk;
+          yielded = true;
+          chunk = { columns, records: [], rejected: [] };
+        }
+      }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+
+    if (!yielded || chunk.records.length > 0 || chunk.rejected.length > 0) {
+      yield chunk;
+    }
+  }
+
+  /**
+   * Flatten a JSON object into string cells, collecting its keys as columns
+   * Arrays are joined with ';' so list fields split the same way as in CSV.
+   * @private
+   */
+  private addJsonRecord(
+    file: ParsedImportFile,
+    item: unknown,
+    line: number,
+  ): void {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      file.rejected.push({
+        line,
+        errors: [{ reason: 'Record must be a JSON object' }],
+      });
+      return;
+    }
+
+    const record: Record<string, string> = {};
+    for (const [key, value] of Object.entries(
+      item as Record<string, unknown>,
+    )) {
+      if (!file.columns.includes(key)) {
+        file.columns.push(key);
+      }
+
+      if (value === null || value === undefined) {
+        record[key] = '';
+      } else if (Array.isArray(value)) {
+        record[key] = value.map((entry) => String(entry)).join('; ');
+      } else if (typeof value === 'object') {
+        record[key] = JSON.stringify(value);
+      } else {
+        record[key] = String(value as string | number | boolean).trim();
+      }
+    }
+
+    file.records.push({ line, record });
+  }
+}
@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ImportProfilesController } from './import-profiles.controller';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportFileParserService } from './import-file-parser.service';
+import { ImportFormatEnum } from '../common/dto/clients';
+
+describe('ImportProfilesController', () => {
+  let controller: ImportProfilesController;
+
+  const mockImportProfilesService = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+    detectMapping: jest.fn(),
+  };
+
+  const mockImportFileParserService = {
+    detectFormat: jest.fn(),
+    readColumns: jest.fn(),
+    discard: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ImportProfilesController],
+      providers: [
+        {
+          provide: ImportProfilesService,
+          useValue: mockImportProfilesService,
+        },
+        {
+          provide: ImportFileParserService,
+          useValue: mockImportFileParserService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<ImportProfilesController>(ImportProfilesController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('detect', () => {
+    it('should suggest a mapping from the columns of the uploaded file', async () => {
+      const mockFile = {
+        originalname: 'leads.xlsx',
+        path: '/tmp/upload-1',
+      } as Express.Multer.File;
+      const suggestion = {
+        columns: ['Full Name', 'Email'],
+        suggestedMapping: { name: 'Full Name', email: 'Email' },
+      };
+      mockImportFileParserService.detectFormat.mockReturnValue(
+        ImportFormatEnum.XLSX,
+      );
+      mockImportFileParserService.readColumns.mockResolvedValue([
+        'Full Name',
+        'Email',
+      ]);
+      mockImportProfilesService.detectMapping.mockResolvedValue(suggestion);
+
+      const result = await controller.detect(mockFile, { sheetName: 'Leads' });
+
+      expect(result).toEqual(suggestion);
+      expect(mockImportFileParserService.readColumns).toHaveBeenCalledWith(
+        '/tmp/upload-1',
+        ImportFormatEnum.XLSX,
+        'Leads',
+      );
+      expect(mockImportProfilesService.detectMapping).toHaveBeenCalledWith([
+        'Full Name',
+        'Email',
+      ]);
+      expect(mockImportFileParserService.discard).toHaveBeenCalledWith(
+        '/tmp/upload-1',
+      );
+    });
+
+    it('should remove the uploaded file when its type is not supported', async () => {
+      const mockFile = {
+        originalname: 'leads.txt',
+        path: '/tmp/upload-2',
+      } as Express.Multer.File;
+      mockImportFileParserService.detectFormat.mockImplementationOnce(() => {
+        throw new BadRequestException('Unsupported file type');
+      });
+
+      await expect(controller.detect(mockFile, {})).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockImportFileParserService.readColumns).not.toHaveBeenCalled();
+      expect(mockImportFileParserService.discard).toHaveBeenCalledWith(
+        '/tmp/upload-2',
+      );
+    });
+
+    it('should throw BadRequestException when no file is uploaded', async () => {
+      await expect(controller.detect(undefined as any, {})).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockImportProfilesService.detectMapping).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('CRUD', () => {
+    it('should delegate create, read, update and delete to the service', async () => {
+      const dto = { name: 'HubSpot', columnMapping: {} as any };
+      mockImportProfilesService.create.mockResolvedValue({ id: 'profile-1' });
+      mockImportProfilesService.findAll.mockResolvedValue([]);
+      mockImportProfilesService.findOne.mockResolvedValue({ id: 'profile-1' });
+      mockImportProfilesService.update.mockResolvedValue({ id: 'profile-1' });
+
+      await controller.create(dto);
+      await controller.findAll();
+      await controller.findOne('profile-1');
+      await controller.update('profile-1', { description: 'Updated' });
+      await controller.remove('profile-1');
+
+      expect(mockImportProfilesService.create).toHaveBeenCalledWith(dto);
+      expect(mockImportProfilesService.findAll).toHaveBeenCalled();
+      expect(mockImportProfilesService.findOne).toHaveBeenCalledWith(
+        'profile-1',
+      );
+      expect(mockImportProfilesService.update).toHaveBeenCalledWith(
+        'profile-1',
+        { description: 'Updated' },
+      );
+      expect(mockImportProfilesService.remove).toHaveBeenCalledWith(
+        'profile-1',
+      );
+    });
+  });
+});
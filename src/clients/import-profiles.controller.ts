@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportFileParserService } from './import-file-parser.service';
+import { DiscardUploadInterceptor } from './discard-upload.interceptor';
+import {
+  CreateImportProfileDto,
+  DetectMappingOptionsDto,
+  UpdateImportProfileDto,
+} from '../common/dto/clients';
+
+@ApiTags('clients')
+@Controller('import-profiles')
+export class ImportProfilesController {
+  constructor(
+    private readonly importProfilesService: ImportProfilesService,
+    private readonly importFileParserService: ImportFileParserService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a column mapping profile for client imports',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Import profile created successfully',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A profile with this name already exists',
+  })
+  async create(@Body() dto: CreateImportProfileDto) {
+    return this.importProfilesService.create(dto);
+  }
+
+  @Post('detect')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file'), DiscardUploadInterceptor)
+  @ApiOperation({
+    summary: 'Suggest a column mapping from the columns of an uploaded file',
+    description:
+      'Accepts the same formats as POST /clients/upload; CSV and NDJSON files are only read up to the first chunk. Returns the suggested mapping, required fields that could not be matched, and saved profiles that fit the file.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+        },
+        sheetName: {
+          type: 'string',
+          description: 'XLSX only: sheet to read (defaults to the first sheet)',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Mapping suggestion generated' })
+  @ApiResponse({
+    status: 400,
+    description: 'No file uploaded, unsupported file type or unreadable file',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'File exceeds the upload size limit',
+  })
+  async detect(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() options: DetectMappingOptionsDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    try {
+      const format = this.importFileParserService.detectFormat(
+        file.originalname,
+      );
+      const columns = await this.importFileParserService.readColumns(
+        file.path,
+        format,
+        options.sheetName,
+      );
+      return await this.importProfilesService.detectMapping(columns);
+    } finally {
+      await this.importFileParserService.discard(file.path);
+    }
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List saved import profiles' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import profiles retrieved successfully',
+  })
+  async findAll() {
+    return this.importProfilesService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a single import profile by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import profile retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Import profile not found' })
+  async findOne(@Param('id') id: string) {
+    return this.importProfilesService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update an import profile' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import profile updated successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Import profile not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'A profile with this name already exists',
+  })
+  async update(@Param('id') id: string, @Body() dto: UpdateImportProfileDto) {
+    return this.importProfilesService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an import profile' })
+  @ApiResponse({
+    status: 204,
+    description: 'Import profile deleted successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Import profile not found' })
+  async remove(@Param('id') id: string) {
+    await this.importProfilesService.remove(id);
+  }
+}
@@ -0,0 +1,293 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ImportProfilesService } from './import-profiles.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { IMPORT_CONSTANTS } from '../common/constants';
+
+describe('ImportProfilesService', () => {
+  let service: ImportProfilesService;
+
+  const mockPrismaService = {
+    importProfile: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  const hubspotMapping = {
+    name: 'Full Name',
+    email: 'Email',
+    phone: 'Phone Number',
+    assignedSeller: 'Contact Owner',
+    meetingDate: 'Meeting Date',
+    closed: 'Won',
+    transcription: 'Notes',
+    industry: 'Industry',
+  };
+
+  const mockProfile = {
+    id: 'profile-1',
+    name: 'HubSpot',
+    description: 'HubSpot contact export',
+    columnMapping: hubspotMapping,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportProfilesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImportProfilesService>(ImportProfilesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store a new profile', async () => {
+      mockPrismaService.importProfile.findUnique.mockResolvedValue(null);
+      mockPrismaService.importProfile.create.mockResolvedValue(mockProfile);
+
+      const result = await service.create({
+        name: 'HubSpot',
+        description: 'HubSpot contact export',
+        columnMapping: hubspotMapping,
+      });
+
+      expect(result).toEqual(mockProfile);
+      expect(mockPrismaService.importProfile.create).toHaveBeenCalledWith({
+        data: {
+          name: 'HubSpot',
+          description: 'HubSpot contact export',
+          columnMapping: hubspotMapping,
+        },
+      });
+    });
+
+    it('should throw ConflictException when the name is taken', async () => {
+      mockPrismaService.importProfile.findUnique.mockResolvedValue(mockProfile);
+
+      await expect(
+        service.create({ name: 'HubSpot', columnMapping: hubspotMapping }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.importProfile.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return profiles ordered by name', async () => {
+      mockPrismaService.importProfile.findMany.mockResolvedValue([mockProfile]);
+
+      const result = await service.findAll();
+
+      expect(result).toEqual([mockProfile]);
+      expect(mockPrismaService.importProfile.findMany).toHaveBeenCalledWith({
+        orderBy: { name: 'asc' },
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException when the profile does not exist', async () => {
+      mockPrismaService.importProfile.findUnique.mockResolvedValue(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(
+        'Import profile with ID missing not found',
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should update only the provided fields', async () => {
+      mockPrismaService.importProfile.findUnique.mockResolvedValue(mockProfile);
+      mockPrismaService.importProfile.update.mockResolvedValue({
+        ...mockProfile,
+        description: 'Updated',
+      });
+
+      const result = await service.update('profile-1', {
+        description: 'Updated',
+      });
+
+      expect(result.description).toBe('Updated');
+      expect(mockPrismaService.importProfile.update).toHaveBeenCalledWith({
+        where: { id: 'profile-1' },
+        data: {
+          name: undefined,
+          description: 'Updated',
+          columnMapping: undefined,
+        },
+      });
+    });
+
+    it('should throw ConflictException when renaming to an existing name', async () => {
+      mockPrismaService.importProfile.findUnique
+        .mockResolvedValueOnce(mockProfile)
+        .mockResolvedValueOnce({
+          ...mockProfile,
+          id: 'profile-2',
+          name: 'Salesforce',
+        });
+
+      await expect(
+        service.update('profile-1', { name: 'Salesforce' }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.importProfile.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete an existing profile', async () => {
+      mockPrismaService.importProfile.findUnique.mockResolvedValue(mockProfile);
+
+      await service.remove('profile-1');
+
+      expect(mockPrismaService.importProfile.delete).toHaveBeenCalledWith({
+        where: { id: 'profile-1' },
+      });
+    });
+
+    it('should throw NotFoundException when the profile does not exist', async () => {
+      mockPrismaService.importProfile.findUnique.mockResolvedValue(null);
+
+      await expect(service.remove('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.importProfile.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getColumnMapping', () => {
+    it('should return the default mapping when no profile is selected', async () => {
+      const result = await service.getColumnMapping();
+
+      expect(result).toEqual(IMPORT_CONSTANTS.DEFAULT_COLUMN_MAPPING);
+      expect(mockPrismaService.importProfile.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should return the mapping of the selected profile', async () => {
+      mockPrismaService.importProfile.findUnique.mockResolvedValue(mockProfile);
+
+      const result = await service.getColumnMapping('profile-1');
+
+      expect(result).toEqual(hubspotMapping);
+    });
+  });
+
+  describe('detectMapping', () => {
+    it('should match headers regardless of case, accents and punctuation', async () => {
+      mockPrismaService.importProfile.findMany.mockResolvedValue([]);
+
+      const result = await service.detectMapping([
+        'Nombre',
+        'E-mail',
+        'Teléfono',
+        'Vendedor',
+        'Fecha',
+        'Cerrado',
+        'Transcripción',
+        'Industria',
+        'Comentarios',
+      ]);
+
+      expect(result.suggestedMapping).toEqual({
+        name: 'Nombre',
+        email: 'E-mail',
+        phone: 'Teléfono',
+        assignedSeller: 'Vendedor',
+        meetingDate: 'Fecha',
+        closed: 'Cerrado',
+        transcription: 'Transcripción',
+        industry: 'Industria',
+      });
+      expect(result.missingRequiredFields).toEqual([]);
+      expect(result.unmappedColumns).toEqual(['Comentarios']);
+    });
+
+    it('should report required fields it could not match', async () => {
+      mockPrismaService.importProfile.findMany.mockResolvedValue([]);
+
+      const result = await service.detectMapping(['Full Name', 'Email']);
+
+      expect(result.suggestedMapping).toEqual({
+        name: 'Full Name',
+        email: 'Email',
+      });
+      expect(result.missingRequiredFields).toEqual([
+        'phone',
+        'assignedSeller',
+        'meetingDate',
+        'transcription',
+        'closed',
+      ]);
+    });
+
+    it('should not require a closed column when a stage column is found', async () => {
+      mockPrismaService.importProfile.findMany.mockResolvedValue([]);
+
+      const result = await service.detectMapping([
+        'Name',
+        'Email',
+        'Phone',
+        'Owner',
+        'Meeting Date',
+        'Notes',
+        'Deal Stage',
+      ]);
+
+      expect(result.suggestedMapping).toMatchObject({ stage: 'Deal Stage' });
+      expect(result.suggestedMapping).not.toHaveProperty('closed');
+      expect(result.missingRequiredFields).toEqual([]);
+    });
+
+    it('should list saved profiles whose required columns are all present', async () => {
+      mockPrismaService.importProfile.findMany.mockResolvedValue([
+        mockProfile,
+        {
+          ...mockProfile,
+          id: 'profile-2',
+          name: 'Pipedrive',
+          columnMapping: { ...hubspotMapping, name: 'Person' },
+        },
+      ]);
+
+      const result = await service.detectMapping(Object.values(hubspotMapping));
+
+      expect(result.matchingProfiles).toEqual([
+        { id: 'profile-1', name: 'HubSpot' },
+      ]);
+    });
+
+    it('should match profiles through their stage column when the closed column is absent', async () => {
+      mockPrismaService.importProfile.findMany.mockResolvedValue([
+        {
+          ...mockProfile,
+          columnMapping: { ...hubspotMapping, stage: 'Deal Stage' },
+        },
+        { ...mockProfile, id: 'profile-2', name: 'Pipedrive' },
+      ]);
+
+      const columns = Object.values(hubspotMapping).filter(
+        (column) => column !== 'Won',
+      );
+
+      const result = await service.detectMapping([...columns, 'Deal Stage']);
+
+      expect(result.matchingProfiles).toEqual([
+        { id: 'profile-1', name: 'HubSpot' },
+      ]);
+    });
+  });
+});
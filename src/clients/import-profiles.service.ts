@@ -0,0 +1,204 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ImportProfile, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { IMPORT_CONSTANTS } from '../common/constants';
+import {
+  ClientImportField,
+  ColumnMapping,
+  CreateImportProfileDto,
+  ImportProfileDto,
+  MappingSuggestionDto,
+  UpdateImportProfileDto,
+} from '../common/dto/clients';
+import { missingImportFields } from '../common/utils/import-mapping.utils';
+
+/**
+ * Manages saved column mapping profiles for client imports
+ * A profile maps source column headers (per CRM / language) to Client fields.
+ */
+@Injectable()
+export class ImportProfilesService {
+  private readonly logger = new Logger(ImportProfilesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(dto: CreateImportProfileDto): Promise<ImportProfileDto> {
+    await this.ensureNameAvailable(dto.name);
+
+    const profile = await this.prisma.importProfile.create({
+      data: {
+        name: dto.name,
+        description: dto.description,
+        columnMapping: { ...dto.columnMapping } as Prisma.InputJsonObject,
+      },
+    });
+
+    this.logger.log(`Import profile ${profile.name} created`);
+
+    return this.toImportProfile(profile);
+  }
+
+  async findAll(): Promise<ImportProfileDto[]> {
+    const profiles = await this.prisma.importProfile.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return profiles.map((profile) => this.toImportProfile(profile));
+  }
+
+  /**
+   * @throws NotFoundException when the profile does not exist
+   */
+  async findOne(id: string): Promise<ImportProfileDto> {
+    const profile = await this.prisma.importProfile.findUnique({
+      where: { id },
+    });
+
+    if (!profile) {
+      throw new NotFoundException(`Import profile with ID ${id} not found`);
+    }
+
+    return this.toImportProfile(profile);
+  }
+
+  async update(
+    id: string,
+    dto: UpdateImportProfileDto,
+  ): Promise<ImportProfileDto> {
+    const existing = await this.findOne(id);
+
+    if (dto.name && dto.name !== existing.name) {
+      await this.ensureNameAvailable(dto.name);
+    }
+
+    const profile = await this.prisma.importProfile.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        description: dto.description,
+        columnMapping: dto.columnMapping
+          ? ({ ...dto.columnMapping } as Prisma.InputJsonObject)
+          : undefined,
+      },
+    });
+
+    return this.toImportProfile(profile);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.findOne(id);
+    await this.prisma.importProfile.delete({ where: { id } });
+
+    this.logger.log(`Import profile ${id} deleted`);
+  }
+
+  /**
+   * Resolve the column mapping for an upload
+   * @param profileId - Optional profile selected by the user
+   * @returns The profile mapping, or the default Spanish headers when no profile is given
+   * @throws NotFoundException when the profile does not exist
+   */
+  async getColumnMapping(profileId?: string): Promise<ColumnMapping> {
+    if (!profileId) {
+      return IMPORT_CONSTANTS.DEFAULT_COLUMN_MAPPING;
+    }
+
+    const profile = await this.findOne(profileId);
+    return profile.columnMapping;
+  }
+
+  /**
+   * Suggest a column mapping from a header row
+   * Headers are matched against known synonyms after normalization; each column is used
+   * for at most one field, and required fields are matched first.
+   * @param columns - Header row of the uploaded file
+   * @returns Suggested mapping, missing required fields, unmapped columns and saved profiles that fit
+   */
+  async detectMapping(columns: string[]): Promise<MappingSuggestionDto> {
+    const normalizedColumns = columns.map((column) =>
+      this.normalizeHeader(column),
+    );
+    const usedColumns = new Set<number>();
+    const suggestedMapping: Partial<Record<ClientImportField, string>> = {};
+
+    const fields: ClientImportField[] = [
+      ...IMPORT_CONSTANTS.REQUIRED_FIELDS,
+      ...IMPORT_CONSTANTS.OPTIONAL_FIELDS,
+    ];
+
+    for (const field of fields) {
+      const synonyms: readonly string[] =
+        IMPORT_CONSTANTS.HEADER_SYNONYMS[field];
+      // Synonyms are ordered by preference, so the first synonym present in the header wins
+      for (const synonym of synonyms) {
+        const index = normalizedColumns.findIndex(
+          (column, i) => column === synonym && !usedColumns.has(i),
+        );
+        if (index !== -1) {
+          suggestedMapping[field] = columns[index];
+          usedColumns.add(index);
+          break;
+        }
+      }
+    }
+
+    const profiles = await this.prisma.importProfile.findMany({
+      orderBy: { name: 'asc' },
+    });
+    const matchingProfiles = profiles
+      .filter((profile) => {
+        const mapping = profile.columnMapping as unknown as ColumnMapping;
+        return missingImportFields(mapping, columns).length === 0;
+      })
+      .map((profile) => ({ id: profile.id, name: profile.name }));
+
+    return {
+      columns,
+      suggestedMapping,
+      missingRequiredFields: missingImportFields(suggestedMapping, columns),
+      unmappedColumns: columns.filter((_, index) => !usedColumns.has(index)),
+      matchingProfiles,
+    };
+  }
+
+  private async ensureNameAvailable(name: string): Promise<void> {
+    const existing = await this.prisma.importProfile.findUnique({
+      where: { name },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Import profile named ${name} already exists`,
+      );
+    }
+  }
+
+  /**
+   * Lowercase, strip accents and collapse punctuation so "Teléfono" and "telefono" match
+   * @private
+   */
+  private normalizeHeader(header: string): string {
+    return header
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  private toImportProfile(profile: ImportProfile): ImportProfileDto {
+    return {
+      id: profile.id,
+      name: profile.name,
+      description: profile.description,
+      columnMapping: profile.columnMapping as unknown as ColumnMapping,
+      createdAt: profile.createdAt,
+      updatedAt: profile.updatedAt,
+    };
+  }
+}
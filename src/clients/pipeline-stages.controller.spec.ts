@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PipelineStagesController } from './pipeline-stages.controller';
+import { PipelineStagesService } from './pipeline-stages.service';
+import { PipelineStageOutcomeEnum } from '../common/dto/clients';
+
+describe('PipelineStagesController', () => {
+  let controller: PipelineStagesController;
+
+  const mockPipelineStagesService = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const stage = {
+    id: 'stage-1',
+    name: 'Demo',
+    position: 1,
+    outcome: PipelineStageOutcomeEnum.OPEN,
+    aliases: ['Demo agendada'],
+    clients: 0,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PipelineStagesController],
+      providers: [
+        {
+          provide: PipelineStagesService,
+          useValue: mockPipelineStagesService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<PipelineStagesController>(PipelineStagesController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create a stage', async () => {
+    mockPipelineStagesService.create.mockResolvedValue(stage);
+    const dto = { name: 'Demo', aliases: ['Demo agendada'] };
+
+    const result = await controller.create(dto);
+
+    expect(result).toEqual(stage);
+    expect(mockPipelineStagesService.create).toHaveBeenCalledWith(dto);
+  });
+
+  it('should list the stages', async () => {
+    mockPipelineStagesService.findAll.mockResolvedValue([stage]);
+
+    await expect(controller.findAll()).resolves.toEqual([stage]);
+  });
+
+  it('should update a stage', async () => {
+    mockPipelineStagesService.update.mockResolvedValue({
+      ...stage,
+      position: 2,
+    });
+
+    await controller.update('stage-1', { position: 2 });
+
+    expect(mockPipelineStagesService.update).toHaveBeenCalledWith('stage-1', {
+      position: 2,
+    });
+  });
+
+  it('should delete a stage', async () => {
+    await controller.remove('stage-1');
+
+    expect(mockPipelineStagesService.remove).toHaveBeenCalledWith('stage-1');
+  });
+});
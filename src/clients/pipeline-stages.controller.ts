@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { PipelineStagesService } from './pipeline-stages.service';
+import {
+  CreatePipelineStageDto,
+  UpdatePipelineStageDto,
+} from '../common/dto/clients';
+
+@ApiTags('clients')
+@Controller('pipeline-stages')
+export class PipelineStagesController {
+  constructor(private readonly pipelineStagesService: PipelineStagesService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Add a stage to the deal pipeline',
+    description:
+      'outcome is open (default), won or lost; clients in won stages count as closed. aliases lists other names of the stage found in import files.',
+  })
+  @ApiResponse({ status: 201, description: 'Stage created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid stage data' })
+  @ApiResponse({
+    status: 409,
+    description: 'The name or an alias is already used by another stage',
+  })
+  async create(@Body() dto: CreatePipelineStageDto) {
+    return this.pipelineStagesService.create(dto);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List the pipeline stages in order, with their number of clients',
+  })
+  @ApiResponse({ status: 200, description: 'Stages retrieved successfully' })
+  async findAll() {
+    return this.pipelineStagesService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a single pipeline stage by ID' })
+  @ApiResponse({ status: 200, description: 'Stage retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Stage not found' })
+  async findOne(@Param('id') id: string) {
+    return this.pipelineStagesService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a pipeline stage',
+    description:
+      "Changing the outcome updates the closed flag of the stage's clients.",
+  })
+  @ApiResponse({ status: 200, description: 'Stage updated successfully' })
+  @ApiResponse({ status: 404, description: 'Stage not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The name or an alias is already used, or the pipeline would have no open or no won stage',
+  })
+  async update(@Param('id') id: string, @Body() dto: UpdatePipelineStageDto) {
+    return this.pipelineStagesService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete an unused pipeline stage',
+    description:
+      'Stages holding clients or present in the stage history cannot be deleted.',
+  })
+  @ApiResponse({ status: 204, description: 'Stage deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Stage not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The stage is in use, or the pipeline would have no open or no won stage',
+  })
+  async remove(@Param('id') id: string) {
+    await this.pipelineStagesService.remove(id);
+  }
+}
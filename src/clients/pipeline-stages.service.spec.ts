@@ -0,0 +1,261 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PipelineStagesService } from './pipeline-stages.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../common/services/cache.service';
+import { PipelineStageOutcomeEnum } from '../common/dto/clients';
+
+describe('PipelineStagesService', () => {
+  let service: PipelineStagesService;
+
+  const mockPrismaService = {
+    pipelineStage: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    client: {
+      count: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    clientStageChange: {
+      count: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockCacheService = {
+    clearAnalyticsCache: jest.fn(),
+  };
+
+  const buildStage = (
+    id: string,
+    name: string,
+    position: number,
+    outcome: string,
+    aliases: string[] = [],
+  ) => ({
+    id,
+    name,
+    position,
+    outcome,
+    aliases,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  const newStage = buildStage('stage-1', 'New', 0, 'open', ['Nuevo']);
+  const wonStage = buildStage('stage-2', 'Won', 1, 'won', [
+    'Ganado',
+    'Closed won',
+  ]);
+  const lostStage = buildStage('stage-3', 'Lost', 2, 'lost');
+  const stages = [newStage, wonStage, lostStage];
+
+  const withClients = <T>(stage: T, clients = 0) => ({
+    ...stage,
+    _count: { clients },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PipelineStagesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PipelineStagesService>(PipelineStagesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should append the stage after the last one, dropping repeated aliases', async () => {
+      mockPrismaService.pipelineStage.findMany.mockResolvedValueOnce(stages);
+      mockPrismaService.pipelineStage.create.mockResolvedValueOnce(
+        withClients(buildStage('stage-4', 'Demo', 3, 'open')),
+      );
+
+      const result = await service.create({
+        name: '  Demo ',
+        aliases: ['demo', 'Demo  agendada', 'demo agendada'],
+      });
+
+      expect(mockPrismaService.pipelineStage.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Demo',
+          position: 3,
+          outcome: undefined,
+          aliases: ['Demo agendada'],
+        },
+        include: expect.any(Object),
+      });
+      expect(result).toMatchObject({ id: 'stage-4', name: 'Demo', clients: 0 });
+    });
+
+    it('should throw ConflictException when an alias is already used by another stage', async () => {
+      mockPrismaService.pipelineStage.findMany.mockResolvedValueOnce(stages);
+
+      await expect(
+        service.create({ name: 'Signed', aliases: ['ganado'] }),
+      ).rejects.toThrow(
+        'Stage name or alias ganado is already used by stage Won',
+      );
+      expect(mockPrismaService.pipelineStage.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException when the stage does not exist', async () => {
+      mockPrismaService.pipelineStage.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('update', () => {
+    it("should sync the closed flag of the stage's clients and invalidate the cache when the outcome changes", async () => {
+      mockPrismaService.pipelineStage.findUnique.mockResolvedValueOnce(
+        withClients(lostStage, 4),
+      );
+      mockPrismaService.pipelineStage.findMany.mockResolvedValueOnce(stages);
+      mockPrismaService.pipelineStage.update.mockReturnValueOnce(
+        'update-stage',
+      );
+      mockPrismaService.client.updateMany.mockReturnValueOnce('sync-clients');
+      mockPrismaService.$transaction.mockResolvedValueOnce([
+        withClients({ ...lostStage, outcome: 'won' }, 4),
+        { count: 4 },
+      ]);
+
+      const result = await service.update('stage-3', {
+        outcome: PipelineStageOutcomeEnum.WON,
+      });
+
+      expect(result.outcome).toBe('won');
+      expect(mockPrismaService.client.updateMany).toHaveBeenCalledWith({
+        where: { stageId: 'stage-3', closed: false },
+        data: { closed: true },
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith([
+        'update-stage',
+        'sync-clients',
+      ]);
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should keep cached analytics on a rename', async () => {
+      mockPrismaService.pipelineStage.findUnique.mockResolvedValueOnce(
+        withClients(newStage),
+      );
+      mockPrismaService.pipelineStage.findMany.mockResolvedValueOnce(stages);
+      mockPrismaService.$transaction.mockResolvedValueOnce([
+        withClients({ ...newStage, name: 'Nuevo' }),
+        { count: 0 },
+      ]);
+
+      await service.update('stage-1', { name: 'Nuevo' });
+
+      expect(mockCacheService.clearAnalyticsCache).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to leave the pipeline without a won stage', async () => {
+      mockPrismaService.pipelineStage.findUnique.mockResolvedValueOnce(
+        withClients(wonStage),
+      );
+      mockPrismaService.pipelineStage.findMany.mockResolvedValueOnce(stages);
+
+      await expect(
+        service.update('stage-2', { outcome: PipelineStageOutcomeEnum.LOST }),
+      ).rejects.toThrow(
+        'The pipeline needs at least one open and one won stage',
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a stage that was never used', async () => {
+      mockPrismaService.pipelineStage.findUnique.mockResolvedValueOnce(
+        withClients(lostStage),
+      );
+      mockPrismaService.client.count.mockResolvedValueOnce(0);
+      mockPrismaService.clientStageChange.count.mockResolvedValueOnce(0);
+      mockPrismaService.pipelineStage.findMany.mockResolvedValueOnce(stages);
+
+      await service.remove('stage-3');
+
+      expect(mockPrismaService.pipelineStage.delete).toHaveBeenCalledWith({
+        where: { id: 'stage-3' },
+      });
+    });
+
+    it('should throw ConflictException when clients are in the stage', async () => {
+      mockPrismaService.pipelineStage.findUnique.mockResolvedValueOnce(
+        withClients(lostStage, 2),
+      );
+      mockPrismaService.client.count.mockResolvedValueOnce(2);
+      mockPrismaService.clientStageChange.count.mockResolvedValueOnce(0);
+
+      await expect(service.remove('stage-3')).rejects.toThrow(
+        'Pipeline stage Lost has 2 clients; move them to another stage first',
+      );
+      expect(mockPrismaService.pipelineStage.delete).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when the stage appears in the stage history', async () => {
+      mockPrismaService.pipelineStage.findUnique.mockResolvedValueOnce(
+        withClients(lostStage),
+      );
+      mockPrismaService.client.count.mockResolvedValueOnce(0);
+      mockPrismaService.clientStageChange.count.mockResolvedValueOnce(1);
+
+      await expect(service.remove('stage-3')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrismaService.pipelineStage.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolve', () => {
+    beforeEach(() => {
+      mockPrismaService.pipelineStage.findMany.mockResolvedValue(stages);
+    });
+
+    it('should match stage names and aliases ignoring case and spacing', async () => {
+      await expect(service.resolve(' closed   WON ', false)).resolves.toBe(
+        wonStage,
+      );
+      await expect(service.resolve('nuevo', true)).resolves.toBe(newStage);
+    });
+
+    it('should place deals without a stage in the first won or open stage', async () => {
+      await expect(service.resolve(undefined, true)).resolves.toBe(wonStage);
+      await expect(service.resolve(undefined, false)).resolves.toBe(newStage);
+    });
+
+    it('should throw BadRequestException for an unknown stage', async () => {
+      await expect(service.resolve('Demo', false)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
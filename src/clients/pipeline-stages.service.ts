@@ -0,0 +1,346 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  Optional,
+} from '@nestjs/common';
+import { PipelineStage, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../common/services/cache.service';
+import {
+  CreatePipelineStageDto,
+  PipelineStageDto,
+  PipelineStageOutcomeEnum,
+  UpdatePipelineStageDto,
+} from '../common/dto/clients';
+
+// Stages are returned with the number of clients in them, not counting the trash
+const WITH_CLIENT_COUNT = {
+  _count: { select: { clients: { where: { deletedAt: null } } } },
+} satisfies Prisma.PipelineStageInclude;
+
+type StageWithClientCount = Prisma.PipelineStageGetPayload<{
+  include: typeof WITH_CLIENT_COUNT;
+}>;
+
+/**
+ * A pipeline stage with its outcome typed; the column itself is a plain string
+ */
+export type Stage = Omit<PipelineStage, 'outcome'> & {
+  outcome: PipelineStageOutcomeEnum;
+};
+
+/**
+ * The pipeline as a whole, loaded once to resolve the stages of many clients
+ */
+export interface Pipeline {
+  stages: Stage[]; // In pipeline order
+  byKey: Map<string, Stage>; // Every stage name and alias, lowercased with spacing collapsed
+  defaultOpen: Stage; // First open stage: where new open deals start
+  defaultWon: Stage; // First won stage: where deals marked closed without a stage go
+}
+
+/**
+ * Stage names typed in forms and imports are compared ignoring case and spacing
+ */
+const toStageKey = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const cleanStageName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ');
+
+/**
+ * Manages the stages of the deal pipeline
+ * Every client sits in one stage. A stage's outcome (open, won or lost) decides the client's closed
+ * flag, which the analytics keep using: clients in won stages are closed. The pipeline always keeps
+ * at least one open and one won stage, where deals without an explicit stage are placed.
+ */
+@Injectable()
+export class PipelineStagesService {
+  private readonly logger = new Logger(PipelineStagesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Optional() private readonly cacheService?: CacheService,
+  ) {}
+
+  /**
+   * @throws ConflictException when the name or an alias is already used by another stage
+   */
+  async create(dto: CreatePipelineStageDto): Promise<PipelineStageDto> {
+    const name = cleanStageName(dto.name);
+    const aliases = this.cleanAliases(dto.aliases ?? [], name);
+    const { stages } = await this.loadStages();
+
+    this.ensureNamesAvailable(stages, [name, ...aliases]);
+
+    const stage = await this.prisma.pipelineStage.create({
+      data: {
+        name,
+        position:
+          dto.position ??
+          Math.max(-1, ...stages.map((existing) => existing.position)) + 1,
+        outcome: dto.outcome,
+        aliases,
+      },
+      include: WITH_CLIENT_COUNT,
+    });
+
+    this.logger.log(`Pipeline stage ${stage.name} created`);
+
+    return this.toStage(stage);
+  }
+
+  async findAll(): Promise<PipelineStageDto[]> {
+    const stages = await this.prisma.pipelineStage.findMany({
+      include: WITH_CLIENT_COUNT,
+      orderBy: [{ position: 'asc' }, { name: 'asc' }],
+    });
+
+    return stages.map((stage) => this.toStage(stage));
+  }
+
+  /**
+   * @throws NotFoundException when the stage does not exist
+   */
+  async findOne(id: string): Promise<PipelineStageDto> {
+    const stage = await this.prisma.pipelineStage.findUnique({
+      where: { id },
+      include: WITH_CLIENT_COUNT,
+    });
+
+    if (!stage) {
+      throw new NotFoundException(`Pipeline stage with ID ${id} not found`);
+    }
+
+    return this.toStage(stage);
+  }
+
+  /**
+   * Update a stage
+   * Changing the outcome updates the closed flag of the stage's clients in the same transaction and
+   * invalidates the analytics cache.
+   * @throws NotFoundException when the stage does not exist
+   * @throws ConflictException when the name or an alias is used by another stage, or the change would
+   * leave the pipeline without an open or a won stage
+   */
+  async update(
+    id: string,
+    dto: UpdatePipelineStageDto,
+  ): Promise<PipelineStageDto> {
+    const existing = await this.findOne(id);
+    const { stages } = await this.loadStages();
+    const name =
+      dto.name !== undefined ? cleanStageName(dto.name) : existing.name;
+    const aliases =
+      dto.aliases !== undefined
+        ? this.cleanAliases(dto.aliases, name)
+        : undefined;
+    const outcome = dto.outcome ?? existing.outcome;
+
+    this.ensureNamesAvailable(stages, [name, ...(aliases ?? [])], id);
+    this.ensureTerminalStages(
+      stages.map((stage) => (stage.id === id ? { ...stage, outcome } : stage)),
+    );
+
+    const won = outcome === PipelineStageOutcomeEnum.WON;
+    const [stage] = await this.prisma.$transaction([
+      this.prisma.pipelineStage.update({
+        where: { id },
+        data: { name, position: dto.position, outcome, aliases },
+        include: WITH_CLIENT_COUNT,
+      }),
+      this.prisma.client.updateMany({
+        where: { stageId: id, closed: !won },
+        data: { closed: won },
+      }),
+    ]);
+
+    if (outcome !== existing.outcome && this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log(
+        'Analytics cache invalidated after changing the outcome of a pipeline stage',
+      );
+    }
+
+    return this.toStage(stage);
+  }
+
+  /**
+   * Delete a stage no client has ever been in
+   * Stages in use are kept for the stage history; rename or reorder them instead.
+   * @throws NotFoundException when the stage does not exist
+   * @throws ConflictException when clients (including trashed ones) are in the stage, the stage
+   * appears in the stage history, or the pipeline would be left without an open or a won stage
+   */
+  async remove(id: string): Promise<void> {
+    const stage = await this.findOne(id);
+    const [clients, changes] = await Promise.all([
+      this.prisma.client.count({ where: { stageId: id } }),
+      this.prisma.clientStageChange.count({
+        where: { OR: [{ fromStageId: id }, { toStageId: id }] },
+      }),
+    ]);
+
+    if (clients > 0) {
+      throw new ConflictException(
+        `Pipeline stage ${stage.name} has ${clients} clients; move them to another stage first`,
+      );
+    }
+    if (changes > 0) {
+      throw new ConflictException(
+        `Pipeline stage ${stage.name} appears in the stage history; rename it instead`,
+      );
+    }
+
+    const { stages } = await this.loadStages();
+    this.ensureTerminalStages(stages.filter((existing) => existing.id !== id));
+
+    await this.prisma.pipelineStage.delete({ where: { id } });
+
+    this.logger.log(`Pipeline stage ${id} deleted`);
+  }
+
+  /**
+   * Load the pipeline to resolve the stages of many clients without a query per client
+   */
+  async loadPipeline(): Promise<Pipeline> {
+    const { stages, byKey } = await this.loadStages();
+
+    return {
+      stages,
+      byKey,
+      // The pipeline always keeps an open and a won stage (see ensureTerminalStages)
+      defaultOpen: stages.find(
+        (stage) => stage.outcome === PipelineStageOutcomeEnum.OPEN,
+      )!,
+      defaultWon: stages.find(
+        (stage) => stage.outcome === PipelineStageOutcomeEnum.WON,
+      )!,
+    };
+  }
+
+  /**
+   * Stage a deal belongs in
+   * @param stage - Stage name or alias, as typed; takes precedence over closed
+   * @param closed - Without a stage, closed deals go to the first won stage and open ones to the first open stage
+   * @returns The stage, or undefined when the name matches no stage
+   */
+  stageFor(
+    pipeline: Pipeline,
+    stage: string | undefined,
+    closed: boolean,
+  ): Stage | undefined {
+    if (stage !== undefined) {
+      return pipeline.byKey.get(toStageKey(stage));
+    }
+
+    return closed ? pipeline.defaultWon : pipeline.defaultOpen;
+  }
+
+  /**
+   * Resolve the stage of a single deal
+   * @throws BadRequestException when the stage name matches no stage
+   */
+  async resolve(stage: string | undefined, closed: boolean): Promise<Stage> {
+    const resolved = this.stageFor(await this.loadPipeline(), stage, closed);
+
+    if (!resolved) {
+      throw new BadRequestException(`Unknown pipeline stage ${stage}`);
+    }
+
+    return resolved;
+  }
+
+  private async loadStages(): Promise<{
+    stages: Stage[];
+    byKey: Map<string, Stage>;
+  }> {
+    const stages = (await this.prisma.pipelineStage.findMany({
+      orderBy: [{ position: 'asc' }, { name: 'asc' }],
+    })) as Stage[];
+    const byKey = new Map<string, Stage>();
+
+    for (const stage of stages) {
+      for (const name of [stage.name, ...stage.aliases]) {
+        byKey.set(toStageKey(name), stage);
+      }
+    }
+
+    return { stages, byKey };
+  }
+
+  /**
+   * @param exceptId - Stage whose own name and aliases may be reused (the one being updated)
+   * @private
+   */
+  private ensureNamesAvailable(
+    stages: Stage[],
+    names: string[],
+    exceptId?: string,
+  ): void {
+    for (const name of names) {
+      const owner = stages.find(
+        (stage) =>
+          stage.id !== exceptId &&
+          [stage.name, ...stage.aliases].some(
+            (used) => toStageKey(used) === toStageKey(name),
+          ),
+      );
+      if (owner) {
+        throw new ConflictException(
+          `Stage name or alias ${name} is already used by stage ${owner.name}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Deals without an explicit stage need an open and a won stage to go to
+   * @private
+   */
+  private ensureTerminalStages(stages: Array<Pick<Stage, 'outcome'>>): void {
+    const outcomes = new Set(stages.map((stage) => stage.outcome));
+
+    if (
+      !outcomes.has(PipelineStageOutcomeEnum.OPEN) ||
+      !outcomes.has(PipelineStageOutcomeEnum.WON)
+    ) {
+      throw new ConflictException(
+        'The pipeline needs at least one open and one won stage',
+      );
+    }
+  }
+
+  /**
+   * Drop aliases that repeat the name or each other once case and spacing are ignored
+   * @private
+   */
+  private cleanAliases(aliases: string[], name: string): string[] {
+    const seen = new Set([toStageKey(name)]);
+
+    return aliases.map(cleanStageName).filter((alias) => {
+      const key = toStageKey(alias);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private toStage(stage: StageWithClientCount): PipelineStageDto {
+    return {
+      id: stage.id,
+      name: stage.name,
+      position: stage.position,
+      outcome: stage.outcome as PipelineStageOutcomeEnum,
+      aliases: stage.aliases,
+      clients: stage._count.clients,
+      createdAt: stage.createdAt,
+      updatedAt: stage.updatedAt,
+    };
+  }
+}
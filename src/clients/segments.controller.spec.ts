@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SegmentsController } from './segments.controller';
+import { SegmentsService } from './segments.service';
+
+describe('SegmentsController', () => {
+  let controller: SegmentsController;
+
+  const mockSegmentsService = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const segment = {
+    id: 'segment-1',
+    name: 'Large logistics prospects',
+    description: null,
+    filters: {
+      industry: ['Logistics'],
+      operationSize: ['large'],
+      closed: false,
+    },
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SegmentsController],
+      providers: [
+        {
+          provide: SegmentsService,
+          useValue: mockSegmentsService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<SegmentsController>(SegmentsController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create a segment', async () => {
+    mockSegmentsService.create.mockResolvedValue(segment);
+
+    const result = await controller.create({
+      name: segment.name,
+      filters: segment.filters,
+    });
+
+    expect(result).toEqual(segment);
+    expect(mockSegmentsService.create).toHaveBeenCalledWith({
+      name: segment.name,
+      filters: segment.filters,
+    });
+  });
+
+  it('should list segments', async () => {
+    mockSegmentsService.findAll.mockResolvedValue([segment]);
+
+    await expect(controller.findAll()).resolves.toEqual([segment]);
+  });
+
+  it('should update a segment', async () => {
+    mockSegmentsService.update.mockResolvedValue({
+      ...segment,
+      name: 'Renamed',
+    });
+
+    await controller.update('segment-1', { name: 'Renamed' });
+
+    expect(mockSegmentsService.update).toHaveBeenCalledWith('segment-1', {
+      name: 'Renamed',
+    });
+  });
+
+  it('should delete a segment', async () => {
+    await controller.remove('segment-1');
+
+    expect(mockSegmentsService.remove).toHaveBeenCalledWith('segment-1');
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SegmentsService } from './segments.service';
+import { CreateSegmentDto, UpdateSegmentDto } from '../common/dto/clients';
+
+@ApiTags('clients')
+@Controller('segments')
+export class SegmentsController {
+  constructor(private readonly segmentsService: SegmentsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Save a client segment',
+    description:
+      'filters accepts the GET /clients filters except sort and pagination. Pass the segment ID as segmentId to GET /clients, the client export or the analytics endpoints to scope them to the segment.',
+  })
+  @ApiResponse({ status: 201, description: 'Segment created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid filters' })
+  @ApiResponse({
+    status: 409,
+    description: 'A segment with this name already exists',
+  })
+  async create(@Body() dto: CreateSegmentDto) {
+    return this.segmentsService.create(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List saved segments' })
+  @ApiResponse({ status: 200, description: 'Segments retrieved successfully' })
+  async findAll() {
+    return this.segmentsService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a single segment by ID' })
+  @ApiResponse({ status: 200, description: 'Segment retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async findOne(@Param('id') id: string) {
+    return this.segmentsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a segment',
+    description: 'Filters, when given, replace the saved filters.',
+  })
+  @ApiResponse({ status: 200, description: 'Segment updated successfully' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'A segment with this name already exists',
+  })
+  async update(@Param('id') id: string, @Body() dto: UpdateSegmentDto) {
+    return this.segmentsService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a segment' })
+  @ApiResponse({ status: 204, description: 'Segment deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async remove(@Param('id') id: string) {
+    await this.segmentsService.remove(id);
+  }
+}
@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { SegmentsService } from './segments.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../common/services/cache.service';
+
+describe('SegmentsService', () => {
+  let service: SegmentsService;
+
+  const mockPrismaService = {
+    segment: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  const mockCacheService = {
+    clearAnalyticsCache: jest.fn(),
+  };
+
+  const filters = {
+    industry: ['Logistics'],
+    operationSize: ['large'],
+    sentiment: ['skeptical'],
+    closed: false,
+  };
+
+  const mockSegment = {
+    id: 'segment-1',
+    name: 'Large logistics prospects',
+    description: 'Skeptical and still open',
+    filters,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SegmentsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SegmentsService>(SegmentsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store only the filters in use', async () => {
+      mockPrismaService.segment.findUnique.mockResolvedValueOnce(null);
+      mockPrismaService.segment.create.mockResolvedValueOnce(mockSegment);
+
+      const result = await service.create({
+        name: 'Large logistics prospects',
+        description: 'Skeptical and still open',
+        filters: { ...filters, search: undefined },
+      });
+
+      expect(result).toEqual(mockSegment);
+      expect(mockPrismaService.segment.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Large logistics prospects',
+          description: 'Skeptical and still open',
+          filters,
+        },
+      });
+    });
+
+    it('should throw ConflictException when the name is taken', async () => {
+      mockPrismaService.segment.findUnique.mockResolvedValueOnce(mockSegment);
+
+      await expect(
+        service.create({ name: 'Large logistics prospects', filters }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.segment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return segments ordered by name', async () => {
+      mockPrismaService.segment.findMany.mockResolvedValueOnce([mockSegment]);
+
+      await expect(service.findAll()).resolves.toEqual([mockSegment]);
+      expect(mockPrismaService.segment.findMany).toHaveBeenCalledWith({
+        orderBy: { name: 'asc' },
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException when the segment does not exist', async () => {
+      mockPrismaService.segment.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(
+        'Segment with ID missing not found',
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should keep cached analytics when only the name changes', async () => {
+      mockPrismaService.segment.findUnique
+        .mockResolvedValueOnce(mockSegment)
+        .mockResolvedValueOnce(null);
+      mockPrismaService.segment.update.mockResolvedValueOnce({
+        ...mockSegment,
+        name: 'Renamed',
+      });
+
+      const result = await service.update('segment-1', { name: 'Renamed' });
+
+      expect(result.name).toBe('Renamed');
+      expect(mockPrismaService.segment.update).toHaveBeenCalledWith({
+        where: { id: 'segment-1' },
+        data: { name: 'Renamed', description: undefined, filters: undefined },
+      });
+      expect(mockCacheService.clearAnalyticsCache).not.toHaveBeenCalled();
+    });
+
+    it('should invalidate cached analytics when the filters change', async () => {
+      mockPrismaService.segment.findUnique.mockResolvedValueOnce(mockSegment);
+      mockPrismaService.segment.update.mockResolvedValueOnce({
+        ...mockSegment,
+        filters: { closed: true },
+      });
+
+      await service.update('segment-1', { filters: { closed: true } });
+
+      expect(mockPrismaService.segment.update).toHaveBeenCalledWith({
+        where: { id: 'segment-1' },
+        data: {
+          name: undefined,
+          description: undefined,
+          filters: { closed: true },
+        },
+      });
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the segment and invalidate cached analytics', async () => {
+      mockPrismaService.segment.findUnique.mockResolvedValueOnce(mockSegment);
+
+      await service.remove('segment-1');
+
+      expect(mockPrismaService.segment.delete).toHaveBeenCalledWith({
+        where: { id: 'segment-1' },
+      });
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+  });
+});
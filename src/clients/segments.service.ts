@@ -0,0 +1,141 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  Optional,
+} from '@nestjs/common';
+import { Prisma, Segment } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../common/services/cache.service';
+import {
+  CreateSegmentDto,
+  SegmentDto,
+  SegmentFiltersDto,
+  UpdateSegmentDto,
+} from '../common/dto/clients';
+
+/**
+ * Manages saved client segments
+ * A segment is a named combination of client listing filters; the client listing and analytics
+ * accept a segmentId to be scoped to the clients it matches.
+ */
+@Injectable()
+export class SegmentsService {
+  private readonly logger = new Logger(SegmentsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Optional() private readonly cacheService?: CacheService,
+  ) {}
+
+  async create(dto: CreateSegmentDto): Promise<SegmentDto> {
+    await this.ensureNameAvailable(dto.name);
+
+    const segment = await this.prisma.segment.create({
+      data: {
+        name: dto.name,
+        description: dto.description,
+        filters: this.toFiltersJson(dto.filters),
+      },
+    });
+
+    this.logger.log(`Segment ${segment.name} created`);
+
+    return this.toSegment(segment);
+  }
+
+  async findAll(): Promise<SegmentDto[]> {
+    const segments = await this.prisma.segment.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return segments.map((segment) => this.toSegment(segment));
+  }
+
+  /**
+   * @throws NotFoundException when the segment does not exist
+   */
+  async findOne(id: string): Promise<SegmentDto> {
+    const segment = await this.prisma.segment.findUnique({
+      where: { id },
+    });
+
+    if (!segment) {
+      throw new NotFoundException(`Segment with ID ${id} not found`);
+    }
+
+    return this.toSegment(segment);
+  }
+
+  /**
+   * Update a segment
+   * Cached analytics may be scoped to the segment, so they are invalidated when its filters change.
+   */
+  async update(id: string, dto: UpdateSegmentDto): Promise<SegmentDto> {
+    const existing = await this.findOne(id);
+
+    if (dto.name && dto.name !== existing.name) {
+      await this.ensureNameAvailable(dto.name);
+    }
+
+    const segment = await this.prisma.segment.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        description: dto.description,
+        filters: dto.filters ? this.toFiltersJson(dto.filters) : undefined,
+      },
+    });
+
+    if (dto.filters && this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log('Analytics cache invalidated after changing a segment');
+    }
+
+    return this.toSegment(segment);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.findOne(id);
+    await this.prisma.segment.delete({ where: { id } });
+
+    this.logger.log(`Segment ${id} deleted`);
+
+    if (this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log('Analytics cache invalidated after deleting a segment');
+    }
+  }
+
+  private async ensureNameAvailable(name: string): Promise<void> {
+    const existing = await this.prisma.segment.findUnique({
+      where: { name },
+    });
+
+    if (existing) {
+      throw new ConflictException(`Segment named ${name} already exists`);
+    }
+  }
+
+  /**
+   * Filters left unset are dropped, so the stored definition only holds the filters in use
+   * @private
+   */
+  private toFiltersJson(filters: SegmentFiltersDto): Prisma.InputJsonObject {
+    return Object.fromEntries(
+      Object.entries(filters).filter(([, value]) => value !== undefined),
+    ) as Prisma.InputJsonObject;
+  }
+
+  private toSegment(segment: Segment): SegmentDto {
+    return {
+      id: segment.id,
+      name: segment.name,
+      description: segment.description,
+      filters: segment.filters as unknown as SegmentFiltersDto,
+      createdAt: segment.createdAt,
+      updatedAt: segment.updatedAt,
+    };
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * API Constants
- * 
+ *
  * Centralized constants for API operations including pagination,
  * HTTP status codes, and common API defaults.
  */
@@ -13,7 +13,7 @@ export const API_CONSTANTS = {
      * Default page number
      */
     DEFAULT_PAGE: 1,
-    
+
     /**
      * Default items per page
      */
@@ -26,6 +26,7 @@ export const API_CONSTANTS = {
   HTTP_STATUS: {
     OK: 200,
     CREATED: 201,
+    ACCEPTED: 202,
     BAD_REQUEST: 400,
     NOT_FOUND: 404,
     INTERNAL_SERVER_ERROR: 500,
@@ -39,12 +40,12 @@ export const API_CONSTANTS = {
      * Default fallback probability (50%)
      */
     DEFAULT_FALLBACK: 50,
-    
+
     /**
      * Minimum probability value
      */
     MIN: 0,
-    
+
     /**
      * Maximum probability value
      */
@@ -69,18 +70,18 @@ export const API_CONSTANTS = {
      * Maximum number of top deals/clients to process
      */
     TOP_DEALS: 3,
-    
+
     /**
      * Maximum recommendations to return
      */
     MAX_RECOMMENDATIONS: 3,
-    
+
     /**
      * Sample size for transcript analysis
      */
     TRANSCRIPT_SAMPLE_SMALL: 10,
     TRANSCRIPT_SAMPLE_MEDIUM: 15,
-    
+
     /**
      * Top results for various rankings
      */
@@ -88,4 +89,3 @@ export const API_CONSTANTS = {
     TOP_RESULTS_MEDIUM: 5,
   },
 } as const;
-
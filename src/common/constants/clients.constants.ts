@@ -0,0 +1,87 @@
+/**
+ * Client Constants
+ *
+ * Centralized constants for managing stored clients.
+ */
+export const CLIENT_CONSTANTS = {
+  /**
+   * Token that must be sent to permanently delete the clients in the trash
+   */
+  PURGE_CONFIRMATION: 'PURGE_TRASH',
+
+  /**
+   * Columns the client listing can be sorted on (`sort=<field>:<asc|desc>`)
+   * List fields (painPoints, technicalRequirements) cannot be ordered.
+   */
+  SORTABLE_FIELDS: [
+    'id',
+    'name',
+    'email',
+    'phone',
+    'assignedSeller',
+    'meetingDate',
+    'closed',
+    'transcription',
+    'industry',
+    'operationSize',
+    'interactionVolume',
+    'discoverySource',
+    'mainMotivation',
+    'urgencyLevel',
+    'sentiment',
+    'processed',
+    'processedAt',
+    'deletedAt',
+    'createdAt',
+    'updatedAt',
+  ] as const,
+
+  /**
+   * Order of the client listing and exports when no sort is given, and of the trash listing
+   */
+  DEFAULT_SORT: 'meetingDate:desc',
+  TRASH_SORT: 'deletedAt:desc',
+
+  /**
+   * Order of listings filtered by `search` when no sort is given: best full-text rank first
+   */
+  RELEVANCE_SORT: 'relevance',
+
+  /**
+   * Text search configurations the transcription is indexed with (see the client_full_text_search migration)
+   * Names and emails are indexed with 'simple' so they match without stemming.
+   */
+  SEARCH_CONFIGS: ['simple', 'spanish', 'english'] as const,
+
+  /**
+   * ts_headline options for the transcription snippet returned with each search match
+   */
+  SEARCH_HEADLINE_OPTIONS:
+    'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "',
+
+  /**
+   * Clients read from the database per query while an export is streamed
+   */
+  EXPORT_BATCH_SIZE: 1000,
+
+  /**
+   * Separator used to flatten list fields (painPoints, technicalRequirements) into one cell
+   * Imports split on ';', so exported files can be uploaded again.
+   */
+  EXPORT_LIST_SEPARATOR: '; ',
+
+  /**
+   * Longest text Excel accepts in a single cell; longer values are truncated in XLSX exports
+   */
+  XLSX_MAX_CELL_LENGTH: 32767,
+
+  /**
+   * Currency of deal amounts given without one, and of the revenue analytics when none is requested
+   */
+  DEFAULT_CURRENCY: 'USD',
+
+  /**
+   * Longest a bulk action may run (ms) before its transaction is rolled back
+   */
+  BULK_ACTION_TIMEOUT_MS: 60000,
+} as const;
@@ -0,0 +1,237 @@
+/**
+ * Import Constants
+ *
+ * Centralized constants for client imports: batching, the fields a source
+ * column can be mapped to, and the header synonyms used to suggest mappings.
+ */
+export const IMPORT_CONSTANTS = {
+  /**
+   * Number of rows read, validated and written per round-trip
+   */
+  CHUNK_SIZE: 500,
+
+  /**
+   * Upload size limit in megabytes (override with IMPORT_MAX_FILE_SIZE_MB)
+   */
+  DEFAULT_MAX_FILE_SIZE_MB: 250,
+
+  /**
+   * Size limit in megabytes for JSON documents, which are parsed whole (override with IMPORT_MAX_JSON_FILE_SIZE_MB)
+   */
+  DEFAULT_MAX_JSON_FILE_SIZE_MB: 25,
+
+  /**
+   * Maximum number of data rows per import (override with IMPORT_MAX_ROWS)
+   */
+  DEFAULT_MAX_ROWS: 1_000_000,
+
+  /**
+   * Time zone meeting dates without an explicit offset are read in, unless the upload sets one
+   */
+  DEFAULT_TIMEZONE: 'UTC',
+
+  /**
+   * Mapped rows returned by an import preview when no limit is given, and the largest limit accepted
+   */
+  PREVIEW_DEFAULT_ROWS: 20,
+  PREVIEW_MAX_ROWS: 100,
+
+  /**
+   * Rejected and duplicate rows listed in an import preview; the rest are only counted
+   */
+  PREVIEW_MAX_ISSUES: 100,
+
+  /**
+   * Row results, rejected rows and duplicate rows kept in the report of an import; the rest are only counted
+   */
+  REPORT_MAX_ROWS: 1000,
+
+  /**
+   * Bytes read from the start of a text file to detect its encoding and CSV delimiter
+   */
+  DIALECT_SAMPLE_BYTES: 64 * 1024,
+
+  /**
+   * CSV delimiters tried on the header row, in order of preference
+   */
+  CSV_DELIMITERS: [',', ';', '\t', '|'],
+
+  /**
+   * Client fields every import must provide; closed is also required unless stage is mapped
+   */
+  REQUIRED_FIELDS: [
+    'name',
+    'email',
+    'phone',
+    'assignedSeller',
+    'meetingDate',
+    'transcription',
+  ] as const,
+
+  /**
+   * Fields a source may also carry: the closed flag, the pipeline stage (name or alias, taking
+   * precedence over closed), the deal value and pre-categorized fields
+   */
+  OPTIONAL_FIELDS: [
+    'closed',
+    'stage',
+    'dealAmount',
+    'currency',
+    'industry',
+    'operationSize',
+    'interactionVolume',
+    'discoverySource',
+    'mainMotivation',
+    'urgencyLevel',
+    'painPoints',
+    'technicalRequirements',
+    'sentiment',
+  ] as const,
+
+  /**
+   * Separator for list fields (painPoints, technicalRequirements) inside a single cell
+   */
+  LIST_SEPARATOR: /[;|]/,
+
+  /**
+   * Column mapping used when no import profile is selected (original Spanish CSV format)
+   */
+  DEFAULT_COLUMN_MAPPING: {
+    name: 'Nombre',
+    email: 'Correo Electronico',
+    phone: 'Numero de Telefono',
+    assignedSeller: 'Vendedor asignado',
+    meetingDate: 'Fecha de la Reunion',
+    closed: 'closed',
+    transcription: 'Transcripcion',
+  },
+
+  /**
+   * Known header names per field, compared after lowercasing and stripping accents/punctuation
+   */
+  HEADER_SYNONYMS: {
+    name: [
+      'nombre',
+      'nombre completo',
+      'name',
+      'full name',
+      'client',
+      'client name',
+      'cliente',
+      'contact',
+      'contacto',
+      'nome',
+    ],
+    email: [
+      'correo electronico',
+      'correo',
+      'email',
+      'e mail',
+      'mail',
+      'email address',
+    ],
+    phone: [
+      'numero de telefono',
+      'telefono',
+      'celular',
+      'phone',
+      'phone number',
+      'telephone',
+      'mobile',
+      'telefone',
+    ],
+    assignedSeller: [
+      'vendedor asignado',
+      'vendedor',
+      'seller',
+      'assigned seller',
+      'sales rep',
+      'salesperson',
+      'owner',
+      'account owner',
+      'vendedor responsavel',
+    ],
+    meetingDate: [
+      'fecha de la reunion',
+      'fecha reunion',
+      'fecha',
+      'meeting date',
+      'date',
+      'data da reuniao',
+    ],
+    closed: [
+      'closed',
+      'cerrado',
+      'won',
+      'deal closed',
+      'is closed',
+      'ganado',
+      'fechado',
+    ],
+    stage: [
+      'stage',
+      'etapa',
+      'deal stage',
+      'pipeline stage',
+      'estado',
+      'status',
+      'fase',
+    ],
+    dealAmount: [
+      'deal amount',
+      'amount',
+      'deal value',
+      'value',
+      'monto',
+      'valor',
+      'monto del negocio',
+      'valor do negocio',
+    ],
+    currency: ['currency', 'moneda', 'divisa', 'moeda'],
+    transcription: [
+      'transcripcion',
+      'transcription',
+      'transcript',
+      'notes',
+      'meeting notes',
+      'notas',
+      'transcricao',
+    ],
+    industry: ['industria', 'industry', 'sector', 'rubro', 'vertical'],
+    operationSize: [
+      'operation size',
+      'tamano',
+      'tamano de operacion',
+      'company size',
+      'size',
+    ],
+    interactionVolume: [
+      'interaction volume',
+      'volumen de interacciones',
+      'volumen',
+      'interactions',
+    ],
+    discoverySource: [
+      'discovery source',
+      'lead source',
+      'source',
+      'fuente',
+      'origen',
+    ],
+    mainMotivation: [
+      'main motivation',
+      'motivation',
+      'motivacion',
+      'motivacion principal',
+    ],
+    urgencyLevel: ['urgency level', 'urgency', 'urgencia', 'nivel de urgencia'],
+    painPoints: ['pain points', 'dolores', 'problemas', 'puntos de dolor'],
+    technicalRequirements: [
+      'technical requirements',
+      'requirements',
+      'requerimientos tecnicos',
+      'requisitos tecnicos',
+    ],
+    sentiment: ['sentiment', 'sentimiento'],
+  },
+} as const;
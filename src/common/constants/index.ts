@@ -1,4 +1,5 @@
 export * from './analytics.constants';
 export * from './llm.constants';
 export * from './api.constants';
-
+export * from './import.constants';
+export * from './clients.constants';
@@ -1,6 +1,6 @@
 /**
  * LLM Constants
- * 
+ *
  * Centralized constants for LLM/AI operations including token limits,
  * model configurations, and response processing limits.
  */
@@ -10,6 +10,35 @@ export const LLM_CONSTANTS = {
    */
   DEFAULT_MODEL: 'claude-3-haiku-20240307',
 
+  /**
+   * Provider used when LLM_PROVIDER is not set
+   */
+  DEFAULT_PROVIDER: 'anthropic',
+
+  /**
+   * OpenAI-compatible servers (llama.cpp, Ollama, vLLM...), overridable with LLM_BASE_URL and LLM_MODEL
+   */
+  OPENAI_COMPATIBLE: {
+    DEFAULT_BASE_URL: 'http://localhost:11434/v1',
+    DEFAULT_MODEL: 'llama3.1',
+    TIMEOUT_MS: 120000,
+  },
+
+  /**
+   * Model name reported by the offline mock provider
+   */
+  MOCK_MODEL: 'mock-rules',
+
+  /**
+   * Re-prompts with the validation errors before a categorization falls back to placeholder values
+   */
+  CATEGORIZATION_REPAIR_ATTEMPTS: 2,
+
+  /**
+   * Clients categorized again per reprocessing request, the ones processed longest ago first
+   */
+  REPROCESS_MAX_CLIENTS: 50,
+
   /**
    * Token limits for different types of prompts
    */
@@ -18,42 +47,42 @@ export const LLM_CONSTANTS = {
      * Short responses (predictions, brief insights)
      */
     SHORT: 150,
-    
+
     /**
      * Standard insights (pain points, volume analysis)
      */
     STANDARD: 200,
-    
+
     /**
      * Medium insights (industry conversion, seller correlations)
      */
     MEDIUM: 250,
-    
+
     /**
      * Extended insights (seller feedback, timeline analysis)
      */
     EXTENDED: 300,
-    
+
     /**
      * Timeline insights (comprehensive analysis)
      */
     TIMELINE: 400,
-    
+
     /**
      * Seller feedback (detailed recommendations)
      */
     SELLER_FEEDBACK: 512,
-    
+
     /**
      * Client perception insights (comprehensive analysis)
      */
     CLIENT_PERCEPTION: 600,
-    
+
     /**
      * Categorization (full transcription analysis)
      */
     CATEGORIZATION: 1024,
-    
+
     /**
      * Default fallback token limit
      */
@@ -68,7 +97,7 @@ export const LLM_CONSTANTS = {
      * Brief log preview
      */
     BRIEF: 100,
-    
+
     /**
      * Standard log preview
      */
@@ -83,11 +112,10 @@ export const LLM_CONSTANTS = {
      * Short transcription preview
      */
     SHORT: 400,
-    
+
     /**
      * Medium transcription preview
      */
     MEDIUM: 500,
   },
 } as const;
-
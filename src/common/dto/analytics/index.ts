@@ -6,3 +6,5 @@ export * from './conversion.dto';
 export * from './industry.dto';
 export * from './insights.dto';
 
+export * from './team.dto';
+export * from './revenue.dto';
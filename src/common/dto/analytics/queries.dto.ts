@@ -1,7 +1,20 @@
-import { IsString, IsEnum, IsInt, Min, Max, IsOptional, IsIn } from 'class-validator';
-import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsEnum,
+  IsInt,
+  Min,
+  Max,
+  IsOptional,
+  IsIn,
+  IsUUID,
+  IsISO4217CurrencyCode,
+} from 'class-validator';
+import { Type, Transform } from 'class-transformer';
 import { ANALYTICS_CONSTANTS } from '../../constants';
 
+const toCurrencyCode = ({ value }: { value: unknown }): unknown =>
+  typeof value === 'string' ? value.trim().toUpperCase() : value;
+
 export enum DimensionEnum {
   INDUSTRY = 'industry',
   SENTIMENT = 'sentiment',
@@ -15,17 +28,56 @@ export enum GranularityEnum {
   MONTH = 'month',
 }
 
-export class DimensionQueryDto {
+export class SegmentQueryDto {
+  @IsOptional()
+  @IsUUID()
+  segmentId?: string; // Saved client segment to scope the metrics to
+}
+
+export class DimensionQueryDto extends SegmentQueryDto {
   @IsEnum(DimensionEnum)
   dimension: DimensionEnum;
 }
 
+export class CurrencyQueryDto {
+  @IsOptional()
+  @Transform(toCurrencyCode)
+  @IsISO4217CurrencyCode()
+  currency?: string; // Only deals in this currency are added up (default CLIENT_CONSTANTS.DEFAULT_CURRENCY)
+}
+
+export class RevenueOverviewQueryDto extends SegmentQueryDto {
+  @IsOptional()
+  @Transform(toCurrencyCode)
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
+
+export class RevenueDimensionQueryDto extends DimensionQueryDto {
+  @IsOptional()
+  @Transform(toCurrencyCode)
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
+
 export class SellerTimelineQueryDto {
   @IsOptional()
   @IsEnum(GranularityEnum)
   granularity?: GranularityEnum = GranularityEnum.WEEK;
 }
 
+export class TeamQueryDto {
+  @IsOptional()
+  @IsString()
+  region?: string; // Only compare the teams of this region
+}
+
+export class TeamTimelineQueryDto extends SellerTimelineQueryDto {
+  @IsOptional()
+  @IsString()
+  region?: string;
+}
+
 export class YearQueryDto {
   @IsOptional()
   @Type(() => Number)
@@ -54,3 +106,15 @@ export class SellerOfWeekQueryDto {
   year?: number;
 }
 
+export class TeamYearQueryDto extends YearQueryDto {
+  @IsOptional()
+  @IsString()
+  region?: string;
+}
+
+export class RevenueYearQueryDto extends YearQueryDto {
+  @IsOptional()
+  @Transform(toCurrencyCode)
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * Revenue-weighted metrics
+ * Only deals with an amount in the requested currency are added up; amounts are rounded to 2 decimals.
+ */
+export class RevenueOverviewDto {
+  currency: string;
+  deals: number; // Clients with an amount in the currency
+  totalValue: number;
+  wonValue: number; // Deals in won stages
+  pipelineValue: number; // Deals still in open stages
+  lostValue: number; // Deals in lost stages
+  averageDealSize: number;
+  valueConversionRate: number; // Share of the total value that was won (%)
+}
+
+export class RevenueDimensionValueDto {
+  value: string;
+  count: number;
+  closed: number;
+  totalValue: number;
+  wonValue: number;
+  averageDealSize: number;
+  valueConversionRate: number;
+}
+
+export class RevenueDimensionMetricsDto {
+  dimension: string;
+  currency: string;
+  values: RevenueDimensionValueDto[]; // Sorted by won value (descending)
+}
+
+export class AnnualSellerRevenueRankingDto {
+  year: number;
+  currency: string;
+  ranking: Array<{
+    sellerId: string;
+    seller: string;
+    closed: number; // Won deals with an amount in the currency
+    wonValue: number;
+    averageDealSize: number;
+  }>;
+}
+
+export class RevenueProjectionDto {
+  currency: string;
+  nextWeek: {
+    expectedRevenue: number;
+    confidence: 'high' | 'medium' | 'low';
+    trend: 'increasing' | 'decreasing' | 'stable' | 'neutral';
+  };
+  nextMonth: {
+    expectedRevenue: number;
+    confidence: 'high' | 'medium' | 'low';
+    trend: 'increasing' | 'decreasing' | 'stable' | 'neutral';
+  };
+  averageDealSize: number; // Of the won deals the projection is based on
+  message: string;
+}
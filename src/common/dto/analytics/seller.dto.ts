@@ -1,6 +1,9 @@
 import { IsString, IsNumber } from 'class-validator';
 
 export class SellerMetricsDto {
+  @IsString()
+  sellerId: string;
+
   @IsString()
   seller: string;
 
@@ -41,6 +44,7 @@ export class SellerAIFeedbackDto {
 
 export class WeekPodiumDto {
   weekPodium: Array<{
+    sellerId: string;
     seller: string;
     closed: number;
     total: number;
@@ -55,6 +59,7 @@ export class WeekPodiumDto {
 export class AnnualSellerRankingDto {
   year: number;
   ranking: Array<{
+    sellerId: string;
     seller: string;
     total: number;
     closed: number;
@@ -64,6 +69,5 @@ export class AnnualSellerRankingDto {
 
 export class SellerTimelineDataDto {
   period: string;
-  sellers: Record<string, number>;
+  sellers: Record<string, number>; // Closed deals keyed by seller name
 }
-
@@ -0,0 +1,38 @@
+import { IsString, IsNumber, IsOptional } from 'class-validator';
+
+/**
+ * A team's numbers: the deals of its members while they were on the team
+ */
+export class TeamMetricsDto {
+  @IsString()
+  teamId: string;
+
+  @IsString()
+  team: string;
+
+  @IsOptional()
+  @IsString()
+  region: string | null;
+
+  @IsNumber()
+  sellers: number; // Members with at least one client counted
+
+  @IsNumber()
+  total: number;
+
+  @IsNumber()
+  closed: number;
+
+  @IsNumber()
+  conversionRate: number;
+}
+
+export class AnnualTeamRankingDto {
+  year: number;
+  ranking: TeamMetricsDto[];
+}
+
+export class TeamTimelineDataDto {
+  period: string;
+  teams: Record<string, number>; // Closed deals keyed by team name
+}
@@ -1,5 +1,24 @@
-import { IsString, IsEmail, IsBoolean, IsOptional, IsDateString, IsArray, IsInt } from 'class-validator';
+import {
+  IsString,
+  IsEmail,
+  IsBoolean,
+  IsOptional,
+  IsDateString,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsIn,
+  IsUUID,
+  Min,
+  Equals,
+  Matches,
+  IsNumber,
+  IsISO4217CurrencyCode,
+} from 'class-validator';
 import { Type, Transform } from 'class-transformer';
+import { PartialType } from '@nestjs/swagger';
+import { CLIENT_CONSTANTS } from '../constants';
+import { CategorizationStatusEnum } from './llm/categorization.dto';
 
 export class CreateClientDto {
   @IsString()
@@ -11,28 +30,108 @@ export class CreateClientDto {
   @IsString()
   phone: string;
 
+  // Seller name or alias, case and spacing ignored; unknown names create a seller
   @IsString()
+  @IsNotEmpty()
   assignedSeller: string;
 
   @IsDateString()
   meetingDate: string;
 
+  // Derived from the stage when one is given: clients in won stages are closed
   @IsBoolean()
   closed: boolean;
 
+  // Pipeline stage name or alias, case and spacing ignored; defaults to the first open or won stage per closed
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  stage?: string;
+
   @IsString()
+  @IsNotEmpty()
   transcription: string;
+
+  // Deal value; amounts in different currencies are never added up together
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  dealAmount?: number;
+
+  // ISO 4217 code such as CLP or USD; an amount without one is stored in CLIENT_CONSTANTS.DEFAULT_CURRENCY
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  // Optional pre-categorized fields (e.g. imported from a CRM that already tracks them)
+  @IsOptional()
+  @IsString()
+  industry?: string;
+
+  @IsOptional()
+  @IsIn(['small', 'medium', 'large'])
+  operationSize?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  interactionVolume?: number;
+
+  @IsOptional()
+  @IsString()
+  discoverySource?: string;
+
+  @IsOptional()
+  @IsString()
+  mainMotivation?: string;
+
+  @IsOptional()
+  @IsIn(['immediate', 'planned', 'exploratory'])
+  urgencyLevel?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  painPoints?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  technicalRequirements?: string[];
+
+  @IsOptional()
+  @IsIn(['positive', 'neutral', 'skeptical'])
+  sentiment?: string;
+
+  // Free-form labels, e.g. vip or follow-up
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
 }
 
+/**
+ * Fields to change on a single client
+ * A changed transcription marks the client for AI categorization again.
+ */
+export class UpdateClientDto extends PartialType(CreateClientDto) {}
+
 export class ClientResponseDto {
   id: string;
   name: string;
   email: string;
   phone: string;
   assignedSeller: string;
+  sellerId: string;
   meetingDate: Date;
+  stageId: string;
   closed: boolean;
   transcription: string;
+  dealAmount?: string; // Decimal, serialized as a string such as "1500.00"
+  currency?: string;
   industry?: string;
   operationSize?: string;
   interactionVolume?: number;
@@ -42,41 +141,153 @@ export class ClientResponseDto {
   painPoints?: string[];
   technicalRequirements?: string[];
   sentiment?: string;
+  tags: string[];
   processed: boolean;
   processedAt?: Date;
+  categorizationStatus?: string; // valid, repaired or fallback
+  categorizationPromptVersion?: string; // Categorization prompt used, as categorization@<version>
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Query values arrive as strings; implicit conversion would turn 'false' into true, so read the raw value
+ */
+const toBoolean = ({
+  obj,
+  key,
+}: {
+  obj: Record<string, unknown>;
+  key: string;
+}): unknown => {
+  const value = obj[key];
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+};
+
+/**
+ * A repeated query parameter (?industry=A&industry=B) arrives as an array, a single one as a string
+ */
+const toStringArray = ({ value }: { value: unknown }): unknown =>
+  Array.isArray(value) ? value : [value];
+
+const SORT_PATTERN = new RegExp(
+  `^(${CLIENT_CONSTANTS.SORTABLE_FIELDS.join('|')})(:(asc|desc))?$`,
+);
+
 export class ClientFilterDto {
+  // Full-text search over name, email and transcription: "quoted words" match a phrase, term* a prefix
   @IsOptional()
   @IsString()
   search?: string;
 
+  // Saved segment whose filters apply on top of the other filters
   @IsOptional()
-  @IsString()
-  assignedSeller?: string;
+  @IsUUID()
+  segmentId?: string;
 
+  // Multi-value filters: repeat the parameter to match any of several values
   @IsOptional()
-  @IsString()
-  industry?: string;
+  @Transform(toStringArray)
+  @IsString({ each: true })
+  assignedSeller?: string[];
 
   @IsOptional()
-  @Transform(({ value }) => {
-    if (value === 'true') return true;
-    if (value === 'false') return false;
-    return value;
-  })
+  @Transform(toStringArray)
+  @IsUUID('all', { each: true })
+  sellerId?: string[];
+
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsUUID('all', { each: true })
+  stageId?: string[];
+
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsString({ each: true })
+  industry?: string[];
+
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsString({ each: true })
+  sentiment?: string[];
+
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsString({ each: true })
+  discoverySource?: string[];
+
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsIn(['immediate', 'planned', 'exploratory'], { each: true })
+  urgencyLevel?: string[];
+
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsIn(['small', 'medium', 'large'], { each: true })
+  operationSize?: string[];
+
+  // Clients whose painPoints / technicalRequirements contain any of the given values
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsString({ each: true })
+  painPoint?: string[];
+
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsString({ each: true })
+  technicalRequirement?: string[];
+
+  // Clients carrying any of the given tags
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsString({ each: true })
+  tag?: string[];
+
+  @IsOptional()
+  @Transform(toBoolean)
   @IsBoolean()
   closed?: boolean;
 
   @IsOptional()
-  @IsString()
-  sentiment?: string;
+  @Transform(toBoolean)
+  @IsBoolean()
+  processed?: boolean;
 
+  // Clients whose last categorization was valid, repaired or fell back to placeholder values
   @IsOptional()
-  @IsString()
-  discoverySource?: string;
+  @Transform(toStringArray)
+  @IsIn(Object.values(CategorizationStatusEnum), { each: true })
+  categorizationStatus?: string[];
+
+  // Inclusive bounds; a date without a time covers that whole day (UTC)
+  @IsOptional()
+  @IsDateString()
+  meetingDateFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  meetingDateTo?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  interactionVolumeMin?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  interactionVolumeMax?: number;
+
+  // <field>:<asc|desc>, e.g. name:asc; the direction defaults to asc
+  @IsOptional()
+  @Matches(SORT_PATTERN, {
+    message: `sort must be <field>:<asc|desc> with field one of ${CLIENT_CONSTANTS.SORTABLE_FIELDS.join(', ')}`,
+  })
+  sort?: string;
 
   @IsOptional()
   @Type(() => Number)
@@ -87,6 +298,27 @@ export class ClientFilterDto {
   @Type(() => Number)
   @IsInt()
   limit?: number;
+
+  // nextCursor or prevCursor of a previous page, issued for the same sort; replaces page
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  // Set to false to skip counting the matches on large tables; total is then null
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  includeTotal?: boolean;
+}
+
+/**
+ * Confirmation required to permanently delete the clients in the trash
+ */
+export class PurgeTrashDto {
+  @Equals(CLIENT_CONSTANTS.PURGE_CONFIRMATION, {
+    message: `confirm must be ${CLIENT_CONSTANTS.PURGE_CONFIRMATION} to permanently delete the trash`,
+  })
+  confirm: string;
 }
 
 export class CategorizedDataDto {
@@ -100,4 +332,3 @@ export class CategorizedDataDto {
   technicalRequirements: string[];
   sentiment: string;
 }
-
@@ -0,0 +1,99 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { OmitType } from '@nestjs/swagger';
+import { ClientFilterDto } from '../client.dto';
+
+export enum BulkClientActionEnum {
+  REASSIGN_SELLER = 'reassign-seller',
+  MARK_CLOSED = 'mark-closed', // Moves open deals to the first won stage
+  MARK_OPEN = 'mark-open', // Moves closed deals to the first open stage
+  MOVE_STAGE = 'move-stage',
+  RESET_PROCESSED = 'reset-processed', // Queues the clients for AI categorization again
+  ADD_TAGS = 'add-tags',
+  REMOVE_TAGS = 'remove-tags',
+  DELETE = 'delete', // Moves the clients to the trash
+}
+
+/**
+ * Filters selecting the clients of a bulk action: the client listing filters without sort or pagination
+ */
+export class BulkClientFiltersDto extends OmitType(ClientFilterDto, [
+  'sort',
+  'page',
+  'limit',
+  'cursor',
+  'includeTotal',
+] as const) {}
+
+/**
+ * A bulk action and the clients it applies to: either explicit ids or filters, not both
+ */
+export class BulkClientActionDto {
+  @IsEnum(BulkClientActionEnum)
+  action: BulkClientActionEnum;
+
+  // Required by reassign-seller
+  @ValidateIf(
+    (dto: BulkClientActionDto) =>
+      dto.action === BulkClientActionEnum.REASSIGN_SELLER,
+  )
+  @IsString()
+  @IsNotEmpty()
+  assignedSeller?: string;
+
+  // Required by move-stage
+  @ValidateIf(
+    (dto: BulkClientActionDto) =>
+      dto.action === BulkClientActionEnum.MOVE_STAGE,
+  )
+  @IsUUID()
+  stageId?: string;
+
+  // Required by add-tags and remove-tags
+  @ValidateIf(
+    (dto: BulkClientActionDto) =>
+      dto.action === BulkClientActionEnum.ADD_TAGS ||
+      dto.action === BulkClientActionEnum.REMOVE_TAGS,
+  )
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  ids?: string[];
+
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => BulkClientFiltersDto)
+  filters?: BulkClientFiltersDto;
+}
+
+/**
+ * Outcome of a bulk action
+ * affected counts the clients actually changed; clients already in the requested state are unchanged.
+ * notFound lists requested ids that do not exist or are in the trash (always empty for filters).
+ */
+export class BulkClientActionResultDto {
+  action: BulkClientActionEnum;
+  matched: number;
+  affected: number;
+  unchanged: number;
+  notFound: string[];
+}
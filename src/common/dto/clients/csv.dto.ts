@@ -1,4 +1,12 @@
-import { IsString } from 'class-validator';
+import {
+  IsString,
+  IsInt,
+  IsOptional,
+  IsArray,
+  IsEmail,
+  IsIn,
+} from 'class-validator';
+import { CreateClientDto } from '../client.dto';
 
 export class CsvRowDto {
   @IsString()
@@ -23,3 +31,55 @@ export class CsvRowDto {
   Transcripcion: string;
 }
 
+export class CsvFieldErrorDto {
+  @IsOptional()
+  @IsString()
+  column?: string; // Omitted when the whole record is malformed
+
+  @IsOptional()
+  @IsString()
+  value?: string;
+
+  @IsString()
+  reason: string;
+}
+
+export class CsvRejectedRowDto {
+  @IsInt()
+  line: number;
+
+  @IsArray()
+  errors: CsvFieldErrorDto[];
+}
+
+export class CsvDuplicateRowDto {
+  @IsInt()
+  line: number;
+
+  @IsEmail()
+  email: string;
+
+  @IsIn(['file'])
+  duplicateOf: 'file';
+
+  @IsInt()
+  firstLine: number; // Line of the first occurrence within the file
+}
+
+export class CsvAcceptedRowDto {
+  @IsInt()
+  line: number;
+
+  client: CreateClientDto;
+}
+
+export class CsvValidationReportDto {
+  @IsInt()
+  totalRows: number;
+
+  accepted: CsvAcceptedRowDto[];
+
+  rejected: CsvRejectedRowDto[];
+
+  duplicates: CsvDuplicateRowDto[];
+}
@@ -0,0 +1,23 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { OmitType } from '@nestjs/swagger';
+import { ClientFilterDto } from '../client.dto';
+
+export enum ExportFormatEnum {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+  JSON = 'json', // Array of client objects, list fields kept as arrays
+}
+
+/**
+ * Filters of the client listing plus the export format; every matching client is exported, so there is no pagination
+ */
+export class ClientExportQueryDto extends OmitType(ClientFilterDto, [
+  'page',
+  'limit',
+  'cursor',
+  'includeTotal',
+] as const) {
+  @IsOptional()
+  @IsEnum(ExportFormatEnum)
+  format?: ExportFormatEnum;
+}
@@ -0,0 +1,189 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsEnum,
+  IsInt,
+  IsTimeZone,
+  Min,
+  Max,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PartialType } from '@nestjs/swagger';
+import { IMPORT_CONSTANTS } from '../../constants';
+import { DateFormatEnum, ImportModeEnum } from './import.dto';
+
+export type RequiredImportField =
+  (typeof IMPORT_CONSTANTS.REQUIRED_FIELDS)[number];
+export type OptionalImportField =
+  (typeof IMPORT_CONSTANTS.OPTIONAL_FIELDS)[number];
+export type ClientImportField = RequiredImportField | OptionalImportField;
+
+/**
+ * Client field -> source column header
+ * Required fields must always be mapped, and closed too unless stage is; the deal value and
+ * pre-categorized fields are optional.
+ */
+export type ColumnMapping = Record<RequiredImportField, string> &
+  Partial<Record<OptionalImportField, string>>;
+
+export class ColumnMappingDto implements ColumnMapping {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  email: string;
+
+  @IsString()
+  @IsNotEmpty()
+  phone: string;
+
+  @IsString()
+  @IsNotEmpty()
+  assignedSeller: string;
+
+  @IsString()
+  @IsNotEmpty()
+  meetingDate: string;
+
+  // Required unless stage is mapped; the stage outcome then sets closed
+  @ValidateIf((mapping: ColumnMappingDto) => !mapping.stage)
+  @IsString()
+  @IsNotEmpty()
+  closed?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  transcription: string;
+
+  @IsOptional()
+  @IsString()
+  stage?: string;
+
+  @IsOptional()
+  @IsString()
+  dealAmount?: string;
+
+  @IsOptional()
+  @IsString()
+  currency?: string;
+
+  @IsOptional()
+  @IsString()
+  industry?: string;
+
+  @IsOptional()
+  @IsString()
+  operationSize?: string;
+
+  @IsOptional()
+  @IsString()
+  interactionVolume?: string;
+
+  @IsOptional()
+  @IsString()
+  discoverySource?: string;
+
+  @IsOptional()
+  @IsString()
+  mainMotivation?: string;
+
+  @IsOptional()
+  @IsString()
+  urgencyLevel?: string;
+
+  @IsOptional()
+  @IsString()
+  painPoints?: string;
+
+  @IsOptional()
+  @IsString()
+  technicalRequirements?: string;
+
+  @IsOptional()
+  @IsString()
+  sentiment?: string;
+}
+
+export class CreateImportProfileDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ValidateNested()
+  @Type(() => ColumnMappingDto)
+  columnMapping: ColumnMappingDto;
+}
+
+export class UpdateImportProfileDto extends PartialType(
+  CreateImportProfileDto,
+) {}
+
+export class UploadOptionsDto {
+  @IsOptional()
+  @IsUUID()
+  profileId?: string; // Import profile to map columns with; defaults to the built-in Spanish headers
+
+  @IsOptional()
+  @IsEnum(ImportModeEnum)
+  mode?: ImportModeEnum; // Defaults to insert-only
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  sheetName?: string; // XLSX only; defaults to the first sheet
+
+  @IsOptional()
+  @IsEnum(DateFormatEnum)
+  dateFormat?: DateFormatEnum; // How meeting dates are read; defaults to auto
+
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string; // IANA time zone of meeting dates without an explicit offset; defaults to UTC
+}
+
+export class ImportPreviewOptionsDto extends UploadOptionsDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(IMPORT_CONSTANTS.PREVIEW_MAX_ROWS)
+  limit?: number; // Mapped rows to return; defaults to PREVIEW_DEFAULT_ROWS
+}
+
+export class DetectMappingOptionsDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  sheetName?: string; // XLSX only; defaults to the first sheet
+}
+
+export class ImportProfileDto {
+  id: string;
+  name: string;
+  description: string | null;
+  columnMapping: ColumnMapping;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class MappingSuggestionDto {
+  columns: string[]; // Header row as read from the file
+
+  suggestedMapping: Partial<ColumnMapping>;
+
+  missingRequiredFields: ClientImportField[]; // closed is listed only when no stage column was found
+
+  unmappedColumns: string[];
+
+  matchingProfiles: Array<{ id: string; name: string }>; // Saved profiles whose required columns are all present
+}
@@ -0,0 +1,202 @@
+import {
+  IsString,
+  IsInt,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { CsvRejectedRowDto, CsvDuplicateRowDto } from './csv.dto';
+import { CreateClientDto } from '../client.dto';
+
+export enum ImportStatusEnum {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export enum ImportFormatEnum {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+  JSON = 'json', // Array of objects
+  NDJSON = 'ndjson', // One object per line
+}
+
+export enum ImportModeEnum {
+  INSERT_ONLY = 'insert-only', // Create new clients, skip emails that already exist
+  UPSERT = 'upsert', // Create new clients and update existing ones
+  UPDATE_ONLY = 'update-only', // Update existing clients, skip unknown emails
+}
+
+export enum DateFormatEnum {
+  AUTO = 'auto', // ISO 8601, Excel serials, and day/month dates only when day and month can't be swapped
+  ISO = 'iso', // yyyy-mm-dd with optional time and offset
+  DAY_MONTH_YEAR = 'dd/mm/yyyy',
+  MONTH_DAY_YEAR = 'mm/dd/yyyy',
+  EXCEL_SERIAL = 'excel-serial', // Days since 1899-12-30, as Excel stores dates
+}
+
+export enum ImportRowOutcomeEnum {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  UNCHANGED = 'unchanged',
+  SKIPPED = 'skipped',
+}
+
+export class ImportListQueryDto {
+  @IsOptional()
+  @IsEnum(ImportStatusEnum)
+  status?: ImportStatusEnum;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  limit?: number;
+}
+
+export class ImportRowResultDto {
+  @IsInt()
+  line: number;
+
+  @IsString()
+  email: string;
+
+  @IsEnum(ImportRowOutcomeEnum)
+  outcome: ImportRowOutcomeEnum;
+
+  @IsOptional()
+  @IsString()
+  reason?: string; // Why the row was skipped
+}
+
+export class ImportReportDto {
+  @IsEnum(ImportModeEnum)
+  mode: ImportModeEnum;
+
+  @IsInt()
+  totalRows: number;
+
+  @IsInt()
+  accepted: number;
+
+  @IsInt()
+  clientsCreated: number;
+
+  @IsInt()
+  clientsUpdated: number;
+
+  @IsInt()
+  clientsUnchanged: number;
+
+  @IsInt()
+  clientsSkipped: number;
+
+  @IsInt()
+  rejectedRows: number;
+
+  @IsInt()
+  duplicateRows: number;
+
+  rows: ImportRowResultDto[]; // Outcome of the first REPORT_MAX_ROWS accepted rows, in file order
+
+  rejected: CsvRejectedRowDto[]; // First REPORT_MAX_ROWS rejected rows
+
+  duplicates: CsvDuplicateRowDto[]; // First REPORT_MAX_ROWS duplicate rows
+}
+
+/**
+ * Import job as listed: status and progress, without the report
+ */
+export class ImportJobSummaryDto {
+  @IsString()
+  id: string;
+
+  @IsString()
+  fileName: string;
+
+  profileId: string | null; // Import profile used for column mapping; null for the default headers
+
+  @IsEnum(ImportStatusEnum)
+  status: ImportStatusEnum;
+
+  @IsInt()
+  totalRows: number; // Counted before the rows are read; for XLSX, 0 until the whole file has been read
+
+  @IsInt()
+  processedRows: number;
+
+  @IsOptional()
+  @IsNumber()
+  progress: number | null; // Percentage of rows handled; null while the total is not known
+
+  errorMessage: string | null;
+
+  startedAt: Date;
+
+  completedAt: Date | null;
+}
+
+export class ImportJobDto extends ImportJobSummaryDto {
+  report: ImportReportDto | null;
+}
+
+export class ImportPreviewRowDto {
+  @IsInt()
+  line: number;
+
+  @IsEnum(ImportRowOutcomeEnum)
+  outcome: ImportRowOutcomeEnum; // What the import would do with the row in the selected mode
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  client: CreateClientDto; // Row after column mapping
+}
+
+export class ImportPreviewDto {
+  @IsEnum(ImportFormatEnum)
+  format: ImportFormatEnum;
+
+  encoding: string | null; // Detected text encoding; null for XLSX
+
+  delimiter: string | null; // Detected CSV delimiter; null for other formats
+
+  @IsEnum(ImportModeEnum)
+  mode: ImportModeEnum;
+
+  columns: string[];
+
+  @IsInt()
+  totalRows: number;
+
+  @IsInt()
+  accepted: number;
+
+  @IsInt()
+  newEmails: number; // Accepted rows whose email is not stored yet
+
+  @IsInt()
+  existingEmails: number; // Accepted rows matching a stored client
+
+  rows: ImportPreviewRowDto[]; // First accepted rows, in file order
+
+  @IsInt()
+  rejectedRows: number;
+
+  @IsInt()
+  duplicateRows: number;
+
+  rejected: CsvRejectedRowDto[]; // First PREVIEW_MAX_ISSUES rejected rows
+
+  duplicates: CsvDuplicateRowDto[]; // First PREVIEW_MAX_ISSUES duplicate rows
+}
@@ -1,3 +1,8 @@
 export * from '../client.dto';
 export * from './csv.dto';
-
+export * from './import.dto';
+export * from './import-profile.dto';
+export * from './export.dto';
+export * from './segment.dto';
+export * from './bulk.dto';
+export * from './pipeline.dto';
@@ -0,0 +1,78 @@
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+} from 'class-validator';
+import { PartialType } from '@nestjs/swagger';
+
+export enum PipelineStageOutcomeEnum {
+  OPEN = 'open',
+  WON = 'won', // Clients in won stages are closed
+  LOST = 'lost',
+}
+
+export class CreatePipelineStageDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  // Defaults to the end of the pipeline
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  position?: number;
+
+  @IsOptional()
+  @IsEnum(PipelineStageOutcomeEnum)
+  outcome?: PipelineStageOutcomeEnum;
+
+  // Other names matched when importing, e.g. "Ganado"; case and spacing are ignored
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  aliases?: string[];
+}
+
+/**
+ * Fields to change on a stage
+ * Aliases, when given, replace the stored aliases.
+ */
+export class UpdatePipelineStageDto extends PartialType(
+  CreatePipelineStageDto,
+) {}
+
+export class PipelineStageDto {
+  id: string;
+  name: string;
+  position: number;
+  outcome: PipelineStageOutcomeEnum;
+  aliases: string[];
+  clients: number; // Clients in the stage, not counting the trash
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class MoveClientStageDto {
+  @IsUUID()
+  stageId: string;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class ClientStageChangeDto {
+  id: string;
+  fromStageId: string;
+  fromStage: string;
+  toStageId: string;
+  toStage: string;
+  note: string | null;
+  changedAt: Date;
+}
@@ -0,0 +1,48 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsObject,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { ClientFilterDto } from '../client.dto';
+
+/**
+ * Filters a segment is defined by: the client listing filters without sort, pagination or another segment
+ */
+export class SegmentFiltersDto extends OmitType(ClientFilterDto, [
+  'segmentId',
+  'sort',
+  'page',
+  'limit',
+  'cursor',
+  'includeTotal',
+] as const) {}
+
+export class CreateSegmentDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SegmentFiltersDto)
+  filters: SegmentFiltersDto;
+}
+
+export class UpdateSegmentDto extends PartialType(CreateSegmentDto) {}
+
+export class SegmentDto {
+  id: string;
+  name: string;
+  description: string | null;
+  filters: SegmentFiltersDto;
+  createdAt: Date;
+  updatedAt: Date;
+}
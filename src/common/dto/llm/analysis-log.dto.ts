@@ -0,0 +1,28 @@
+import { IsIn, IsOptional } from 'class-validator';
+
+export enum AnalysisActionEnum {
+  CATEGORIZATION = 'categorization',
+  PREDICTION = 'prediction',
+}
+
+export class AnalysisHistoryQueryDto {
+  @IsOptional()
+  @IsIn(Object.values(AnalysisActionEnum))
+  action?: AnalysisActionEnum;
+}
+
+/**
+ * One model call made for a client, with what was sent and what came back
+ */
+export class AnalysisLogDto {
+  id: string;
+  action: string;
+  promptVersion: string | null; // name@version of the prompt
+  model: string | null;
+  rawResponse: string | null;
+  result: unknown; // Parsed result; for categorization the validated object or the validation errors
+  latencyMs: number | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  executedAt: Date;
+}
@@ -1,22 +1,58 @@
-import { IsString, IsNumber, IsArray } from 'class-validator';
+import {
+  IsString,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
 
+/**
+ * How the categorization stored on a client was obtained
+ */
+export enum CategorizationStatusEnum {
+  VALID = 'valid', // The model's first answer passed validation
+  REPAIRED = 'repaired', // A re-prompt with the validation errors passed validation
+  FALLBACK = 'fallback', // No answer passed validation; placeholder values were stored
+}
+
+// Models answer enum-like fields with varying case and spacing
+const toLowerCase = ({ value }: { value: unknown }): unknown =>
+  typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+// Numbers sent as strings ("150") are accepted
+const toNumber = ({ value }: { value: unknown }): unknown =>
+  typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+/**
+ * Categorization of a transcription as the model must return it
+ * Model output is validated against these rules before it is stored.
+ */
 export class CategorizationResultDto {
   @IsString()
+  @IsNotEmpty()
   industry: string;
 
-  @IsString()
+  @Transform(toLowerCase)
+  @IsIn(['small', 'medium', 'large'])
   operationSize: string;
 
-  @IsNumber()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(0)
   interactionVolume: number;
 
   @IsString()
+  @IsNotEmpty()
   discoverySource: string;
 
   @IsString()
+  @IsNotEmpty()
   mainMotivation: string;
 
-  @IsString()
+  @Transform(toLowerCase)
+  @IsIn(['immediate', 'planned', 'exploratory'])
   urgencyLevel: string;
 
   @IsArray()
@@ -27,7 +63,13 @@ export class CategorizationResultDto {
   @IsString({ each: true })
   technicalRequirements: string[];
 
-  @IsString()
+  @Transform(toLowerCase)
+  @IsIn(['positive', 'neutral', 'skeptical'])
   sentiment: string;
 }
 
+export interface CategorizationOutcome {
+  categorization: CategorizationResultDto;
+  status: CategorizationStatusEnum;
+  promptVersion: string; // Categorization prompt sent first, as categorization@<version>
+}
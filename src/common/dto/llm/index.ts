@@ -1,2 +1,4 @@
 export * from './categorization.dto';
-
+export * from './analysis-log.dto';
+export * from './prompt.dto';
+export * from './reprocess.dto';
@@ -0,0 +1,37 @@
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class CreatePromptVersionDto {
+  // Text with {{variable}} placeholders; only the prompt's variables may be used
+  @IsString()
+  @IsNotEmpty()
+  template: string;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+
+  // Make the new version the one rendered from now on
+  @IsOptional()
+  @IsBoolean()
+  activate?: boolean;
+}
+
+export class PromptVersionDto {
+  version: number;
+  template: string;
+  note: string | null;
+  active: boolean;
+  createdAt: Date | null; // null for a built-in version 1 never stored
+}
+
+export class PromptSummaryDto {
+  id: string;
+  description: string;
+  variables: string[]; // Values supplied when rendering
+  activeVersion: number;
+  latestVersion: number;
+}
+
+export class PromptDetailDto extends PromptSummaryDto {
+  versions: PromptVersionDto[]; // Newest first
+}
@@ -0,0 +1,70 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BulkClientFiltersDto } from '../clients/bulk.dto';
+import { CategorizationStatusEnum } from './categorization.dto';
+
+/**
+ * Processed clients to categorize again, e.g. after a prompt or model change; every condition given must match
+ * At least one condition is required unless all is set. Each request takes at most REPROCESS_MAX_CLIENTS
+ * clients; repeating it with the same processedBefore continues with the rest.
+ */
+export class ReprocessClientsDto {
+  // Client listing filters such as sellerId, industry, meetingDateFrom and meetingDateTo
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => BulkClientFiltersDto)
+  filters?: BulkClientFiltersDto;
+
+  // Only clients last processed before this instant
+  @IsOptional()
+  @IsDateString()
+  processedBefore?: string;
+
+  // Only clients last categorized with this prompt version, e.g. categorization@1
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  promptVersion?: string;
+
+  // Required to reprocess every processed client when no condition is given
+  @IsOptional()
+  @IsBoolean()
+  all?: boolean;
+}
+
+export class CategorizationChangeDto {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * A client categorized again, with the fields whose stored value changed
+ * A categorization that fell back to placeholder values does not replace a stored one: stored is then
+ * false and changes empty.
+ */
+export class ReprocessedClientDto {
+  clientId: string;
+  name: string;
+  categorizationStatus: CategorizationStatusEnum;
+  stored: boolean;
+  changes: CategorizationChangeDto[];
+}
+
+export class ReprocessResultDto {
+  matched: number;
+  remaining: number; // Matching clients left for a later request
+  processed: number;
+  failed: number;
+  fallback: number;
+  clients: ReprocessedClientDto[]; // Failed clients are left out
+}
@@ -0,0 +1,2 @@
+export * from './seller.dto';
+export * from './team.dto';
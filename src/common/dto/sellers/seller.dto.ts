@@ -0,0 +1,53 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { PartialType } from '@nestjs/swagger';
+
+export class CreateSellerDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  hireDate?: string;
+
+  // Other spellings of the name used in imports, e.g. "J. Toro"; case and spacing are ignored
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  aliases?: string[];
+}
+
+/**
+ * Fields to change on a seller
+ * Aliases, when given, replace the stored aliases.
+ */
+export class UpdateSellerDto extends PartialType(CreateSellerDto) {}
+
+export class SellerDto {
+  id: string;
+  name: string;
+  email: string | null;
+  active: boolean;
+  hireDate: Date | null;
+  aliases: string[];
+  clients: number; // Assigned clients, not counting the trash
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,71 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+import { PartialType } from '@nestjs/swagger';
+
+export class CreateTeamDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  manager?: string;
+}
+
+export class UpdateTeamDto extends PartialType(CreateTeamDto) {}
+
+/**
+ * A seller joining a team
+ * Deals are credited to the team when their meeting falls between startDate and endDate (exclusive).
+ */
+export class AddTeamMemberDto {
+  @IsUUID()
+  sellerId: string;
+
+  @IsDateString()
+  startDate: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string; // Unset while the seller is still on the team
+}
+
+export class UpdateTeamMemberDto {
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  // null reopens a membership that had ended
+  @IsOptional()
+  @IsDateString()
+  endDate?: string | null;
+}
+
+export class TeamMembershipDto {
+  id: string;
+  sellerId: string;
+  seller: string; // Seller name
+  startDate: Date;
+  endDate: Date | null;
+}
+
+export class TeamDto {
+  id: string;
+  name: string;
+  region: string | null;
+  manager: string | null;
+  memberships: TeamMembershipDto[]; // Past and current, oldest first
+  createdAt: Date;
+  updatedAt: Date;
+}
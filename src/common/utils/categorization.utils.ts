@@ -0,0 +1,22 @@
+/**
+ * Categorization utilities
+ *
+ * A client whose model answers never passed validation is still marked as processed, but holds
+ * placeholder values ("Unknown" industry, no pain points...). Analytics only read clients with a
+ * valid or repaired categorization, so those placeholders never show up as real data.
+ */
+import { Prisma } from '@prisma/client';
+import { CategorizationStatusEnum } from '../dto/llm';
+
+/**
+ * Prisma filter for the clients whose categorization analytics can use
+ */
+export const CATEGORIZED_CLIENT_WHERE = {
+  processed: true,
+  categorizationStatus: { not: CategorizationStatusEnum.FALLBACK },
+} satisfies Prisma.ClientWhereInput;
+
+/**
+ * Same filter as a raw SQL condition
+ */
+export const CATEGORIZED_CLIENT_SQL = Prisma.sql`processed = true AND "categorizationStatus" <> ${CategorizationStatusEnum.FALLBACK}`;
@@ -0,0 +1,42 @@
+/**
+ * Cursor utilities for keyset pagination
+ *
+ * Cursors are opaque to API clients: base64url-encoded JSON holding the sort they were
+ * issued for, the sort value and id of the row at the edge of a page, and which way to read.
+ */
+
+export type CursorDirection = 'next' | 'prev';
+
+export interface PageCursor {
+  sort: string;
+  value: string | number | boolean | null; // Dates are kept as ISO strings
+  id: string;
+  direction: CursorDirection;
+}
+
+export const encodeCursor = (cursor: PageCursor): string => {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * @returns The cursor, or null when the string is not a valid cursor
+ */
+export const decodeCursor = (encoded: string): PageCursor | null => {
+  try {
+    const cursor = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf8'),
+    ) as Partial<PageCursor> | null;
+    const valid =
+      typeof cursor?.sort === 'string' &&
+      typeof cursor.id === 'string' &&
+      (cursor.direction === 'next' || cursor.direction === 'prev') &&
+      cursor.value !== undefined &&
+      (cursor.value === null ||
+        ['string', 'number', 'boolean'].includes(typeof cursor.value));
+
+    return valid ? (cursor as PageCursor) : null;
+  } catch {
+    return null;
+  }
+};
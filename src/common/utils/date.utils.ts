@@ -1,10 +1,12 @@
 /**
  * Date utilities for the application
- * 
+ *
  * This module provides a simulated current date (November 2024)
  * to work with historical data from 2024.
  */
 
+import { API_CONSTANTS } from '../constants';
+
 /**
  * Returns the simulated current date (November 15, 2024)
  * This allows the application to work with historical data from 2024
@@ -28,3 +30,96 @@ export const getSimulatedCurrentMonth = (): number => {
   return 10; // November (0-indexed)
 };
 
+/**
+ * Period a date falls in on the seller and team timelines
+ * @param date - Meeting date
+ * @param granularity - 'week' or 'month'
+ * @returns Week key such as 2024-W07 or month key such as 2024-02
+ */
+export const getTimelinePeriod = (
+  date: Date,
+  granularity: 'week' | 'month',
+): string => {
+  if (granularity === 'week') {
+    const firstDayOfYear = new Date(date.getFullYear(), 0, 1);
+    const pastDaysOfYear =
+      (date.getTime() - firstDayOfYear.getTime()) /
+      API_CONSTANTS.TIME.MILLISECONDS_PER_DAY;
+    const weekNumber = Math.ceil(
+      (pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7,
+    );
+    return `${date.getFullYear()}-W${weekNumber.toString().padStart(2, '0')}`;
+  }
+
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Calendar date and wall-clock time, with 1-based months
+ */
+export interface DateTimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  millisecond?: number;
+}
+
+/**
+ * Returns how far ahead of UTC (in milliseconds) the given IANA time zone is at an instant
+ */
+const getTimeZoneOffset = (timestamp: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(timestamp));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((entry) => entry.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second'),
+  );
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+};
+
+/**
+ * Returns the instant at which clocks in the given IANA time zone show the given date and time
+ * Times skipped by a daylight-saving change resolve to the offset in force right after it.
+ */
+export const zonedTimeToUtc = (
+  {
+    year,
+    month,
+    day,
+    hour = 0,
+    minute = 0,
+    second = 0,
+    millisecond = 0,
+  }: DateTimeParts,
+  timeZone: string,
+): Date => {
+  const wallClock = Date.UTC(
+    year,
+    month - 1,
+    day,
+    hour,
+    minute,
+    second,
+    millisecond,
+  );
+  const firstGuess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - getTimeZoneOffset(firstGuess, timeZone));
+};
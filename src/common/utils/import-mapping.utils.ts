@@ -0,0 +1,27 @@
+/**
+ * Import column mapping utilities
+ *
+ * A file gives the deal status through a closed column, a stage column or both; the stage wins
+ * when both are present, so closed only has to be there when stage is not.
+ */
+import { IMPORT_CONSTANTS } from '../constants';
+import { ClientImportField } from '../dto/clients';
+
+/**
+ * Required fields whose mapped column is not among the columns, plus closed when neither the
+ * closed nor the stage column is
+ */
+export const missingImportFields = (
+  mapping: Partial<Record<ClientImportField, string>>,
+  columns: string[],
+): ClientImportField[] => {
+  const present = (field: ClientImportField) =>
+    mapping[field] !== undefined && columns.includes(mapping[field]);
+  const missing: ClientImportField[] = IMPORT_CONSTANTS.REQUIRED_FIELDS.filter(
+    (field) => !present(field),
+  );
+
+  return present('closed') || present('stage')
+    ? missing
+    : [...missing, 'closed'];
+};
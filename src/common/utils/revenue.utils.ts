@@ -0,0 +1,31 @@
+/**
+ * Revenue utilities
+ *
+ * Deal amounts are summed by Postgres as numeric and read back as floating point numbers; results
+ * are rounded to cents, and value shares are rounded like every other rate of the analytics.
+ */
+import { ANALYTICS_CONSTANTS } from '../constants';
+
+/**
+ * Round an amount to cents
+ */
+export const roundAmount = (amount: number): number =>
+  Math.round(amount * 100) / 100;
+
+/**
+ * Percentage of a total value represented by a part of it, 0 when the total is 0
+ */
+export const toValueRate = (value: number, total: number): number =>
+  total > 0
+    ? parseFloat(
+        ((value / total) * ANALYTICS_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(
+          ANALYTICS_CONSTANTS.DECIMAL_PLACES,
+        ),
+      )
+    : 0;
+
+/**
+ * Average amount per deal, 0 without deals
+ */
+export const toAverageDealSize = (value: number, deals: number): number =>
+  deals > 0 ? roundAmount(value / deals) : 0;
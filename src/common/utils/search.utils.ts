@@ -0,0 +1,38 @@
+/**
+ * Full-text search utilities
+ *
+ * Turns free text typed by users into a Postgres tsquery string without letting them write tsquery syntax.
+ */
+
+// Characters with a meaning in tsquery syntax; they are dropped from user terms
+const TSQUERY_OPERATORS = /[&|!():*<>'"\\]/g;
+
+/**
+ * Build a tsquery from a search string
+ * Every term must match. "Quoted words" match as a phrase (adjacent, in order) and a trailing `*`
+ * matches any word starting with the term, e.g. `"api integration" autom*`.
+ * @returns The tsquery text to pass to to_tsquery, or null when the search holds no searchable term
+ */
+export const toTsQuery = (search: string): string | null => {
+  const terms: string[] = [];
+
+  for (const [, phrase, word] of search.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (phrase !== undefined) {
+      const words = phrase
+        .split(/\s+/)
+        .map((part) => part.replace(TSQUERY_OPERATORS, ''))
+        .filter(Boolean);
+      if (words.length) {
+        terms.push(words.length === 1 ? words[0] : `(${words.join(' <-> ')})`);
+      }
+      continue;
+    }
+
+    const term = word.replace(TSQUERY_OPERATORS, '');
+    if (term) {
+      terms.push(word.endsWith('*') ? `${term}:*` : term);
+    }
+  }
+
+  return terms.length ? terms.join(' & ') : null;
+};
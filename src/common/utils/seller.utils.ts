@@ -0,0 +1,18 @@
+/**
+ * Seller name utilities
+ *
+ * Seller names typed in forms and import files vary in case and spacing ("Toro", "toro", "Toro ");
+ * they are compared through a normalized key so every spelling resolves to the same seller.
+ */
+
+/**
+ * Trim a seller name and collapse repeated whitespace, keeping its case
+ */
+export const cleanSellerName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ');
+
+/**
+ * Key two seller names share when they only differ in case or spacing
+ */
+export const toSellerKey = (name: string): string =>
+  cleanSellerName(name).toLowerCase();
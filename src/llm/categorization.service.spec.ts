@@ -1,31 +1,64 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { CategorizationService } from './categorization.service';
-import { AnthropicClientService } from './core/anthropic-client.service';
+import { LlmProvider } from './core/llm-provider';
 import { ResponseParserService } from './core/response-parser.service';
+import { AnalysisLogService } from './core/analysis-log.service';
+import { PromptRegistryService } from './core/prompt-registry.service';
+import { DEFAULT_PROMPTS } from './prompts/default-prompts';
+import { PromptRequest } from './prompts/prompt.types';
+import { PromptTemplateUtil } from './utils/prompt-template.util';
 import { ClientsService } from '../clients/clients.service';
 import { Client } from '@prisma/client';
-import { CategorizationResultDto } from '../common/dto/llm';
+import {
+  CategorizationResultDto,
+  CategorizationStatusEnum,
+} from '../common/dto/llm';
 import { LLM_CONSTANTS } from '../common/constants';
 
 describe('CategorizationService', () => {
   let service: CategorizationService;
-  let anthropicClient: jest.Mocked<AnthropicClientService>;
+  let llmProvider: jest.Mocked<LlmProvider>;
   let responseParser: jest.Mocked<ResponseParserService>;
   let clientsService: jest.Mocked<ClientsService>;
 
-  const mockAnthropicClient = {
+  const mockLlmProvider = {
+    name: 'anthropic',
     isConfigured: jest.fn(),
-    sendMessage: jest.fn(),
+    complete: jest.fn(),
   };
 
+  const mockAnalysisLog = {
+    record: jest.fn(),
+  };
+
+  // Renders the built-in templates, as the registry does before any version is added
+  const mockPromptRegistry = {
+    render: jest.fn(({ promptId, variables }: PromptRequest) =>
+      Promise.resolve({
+        text: PromptTemplateUtil.render(
+          DEFAULT_PROMPTS.find((prompt) => prompt.id === promptId)!.template,
+          variables,
+        ),
+        version: `${promptId}@1`,
+      }),
+    ),
+  };
+
+  const completionOf = (text: string) => ({
+    text,
+    model: 'claude-3-haiku-20240307',
+    usage: { inputTokens: 900, outputTokens: 120 },
+  });
+
   const mockResponseParser = {
-    parseJsonResponse: jest.fn(),
+    parseValidatedJson: jest.fn(),
   };
 
   const mockClientsService = {
     getUnprocessedClients: jest.fn(),
     findOne: jest.fn(),
     markAsProcessed: jest.fn(),
+    getClientsToReprocess: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -33,13 +66,21 @@ describe('CategorizationService', () => {
       providers: [
         CategorizationService,
         {
-          provide: AnthropicClientService,
-          useValue: mockAnthropicClient,
+          provide: LlmProvider,
+          useValue: mockLlmProvider,
         },
         {
           provide: ResponseParserService,
           useValue: mockResponseParser,
         },
+        {
+          provide: AnalysisLogService,
+          useValue: mockAnalysisLog,
+        },
+        {
+          provide: PromptRegistryService,
+          useValue: mockPromptRegistry,
+        },
         {
           provide: ClientsService,
           useValue: mockClientsService,
@@ -48,7 +89,7 @@ describe('CategorizationService', () => {
     }).compile();
 
     service = module.get<CategorizationService>(CategorizationService);
-    anthropicClient = module.get(AnthropicClientService);
+    llmProvider = module.get(LlmProvider);
     responseParser = module.get(ResponseParserService);
     clientsService = module.get(ClientsService);
   });
@@ -58,198 +99,152 @@ describe('CategorizationService', () => {
   });
 
   describe('categorizeTranscription', () => {
-    const mockTranscription = 'This is a test transcription of a sales meeting.';
-    const mockClientName = 'Test Client';
-    const mockClosed = false;
+    const mockTranscription =
+      'This is a test transcription of a sales meeting.';
+    const mockClient = {
+      id: '1',
+      name: 'Test Client',
+      transcription: mockTranscription,
+      closed: false,
+    };
 
     it('should throw error when API is not configured', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act & Assert
-      await expect(
-        service.categorizeTranscription(mockTranscription, mockClientName, mockClosed),
-      ).rejects.toThrow('Anthropic API not configured');
+      await expect(service.categorizeTranscription(mockClient)).rejects.toThrow(
+        'LLM provider anthropic not configured',
+      );
     });
 
-    it('should categorize transcription successfully', async () => {
+    const mockCategorization: CategorizationResultDto = {
+      industry: 'Technology',
+      operationSize: 'large',
+      interactionVolume: 150,
+      discoverySource: 'LinkedIn',
+      mainMotivation: 'Efficiency',
+      urgencyLevel: 'immediate',
+      painPoints: ['High workload', 'Slow response'],
+      technicalRequirements: ['API integration'],
+      sentiment: 'positive',
+    };
+
+    it('should return a valid categorization on the first answer', async () => {
       // Arrange
-      const mockResponse = JSON.stringify({
-        industry: 'Technology',
-        operationSize: 'large',
-        interactionVolume: 150,
-        discoverySource: 'LinkedIn',
-        mainMotivation: 'Efficiency',
-        urgencyLevel: 'immediate',
-        painPoints: ['High workload', 'Slow response'],
-        technicalRequirements: ['API integration'],
-        sentiment: 'positive',
+      const mockResponse = JSON.stringify(mockCategorization);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(completionOf(mockResponse));
+      mockResponseParser.parseValidatedJson.mockReturnValue({
+        value: mockCategorization,
+        errors: [],
       });
 
-      const parsedResponse: CategorizationResultDto = {
-        industry: 'Technology',
-        operationSize: 'large',
-        interactionVolume: 150,
-        discoverySource: 'LinkedIn',
-        mainMotivation: 'Efficiency',
-        urgencyLevel: 'immediate',
-        painPoints: ['High workload', 'Slow response'],
-        technicalRequirements: ['API integration'],
-        sentiment: 'positive',
-      };
-
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
-      mockResponseParser.parseJsonResponse.mockReturnValue(parsedResponse);
-
       // Act
-      const result = await service.categorizeTranscription(
-        mockTranscription,
-        mockClientName,
-        mockClosed,
-      );
+      const result = await service.categorizeTranscription(mockClient);
 
       // Assert
-      expect(result).toEqual(parsedResponse);
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(result).toEqual({
+        categorization: mockCategorization,
+        status: CategorizationStatusEnum.VALID,
+        promptVersion: 'categorization@1',
+      });
+      expect(mockLlmProvider.complete).toHaveBeenCalledTimes(1);
+      expect(mockLlmProvider.complete).toHaveBeenCalledWith({
         prompt: expect.any(String),
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.CATEGORIZATION,
+        responseFormat: 'json',
       });
-      expect(mockResponseParser.parseJsonResponse).toHaveBeenCalledWith(
+      expect(mockResponseParser.parseValidatedJson).toHaveBeenCalledWith(
         mockResponse,
-        expect.any(Object),
+        CategorizationResultDto,
       );
+      expect(mockAnalysisLog.record).toHaveBeenCalledWith({
+        clientId: '1',
+        action: 'categorization',
+        promptVersion: 'categorization@1',
+        completion: completionOf(mockResponse),
+        latencyMs: expect.any(Number),
+        result: { attempt: 1, categorization: mockCategorization },
+      });
     });
 
-    it('should use fallback values when parsed values are missing', async () => {
+    it('should re-prompt with the validation errors and mark the result as repaired', async () => {
       // Arrange
-      const mockResponse = JSON.stringify({
-        industry: null,
-        operationSize: null,
-        interactionVolume: null,
-      });
-
-      const parsedResponse = {
-        industry: null,
-        operationSize: null,
-        interactionVolume: null,
-      };
-
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
-      mockResponseParser.parseJsonResponse.mockReturnValue(parsedResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete
+        .mockResolvedValueOnce(completionOf('{"industry": ""}'))
+        .mockResolvedValueOnce(
+          completionOf(JSON.stringify(mockCategorization)),
+        );
+      mockResponseParser.parseValidatedJson
+        .mockReturnValueOnce({
+          value: null,
+          errors: ['industry should not be empty'],
+        })
+        .mockReturnValueOnce({ value: mockCategorization, errors: [] });
 
       // Act
-      const result = await service.categorizeTranscription(
-        mockTranscription,
-        mockClientName,
-        mockClosed,
-      );
+      const result = await service.categorizeTranscription(mockClient);
 
       // Assert
-      expect(result.industry).toBe('Unknown');
-      expect(result.interactionVolume).toBe(0);
-      expect(result.discoverySource).toBe('Unknown');
-      expect(result.mainMotivation).toBe('Unknown');
-      expect(result.painPoints).toEqual([]);
-      expect(result.technicalRequirements).toEqual([]);
+      expect(result).toEqual({
+        categorization: mockCategorization,
+        status: CategorizationStatusEnum.REPAIRED,
+        promptVersion: 'categorization@1',
+      });
+      expect(mockLlmProvider.complete).toHaveBeenCalledTimes(2);
+      const repairPrompt = mockLlmProvider.complete.mock.calls[1][0].prompt;
+      expect(repairPrompt).toContain(mockTranscription);
+      expect(repairPrompt).toContain('{"industry": ""}');
+      expect(repairPrompt).toContain('- industry should not be empty');
+      expect(mockAnalysisLog.record).toHaveBeenCalledTimes(2);
+      expect(mockAnalysisLog.record.mock.calls[0][0]).toMatchObject({
+        promptVersion: 'categorization@1',
+        result: { attempt: 1, errors: ['industry should not be empty'] },
+      });
+      expect(mockAnalysisLog.record.mock.calls[1][0]).toMatchObject({
+        promptVersion: 'categorization-repair@1',
+        result: { attempt: 2, categorization: mockCategorization },
+      });
     });
 
-    it('should handle non-array painPoints and technicalRequirements', async () => {
+    it('should fall back to placeholder values when no answer can be repaired', async () => {
       // Arrange
-      const mockResponse = JSON.stringify({
-        industry: 'Technology',
-        operationSize: 'medium',
-        interactionVolume: 100,
-        discoverySource: 'Google',
-        mainMotivation: 'Scalability',
-        urgencyLevel: 'planned',
-        painPoints: 'Single pain point',
-        technicalRequirements: 'Single requirement',
-        sentiment: 'neutral',
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(completionOf('Not JSON'));
+      mockResponseParser.parseValidatedJson.mockReturnValue({
+        value: null,
+        errors: ['The response does not contain a JSON object'],
       });
 
-      const parsedResponse = {
-        industry: 'Technology',
-        operationSize: 'medium',
-        interactionVolume: 100,
-        discoverySource: 'Google',
-        mainMotivation: 'Scalability',
-        urgencyLevel: 'planned',
-        painPoints: 'Single pain point',
-        technicalRequirements: 'Single requirement',
-        sentiment: 'neutral',
-      };
-
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
-      mockResponseParser.parseJsonResponse.mockReturnValue(parsedResponse);
-
       // Act
-      const result = await service.categorizeTranscription(
-        mockTranscription,
-        mockClientName,
-        mockClosed,
-      );
+      const result = await service.categorizeTranscription(mockClient);
 
       // Assert
-      expect(result.painPoints).toEqual([]);
-      expect(result.technicalRequirements).toEqual([]);
+      expect(result.status).toBe(CategorizationStatusEnum.FALLBACK);
+      expect(result.categorization).toMatchObject({
+        industry: 'Unknown',
+        interactionVolume: 0,
+        discoverySource: 'Unknown',
+        mainMotivation: 'Unknown',
+        painPoints: [],
+        technicalRequirements: [],
+      });
+      expect(mockLlmProvider.complete).toHaveBeenCalledTimes(
+        LLM_CONSTANTS.CATEGORIZATION_REPAIR_ATTEMPTS + 1,
+      );
     });
 
     it('should throw error when API call fails', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockRejectedValue(new Error('API Error'));
 
       // Act & Assert
-      await expect(
-        service.categorizeTranscription(mockTranscription, mockClientName, mockClosed),
-      ).rejects.toThrow('API Error');
-    });
-
-    it('should normalize operationSize, urgencyLevel, and sentiment', async () => {
-      // Arrange
-      const mockResponse = JSON.stringify({
-        industry: 'Technology',
-        operationSize: 'LARGE',
-        interactionVolume: 200,
-        discoverySource: 'LinkedIn',
-        mainMotivation: 'Efficiency',
-        urgencyLevel: 'IMMEDIATE',
-        painPoints: [],
-        technicalRequirements: [],
-        sentiment: 'POSITIVE',
-      });
-
-      const parsedResponse = {
-        industry: 'Technology',
-        operationSize: 'LARGE',
-        interactionVolume: 200,
-        discoverySource: 'LinkedIn',
-        mainMotivation: 'Efficiency',
-        urgencyLevel: 'IMMEDIATE',
-        painPoints: [],
-        technicalRequirements: [],
-        sentiment: 'POSITIVE',
-      };
-
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
-      mockResponseParser.parseJsonResponse.mockReturnValue(parsedResponse);
-
-      // Act
-      const result = await service.categorizeTranscription(
-        mockTranscription,
-        mockClientName,
-        mockClosed,
+      await expect(service.categorizeTranscription(mockClient)).rejects.toThrow(
+        'API Error',
       );
-
-      // Assert
-      // NormalizationUtil should normalize these values
-      expect(result.operationSize).toBeDefined();
-      expect(result.urgencyLevel).toBeDefined();
-      expect(result.sentiment).toBeDefined();
     });
   });
 
@@ -274,6 +269,7 @@ describe('CategorizationService', () => {
       sentiment: null,
       processed: false,
       processedAt: null,
+      deletedAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -293,9 +289,14 @@ describe('CategorizationService', () => {
     it('should process a single client successfully', async () => {
       // Arrange
       mockClientsService.findOne.mockResolvedValue(mockClient);
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(JSON.stringify(mockCategorization));
-      mockResponseParser.parseJsonResponse.mockReturnValue(mockCategorization);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(
+        completionOf(JSON.stringify(mockCategorization)),
+      );
+      mockResponseParser.parseValidatedJson.mockReturnValue({
+        value: mockCategorization,
+        errors: [],
+      });
       mockClientsService.markAsProcessed.mockResolvedValue({
         ...mockClient,
         ...mockCategorization,
@@ -308,8 +309,12 @@ describe('CategorizationService', () => {
 
       // Assert
       expect(mockClientsService.findOne).toHaveBeenCalledWith('1');
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalled();
-      expect(mockClientsService.markAsProcessed).toHaveBeenCalledWith('1', mockCategorization);
+      expect(mockLlmProvider.complete).toHaveBeenCalled();
+      expect(mockClientsService.markAsProcessed).toHaveBeenCalledWith('1', {
+        ...mockCategorization,
+        categorizationStatus: CategorizationStatusEnum.VALID,
+        categorizationPromptVersion: 'categorization@1',
+      });
     });
 
     it('should not process client if already processed', async () => {
@@ -318,21 +323,139 @@ describe('CategorizationService', () => {
       mockClientsService.findOne.mockResolvedValue(processedClient);
 
       // Act
-      await service.processSingleClient('1');
+      const result = await service.processSingleClient('1');
 
       // Assert
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+      expect(mockLlmProvider.complete).not.toHaveBeenCalled();
       expect(mockClientsService.markAsProcessed).not.toHaveBeenCalled();
     });
 
+    it('should process an already processed client again when forced and report the changed fields', async () => {
+      // Arrange
+      const processedClient = {
+        ...mockClient,
+        ...mockCategorization,
+        industry: 'Retail',
+        processed: true,
+        categorizationStatus: CategorizationStatusEnum.VALID,
+        categorizationPromptVersion: 'categorization@1',
+      };
+      mockClientsService.findOne.mockResolvedValue(processedClient);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(
+        completionOf(JSON.stringify(mockCategorization)),
+      );
+      mockResponseParser.parseValidatedJson.mockReturnValue({
+        value: mockCategorization,
+        errors: [],
+      });
+      mockClientsService.markAsProcessed.mockResolvedValue({
+        ...processedClient,
+        ...mockCategorization,
+      } as any);
+
+      // Act
+      const result = await service.processSingleClient('1', true);
+
+      // Assert
+      expect(mockClientsService.markAsProcessed).toHaveBeenCalled();
+      expect(result).toEqual({
+        clientId: '1',
+        name: 'Test Client',
+        categorizationStatus: CategorizationStatusEnum.VALID,
+        stored: true,
+        changes: [{ field: 'industry', before: 'Retail', after: 'Technology' }],
+      });
+    });
+
+    it('should keep the stored values when a forced categorization falls back', async () => {
+      // Arrange
+      const processedClient = {
+        ...mockClient,
+        ...mockCategorization,
+        processed: true,
+        categorizationStatus: CategorizationStatusEnum.VALID,
+        categorizationPromptVersion: 'categorization@1',
+      };
+      mockClientsService.findOne.mockResolvedValue(processedClient);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(completionOf('Not JSON'));
+      mockResponseParser.parseValidatedJson.mockReturnValue({
+        value: null,
+        errors: ['The response does not contain a JSON object'],
+      });
+
+      // Act
+      const result = await service.processSingleClient('1', true);
+
+      // Assert
+      expect(mockClientsService.markAsProcessed).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        categorizationStatus: CategorizationStatusEnum.FALLBACK,
+        stored: false,
+        changes: [],
+      });
+    });
+
     it('should handle errors during processing', async () => {
       // Arrange
       mockClientsService.findOne.mockResolvedValue(mockClient);
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockRejectedValue(new Error('API Error'));
 
       // Act & Assert
-      await expect(service.processSingleClient('1')).rejects.toThrow('API Error');
+      await expect(service.processSingleClient('1')).rejects.toThrow(
+        'API Error',
+      );
+    });
+  });
+
+  describe('scheduleProcessing', () => {
+    it('should process the client in the background', () => {
+      // Arrange
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      const processSpy = jest
+        .spyOn(service, 'processSingleClient')
+        .mockResolvedValue(null);
+
+      // Act
+      service.scheduleProcessing('1');
+
+      // Assert
+      expect(processSpy).toHaveBeenCalledWith('1');
+    });
+
+    it('should skip processing when the API is not configured', () => {
+      // Arrange
+      mockLlmProvider.isConfigured.mockReturnValue(false);
+      const processSpy = jest.spyOn(service, 'processSingleClient');
+
+      // Act
+      service.scheduleProcessing('1');
+
+      // Assert
+      expect(processSpy).not.toHaveBeenCalled();
+    });
+
+    it('should log background failures instead of throwing', async () => {
+      // Arrange
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      jest
+        .spyOn(service, 'processSingleClient')
+        .mockRejectedValue(new Error('API Error'));
+      const errorSpy = jest
+        .spyOn(service['logger'], 'error')
+        .mockImplementation();
+
+      // Act
+      service.scheduleProcessing('1');
+      await new Promise(process.nextTick);
+
+      // Assert
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Background processing of client 1 failed: API Error',
+      );
     });
   });
 
@@ -358,6 +481,7 @@ describe('CategorizationService', () => {
         sentiment: null,
         processed: false,
         processedAt: null,
+        deletedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       },
@@ -381,6 +505,7 @@ describe('CategorizationService', () => {
         sentiment: null,
         processed: false,
         processedAt: null,
+        deletedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       },
@@ -401,9 +526,14 @@ describe('CategorizationService', () => {
     it('should process all unprocessed clients successfully', async () => {
       // Arrange
       mockClientsService.getUnprocessedClients.mockResolvedValue(mockClients);
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(JSON.stringify(mockCategorization));
-      mockResponseParser.parseJsonResponse.mockReturnValue(mockCategorization);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(
+        completionOf(JSON.stringify(mockCategorization)),
+      );
+      mockResponseParser.parseValidatedJson.mockReturnValue({
+        value: mockCategorization,
+        errors: [],
+      });
       mockClientsService.markAsProcessed.mockResolvedValue({
         ...mockClients[0],
         ...mockCategorization,
@@ -415,34 +545,36 @@ describe('CategorizationService', () => {
 
       // Act
       const processPromise = service.processAllUnprocessedClients();
-      
+
       // Fast-forward through all timers asynchronously
       await jest.advanceTimersByTimeAsync(2000);
-      
+
       const result = await processPromise;
 
       // Restore timers
       jest.useRealTimers();
 
       // Assert
-      expect(result.processed).toBe(2);
-      expect(result.failed).toBe(0);
+      expect(result).toEqual({ processed: 2, failed: 0, fallback: 0 });
       expect(mockClientsService.getUnprocessedClients).toHaveBeenCalled();
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledTimes(2);
+      expect(mockLlmProvider.complete).toHaveBeenCalledTimes(2);
       expect(mockClientsService.markAsProcessed).toHaveBeenCalledTimes(2);
     }, 10000);
 
     it('should handle errors for individual clients and continue processing', async () => {
       // Arrange
       mockClientsService.getUnprocessedClients.mockResolvedValue(mockClients);
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+
       // First client succeeds, second fails
-      mockAnthropicClient.sendMessage
-        .mockResolvedValueOnce(JSON.stringify(mockCategorization))
+      mockLlmProvider.complete
+        .mockResolvedValueOnce(completionOf(JSON.stringify(mockCategorization)))
         .mockRejectedValueOnce(new Error('API Error'));
-      
-      mockResponseParser.parseJsonResponse.mockReturnValue(mockCategorization);
+
+      mockResponseParser.parseValidatedJson.mockReturnValue({
+        value: mockCategorization,
+        errors: [],
+      });
       mockClientsService.markAsProcessed.mockResolvedValue({
         ...mockClients[0],
         ...mockCategorization,
@@ -463,6 +595,40 @@ describe('CategorizationService', () => {
       expect(result.failed).toBe(1);
     }, 10000);
 
+    it('should count clients stored with fallback values', async () => {
+      // Arrange
+      mockClientsService.getUnprocessedClients.mockResolvedValue(mockClients);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(
+        completionOf(JSON.stringify(mockCategorization)),
+      );
+      mockResponseParser.parseValidatedJson
+        .mockReturnValueOnce({ value: mockCategorization, errors: [] })
+        .mockReturnValue({
+          value: null,
+          errors: ['industry should not be empty'],
+        });
+
+      jest.useFakeTimers();
+
+      // Act
+      const processPromise = service.processAllUnprocessedClients();
+      await jest.advanceTimersByTimeAsync(2000);
+      const result = await processPromise;
+
+      jest.useRealTimers();
+
+      // Assert
+      expect(result).toEqual({ processed: 2, failed: 0, fallback: 1 });
+      expect(mockClientsService.markAsProcessed).toHaveBeenLastCalledWith(
+        '2',
+        expect.objectContaining({
+          industry: 'Unknown',
+          categorizationStatus: CategorizationStatusEnum.FALLBACK,
+        }),
+      );
+    }, 10000);
+
     it('should return zero counts when no unprocessed clients exist', async () => {
       // Arrange
       mockClientsService.getUnprocessedClients.mockResolvedValue([]);
@@ -471,10 +637,103 @@ describe('CategorizationService', () => {
       const result = await service.processAllUnprocessedClients();
 
       // Assert
-      expect(result.processed).toBe(0);
+      expect(result).toEqual({ processed: 0, failed: 0, fallback: 0 });
+      expect(mockLlmProvider.complete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reprocessClients', () => {
+    const processedClient = {
+      id: '1',
+      name: 'Client 1',
+      transcription: 'Transcription 1',
+      closed: false,
+      industry: 'Retail',
+      processed: true,
+      categorizationStatus: CategorizationStatusEnum.VALID,
+      categorizationPromptVersion: 'categorization@1',
+    };
+
+    const mockCategorization: CategorizationResultDto = {
+      industry: 'Technology',
+      operationSize: 'large',
+      interactionVolume: 150,
+      discoverySource: 'LinkedIn',
+      mainMotivation: 'Efficiency',
+      urgencyLevel: 'immediate',
+      painPoints: [],
+      technicalRequirements: [],
+      sentiment: 'positive',
+    };
+
+    it('should categorize the matching clients again and report their changes', async () => {
+      // Arrange
+      const dto = {
+        filters: { sellerId: ['seller-1'] },
+        promptVersion: 'categorization@1',
+      };
+      mockClientsService.getClientsToReprocess.mockResolvedValue({
+        clients: [processedClient],
+        total: 3,
+      });
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(
+        completionOf(JSON.stringify(mockCategorization)),
+      );
+      mockResponseParser.parseValidatedJson.mockReturnValue({
+        value: mockCategorization,
+        errors: [],
+      });
+      mockClientsService.markAsProcessed.mockResolvedValue({
+        ...processedClient,
+        ...mockCategorization,
+      } as any);
+
+      jest.useFakeTimers();
+
+      // Act
+      const reprocessPromise = service.reprocessClients(dto);
+      await jest.advanceTimersByTimeAsync(1000);
+      const result = await reprocessPromise;
+
+      jest.useRealTimers();
+
+      // Assert
+      expect(mockClientsService.getClientsToReprocess).toHaveBeenCalledWith(
+        dto,
+        LLM_CONSTANTS.REPROCESS_MAX_CLIENTS,
+      );
+      expect(result.matched).toBe(3);
+      expect(result.remaining).toBe(2);
+      expect(result.processed).toBe(1);
       expect(result.failed).toBe(0);
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result.clients[0].changes).toContainEqual({
+        field: 'industry',
+        before: 'Retail',
+        after: 'Technology',
+      });
+    }, 10000);
+
+    it('should return empty results when no client matches', async () => {
+      // Arrange
+      mockClientsService.getClientsToReprocess.mockResolvedValue({
+        clients: [],
+        total: 0,
+      });
+
+      // Act
+      const result = await service.reprocessClients({ all: true });
+
+      // Assert
+      expect(result).toEqual({
+        matched: 0,
+        remaining: 0,
+        processed: 0,
+        failed: 0,
+        fallback: 0,
+        clients: [],
+      });
+      expect(mockLlmProvider.complete).not.toHaveBeenCalled();
     });
   });
 });
-
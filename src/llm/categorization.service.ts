@@ -1,135 +1,366 @@
 import { Injectable, Logger, Optional } from '@nestjs/common';
+import { Client } from '@prisma/client';
 import { ClientsService } from '../clients/clients.service';
-import { AnthropicClientService } from './core/anthropic-client.service';
+import { LlmProvider } from './core/llm-provider';
 import { ResponseParserService } from './core/response-parser.service';
+import { AnalysisLogService } from './core/analysis-log.service';
+import { PromptRegistryService } from './core/prompt-registry.service';
 import { CategorizationPromptBuilder } from './prompts/categorization-prompt.builder';
-import { NormalizationUtil } from './utils/normalization.util';
 import { LLM_CONSTANTS } from '../common/constants';
-import { CategorizationResultDto } from '../common/dto/llm';
+import {
+  AnalysisActionEnum,
+  CategorizationChangeDto,
+  CategorizationOutcome,
+  CategorizationResultDto,
+  CategorizationStatusEnum,
+  ReprocessClientsDto,
+  ReprocessedClientDto,
+  ReprocessResultDto,
+} from '../common/dto/llm';
 import { CacheService } from '../common/services/cache.service';
 
+// Stored when no answer passes validation; the client is tagged as fallback so analytics can leave it out
+const FALLBACK_CATEGORIZATION: CategorizationResultDto = {
+  industry: 'Unknown',
+  operationSize: 'medium',
+  interactionVolume: 0,
+  discoverySource: 'Unknown',
+  mainMotivation: 'Unknown',
+  urgencyLevel: 'planned',
+  painPoints: [],
+  technicalRequirements: [],
+  sentiment: 'neutral',
+};
+
+// Stored fields compared before and after a client is categorized
+const CATEGORIZATION_FIELDS = [
+  'industry',
+  'operationSize',
+  'interactionVolume',
+  'discoverySource',
+  'mainMotivation',
+  'urgencyLevel',
+  'painPoints',
+  'technicalRequirements',
+  'sentiment',
+  'categorizationStatus',
+  'categorizationPromptVersion',
+] as const;
+
+type CategorizedFields = Partial<
+  Record<(typeof CATEGORIZATION_FIELDS)[number], unknown>
+>;
+
+const diffCategorization = (
+  before: CategorizedFields,
+  after: CategorizedFields,
+): CategorizationChangeDto[] =>
+  CATEGORIZATION_FIELDS.filter(
+    (field) =>
+      JSON.stringify(before[field] ?? null) !==
+      JSON.stringify(after[field] ?? null),
+  ).map((field) => ({
+    field,
+    before: before[field] ?? null,
+    after: after[field] ?? null,
+  }));
+
 @Injectable()
 export class CategorizationService {
   private readonly logger = new Logger(CategorizationService.name);
 
   constructor(
-    private readonly anthropicClient: AnthropicClientService,
+    private readonly llmProvider: LlmProvider,
     private readonly responseParser: ResponseParserService,
+    private readonly analysisLog: AnalysisLogService,
+    private readonly promptRegistry: PromptRegistryService,
     private readonly clientsService: ClientsService,
     @Optional() private readonly cacheService?: CacheService,
   ) {}
 
-  async processAllUnprocessedClients(): Promise<{ processed: number; failed: number }> {
+  /**
+   * Categorize every unprocessed client; fallback counts the processed clients stored with placeholder values
+   */
+  async processAllUnprocessedClients(): Promise<{
+    processed: number;
+    failed: number;
+    fallback: number;
+  }> {
     const clients = await this.clientsService.getUnprocessedClients();
     this.logger.log(`Found ${clients.length} unprocessed clients`);
 
-    let processed = 0;
-    let failed = 0;
+    const { processed, failed, fallback } = await this.processClients(clients);
 
-    for (const client of clients) {
-      try {
-        this.logger.log(`Processing client: ${client.name}`);
-        
-        const categorization = await this.categorizeTranscription(
-          client.transcription,
-          client.name,
-          client.closed,
-        );
+    if (processed > 0 && this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log(
+        'Analytics cache invalidated after processing clients with AI',
+      );
+    }
 
-        await this.clientsService.markAsProcessed(client.id, categorization);
-        processed++;
+    return { processed, failed, fallback };
+  }
 
-        this.logger.log(`Successfully processed client: ${client.name}`);
+  /**
+   * Categorize processed clients again, e.g. after a prompt or model change, reporting the changed fields
+   * At most REPROCESS_MAX_CLIENTS clients are taken per call, the ones processed longest ago first.
+   * @throws BadRequestException when no condition is given and all is not set
+   * @throws NotFoundException when filters.segmentId does not exist
+   */
+  async reprocessClients(
+    dto: ReprocessClientsDto,
+  ): Promise<ReprocessResultDto> {
+    const { clients, total } = await this.clientsService.getClientsToReprocess(
+      dto,
+      LLM_CONSTANTS.REPROCESS_MAX_CLIENTS,
+    );
+    this.logger.log(
+      `Found ${total} clients to reprocess; reprocessing ${clients.length}`,
+    );
 
-        await this.sleep(1000);
-      } catch (error) {
-        this.logger.error(`Failed to process client ${client.name}:`, error.message);
-        failed++;
-      }
-    }
+    const result = await this.processClients(clients);
 
-    if (processed > 0 && this.cacheService) {
+    if (
+      result.clients.some((client) => client.changes.length > 0) &&
+      this.cacheService
+    ) {
       this.cacheService.clearAnalyticsCache();
-      this.logger.log('Analytics cache invalidated after processing clients with AI');
+      this.logger.log(
+        'Analytics cache invalidated after reprocessing clients with AI',
+      );
     }
 
-    return { processed, failed };
+    return { matched: total, remaining: total - clients.length, ...result };
   }
 
-  async processSingleClient(clientId: string): Promise<void> {
+  /**
+   * Categorize a single client
+   * @param force - Categorize the client again when it is already processed
+   * @returns The stored changes, or null when the client is already processed and force is not set
+   * @throws NotFoundException when the client does not exist
+   */
+  async processSingleClient(
+    clientId: string,
+    force = false,
+  ): Promise<ReprocessedClientDto | null> {
     const client = await this.clientsService.findOne(clientId);
 
-    if (client.processed) {
+    if (client.processed && !force) {
       this.logger.warn(`Client ${client.name} is already processed`);
-      return;
+      return null;
     }
 
-    const categorization = await this.categorizeTranscription(
-      client.transcription,
-      client.name,
-      client.closed,
-    );
-
-    await this.clientsService.markAsProcessed(client.id, categorization);
+    const result = await this.categorizeAndStore(client);
     this.logger.log(`Successfully processed client: ${client.name}`);
 
-    if (this.cacheService) {
+    if (result.changes.length > 0 && this.cacheService) {
       this.cacheService.clearAnalyticsCache();
-      this.logger.log('Analytics cache invalidated after processing client with AI');
+      this.logger.log(
+        'Analytics cache invalidated after processing client with AI',
+      );
     }
+
+    return result;
   }
 
+  /**
+   * Categorize a client in the background, e.g. after its transcription was edited
+   * Failures are only logged: the client stays unprocessed and is picked up by the next processing run.
+   */
+  scheduleProcessing(clientId: string): void {
+    if (!this.llmProvider.isConfigured()) {
+      this.logger.warn(
+        `LLM provider not configured; client ${clientId} will be processed on the next run`,
+      );
+      return;
+    }
+
+    this.processSingleClient(clientId).catch((error: Error) => {
+      this.logger.error(
+        `Background processing of client ${clientId} failed: ${error.message}`,
+      );
+    });
+  }
+
+  /**
+   * Categorize a client's transcription, validating the answer against CategorizationResultDto
+   * An invalid answer is sent back to the model with the validation errors, up to
+   * CATEGORIZATION_REPAIR_ATTEMPTS times, before placeholder values are used. Every answer is
+   * kept in the analysis log.
+   */
   async categorizeTranscription(
-    transcription: string,
-    clientName: string,
-    closed: boolean,
-  ): Promise<CategorizationResultDto> {
-    if (!this.anthropicClient.isConfigured()) {
-      throw new Error('Anthropic API not configured');
+    client: Pick<Client, 'id' | 'name' | 'transcription' | 'closed'>,
+  ): Promise<CategorizationOutcome> {
+    if (!this.llmProvider.isConfigured()) {
+      throw new Error(`LLM provider ${this.llmProvider.name} not configured`);
     }
 
     try {
-      const prompt = CategorizationPromptBuilder.build(transcription, clientName, closed);
-      const responseText = await this.anthropicClient.sendMessage({
-        prompt,
-        maxTokens: LLM_CONSTANTS.MAX_TOKENS.CATEGORIZATION,
-      });
-
-      this.logger.log(`Categorization response for ${clientName}: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.STANDARD)}`);
-
-      const fallback: CategorizationResultDto = {
-        industry: 'Unknown',
-        operationSize: 'medium',
-        interactionVolume: 0,
-        discoverySource: 'Unknown',
-        mainMotivation: 'Unknown',
-        urgencyLevel: 'planned',
-        painPoints: [],
-        technicalRequirements: [],
-        sentiment: 'neutral',
-      };
+      const basePrompt = await this.promptRegistry.render(
+        CategorizationPromptBuilder.build(
+          client.transcription,
+          client.name,
+          client.closed,
+        ),
+      );
+      let prompt = basePrompt;
+
+      for (
+        let attempt = 0;
+        attempt <= LLM_CONSTANTS.CATEGORIZATION_REPAIR_ATTEMPTS;
+        attempt++
+      ) {
+        const startedAt = Date.now();
+        const completion = await this.llmProvider.complete({
+          prompt: prompt.text,
+          maxTokens: LLM_CONSTANTS.MAX_TOKENS.CATEGORIZATION,
+          responseFormat: 'json',
+        });
+        const latencyMs = Date.now() - startedAt;
 
-      const parsed = this.responseParser.parseJsonResponse<any>(responseText, fallback);
+        this.logger.log(
+          `Categorization response for ${client.name}: ${completion.text.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.STANDARD)}`,
+        );
+
+        const { value, errors } = this.responseParser.parseValidatedJson(
+          completion.text,
+          CategorizationResultDto,
+        );
+        await this.analysisLog.record({
+          clientId: client.id,
+          action: AnalysisActionEnum.CATEGORIZATION,
+          promptVersion: prompt.version,
+          completion,
+          latencyMs,
+          result: value
+            ? { attempt: attempt + 1, categorization: { ...value } }
+            : { attempt: attempt + 1, errors },
+        });
+
+        if (value) {
+          return {
+            categorization: value,
+            status:
+              attempt === 0
+                ? CategorizationStatusEnum.VALID
+                : CategorizationStatusEnum.REPAIRED,
+            promptVersion: basePrompt.version,
+          };
+        }
+
+        this.logger.warn(
+          `Invalid categorization for ${client.name} (attempt ${attempt + 1}): ${errors.join('; ')}`,
+        );
+        prompt = await this.promptRegistry.render(
+          CategorizationPromptBuilder.buildRepair(
+            basePrompt.text,
+            completion.text,
+            errors,
+          ),
+        );
+      }
 
+      this.logger.warn(
+        `Categorization for ${client.name} could not be repaired; storing fallback values`,
+      );
       return {
-        industry: parsed.industry || 'Unknown',
-        operationSize: NormalizationUtil.normalizeOperationSize(parsed.operationSize),
-        interactionVolume: parseInt(parsed.interactionVolume) || 0,
-        discoverySource: parsed.discoverySource || 'Unknown',
-        mainMotivation: parsed.mainMotivation || 'Unknown',
-        urgencyLevel: NormalizationUtil.normalizeUrgencyLevel(parsed.urgencyLevel),
-        painPoints: Array.isArray(parsed.painPoints) ? parsed.painPoints : [],
-        technicalRequirements: Array.isArray(parsed.technicalRequirements) ? parsed.technicalRequirements : [],
-        sentiment: NormalizationUtil.normalizeSentiment(parsed.sentiment),
+        categorization: { ...FALLBACK_CATEGORIZATION },
+        status: CategorizationStatusEnum.FALLBACK,
+        promptVersion: basePrompt.version,
       };
     } catch (error) {
-      this.logger.error(`Error categorizing transcription for ${clientName}:`, error);
+      this.logger.error(
+        `Error categorizing transcription for ${client.name}:`,
+        error,
+      );
       throw error;
     }
   }
 
+  /**
+   * Categorize clients one after the other; a failed client is counted and skipped
+   */
+  private async processClients(
+    clients: Client[],
+  ): Promise<Omit<ReprocessResultDto, 'matched' | 'remaining'>> {
+    const results: ReprocessedClientDto[] = [];
+    let failed = 0;
+
+    for (const client of clients) {
+      try {
+        this.logger.log(`Processing client: ${client.name}`);
+
+        results.push(await this.categorizeAndStore(client));
+        this.logger.log(`Successfully processed client: ${client.name}`);
+
+        await this.sleep(1000);
+      } catch (error) {
+        this.logger.error(
+          `Failed to process client ${client.name}:`,
+          (error as Error).message,
+        );
+        failed++;
+      }
+    }
+
+    return {
+      processed: results.length,
+      failed,
+      fallback: results.filter(
+        (result) =>
+          result.categorizationStatus === CategorizationStatusEnum.FALLBACK,
+      ).length,
+      clients: results,
+    };
+  }
+
+  /**
+   * Categorize a client and store the result, comparing the stored fields before and after
+   * Placeholder values never replace a categorization the model actually produced.
+   */
+  private async categorizeAndStore(
+    client: Pick<
+      Client,
+      'id' | 'name' | 'transcription' | 'closed' | 'processed'
+    > &
+      CategorizedFields,
+  ): Promise<ReprocessedClientDto> {
+    const { categorization, status, promptVersion } =
+      await this.categorizeTranscription(client);
+
+    if (
+      status === CategorizationStatusEnum.FALLBACK &&
+      client.processed &&
+      client.categorizationStatus !== CategorizationStatusEnum.FALLBACK
+    ) {
+      this.logger.warn(
+        `Categorization for ${client.name} fell back to placeholder values; keeping its stored values`,
+      );
+      return {
+        clientId: client.id,
+        name: client.name,
+        categorizationStatus: status,
+        stored: false,
+        changes: [],
+      };
+    }
+
+    const updated = await this.clientsService.markAsProcessed(client.id, {
+      ...categorization,
+      categorizationStatus: status,
+      categorizationPromptVersion: promptVersion,
+    });
+
+    return {
+      clientId: client.id,
+      name: client.name,
+      categorizationStatus: status,
+      stored: true,
+      changes: diffCategorization(client, updated),
+    };
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
-
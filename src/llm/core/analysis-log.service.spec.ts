@@ -0,0 +1,70 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AnalysisLogService } from './analysis-log.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AnalysisActionEnum } from '../../common/dto/llm';
+
+describe('AnalysisLogService', () => {
+  let service: AnalysisLogService;
+
+  const mockPrismaService = {
+    analysisLog: {
+      create: jest.fn(),
+    },
+  };
+
+  const entry = {
+    clientId: 'client-1',
+    action: AnalysisActionEnum.CATEGORIZATION,
+    promptVersion: 'categorization@1',
+    completion: {
+      text: '{"industry": "Retail"}',
+      model: 'claude-3-haiku-20240307',
+      usage: { inputTokens: 900, outputTokens: 120 },
+    },
+    latencyMs: 1350,
+    result: { attempt: 1, categorization: { industry: 'Retail' } },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalysisLogService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<AnalysisLogService>(AnalysisLogService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should write the prompt version, model, raw response, result, latency and token usage', async () => {
+    mockPrismaService.analysisLog.create.mockResolvedValueOnce({});
+
+    await service.record(entry);
+
+    expect(mockPrismaService.analysisLog.create).toHaveBeenCalledWith({
+      data: {
+        clientId: 'client-1',
+        action: 'categorization',
+        promptVersion: 'categorization@1',
+        model: 'claude-3-haiku-20240307',
+        rawResponse: '{"industry": "Retail"}',
+        result: { attempt: 1, categorization: { industry: 'Retail' } },
+        latencyMs: 1350,
+        inputTokens: 900,
+        outputTokens: 120,
+      },
+    });
+  });
+
+  it('should not throw when the log cannot be written', async () => {
+    mockPrismaService.analysisLog.create.mockRejectedValueOnce(
+      new Error('Connection lost'),
+    );
+
+    await expect(service.record(entry)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AnalysisActionEnum } from '../../common/dto/llm';
+import { LlmCompletion } from './llm-provider';
+
+export interface AnalysisLogEntry {
+  clientId: string;
+  action: AnalysisActionEnum;
+  promptVersion: string;
+  completion: LlmCompletion;
+  latencyMs: number;
+  result: Prisma.InputJsonValue;
+}
+
+/**
+ * Keeps every model call made for a client in the analysis log: the prompt version, the answering
+ * model, the raw response, the parsed result, the latency and the token usage
+ */
+@Injectable()
+export class AnalysisLogService {
+  private readonly logger = new Logger(AnalysisLogService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Write a log entry; a failed write is only logged so it never fails the analysis itself
+   */
+  async record(entry: AnalysisLogEntry): Promise<void> {
+    try {
+      await this.prisma.analysisLog.create({
+        data: {
+          clientId: entry.clientId,
+          action: entry.action,
+          promptVersion: entry.promptVersion,
+          model: entry.completion.model,
+          rawResponse: entry.completion.text,
+          result: entry.result,
+          latencyMs: entry.latencyMs,
+          inputTokens: entry.completion.usage.inputTokens,
+          outputTokens: entry.completion.usage.outputTokens,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to write the ${entry.action} log of client ${entry.clientId}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
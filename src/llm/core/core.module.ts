@@ -1,10 +1,49 @@
 import { Module } from '@nestjs/common';
-import { AnthropicClientService } from './anthropic-client.service';
+import { ConfigService } from '@nestjs/config';
+import { LLM_CONSTANTS } from '../../common/constants';
+import {
+  LlmProvider,
+  LlmProviderName,
+  parseLlmProviderName,
+} from './llm-provider';
+import { AnthropicProvider } from './providers/anthropic.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { MockProvider } from './providers/mock.provider';
 import { ResponseParserService } from './response-parser.service';
+import { AnalysisLogService } from './analysis-log.service';
+import { PromptRegistryService } from './prompt-registry.service';
 
 @Module({
-  providers: [AnthropicClientService, ResponseParserService],
-  exports: [AnthropicClientService, ResponseParserService],
+  providers: [
+    // LLM_PROVIDER picks the implementation; only the selected provider is created
+    {
+      provide: LlmProvider,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): LlmProvider => {
+        const name = parseLlmProviderName(
+          configService.get<string>('LLM_PROVIDER') ||
+            LLM_CONSTANTS.DEFAULT_PROVIDER,
+        );
+
+        switch (name) {
+          case LlmProviderName.ANTHROPIC:
+            return new AnthropicProvider(configService);
+          case LlmProviderName.OPENAI:
+            return new OpenAiCompatibleProvider(configService);
+          case LlmProviderName.MOCK:
+            return new MockProvider();
+        }
+      },
+    },
+    ResponseParserService,
+    AnalysisLogService,
+    PromptRegistryService,
+  ],
+  exports: [
+    LlmProvider,
+    ResponseParserService,
+    AnalysisLogService,
+    PromptRegistryService,
+  ],
 })
 export class CoreModule {}
-
@@ -0,0 +1,15 @@
+import { LlmProviderName, parseLlmProviderName } from './llm-provider';
+
+describe('parseLlmProviderName', () => {
+  it('should accept every known provider', () => {
+    expect(parseLlmProviderName('anthropic')).toBe(LlmProviderName.ANTHROPIC);
+    expect(parseLlmProviderName('openai')).toBe(LlmProviderName.OPENAI);
+    expect(parseLlmProviderName('mock')).toBe(LlmProviderName.MOCK);
+  });
+
+  it('should reject an unknown provider', () => {
+    expect(() => parseLlmProviderName('open-ai')).toThrow(
+      'Unknown LLM_PROVIDER open-ai; expected one of anthropic, openai, mock',
+    );
+  });
+});
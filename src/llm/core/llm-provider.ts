@@ -0,0 +1,67 @@
+export enum LlmProviderName {
+  ANTHROPIC = 'anthropic',
+  OPENAI = 'openai',
+  MOCK = 'mock',
+}
+
+/**
+ * Read a provider name as set in LLM_PROVIDER
+ * @throws Error when the name is not a known provider, so a typo fails at startup
+ */
+export const parseLlmProviderName = (value: string): LlmProviderName => {
+  const names: string[] = Object.values(LlmProviderName);
+
+  if (!names.includes(value)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER ${value}; expected one of ${names.join(', ')}`,
+    );
+  }
+
+  return value as LlmProviderName;
+};
+
+export interface LlmMessageRequest {
+  prompt: string;
+  model?: string;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json'; // json asks the provider for a single JSON object
+}
+
+export interface LlmTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  model: string; // Model that actually answered
+  usage: LlmTokenUsage;
+}
+
+/**
+ * A large language model the generators and the categorization send prompts to
+ * Declared as an abstract class so it doubles as the injection token; CoreModule provides the
+ * implementation selected by LLM_PROVIDER (anthropic, openai or mock).
+ */
+export abstract class LlmProvider {
+  abstract readonly name: LlmProviderName;
+
+  /**
+   * Whether the provider can answer; callers fall back to canned responses when it cannot
+   */
+  abstract isConfigured(): boolean;
+
+  /**
+   * Send a prompt and get the response with the model and token usage
+   * @throws Error when the provider is not configured or the request fails
+   */
+  abstract complete(request: LlmMessageRequest): Promise<LlmCompletion>;
+
+  /**
+   * Send a prompt and get only the response text
+   */
+  async sendMessage(request: LlmMessageRequest): Promise<string> {
+    const completion = await this.complete(request);
+    return completion.text;
+  }
+}
@@ -0,0 +1,332 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PromptRegistryService } from './prompt-registry.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CacheService } from '../../common/services/cache.service';
+import {
+  CATEGORIZATION_PROMPTS,
+  CategorizationPromptBuilder,
+} from '../prompts/categorization-prompt.builder';
+import { PromptId } from '../prompts/prompt.types';
+import { DEFAULT_PROMPTS } from '../prompts/default-prompts';
+
+describe('PromptRegistryService', () => {
+  let service: PromptRegistryService;
+
+  const mockPrismaService = {
+    prompt: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    promptVersion: {
+      create: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockCacheService = {
+    clearAnalyticsCache: jest.fn(),
+  };
+
+  const builtInRepair = CATEGORIZATION_PROMPTS[1];
+  const storedRepair = (activeVersion: number, versions: number) => ({
+    id: PromptId.CATEGORIZATION_REPAIR,
+    activeVersion,
+    _count: { versions },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromptRegistryService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PromptRegistryService>(PromptRegistryService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('render', () => {
+    it('should render the built-in template as version 1 when no version was added', async () => {
+      mockPrismaService.prompt.findUnique.mockResolvedValueOnce(null);
+
+      const result = await service.render(
+        CategorizationPromptBuilder.build(
+          'Necesitamos {{ayuda}}',
+          'Acme',
+          true,
+        ),
+      );
+
+      expect(result.version).toBe('categorization@1');
+      expect(result.text).toContain(
+        'Client Name: Acme\nDeal Status: CLOSED (Won)',
+      );
+      // Values are not rendered again, so braces typed in a transcription stay as they are
+      expect(result.text).toContain('"""\nNecesitamos {{ayuda}}\n"""');
+      expect(
+        mockPrismaService.promptVersion.findUniqueOrThrow,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should render the active version', async () => {
+      mockPrismaService.prompt.findUnique.mockResolvedValueOnce({
+        activeVersion: 3,
+      });
+      mockPrismaService.promptVersion.findUniqueOrThrow.mockResolvedValueOnce({
+        template: 'Fix this answer: {{previousResponse}}\n{{ errors }}',
+      });
+
+      const result = await service.render(
+        CategorizationPromptBuilder.buildRepair('Prompt', '{}', [
+          'industry should not be empty',
+        ]),
+      );
+
+      expect(result).toEqual({
+        text: 'Fix this answer: {}\n- industry should not be empty',
+        version: 'categorization-repair@3',
+      });
+      expect(
+        mockPrismaService.promptVersion.findUniqueOrThrow,
+      ).toHaveBeenCalledWith({
+        where: {
+          promptId_version: { promptId: 'categorization-repair', version: 3 },
+        },
+        select: { template: true },
+      });
+    });
+  });
+
+  describe('findAll', () => {
+    it('should list every built-in prompt with its stored versions', async () => {
+      mockPrismaService.prompt.findMany.mockResolvedValueOnce([
+        storedRepair(2, 3),
+      ]);
+
+      const result = await service.findAll();
+
+      expect(result).toHaveLength(DEFAULT_PROMPTS.length);
+      expect(
+        result.find((prompt) => prompt.id === 'categorization'),
+      ).toMatchObject({ activeVersion: 1, latestVersion: 1 });
+      expect(
+        result.find((prompt) => prompt.id === 'categorization-repair'),
+      ).toEqual({
+        id: 'categorization-repair',
+        description: builtInRepair.description,
+        variables: ['prompt', 'previousResponse', 'errors'],
+        activeVersion: 2,
+        latestVersion: 3,
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    it('should show the built-in version of a prompt without stored versions', async () => {
+      mockPrismaService.prompt.findUnique.mockResolvedValueOnce(null);
+
+      const result = await service.findOne('categorization-repair');
+
+      expect(result.versions).toEqual([
+        {
+          version: 1,
+          template: builtInRepair.template,
+          note: 'Built-in version',
+          active: true,
+          createdAt: null,
+        },
+      ]);
+    });
+
+    it('should throw NotFoundException for an unknown prompt', async () => {
+      await expect(service.findOne('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.prompt.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createVersion', () => {
+    const detail = {
+      id: PromptId.CATEGORIZATION_REPAIR,
+      activeVersion: 2,
+      versions: [
+        {
+          version: 2,
+          template: 'New',
+          note: null,
+          createdAt: new Date('2024-01-01'),
+        },
+      ],
+    };
+
+    it('should store the built-in version first, then add and activate version 2', async () => {
+      mockPrismaService.prompt.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(detail);
+      mockPrismaService.prompt.create.mockReturnValueOnce('create-prompt');
+      mockPrismaService.promptVersion.create.mockReturnValueOnce(
+        'create-version',
+      );
+      mockPrismaService.prompt.update.mockReturnValueOnce('activate-version');
+
+      const result = await service.createVersion('categorization-repair', {
+        template: '{{prompt}}\nErrors:\n{{errors}}',
+        note: 'Shorter',
+        activate: true,
+      });
+
+      expect(mockPrismaService.prompt.create).toHaveBeenCalledWith({
+        data: {
+          id: 'categorization-repair',
+          activeVersion: 1,
+          versions: {
+            create: {
+              version: 1,
+              template: builtInRepair.template,
+              note: 'Built-in version',
+            },
+          },
+        },
+      });
+      expect(mockPrismaService.promptVersion.create).toHaveBeenCalledWith({
+        data: {
+          promptId: 'categorization-repair',
+          version: 2,
+          template: '{{prompt}}\nErrors:\n{{errors}}',
+          note: 'Shorter',
+        },
+      });
+      expect(mockPrismaService.prompt.update).toHaveBeenCalledWith({
+        where: { id: 'categorization-repair' },
+        data: { activeVersion: 2 },
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith([
+        'create-prompt',
+        'create-version',
+        'activate-version',
+      ]);
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+      expect(result).toMatchObject({ activeVersion: 2, latestVersion: 2 });
+    });
+
+    it('should add a version after the latest one without activating it', async () => {
+      mockPrismaService.prompt.findUnique
+        .mockResolvedValueOnce(storedRepair(2, 3))
+        .mockResolvedValueOnce(detail);
+      mockPrismaService.promptVersion.create.mockReturnValueOnce(
+        'create-version',
+      );
+
+      await service.createVersion('categorization-repair', {
+        template: '{{prompt}}',
+      });
+
+      expect(mockPrismaService.promptVersion.create).toHaveBeenCalledWith({
+        data: {
+          promptId: 'categorization-repair',
+          version: 4,
+          template: '{{prompt}}',
+          note: undefined,
+        },
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith([
+        'create-version',
+      ]);
+      expect(mockPrismaService.prompt.create).not.toHaveBeenCalled();
+      expect(mockCacheService.clearAnalyticsCache).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when the template uses variables the prompt does not supply', async () => {
+      await expect(
+        service.createVersion('categorization-repair', {
+          template: '{{prompt}} for {{clientName}}',
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Unknown variables in the template: clientName; prompt categorization-repair supplies prompt, previousResponse, errors',
+        ),
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when another version takes the same number', async () => {
+      mockPrismaService.prompt.findUnique.mockResolvedValueOnce(
+        storedRepair(2, 3),
+      );
+      mockPrismaService.$transaction.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '6.18.0',
+        }),
+      );
+
+      await expect(
+        service.createVersion('categorization-repair', {
+          template: '{{prompt}}',
+        }),
+      ).rejects.toThrow(
+        new ConflictException(
+          'Another version of prompt categorization-repair was added at the same time; retry',
+        ),
+      );
+      expect(mockCacheService.clearAnalyticsCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('activate', () => {
+    it('should roll back to an earlier version and invalidate the cache', async () => {
+      mockPrismaService.prompt.findUnique
+        .mockResolvedValueOnce(storedRepair(3, 3))
+        .mockResolvedValueOnce({
+          id: PromptId.CATEGORIZATION_REPAIR,
+          activeVersion: 1,
+          versions: [
+            {
+              version: 3,
+              template: 'Latest',
+              note: null,
+              createdAt: new Date('2024-01-01'),
+            },
+          ],
+        });
+
+      await service.activate('categorization-repair', 1);
+
+      expect(mockPrismaService.prompt.update).toHaveBeenCalledWith({
+        where: { id: 'categorization-repair' },
+        data: { activeVersion: 1 },
+      });
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the version does not exist', async () => {
+      mockPrismaService.prompt.findUnique.mockResolvedValueOnce(null);
+
+      await expect(
+        service.activate('categorization-repair', 2),
+      ).rejects.toThrow('Version 2 of prompt categorization-repair not found');
+      expect(mockPrismaService.prompt.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  Optional,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CacheService } from '../../common/services/cache.service';
+import {
+  CreatePromptVersionDto,
+  PromptDetailDto,
+  PromptSummaryDto,
+} from '../../common/dto/llm';
+import { DEFAULT_PROMPTS } from '../prompts/default-prompts';
+import {
+  PromptDefinition,
+  PromptRequest,
+  RenderedPrompt,
+} from '../prompts/prompt.types';
+import { PromptTemplateUtil } from '../utils/prompt-template.util';
+
+const WITH_VERSION_COUNT = {
+  _count: { select: { versions: true } },
+} satisfies Prisma.PromptInclude;
+
+const BUILT_IN_NOTE = 'Built-in version';
+
+/**
+ * Renders the prompts sent to the model and manages their versions
+ * Every prompt starts with its built-in template as version 1. Its row is created with the first
+ * added version; versions are numbered in order and never changed, and exactly one is active.
+ */
+@Injectable()
+export class PromptRegistryService {
+  private readonly logger = new Logger(PromptRegistryService.name);
+  private readonly definitions = new Map<string, PromptDefinition>(
+    DEFAULT_PROMPTS.map((prompt) => [prompt.id, prompt]),
+  );
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Optional() private readonly cacheService?: CacheService,
+  ) {}
+
+  /**
+   * Render the active version of a prompt with the given variables
+   */
+  async render(request: PromptRequest): Promise<RenderedPrompt> {
+    const definition = this.getDefinition(request.promptId);
+    const stored = await this.prisma.prompt.findUnique({
+      where: { id: definition.id },
+      select: { activeVersion: true },
+    });
+
+    let version = 1;
+    let template = definition.template;
+    if (stored) {
+      const active = await this.prisma.promptVersion.findUniqueOrThrow({
+        where: {
+          promptId_version: {
+            promptId: definition.id,
+            version: stored.activeVersion,
+          },
+        },
+        select: { template: true },
+      });
+      version = stored.activeVersion;
+      template = active.template;
+    }
+
+    return {
+      text: PromptTemplateUtil.render(template, request.variables),
+      version: `${definition.id}@${version}`,
+    };
+  }
+
+  async findAll(): Promise<PromptSummaryDto[]> {
+    const stored = await this.prisma.prompt.findMany({
+      include: WITH_VERSION_COUNT,
+    });
+    const byId = new Map(stored.map((prompt) => [prompt.id, prompt]));
+
+    return DEFAULT_PROMPTS.map((definition) => {
+      const prompt = byId.get(definition.id);
+      return {
+        id: definition.id,
+        description: definition.description,
+        variables: definition.variables,
+        activeVersion: prompt?.activeVersion ?? 1,
+        latestVersion: prompt?._count.versions ?? 1,
+      };
+    });
+  }
+
+  /**
+   * @throws NotFoundException when the prompt does not exist
+   */
+  async findOne(id: string): Promise<PromptDetailDto> {
+    const definition = this.getDefinition(id);
+    const stored = await this.prisma.prompt.findUnique({
+      where: { id },
+      include: { versions: { orderBy: { version: 'desc' } } },
+    });
+
+    const activeVersion = stored?.activeVersion ?? 1;
+    const versions = stored
+      ? stored.versions.map((version) => ({
+          version: version.version,
+          template: version.template,
+          note: version.note,
+          active: version.version === activeVersion,
+          createdAt: version.createdAt,
+        }))
+      : [
+          {
+            version: 1,
+            template: definition.template,
+            note: BUILT_IN_NOTE,
+            active: true,
+            createdAt: null,
+          },
+        ];
+
+    return {
+      id,
+      description: definition.description,
+      variables: definition.variables,
+      activeVersion,
+      latestVersion: versions[0].version,
+      versions,
+    };
+  }
+
+  /**
+   * Add a version after the latest one, optionally making it active
+   * The first added version also stores the built-in template as version 1.
+   * @throws NotFoundException when the prompt does not exist
+   * @throws BadRequestException when the template uses variables the prompt does not supply
+   * @throws ConflictException when another version was added at the same time
+   */
+  async createVersion(
+    id: string,
+    dto: CreatePromptVersionDto,
+  ): Promise<PromptDetailDto> {
+    const definition = this.getDefinition(id);
+    const unknown = PromptTemplateUtil.placeholders(dto.template).filter(
+      (name) => !definition.variables.includes(name),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown variables in the template: ${unknown.join(', ')}; prompt ${id} supplies ${definition.variables.join(', ')}`,
+      );
+    }
+
+    const stored = await this.prisma.prompt.findUnique({
+      where: { id },
+      include: WITH_VERSION_COUNT,
+    });
+    const version = (stored?._count.versions ?? 1) + 1;
+
+    // The version number is unique per prompt, so a concurrent add fails the whole transaction here
+    try {
+      await this.prisma.$transaction([
+        ...(stored
+          ? []
+          : [
+              this.prisma.prompt.create({
+                data: {
+                  id,
+                  activeVersion: 1,
+                  versions: {
+                    create: {
+                      version: 1,
+                      template: definition.template,
+                      note: BUILT_IN_NOTE,
+                    },
+                  },
+                },
+              }),
+            ]),
+        this.prisma.promptVersion.create({
+          data: {
+            promptId: id,
+            version,
+            template: dto.template,
+            note: dto.note,
+          },
+        }),
+        ...(dto.activate
+          ? [
+              this.prisma.prompt.update({
+                where: { id },
+                data: { activeVersion: version },
+              }),
+            ]
+          : []),
+      ]);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          `Another version of prompt ${id} was added at the same time; retry`,
+        );
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Prompt ${id} version ${version} created${dto.activate ? ' and activated' : ''}`,
+    );
+    if (dto.activate) {
+      this.invalidateInsights();
+    }
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Make a version the one rendered from now on
+   * @throws NotFoundException when the prompt or the version does not exist
+   */
+  async activate(id: string, version: number): Promise<PromptDetailDto> {
+    this.getDefinition(id);
+    const stored = await this.prisma.prompt.findUnique({
+      where: { id },
+      include: WITH_VERSION_COUNT,
+    });
+    const latestVersion = stored?._count.versions ?? 1;
+
+    if (version < 1 || version > latestVersion) {
+      throw new NotFoundException(
+        `Version ${version} of prompt ${id} not found`,
+      );
+    }
+
+    if (stored && stored.activeVersion !== version) {
+      await this.prisma.prompt.update({
+        where: { id },
+        data: { activeVersion: version },
+      });
+      this.logger.log(`Prompt ${id} version ${version} activated`);
+      this.invalidateInsights();
+    }
+
+    return this.findOne(id);
+  }
+
+  /**
+   * @throws NotFoundException when no prompt has the id
+   */
+  private getDefinition(id: string): PromptDefinition {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new NotFoundException(`Prompt ${id} not found`);
+    }
+    return definition;
+  }
+
+  /**
+   * Cached insights were written with the previous version
+   */
+  private invalidateInsights(): void {
+    if (this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log(
+        'Analytics cache invalidated after changing the active version of a prompt',
+      );
+    }
+  }
+}
@@ -1,14 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import Anthropic from '@anthropic-ai/sdk';
-import { AnthropicClientService } from './anthropic-client.service';
-import { LLM_CONSTANTS } from '../../common/constants';
+import { AnthropicProvider } from './anthropic.provider';
+import { LLM_CONSTANTS } from '../../../common/constants';
 
 // Mock the Anthropic SDK
 jest.mock('@anthropic-ai/sdk');
 
-describe('AnthropicClientService', () => {
-  let service: AnthropicClientService;
+describe('AnthropicProvider', () => {
+  let service: AnthropicProvider;
   let configService: jest.Mocked<ConfigService>;
   let mockAnthropic: jest.Mocked<Anthropic>;
 
@@ -28,11 +28,13 @@ describe('AnthropicClientService', () => {
       },
     } as any;
 
-    (Anthropic as jest.MockedClass<typeof Anthropic>).mockImplementation(() => mockAnthropic);
+    (Anthropic as jest.MockedClass<typeof Anthropic>).mockImplementation(
+      () => mockAnthropic,
+    );
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
-        AnthropicClientService,
+        AnthropicProvider,
         {
           provide: ConfigService,
           useValue: mockConfigService,
@@ -40,7 +42,7 @@ describe('AnthropicClientService', () => {
       ],
     }).compile();
 
-    service = module.get<AnthropicClientService>(AnthropicClientService);
+    service = module.get<AnthropicProvider>(AnthropicProvider);
     configService = module.get(ConfigService);
   });
 
@@ -52,7 +54,7 @@ describe('AnthropicClientService', () => {
     it('should initialize client when API key is configured', () => {
       // Arrange
       mockConfigService.get.mockReturnValue('valid-api-key');
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
 
       // Assert
       expect(Anthropic).toHaveBeenCalledWith({ apiKey: 'valid-api-key' });
@@ -62,7 +64,7 @@ describe('AnthropicClientService', () => {
     it('should not initialize client when API key is missing', () => {
       // Arrange
       mockConfigService.get.mockReturnValue(undefined);
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
 
       // Assert
       expect(service.isConfigured()).toBe(false);
@@ -71,7 +73,7 @@ describe('AnthropicClientService', () => {
     it('should not initialize client when API key is placeholder', () => {
       // Arrange
       mockConfigService.get.mockReturnValue('your-api-key-here');
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
 
       // Assert
       expect(service.isConfigured()).toBe(false);
@@ -82,7 +84,7 @@ describe('AnthropicClientService', () => {
     it('should return true when client is initialized', () => {
       // Arrange
       mockConfigService.get.mockReturnValue('valid-api-key');
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
 
       // Act & Assert
       expect(service.isConfigured()).toBe(true);
@@ -91,7 +93,7 @@ describe('AnthropicClientService', () => {
     it('should return false when client is not initialized', () => {
       // Arrange
       mockConfigService.get.mockReturnValue(undefined);
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
 
       // Act & Assert
       expect(service.isConfigured()).toBe(false);
@@ -105,7 +107,7 @@ describe('AnthropicClientService', () => {
 
     it('should send message successfully with default model and tokens', async () => {
       // Arrange
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
       const mockResponse = {
         content: [
           {
@@ -115,7 +117,9 @@ describe('AnthropicClientService', () => {
         ],
       };
 
-      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(mockResponse as any);
+      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(
+        mockResponse as any,
+      );
 
       // Act
       const result = await service.sendMessage({
@@ -138,7 +142,7 @@ describe('AnthropicClientService', () => {
 
     it('should send message with custom model', async () => {
       // Arrange
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
       const mockResponse = {
         content: [
           {
@@ -148,7 +152,9 @@ describe('AnthropicClientService', () => {
         ],
       };
 
-      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(mockResponse as any);
+      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(
+        mockResponse as any,
+      );
 
       // Act
       await service.sendMessage({
@@ -166,7 +172,7 @@ describe('AnthropicClientService', () => {
 
     it('should send message with custom max tokens', async () => {
       // Arrange
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
       const mockResponse = {
         content: [
           {
@@ -176,7 +182,9 @@ describe('AnthropicClientService', () => {
         ],
       };
 
-      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(mockResponse as any);
+      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(
+        mockResponse as any,
+      );
 
       // Act
       await service.sendMessage({
@@ -194,7 +202,7 @@ describe('AnthropicClientService', () => {
 
     it('should handle empty text response', async () => {
       // Arrange
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
       const mockResponse = {
         content: [
           {
@@ -204,7 +212,9 @@ describe('AnthropicClientService', () => {
         ],
       };
 
-      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(mockResponse as any);
+      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(
+        mockResponse as any,
+      );
 
       // Act
       const result = await service.sendMessage({
@@ -217,7 +227,7 @@ describe('AnthropicClientService', () => {
 
     it('should handle non-text content type', async () => {
       // Arrange
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
       const mockResponse = {
         content: [
           {
@@ -227,7 +237,9 @@ describe('AnthropicClientService', () => {
         ],
       };
 
-      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(mockResponse as any);
+      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(
+        mockResponse as any,
+      );
 
       // Act
       const result = await service.sendMessage({
@@ -241,7 +253,7 @@ describe('AnthropicClientService', () => {
     it('should throw error when API is not configured', async () => {
       // Arrange
       mockConfigService.get.mockReturnValue(undefined);
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
 
       // Act & Assert
       await expect(
@@ -253,7 +265,7 @@ describe('AnthropicClientService', () => {
 
     it('should throw error when API call fails', async () => {
       // Arrange
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
       const apiError = new Error('API Error');
       (mockAnthropic.messages.create as jest.Mock).mockRejectedValue(apiError);
 
@@ -267,7 +279,7 @@ describe('AnthropicClientService', () => {
 
     it('should handle multiple content items by taking first text', async () => {
       // Arrange
-      const service = new AnthropicClientService(configService);
+      const service = new AnthropicProvider(configService);
       const mockResponse = {
         content: [
           {
@@ -281,7 +293,9 @@ describe('AnthropicClientService', () => {
         ],
       };
 
-      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(mockResponse as any);
+      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue(
+        mockResponse as any,
+      );
 
       // Act
       const result = await service.sendMessage({
@@ -292,5 +306,51 @@ describe('AnthropicClientService', () => {
       expect(result).toBe('First text');
     });
   });
-});
 
+  describe('complete', () => {
+    beforeEach(() => {
+      mockConfigService.get.mockReturnValue('valid-api-key');
+    });
+
+    it('should report the answering model and token usage', async () => {
+      const service = new AnthropicProvider(configService);
+      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue({
+        model: 'claude-3-haiku-20240307',
+        content: [{ type: 'text', text: 'Response' }],
+        usage: { input_tokens: 120, output_tokens: 30 },
+      });
+
+      const result = await service.complete({ prompt: 'Test prompt' });
+
+      expect(result).toEqual({
+        text: 'Response',
+        model: 'claude-3-haiku-20240307',
+        usage: { inputTokens: 120, outputTokens: 30 },
+      });
+    });
+
+    it('should prefill the answer with an opening brace for JSON responses', async () => {
+      const service = new AnthropicProvider(configService);
+      (mockAnthropic.messages.create as jest.Mock).mockResolvedValue({
+        model: 'claude-3-haiku-20240307',
+        content: [{ type: 'text', text: '"industry": "Retail"}' }],
+        usage: { input_tokens: 120, output_tokens: 10 },
+      });
+
+      const result = await service.complete({
+        prompt: 'Test prompt',
+        responseFormat: 'json',
+      });
+
+      expect(result.text).toBe('{"industry": "Retail"}');
+      expect(mockAnthropic.messages.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messages: [
+            { role: 'user', content: 'Test prompt' },
+            { role: 'assistant', content: '{' },
+          ],
+        }),
+      );
+    });
+  });
+});
@@ -1,27 +1,31 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Anthropic from '@anthropic-ai/sdk';
-import { LLM_CONSTANTS } from '../../common/constants';
-
-export interface AnthropicMessageRequest {
-  prompt: string;
-  model?: string;
-  maxTokens?: number;
-}
+import { LLM_CONSTANTS } from '../../../common/constants';
+import {
+  LlmCompletion,
+  LlmMessageRequest,
+  LlmProvider,
+  LlmProviderName,
+} from '../llm-provider';
 
 @Injectable()
-export class AnthropicClientService {
-  private readonly logger = new Logger(AnthropicClientService.name);
+export class AnthropicProvider extends LlmProvider {
+  readonly name = LlmProviderName.ANTHROPIC;
+  private readonly logger = new Logger(AnthropicProvider.name);
   private anthropic: Anthropic | null = null;
 
   constructor(private configService: ConfigService) {
+    super();
     this.initializeClient();
   }
 
   private initializeClient(): void {
     const apiKey = this.configService.get<string>('ANTHROPIC_API_KEY');
     if (!apiKey || apiKey === 'your-api-key-here') {
-      this.logger.warn('ANTHROPIC_API_KEY not configured. LLM features will not work.');
+      this.logger.warn(
+        'ANTHROPIC_API_KEY not configured. LLM features will not work.',
+      );
     } else {
       this.anthropic = new Anthropic({ apiKey });
       this.logger.log('Anthropic client initialized successfully');
@@ -32,11 +36,14 @@ export class AnthropicClientService {
     return this.anthropic !== null;
   }
 
-  async sendMessage(request: AnthropicMessageRequest): Promise<string> {
+  async complete(request: LlmMessageRequest): Promise<LlmCompletion> {
     if (!this.anthropic) {
       throw new Error('Anthropic API not configured');
     }
 
+    // JSON responses are requested by prefilling the answer with the opening brace
+    const prefill = request.responseFormat === 'json' ? '{' : '';
+
     try {
       const message = await this.anthropic.messages.create({
         model: request.model || LLM_CONSTANTS.DEFAULT_MODEL,
@@ -46,15 +53,25 @@ export class AnthropicClientService {
             role: 'user',
             content: request.prompt,
           },
+          ...(prefill
+            ? [{ role: 'assistant' as const, content: prefill }]
+            : []),
         ],
       });
 
-      const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
-      return responseText;
+      const responseText =
+        message.content[0]?.type === 'text' ? message.content[0].text : '';
+      return {
+        text: prefill + responseText,
+        model: message.model,
+        usage: {
+          inputTokens: message.usage?.input_tokens ?? 0,
+          outputTokens: message.usage?.output_tokens ?? 0,
+        },
+      };
     } catch (error) {
       this.logger.error('Error sending message to Anthropic API:', error);
       throw error;
     }
   }
 }
-
@@ -0,0 +1,93 @@
+import { MockProvider } from './mock.provider';
+import {
+  CATEGORIZATION_PROMPTS,
+  CategorizationPromptBuilder,
+} from '../../prompts/categorization-prompt.builder';
+import { PromptTemplateUtil } from '../../utils/prompt-template.util';
+import { LLM_CONSTANTS } from '../../../common/constants';
+
+describe('MockProvider', () => {
+  const provider = new MockProvider();
+
+  const categorizationPrompt = (transcription: string, closed: boolean) =>
+    PromptTemplateUtil.render(
+      CATEGORIZATION_PROMPTS[0].template,
+      CategorizationPromptBuilder.build(transcription, 'Client', closed)
+        .variables,
+    );
+
+  const categorize = async (transcription: string, closed = false) => {
+    const completion = await provider.complete({
+      prompt: categorizationPrompt(transcription, closed),
+      responseFormat: 'json',
+    });
+    return JSON.parse(completion.text) as Record<string, unknown>;
+  };
+
+  it('should always be configured', () => {
+    expect(provider.isConfigured()).toBe(true);
+  });
+
+  it('should categorize transcriptions with keyword rules', async () => {
+    const result = await categorize(
+      'Somos una clínica con 300 consultas semanales. Nos recomendó un colega y necesitamos integrar nuestro CRM de forma urgente; la carga de trabajo es enorme.',
+    );
+
+    expect(result).toEqual({
+      industry: 'healthcare',
+      operationSize: 'large',
+      interactionVolume: 300,
+      discoverySource: 'recommendation',
+      mainMotivation: 'integration',
+      urgencyLevel: 'immediate',
+      painPoints: ['high workload'],
+      technicalRequirements: ['integration with CRM'],
+      sentiment: 'neutral',
+    });
+  });
+
+  it('should fall back to defaults when no rule matches', async () => {
+    const result = await categorize('Conversación general sin detalles.', true);
+
+    expect(result).toMatchObject({
+      industry: 'technology',
+      operationSize: 'small',
+      interactionVolume: 50,
+      discoverySource: 'Unknown',
+      urgencyLevel: 'planned',
+      painPoints: [],
+      sentiment: 'positive',
+    });
+  });
+
+  it('should answer the same prompt the same way', async () => {
+    const prompt = categorizationPrompt(
+      'Tenemos dudas, solo estamos explorando.',
+      false,
+    );
+
+    const first = await provider.complete({ prompt, responseFormat: 'json' });
+    const second = await provider.complete({ prompt, responseFormat: 'json' });
+
+    expect(second).toEqual(first);
+    expect(JSON.parse(first.text)).toMatchObject({
+      urgencyLevel: 'exploratory',
+      sentiment: 'skeptical',
+    });
+  });
+
+  it('should answer other prompts so the generators use their fallbacks, reporting estimated usage', async () => {
+    const json = await provider.complete({
+      prompt: 'Return a JSON object with key findings',
+      responseFormat: 'json',
+    });
+    const text = await provider.complete({ prompt: 'Summarize the sellers' });
+
+    expect(json.text).toBe('{}');
+    expect(text.text).toBe(
+      'Insights are not available with the offline mock provider.',
+    );
+    expect(text.model).toBe(LLM_CONSTANTS.MOCK_MODEL);
+    expect(text.usage).toEqual({ inputTokens: 6, outputTokens: 15 });
+  });
+});
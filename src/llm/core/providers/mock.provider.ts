@@ -0,0 +1,256 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LLM_CONSTANTS } from '../../../common/constants';
+import {
+  LlmCompletion,
+  LlmMessageRequest,
+  LlmProvider,
+  LlmProviderName,
+} from '../llm-provider';
+
+// Keyword rules, in priority order; the first rule with a keyword found in the transcription wins
+const INDUSTRY_RULES: Array<[string, string[]]> = [
+  [
+    'financial services',
+    ['banco', 'bank', 'financ', 'seguro', 'insurance', 'crédito', 'credit'],
+  ],
+  [
+    'e-commerce',
+    ['tienda online', 'e-commerce', 'ecommerce', 'online store', 'marketplace'],
+  ],
+  [
+    'healthcare',
+    [
+      'clínica',
+      'clinica',
+      'clinic',
+      'hospital',
+      'salud',
+      'health',
+      'pacientes',
+      'patients',
+    ],
+  ],
+  [
+    'education',
+    [
+      'colegio',
+      'universidad',
+      'university',
+      'school',
+      'estudiantes',
+      'students',
+      'cursos',
+    ],
+  ],
+  [
+    'logistics',
+    [
+      'logística',
+      'logistica',
+      'logistics',
+      'envíos',
+      'envios',
+      'shipping',
+      'transporte',
+    ],
+  ],
+  ['tourism', ['hotel', 'turismo', 'tourism', 'viajes', 'travel', 'reservas']],
+  ['consulting', ['consultora', 'consultoría', 'consulting', 'asesoría']],
+  ['retail', ['tienda', 'store', 'retail', 'ventas al por menor']],
+];
+
+const DISCOVERY_RULES: Array<[string, string[]]> = [
+  ['conference', ['conferencia', 'conference', 'congreso', 'feria']],
+  ['event', ['evento', 'event', 'webinar', 'charla']],
+  [
+    'recommendation',
+    [
+      'recomend',
+      'recommend',
+      'referido',
+      'un colega',
+      'a colleague',
+      'un amigo',
+    ],
+  ],
+  ['Google search', ['google', 'búsqueda', 'search']],
+  ['LinkedIn', ['linkedin']],
+  ['article', ['artículo', 'articulo', 'article', 'blog', 'podcast']],
+];
+
+const MOTIVATION_RULES: Array<[string, string[]]> = [
+  ['automation', ['automatiz', 'automat']],
+  [
+    'scalability',
+    ['escalar', 'crecimiento', 'crecer', 'scale', 'growth', 'growing'],
+  ],
+  ['personalization', ['personaliz']],
+  ['integration', ['integra']],
+  ['cost reduction', ['costo', 'cost', 'ahorrar', 'save money']],
+];
+
+const PAIN_POINT_RULES: Array<[string, string[]]> = [
+  [
+    'high workload',
+    ['sobrecarga', 'carga de trabajo', 'saturad', 'overwhelmed', 'workload'],
+  ],
+  ['slow response times', ['lento', 'demora', 'tardamos', 'slow', 'delay']],
+  [
+    'repetitive queries',
+    ['repetitiv', 'mismas preguntas', 'same questions', 'repetitive'],
+  ],
+  ['peak season demand', ['temporada alta', 'peak season', 'picos']],
+];
+
+const REQUIREMENT_RULES: Array<[string, string[]]> = [
+  ['integration with CRM', ['crm', 'salesforce', 'hubspot']],
+  [
+    'multi-language support',
+    ['idiomas', 'inglés', 'multi-language', 'languages'],
+  ],
+  [
+    'data confidentiality',
+    ['confidencial', 'privacidad', 'confidential', 'privacy'],
+  ],
+  ['real-time updates', ['tiempo real', 'real-time', 'real time']],
+];
+
+const IMMEDIATE_KEYWORDS = [
+  'urgente',
+  'inmediat',
+  'lo antes posible',
+  'cuanto antes',
+  'urgent',
+  'asap',
+  'right away',
+];
+const EXPLORATORY_KEYWORDS = [
+  'explorando',
+  'solo mirando',
+  'conocer opciones',
+  'exploring',
+  'just looking',
+];
+const SKEPTICAL_KEYWORDS = [
+  'dud',
+  'no estoy seguro',
+  'no convencid',
+  'escéptic',
+  'not sure',
+  'skeptic',
+  'doubt',
+];
+
+/**
+ * Deterministic stand-in for a real model, for running the app and the e2e suite without an API key or network
+ * Categorization prompts (a prompt holding a """-quoted transcription and asking for JSON) are answered
+ * with keyword rules; other JSON prompts get an empty object and text prompts a fixed sentence, so the
+ * generators fall back to their defaults. The same prompt always gets the same answer.
+ */
+@Injectable()
+export class MockProvider extends LlmProvider {
+  readonly name = LlmProviderName.MOCK;
+  private readonly logger = new Logger(MockProvider.name);
+
+  constructor() {
+    super();
+    this.logger.warn(
+      'Using the offline mock LLM provider: categorizations and insights are rule-based',
+    );
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  complete(request: LlmMessageRequest): Promise<LlmCompletion> {
+    const transcription = request.prompt.match(/"""\n?([\s\S]*?)\n?"""/)?.[1];
+    let text: string;
+
+    if (request.responseFormat === 'json') {
+      text = JSON.stringify(
+        transcription !== undefined
+          ? this.categorize(transcription, request.prompt)
+          : {},
+      );
+    } else {
+      text = 'Insights are not available with the offline mock provider.';
+    }
+
+    return Promise.resolve({
+      text,
+      model: LLM_CONSTANTS.MOCK_MODEL,
+      usage: {
+        inputTokens: this.countTokens(request.prompt),
+        outputTokens: this.countTokens(text),
+      },
+    });
+  }
+
+  private categorize(
+    transcription: string,
+    prompt: string,
+  ): Record<string, unknown> {
+    const text = transcription.toLowerCase();
+    const interactionVolume = this.findInteractionVolume(text);
+
+    return {
+      industry: this.firstMatch(text, INDUSTRY_RULES) ?? 'technology',
+      operationSize:
+        interactionVolume < 100
+          ? 'small'
+          : interactionVolume <= 250
+            ? 'medium'
+            : 'large',
+      interactionVolume,
+      discoverySource: this.firstMatch(text, DISCOVERY_RULES) ?? 'Unknown',
+      mainMotivation: this.firstMatch(text, MOTIVATION_RULES) ?? 'efficiency',
+      urgencyLevel: this.includesAny(text, IMMEDIATE_KEYWORDS)
+        ? 'immediate'
+        : this.includesAny(text, EXPLORATORY_KEYWORDS)
+          ? 'exploratory'
+          : 'planned',
+      painPoints: this.allMatches(text, PAIN_POINT_RULES),
+      technicalRequirements: this.allMatches(text, REQUIREMENT_RULES),
+      sentiment: this.includesAny(text, SKEPTICAL_KEYWORDS)
+        ? 'skeptical'
+        : prompt.includes('CLOSED (Won)')
+          ? 'positive'
+          : 'neutral',
+    };
+  }
+
+  /**
+   * Largest number in the transcription, read as the weekly interactions; 50 when none is mentioned
+   */
+  private findInteractionVolume(text: string): number {
+    const numbers = (text.match(/\d+/g) ?? [])
+      .map(Number)
+      .filter((value) => value > 0 && value < 100000);
+    return numbers.length > 0 ? Math.max(...numbers) : 50;
+  }
+
+  private firstMatch(
+    text: string,
+    rules: Array<[string, string[]]>,
+  ): string | undefined {
+    return rules.find(([, keywords]) => this.includesAny(text, keywords))?.[0];
+  }
+
+  private allMatches(text: string, rules: Array<[string, string[]]>): string[] {
+    return rules
+      .filter(([, keywords]) => this.includesAny(text, keywords))
+      .map(([value]) => value);
+  }
+
+  private includesAny(text: string, keywords: string[]): boolean {
+    return keywords.some((keyword) => text.includes(keyword));
+  }
+
+  /**
+   * Rough count at about four characters per token
+   */
+  private countTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
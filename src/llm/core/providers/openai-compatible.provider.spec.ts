@@ -0,0 +1,96 @@
+import { ConfigService } from '@nestjs/config';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+import { LLM_CONSTANTS } from '../../../common/constants';
+
+describe('OpenAiCompatibleProvider', () => {
+  const fetchMock = jest.fn();
+  const originalFetch = global.fetch;
+
+  const buildProvider = (config: Record<string, string> = {}) =>
+    new OpenAiCompatibleProvider({
+      get: (key: string) => config[key],
+    } as unknown as ConfigService);
+
+  const respond = (status: number, body: unknown) =>
+    fetchMock.mockResolvedValueOnce({
+      ok: status < 400,
+      status,
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(JSON.stringify(body)),
+    });
+
+  beforeEach(() => {
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.clearAllMocks();
+  });
+
+  it('should post a chat completion to the default local server', async () => {
+    respond(200, {
+      model: 'llama3.1:8b',
+      choices: [{ message: { content: 'Response' } }],
+      usage: { prompt_tokens: 80, completion_tokens: 12 },
+    });
+
+    const result = await buildProvider().complete({
+      prompt: 'Test prompt',
+      maxTokens: 200,
+      model: 'claude-3-haiku-20240307',
+    });
+
+    expect(result).toEqual({
+      text: 'Response',
+      model: 'llama3.1:8b',
+      usage: { inputTokens: 80, outputTokens: 12 },
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      `${LLM_CONSTANTS.OPENAI_COMPATIBLE.DEFAULT_BASE_URL}/chat/completions`,
+    );
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json' });
+    expect(JSON.parse(init.body)).toEqual({
+      model: LLM_CONSTANTS.OPENAI_COMPATIBLE.DEFAULT_MODEL,
+      max_tokens: 200,
+      messages: [{ role: 'user', content: 'Test prompt' }],
+    });
+  });
+
+  it('should use the configured server, model and key, and ask for JSON objects', async () => {
+    respond(200, { choices: [{ message: { content: '{}' } }] });
+
+    const result = await buildProvider({
+      LLM_BASE_URL: 'http://llm.internal:8080/v1/',
+      LLM_MODEL: 'qwen2.5',
+      LLM_API_KEY: 'secret',
+    }).complete({ prompt: 'Test prompt', responseFormat: 'json' });
+
+    expect(result).toEqual({
+      text: '{}',
+      model: 'qwen2.5',
+      usage: { inputTokens: 0, outputTokens: 0 },
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://llm.internal:8080/v1/chat/completions');
+    expect(init.headers).toEqual({
+      'Content-Type': 'application/json',
+      Authorization: 'Bearer secret',
+    });
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'qwen2.5',
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('should throw when the server answers with an error', async () => {
+    respond(500, { error: 'model not loaded' });
+
+    await expect(
+      buildProvider().sendMessage({ prompt: 'Test prompt' }),
+    ).rejects.toThrow(
+      'LLM server responded with 500: {"error":"model not loaded"}',
+    );
+  });
+});
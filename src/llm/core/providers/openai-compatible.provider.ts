@@ -0,0 +1,92 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LLM_CONSTANTS } from '../../../common/constants';
+import {
+  LlmCompletion,
+  LlmMessageRequest,
+  LlmProvider,
+  LlmProviderName,
+} from '../llm-provider';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API, such as llama.cpp, Ollama or vLLM
+ * Configured with LLM_BASE_URL (including the /v1 prefix), LLM_MODEL and, for hosted services, LLM_API_KEY.
+ */
+@Injectable()
+export class OpenAiCompatibleProvider extends LlmProvider {
+  readonly name = LlmProviderName.OPENAI;
+  private readonly logger = new Logger(OpenAiCompatibleProvider.name);
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private readonly apiKey?: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.baseUrl = (
+      configService.get<string>('LLM_BASE_URL') ||
+      LLM_CONSTANTS.OPENAI_COMPATIBLE.DEFAULT_BASE_URL
+    ).replace(/\/+$/, '');
+    this.model =
+      configService.get<string>('LLM_MODEL') ||
+      LLM_CONSTANTS.OPENAI_COMPATIBLE.DEFAULT_MODEL;
+    this.apiKey = configService.get<string>('LLM_API_KEY') || undefined;
+    this.logger.log(
+      `OpenAI-compatible provider using ${this.model} at ${this.baseUrl}`,
+    );
+  }
+
+  /**
+   * Local servers need no key, so the provider is always considered configured; an unreachable
+   * server surfaces as a failed request
+   */
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LlmMessageRequest): Promise<LlmCompletion> {
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          // Models named in requests are Anthropic models; the configured local model answers instead
+          model: this.model,
+          max_tokens: request.maxTokens || LLM_CONSTANTS.MAX_TOKENS.DEFAULT,
+          messages: [{ role: 'user', content: request.prompt }],
+          ...(request.responseFormat === 'json'
+            ? { response_format: { type: 'json_object' } }
+            : {}),
+        }),
+        signal: AbortSignal.timeout(LLM_CONSTANTS.OPENAI_COMPATIBLE.TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `LLM server responded with ${response.status}: ${await response.text()}`,
+        );
+      }
+
+      const body = (await response.json()) as ChatCompletionResponse;
+      return {
+        text: body.choices?.[0]?.message?.content ?? '',
+        model: body.model ?? this.model,
+        usage: {
+          inputTokens: body.usage?.prompt_tokens ?? 0,
+          outputTokens: body.usage?.completion_tokens ?? 0,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Error sending message to ${this.baseUrl}:`, error);
+      throw error;
+    }
+  }
+}
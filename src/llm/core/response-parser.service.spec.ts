@@ -1,5 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ResponseParserService } from './response-parser.service';
+import { CategorizationResultDto } from '../../common/dto/llm';
 
 describe('ResponseParserService', () => {
   let service: ResponseParserService;
@@ -19,7 +20,8 @@ describe('ResponseParserService', () => {
   describe('parseJsonResponse', () => {
     it('should parse valid JSON response', () => {
       // Arrange
-      const response = 'Some text before {"key": "value", "number": 123} some text after';
+      const response =
+        'Some text before {"key": "value", "number": 123} some text after';
       const fallback = { key: 'fallback', number: 0 };
 
       // Act
@@ -55,7 +57,8 @@ describe('ResponseParserService', () => {
 
     it('should parse nested JSON objects', () => {
       // Arrange
-      const response = 'Response: {"nested": {"key": "value", "items": [1, 2, 3]}}';
+      const response =
+        'Response: {"nested": {"key": "value", "items": [1, 2, 3]}}';
       const fallback = { nested: {} };
 
       // Act
@@ -98,6 +101,66 @@ describe('ResponseParserService', () => {
     });
   });
 
+  describe('parseValidatedJson', () => {
+    const valid = {
+      industry: 'Retail',
+      operationSize: 'Medium',
+      interactionVolume: '150',
+      discoverySource: 'LinkedIn',
+      mainMotivation: 'automation',
+      urgencyLevel: 'planned',
+      painPoints: ['slow replies'],
+      technicalRequirements: [],
+      sentiment: ' Positive',
+    };
+
+    it('should return the validated object, normalizing case and numeric strings and dropping unknown keys', () => {
+      const result = service.parseValidatedJson(
+        `Here it is: ${JSON.stringify({ ...valid, notes: 'extra' })}`,
+        CategorizationResultDto,
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.value).toBeInstanceOf(CategorizationResultDto);
+      expect(result.value).toEqual({
+        ...valid,
+        operationSize: 'medium',
+        interactionVolume: 150,
+        sentiment: 'positive',
+      });
+    });
+
+    it('should report every violated rule', () => {
+      const result = service.parseValidatedJson(
+        JSON.stringify({
+          ...valid,
+          industry: '',
+          operationSize: 'huge',
+          painPoints: 'slow replies',
+        }),
+        CategorizationResultDto,
+      );
+
+      expect(result.value).toBeNull();
+      expect(result.errors).toEqual([
+        'industry should not be empty',
+        'operationSize must be one of the following values: small, medium, large',
+        'painPoints must be an array',
+      ]);
+    });
+
+    it('should reject responses without a parsable JSON object', () => {
+      expect(
+        service.parseValidatedJson('No JSON here', CategorizationResultDto)
+          .errors,
+      ).toEqual(['The response does not contain a JSON object']);
+      expect(
+        service.parseValidatedJson('{"industry": }', CategorizationResultDto)
+          .errors[0],
+      ).toMatch(/^The response is not valid JSON: /);
+    });
+  });
+
   describe('parseArrayResponse', () => {
     it('should parse valid JSON array', () => {
       // Arrange
@@ -304,4 +367,3 @@ describe('ResponseParserService', () => {
     });
   });
 });
-
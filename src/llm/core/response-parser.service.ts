@@ -1,4 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+
+export interface ValidatedJson<T> {
+  value: T | null; // Null when the response has no valid object
+  errors: string[]; // Why the response was rejected, worded for the model to fix it
+}
 
 @Injectable()
 export class ResponseParserService {
@@ -20,17 +27,53 @@ export class ResponseParserService {
     }
   }
 
+  /**
+   * Parse the first JSON object of a response and validate it against a class-validator DTO
+   * Unlike parseJsonResponse there is no silent fallback: the errors say why the response was rejected.
+   * Properties the DTO does not declare are dropped.
+   */
+  parseValidatedJson<T extends object>(
+    response: string,
+    type: ClassConstructor<T>,
+  ): ValidatedJson<T> {
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      return {
+        value: null,
+        errors: ['The response does not contain a JSON object'],
+      };
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(jsonMatch[0]);
+    } catch (error) {
+      return {
+        value: null,
+        errors: [`The response is not valid JSON: ${(error as Error).message}`],
+      };
+    }
+
+    const value = plainToInstance(type, parsed);
+    const errors = validateSync(value, { whitelist: true }).flatMap((error) =>
+      Object.values(error.constraints ?? {}),
+    );
+
+    return errors.length > 0 ? { value: null, errors } : { value, errors: [] };
+  }
+
   parseArrayResponse<T>(response: string, fallback: T[]): T[] {
     try {
       const jsonMatch = response.match(/\[[\s\S]*\]/);
       if (!jsonMatch) {
-        const lines = response.split('\n').filter(line => 
-          line.trim().startsWith('-') || line.trim().startsWith('•')
-        );
-        if (lines.length > 0) {
-          return lines.map(line => 
-            line.replace(/^[-•]\s*/, '').trim() as T
+        const lines = response
+          .split('\n')
+          .filter(
+            (line) =>
+              line.trim().startsWith('-') || line.trim().startsWith('•'),
           );
+        if (lines.length > 0) {
+          return lines.map((line) => line.replace(/^[-•]\s*/, '').trim() as T);
         }
         this.logger.warn('No array found in response, using fallback');
         return fallback;
@@ -57,4 +100,3 @@ export class ResponseParserService {
     }
   }
 }
-
@@ -1,16 +1,20 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AnalyticsInsightsGeneratorService } from './analytics-insights-generator.service';
-import { AnthropicClientService } from '../core/anthropic-client.service';
+import { LlmProvider } from '../core/llm-provider';
 import { ResponseParserService } from '../core/response-parser.service';
+import { PromptRegistryService } from '../core/prompt-registry.service';
+import { DEFAULT_PROMPTS } from '../prompts/default-prompts';
+import { PromptRequest } from '../prompts/prompt.types';
+import { PromptTemplateUtil } from '../utils/prompt-template.util';
 import { TimelineInsightDto } from '../../common/dto/analytics';
 import { LLM_CONSTANTS } from '../../common/constants';
 
 describe('AnalyticsInsightsGeneratorService', () => {
   let service: AnalyticsInsightsGeneratorService;
-  let anthropicClient: jest.Mocked<AnthropicClientService>;
+  let llmProvider: jest.Mocked<LlmProvider>;
   let responseParser: jest.Mocked<ResponseParserService>;
 
-  const mockAnthropicClient = {
+  const mockLlmProvider = {
     isConfigured: jest.fn(),
     sendMessage: jest.fn(),
   };
@@ -19,13 +23,30 @@ describe('AnalyticsInsightsGeneratorService', () => {
     parseJsonResponse: jest.fn(),
   };
 
+  // Renders the built-in templates, as the registry does before any version is added
+  const mockPromptRegistry = {
+    render: jest.fn(({ promptId, variables }: PromptRequest) =>
+      Promise.resolve({
+        text: PromptTemplateUtil.render(
+          DEFAULT_PROMPTS.find((prompt) => prompt.id === promptId)!.template,
+          variables,
+        ),
+        version: `${promptId}@1`,
+      }),
+    ),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AnalyticsInsightsGeneratorService,
         {
-          provide: AnthropicClientService,
-          useValue: mockAnthropicClient,
+          provide: LlmProvider,
+          useValue: mockLlmProvider,
+        },
+        {
+          provide: PromptRegistryService,
+          useValue: mockPromptRegistry,
         },
         {
           provide: ResponseParserService,
@@ -37,7 +58,7 @@ describe('AnalyticsInsightsGeneratorService', () => {
     service = module.get<AnalyticsInsightsGeneratorService>(
       AnalyticsInsightsGeneratorService,
     );
-    anthropicClient = module.get(AnthropicClientService);
+    llmProvider = module.get(LlmProvider);
     responseParser = module.get(ResponseParserService);
   });
 
@@ -61,7 +82,7 @@ describe('AnalyticsInsightsGeneratorService', () => {
 
     it('should return fallback insight when API is not configured', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
       const result = await service.generatePainPointsInsight(mockPainPoints);
@@ -70,14 +91,15 @@ describe('AnalyticsInsightsGeneratorService', () => {
       expect(result).toEqual({
         insight: 'AI insights unavailable - API not configured',
       });
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should generate insight successfully when API is configured', async () => {
       // Arrange
-      const mockResponse = 'High workload is the most significant pain point affecting conversion rates.';
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      const mockResponse =
+        'High workload is the most significant pain point affecting conversion rates.';
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
 
       // Act
       const result = await service.generatePainPointsInsight(mockPainPoints);
@@ -86,7 +108,7 @@ describe('AnalyticsInsightsGeneratorService', () => {
       expect(result).toEqual({
         insight: mockResponse.trim(),
       });
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(mockLlmProvider.sendMessage).toHaveBeenCalledWith({
         prompt: expect.any(String),
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.STANDARD,
       });
@@ -94,22 +116,24 @@ describe('AnalyticsInsightsGeneratorService', () => {
 
     it('should return fallback insight when API call fails', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.sendMessage.mockRejectedValue(new Error('API Error'));
 
       // Act
       const result = await service.generatePainPointsInsight(mockPainPoints);
 
       // Assert
       expect(result).toEqual({
-        insight: expect.stringContaining('Unable to generate insight at this time'),
+        insight: expect.stringContaining(
+          'Unable to generate insight at this time',
+        ),
       });
     });
 
     it('should return default insight when response is empty', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue('   ');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.sendMessage.mockResolvedValue('   ');
 
       // Act
       const result = await service.generatePainPointsInsight(mockPainPoints);
@@ -137,10 +161,11 @@ describe('AnalyticsInsightsGeneratorService', () => {
 
     it('should return fallback insight when API is not configured', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
-      const result = await service.generateVolumeVsConversionInsight(mockVolumeData);
+      const result =
+        await service.generateVolumeVsConversionInsight(mockVolumeData);
 
       // Assert
       expect(result).toEqual({
@@ -157,16 +182,18 @@ describe('AnalyticsInsightsGeneratorService', () => {
           conversionRate: 0,
         },
       ];
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
-      const result = await service.generateVolumeVsConversionInsight(invalidData);
+      const result =
+        await service.generateVolumeVsConversionInsight(invalidData);
 
       // Assert
       expect(result).toEqual({
-        insight: 'Insufficient data to analyze volume vs conversion relationship.',
+        insight:
+          'Insufficient data to analyze volume vs conversion relationship.',
       });
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should filter out invalid data before processing', async () => {
@@ -183,16 +210,17 @@ describe('AnalyticsInsightsGeneratorService', () => {
           conversionRate: 60.0,
         },
       ];
-      const mockResponse = 'Higher interaction volumes correlate with better conversion rates.';
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      const mockResponse =
+        'Higher interaction volumes correlate with better conversion rates.';
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
 
       // Act
       const result = await service.generateVolumeVsConversionInsight(mixedData);
 
       // Assert
       expect(result.insight).toBe(mockResponse.trim());
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(mockLlmProvider.sendMessage).toHaveBeenCalledWith({
         prompt: expect.any(String),
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.STANDARD,
       });
@@ -200,15 +228,18 @@ describe('AnalyticsInsightsGeneratorService', () => {
 
     it('should return fallback insight when API call fails', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.sendMessage.mockRejectedValue(new Error('API Error'));
 
       // Act
-      const result = await service.generateVolumeVsConversionInsight(mockVolumeData);
+      const result =
+        await service.generateVolumeVsConversionInsight(mockVolumeData);
 
       // Assert
       expect(result).toEqual({
-        insight: expect.stringContaining('Unable to generate insight at this time'),
+        insight: expect.stringContaining(
+          'Unable to generate insight at this time',
+        ),
       });
     });
   });
@@ -233,7 +264,7 @@ describe('AnalyticsInsightsGeneratorService', () => {
 
     it('should return fallback insight when API is not configured', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
       const result = await service.generateTimelineInsight(mockTimelineData);
@@ -248,7 +279,7 @@ describe('AnalyticsInsightsGeneratorService', () => {
 
     it('should return fallback when timeline data is empty', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
       const result = await service.generateTimelineInsight([]);
@@ -259,12 +290,12 @@ describe('AnalyticsInsightsGeneratorService', () => {
         reasons: [],
         recommendations: [],
       });
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should return fallback when timeline data is null', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
       const result = await service.generateTimelineInsight(null as any);
@@ -291,8 +322,8 @@ describe('AnalyticsInsightsGeneratorService', () => {
         recommendations: ['Continue current strategy'],
       };
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
       mockResponseParser.parseJsonResponse.mockReturnValue(parsedResponse);
 
       // Act
@@ -300,9 +331,10 @@ describe('AnalyticsInsightsGeneratorService', () => {
 
       // Assert
       expect(result).toEqual(parsedResponse);
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(mockLlmProvider.sendMessage).toHaveBeenCalledWith({
         prompt: expect.any(String),
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.TIMELINE,
+        responseFormat: 'json',
       });
       expect(mockResponseParser.parseJsonResponse).toHaveBeenCalledWith(
         mockResponse,
@@ -324,9 +356,11 @@ describe('AnalyticsInsightsGeneratorService', () => {
         recommendations: ['Recommendation 1'],
       };
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
-      mockResponseParser.parseJsonResponse.mockReturnValue(parsedResponse as any);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
+      mockResponseParser.parseJsonResponse.mockReturnValue(
+        parsedResponse as any,
+      );
 
       // Act
       const result = await service.generateTimelineInsight(mockTimelineData);
@@ -350,9 +384,11 @@ describe('AnalyticsInsightsGeneratorService', () => {
         recommendations: ['Recommendation 1'],
       };
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
-      mockResponseParser.parseJsonResponse.mockReturnValue(parsedResponse as any);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
+      mockResponseParser.parseJsonResponse.mockReturnValue(
+        parsedResponse as any,
+      );
 
       // Act
       const result = await service.generateTimelineInsight(mockTimelineData);
@@ -364,8 +400,8 @@ describe('AnalyticsInsightsGeneratorService', () => {
 
     it('should return fallback when API call fails', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.sendMessage.mockRejectedValue(new Error('API Error'));
 
       // Act
       const result = await service.generateTimelineInsight(mockTimelineData);
@@ -382,13 +418,15 @@ describe('AnalyticsInsightsGeneratorService', () => {
       // Arrange
       const mockResponse = 'Invalid JSON response';
       const fallback: TimelineInsightDto = {
-        keyFindings: ['Timeline analysis indicates stable performance with ongoing monitoring recommended.'],
+        keyFindings: [
+          'Timeline analysis indicates stable performance with ongoing monitoring recommended.',
+        ],
         reasons: ['Further analysis needed to identify specific reasons.'],
         recommendations: ['Continue monitoring recent trends and patterns.'],
       };
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
       mockResponseParser.parseJsonResponse.mockReturnValue(fallback);
 
       // Act
@@ -399,4 +437,3 @@ describe('AnalyticsInsightsGeneratorService', () => {
     });
   });
 });
-
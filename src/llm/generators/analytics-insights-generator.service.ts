@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { AnthropicClientService } from '../core/anthropic-client.service';
+import { LlmProvider } from '../core/llm-provider';
 import { ResponseParserService } from '../core/response-parser.service';
+import { PromptRegistryService } from '../core/prompt-registry.service';
 import { AnalyticsPromptBuilder } from '../prompts/analytics-prompt.builder';
 import { TimelineInsightDto } from '../../common/dto/analytics';
 import { LLM_CONSTANTS } from '../../common/constants';
@@ -10,8 +11,9 @@ export class AnalyticsInsightsGeneratorService {
   private readonly logger = new Logger(AnalyticsInsightsGeneratorService.name);
 
   constructor(
-    private readonly anthropicClient: AnthropicClientService,
+    private readonly llmProvider: LlmProvider,
     private readonly responseParser: ResponseParserService,
+    private readonly promptRegistry: PromptRegistryService,
   ) {}
 
   async generatePainPointsInsight(
@@ -19,28 +21,35 @@ export class AnalyticsInsightsGeneratorService {
       painPoint: string;
       count: number;
       conversionRate: number;
-    }>
+    }>,
   ): Promise<{ insight: string }> {
-    if (!this.anthropicClient.isConfigured()) {
+    if (!this.llmProvider.isConfigured()) {
       return { insight: 'AI insights unavailable - API not configured' };
     }
 
     try {
-      const prompt = AnalyticsPromptBuilder.buildPainPointsInsight(painPoints);
-      const responseText = await this.anthropicClient.sendMessage({
+      const { text: prompt } = await this.promptRegistry.render(
+        AnalyticsPromptBuilder.buildPainPointsInsight(painPoints),
+      );
+      const responseText = await this.llmProvider.sendMessage({
         prompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.STANDARD,
       });
 
-      this.logger.log(`Pain Points Insight generated: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.BRIEF)}`);
+      this.logger.log(
+        `Pain Points Insight generated: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.BRIEF)}`,
+      );
 
       return {
-        insight: responseText.trim() || 'The analysis reveals common client challenges that impact deal conversion rates.',
+        insight:
+          responseText.trim() ||
+          'The analysis reveals common client challenges that impact deal conversion rates.',
       };
     } catch (error) {
       this.logger.error('Error generating pain points insight:', error);
       return {
-        insight: 'Unable to generate insight at this time. The top pain points indicate areas where clients face significant challenges.',
+        insight:
+          'Unable to generate insight at this time. The top pain points indicate areas where clients face significant challenges.',
       };
     }
   }
@@ -50,34 +59,47 @@ export class AnalyticsInsightsGeneratorService {
       volumeRange: string;
       count: number;
       conversionRate: number;
-    }>
+    }>,
   ): Promise<{ insight: string }> {
-    if (!this.anthropicClient.isConfigured()) {
+    if (!this.llmProvider.isConfigured()) {
       return { insight: 'AI insights unavailable - API not configured' };
     }
 
     try {
-      const validData = volumeData.filter(v => v.count > 0);
-      
+      const validData = volumeData.filter((v) => v.count > 0);
+
       if (validData.length === 0) {
-        return { insight: 'Insufficient data to analyze volume vs conversion relationship.' };
+        return {
+          insight:
+            'Insufficient data to analyze volume vs conversion relationship.',
+        };
       }
 
-      const prompt = AnalyticsPromptBuilder.buildVolumeVsConversionInsight(validData);
-      const responseText = await this.anthropicClient.sendMessage({
+      const { text: prompt } = await this.promptRegistry.render(
+        AnalyticsPromptBuilder.buildVolumeVsConversionInsight(validData),
+      );
+      const responseText = await this.llmProvider.sendMessage({
         prompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.STANDARD,
       });
 
-      this.logger.log(`Volume vs Conversion Insight generated: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.BRIEF)}`);
+      this.logger.log(
+        `Volume vs Conversion Insight generated: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.BRIEF)}`,
+      );
 
       return {
-        insight: responseText.trim() || 'The analysis shows a correlation between interaction volume and conversion rates, indicating optimal engagement levels for closing deals.',
+        insight:
+          responseText.trim() ||
+          'The analysis shows a correlation between interaction volume and conversion rates, indicating optimal engagement levels for closing deals.',
       };
     } catch (error) {
-      this.logger.error('Error generating volume vs conversion insight:', error);
+      this.logger.error(
+        'Error generating volume vs conversion insight:',
+        error,
+      );
       return {
-        insight: 'Unable to generate insight at this time. The data shows a relationship between interaction volume and conversion rates.',
+        insight:
+          'Unable to generate insight at this time. The data shows a relationship between interaction volume and conversion rates.',
       };
     }
   }
@@ -89,10 +111,14 @@ export class AnalyticsInsightsGeneratorService {
       totalClosed: number;
       conversionRate: number;
       avgSentiment?: string;
-      topIndustries?: Array<{ industry: string; count: number; sentiment: string }>;
-    }>
+      topIndustries?: Array<{
+        industry: string;
+        count: number;
+        sentiment: string;
+      }>;
+    }>,
   ): Promise<TimelineInsightDto> {
-    if (!this.anthropicClient.isConfigured()) {
+    if (!this.llmProvider.isConfigured()) {
       return {
         keyFindings: ['AI insights unavailable - API not configured'],
         reasons: [],
@@ -109,29 +135,44 @@ export class AnalyticsInsightsGeneratorService {
     }
 
     try {
-      const prompt = AnalyticsPromptBuilder.buildTimelineInsight(timelineData);
-      const responseText = await this.anthropicClient.sendMessage({
+      const { text: prompt } = await this.promptRegistry.render(
+        AnalyticsPromptBuilder.buildTimelineInsight(timelineData),
+      );
+      const responseText = await this.llmProvider.sendMessage({
         prompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.TIMELINE,
+        responseFormat: 'json',
       });
 
       const fallback: TimelineInsightDto = {
-        keyFindings: ['Timeline analysis indicates stable performance with ongoing monitoring recommended.'],
+        keyFindings: [
+          'Timeline analysis indicates stable performance with ongoing monitoring recommended.',
+        ],
         reasons: ['Further analysis needed to identify specific reasons.'],
         recommendations: ['Continue monitoring recent trends and patterns.'],
       };
 
       const parsed = this.responseParser.parseJsonResponse<TimelineInsightDto>(
         responseText,
-        fallback
+        fallback,
       );
 
       this.logger.log('Timeline Insight generated successfully');
 
       return {
-        keyFindings: Array.isArray(parsed.keyFindings) ? parsed.keyFindings : [parsed.keyFindings || fallback.keyFindings[0]],
-        reasons: Array.isArray(parsed.reasons) ? parsed.reasons : parsed.reasons ? [parsed.reasons] : fallback.reasons,
-        recommendations: Array.isArray(parsed.recommendations) ? parsed.recommendations : parsed.recommendations ? [parsed.recommendations] : fallback.recommendations,
+        keyFindings: Array.isArray(parsed.keyFindings)
+          ? parsed.keyFindings
+          : [parsed.keyFindings || fallback.keyFindings[0]],
+        reasons: Array.isArray(parsed.reasons)
+          ? parsed.reasons
+          : parsed.reasons
+            ? [parsed.reasons]
+            : fallback.reasons,
+        recommendations: Array.isArray(parsed.recommendations)
+          ? parsed.recommendations
+          : parsed.recommendations
+            ? [parsed.recommendations]
+            : fallback.recommendations,
       };
     } catch (error) {
       this.logger.error('Error generating timeline insight:', error);
@@ -143,4 +184,3 @@ export class AnalyticsInsightsGeneratorService {
     }
   }
 }
-
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ClientInsightsGeneratorService } from './client-insights-generator.service';
-import { AnthropicClientService } from '../core/anthropic-client.service';
+import { LlmProvider } from '../core/llm-provider';
+import { PromptRegistryService } from '../core/prompt-registry.service';
 import { ResponseParserService } from '../core/response-parser.service';
 import { ClientPromptBuilder } from '../prompts/client-prompt.builder';
 import { ClientPerceptionInsightDto } from '../../common/dto/analytics';
@@ -8,6 +9,7 @@ import { LLM_CONSTANTS } from '../../common/constants';
 
 // Mock the prompt builder
 jest.mock('../prompts/client-prompt.builder', () => ({
+  ...jest.requireActual('../prompts/client-prompt.builder'),
   ClientPromptBuilder: {
     buildPerceptionInsight: jest.fn(),
     buildSolutionsInsight: jest.fn(),
@@ -16,14 +18,21 @@ jest.mock('../prompts/client-prompt.builder', () => ({
 
 describe('ClientInsightsGeneratorService', () => {
   let service: ClientInsightsGeneratorService;
-  let anthropicClient: jest.Mocked<AnthropicClientService>;
+  let llmProvider: jest.Mocked<LlmProvider>;
   let responseParser: jest.Mocked<ResponseParserService>;
 
-  const mockAnthropicClient = {
+  const mockLlmProvider = {
     isConfigured: jest.fn(),
     sendMessage: jest.fn(),
   };
 
+  // The mocked builders return the prompt text itself, which is passed through as rendered
+  const mockPromptRegistry = {
+    render: jest.fn((request: unknown) =>
+      Promise.resolve({ text: request, version: 'prompt@1' }),
+    ),
+  };
+
   const mockResponseParser = {
     parseJsonResponse: jest.fn(),
     parseArrayResponse: jest.fn(),
@@ -35,8 +44,12 @@ describe('ClientInsightsGeneratorService', () => {
       providers: [
         ClientInsightsGeneratorService,
         {
-          provide: AnthropicClientService,
-          useValue: mockAnthropicClient,
+          provide: LlmProvider,
+          useValue: mockLlmProvider,
+        },
+        {
+          provide: PromptRegistryService,
+          useValue: mockPromptRegistry,
         },
         {
           provide: ResponseParserService,
@@ -45,8 +58,10 @@ describe('ClientInsightsGeneratorService', () => {
       ],
     }).compile();
 
-    service = module.get<ClientInsightsGeneratorService>(ClientInsightsGeneratorService);
-    anthropicClient = module.get(AnthropicClientService);
+    service = module.get<ClientInsightsGeneratorService>(
+      ClientInsightsGeneratorService,
+    );
+    llmProvider = module.get(LlmProvider);
     responseParser = module.get(ResponseParserService);
   });
 
@@ -57,7 +72,7 @@ describe('ClientInsightsGeneratorService', () => {
   describe('generateClientPerceptionInsight', () => {
     it('should return fallback when API is not configured', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
       const result = await service.generateClientPerceptionInsight([
@@ -69,36 +84,48 @@ describe('ClientInsightsGeneratorService', () => {
       ]);
 
       // Assert
-      expect(result.positiveAspects).toBe('AI insights unavailable - API not configured');
-      expect(result.concerns).toBe('AI insights unavailable - API not configured');
-      expect(result.successFactors).toBe('AI insights unavailable - API not configured');
-      expect(result.recommendations).toBe('AI insights unavailable - API not configured');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result.positiveAspects).toBe(
+        'AI insights unavailable - API not configured',
+      );
+      expect(result.concerns).toBe(
+        'AI insights unavailable - API not configured',
+      );
+      expect(result.successFactors).toBe(
+        'AI insights unavailable - API not configured',
+      );
+      expect(result.recommendations).toBe(
+        'AI insights unavailable - API not configured',
+      );
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should return fallback when transcriptions array is empty', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
       const result = await service.generateClientPerceptionInsight([]);
 
       // Assert
-      expect(result.positiveAspects).toBe('Insufficient data to analyze positive aspects.');
+      expect(result.positiveAspects).toBe(
+        'Insufficient data to analyze positive aspects.',
+      );
       expect(result.concerns).toBe('Insufficient data to analyze concerns.');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should return fallback when transcriptions is null', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
       const result = await service.generateClientPerceptionInsight(null as any);
 
       // Assert
-      expect(result.positiveAspects).toBe('Insufficient data to analyze positive aspects.');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result.positiveAspects).toBe(
+        'Insufficient data to analyze positive aspects.',
+      );
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should generate insight successfully with valid data', async () => {
@@ -117,7 +144,8 @@ describe('ClientInsightsGeneratorService', () => {
       ];
 
       const mockPrompt = 'Analyze client perceptions...';
-      const mockResponse = '{"positiveAspects":"Clients appreciate automation","concerns":"Feature requests","successFactors":"Positive sentiment correlates","recommendations":"Focus on automation"}';
+      const mockResponse =
+        '{"positiveAspects":"Clients appreciate automation","concerns":"Feature requests","successFactors":"Positive sentiment correlates","recommendations":"Focus on automation"}';
 
       const mockParsed: ClientPerceptionInsightDto = {
         positiveAspects: 'Clients appreciate automation',
@@ -126,20 +154,26 @@ describe('ClientInsightsGeneratorService', () => {
         recommendations: 'Focus on automation',
       };
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (ClientPromptBuilder.buildPerceptionInsight as jest.Mock).mockReturnValue(mockPrompt);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (ClientPromptBuilder.buildPerceptionInsight as jest.Mock).mockReturnValue(
+        mockPrompt,
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
       mockResponseParser.parseJsonResponse.mockReturnValue(mockParsed);
 
       // Act
-      const result = await service.generateClientPerceptionInsight(transcriptions);
+      const result =
+        await service.generateClientPerceptionInsight(transcriptions);
 
       // Assert
       expect(result).toEqual(mockParsed);
-      expect(ClientPromptBuilder.buildPerceptionInsight).toHaveBeenCalledWith(transcriptions);
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(ClientPromptBuilder.buildPerceptionInsight).toHaveBeenCalledWith(
+        transcriptions,
+      );
+      expect(mockLlmProvider.sendMessage).toHaveBeenCalledWith({
         prompt: mockPrompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.CLIENT_PERCEPTION,
+        responseFormat: 'json',
       });
       expect(mockResponseParser.parseJsonResponse).toHaveBeenCalledWith(
         mockResponse,
@@ -157,7 +191,8 @@ describe('ClientInsightsGeneratorService', () => {
         },
       ];
 
-      const mockResponse = '{"positiveAspects":"","concerns":"","successFactors":"","recommendations":""}';
+      const mockResponse =
+        '{"positiveAspects":"","concerns":"","successFactors":"","recommendations":""}';
       const mockParsed: Partial<ClientPerceptionInsightDto> = {
         positiveAspects: '',
         concerns: '',
@@ -165,16 +200,21 @@ describe('ClientInsightsGeneratorService', () => {
         recommendations: '',
       };
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (ClientPromptBuilder.buildPerceptionInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (ClientPromptBuilder.buildPerceptionInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
       mockResponseParser.parseJsonResponse.mockReturnValue(mockParsed);
 
       // Act
-      const result = await service.generateClientPerceptionInsight(transcriptions);
+      const result =
+        await service.generateClientPerceptionInsight(transcriptions);
 
       // Assert
-      expect(result.positiveAspects).toBe('Analysis of client transcripts reveals diverse perceptions of Vambe.');
+      expect(result.positiveAspects).toBe(
+        'Analysis of client transcripts reveals diverse perceptions of Vambe.',
+      );
       expect(result.concerns).toBe('No significant concerns identified.');
     });
 
@@ -188,15 +228,20 @@ describe('ClientInsightsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (ClientPromptBuilder.buildPerceptionInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (ClientPromptBuilder.buildPerceptionInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockRejectedValue(new Error('API Error'));
 
       // Act
-      const result = await service.generateClientPerceptionInsight(transcriptions);
+      const result =
+        await service.generateClientPerceptionInsight(transcriptions);
 
       // Assert
-      expect(result.positiveAspects).toBe('Unable to generate analysis at this time.');
+      expect(result.positiveAspects).toBe(
+        'Unable to generate analysis at this time.',
+      );
       expect(result.concerns).toBe('Unable to generate analysis at this time.');
     });
   });
@@ -204,7 +249,7 @@ describe('ClientInsightsGeneratorService', () => {
   describe('generateClientSolutionsInsight', () => {
     it('should return fallback when API is not configured', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
       const result = await service.generateClientSolutionsInsight([
@@ -215,20 +260,24 @@ describe('ClientInsightsGeneratorService', () => {
       ]);
 
       // Assert
-      expect(result.insight).toBe('AI insights unavailable - API not configured');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result.insight).toBe(
+        'AI insights unavailable - API not configured',
+      );
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should return fallback when transcriptions array is empty', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
       const result = await service.generateClientSolutionsInsight([]);
 
       // Assert
-      expect(result.insight).toBe('Insufficient data to analyze client solutions.');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result.insight).toBe(
+        'Insufficient data to analyze client solutions.',
+      );
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should generate insight successfully', async () => {
@@ -243,19 +292,25 @@ describe('ClientInsightsGeneratorService', () => {
       ];
 
       const mockPrompt = 'Analyze client solutions...';
-      const mockResponse = 'Clients are seeking automation and efficiency improvements.';
+      const mockResponse =
+        'Clients are seeking automation and efficiency improvements.';
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (ClientPromptBuilder.buildSolutionsInsight as jest.Mock).mockReturnValue(mockPrompt);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (ClientPromptBuilder.buildSolutionsInsight as jest.Mock).mockReturnValue(
+        mockPrompt,
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
 
       // Act
-      const result = await service.generateClientSolutionsInsight(transcriptions);
+      const result =
+        await service.generateClientSolutionsInsight(transcriptions);
 
       // Assert
       expect(result.insight).toBe(mockResponse);
-      expect(ClientPromptBuilder.buildSolutionsInsight).toHaveBeenCalledWith(transcriptions);
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(ClientPromptBuilder.buildSolutionsInsight).toHaveBeenCalledWith(
+        transcriptions,
+      );
+      expect(mockLlmProvider.sendMessage).toHaveBeenCalledWith({
         prompt: mockPrompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.MEDIUM,
       });
@@ -270,12 +325,15 @@ describe('ClientInsightsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (ClientPromptBuilder.buildSolutionsInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('   ');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (ClientPromptBuilder.buildSolutionsInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue('   ');
 
       // Act
-      const result = await service.generateClientSolutionsInsight(transcriptions);
+      const result =
+        await service.generateClientSolutionsInsight(transcriptions);
 
       // Assert
       expect(result.insight).toContain('automation');
@@ -290,16 +348,20 @@ describe('ClientInsightsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (ClientPromptBuilder.buildSolutionsInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (ClientPromptBuilder.buildSolutionsInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockRejectedValue(new Error('API Error'));
 
       // Act
-      const result = await service.generateClientSolutionsInsight(transcriptions);
+      const result =
+        await service.generateClientSolutionsInsight(transcriptions);
 
       // Assert
-      expect(result.insight).toBe('Unable to generate insight at this time. Clients are seeking solutions to improve their operations and customer experience.');
+      expect(result.insight).toBe(
+        'Unable to generate insight at this time. Clients are seeking solutions to improve their operations and customer experience.',
+      );
     });
   });
 });
-
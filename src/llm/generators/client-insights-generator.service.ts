@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { AnthropicClientService } from '../core/anthropic-client.service';
+import { LlmProvider } from '../core/llm-provider';
 import { ResponseParserService } from '../core/response-parser.service';
+import { PromptRegistryService } from '../core/prompt-registry.service';
 import { ClientPromptBuilder } from '../prompts/client-prompt.builder';
 import { ClientPerceptionInsightDto } from '../../common/dto/analytics';
 import { LLM_CONSTANTS } from '../../common/constants';
@@ -10,8 +11,9 @@ export class ClientInsightsGeneratorService {
   private readonly logger = new Logger(ClientInsightsGeneratorService.name);
 
   constructor(
-    private readonly anthropicClient: AnthropicClientService,
+    private readonly llmProvider: LlmProvider,
     private readonly responseParser: ResponseParserService,
+    private readonly promptRegistry: PromptRegistryService,
   ) {}
 
   async generateClientPerceptionInsight(
@@ -19,9 +21,9 @@ export class ClientInsightsGeneratorService {
       transcription: string;
       closed: boolean;
       sentiment: string | null;
-    }>
+    }>,
   ): Promise<ClientPerceptionInsightDto> {
-    if (!this.anthropicClient.isConfigured()) {
+    if (!this.llmProvider.isConfigured()) {
       return {
         positiveAspects: 'AI insights unavailable - API not configured',
         concerns: 'AI insights unavailable - API not configured',
@@ -40,31 +42,40 @@ export class ClientInsightsGeneratorService {
     }
 
     try {
-      const prompt = ClientPromptBuilder.buildPerceptionInsight(transcriptions);
-      const responseText = await this.anthropicClient.sendMessage({
+      const { text: prompt } = await this.promptRegistry.render(
+        ClientPromptBuilder.buildPerceptionInsight(transcriptions),
+      );
+      const responseText = await this.llmProvider.sendMessage({
         prompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.CLIENT_PERCEPTION,
+        responseFormat: 'json',
       });
 
       const fallback: ClientPerceptionInsightDto = {
-        positiveAspects: 'Analysis of client transcripts reveals diverse perceptions of Vambe.',
+        positiveAspects:
+          'Analysis of client transcripts reveals diverse perceptions of Vambe.',
         concerns: 'No significant concerns identified.',
         successFactors: 'Further analysis needed to identify success factors.',
-        recommendations: 'Continue monitoring client feedback for actionable insights.',
+        recommendations:
+          'Continue monitoring client feedback for actionable insights.',
       };
 
-      const parsed = this.responseParser.parseJsonResponse<ClientPerceptionInsightDto>(
-        responseText,
-        fallback
-      );
+      const parsed =
+        this.responseParser.parseJsonResponse<ClientPerceptionInsightDto>(
+          responseText,
+          fallback,
+        );
 
       this.logger.log('Client Perception Insight generated successfully');
 
       return {
-        positiveAspects: parsed.positiveAspects?.trim() || fallback.positiveAspects,
+        positiveAspects:
+          parsed.positiveAspects?.trim() || fallback.positiveAspects,
         concerns: parsed.concerns?.trim() || fallback.concerns,
-        successFactors: parsed.successFactors?.trim() || fallback.successFactors,
-        recommendations: parsed.recommendations?.trim() || fallback.recommendations,
+        successFactors:
+          parsed.successFactors?.trim() || fallback.successFactors,
+        recommendations:
+          parsed.recommendations?.trim() || fallback.recommendations,
       };
     } catch (error) {
       this.logger.error('Error generating client perception insight:', error);
@@ -83,9 +94,9 @@ export class ClientInsightsGeneratorService {
       closed: boolean;
       mainMotivation?: string | null;
       technicalRequirements?: string[] | null;
-    }>
+    }>,
   ): Promise<{ insight: string }> {
-    if (!this.anthropicClient.isConfigured()) {
+    if (!this.llmProvider.isConfigured()) {
       return { insight: 'AI insights unavailable - API not configured' };
     }
 
@@ -94,23 +105,29 @@ export class ClientInsightsGeneratorService {
         return { insight: 'Insufficient data to analyze client solutions.' };
       }
 
-      const prompt = ClientPromptBuilder.buildSolutionsInsight(transcriptions);
-      const responseText = await this.anthropicClient.sendMessage({
+      const { text: prompt } = await this.promptRegistry.render(
+        ClientPromptBuilder.buildSolutionsInsight(transcriptions),
+      );
+      const responseText = await this.llmProvider.sendMessage({
         prompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.MEDIUM,
       });
 
-      this.logger.log(`Client Solutions Insight generated: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.BRIEF)}`);
+      this.logger.log(
+        `Client Solutions Insight generated: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.BRIEF)}`,
+      );
 
       return {
-        insight: responseText.trim() || 'Clients are seeking various solutions including automation, efficiency improvements, and enhanced customer engagement capabilities.',
+        insight:
+          responseText.trim() ||
+          'Clients are seeking various solutions including automation, efficiency improvements, and enhanced customer engagement capabilities.',
       };
     } catch (error) {
       this.logger.error('Error generating client solutions insight:', error);
       return {
-        insight: 'Unable to generate insight at this time. Clients are seeking solutions to improve their operations and customer experience.',
+        insight:
+          'Unable to generate insight at this time. Clients are seeking solutions to improve their operations and customer experience.',
       };
     }
   }
 }
-
@@ -1,11 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { IndustryInsightsGeneratorService } from './industry-insights-generator.service';
-import { AnthropicClientService } from '../core/anthropic-client.service';
+import { LlmProvider } from '../core/llm-provider';
+import { PromptRegistryService } from '../core/prompt-registry.service';
 import { IndustryPromptBuilder } from '../prompts/industry-prompt.builder';
 import { LLM_CONSTANTS } from '../../common/constants';
 
 // Mock the prompt builder
 jest.mock('../prompts/industry-prompt.builder', () => ({
+  ...jest.requireActual('../prompts/industry-prompt.builder'),
   IndustryPromptBuilder: {
     buildDistributionInsight: jest.fn(),
     buildConversionInsight: jest.fn(),
@@ -14,26 +16,39 @@ jest.mock('../prompts/industry-prompt.builder', () => ({
 
 describe('IndustryInsightsGeneratorService', () => {
   let service: IndustryInsightsGeneratorService;
-  let anthropicClient: jest.Mocked<AnthropicClientService>;
+  let llmProvider: jest.Mocked<LlmProvider>;
 
-  const mockAnthropicClient = {
+  const mockLlmProvider = {
     isConfigured: jest.fn(),
     sendMessage: jest.fn(),
   };
 
+  // The mocked builders return the prompt text itself, which is passed through as rendered
+  const mockPromptRegistry = {
+    render: jest.fn((request: unknown) =>
+      Promise.resolve({ text: request, version: 'prompt@1' }),
+    ),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         IndustryInsightsGeneratorService,
         {
-          provide: AnthropicClientService,
-          useValue: mockAnthropicClient,
+          provide: LlmProvider,
+          useValue: mockLlmProvider,
+        },
+        {
+          provide: PromptRegistryService,
+          useValue: mockPromptRegistry,
         },
       ],
     }).compile();
 
-    service = module.get<IndustryInsightsGeneratorService>(IndustryInsightsGeneratorService);
-    anthropicClient = module.get(AnthropicClientService);
+    service = module.get<IndustryInsightsGeneratorService>(
+      IndustryInsightsGeneratorService,
+    );
+    llmProvider = module.get(LlmProvider);
   });
 
   afterEach(() => {
@@ -43,7 +58,7 @@ describe('IndustryInsightsGeneratorService', () => {
   describe('generateIndustryDistributionInsight', () => {
     it('should return fallback when API is not configured', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
       const result = await service.generateIndustryDistributionInsight([
@@ -56,8 +71,10 @@ describe('IndustryInsightsGeneratorService', () => {
       ]);
 
       // Assert
-      expect(result.insight).toBe('AI insights unavailable - API not configured');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result.insight).toBe(
+        'AI insights unavailable - API not configured',
+      );
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should generate insight successfully', async () => {
@@ -78,19 +95,25 @@ describe('IndustryInsightsGeneratorService', () => {
       ];
 
       const mockPrompt = 'Analyze industry distribution...';
-      const mockResponse = 'Technology industry shows strong representation with 10 clients.';
+      const mockResponse =
+        'Technology industry shows strong representation with 10 clients.';
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (IndustryPromptBuilder.buildDistributionInsight as jest.Mock).mockReturnValue(mockPrompt);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (
+        IndustryPromptBuilder.buildDistributionInsight as jest.Mock
+      ).mockReturnValue(mockPrompt);
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
 
       // Act
-      const result = await service.generateIndustryDistributionInsight(industryData);
+      const result =
+        await service.generateIndustryDistributionInsight(industryData);
 
       // Assert
       expect(result.insight).toBe(mockResponse);
-      expect(IndustryPromptBuilder.buildDistributionInsight).toHaveBeenCalledWith(industryData);
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(
+        IndustryPromptBuilder.buildDistributionInsight,
+      ).toHaveBeenCalledWith(industryData);
+      expect(mockLlmProvider.sendMessage).toHaveBeenCalledWith({
         prompt: mockPrompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.STANDARD,
       });
@@ -107,15 +130,20 @@ describe('IndustryInsightsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (IndustryPromptBuilder.buildDistributionInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('   ');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (
+        IndustryPromptBuilder.buildDistributionInsight as jest.Mock
+      ).mockReturnValue('prompt');
+      mockLlmProvider.sendMessage.mockResolvedValue('   ');
 
       // Act
-      const result = await service.generateIndustryDistributionInsight(industryData);
+      const result =
+        await service.generateIndustryDistributionInsight(industryData);
 
       // Assert
-      expect(result.insight).toBe('The client base shows diverse industry representation with varying concentration levels.');
+      expect(result.insight).toBe(
+        'The client base shows diverse industry representation with varying concentration levels.',
+      );
     });
 
     it('should handle errors gracefully', async () => {
@@ -129,22 +157,27 @@ describe('IndustryInsightsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (IndustryPromptBuilder.buildDistributionInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (
+        IndustryPromptBuilder.buildDistributionInsight as jest.Mock
+      ).mockReturnValue('prompt');
+      mockLlmProvider.sendMessage.mockRejectedValue(new Error('API Error'));
 
       // Act
-      const result = await service.generateIndustryDistributionInsight(industryData);
+      const result =
+        await service.generateIndustryDistributionInsight(industryData);
 
       // Assert
-      expect(result.insight).toBe('Unable to generate insight at this time. The distribution shows diverse industry representation.');
+      expect(result.insight).toBe(
+        'Unable to generate insight at this time. The distribution shows diverse industry representation.',
+      );
     });
   });
 
   describe('generateIndustryConversionInsight', () => {
     it('should return fallback when API is not configured', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
       const result = await service.generateIndustryConversionInsight([
@@ -157,8 +190,10 @@ describe('IndustryInsightsGeneratorService', () => {
       ]);
 
       // Assert
-      expect(result.insight).toBe('AI insights unavailable - API not configured');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result.insight).toBe(
+        'AI insights unavailable - API not configured',
+      );
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should return fallback when no reliable industries', async () => {
@@ -172,14 +207,17 @@ describe('IndustryInsightsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
-      const result = await service.generateIndustryConversionInsight(industryData);
+      const result =
+        await service.generateIndustryConversionInsight(industryData);
 
       // Assert
-      expect(result.insight).toBe('Insufficient data to analyze conversion rates reliably.');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result.insight).toBe(
+        'Insufficient data to analyze conversion rates reliably.',
+      );
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should filter industries by reliability threshold', async () => {
@@ -208,19 +246,24 @@ describe('IndustryInsightsGeneratorService', () => {
       const mockPrompt = 'Analyze conversion rates...';
       const mockResponse = 'Technology shows highest conversion rate.';
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (IndustryPromptBuilder.buildConversionInsight as jest.Mock).mockReturnValue(mockPrompt);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (
+        IndustryPromptBuilder.buildConversionInsight as jest.Mock
+      ).mockReturnValue(mockPrompt);
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
 
       // Act
-      const result = await service.generateIndustryConversionInsight(industryData);
+      const result =
+        await service.generateIndustryConversionInsight(industryData);
 
       // Assert
       expect(result.insight).toBe(mockResponse);
-      expect(IndustryPromptBuilder.buildConversionInsight).toHaveBeenCalledWith([
-        industryData[0], // Technology
-        industryData[2], // Healthcare
-      ]);
+      expect(IndustryPromptBuilder.buildConversionInsight).toHaveBeenCalledWith(
+        [
+          industryData[0], // Technology
+          industryData[2], // Healthcare
+        ],
+      );
     });
 
     it('should generate insight successfully with reliable industries', async () => {
@@ -241,18 +284,22 @@ describe('IndustryInsightsGeneratorService', () => {
       ];
 
       const mockPrompt = 'Analyze conversion rates...';
-      const mockResponse = 'Technology industry shows excellent conversion performance.';
+      const mockResponse =
+        'Technology industry shows excellent conversion performance.';
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (IndustryPromptBuilder.buildConversionInsight as jest.Mock).mockReturnValue(mockPrompt);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (
+        IndustryPromptBuilder.buildConversionInsight as jest.Mock
+      ).mockReturnValue(mockPrompt);
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
 
       // Act
-      const result = await service.generateIndustryConversionInsight(industryData);
+      const result =
+        await service.generateIndustryConversionInsight(industryData);
 
       // Assert
       expect(result.insight).toBe(mockResponse);
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(mockLlmProvider.sendMessage).toHaveBeenCalledWith({
         prompt: mockPrompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.MEDIUM,
       });
@@ -275,12 +322,15 @@ describe('IndustryInsightsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (IndustryPromptBuilder.buildConversionInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('   ');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (
+        IndustryPromptBuilder.buildConversionInsight as jest.Mock
+      ).mockReturnValue('prompt');
+      mockLlmProvider.sendMessage.mockResolvedValue('   ');
 
       // Act
-      const result = await service.generateIndustryConversionInsight(industryData);
+      const result =
+        await service.generateIndustryConversionInsight(industryData);
 
       // Assert
       expect(result.insight).toContain('Technology');
@@ -298,16 +348,18 @@ describe('IndustryInsightsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (IndustryPromptBuilder.buildConversionInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (
+        IndustryPromptBuilder.buildConversionInsight as jest.Mock
+      ).mockReturnValue('prompt');
+      mockLlmProvider.sendMessage.mockRejectedValue(new Error('API Error'));
 
       // Act
-      const result = await service.generateIndustryConversionInsight(industryData);
+      const result =
+        await service.generateIndustryConversionInsight(industryData);
 
       // Assert
       expect(result.insight).toBe('Unable to generate insight at this time.');
     });
   });
 });
-
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { AnthropicClientService } from '../core/anthropic-client.service';
+import { LlmProvider } from '../core/llm-provider';
+import { PromptRegistryService } from '../core/prompt-registry.service';
 import { IndustryPromptBuilder } from '../prompts/industry-prompt.builder';
 import { LLM_CONSTANTS } from '../../common/constants';
 
@@ -7,7 +8,10 @@ import { LLM_CONSTANTS } from '../../common/constants';
 export class IndustryInsightsGeneratorService {
   private readonly logger = new Logger(IndustryInsightsGeneratorService.name);
 
-  constructor(private readonly anthropicClient: AnthropicClientService) {}
+  constructor(
+    private readonly llmProvider: LlmProvider,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
 
   async generateIndustryDistributionInsight(
     industryData: Array<{
@@ -15,28 +19,38 @@ export class IndustryInsightsGeneratorService {
       count: number;
       closed: number;
       conversionRate: number;
-    }>
+    }>,
   ): Promise<{ insight: string }> {
-    if (!this.anthropicClient.isConfigured()) {
+    if (!this.llmProvider.isConfigured()) {
       return { insight: 'AI insights unavailable - API not configured' };
     }
 
     try {
-      const prompt = IndustryPromptBuilder.buildDistributionInsight(industryData);
-      const responseText = await this.anthropicClient.sendMessage({
+      const { text: prompt } = await this.promptRegistry.render(
+        IndustryPromptBuilder.buildDistributionInsight(industryData),
+      );
+      const responseText = await this.llmProvider.sendMessage({
         prompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.STANDARD,
       });
 
-      this.logger.log(`Industry Distribution Insight generated: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.BRIEF)}`);
+      this.logger.log(
+        `Industry Distribution Insight generated: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.BRIEF)}`,
+      );
 
       return {
-        insight: responseText.trim() || 'The client base shows diverse industry representation with varying concentration levels.',
+        insight:
+          responseText.trim() ||
+          'The client base shows diverse industry representation with varying concentration levels.',
       };
     } catch (error) {
-      this.logger.error('Error generating industry distribution insight:', error);
+      this.logger.error(
+        'Error generating industry distribution insight:',
+        error,
+      );
       return {
-        insight: 'Unable to generate insight at this time. The distribution shows diverse industry representation.',
+        insight:
+          'Unable to generate insight at this time. The distribution shows diverse industry representation.',
       };
     }
   }
@@ -47,32 +61,41 @@ export class IndustryInsightsGeneratorService {
       count: number;
       closed: number;
       conversionRate: number;
-    }>
+    }>,
   ): Promise<{ insight: string }> {
-    if (!this.anthropicClient.isConfigured()) {
+    if (!this.llmProvider.isConfigured()) {
       return { insight: 'AI insights unavailable - API not configured' };
     }
 
     try {
-      const reliableIndustries = industryData.filter(ind => ind.count >= 3);
-      
+      const reliableIndustries = industryData.filter((ind) => ind.count >= 3);
+
       if (reliableIndustries.length === 0) {
-        return { insight: 'Insufficient data to analyze conversion rates reliably.' };
+        return {
+          insight: 'Insufficient data to analyze conversion rates reliably.',
+        };
       }
 
-      const prompt = IndustryPromptBuilder.buildConversionInsight(reliableIndustries);
-      const responseText = await this.anthropicClient.sendMessage({
+      const { text: prompt } = await this.promptRegistry.render(
+        IndustryPromptBuilder.buildConversionInsight(reliableIndustries),
+      );
+      const responseText = await this.llmProvider.sendMessage({
         prompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.MEDIUM,
       });
 
-      this.logger.log(`Industry Conversion Insight generated: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.BRIEF)}`);
+      this.logger.log(
+        `Industry Conversion Insight generated: ${responseText.substring(0, LLM_CONSTANTS.LOG_SUBSTRING_LENGTH.BRIEF)}`,
+      );
 
-      const topIndustry = reliableIndustries
-        .sort((a, b) => b.conversionRate - a.conversionRate)[0];
+      const topIndustry = reliableIndustries.sort(
+        (a, b) => b.conversionRate - a.conversionRate,
+      )[0];
 
       return {
-        insight: responseText.trim() || `${topIndustry?.value || 'Top industry'} shows the highest conversion rate at ${topIndustry?.conversionRate.toFixed(1) || 0}%, indicating strong performance in this sector.`,
+        insight:
+          responseText.trim() ||
+          `${topIndustry?.value || 'Top industry'} shows the highest conversion rate at ${topIndustry?.conversionRate.toFixed(1) || 0}%, indicating strong performance in this sector.`,
       };
     } catch (error) {
       this.logger.error('Error generating industry conversion insight:', error);
@@ -82,4 +105,3 @@ export class IndustryInsightsGeneratorService {
     }
   }
 }
-
@@ -1,30 +1,68 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { PredictionsGeneratorService } from './predictions-generator.service';
-import { AnthropicClientService } from '../core/anthropic-client.service';
+import { LlmProvider } from '../core/llm-provider';
+import { AnalysisLogService } from '../core/analysis-log.service';
+import { PromptRegistryService } from '../core/prompt-registry.service';
+import { DEFAULT_PROMPTS } from '../prompts/default-prompts';
+import { PromptRequest } from '../prompts/prompt.types';
+import { PromptTemplateUtil } from '../utils/prompt-template.util';
 import { LLM_CONSTANTS, API_CONSTANTS } from '../../common/constants';
 
 describe('PredictionsGeneratorService', () => {
   let service: PredictionsGeneratorService;
-  let anthropicClient: jest.Mocked<AnthropicClientService>;
+  let llmProvider: jest.Mocked<LlmProvider>;
 
-  const mockAnthropicClient = {
+  const mockLlmProvider = {
     isConfigured: jest.fn(),
-    sendMessage: jest.fn(),
+    complete: jest.fn(),
   };
 
+  const mockAnalysisLog = {
+    record: jest.fn(),
+  };
+
+  // Renders the built-in templates, as the registry does before any version is added
+  const mockPromptRegistry = {
+    render: jest.fn(({ promptId, variables }: PromptRequest) =>
+      Promise.resolve({
+        text: PromptTemplateUtil.render(
+          DEFAULT_PROMPTS.find((prompt) => prompt.id === promptId)!.template,
+          variables,
+        ),
+        version: `${promptId}@1`,
+      }),
+    ),
+  };
+
+  const completionOf = (text: string) => ({
+    text,
+    model: 'claude-3-haiku-20240307',
+    usage: { inputTokens: 120, outputTokens: 20 },
+  });
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PredictionsGeneratorService,
         {
-          provide: AnthropicClientService,
-          useValue: mockAnthropicClient,
+          provide: LlmProvider,
+          useValue: mockLlmProvider,
+        },
+        {
+          provide: PromptRegistryService,
+          useValue: mockPromptRegistry,
+        },
+        {
+          provide: AnalysisLogService,
+          useValue: mockAnalysisLog,
         },
       ],
     }).compile();
 
-    service = module.get<PredictionsGeneratorService>(PredictionsGeneratorService);
-    anthropicClient = module.get(AnthropicClientService);
+    service = module.get<PredictionsGeneratorService>(
+      PredictionsGeneratorService,
+    );
+    llmProvider = module.get(LlmProvider);
   });
 
   afterEach(() => {
@@ -36,6 +74,7 @@ describe('PredictionsGeneratorService', () => {
       // Arrange
       const openDeals = [
         {
+          clientId: 'client-a',
           clientName: 'Client A',
           industry: 'Technology',
           sentiment: 'positive',
@@ -49,7 +88,7 @@ describe('PredictionsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
       const result = await service.generateConversionPredictions(openDeals);
@@ -57,9 +96,13 @@ describe('PredictionsGeneratorService', () => {
       // Assert
       expect(result.length).toBe(1);
       expect(result[0].clientName).toBe('Client A');
-      expect(result[0].probability).toBe(API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK / 100);
-      expect(result[0].recommendation).toBe('AI insights unavailable - please review manually.');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result[0].probability).toBe(
+        API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK / 100,
+      );
+      expect(result[0].recommendation).toBe(
+        'AI insights unavailable - please review manually.',
+      );
+      expect(mockLlmProvider.complete).not.toHaveBeenCalled();
     });
 
     it('should limit to TOP_DEALS', async () => {
@@ -67,6 +110,7 @@ describe('PredictionsGeneratorService', () => {
       const openDeals = [];
       for (let i = 0; i < 10; i++) {
         openDeals.push({
+          clientId: `client-${i}`,
           clientName: `Client ${i}`,
           industry: 'Technology',
           sentiment: 'positive',
@@ -80,21 +124,28 @@ describe('PredictionsGeneratorService', () => {
         });
       }
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue('PROBABILITY: 75\nRECOMMENDATION: Focus on technical requirements');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(
+        completionOf(
+          'PROBABILITY: 75\nRECOMMENDATION: Focus on technical requirements',
+        ),
+      );
 
       // Act
       const result = await service.generateConversionPredictions(openDeals);
 
       // Assert
       expect(result.length).toBe(API_CONSTANTS.LIMITS.TOP_DEALS);
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledTimes(API_CONSTANTS.LIMITS.TOP_DEALS);
+      expect(mockLlmProvider.complete).toHaveBeenCalledTimes(
+        API_CONSTANTS.LIMITS.TOP_DEALS,
+      );
     });
 
     it('should parse probability and recommendation correctly', async () => {
       // Arrange
       const openDeals = [
         {
+          clientId: 'client-a',
           clientName: 'Client A',
           industry: 'Technology',
           sentiment: 'positive',
@@ -108,10 +159,11 @@ describe('PredictionsGeneratorService', () => {
         },
       ];
 
-      const mockResponse = 'PROBABILITY: 85\nRECOMMENDATION: Focus on addressing technical requirements';
+      const mockResponse =
+        'PROBABILITY: 85\nRECOMMENDATION: Focus on addressing technical requirements';
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(completionOf(mockResponse));
 
       // Act
       const result = await service.generateConversionPredictions(openDeals);
@@ -120,17 +172,31 @@ describe('PredictionsGeneratorService', () => {
       expect(result.length).toBe(1);
       expect(result[0].clientName).toBe('Client A');
       expect(result[0].probability).toBe(85); // Service returns 0-100, not 0-1
-      expect(result[0].recommendation).toBe('Focus on addressing technical requirements');
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(result[0].recommendation).toBe(
+        'Focus on addressing technical requirements',
+      );
+      expect(mockLlmProvider.complete).toHaveBeenCalledWith({
         prompt: expect.stringContaining('Client A'),
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.SHORT,
       });
+      expect(mockAnalysisLog.record).toHaveBeenCalledWith({
+        clientId: 'client-a',
+        action: 'prediction',
+        promptVersion: 'conversion-prediction@1',
+        completion: completionOf(mockResponse),
+        latencyMs: expect.any(Number),
+        result: {
+          probability: 85,
+          recommendation: 'Focus on addressing technical requirements',
+        },
+      });
     });
 
     it('should use default fallback when probability is not found', async () => {
       // Arrange
       const openDeals = [
         {
+          clientId: 'client-a',
           clientName: 'Client A',
           industry: 'Technology',
           sentiment: 'positive',
@@ -144,22 +210,26 @@ describe('PredictionsGeneratorService', () => {
         },
       ];
 
-      const mockResponse = 'RECOMMENDATION: Focus on client needs\nPROBABILITY: invalid';
+      const mockResponse =
+        'RECOMMENDATION: Focus on client needs\nPROBABILITY: invalid';
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(completionOf(mockResponse));
 
       // Act
       const result = await service.generateConversionPredictions(openDeals);
 
       // Assert
-      expect(result[0].probability).toBe(API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK); // Service returns 0-100
+      expect(result[0].probability).toBe(
+        API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK,
+      ); // Service returns 0-100
     });
 
     it('should use default recommendation when recommendation is not found', async () => {
       // Arrange
       const openDeals = [
         {
+          clientId: 'client-a',
           clientName: 'Client A',
           industry: 'Technology',
           sentiment: 'positive',
@@ -175,20 +245,23 @@ describe('PredictionsGeneratorService', () => {
 
       const mockResponse = 'PROBABILITY: 75';
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(completionOf(mockResponse));
 
       // Act
       const result = await service.generateConversionPredictions(openDeals);
 
       // Assert
-      expect(result[0].recommendation).toBe('Focus on addressing the client\'s key pain points and technical requirements.');
+      expect(result[0].recommendation).toBe(
+        "Focus on addressing the client's key pain points and technical requirements.",
+      );
     });
 
     it('should clamp probability to valid range', async () => {
       // Arrange
       const openDeals = [
         {
+          clientId: 'client-a',
           clientName: 'Client A',
           industry: 'Technology',
           sentiment: 'positive',
@@ -202,8 +275,10 @@ describe('PredictionsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockResolvedValue('PROBABILITY: 150\nRECOMMENDATION: Test');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockResolvedValue(
+        completionOf('PROBABILITY: 150\nRECOMMENDATION: Test'),
+      );
 
       // Act
       const result = await service.generateConversionPredictions(openDeals);
@@ -216,6 +291,7 @@ describe('PredictionsGeneratorService', () => {
       // Arrange
       const openDeals = [
         {
+          clientId: 'client-a',
           clientName: 'Client A',
           industry: 'Technology',
           sentiment: 'positive',
@@ -229,22 +305,27 @@ describe('PredictionsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
       // The regex /\d+/ only matches positive digits, so -10 won't match and will use default fallback
-      mockAnthropicClient.sendMessage.mockResolvedValue('PROBABILITY: -10\nRECOMMENDATION: Test');
+      mockLlmProvider.complete.mockResolvedValue(
+        completionOf('PROBABILITY: -10\nRECOMMENDATION: Test'),
+      );
 
       // Act
       const result = await service.generateConversionPredictions(openDeals);
 
       // Assert
       // Since regex doesn't match negative numbers, it falls back to DEFAULT_FALLBACK
-      expect(result[0].probability).toBe(API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK);
+      expect(result[0].probability).toBe(
+        API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK,
+      );
     });
 
     it('should handle errors gracefully', async () => {
       // Arrange
       const openDeals = [
         {
+          clientId: 'client-a',
           clientName: 'Client A',
           industry: 'Technology',
           sentiment: 'positive',
@@ -258,22 +339,27 @@ describe('PredictionsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete.mockRejectedValue(new Error('API Error'));
 
       // Act
       const result = await service.generateConversionPredictions(openDeals);
 
       // Assert
       expect(result.length).toBe(1);
-      expect(result[0].probability).toBe(API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK); // On error, uses value directly (50)
-      expect(result[0].recommendation).toBe('Unable to generate prediction at this time.');
+      expect(result[0].probability).toBe(
+        API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK,
+      ); // On error, uses value directly (50)
+      expect(result[0].recommendation).toBe(
+        'Unable to generate prediction at this time.',
+      );
     });
 
     it('should process multiple clients correctly', async () => {
       // Arrange
       const openDeals = [
         {
+          clientId: 'client-a',
           clientName: 'Client A',
           industry: 'Technology',
           sentiment: 'positive',
@@ -286,6 +372,7 @@ describe('PredictionsGeneratorService', () => {
           interactionVolume: 100,
         },
         {
+          clientId: 'client-b',
           clientName: 'Client B',
           industry: 'Finance',
           sentiment: 'neutral',
@@ -299,10 +386,16 @@ describe('PredictionsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      mockAnthropicClient.sendMessage
-        .mockResolvedValueOnce('PROBABILITY: 80\nRECOMMENDATION: Focus on Client A')
-        .mockResolvedValueOnce('PROBABILITY: 60\nRECOMMENDATION: Follow up with Client B');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      mockLlmProvider.complete
+        .mockResolvedValueOnce(
+          completionOf('PROBABILITY: 80\nRECOMMENDATION: Focus on Client A'),
+        )
+        .mockResolvedValueOnce(
+          completionOf(
+            'PROBABILITY: 60\nRECOMMENDATION: Follow up with Client B',
+          ),
+        );
 
       // Act
       const result = await service.generateConversionPredictions(openDeals);
@@ -313,8 +406,7 @@ describe('PredictionsGeneratorService', () => {
       expect(result[0].probability).toBe(80); // Service returns 0-100
       expect(result[1].clientName).toBe('Client B');
       expect(result[1].probability).toBe(60); // Service returns 0-100
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledTimes(2);
+      expect(mockLlmProvider.complete).toHaveBeenCalledTimes(2);
     });
   });
 });
-
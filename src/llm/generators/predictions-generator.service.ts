@@ -1,15 +1,24 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { AnthropicClientService } from '../core/anthropic-client.service';
+import { LlmProvider } from '../core/llm-provider';
+import { AnalysisLogService } from '../core/analysis-log.service';
+import { PromptRegistryService } from '../core/prompt-registry.service';
+import { PredictionPromptBuilder } from '../prompts/prediction-prompt.builder';
 import { LLM_CONSTANTS, API_CONSTANTS } from '../../common/constants';
+import { AnalysisActionEnum } from '../../common/dto/llm';
 
 @Injectable()
 export class PredictionsGeneratorService {
   private readonly logger = new Logger(PredictionsGeneratorService.name);
 
-  constructor(private readonly anthropicClient: AnthropicClientService) {}
+  constructor(
+    private readonly llmProvider: LlmProvider,
+    private readonly analysisLog: AnalysisLogService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
 
   async generateConversionPredictions(
     openDeals: Array<{
+      clientId: string;
       clientName: string;
       industry: string;
       sentiment: string;
@@ -20,10 +29,12 @@ export class PredictionsGeneratorService {
       discoverySource: string;
       operationSize: string;
       interactionVolume: number;
-    }>
-  ): Promise<Array<{ clientName: string; probability: number; recommendation: string }>> {
-    if (!this.anthropicClient.isConfigured()) {
-      return openDeals.map(client => ({
+    }>,
+  ): Promise<
+    Array<{ clientName: string; probability: number; recommendation: string }>
+  > {
+    if (!this.llmProvider.isConfigured()) {
+      return openDeals.map((client) => ({
         clientName: client.clientName,
         probability: API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK / 100,
         recommendation: 'AI insights unavailable - please review manually.',
@@ -34,59 +45,62 @@ export class PredictionsGeneratorService {
       const results = [];
 
       const topThree = openDeals.slice(0, API_CONSTANTS.LIMITS.TOP_DEALS);
-      
-      for (const client of topThree) {
-        const prompt = `You are a sales analytics expert. Analyze this open deal and predict the probability of closing it, along with ONE brief, actionable recommendation.
-
-Client Data:
-- Client: ${client.clientName}
-- Industry: ${client.industry}
-- Sentiment: ${client.sentiment}
-- Urgency Level: ${client.urgencyLevel}
-- Seller: ${client.seller}
-- Discovery Source: ${client.discoverySource}
-- Operation Size: ${client.operationSize}
-- Interaction Volume: ${client.interactionVolume}
-- Pain Points: ${client.painPoints.length > 0 ? client.painPoints.join(', ') : 'None specified'}
-- Technical Requirements: ${client.technicalRequirements.length > 0 ? client.technicalRequirements.join(', ') : 'None specified'}
-
-Based on these factors, provide:
-1. A probability score (0-100) indicating likelihood of closing
-2. ONE specific, actionable recommendation in a single sentence
 
-Respond in this exact format:
-PROBABILITY: <number>
-RECOMMENDATION: <one sentence recommendation>`;
+      for (const client of topThree) {
+        const prompt = await this.promptRegistry.render(
+          PredictionPromptBuilder.buildConversionPrediction(client),
+        );
 
-        const responseText = await this.anthropicClient.sendMessage({
-          prompt,
+        const startedAt = Date.now();
+        const completion = await this.llmProvider.complete({
+          prompt: prompt.text,
           maxTokens: LLM_CONSTANTS.MAX_TOKENS.SHORT,
         });
-        
+        const latencyMs = Date.now() - startedAt;
+        const responseText = completion.text;
+
         const probabilityMatch = responseText.match(/PROBABILITY:\s*(\d+)/);
-        const recommendationMatch = responseText.match(/RECOMMENDATION:\s*(.+)/);
-        
-        const probability = probabilityMatch ? parseInt(probabilityMatch[1], 10) : API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK;
-        const recommendation = recommendationMatch 
-          ? recommendationMatch[1].trim() 
-          : 'Focus on addressing the client\'s key pain points and technical requirements.';
+        const recommendationMatch = responseText.match(
+          /RECOMMENDATION:\s*(.+)/,
+        );
+
+        const probability = probabilityMatch
+          ? parseInt(probabilityMatch[1], 10)
+          : API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK;
+        const recommendation = recommendationMatch
+          ? recommendationMatch[1].trim()
+          : "Focus on addressing the client's key pain points and technical requirements.";
 
-        results.push({
+        const prediction = {
           clientName: client.clientName,
-          probability: Math.max(API_CONSTANTS.PROBABILITY.MIN, Math.min(API_CONSTANTS.PROBABILITY.MAX, probability)),
+          probability: Math.max(
+            API_CONSTANTS.PROBABILITY.MIN,
+            Math.min(API_CONSTANTS.PROBABILITY.MAX, probability),
+          ),
           recommendation,
+        };
+        await this.analysisLog.record({
+          clientId: client.clientId,
+          action: AnalysisActionEnum.PREDICTION,
+          promptVersion: prompt.version,
+          completion,
+          latencyMs,
+          result: { probability: prediction.probability, recommendation },
         });
+
+        results.push(prediction);
       }
 
       return results;
     } catch (error) {
       this.logger.error('Error generating conversion predictions:', error);
-      return openDeals.slice(0, API_CONSTANTS.LIMITS.TOP_DEALS).map(client => ({
-        clientName: client.clientName,
-        probability: API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK,
-        recommendation: 'Unable to generate prediction at this time.',
-      }));
+      return openDeals
+        .slice(0, API_CONSTANTS.LIMITS.TOP_DEALS)
+        .map((client) => ({
+          clientName: client.clientName,
+          probability: API_CONSTANTS.PROBABILITY.DEFAULT_FALLBACK,
+          recommendation: 'Unable to generate prediction at this time.',
+        }));
     }
   }
 }
-
@@ -1,12 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SellerInsightsGeneratorService } from './seller-insights-generator.service';
-import { AnthropicClientService } from '../core/anthropic-client.service';
+import { LlmProvider } from '../core/llm-provider';
+import { PromptRegistryService } from '../core/prompt-registry.service';
 import { ResponseParserService } from '../core/response-parser.service';
 import { SellerPromptBuilder } from '../prompts/seller-prompt.builder';
 import { LLM_CONSTANTS, API_CONSTANTS } from '../../common/constants';
 
 // Mock the prompt builder
 jest.mock('../prompts/seller-prompt.builder', () => ({
+  ...jest.requireActual('../prompts/seller-prompt.builder'),
   SellerPromptBuilder: {
     buildFeedback: jest.fn(),
     buildCorrelationInsight: jest.fn(),
@@ -16,14 +18,21 @@ jest.mock('../prompts/seller-prompt.builder', () => ({
 
 describe('SellerInsightsGeneratorService', () => {
   let service: SellerInsightsGeneratorService;
-  let anthropicClient: jest.Mocked<AnthropicClientService>;
+  let llmProvider: jest.Mocked<LlmProvider>;
   let responseParser: jest.Mocked<ResponseParserService>;
 
-  const mockAnthropicClient = {
+  const mockLlmProvider = {
     isConfigured: jest.fn(),
     sendMessage: jest.fn(),
   };
 
+  // The mocked builders return the prompt text itself, which is passed through as rendered
+  const mockPromptRegistry = {
+    render: jest.fn((request: unknown) =>
+      Promise.resolve({ text: request, version: 'prompt@1' }),
+    ),
+  };
+
   const mockResponseParser = {
     parseJsonResponse: jest.fn(),
     parseArrayResponse: jest.fn(),
@@ -35,8 +44,12 @@ describe('SellerInsightsGeneratorService', () => {
       providers: [
         SellerInsightsGeneratorService,
         {
-          provide: AnthropicClientService,
-          useValue: mockAnthropicClient,
+          provide: LlmProvider,
+          useValue: mockLlmProvider,
+        },
+        {
+          provide: PromptRegistryService,
+          useValue: mockPromptRegistry,
         },
         {
           provide: ResponseParserService,
@@ -45,8 +58,10 @@ describe('SellerInsightsGeneratorService', () => {
       ],
     }).compile();
 
-    service = module.get<SellerInsightsGeneratorService>(SellerInsightsGeneratorService);
-    anthropicClient = module.get(AnthropicClientService);
+    service = module.get<SellerInsightsGeneratorService>(
+      SellerInsightsGeneratorService,
+    );
+    llmProvider = module.get(LlmProvider);
     responseParser = module.get(ResponseParserService);
   });
 
@@ -67,14 +82,16 @@ describe('SellerInsightsGeneratorService', () => {
         correlations: [],
       };
 
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
       const result = await service.generateSellerFeedback(sellerData);
 
       // Assert
-      expect(result.recommendations).toEqual(['AI feedback unavailable - API not configured']);
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(result.recommendations).toEqual([
+        'AI feedback unavailable - API not configured',
+      ]);
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should generate feedback successfully', async () => {
@@ -98,7 +115,8 @@ describe('SellerInsightsGeneratorService', () => {
       };
 
       const mockPrompt = 'Generate feedback for Seller 1...';
-      const mockResponse = '- Focus on Technology clients\n- Improve follow-up process\n- Leverage your strengths';
+      const mockResponse =
+        '- Focus on Technology clients\n- Improve follow-up process\n- Leverage your strengths';
 
       const mockParsed = [
         'Focus on Technology clients',
@@ -107,19 +125,27 @@ describe('SellerInsightsGeneratorService', () => {
         'Additional recommendation',
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildFeedback as jest.Mock).mockReturnValue(mockPrompt);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildFeedback as jest.Mock).mockReturnValue(
+        mockPrompt,
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
       mockResponseParser.parseArrayResponse.mockReturnValue(mockParsed);
 
       // Act
       const result = await service.generateSellerFeedback(sellerData);
 
       // Assert
-      expect(result.recommendations.length).toBe(API_CONSTANTS.LIMITS.MAX_RECOMMENDATIONS);
-      expect(result.recommendations).toEqual(mockParsed.slice(0, API_CONSTANTS.LIMITS.MAX_RECOMMENDATIONS));
-      expect(SellerPromptBuilder.buildFeedback).toHaveBeenCalledWith(sellerData);
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(result.recommendations.length).toBe(
+        API_CONSTANTS.LIMITS.MAX_RECOMMENDATIONS,
+      );
+      expect(result.recommendations).toEqual(
+        mockParsed.slice(0, API_CONSTANTS.LIMITS.MAX_RECOMMENDATIONS),
+      );
+      expect(SellerPromptBuilder.buildFeedback).toHaveBeenCalledWith(
+        sellerData,
+      );
+      expect(mockLlmProvider.sendMessage).toHaveBeenCalledWith({
         prompt: mockPrompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.SELLER_FEEDBACK,
       });
@@ -139,16 +165,20 @@ describe('SellerInsightsGeneratorService', () => {
 
       const mockParsed = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildFeedback as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('response');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildFeedback as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue('response');
       mockResponseParser.parseArrayResponse.mockReturnValue(mockParsed);
 
       // Act
       const result = await service.generateSellerFeedback(sellerData);
 
       // Assert
-      expect(result.recommendations.length).toBe(API_CONSTANTS.LIMITS.MAX_RECOMMENDATIONS);
+      expect(result.recommendations.length).toBe(
+        API_CONSTANTS.LIMITS.MAX_RECOMMENDATIONS,
+      );
     });
 
     it('should handle errors gracefully', async () => {
@@ -163,49 +193,62 @@ describe('SellerInsightsGeneratorService', () => {
         correlations: [],
       };
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildFeedback as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildFeedback as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockRejectedValue(new Error('API Error'));
 
       // Act
       const result = await service.generateSellerFeedback(sellerData);
 
       // Assert
-      expect(result.recommendations).toEqual(['Unable to generate feedback at this time']);
+      expect(result.recommendations).toEqual([
+        'Unable to generate feedback at this time',
+      ]);
     });
   });
 
   describe('generateSellerCorrelationInsight', () => {
     it('should return fallback when API is not configured', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
-      const result = await service.generateSellerCorrelationInsight('Seller 1', []);
+      const result = await service.generateSellerCorrelationInsight(
+        'Seller 1',
+        [],
+      );
 
       // Assert
       expect(result).toBe('AI insights unavailable - API not configured');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should return fallback when correlations array is empty', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
-      const result = await service.generateSellerCorrelationInsight('Seller 1', []);
+      const result = await service.generateSellerCorrelationInsight(
+        'Seller 1',
+        [],
+      );
 
       // Assert
       expect(result).toBe('No significant correlations found for this seller.');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should return fallback when correlations is null', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
-      const result = await service.generateSellerCorrelationInsight('Seller 1', null as any);
+      const result = await service.generateSellerCorrelationInsight(
+        'Seller 1',
+        null as any,
+      );
 
       // Assert
       expect(result).toBe('No significant correlations found for this seller.');
@@ -225,19 +268,28 @@ describe('SellerInsightsGeneratorService', () => {
       ];
 
       const mockPrompt = 'Analyze correlations for Seller 1...';
-      const mockResponse = 'Seller 1 shows strong performance with Technology clients.';
+      const mockResponse =
+        'Seller 1 shows strong performance with Technology clients.';
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildCorrelationInsight as jest.Mock).mockReturnValue(mockPrompt);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (
+        SellerPromptBuilder.buildCorrelationInsight as jest.Mock
+      ).mockReturnValue(mockPrompt);
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
 
       // Act
-      const result = await service.generateSellerCorrelationInsight('Seller 1', correlations);
+      const result = await service.generateSellerCorrelationInsight(
+        'Seller 1',
+        correlations,
+      );
 
       // Assert
       expect(result).toBe(mockResponse);
-      expect(SellerPromptBuilder.buildCorrelationInsight).toHaveBeenCalledWith('Seller 1', correlations);
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(SellerPromptBuilder.buildCorrelationInsight).toHaveBeenCalledWith(
+        'Seller 1',
+        correlations,
+      );
+      expect(mockLlmProvider.sendMessage).toHaveBeenCalledWith({
         prompt: mockPrompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.STANDARD,
       });
@@ -256,12 +308,17 @@ describe('SellerInsightsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildCorrelationInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('   ');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (
+        SellerPromptBuilder.buildCorrelationInsight as jest.Mock
+      ).mockReturnValue('prompt');
+      mockLlmProvider.sendMessage.mockResolvedValue('   ');
 
       // Act
-      const result = await service.generateSellerCorrelationInsight('Seller 1', correlations);
+      const result = await service.generateSellerCorrelationInsight(
+        'Seller 1',
+        correlations,
+      );
 
       // Assert
       expect(result).toBe('No insights available for Seller 1.');
@@ -280,49 +337,68 @@ describe('SellerInsightsGeneratorService', () => {
         },
       ];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildCorrelationInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (
+        SellerPromptBuilder.buildCorrelationInsight as jest.Mock
+      ).mockReturnValue('prompt');
+      mockLlmProvider.sendMessage.mockRejectedValue(new Error('API Error'));
 
       // Act
-      const result = await service.generateSellerCorrelationInsight('Seller 1', correlations);
+      const result = await service.generateSellerCorrelationInsight(
+        'Seller 1',
+        correlations,
+      );
 
       // Assert
-      expect(result).toBe('Unable to generate insights for Seller 1 at this time.');
+      expect(result).toBe(
+        'Unable to generate insights for Seller 1 at this time.',
+      );
     });
   });
 
   describe('generateSellerTimelineInsight', () => {
     it('should return fallback when API is not configured', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(false);
+      mockLlmProvider.isConfigured.mockReturnValue(false);
 
       // Act
-      const result = await service.generateSellerTimelineInsight([], [], 'month');
+      const result = await service.generateSellerTimelineInsight(
+        [],
+        [],
+        'month',
+      );
 
       // Assert
       expect(result).toBe('AI insights unavailable - API not configured');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should return fallback when timeline data is empty', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
-      const result = await service.generateSellerTimelineInsight([], ['Seller 1'], 'month');
+      const result = await service.generateSellerTimelineInsight(
+        [],
+        ['Seller 1'],
+        'month',
+      );
 
       // Assert
       expect(result).toBe('Insufficient data to generate insights.');
-      expect(mockAnthropicClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockLlmProvider.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should return fallback when sellers array is empty', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
-      const result = await service.generateSellerTimelineInsight([{ period: '2024-01' }], [], 'month');
+      const result = await service.generateSellerTimelineInsight(
+        [{ period: '2024-01' }],
+        [],
+        'month',
+      );
 
       // Assert
       expect(result).toBe('Insufficient data to generate insights.');
@@ -330,10 +406,14 @@ describe('SellerInsightsGeneratorService', () => {
 
     it('should return fallback when timeline data is null', async () => {
       // Arrange
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
 
       // Act
-      const result = await service.generateSellerTimelineInsight(null as any, ['Seller 1'], 'month');
+      const result = await service.generateSellerTimelineInsight(
+        null as any,
+        ['Seller 1'],
+        'month',
+      );
 
       // Assert
       expect(result).toBe('Insufficient data to generate insights.');
@@ -353,17 +433,23 @@ describe('SellerInsightsGeneratorService', () => {
       const mockPrompt = 'Analyze timeline...';
       const mockResponse = 'Seller 1 shows increasing trend.';
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue(mockPrompt);
-      mockAnthropicClient.sendMessage.mockResolvedValue(mockResponse);
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue(
+        mockPrompt,
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue(mockResponse);
 
       // Act
-      const result = await service.generateSellerTimelineInsight(timelineData, sellers, 'month');
+      const result = await service.generateSellerTimelineInsight(
+        timelineData,
+        sellers,
+        'month',
+      );
 
       // Assert
       expect(result).toBe(mockResponse);
       expect(SellerPromptBuilder.buildTimelineInsight).toHaveBeenCalled();
-      expect(mockAnthropicClient.sendMessage).toHaveBeenCalledWith({
+      expect(mockLlmProvider.sendMessage).toHaveBeenCalledWith({
         prompt: mockPrompt,
         maxTokens: LLM_CONSTANTS.MAX_TOKENS.EXTENDED,
       });
@@ -378,12 +464,18 @@ describe('SellerInsightsGeneratorService', () => {
 
       const sellers = ['Seller 1', 'Seller 2'];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('response');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue('response');
 
       // Act
-      const result = await service.generateSellerTimelineInsight(timelineData, sellers, 'month');
+      const result = await service.generateSellerTimelineInsight(
+        timelineData,
+        sellers,
+        'month',
+      );
 
       // Assert
       expect(result).toBe('response');
@@ -399,20 +491,29 @@ describe('SellerInsightsGeneratorService', () => {
 
       const sellers = ['Seller 1', 'Seller 2'];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('response');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue('response');
 
       // Act
-      const result = await service.generateSellerTimelineInsight(timelineData, sellers, 'month');
+      const result = await service.generateSellerTimelineInsight(
+        timelineData,
+        sellers,
+        'month',
+      );
 
       // Assert
       expect(result).toBe('response');
       // Both sellers should be present because the service uses || 0 for missing values
       // and filters out null/undefined, so Seller 2 will have 0 values that pass the filter
-      const callArgs = (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mock.calls[0][0];
+      const callArgs = (SellerPromptBuilder.buildTimelineInsight as jest.Mock)
+        .mock.calls[0][0];
       expect(callArgs.length).toBeGreaterThanOrEqual(1);
-      expect(callArgs.some((stat: { seller: string }) => stat.seller === 'Seller 1')).toBe(true);
+      expect(
+        callArgs.some((stat: { seller: string }) => stat.seller === 'Seller 1'),
+      ).toBe(true);
     });
 
     it('should calculate trends correctly (increasing)', async () => {
@@ -426,15 +527,22 @@ describe('SellerInsightsGeneratorService', () => {
 
       const sellers = ['Seller 1'];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('response');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue('response');
 
       // Act
-      await service.generateSellerTimelineInsight(timelineData, sellers, 'month');
+      await service.generateSellerTimelineInsight(
+        timelineData,
+        sellers,
+        'month',
+      );
 
       // Assert
-      const callArgs = (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mock.calls[0][0];
+      const callArgs = (SellerPromptBuilder.buildTimelineInsight as jest.Mock)
+        .mock.calls[0][0];
       expect(callArgs[0].trend).toBe('increasing');
     });
 
@@ -449,15 +557,22 @@ describe('SellerInsightsGeneratorService', () => {
 
       const sellers = ['Seller 1'];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('response');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue('response');
 
       // Act
-      await service.generateSellerTimelineInsight(timelineData, sellers, 'month');
+      await service.generateSellerTimelineInsight(
+        timelineData,
+        sellers,
+        'month',
+      );
 
       // Assert
-      const callArgs = (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mock.calls[0][0];
+      const callArgs = (SellerPromptBuilder.buildTimelineInsight as jest.Mock)
+        .mock.calls[0][0];
       expect(callArgs[0].trend).toBe('decreasing');
     });
 
@@ -472,32 +587,43 @@ describe('SellerInsightsGeneratorService', () => {
 
       const sellers = ['Seller 1'];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('response');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue('response');
 
       // Act
-      await service.generateSellerTimelineInsight(timelineData, sellers, 'month');
+      await service.generateSellerTimelineInsight(
+        timelineData,
+        sellers,
+        'month',
+      );
 
       // Assert
-      const callArgs = (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mock.calls[0][0];
+      const callArgs = (SellerPromptBuilder.buildTimelineInsight as jest.Mock)
+        .mock.calls[0][0];
       expect(callArgs[0].trend).toBe('stable');
     });
 
     it('should use fallback when response is empty', async () => {
       // Arrange
-      const timelineData = [
-        { date: '2024-01', 'Seller 1': 5 },
-      ];
+      const timelineData = [{ date: '2024-01', 'Seller 1': 5 }];
 
       const sellers = ['Seller 1'];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockResolvedValue('   ');
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockResolvedValue('   ');
 
       // Act
-      const result = await service.generateSellerTimelineInsight(timelineData, sellers, 'month');
+      const result = await service.generateSellerTimelineInsight(
+        timelineData,
+        sellers,
+        'month',
+      );
 
       // Assert
       expect(result).toBe('Unable to generate insights at this time.');
@@ -505,22 +631,25 @@ describe('SellerInsightsGeneratorService', () => {
 
     it('should handle errors gracefully', async () => {
       // Arrange
-      const timelineData = [
-        { date: '2024-01', 'Seller 1': 5 },
-      ];
+      const timelineData = [{ date: '2024-01', 'Seller 1': 5 }];
 
       const sellers = ['Seller 1'];
 
-      mockAnthropicClient.isConfigured.mockReturnValue(true);
-      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue('prompt');
-      mockAnthropicClient.sendMessage.mockRejectedValue(new Error('API Error'));
+      mockLlmProvider.isConfigured.mockReturnValue(true);
+      (SellerPromptBuilder.buildTimelineInsight as jest.Mock).mockReturnValue(
+        'prompt',
+      );
+      mockLlmProvider.sendMessage.mockRejectedValue(new Error('API Error'));
 
       // Act
-      const result = await service.generateSellerTimelineInsight(timelineData, sellers, 'month');
+      const result = await service.generateSellerTimelineInsight(
+        timelineData,
+        sellers,
+        'month',
+      );
 
       // Assert
       expect(result).toBe('Unable to generate insights at this time.');
     });
   });
 });
-
@@ -10,6 +10,7 @@ describe('LlmController', () => {
   const mockCategorizationService = {
     processAllUnprocessedClients: jest.fn(),
     processSingleClient: jest.fn(),
+    reprocessClients: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -39,7 +40,9 @@ describe('LlmController', () => {
         failed: 0,
       };
 
-      mockCategorizationService.processAllUnprocessedClients.mockResolvedValue(mockResult);
+      mockCategorizationService.processAllUnprocessedClients.mockResolvedValue(
+        mockResult,
+      );
 
       // Act
       const result = await controller.processAll();
@@ -50,8 +53,12 @@ describe('LlmController', () => {
         processed: 5,
         failed: 0,
       });
-      expect(categorizationService.processAllUnprocessedClients).toHaveBeenCalledTimes(1);
-      expect(categorizationService.processAllUnprocessedClients).toHaveBeenCalledWith();
+      expect(
+        categorizationService.processAllUnprocessedClients,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        categorizationService.processAllUnprocessedClients,
+      ).toHaveBeenCalledWith();
     });
 
     it('should handle processing with some failures', async () => {
@@ -61,7 +68,9 @@ describe('LlmController', () => {
         failed: 2,
       };
 
-      mockCategorizationService.processAllUnprocessedClients.mockResolvedValue(mockResult);
+      mockCategorizationService.processAllUnprocessedClients.mockResolvedValue(
+        mockResult,
+      );
 
       // Act
       const result = await controller.processAll();
@@ -72,7 +81,9 @@ describe('LlmController', () => {
         processed: 3,
         failed: 2,
       });
-      expect(categorizationService.processAllUnprocessedClients).toHaveBeenCalledTimes(1);
+      expect(
+        categorizationService.processAllUnprocessedClients,
+      ).toHaveBeenCalledTimes(1);
     });
 
     it('should handle processing when all clients fail', async () => {
@@ -82,7 +93,9 @@ describe('LlmController', () => {
         failed: 5,
       };
 
-      mockCategorizationService.processAllUnprocessedClients.mockResolvedValue(mockResult);
+      mockCategorizationService.processAllUnprocessedClients.mockResolvedValue(
+        mockResult,
+      );
 
       // Act
       const result = await controller.processAll();
@@ -102,7 +115,9 @@ describe('LlmController', () => {
         failed: 0,
       };
 
-      mockCategorizationService.processAllUnprocessedClients.mockResolvedValue(mockResult);
+      mockCategorizationService.processAllUnprocessedClients.mockResolvedValue(
+        mockResult,
+      );
 
       // Act
       const result = await controller.processAll();
@@ -120,7 +135,16 @@ describe('LlmController', () => {
     it('should process a single client successfully', async () => {
       // Arrange
       const clientId = 'client-123';
-      mockCategorizationService.processSingleClient.mockResolvedValue(undefined);
+      const processed = {
+        clientId,
+        name: 'Client',
+        categorizationStatus: 'valid',
+        stored: true,
+        changes: [{ field: 'industry', before: null, after: 'Technology' }],
+      };
+      mockCategorizationService.processSingleClient.mockResolvedValue(
+        processed,
+      );
 
       // Act
       const result = await controller.processOne(clientId);
@@ -128,9 +152,15 @@ describe('LlmController', () => {
       // Assert
       expect(result).toEqual({
         message: 'Client processed successfully',
+        ...processed,
       });
-      expect(categorizationService.processSingleClient).toHaveBeenCalledTimes(1);
-      expect(categorizationService.processSingleClient).toHaveBeenCalledWith(clientId);
+      expect(categorizationService.processSingleClient).toHaveBeenCalledTimes(
+        1,
+      );
+      expect(categorizationService.processSingleClient).toHaveBeenCalledWith(
+        clientId,
+        undefined,
+      );
     });
 
     it('should handle NotFoundException when client does not exist', async () => {
@@ -141,8 +171,13 @@ describe('LlmController', () => {
       );
 
       // Act & Assert
-      await expect(controller.processOne(clientId)).rejects.toThrow(NotFoundException);
-      expect(categorizationService.processSingleClient).toHaveBeenCalledWith(clientId);
+      await expect(controller.processOne(clientId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(categorizationService.processSingleClient).toHaveBeenCalledWith(
+        clientId,
+        undefined,
+      );
     });
 
     it('should handle other errors during processing', async () => {
@@ -152,25 +187,84 @@ describe('LlmController', () => {
       mockCategorizationService.processSingleClient.mockRejectedValue(error);
 
       // Act & Assert
-      await expect(controller.processOne(clientId)).rejects.toThrow('Processing error');
-      expect(categorizationService.processSingleClient).toHaveBeenCalledWith(clientId);
+      await expect(controller.processOne(clientId)).rejects.toThrow(
+        'Processing error',
+      );
+      expect(categorizationService.processSingleClient).toHaveBeenCalledWith(
+        clientId,
+        undefined,
+      );
     });
 
     it('should handle client that is already processed', async () => {
       // Arrange
       const clientId = 'client-789';
       // The service logs a warning but doesn't throw, so it resolves successfully
-      mockCategorizationService.processSingleClient.mockResolvedValue(undefined);
+      mockCategorizationService.processSingleClient.mockResolvedValue(null);
 
       // Act
       const result = await controller.processOne(clientId);
 
       // Assert
       expect(result).toEqual({
-        message: 'Client processed successfully',
+        message:
+          'Client is already processed; set force=true to process it again',
       });
-      expect(categorizationService.processSingleClient).toHaveBeenCalledWith(clientId);
+      expect(categorizationService.processSingleClient).toHaveBeenCalledWith(
+        clientId,
+        undefined,
+      );
+    });
+
+    it('should pass the force flag to the service', async () => {
+      // Arrange
+      const clientId = 'client-789';
+      mockCategorizationService.processSingleClient.mockResolvedValue({
+        clientId,
+        name: 'Client',
+        categorizationStatus: 'valid',
+        stored: true,
+        changes: [],
+      });
+
+      // Act
+      const result = await controller.processOne(clientId, true);
+
+      // Assert
+      expect(result.message).toBe('Client processed successfully');
+      expect(categorizationService.processSingleClient).toHaveBeenCalledWith(
+        clientId,
+        true,
+      );
     });
   });
-});
 
+  describe('reprocess', () => {
+    it('should reprocess the matching clients and return their changes', async () => {
+      // Arrange
+      const dto = {
+        processedBefore: '2024-03-01T00:00:00.000Z',
+        promptVersion: 'categorization@1',
+      };
+      const mockResult = {
+        matched: 1,
+        remaining: 0,
+        processed: 1,
+        failed: 0,
+        fallback: 0,
+        clients: [],
+      };
+      mockCategorizationService.reprocessClients.mockResolvedValue(mockResult);
+
+      // Act
+      const result = await controller.reprocess(dto);
+
+      // Assert
+      expect(result).toEqual({
+        message: 'Reprocessing completed',
+        ...mockResult,
+      });
+      expect(categorizationService.reprocessClients).toHaveBeenCalledWith(dto);
+    });
+  });
+});
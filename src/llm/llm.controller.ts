@@ -1,6 +1,15 @@
-import { Controller, Post, Param } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Post,
+  Param,
+  ParseBoolPipe,
+  Query,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
 import { CategorizationService } from './categorization.service';
+import { ReprocessClientsDto } from '../common/dto/llm';
+import { LLM_CONSTANTS } from '../common/constants';
 
 @ApiTags('llm')
 @Controller('processing')
@@ -8,25 +17,76 @@ export class LlmController {
   constructor(private readonly categorizationService: CategorizationService) {}
 
   @Post('process-all')
-  @ApiOperation({ summary: 'Process all unprocessed clients with AI categorization' })
-  @ApiResponse({ status: 200, description: 'Processing completed successfully' })
+  @ApiOperation({
+    summary: 'Process all unprocessed clients with AI categorization',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Processing completed successfully',
+  })
   async processAll() {
-    const result = await this.categorizationService.processAllUnprocessedClients();
+    const result =
+      await this.categorizationService.processAllUnprocessedClients();
     return {
       message: 'Processing completed',
       ...result,
     };
   }
 
+  @Post('reprocess')
+  @ApiOperation({
+    summary: 'Categorize processed clients again',
+    description:
+      'Selects processed clients by listing filters, last processing time and categorization prompt version ' +
+      '(at least one, or all: true), and returns the fields whose stored value changed for each client. ' +
+      `Each request takes at most ${LLM_CONSTANTS.REPROCESS_MAX_CLIENTS} clients, the ones processed longest ago; ` +
+      'remaining counts the rest, and repeating the request with the same processedBefore continues with them.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reprocessing completed successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid filters, or no condition given without all',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async reprocess(@Body() dto: ReprocessClientsDto) {
+    const result = await this.categorizationService.reprocessClients(dto);
+    return {
+      message: 'Reprocessing completed',
+      ...result,
+    };
+  }
+
   @Post('process/:id')
   @ApiOperation({ summary: 'Process a single client with AI categorization' })
+  @ApiQuery({
+    name: 'force',
+    required: false,
+    type: Boolean,
+    description: 'Process the client again when it is already processed',
+  })
   @ApiResponse({ status: 200, description: 'Client processed successfully' })
   @ApiResponse({ status: 404, description: 'Client not found' })
-  async processOne(@Param('id') id: string) {
-    await this.categorizationService.processSingleClient(id);
+  async processOne(
+    @Param('id') id: string,
+    @Query('force', new ParseBoolPipe({ optional: true })) force?: boolean,
+  ) {
+    const result = await this.categorizationService.processSingleClient(
+      id,
+      force,
+    );
+    if (!result) {
+      return {
+        message:
+          'Client is already processed; set force=true to process it again',
+      };
+    }
+
     return {
       message: 'Client processed successfully',
+      ...result,
     };
   }
 }
-
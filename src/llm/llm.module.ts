@@ -1,19 +1,15 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { CategorizationService } from './categorization.service';
 import { LlmController } from './llm.controller';
+import { PromptsController } from './prompts.controller';
 import { ClientsModule } from '../clients/clients.module';
 import { CoreModule } from './core/core.module';
 import { GeneratorsModule } from './generators/generators.module';
 
 @Module({
-  imports: [ClientsModule, CoreModule, GeneratorsModule],
-  controllers: [LlmController],
+  imports: [forwardRef(() => ClientsModule), CoreModule, GeneratorsModule],
+  controllers: [LlmController, PromptsController],
   providers: [CategorizationService],
-  exports: [
-    CategorizationService,
-    CoreModule,
-    GeneratorsModule,
-  ],
+  exports: [CategorizationService, CoreModule, GeneratorsModule],
 })
 export class LlmModule {}
-
@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PromptsController } from './prompts.controller';
+import { PromptRegistryService } from './core/prompt-registry.service';
+
+describe('PromptsController', () => {
+  let controller: PromptsController;
+
+  const mockPromptRegistry = {
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    createVersion: jest.fn(),
+    activate: jest.fn(),
+  };
+
+  const prompt = {
+    id: 'seller-timeline-insight',
+    description: 'Summarizes the deal trends of every seller over time',
+    variables: ['granularity', 'sellerStatistics'],
+    activeVersion: 2,
+    latestVersion: 2,
+    versions: [
+      {
+        version: 2,
+        template: 'Per {{granularity}}:\n{{sellerStatistics}}',
+        note: null,
+        active: true,
+        createdAt: new Date('2024-01-01'),
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PromptsController],
+      providers: [
+        {
+          provide: PromptRegistryService,
+          useValue: mockPromptRegistry,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<PromptsController>(PromptsController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list the prompts', async () => {
+    mockPromptRegistry.findAll.mockResolvedValue([prompt]);
+
+    const result = await controller.findAll();
+
+    expect(result).toEqual([prompt]);
+  });
+
+  it('should create a version of a prompt', async () => {
+    mockPromptRegistry.createVersion.mockResolvedValue(prompt);
+    const dto = {
+      template: 'Per {{granularity}}:\n{{sellerStatistics}}',
+      activate: true,
+    };
+
+    const result = await controller.createVersion(
+      'seller-timeline-insight',
+      dto,
+    );
+
+    expect(mockPromptRegistry.createVersion).toHaveBeenCalledWith(
+      'seller-timeline-insight',
+      dto,
+    );
+    expect(result).toEqual(prompt);
+  });
+
+  it('should activate a version of a prompt', async () => {
+    mockPromptRegistry.activate.mockResolvedValue(prompt);
+
+    const result = await controller.activate('seller-timeline-insight', 2);
+
+    expect(mockPromptRegistry.activate).toHaveBeenCalledWith(
+      'seller-timeline-insight',
+      2,
+    );
+    expect(result).toEqual(prompt);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { PromptRegistryService } from './core/prompt-registry.service';
+import { CreatePromptVersionDto } from '../common/dto/llm';
+
+@ApiTags('llm')
+@Controller('prompts')
+export class PromptsController {
+  constructor(private readonly promptRegistry: PromptRegistryService) {}
+
+  @Get()
+  @ApiOperation({
+    summary:
+      'List the prompts sent to the model, with their active and latest versions',
+  })
+  @ApiResponse({ status: 200, description: 'Prompts retrieved successfully' })
+  async findAll() {
+    return this.promptRegistry.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a prompt with all its versions, newest first' })
+  @ApiResponse({ status: 200, description: 'Prompt retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Prompt not found' })
+  async findOne(@Param('id') id: string) {
+    return this.promptRegistry.findOne(id);
+  }
+
+  @Post(':id/versions')
+  @ApiOperation({
+    summary: 'Add a version of a prompt',
+    description:
+      'The template uses {{variable}} placeholders from the variables of the prompt. Set activate to render it from now on; otherwise activate it later.',
+  })
+  @ApiResponse({ status: 201, description: 'Version created successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'The template uses variables the prompt does not supply',
+  })
+  @ApiResponse({ status: 404, description: 'Prompt not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Another version was added at the same time; retry',
+  })
+  async createVersion(
+    @Param('id') id: string,
+    @Body() dto: CreatePromptVersionDto,
+  ) {
+    return this.promptRegistry.createVersion(id, dto);
+  }
+
+  @Post(':id/versions/:version/activate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Make a version of a prompt the one rendered from now on',
+    description:
+      'Earlier versions can be activated again to roll back a change.',
+  })
+  @ApiResponse({ status: 200, description: 'Version activated successfully' })
+  @ApiResponse({ status: 404, description: 'Prompt or version not found' })
+  async activate(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ) {
+    return this.promptRegistry.activate(id, version);
+  }
+}
@@ -1,13 +1,19 @@
-export class CategorizationPromptBuilder {
-  static build(transcription: string, clientName: string, closed: boolean): string {
-    return `You are an expert sales analyst. Analyze the following sales meeting transcription and extract key dimensions in JSON format.
+import { PromptDefinition, PromptId, PromptRequest } from './prompt.types';
+
+export const CATEGORIZATION_PROMPTS: PromptDefinition[] = [
+  {
+    id: PromptId.CATEGORIZATION,
+    description:
+      'Extracts the categorization dimensions of a client from its meeting transcription, as JSON',
+    variables: ['clientName', 'dealStatus', 'transcription'],
+    template: `You are an expert sales analyst. Analyze the following sales meeting transcription and extract key dimensions in JSON format.
 
-Client Name: ${clientName}
-Deal Status: ${closed ? 'CLOSED (Won)' : 'NOT CLOSED (Lost/Ongoing)'}
+Client Name: {{clientName}}
+Deal Status: {{dealStatus}}
 
 Transcription:
 """
-${transcription}
+{{transcription}}
 """
 
 Extract and return ONLY a valid JSON object with the following fields (no additional text or explanation):
@@ -24,7 +30,57 @@ Extract and return ONLY a valid JSON object with the following fields (no additi
   "sentiment": "positive | neutral | skeptical (overall tone of the prospect)"
 }
 
-IMPORTANT: Return ONLY the JSON object, nothing else.`;
+IMPORTANT: Return ONLY the JSON object, nothing else.`,
+  },
+  {
+    id: PromptId.CATEGORIZATION_REPAIR,
+    description:
+      'Asks again for a categorization whose answer failed validation, listing the errors',
+    variables: ['prompt', 'previousResponse', 'errors'],
+    template: `{{prompt}}
+
+Your previous answer was:
+{{previousResponse}}
+
+It was rejected for the following reasons:
+{{errors}}
+
+Return ONLY the corrected JSON object, nothing else.`,
+  },
+];
+
+export class CategorizationPromptBuilder {
+  static build(
+    transcription: string,
+    clientName: string,
+    closed: boolean,
+  ): PromptRequest {
+    return {
+      promptId: PromptId.CATEGORIZATION,
+      variables: {
+        clientName,
+        dealStatus: closed ? 'CLOSED (Won)' : 'NOT CLOSED (Lost/Ongoing)',
+        transcription,
+      },
+    };
   }
-}
 
+  /**
+   * Ask the model to fix an answer that failed validation, restating the original task
+   * @param prompt Rendered text of the categorization prompt
+   */
+  static buildRepair(
+    prompt: string,
+    previousResponse: string,
+    errors: string[],
+  ): PromptRequest {
+    return {
+      promptId: PromptId.CATEGORIZATION_REPAIR,
+      variables: {
+        prompt,
+        previousResponse,
+        errors: errors.map((error) => `- ${error}`).join('\n'),
+      },
+    };
+  }
+}
@@ -1,32 +1,30 @@
 import { LLM_CONSTANTS, API_CONSTANTS } from '../../common/constants';
-
-export class ClientPromptBuilder {
-  static buildPerceptionInsight(transcriptions: Array<{
-    transcription: string;
-    closed: boolean;
-    sentiment: string | null;
-  }>): string {
-    const sampleSize = Math.min(API_CONSTANTS.LIMITS.TRANSCRIPT_SAMPLE_SMALL, transcriptions.length);
-    const sampledTranscriptions = transcriptions.slice(0, sampleSize);
-    
-    const totalClients = transcriptions.length;
-    const closedCount = transcriptions.filter(t => t.closed).length;
-    const positiveSentiment = transcriptions.filter(t => t.sentiment === 'positive').length;
-    const neutralSentiment = transcriptions.filter(t => t.sentiment === 'neutral').length;
-    const negativeSentiment = transcriptions.filter(t => t.sentiment === 'negative').length;
-
-    return `You are a business analyst for Vambe, a sales analytics platform. Analyze these client meeting transcripts to understand how clients perceive Vambe.
+import { PromptDefinition, PromptId, PromptRequest } from './prompt.types';
+
+export const CLIENT_PROMPTS: PromptDefinition[] = [
+  {
+    id: PromptId.CLIENT_PERCEPTION_INSIGHT,
+    description:
+      'Summarizes how clients perceive Vambe from a sample of transcripts, as JSON',
+    variables: [
+      'totalClients',
+      'closedCount',
+      'closedRate',
+      'positiveCount',
+      'neutralCount',
+      'negativeCount',
+      'sampleSize',
+      'transcripts',
+    ],
+    template: `You are a business analyst for Vambe, a sales analytics platform. Analyze these client meeting transcripts to understand how clients perceive Vambe.
 
 Client Statistics:
-- Total clients analyzed: ${totalClients}
-- Closed deals: ${closedCount} (${((closedCount / totalClients) * 100).toFixed(1)}%)
-- Sentiment distribution: ${positiveSentiment} positive, ${neutralSentiment} neutral, ${negativeSentiment} negative
+- Total clients analyzed: {{totalClients}}
+- Closed deals: {{closedCount}} ({{closedRate}}%)
+- Sentiment distribution: {{positiveCount}} positive, {{neutralCount}} neutral, {{negativeCount}} negative
 
-Sample Transcripts (${sampledTranscriptions.length} of ${totalClients}):
-${sampledTranscriptions.map((t, idx) => `
-Transcript ${idx + 1} (${t.closed ? 'CLOSED' : 'NOT CLOSED'}, Sentiment: ${t.sentiment || 'unknown'}):
-${t.transcription.substring(0, LLM_CONSTANTS.TRANSCRIPTION_TRUNCATE.MEDIUM)}${t.transcription.length > LLM_CONSTANTS.TRANSCRIPTION_TRUNCATE.MEDIUM ? '...' : ''}
-`).join('\n---\n')}
+Sample Transcripts ({{sampleSize}} of {{totalClients}}):
+{{transcripts}}
 
 Analyze these transcripts and provide insights for each of the following aspects. Be SPECIFIC and mention actual themes, patterns, or feedback from the transcripts. Use concrete examples when possible. Each insight should be 2-3 sentences.
 
@@ -42,65 +40,35 @@ Return ONLY valid JSON, no additional text, no markdown formatting. Example form
   "concerns": "Some clients express concerns about...",
   "successFactors": "Closed deals are associated with...",
   "recommendations": "The sales team should focus on..."
-}`;
-  }
-
-  static buildSolutionsInsight(transcriptions: Array<{
-    transcription: string;
-    closed: boolean;
-    mainMotivation?: string | null;
-    technicalRequirements?: string[] | null;
-  }>): string {
-    const sampleSize = Math.min(API_CONSTANTS.LIMITS.TRANSCRIPT_SAMPLE_MEDIUM, transcriptions.length);
-    const sampledTranscriptions = transcriptions.slice(0, sampleSize);
-    
-    const totalClients = transcriptions.length;
-    const closedCount = transcriptions.filter(t => t.closed).length;
-    
-    const motivations = transcriptions
-      .filter(t => t.mainMotivation)
-      .map(t => t.mainMotivation!)
-      .reduce((acc, mot) => {
-        acc[mot] = (acc[mot] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-    
-    const allTechRequirements = transcriptions
-      .filter(t => t.technicalRequirements && t.technicalRequirements.length > 0)
-      .flatMap(t => t.technicalRequirements!);
-    
-    const techReqCounts = allTechRequirements.reduce((acc, req) => {
-      acc[req] = (acc[req] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const topMotivations = Object.entries(motivations)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, API_CONSTANTS.LIMITS.TOP_RESULTS_MEDIUM)
-      .map(([mot, count]) => `${mot}: ${count} clients`);
-    
-    const topTechReqs = Object.entries(techReqCounts)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, API_CONSTANTS.LIMITS.TOP_RESULTS_MEDIUM)
-      .map(([req, count]) => `${req}: ${count} mentions`);
-
-    return `You are a business analyst for Vambe, a sales analytics platform. Analyze these client meeting transcripts to identify the MAIN SOLUTIONS and needs that clients are seeking.
+}`,
+  },
+  {
+    id: PromptId.CLIENT_SOLUTIONS_INSIGHT,
+    description:
+      'Identifies the main solutions clients seek from a sample of transcripts',
+    variables: [
+      'totalClients',
+      'closedCount',
+      'closedRate',
+      'topMotivations',
+      'topTechnicalRequirements',
+      'sampleSize',
+      'transcripts',
+    ],
+    template: `You are a business analyst for Vambe, a sales analytics platform. Analyze these client meeting transcripts to identify the MAIN SOLUTIONS and needs that clients are seeking.
 
 Client Statistics:
-- Total clients analyzed: ${totalClients}
-- Closed deals: ${closedCount} (${((closedCount / totalClients) * 100).toFixed(1)}%)
+- Total clients analyzed: {{totalClients}}
+- Closed deals: {{closedCount}} ({{closedRate}}%)
 
 Top Motivations (why clients seek Vambe):
-${topMotivations.length > 0 ? topMotivations.join('\n') : 'No specific motivations identified'}
+{{topMotivations}}
 
 Top Technical Requirements:
-${topTechReqs.length > 0 ? topTechReqs.join('\n') : 'No specific technical requirements identified'}
+{{topTechnicalRequirements}}
 
-Sample Transcripts (${sampledTranscriptions.length} of ${totalClients}):
-${sampledTranscriptions.map((t, idx) => `
-Transcript ${idx + 1} (${t.closed ? 'CLOSED' : 'NOT CLOSED'}):
-${t.transcription.substring(0, LLM_CONSTANTS.TRANSCRIPTION_TRUNCATE.SHORT)}${t.transcription.length > LLM_CONSTANTS.TRANSCRIPTION_TRUNCATE.SHORT ? '...' : ''}
-`).join('\n---\n')}
+Sample Transcripts ({{sampleSize}} of {{totalClients}}):
+{{transcripts}}
 
 Based on these transcripts, identify the MAIN SOLUTIONS that clients are seeking from Vambe. Focus on:
 1. What problems are they trying to solve?
@@ -115,7 +83,134 @@ IMPORTANT: Your insight MUST:
 3. Relate solutions to client motivations and technical requirements when relevant
 4. Provide one actionable recommendation for the sales team
 
-Be specific and concrete. Name actual solutions and cite specific motivations or requirements when available. Return ONLY the insight text, no bullet points or formatting. Be professional and actionable.`;
+Be specific and concrete. Name actual solutions and cite specific motivations or requirements when available. Return ONLY the insight text, no bullet points or formatting. Be professional and actionable.`,
+  },
+];
+
+export class ClientPromptBuilder {
+  static buildPerceptionInsight(
+    transcriptions: Array<{
+      transcription: string;
+      closed: boolean;
+      sentiment: string | null;
+    }>,
+  ): PromptRequest {
+    const sampleSize = Math.min(
+      API_CONSTANTS.LIMITS.TRANSCRIPT_SAMPLE_SMALL,
+      transcriptions.length,
+    );
+    const sampledTranscriptions = transcriptions.slice(0, sampleSize);
+
+    const totalClients = transcriptions.length;
+    const closedCount = transcriptions.filter((t) => t.closed).length;
+    const positiveSentiment = transcriptions.filter(
+      (t) => t.sentiment === 'positive',
+    ).length;
+    const neutralSentiment = transcriptions.filter(
+      (t) => t.sentiment === 'neutral',
+    ).length;
+    const negativeSentiment = transcriptions.filter(
+      (t) => t.sentiment === 'negative',
+    ).length;
+
+    return {
+      promptId: PromptId.CLIENT_PERCEPTION_INSIGHT,
+      variables: {
+        totalClients: String(totalClients),
+        closedCount: String(closedCount),
+        closedRate: ((closedCount / totalClients) * 100).toFixed(1),
+        positiveCount: String(positiveSentiment),
+        neutralCount: String(neutralSentiment),
+        negativeCount: String(negativeSentiment),
+        sampleSize: String(sampledTranscriptions.length),
+        transcripts: sampledTranscriptions
+          .map(
+            (t, idx) => `
+Transcript ${idx + 1} (${t.closed ? 'CLOSED' : 'NOT CLOSED'}, Sentiment: ${t.sentiment || 'unknown'}):
+${t.transcription.substring(0, LLM_CONSTANTS.TRANSCRIPTION_TRUNCATE.MEDIUM)}${t.transcription.length > LLM_CONSTANTS.TRANSCRIPTION_TRUNCATE.MEDIUM ? '...' : ''}
+`,
+          )
+          .join('\n---\n'),
+      },
+    };
   }
-}
 
+  static buildSolutionsInsight(
+    transcriptions: Array<{
+      transcription: string;
+      closed: boolean;
+      mainMotivation?: string | null;
+      technicalRequirements?: string[] | null;
+    }>,
+  ): PromptRequest {
+    const sampleSize = Math.min(
+      API_CONSTANTS.LIMITS.TRANSCRIPT_SAMPLE_MEDIUM,
+      transcriptions.length,
+    );
+    const sampledTranscriptions = transcriptions.slice(0, sampleSize);
+
+    const totalClients = transcriptions.length;
+    const closedCount = transcriptions.filter((t) => t.closed).length;
+
+    const motivations = transcriptions
+      .filter((t) => t.mainMotivation)
+      .map((t) => t.mainMotivation!)
+      .reduce(
+        (acc, mot) => {
+          acc[mot] = (acc[mot] || 0) + 1;
+          return acc;
+        },
+        {} as Record<string, number>,
+      );
+
+    const allTechRequirements = transcriptions
+      .filter(
+        (t) => t.technicalRequirements && t.technicalRequirements.length > 0,
+      )
+      .flatMap((t) => t.technicalRequirements!);
+
+    const techReqCounts = allTechRequirements.reduce(
+      (acc, req) => {
+        acc[req] = (acc[req] || 0) + 1;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+
+    const topMotivations = Object.entries(motivations)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, API_CONSTANTS.LIMITS.TOP_RESULTS_MEDIUM)
+      .map(([mot, count]) => `${mot}: ${count} clients`);
+
+    const topTechReqs = Object.entries(techReqCounts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, API_CONSTANTS.LIMITS.TOP_RESULTS_MEDIUM)
+      .map(([req, count]) => `${req}: ${count} mentions`);
+
+    return {
+      promptId: PromptId.CLIENT_SOLUTIONS_INSIGHT,
+      variables: {
+        totalClients: String(totalClients),
+        closedCount: String(closedCount),
+        closedRate: ((closedCount / totalClients) * 100).toFixed(1),
+        topMotivations:
+          topMotivations.length > 0
+            ? topMotivations.join('\n')
+            : 'No specific motivations identified',
+        topTechnicalRequirements:
+          topTechReqs.length > 0
+            ? topTechReqs.join('\n')
+            : 'No specific technical requirements identified',
+        sampleSize: String(sampledTranscriptions.length),
+        transcripts: sampledTranscriptions
+          .map(
+            (t, idx) => `
+Transcript ${idx + 1} (${t.closed ? 'CLOSED' : 'NOT CLOSED'}):
+${t.transcription.substring(0, LLM_CONSTANTS.TRANSCRIPTION_TRUNCATE.SHORT)}${t.transcription.length > LLM_CONSTANTS.TRANSCRIPTION_TRUNCATE.SHORT ? '...' : ''}
+`,
+          )
+          .join('\n---\n'),
+      },
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { ANALYTICS_PROMPTS } from './analytics-prompt.builder';
+import { CATEGORIZATION_PROMPTS } from './categorization-prompt.builder';
+import { CLIENT_PROMPTS } from './client-prompt.builder';
+import { INDUSTRY_PROMPTS } from './industry-prompt.builder';
+import { PREDICTION_PROMPTS } from './prediction-prompt.builder';
+import { PromptDefinition } from './prompt.types';
+import { SELLER_PROMPTS } from './seller-prompt.builder';
+
+/**
+ * Built-in prompts, seeded into the registry as version 1 and used when the database has none
+ */
+export const DEFAULT_PROMPTS: PromptDefinition[] = [
+  ...CATEGORIZATION_PROMPTS,
+  ...PREDICTION_PROMPTS,
+  ...SELLER_PROMPTS,
+  ...INDUSTRY_PROMPTS,
+  ...CLIENT_PROMPTS,
+  ...ANALYTICS_PROMPTS,
+];
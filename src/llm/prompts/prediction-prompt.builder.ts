@@ -0,0 +1,79 @@
+import { PromptDefinition, PromptId, PromptRequest } from './prompt.types';
+
+export const PREDICTION_PROMPTS: PromptDefinition[] = [
+  {
+    id: PromptId.CONVERSION_PREDICTION,
+    description:
+      'Predicts the probability of closing an open deal, with one recommendation',
+    variables: [
+      'clientName',
+      'industry',
+      'sentiment',
+      'urgencyLevel',
+      'seller',
+      'discoverySource',
+      'operationSize',
+      'interactionVolume',
+      'painPoints',
+      'technicalRequirements',
+    ],
+    template: `You are a sales analytics expert. Analyze this open deal and predict the probability of closing it, along with ONE brief, actionable recommendation.
+
+Client Data:
+- Client: {{clientName}}
+- Industry: {{industry}}
+- Sentiment: {{sentiment}}
+- Urgency Level: {{urgencyLevel}}
+- Seller: {{seller}}
+- Discovery Source: {{discoverySource}}
+- Operation Size: {{operationSize}}
+- Interaction Volume: {{interactionVolume}}
+- Pain Points: {{painPoints}}
+- Technical Requirements: {{technicalRequirements}}
+
+Based on these factors, provide:
+1. A probability score (0-100) indicating likelihood of closing
+2. ONE specific, actionable recommendation in a single sentence
+
+Respond in this exact format:
+PROBABILITY: <number>
+RECOMMENDATION: <one sentence recommendation>`,
+  },
+];
+
+export class PredictionPromptBuilder {
+  static buildConversionPrediction(client: {
+    clientName: string;
+    industry: string;
+    sentiment: string;
+    urgencyLevel: string;
+    painPoints: string[];
+    technicalRequirements: string[];
+    seller: string;
+    discoverySource: string;
+    operationSize: string;
+    interactionVolume: number;
+  }): PromptRequest {
+    return {
+      promptId: PromptId.CONVERSION_PREDICTION,
+      variables: {
+        clientName: client.clientName,
+        industry: client.industry,
+        sentiment: client.sentiment,
+        urgencyLevel: client.urgencyLevel,
+        seller: client.seller,
+        discoverySource: client.discoverySource,
+        operationSize: client.operationSize,
+        interactionVolume: String(client.interactionVolume),
+        painPoints:
+          client.painPoints.length > 0
+            ? client.painPoints.join(', ')
+            : 'None specified',
+        technicalRequirements:
+          client.technicalRequirements.length > 0
+            ? client.technicalRequirements.join(', ')
+            : 'None specified',
+      },
+    };
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Prompts known to the registry; each id keeps its versions in the database
+ */
+export enum PromptId {
+  CATEGORIZATION = 'categorization',
+  CATEGORIZATION_REPAIR = 'categorization-repair',
+  CONVERSION_PREDICTION = 'conversion-prediction',
+  SELLER_FEEDBACK = 'seller-feedback',
+  SELLER_CORRELATION_INSIGHT = 'seller-correlation-insight',
+  SELLER_TIMELINE_INSIGHT = 'seller-timeline-insight',
+  INDUSTRY_DISTRIBUTION_INSIGHT = 'industry-distribution-insight',
+  INDUSTRY_CONVERSION_INSIGHT = 'industry-conversion-insight',
+  CLIENT_PERCEPTION_INSIGHT = 'client-perception-insight',
+  CLIENT_SOLUTIONS_INSIGHT = 'client-solutions-insight',
+  PAIN_POINTS_INSIGHT = 'pain-points-insight',
+  VOLUME_VS_CONVERSION_INSIGHT = 'volume-vs-conversion-insight',
+  TIMELINE_INSIGHT = 'timeline-insight',
+}
+
+export type PromptVariables = Record<string, string>;
+
+/**
+ * A prompt to render: the builders turn analytics data into the variables its templates use
+ */
+export interface PromptRequest {
+  promptId: PromptId;
+  variables: PromptVariables;
+}
+
+/**
+ * Built-in version of a prompt, stored as its version 1
+ */
+export interface PromptDefinition {
+  id: PromptId;
+  description: string;
+  variables: string[]; // Every variable the builder supplies; templates may use any of them
+  template: string; // Text with {{variable}} placeholders
+}
+
+export interface RenderedPrompt {
+  text: string;
+  version: string; // <prompt id>@<version>, as kept in the analysis log
+}
@@ -0,0 +1,30 @@
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export class PromptTemplateUtil {
+  /**
+   * Names of the {{variable}} placeholders of a template, without duplicates
+   */
+  static placeholders(template: string): string[] {
+    return [
+      ...new Set(
+        [...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]),
+      ),
+    ];
+  }
+
+  /**
+   * Replace every placeholder with its value in a single pass, so values containing braces are kept as is
+   * @throws Error when the template uses a variable without a value
+   */
+  static render(template: string, variables: Record<string, string>): string {
+    return template.replace(
+      PLACEHOLDER_PATTERN,
+      (_placeholder, name: string) => {
+        if (!(name in variables)) {
+          throw new Error(`Prompt variable ${name} has no value`);
+        }
+        return variables[name];
+      },
+    );
+  }
+}
@@ -39,6 +39,7 @@ async function bootstrap() {
     .setVersion('1.0')
     .addTag('analytics', 'Analytics and metrics endpoints')
     .addTag('clients', 'Client management endpoints')
+    .addTag('sellers', 'Seller and sales team management endpoints')
     .addTag('llm', 'LLM and AI processing endpoints')
     .build();
   const document = SwaggerModule.createDocument(app, config);
@@ -46,7 +47,7 @@ async function bootstrap() {
 
   const port = process.env.PORT || 3001;
   await app.listen(port);
-  
+
   const prismaService = app.get(PrismaService);
   try {
     await prismaService.$queryRaw`SELECT 1`;
@@ -54,8 +55,10 @@ async function bootstrap() {
   } catch (error) {
     console.error('❌ Database connection failed:', error);
   }
-  
+
   console.log(`🚀 Backend running on http://localhost:${port}/api`);
-  console.log(`📚 API Documentation available at http://localhost:${port}/api/docs`);
+  console.log(
+    `📚 API Documentation available at http://localhost:${port}/api/docs`,
+  );
 }
 bootstrap();
@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SellersController } from './sellers.controller';
+import { SellersService } from './sellers.service';
+
+describe('SellersController', () => {
+  let controller: SellersController;
+
+  const mockSellersService = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const seller = {
+    id: 'seller-1',
+    name: 'Toro',
+    email: 'toro@vambe.ai',
+    active: true,
+    hireDate: null,
+    aliases: ['J. Toro'],
+    clients: 12,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SellersController],
+      providers: [
+        {
+          provide: SellersService,
+          useValue: mockSellersService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<SellersController>(SellersController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create a seller', async () => {
+    mockSellersService.create.mockResolvedValue(seller);
+
+    const result = await controller.create({
+      name: 'Toro',
+      aliases: ['J. Toro'],
+    });
+
+    expect(result).toEqual(seller);
+    expect(mockSellersService.create).toHaveBeenCalledWith({
+      name: 'Toro',
+      aliases: ['J. Toro'],
+    });
+  });
+
+  it('should list sellers', async () => {
+    mockSellersService.findAll.mockResolvedValue([seller]);
+
+    await expect(controller.findAll()).resolves.toEqual([seller]);
+  });
+
+  it('should get a seller', async () => {
+    mockSellersService.findOne.mockResolvedValue(seller);
+
+    await expect(controller.findOne('seller-1')).resolves.toEqual(seller);
+    expect(mockSellersService.findOne).toHaveBeenCalledWith('seller-1');
+  });
+
+  it('should update a seller', async () => {
+    mockSellersService.update.mockResolvedValue({ ...seller, active: false });
+
+    await controller.update('seller-1', { active: false });
+
+    expect(mockSellersService.update).toHaveBeenCalledWith('seller-1', {
+      active: false,
+    });
+  });
+
+  it('should delete a seller', async () => {
+    await controller.remove('seller-1');
+
+    expect(mockSellersService.remove).toHaveBeenCalledWith('seller-1');
+  });
+});
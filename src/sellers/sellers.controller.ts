@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SellersService } from './sellers.service';
+import { CreateSellerDto, UpdateSellerDto } from '../common/dto/sellers';
+
+@ApiTags('sellers')
+@Controller('sellers')
+export class SellersController {
+  constructor(private readonly sellersService: SellersService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a seller',
+    description:
+      'aliases lists other spellings of the name found in import files; client and import seller names are matched against the name and aliases ignoring case and spacing.',
+  })
+  @ApiResponse({ status: 201, description: 'Seller created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid seller data' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The name, an alias or the email is already used by another seller',
+  })
+  async create(@Body() dto: CreateSellerDto) {
+    return this.sellersService.create(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List sellers with their number of clients' })
+  @ApiResponse({ status: 200, description: 'Sellers retrieved successfully' })
+  async findAll() {
+    return this.sellersService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a single seller by ID' })
+  @ApiResponse({ status: 200, description: 'Seller retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Seller not found' })
+  async findOne(@Param('id') id: string) {
+    return this.sellersService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a seller',
+    description:
+      "A new name is applied to all the seller's clients. Aliases, when given, replace the stored aliases.",
+  })
+  @ApiResponse({ status: 200, description: 'Seller updated successfully' })
+  @ApiResponse({ status: 404, description: 'Seller not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The name, an alias or the email is already used by another seller',
+  })
+  async update(@Param('id') id: string, @Body() dto: UpdateSellerDto) {
+    return this.sellersService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a seller without clients',
+    description:
+      'Sellers with clients (including clients in the trash) cannot be deleted; set active to false instead.',
+  })
+  @ApiResponse({ status: 204, description: 'Seller deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Seller not found' })
+  @ApiResponse({ status: 409, description: 'The seller still has clients' })
+  async remove(@Param('id') id: string) {
+    await this.sellersService.remove(id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SellersController } from './sellers.controller';
+import { SellersService } from './sellers.service';
+import { TeamsController } from './teams.controller';
+import { TeamsService } from './teams.service';
+
+@Module({
+  controllers: [SellersController, TeamsController],
+  providers: [SellersService, TeamsService],
+  exports: [SellersService, TeamsService],
+})
+export class SellersModule {}
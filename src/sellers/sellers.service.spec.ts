@@ -0,0 +1,259 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { SellersService } from './sellers.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../common/services/cache.service';
+
+describe('SellersService', () => {
+  let service: SellersService;
+
+  const mockPrismaService = {
+    seller: {
+      create: jest.fn(),
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    client: {
+      count: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockCacheService = {
+    clearAnalyticsCache: jest.fn(),
+  };
+
+  const toro = {
+    id: 'seller-1',
+    name: 'Toro',
+    email: null,
+    active: true,
+    hireDate: null,
+    aliases: ['J. Toro'],
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+  const rivas = { ...toro, id: 'seller-2', name: 'Rivas', aliases: [] };
+  const withClients = (seller: typeof toro, clients: number) => ({
+    ...seller,
+    _count: { clients },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SellersService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SellersService>(SellersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the cleaned name and drop repeated aliases', async () => {
+      mockPrismaService.seller.findMany.mockResolvedValueOnce([rivas]);
+      mockPrismaService.seller.create.mockResolvedValueOnce(
+        withClients(toro, 0),
+      );
+
+      const result = await service.create({
+        name: ' Toro ',
+        aliases: ['J.  Toro', 'toro', 'j. toro'],
+      });
+
+      expect(result).toMatchObject({
+        id: 'seller-1',
+        name: 'Toro',
+        clients: 0,
+      });
+      expect(mockPrismaService.seller.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Toro',
+          email: undefined,
+          active: undefined,
+          hireDate: undefined,
+          aliases: ['J. Toro'],
+        },
+        include: {
+          _count: { select: { clients: { where: { deletedAt: null } } } },
+        },
+      });
+    });
+
+    it('should throw ConflictException when the name matches another seller ignoring case', async () => {
+      mockPrismaService.seller.findMany.mockResolvedValueOnce([toro]);
+
+      await expect(service.create({ name: 'TORO' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrismaService.seller.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when an alias belongs to another seller', async () => {
+      mockPrismaService.seller.findMany.mockResolvedValueOnce([toro]);
+
+      await expect(
+        service.create({ name: 'Juan Toro', aliases: ['j. toro'] }),
+      ).rejects.toThrow(
+        'Seller name or alias j. toro is already used by seller Toro',
+      );
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException when the seller does not exist', async () => {
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should rename the seller on its clients and invalidate cached analytics', async () => {
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce(
+        withClients(toro, 3),
+      );
+      mockPrismaService.seller.findMany.mockResolvedValueOnce([toro, rivas]);
+      mockPrismaService.seller.update.mockReturnValueOnce('update-seller');
+      mockPrismaService.client.updateMany.mockReturnValueOnce('rename-clients');
+      mockPrismaService.$transaction.mockResolvedValueOnce([
+        withClients({ ...toro, name: 'Juan Toro' }, 3),
+        { count: 3 },
+      ]);
+
+      const result = await service.update('seller-1', { name: 'Juan Toro' });
+
+      expect(result.name).toBe('Juan Toro');
+      expect(mockPrismaService.client.updateMany).toHaveBeenCalledWith({
+        where: { sellerId: 'seller-1', assignedSeller: { not: 'Juan Toro' } },
+        data: { assignedSeller: 'Juan Toro' },
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith([
+        'update-seller',
+        'rename-clients',
+      ]);
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should allow changing the case of its own name', async () => {
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce(
+        withClients(toro, 3),
+      );
+      mockPrismaService.seller.findMany.mockResolvedValueOnce([toro, rivas]);
+      mockPrismaService.$transaction.mockResolvedValueOnce([
+        withClients({ ...toro, name: 'TORO' }, 3),
+        { count: 3 },
+      ]);
+
+      await expect(
+        service.update('seller-1', { name: 'TORO' }),
+      ).resolves.toMatchObject({ name: 'TORO' });
+    });
+
+    it('should keep cached analytics when the name does not change', async () => {
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce(
+        withClients(toro, 3),
+      );
+      mockPrismaService.seller.findMany.mockResolvedValueOnce([toro, rivas]);
+      mockPrismaService.$transaction.mockResolvedValueOnce([
+        withClients({ ...toro, active: false }, 3),
+        { count: 0 },
+      ]);
+
+      await service.update('seller-1', { active: false });
+
+      expect(mockCacheService.clearAnalyticsCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a seller without clients', async () => {
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce(
+        withClients(rivas, 0),
+      );
+      mockPrismaService.client.count.mockResolvedValueOnce(0);
+
+      await service.remove('seller-2');
+
+      expect(mockPrismaService.client.count).toHaveBeenCalledWith({
+        where: { sellerId: 'seller-2' },
+      });
+      expect(mockPrismaService.seller.delete).toHaveBeenCalledWith({
+        where: { id: 'seller-2' },
+      });
+    });
+
+    it('should refuse to delete a seller with clients', async () => {
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce(
+        withClients(toro, 0),
+      );
+      mockPrismaService.client.count.mockResolvedValueOnce(2);
+
+      await expect(service.remove('seller-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrismaService.seller.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveNames', () => {
+    it('should match names and aliases ignoring case and spacing', async () => {
+      mockPrismaService.seller.findMany.mockResolvedValueOnce([toro, rivas]);
+
+      const sellers = await service.resolveNames([
+        'toro ',
+        'J.  TORO',
+        'RIVAS',
+      ]);
+
+      expect(sellers.get('toro')).toBe(toro);
+      expect(sellers.get('j. toro')).toBe(toro);
+      expect(sellers.get('rivas')).toBe(rivas);
+      expect(mockPrismaService.seller.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should create one seller per unknown name', async () => {
+      const soto = { ...rivas, id: 'seller-3', name: 'Soto' };
+      mockPrismaService.seller.findMany
+        .mockResolvedValueOnce([toro])
+        .mockResolvedValueOnce([toro, soto]);
+
+      const sellers = await service.resolveNames(['Toro', ' Soto', 'soto']);
+
+      expect(mockPrismaService.seller.createMany).toHaveBeenCalledWith({
+        data: [{ name: 'Soto' }],
+        skipDuplicates: true,
+      });
+      expect(sellers.get('soto')).toBe(soto);
+    });
+  });
+
+  describe('findByNames', () => {
+    it('should leave unknown names out without creating sellers', async () => {
+      mockPrismaService.seller.findMany.mockResolvedValueOnce([toro]);
+
+      const sellers = await service.findByNames(['Toro', 'Soto']);
+
+      expect([...sellers.keys()]).toEqual(['toro']);
+      expect(mockPrismaService.seller.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
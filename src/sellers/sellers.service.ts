@@ -0,0 +1,299 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  Optional,
+} from '@nestjs/common';
+import { Prisma, Seller } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../common/services/cache.service';
+import {
+  CreateSellerDto,
+  SellerDto,
+  UpdateSellerDto,
+} from '../common/dto/sellers';
+import { cleanSellerName, toSellerKey } from '../common/utils/seller.utils';
+
+// Sellers are returned with the number of clients assigned to them, not counting the trash
+const WITH_CLIENT_COUNT = {
+  _count: { select: { clients: { where: { deletedAt: null } } } },
+} satisfies Prisma.SellerInclude;
+
+type SellerWithClientCount = Prisma.SellerGetPayload<{
+  include: typeof WITH_CLIENT_COUNT;
+}>;
+
+/**
+ * Manages the sellers clients are assigned to
+ * Seller names coming from forms and imports are resolved by name or alias, ignoring case and
+ * spacing, so "Toro", "toro" and "Toro " are the same seller. Clients keep a copy of the seller's
+ * name in assignedSeller, updated whenever the seller is renamed.
+ */
+@Injectable()
+export class SellersService {
+  private readonly logger = new Logger(SellersService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Optional() private readonly cacheService?: CacheService,
+  ) {}
+
+  /**
+   * @throws ConflictException when the name, an alias or the email is already used by another seller
+   */
+  async create(dto: CreateSellerDto): Promise<SellerDto> {
+    const name = cleanSellerName(dto.name);
+    const aliases = this.cleanAliases(dto.aliases ?? [], name);
+
+    await this.ensureNamesAvailable([name, ...aliases]);
+    if (dto.email) {
+      await this.ensureEmailAvailable(dto.email);
+    }
+
+    const seller = await this.prisma.seller.create({
+      data: {
+        name,
+        email: dto.email,
+        active: dto.active,
+        hireDate: dto.hireDate ? new Date(dto.hireDate) : undefined,
+        aliases,
+      },
+      include: WITH_CLIENT_COUNT,
+    });
+
+    this.logger.log(`Seller ${seller.name} created`);
+
+    return this.toSeller(seller);
+  }
+
+  async findAll(): Promise<SellerDto[]> {
+    const sellers = await this.prisma.seller.findMany({
+      include: WITH_CLIENT_COUNT,
+      orderBy: { name: 'asc' },
+    });
+
+    return sellers.map((seller) => this.toSeller(seller));
+  }
+
+  /**
+   * @throws NotFoundException when the seller does not exist
+   */
+  async findOne(id: string): Promise<SellerDto> {
+    const seller = await this.prisma.seller.findUnique({
+      where: { id },
+      include: WITH_CLIENT_COUNT,
+    });
+
+    if (!seller) {
+      throw new NotFoundException(`Seller with ID ${id} not found`);
+    }
+
+    return this.toSeller(seller);
+  }
+
+  /**
+   * Update a seller
+   * Renaming a seller renames it on all its clients in the same transaction and invalidates the
+   * analytics cache, where sellers appear by name.
+   * @throws NotFoundException when the seller does not exist
+   * @throws ConflictException when the new name, an alias or the email is already used by another seller
+   */
+  async update(id: string, dto: UpdateSellerDto): Promise<SellerDto> {
+    const existing = await this.findOne(id);
+    const name =
+      dto.name !== undefined ? cleanSellerName(dto.name) : existing.name;
+    const aliases =
+      dto.aliases !== undefined
+        ? this.cleanAliases(dto.aliases, name)
+        : undefined;
+    const renamed = name !== existing.name;
+
+    await this.ensureNamesAvailable([name, ...(aliases ?? [])], id);
+    if (dto.email && dto.email !== existing.email) {
+      await this.ensureEmailAvailable(dto.email);
+    }
+
+    const [seller] = await this.prisma.$transaction([
+      this.prisma.seller.update({
+        where: { id },
+        data: {
+          name,
+          email: dto.email,
+          active: dto.active,
+          hireDate: dto.hireDate ? new Date(dto.hireDate) : undefined,
+          aliases,
+        },
+        include: WITH_CLIENT_COUNT,
+      }),
+      this.prisma.client.updateMany({
+        where: { sellerId: id, assignedSeller: { not: name } },
+        data: { assignedSeller: name },
+      }),
+    ]);
+
+    if (renamed && this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log('Analytics cache invalidated after renaming a seller');
+    }
+
+    return this.toSeller(seller);
+  }
+
+  /**
+   * Delete a seller without clients
+   * Sellers who had clients are kept for their history; deactivate them instead.
+   * @throws NotFoundException when the seller does not exist
+   * @throws ConflictException when clients, including clients in the trash, are assigned to the seller
+   */
+  async remove(id: string): Promise<void> {
+    const seller = await this.findOne(id);
+    const clients = await this.prisma.client.count({ where: { sellerId: id } });
+
+    if (clients > 0) {
+      throw new ConflictException(
+        `Seller ${seller.name} has ${clients} clients; reassign them or set active to false instead`,
+      );
+    }
+
+    await this.prisma.seller.delete({ where: { id } });
+
+    this.logger.log(`Seller ${id} deleted`);
+  }
+
+  /**
+   * Find the sellers matching names typed by users, by name or alias
+   * @param names - Seller names as typed; case and spacing are ignored
+   * @returns The sellers found, keyed by toSellerKey of the name (names without a seller are omitted)
+   */
+  async findByNames(names: string[]): Promise<Map<string, Seller>> {
+    const sellersByKey = this.indexByKey(await this.prisma.seller.findMany());
+    const found = new Map<string, Seller>();
+
+    for (const key of new Set(names.map(toSellerKey))) {
+      const seller = sellersByKey.get(key);
+      if (seller) {
+        found.set(key, seller);
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Resolve names typed by users to sellers, creating a seller for each name not known yet
+   * @param names - Seller names as typed; case and spacing are ignored
+   * @returns A seller for every name, keyed by toSellerKey of the name
+   */
+  async resolveNames(names: string[]): Promise<Map<string, Seller>> {
+    const sellers = await this.findByNames(names);
+    const missing = new Map<string, string>();
+
+    for (const name of names) {
+      const key = toSellerKey(name);
+      if (!sellers.has(key) && !missing.has(key)) {
+        missing.set(key, cleanSellerName(name));
+      }
+    }
+
+    if (missing.size === 0) {
+      return sellers;
+    }
+
+    await this.prisma.seller.createMany({
+      data: [...missing.values()].map((name) => ({ name })),
+      skipDuplicates: true,
+    });
+
+    this.logger.log(
+      `Created ${missing.size} sellers: ${[...missing.values()].join(', ')}`,
+    );
+
+    return this.findByNames(names);
+  }
+
+  /**
+   * Resolve a single seller name, creating the seller when it is not known yet
+   */
+  async resolve(name: string): Promise<Seller> {
+    const sellers = await this.resolveNames([name]);
+    return sellers.get(toSellerKey(name))!;
+  }
+
+  /**
+   * @param exceptId - Seller whose own name and aliases may be reused (the one being updated)
+   * @private
+   */
+  private async ensureNamesAvailable(
+    names: string[],
+    exceptId?: string,
+  ): Promise<void> {
+    const sellersByKey = this.indexByKey(await this.prisma.seller.findMany());
+
+    for (const name of names) {
+      const owner = sellersByKey.get(toSellerKey(name));
+      if (owner && owner.id !== exceptId) {
+        throw new ConflictException(
+          `Seller name or alias ${name} is already used by seller ${owner.name}`,
+        );
+      }
+    }
+  }
+
+  private async ensureEmailAvailable(email: string): Promise<void> {
+    const existing = await this.prisma.seller.findUnique({
+      where: { email },
+    });
+
+    if (existing) {
+      throw new ConflictException(`Seller with email ${email} already exists`);
+    }
+  }
+
+  /**
+   * Drop aliases that repeat the name or each other once case and spacing are ignored
+   * @private
+   */
+  private cleanAliases(aliases: string[], name: string): string[] {
+    const seen = new Set([toSellerKey(name)]);
+
+    return aliases.map(cleanSellerName).filter((alias) => {
+      const key = toSellerKey(alias);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Map every name and alias key to its seller
+   * @private
+   */
+  private indexByKey(sellers: Seller[]): Map<string, Seller> {
+    const sellersByKey = new Map<string, Seller>();
+
+    for (const seller of sellers) {
+      for (const name of [seller.name, ...seller.aliases]) {
+        sellersByKey.set(toSellerKey(name), seller);
+      }
+    }
+
+    return sellersByKey;
+  }
+
+  private toSeller(seller: SellerWithClientCount): SellerDto {
+    return {
+      id: seller.id,
+      name: seller.name,
+      email: seller.email,
+      active: seller.active,
+      hireDate: seller.hireDate,
+      aliases: seller.aliases,
+      clients: seller._count.clients,
+      createdAt: seller.createdAt,
+      updatedAt: seller.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TeamsController } from './teams.controller';
+import { TeamsService } from './teams.service';
+
+describe('TeamsController', () => {
+  let controller: TeamsController;
+
+  const mockTeamsService = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+    addMember: jest.fn(),
+    updateMember: jest.fn(),
+    removeMember: jest.fn(),
+  };
+
+  const team = {
+    id: 'team-1',
+    name: 'North',
+    region: 'Chile',
+    manager: 'Ana Pérez',
+    memberships: [
+      {
+        id: 'membership-1',
+        sellerId: 'seller-1',
+        seller: 'Toro',
+        startDate: new Date('2024-01-01'),
+        endDate: null,
+      },
+    ],
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TeamsController],
+      providers: [
+        {
+          provide: TeamsService,
+          useValue: mockTeamsService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<TeamsController>(TeamsController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create a team', async () => {
+    mockTeamsService.create.mockResolvedValue(team);
+
+    const result = await controller.create({ name: 'North', region: 'Chile' });
+
+    expect(result).toEqual(team);
+    expect(mockTeamsService.create).toHaveBeenCalledWith({
+      name: 'North',
+      region: 'Chile',
+    });
+  });
+
+  it('should list teams', async () => {
+    mockTeamsService.findAll.mockResolvedValue([team]);
+
+    await expect(controller.findAll()).resolves.toEqual([team]);
+  });
+
+  it('should delete a team', async () => {
+    await controller.remove('team-1');
+
+    expect(mockTeamsService.remove).toHaveBeenCalledWith('team-1');
+  });
+
+  it('should add a seller to a team', async () => {
+    mockTeamsService.addMember.mockResolvedValue(team);
+    const dto = { sellerId: 'seller-1', startDate: '2024-01-01' };
+
+    await controller.addMember('team-1', dto);
+
+    expect(mockTeamsService.addMember).toHaveBeenCalledWith('team-1', dto);
+  });
+
+  it('should end a membership', async () => {
+    mockTeamsService.updateMember.mockResolvedValue(team);
+
+    await controller.updateMember('team-1', 'membership-1', {
+      endDate: '2024-06-01',
+    });
+
+    expect(mockTeamsService.updateMember).toHaveBeenCalledWith(
+      'team-1',
+      'membership-1',
+      { endDate: '2024-06-01' },
+    );
+  });
+
+  it('should delete a membership', async () => {
+    await controller.removeMember('team-1', 'membership-1');
+
+    expect(mockTeamsService.removeMember).toHaveBeenCalledWith(
+      'team-1',
+      'membership-1',
+    );
+  });
+});
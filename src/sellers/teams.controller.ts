@@ -0,0 +1,127 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { TeamsService } from './teams.service';
+import {
+  AddTeamMemberDto,
+  CreateTeamDto,
+  UpdateTeamDto,
+  UpdateTeamMemberDto,
+} from '../common/dto/sellers';
+
+@ApiTags('sellers')
+@Controller('teams')
+export class TeamsController {
+  constructor(private readonly teamsService: TeamsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a sales team',
+    description:
+      'region groups teams for comparison in the team analytics (e.g. GET /analytics/teams?region=North).',
+  })
+  @ApiResponse({ status: 201, description: 'Team created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid team data' })
+  @ApiResponse({
+    status: 409,
+    description: 'A team with this name already exists',
+  })
+  async create(@Body() dto: CreateTeamDto) {
+    return this.teamsService.create(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List teams with their memberships' })
+  @ApiResponse({ status: 200, description: 'Teams retrieved successfully' })
+  async findAll() {
+    return this.teamsService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a single team by ID' })
+  @ApiResponse({ status: 200, description: 'Team retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  async findOne(@Param('id') id: string) {
+    return this.teamsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a team' })
+  @ApiResponse({ status: 200, description: 'Team updated successfully' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'A team with this name already exists',
+  })
+  async update(@Param('id') id: string, @Body() dto: UpdateTeamDto) {
+    return this.teamsService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a team and its memberships' })
+  @ApiResponse({ status: 204, description: 'Team deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  async remove(@Param('id') id: string) {
+    await this.teamsService.remove(id);
+  }
+
+  @Post(':id/members')
+  @ApiOperation({
+    summary: 'Add a seller to a team from a date',
+    description:
+      'Deals are credited to the team when their meeting falls within the membership. A membership the seller still has on another team is ended at the new startDate.',
+  })
+  @ApiResponse({ status: 201, description: 'Seller added to the team' })
+  @ApiResponse({ status: 400, description: 'endDate is not after startDate' })
+  @ApiResponse({ status: 404, description: 'Team or seller not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'The period overlaps another membership of the seller',
+  })
+  async addMember(@Param('id') id: string, @Body() dto: AddTeamMemberDto) {
+    return this.teamsService.addMember(id, dto);
+  }
+
+  @Patch(':id/members/:membershipId')
+  @ApiOperation({
+    summary: 'Change the dates of a membership',
+    description:
+      'Set endDate when the seller leaves the team; null reopens the membership.',
+  })
+  @ApiResponse({ status: 200, description: 'Membership updated successfully' })
+  @ApiResponse({ status: 400, description: 'endDate is not after startDate' })
+  @ApiResponse({ status: 404, description: 'Membership not found on the team' })
+  @ApiResponse({
+    status: 409,
+    description: 'The period overlaps another membership of the seller',
+  })
+  async updateMember(
+    @Param('id') id: string,
+    @Param('membershipId') membershipId: string,
+    @Body() dto: UpdateTeamMemberDto,
+  ) {
+    return this.teamsService.updateMember(id, membershipId, dto);
+  }
+
+  @Delete(':id/members/:membershipId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a membership entered by mistake' })
+  @ApiResponse({ status: 204, description: 'Membership deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Membership not found on the team' })
+  async removeMember(
+    @Param('id') id: string,
+    @Param('membershipId') membershipId: string,
+  ) {
+    await this.teamsService.removeMember(id, membershipId);
+  }
+}
@@ -0,0 +1,298 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { TeamsService } from './teams.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../common/services/cache.service';
+
+describe('TeamsService', () => {
+  let service: TeamsService;
+
+  const mockPrismaService = {
+    team: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    teamMembership: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    seller: {
+      findUnique: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockCacheService = {
+    clearAnalyticsCache: jest.fn(),
+  };
+
+  const north = {
+    id: 'team-1',
+    name: 'North',
+    region: 'Chile',
+    manager: null,
+    memberships: [],
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const membership = (
+    id: string,
+    teamId: string,
+    startDate: string,
+    endDate: string | null = null,
+  ) => ({
+    id,
+    teamId,
+    sellerId: 'seller-1',
+    startDate: new Date(startDate),
+    endDate: endDate ? new Date(endDate) : null,
+    createdAt: new Date('2024-01-01'),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TeamsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TeamsService>(TeamsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a team', async () => {
+      mockPrismaService.team.findUnique.mockResolvedValueOnce(null);
+      mockPrismaService.team.create.mockResolvedValueOnce(north);
+
+      const result = await service.create({ name: 'North', region: 'Chile' });
+
+      expect(result).toMatchObject({
+        id: 'team-1',
+        name: 'North',
+        region: 'Chile',
+        memberships: [],
+      });
+    });
+
+    it('should throw ConflictException when the name is taken', async () => {
+      mockPrismaService.team.findUnique.mockResolvedValueOnce(north);
+
+      await expect(service.create({ name: 'North' })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should invalidate cached analytics when the region changes', async () => {
+      mockPrismaService.team.findUnique.mockResolvedValueOnce(north);
+      mockPrismaService.team.update.mockResolvedValueOnce({
+        ...north,
+        region: 'Peru',
+      });
+
+      await service.update('team-1', { region: 'Peru' });
+
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should keep cached analytics when only the manager changes', async () => {
+      mockPrismaService.team.findUnique.mockResolvedValueOnce(north);
+      mockPrismaService.team.update.mockResolvedValueOnce({
+        ...north,
+        manager: 'Ana Pérez',
+      });
+
+      await service.update('team-1', { manager: 'Ana Pérez' });
+
+      expect(mockCacheService.clearAnalyticsCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addMember', () => {
+    it('should throw NotFoundException when the seller does not exist', async () => {
+      mockPrismaService.team.findUnique.mockResolvedValueOnce(north);
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce(null);
+
+      await expect(
+        service.addMember('team-1', {
+          sellerId: 'missing',
+          startDate: '2024-01-01',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject an end date before the start date', async () => {
+      mockPrismaService.team.findUnique.mockResolvedValueOnce(north);
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce({
+        id: 'seller-1',
+        name: 'Toro',
+        memberships: [],
+      });
+
+      await expect(
+        service.addMember('team-1', {
+          sellerId: 'seller-1',
+          startDate: '2024-06-01',
+          endDate: '2024-01-01',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should end the open membership of a seller moving from another team', async () => {
+      mockPrismaService.team.findUnique
+        .mockResolvedValueOnce(north)
+        .mockResolvedValueOnce(north);
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce({
+        id: 'seller-1',
+        name: 'Toro',
+        memberships: [membership('membership-1', 'team-2', '2024-01-01')],
+      });
+      mockPrismaService.teamMembership.update.mockReturnValueOnce(
+        'end-previous',
+      );
+      mockPrismaService.teamMembership.create.mockReturnValueOnce(
+        'create-membership',
+      );
+
+      await service.addMember('team-1', {
+        sellerId: 'seller-1',
+        startDate: '2024-06-01',
+      });
+
+      expect(mockPrismaService.teamMembership.update).toHaveBeenCalledWith({
+        where: { id: 'membership-1' },
+        data: { endDate: new Date('2024-06-01') },
+      });
+      expect(mockPrismaService.teamMembership.create).toHaveBeenCalledWith({
+        data: {
+          teamId: 'team-1',
+          sellerId: 'seller-1',
+          startDate: new Date('2024-06-01'),
+          endDate: null,
+        },
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith([
+        'end-previous',
+        'create-membership',
+      ]);
+      expect(mockCacheService.clearAnalyticsCache).toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when the period overlaps a past membership', async () => {
+      mockPrismaService.team.findUnique.mockResolvedValueOnce(north);
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce({
+        id: 'seller-1',
+        name: 'Toro',
+        memberships: [
+          membership('membership-1', 'team-2', '2024-01-01', '2024-06-01'),
+        ],
+      });
+
+      await expect(
+        service.addMember('team-1', {
+          sellerId: 'seller-1',
+          startDate: '2024-03-01',
+        }),
+      ).rejects.toThrow(
+        'Seller Toro is already on a team from 2024-01-01 to 2024-06-01',
+      );
+      expect(mockPrismaService.teamMembership.create).not.toHaveBeenCalled();
+    });
+
+    it('should allow a membership starting the day the previous one ended', async () => {
+      mockPrismaService.team.findUnique
+        .mockResolvedValueOnce(north)
+        .mockResolvedValueOnce(north);
+      mockPrismaService.seller.findUnique.mockResolvedValueOnce({
+        id: 'seller-1',
+        name: 'Toro',
+        memberships: [
+          membership('membership-1', 'team-2', '2024-01-01', '2024-06-01'),
+        ],
+      });
+      mockPrismaService.teamMembership.create.mockResolvedValueOnce({});
+
+      await service.addMember('team-1', {
+        sellerId: 'seller-1',
+        startDate: '2024-06-01',
+      });
+
+      expect(mockPrismaService.teamMembership.create).toHaveBeenCalled();
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateMember', () => {
+    it('should throw NotFoundException when the membership is not on the team', async () => {
+      mockPrismaService.teamMembership.findFirst.mockResolvedValueOnce(null);
+
+      await expect(
+        service.updateMember('team-1', 'membership-9', {
+          endDate: '2024-06-01',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should end a membership', async () => {
+      mockPrismaService.teamMembership.findFirst.mockResolvedValueOnce({
+        ...membership('membership-1', 'team-1', '2024-01-01'),
+        seller: { name: 'Toro' },
+      });
+      mockPrismaService.teamMembership.findMany.mockResolvedValueOnce([]);
+      mockPrismaService.team.findUnique.mockResolvedValueOnce(north);
+
+      await service.updateMember('team-1', 'membership-1', {
+        endDate: '2024-06-01',
+      });
+
+      expect(mockPrismaService.teamMembership.findMany).toHaveBeenCalledWith({
+        where: { sellerId: 'seller-1', id: { not: 'membership-1' } },
+      });
+      expect(mockPrismaService.teamMembership.update).toHaveBeenCalledWith({
+        where: { id: 'membership-1' },
+        data: {
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-06-01'),
+        },
+      });
+    });
+
+    it('should throw ConflictException when reopening a membership the seller has left', async () => {
+      mockPrismaService.teamMembership.findFirst.mockResolvedValueOnce({
+        ...membership('membership-1', 'team-1', '2024-01-01', '2024-06-01'),
+        seller: { name: 'Toro' },
+      });
+      mockPrismaService.teamMembership.findMany.mockResolvedValueOnce([
+        membership('membership-2', 'team-2', '2024-06-01'),
+      ]);
+
+      await expect(
+        service.updateMember('team-1', 'membership-1', { endDate: null }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+});
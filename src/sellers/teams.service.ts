@@ -0,0 +1,330 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  Optional,
+} from '@nestjs/common';
+import { Prisma, TeamMembership } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../common/services/cache.service';
+import {
+  AddTeamMemberDto,
+  CreateTeamDto,
+  TeamDto,
+  UpdateTeamDto,
+  UpdateTeamMemberDto,
+} from '../common/dto/sellers';
+
+// Teams are returned with their memberships, oldest first
+const WITH_MEMBERSHIPS = {
+  memberships: {
+    include: { seller: { select: { name: true } } },
+    orderBy: { startDate: 'asc' },
+  },
+} satisfies Prisma.TeamInclude;
+
+type TeamWithMemberships = Prisma.TeamGetPayload<{
+  include: typeof WITH_MEMBERSHIPS;
+}>;
+
+/**
+ * Manages sales teams and the sellers that belong to them
+ * Memberships are dated so a seller's deals are credited to the team they were on at the time of
+ * the meeting; a seller belongs to at most one team at a time.
+ */
+@Injectable()
+export class TeamsService {
+  private readonly logger = new Logger(TeamsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Optional() private readonly cacheService?: CacheService,
+  ) {}
+
+  /**
+   * @throws ConflictException when a team with the same name exists
+   */
+  async create(dto: CreateTeamDto): Promise<TeamDto> {
+    await this.ensureNameAvailable(dto.name);
+
+    const team = await this.prisma.team.create({
+      data: {
+        name: dto.name,
+        region: dto.region,
+        manager: dto.manager,
+      },
+      include: WITH_MEMBERSHIPS,
+    });
+
+    this.logger.log(`Team ${team.name} created`);
+
+    return this.toTeam(team);
+  }
+
+  async findAll(): Promise<TeamDto[]> {
+    const teams = await this.prisma.team.findMany({
+      include: WITH_MEMBERSHIPS,
+      orderBy: { name: 'asc' },
+    });
+
+    return teams.map((team) => this.toTeam(team));
+  }
+
+  /**
+   * @throws NotFoundException when the team does not exist
+   */
+  async findOne(id: string): Promise<TeamDto> {
+    const team = await this.prisma.team.findUnique({
+      where: { id },
+      include: WITH_MEMBERSHIPS,
+    });
+
+    if (!team) {
+      throw new NotFoundException(`Team with ID ${id} not found`);
+    }
+
+    return this.toTeam(team);
+  }
+
+  /**
+   * Update a team
+   * Team analytics report teams by name and filter them by region, so changing either invalidates
+   * the analytics cache.
+   * @throws NotFoundException when the team does not exist
+   * @throws ConflictException when another team has the new name
+   */
+  async update(id: string, dto: UpdateTeamDto): Promise<TeamDto> {
+    const existing = await this.findOne(id);
+
+    if (dto.name && dto.name !== existing.name) {
+      await this.ensureNameAvailable(dto.name);
+    }
+
+    const team = await this.prisma.team.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        region: dto.region,
+        manager: dto.manager,
+      },
+      include: WITH_MEMBERSHIPS,
+    });
+
+    if (
+      (team.name !== existing.name || team.region !== existing.region) &&
+      this.cacheService
+    ) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log('Analytics cache invalidated after changing a team');
+    }
+
+    return this.toTeam(team);
+  }
+
+  /**
+   * Delete a team together with its memberships
+   * @throws NotFoundException when the team does not exist
+   */
+  async remove(id: string): Promise<void> {
+    await this.findOne(id);
+    await this.prisma.team.delete({ where: { id } });
+
+    this.logger.log(`Team ${id} deleted`);
+    this.invalidateAnalytics('deleting a team');
+  }
+
+  /**
+   * Add a seller to a team from a date
+   * A seller moving from another team does not need to leave it first: a membership still open at
+   * the new start date is ended on that date.
+   * @throws NotFoundException when the team or the seller does not exist
+   * @throws BadRequestException when endDate is not after startDate
+   * @throws ConflictException when the period overlaps another membership of the seller
+   */
+  async addMember(teamId: string, dto: AddTeamMemberDto): Promise<TeamDto> {
+    await this.findOne(teamId);
+
+    const seller = await this.prisma.seller.findUnique({
+      where: { id: dto.sellerId },
+      include: { memberships: true },
+    });
+
+    if (!seller) {
+      throw new NotFoundException(`Seller with ID ${dto.sellerId} not found`);
+    }
+
+    const startDate = new Date(dto.startDate);
+    const endDate = dto.endDate ? new Date(dto.endDate) : null;
+    this.ensureValidPeriod(startDate, endDate);
+
+    // The membership the seller is leaving, if any
+    const previous = seller.memberships.find(
+      (membership) =>
+        membership.endDate === null && membership.startDate < startDate,
+    );
+    const others = seller.memberships.filter(
+      (membership) => membership !== previous,
+    );
+    this.ensureNoOverlap(others, startDate, endDate, seller.name);
+
+    const create = this.prisma.teamMembership.create({
+      data: { teamId, sellerId: seller.id, startDate, endDate },
+    });
+
+    if (previous) {
+      await this.prisma.$transaction([
+        this.prisma.teamMembership.update({
+          where: { id: previous.id },
+          data: { endDate: startDate },
+        }),
+        create,
+      ]);
+    } else {
+      await create;
+    }
+
+    this.logger.log(`Seller ${seller.name} added to team ${teamId}`);
+    this.invalidateAnalytics('changing a team membership');
+
+    return this.findOne(teamId);
+  }
+
+  /**
+   * Change the dates of a membership, e.g. to record the day a seller left the team
+   * @throws NotFoundException when the membership does not exist on the team
+   * @throws BadRequestException when the end date is not after the start date
+   * @throws ConflictException when the new period overlaps another membership of the seller
+   */
+  async updateMember(
+    teamId: string,
+    membershipId: string,
+    dto: UpdateTeamMemberDto,
+  ): Promise<TeamDto> {
+    const membership = await this.findMembership(teamId, membershipId);
+
+    const startDate = dto.startDate
+      ? new Date(dto.startDate)
+      : membership.startDate;
+    const endDate =
+      dto.endDate === undefined
+        ? membership.endDate
+        : dto.endDate === null
+          ? null
+          : new Date(dto.endDate);
+    this.ensureValidPeriod(startDate, endDate);
+
+    const others = await this.prisma.teamMembership.findMany({
+      where: { sellerId: membership.sellerId, id: { not: membershipId } },
+    });
+    this.ensureNoOverlap(others, startDate, endDate, membership.seller.name);
+
+    await this.prisma.teamMembership.update({
+      where: { id: membershipId },
+      data: { startDate, endDate },
+    });
+
+    this.invalidateAnalytics('changing a team membership');
+
+    return this.findOne(teamId);
+  }
+
+  /**
+   * Delete a membership entered by mistake; to record that a seller left, set its endDate instead
+   * @throws NotFoundException when the membership does not exist on the team
+   */
+  async removeMember(teamId: string, membershipId: string): Promise<void> {
+    await this.findMembership(teamId, membershipId);
+    await this.prisma.teamMembership.delete({ where: { id: membershipId } });
+
+    this.logger.log(`Membership ${membershipId} removed from team ${teamId}`);
+    this.invalidateAnalytics('changing a team membership');
+  }
+
+  private async findMembership(teamId: string, membershipId: string) {
+    const membership = await this.prisma.teamMembership.findFirst({
+      where: { id: membershipId, teamId },
+      include: { seller: { select: { name: true } } },
+    });
+
+    if (!membership) {
+      throw new NotFoundException(
+        `Membership ${membershipId} not found on team ${teamId}`,
+      );
+    }
+
+    return membership;
+  }
+
+  private async ensureNameAvailable(name: string): Promise<void> {
+    const existing = await this.prisma.team.findUnique({
+      where: { name },
+    });
+
+    if (existing) {
+      throw new ConflictException(`Team named ${name} already exists`);
+    }
+  }
+
+  private ensureValidPeriod(startDate: Date, endDate: Date | null): void {
+    if (endDate && endDate <= startDate) {
+      throw new BadRequestException('endDate must be after startDate');
+    }
+  }
+
+  /**
+   * Periods are half-open ([startDate, endDate)), so a membership may start the day another ends
+   * @private
+   */
+  private ensureNoOverlap(
+    memberships: TeamMembership[],
+    startDate: Date,
+    endDate: Date | null,
+    sellerName: string,
+  ): void {
+    const overlapping = memberships.find(
+      (membership) =>
+        (endDate === null || membership.startDate < endDate) &&
+        (membership.endDate === null || startDate < membership.endDate),
+    );
+
+    if (overlapping) {
+      const until = overlapping.endDate
+        ? overlapping.endDate.toISOString().split('T')[0]
+        : 'now';
+      throw new ConflictException(
+        `Seller ${sellerName} is already on a team from ${overlapping.startDate.toISOString().split('T')[0]} to ${until}`,
+      );
+    }
+  }
+
+  /**
+   * Team analytics credit deals by membership, so every membership change invalidates them
+   * @private
+   */
+  private invalidateAnalytics(reason: string): void {
+    if (this.cacheService) {
+      this.cacheService.clearAnalyticsCache();
+      this.logger.log(`Analytics cache invalidated after ${reason}`);
+    }
+  }
+
+  private toTeam(team: TeamWithMemberships): TeamDto {
+    return {
+      id: team.id,
+      name: team.name,
+      region: team.region,
+      manager: team.manager,
+      memberships: team.memberships.map((membership) => ({
+        id: membership.id,
+        sellerId: membership.sellerId,
+        seller: membership.seller.name,
+        startDate: membership.startDate,
+        endDate: membership.endDate,
+      })),
+      createdAt: team.createdAt,
+      updatedAt: team.updatedAt,
+    };
+  }
+}